@@ -0,0 +1,229 @@
+/**
+ * Admin Chef Wallet Credit
+ *
+ * Grant platform-funded promotional credit to a chef's kitchen wallet,
+ * optionally limited to one location and with an expiry date.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { auth } from "@/lib/firebase";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Wallet } from "lucide-react";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from "@shared/currency-utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface UserOption {
+  id: number;
+  role: string;
+  displayText: string;
+}
+
+interface LocationOption {
+  id: number;
+  name: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function adminFetch(url: string, options: RequestInit = {}) {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+  const token = await currentUser.getIdToken();
+  const res = await fetch(url, {
+    ...options,
+    credentials: "include",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      ...(options.headers || {}),
+    },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function ChefWalletCreditGrant() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [chefId, setChefId] = useState<string>("");
+  const [amount, setAmount] = useState("");
+  const [locationId, setLocationId] = useState("all");
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: users = [] } = useQuery<UserOption[]>({
+    queryKey: ["/api/admin/users", search],
+    queryFn: async () => (await adminFetch(`/api/admin/users?search=${encodeURIComponent(search.trim())}`)).users,
+    enabled: search.trim().length >= 2,
+  });
+  const chefs = users.filter((user) => user.role === "chef");
+
+  const { data: locations = [] } = useQuery<LocationOption[]>({
+    queryKey: ["/api/admin/transactions/locations"],
+    queryFn: () => adminFetch("/api/admin/transactions/locations"),
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: () =>
+      adminFetch(`/api/admin/chefs/${chefId}/wallet-credits`, {
+        method: "POST",
+        body: JSON.stringify({
+          amountCents: Math.round(parseFloat(amount) * 100),
+          locationId: locationId === "all" ? null : parseInt(locationId, 10),
+          // Credit for one location takes that location's currency
+          currency: locationId === "all" ? currency : undefined,
+          // Credit is usable through the end of the chosen day
+          expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+          note: note.trim() || null,
+        }),
+      }),
+    onSuccess: () => {
+      toast({ title: "Credit Granted", description: `$${parseFloat(amount).toFixed(2)} added to the chef's wallet.` });
+      setAmount("");
+      setNote("");
+      setExpiresAt("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canGrant = !!chefId && parseFloat(amount) > 0 && !grantMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Chef Wallet Credit
+        </CardTitle>
+        <CardDescription>
+          Platform-funded credit chefs spend on kitchen bookings. Managers are paid in full when it is used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="wallet-chef-search">Chef</Label>
+            <Input
+              id="wallet-chef-search"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setChefId("");
+              }}
+              placeholder="Search by name or email"
+            />
+            {chefs.length > 0 && (
+              <Select value={chefId} onValueChange={setChefId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a chef" />
+                </SelectTrigger>
+                <SelectContent>
+                  {chefs.map((chef) => (
+                    <SelectItem key={chef.id} value={String(chef.id)}>
+                      {chef.displayText}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="wallet-credit-amount">Amount</Label>
+            <CurrencyInput
+              id="wallet-credit-amount"
+              value={amount}
+              onValueChange={setAmount}
+              placeholder="0.00"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Spendable at</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All locations</SelectItem>
+                {locations.map((loc) => (
+                  <SelectItem key={loc.id} value={String(loc.id)}>
+                    {loc.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {locationId === "all" && (
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="wallet-credit-expiry">Expires (optional)</Label>
+            <Input
+              id="wallet-credit-expiry"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="wallet-credit-note">Note (shown to the chef)</Label>
+          <Input
+            id="wallet-credit-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Welcome credit"
+            maxLength={200}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={() => grantMutation.mutate()} disabled={!canGrant}>
+            {grantMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Grant Credit
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
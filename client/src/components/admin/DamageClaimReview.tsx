@@ -131,6 +131,7 @@ function getEvidenceTypeLabel(type: string): string {
     video: "Video",
     document: "Document",
     third_party_report: "Third Party Report",
+    photo_comparison: "Photo Comparison",
   };
   return labels[type] || type;
 }
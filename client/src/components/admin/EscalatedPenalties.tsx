@@ -2,11 +2,13 @@
  * Admin Escalated Penalties Dashboard
  * 
  * Shows all escalated overstay penalties and damage claims across all locations
- * that require manual admin collection action.
+ * that require manual admin collection action, plus the dunning queue: failed
+ * charges waiting for their next automatic retry.
  */
 
 import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
 import { auth } from "@/lib/firebase";
 import {
   Card,
@@ -17,6 +19,7 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import {
@@ -44,6 +47,8 @@ import {
   Package,
   FileWarning,
   CheckCircle,
+  Clock,
+  Save,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -59,6 +64,8 @@ interface EscalatedOverstay {
   calculatedPenaltyCents: number;
   finalPenaltyCents: number | null;
   chargeFailureReason: string | null;
+  chargeRetryCount: number;
+  nextChargeRetryAt: string | null;
   detectedAt: string;
   resolvedAt: string | null;
   storageName: string;
@@ -76,6 +83,8 @@ interface EscalatedClaim {
   claimedAmountCents: number;
   finalAmountCents: number | null;
   chargeFailureReason: string | null;
+  chargeRetryCount: number;
+  nextChargeRetryAt: string | null;
   bookingType: string;
   createdAt: string;
   locationName: string;
@@ -87,21 +96,25 @@ interface EscalatedSummary {
   totalEscalatedOverstays: number;
   totalEscalatedClaims: number;
   totalEscalatedAmountCents: number;
+  totalRetryingOverstays?: number;
+  totalRetryingClaims?: number;
 }
 
 // ============================================================================
 // Helper
 // ============================================================================
 
-async function adminFetch(url: string) {
+async function adminFetch(url: string, options: RequestInit = {}) {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error("Not authenticated");
   const token = await currentUser.getIdToken();
   const res = await fetch(url, {
+    ...options,
     credentials: "include",
     headers: {
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
+      ...(options.headers || {}),
     },
   });
   if (!res.ok) {
@@ -115,6 +128,92 @@ function formatCurrency(cents: number) {
   return `$${(cents / 100).toFixed(2)} CAD`;
 }
 
+function formatDelay(hours: number) {
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+/** Attempts so far and when the next automatic retry runs */
+function RetryInfo({ status, chargeRetryCount, nextChargeRetryAt }: { status: string; chargeRetryCount: number; nextChargeRetryAt: string | null }) {
+  if (chargeRetryCount === 0) return null;
+  return (
+    <p className="text-xs text-muted-foreground mt-1 whitespace-nowrap">
+      {chargeRetryCount} failed attempt{chargeRetryCount === 1 ? "" : "s"}
+      {status === "charge_failed" && nextChargeRetryAt
+        ? ` · retry ${format(new Date(nextChargeRetryAt), "MMM d, h:mm a")}`
+        : ""}
+    </p>
+  );
+}
+
+// ============================================================================
+// Retry Schedule
+// ============================================================================
+
+function RetryScheduleCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const { data } = useQuery<{ backoffHours: number[]; defaults: { backoffHours: number[] } }>({
+    queryKey: ["/api/admin/charge-retry-settings"],
+    queryFn: () => adminFetch("/api/admin/charge-retry-settings"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (backoffHours: number[]) =>
+      adminFetch("/api/admin/charge-retry-settings", {
+        method: "PUT",
+        body: JSON.stringify({ backoffHours }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/charge-retry-settings"] });
+      setDraft(null);
+      toast({ title: "Retry schedule saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data) return null;
+
+  const value = draft ?? data.backoffHours.join(", ");
+  const handleSave = () => {
+    const hours = value.trim() === "" ? [] : value.split(",").map((h) => Number(h.trim()));
+    saveMutation.mutate(hours);
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-2">
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-muted-foreground" />
+          <p className="text-sm font-medium">Automatic retry schedule</p>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          When an off-session charge fails, the chef is emailed a card-update link and the charge is retried after
+          each delay below (hours after each failure). Once retries run out the item is escalated.
+          {data.backoffHours.length > 0
+            ? ` Current: ${data.backoffHours.map(formatDelay).join(" → ")}.`
+            : " Retries are off: failed charges escalate immediately."}
+        </p>
+        <div className="flex items-center gap-2">
+          <Input
+            value={value}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={data.defaults.backoffHours.join(", ")}
+            className="max-w-xs"
+          />
+          <Button size="sm" onClick={handleSave} disabled={draft === null || saveMutation.isPending}>
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -122,6 +221,7 @@ function formatCurrency(cents: number) {
 function getOverstayStatusBadge(status: string) {
   const config: Record<string, { variant: "default" | "secondary" | "destructive" | "outline" | "success" | "warning"; label: string }> = {
     detected: { variant: "warning", label: "Detected" },
+    charge_failed: { variant: "warning", label: "Retrying" },
     escalated: { variant: "destructive", label: "Escalated" },
     charged: { variant: "success", label: "Charged" },
     resolved: { variant: "success", label: "Resolved" },
@@ -135,7 +235,7 @@ function getClaimStatusBadge(status: string) {
   const config: Record<string, { variant: "default" | "secondary" | "destructive" | "outline" | "success" | "warning"; label: string }> = {
     escalated: { variant: "destructive", label: "Escalated" },
     charge_succeeded: { variant: "success", label: "Charged" },
-    charge_failed: { variant: "destructive", label: "Charge Failed" },
+    charge_failed: { variant: "warning", label: "Retrying" },
     resolved: { variant: "outline", label: "Resolved" },
   };
   const c = config[status] || { variant: "outline" as const, label: status };
@@ -159,6 +259,7 @@ export default function EscalatedPenalties() {
   const allClaims = useMemo(() => data?.damageClaims || [], [data?.damageClaims]);
   const summary = data?.summary || { totalEscalatedOverstays: 0, totalEscalatedClaims: 0, totalEscalatedAmountCents: 0 };
   const totalEscalated = summary.totalEscalatedOverstays + summary.totalEscalatedClaims;
+  const totalRetrying = (summary.totalRetryingOverstays || 0) + (summary.totalRetryingClaims || 0);
 
   const overstays = useMemo(() => {
     if (activeTab === 'all') return allOverstays;
@@ -216,7 +317,7 @@ export default function EscalatedPenalties() {
               Escalated Penalties
             </h3>
             <p className="text-xs sm:text-sm text-gray-500">
-              Penalties and claims that failed auto-charge and require manual collection
+              Penalties and claims that failed auto-charge: automatic retries and manual collection
             </p>
           </div>
         </div>
@@ -232,6 +333,9 @@ export default function EscalatedPenalties() {
           <TabsTrigger value="escalated">
             Escalated {tabCounts['escalated'] ? `(${tabCounts['escalated']})` : ''}
           </TabsTrigger>
+          <TabsTrigger value="charge_failed">
+            Retrying {tabCounts['charge_failed'] ? `(${tabCounts['charge_failed']})` : ''}
+          </TabsTrigger>
           <TabsTrigger value="charged">
             Charged {tabCounts['charged'] ? `(${tabCounts['charged']})` : ''}
           </TabsTrigger>
@@ -287,8 +391,10 @@ export default function EscalatedPenalties() {
         </Card>
       </div>
 
+      <RetryScheduleCard />
+
       {/* All Clear */}
-      {totalEscalated === 0 && (
+      {totalEscalated === 0 && totalRetrying === 0 && (
         <Card className="border-green-200 bg-green-50">
           <CardContent className="pt-6 text-center">
             <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
@@ -369,7 +475,10 @@ export default function EscalatedPenalties() {
                           );
                         })()}
                       </TableCell>
-                      <TableCell>{getOverstayStatusBadge(o.status)}</TableCell>
+                      <TableCell>
+                        {getOverstayStatusBadge(o.status)}
+                        <RetryInfo status={o.status} chargeRetryCount={o.chargeRetryCount} nextChargeRetryAt={o.nextChargeRetryAt} />
+                      </TableCell>
                       <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
                         {o.chargeFailureReason || "Unknown"}
                       </TableCell>
@@ -440,7 +549,10 @@ export default function EscalatedPenalties() {
                         <TableCell className="text-right font-semibold text-sm">
                           {formatCurrency(c.finalAmountCents || c.claimedAmountCents)}
                         </TableCell>
-                        <TableCell>{getClaimStatusBadge(c.status)}</TableCell>
+                        <TableCell>
+                          {getClaimStatusBadge(c.status)}
+                          <RetryInfo status={c.status} chargeRetryCount={c.chargeRetryCount} nextChargeRetryAt={c.nextChargeRetryAt} />
+                        </TableCell>
                         <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
                           {c.chargeFailureReason || "Unknown"}
                         </TableCell>
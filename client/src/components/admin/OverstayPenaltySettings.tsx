@@ -368,7 +368,7 @@ export default function OverstayPenaltySettings() {
                 Auto-Escalation
               </Label>
               <p className="text-xs text-muted-foreground">
-                When auto-charge fails, the penalty is immediately escalated and a self-serve payment link is sent to the chef. No retry system.
+                When auto-charge fails, the chef is emailed a card-update link and the charge is retried automatically (schedule under Escalated). Once retries run out, the penalty is escalated and a self-serve payment link is sent to the chef.
               </p>
             </div>
           </div>
@@ -0,0 +1,582 @@
+/**
+ * Admin Promo Codes Manager
+ *
+ * Create and manage promo codes chefs redeem at kitchen booking checkout:
+ * - Percent or fixed discount, platform-wide or limited to one location
+ * - Usage caps (total and per chef), start and expiry dates
+ * - Who funds the discount: the platform or the location's manager
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { auth } from "@/lib/firebase";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { NumericInput } from "@/components/ui/numeric-input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Pencil, Plus, Tag, Trash2 } from "lucide-react";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PromoCode {
+  id: number;
+  code: string;
+  description: string | null;
+  discountType: "percent" | "fixed";
+  discountValue: string;
+  maxDiscountCents: number | null;
+  minSubtotalCents: number | null;
+  locationId: number | null;
+  absorbedBy: "platform" | "manager";
+  maxRedemptions: number | null;
+  perChefLimit: number | null;
+  startsAt: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  redemptionCount: number;
+}
+
+interface LocationOption {
+  id: number;
+  name: string;
+}
+
+interface PromoFormData {
+  code: string;
+  description: string;
+  discountType: "percent" | "fixed";
+  percentOff: string;
+  amountOff: string; // dollars
+  maxDiscount: string; // dollars
+  minSubtotal: string; // dollars
+  locationId: string; // "all" or id
+  absorbedBy: "platform" | "manager";
+  maxRedemptions: string;
+  perChefLimit: string;
+  startsAt: string; // YYYY-MM-DD
+  expiresAt: string; // YYYY-MM-DD
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PromoFormData = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  percentOff: "",
+  amountOff: "",
+  maxDiscount: "",
+  minSubtotal: "",
+  locationId: "all",
+  absorbedBy: "platform",
+  maxRedemptions: "",
+  perChefLimit: "",
+  startsAt: "",
+  expiresAt: "",
+  isActive: true,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function adminFetch(url: string, options: RequestInit = {}) {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+  const token = await currentUser.getIdToken();
+  const res = await fetch(url, {
+    ...options,
+    credentials: "include",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      ...(options.headers || {}),
+    },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+const centsToDollars = (cents: number | null) => (cents === null ? "" : (cents / 100).toFixed(2));
+const dollarsToCents = (value: string) => (value.trim() === "" ? null : Math.round(parseFloat(value) * 100));
+const toIntOrNull = (value: string) => (value.trim() === "" ? null : parseInt(value, 10));
+
+// Local calendar date (YYYY-MM-DD) for a date input — slicing the ISO string would use UTC
+function toDateInputValue(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function toFormData(promo: PromoCode): PromoFormData {
+  const value = parseFloat(promo.discountValue);
+  return {
+    code: promo.code,
+    description: promo.description || "",
+    discountType: promo.discountType,
+    percentOff: promo.discountType === "percent" ? String(value) : "",
+    amountOff: promo.discountType === "fixed" ? centsToDollars(value) : "",
+    maxDiscount: centsToDollars(promo.maxDiscountCents),
+    minSubtotal: centsToDollars(promo.minSubtotalCents),
+    locationId: promo.locationId ? String(promo.locationId) : "all",
+    absorbedBy: promo.absorbedBy,
+    maxRedemptions: promo.maxRedemptions !== null ? String(promo.maxRedemptions) : "",
+    perChefLimit: promo.perChefLimit !== null ? String(promo.perChefLimit) : "",
+    startsAt: toDateInputValue(promo.startsAt),
+    expiresAt: toDateInputValue(promo.expiresAt),
+    isActive: promo.isActive,
+  };
+}
+
+function toPayload(form: PromoFormData) {
+  return {
+    code: form.code.trim().toUpperCase(),
+    description: form.description.trim() || null,
+    discountType: form.discountType,
+    discountValue: form.discountType === "percent"
+      ? parseFloat(form.percentOff)
+      : dollarsToCents(form.amountOff),
+    maxDiscountCents: form.discountType === "percent" ? dollarsToCents(form.maxDiscount) : null,
+    minSubtotalCents: dollarsToCents(form.minSubtotal),
+    locationId: form.locationId === "all" ? null : parseInt(form.locationId, 10),
+    absorbedBy: form.absorbedBy,
+    maxRedemptions: toIntOrNull(form.maxRedemptions),
+    perChefLimit: toIntOrNull(form.perChefLimit),
+    // Dates are whole days: active from the start of startsAt until the end of expiresAt
+    startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : null,
+    expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null,
+    isActive: form.isActive,
+  };
+}
+
+function describeDiscount(promo: PromoCode): string {
+  const value = parseFloat(promo.discountValue);
+  if (promo.discountType === "percent") {
+    return promo.maxDiscountCents !== null
+      ? `${value}% off (max $${centsToDollars(promo.maxDiscountCents)})`
+      : `${value}% off`;
+  }
+  return `$${centsToDollars(value)} off`;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function PromoCodesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<PromoFormData>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<PromoCode | null>(null);
+
+  const { data: promoCodes = [], isLoading } = useQuery<PromoCode[]>({
+    queryKey: ["/api/admin/promo-codes"],
+    queryFn: () => adminFetch("/api/admin/promo-codes"),
+  });
+
+  const { data: locations = [] } = useQuery<LocationOption[]>({
+    queryKey: ["/api/admin/transactions/locations"],
+    queryFn: () => adminFetch("/api/admin/transactions/locations"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: { id: number | null; body: ReturnType<typeof toPayload> }) =>
+      adminFetch(payload.id ? `/api/admin/promo-codes/${payload.id}` : "/api/admin/promo-codes", {
+        method: payload.id ? "PUT" : "POST",
+        body: JSON.stringify(payload.body),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      setDialogOpen(false);
+      toast({ title: "Saved", description: "Promo code saved." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (promo: PromoCode) =>
+      adminFetch(`/api/admin/promo-codes/${promo.id}`, {
+        method: "PUT",
+        body: JSON.stringify(toPayload({ ...toFormData(promo), isActive: !promo.isActive })),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => adminFetch(`/api/admin/promo-codes/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      setDeleteTarget(null);
+      toast({ title: "Deleted", description: "Promo code deleted." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (promo: PromoCode) => {
+    setEditingId(promo.id);
+    setForm(toFormData(promo));
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!form.code.trim()) {
+      toast({ title: "Code required", description: "Enter a promo code.", variant: "destructive" });
+      return;
+    }
+    if (form.discountType === "percent" ? !form.percentOff : !form.amountOff) {
+      toast({ title: "Discount required", description: "Enter the discount amount.", variant: "destructive" });
+      return;
+    }
+    if (form.absorbedBy === "manager" && form.locationId === "all") {
+      toast({
+        title: "Location required",
+        description: "Manager-funded codes must be limited to a location.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ id: editingId, body: toPayload(form) });
+  };
+
+  const locationName = (id: number | null) =>
+    id === null ? "All locations" : locations.find((loc) => loc.id === id)?.name || `Location #${id}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Promo Codes
+          </CardTitle>
+          <CardDescription>
+            Codes chefs can redeem at kitchen booking checkout. Discounts apply before tax.
+          </CardDescription>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Code
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        ) : promoCodes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No promo codes yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {promoCodes.map((promo) => (
+              <div key={promo.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-semibold">{promo.code}</span>
+                    <Badge variant="outline">{describeDiscount(promo)}</Badge>
+                    <Badge variant={promo.absorbedBy === "platform" ? "secondary" : "outline"}>
+                      {promo.absorbedBy === "platform" ? "Platform-funded" : "Manager-funded"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {locationName(promo.locationId)}
+                    {" · "}
+                    {promo.redemptionCount}
+                    {promo.maxRedemptions !== null ? ` / ${promo.maxRedemptions}` : ""} used
+                    {promo.perChefLimit !== null && ` · ${promo.perChefLimit} per chef`}
+                    {promo.expiresAt && ` · expires ${new Date(promo.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={promo.isActive}
+                    onCheckedChange={() => toggleMutation.mutate(promo)}
+                    disabled={toggleMutation.isPending}
+                    aria-label={promo.isActive ? "Deactivate code" : "Activate code"}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => openEdit(promo)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setDeleteTarget(promo)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / edit dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Promo Code" : "New Promo Code"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to future checkouts only; past redemptions keep their discount.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promoCode">Code</Label>
+                <Input
+                  id="promoCode"
+                  className="mt-2 font-mono"
+                  value={form.code}
+                  maxLength={32}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="SUMMER15"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoType">Discount type</Label>
+                <Select
+                  value={form.discountType}
+                  onValueChange={(value) => setForm({ ...form, discountType: value as "percent" | "fixed" })}
+                >
+                  <SelectTrigger id="promoType" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percent off</SelectItem>
+                    <SelectItem value="fixed">Fixed amount off</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="promoDescription">Description (optional)</Label>
+              <Input
+                id="promoDescription"
+                className="mt-2"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            {form.discountType === "percent" ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="promoPercent">Percent off</Label>
+                  <NumericInput
+                    id="promoPercent"
+                    className="mt-2"
+                    allowDecimals
+                    value={form.percentOff}
+                    onValueChange={(value) => setForm({ ...form, percentOff: value })}
+                    placeholder="15"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="promoMaxDiscount">Maximum discount (optional)</Label>
+                  <CurrencyInput
+                    id="promoMaxDiscount"
+                    className="mt-2"
+                    value={form.maxDiscount}
+                    onValueChange={(value) => setForm({ ...form, maxDiscount: value })}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="promoAmount">Amount off</Label>
+                <CurrencyInput
+                  id="promoAmount"
+                  className="mt-2"
+                  value={form.amountOff}
+                  onValueChange={(value) => setForm({ ...form, amountOff: value })}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promoLocation">Location</Label>
+                <Select
+                  value={form.locationId}
+                  onValueChange={(value) => setForm({ ...form, locationId: value })}
+                >
+                  <SelectTrigger id="promoLocation" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All locations</SelectItem>
+                    {locations.map((loc) => (
+                      <SelectItem key={loc.id} value={String(loc.id)}>{loc.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="promoAbsorbedBy">Discount funded by</Label>
+                <Select
+                  value={form.absorbedBy}
+                  onValueChange={(value) => setForm({ ...form, absorbedBy: value as "platform" | "manager" })}
+                >
+                  <SelectTrigger id="promoAbsorbedBy" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="platform">Platform (manager paid in full)</SelectItem>
+                    <SelectItem value="manager">Manager (payout reduced)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="promoMinSubtotal">Min. subtotal</Label>
+                <CurrencyInput
+                  id="promoMinSubtotal"
+                  className="mt-2"
+                  value={form.minSubtotal}
+                  onValueChange={(value) => setForm({ ...form, minSubtotal: value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoMaxRedemptions">Total uses</Label>
+                <NumericInput
+                  id="promoMaxRedemptions"
+                  className="mt-2"
+                  value={form.maxRedemptions}
+                  onValueChange={(value) => setForm({ ...form, maxRedemptions: value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoPerChef">Uses per chef</Label>
+                <NumericInput
+                  id="promoPerChef"
+                  className="mt-2"
+                  value={form.perChefLimit}
+                  onValueChange={(value) => setForm({ ...form, perChefLimit: value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promoStartsAt">Starts (optional)</Label>
+                <Input
+                  id="promoStartsAt"
+                  type="date"
+                  className="mt-2"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="promoExpiresAt">Expires (optional)</Label>
+                <Input
+                  id="promoExpiresAt"
+                  type="date"
+                  className="mt-2"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="promoActive">Active</Label>
+              <Switch
+                id="promoActive"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Chefs will no longer be able to redeem this code. Past redemptions stay on their bookings
+              and invoices. To pause a code instead, switch it off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -32,6 +32,7 @@ import {
   Package,
   FileWarning,
   Key,
+  Scale,
 } from "lucide-react";
 
 export type AdminSection =
@@ -53,7 +54,8 @@ export type AdminSection =
   | "overstay-penalties-history"
   | "damage-claims-history"
   | "security-settings"
-  | "access-codes";
+  | "access-codes"
+  | "reconciliation";
 
 interface AdminSidebarProps {
   activeSection: AdminSection;
@@ -101,6 +103,7 @@ const NAV_GROUPS = [
       { id: "damage-claims-history" as AdminSection, label: "Damage Claims History", icon: FileWarning },
       { id: "manager-revenues" as AdminSection, label: "Manager Revenues", icon: DollarSign },
       { id: "platform-overview" as AdminSection, label: "Platform Overview", icon: BarChart3 },
+      { id: "reconciliation" as AdminSection, label: "Stripe Reconciliation", icon: Scale },
     ],
   },
   {
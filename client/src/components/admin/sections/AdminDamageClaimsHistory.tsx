@@ -218,6 +218,7 @@ const EVIDENCE_TYPE_LABELS: Record<string, string> = {
   video: "Video",
   document: "Document",
   third_party_report: "Third-Party Report",
+  photo_comparison: "Photo Comparison",
 };
 
 async function adminFetch(url: string) {
@@ -66,15 +66,22 @@ export function AdminOverviewSection({
     staleTime: 60 * 1000,
   });
 
-  const totalManagers = revenueData?.managers?.length || 0;
-  const totalRevenue = revenueData?.managers?.reduce(
-    (sum: number, m: { totalRevenue?: number }) => sum + (m.totalRevenue || 0),
-    0
-  ) || 0;
-  const platformFees = revenueData?.managers?.reduce(
-    (sum: number, m: { platformFee?: number }) => sum + (m.platformFee || 0),
-    0
-  ) || 0;
+  // Managers paid in several currencies have one row per currency; amounts are totalled per currency
+  const managerRows: Array<{ managerId: number; currency?: string; totalRevenue?: number; platformFee?: number; bookingCount?: number }> =
+    revenueData?.managers || [];
+  const totalManagers = new Set(managerRows.map((m) => m.managerId)).size;
+  const revenueByCurrency = Array.from(
+    managerRows.reduce((totals, m) => {
+      const currency = m.currency || "CAD";
+      const entry = totals.get(currency) ?? { currency, totalRevenue: 0, platformFees: 0 };
+      entry.totalRevenue += m.totalRevenue || 0;
+      entry.platformFees += m.platformFee || 0;
+      return totals.set(currency, entry);
+    }, new Map<string, { currency: string; totalRevenue: number; platformFees: number }>()).values()
+  );
+  if (revenueByCurrency.length === 0) {
+    revenueByCurrency.push({ currency: "CAD", totalRevenue: 0, platformFees: 0 });
+  }
   const totalBookings = revenueData?.managers?.reduce(
     (sum: number, m: { bookingCount?: number }) => sum + (m.bookingCount || 0),
     0
@@ -85,10 +92,10 @@ export function AdminOverviewSection({
     ? applicationsData.filter((a: { status?: string }) => a.status === "approved").length
     : 0;
 
-  const formatCurrency = (amount: number) =>
+  const formatCurrency = (amount: number, currency: string = "CAD") =>
     new Intl.NumberFormat("en-CA", {
       style: "currency",
-      currency: "CAD",
+      currency,
       minimumFractionDigits: 2,
     }).format(amount);
 
@@ -118,9 +125,11 @@ export function AdminOverviewSection({
                     <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
                       Total Revenue
                     </p>
-                    <p className="text-2xl font-bold mt-1">
-                      {formatCurrency(totalRevenue)}
-                    </p>
+                    {revenueByCurrency.map((total) => (
+                      <p key={total.currency} className="text-2xl font-bold mt-1">
+                        {formatCurrency(total.totalRevenue, total.currency)}
+                      </p>
+                    ))}
                   </div>
                   <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-100">
                     <DollarSign className="h-5 w-5 text-emerald-600" />
@@ -135,9 +144,11 @@ export function AdminOverviewSection({
                     <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
                       Platform Fees
                     </p>
-                    <p className="text-2xl font-bold mt-1">
-                      {formatCurrency(platformFees)}
-                    </p>
+                    {revenueByCurrency.map((total) => (
+                      <p key={total.currency} className="text-2xl font-bold mt-1">
+                        {formatCurrency(total.platformFees, total.currency)}
+                      </p>
+                    ))}
                   </div>
                   <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-100">
                     <DollarSign className="h-5 w-5 text-violet-600" />
@@ -239,7 +250,7 @@ export function AdminOverviewSection({
               </CardHeader>
               <CardContent className="pt-0">
                 <p className="text-sm text-muted-foreground mb-3">
-                  {formatCurrency(totalRevenue)} across {totalManagers} managers.
+                  {revenueByCurrency.map((total) => formatCurrency(total.totalRevenue, total.currency)).join(" + ")} across {totalManagers} managers.
                 </p>
                 <Button variant="ghost" size="sm" className="px-0 text-primary">
                   View Revenue <ArrowRight className="h-3.5 w-3.5 ml-1" />
@@ -14,6 +14,19 @@ import {
   Users,
 } from "lucide-react";
 
+/** One row per manager and currency from /api/admin/revenue/all-managers */
+interface ManagerRevenueRow {
+  managerId: number;
+  managerName: string;
+  managerEmail: string;
+  currency: string;
+  totalRevenue: number;
+  platformFee: number;
+  managerRevenue: number;
+  bookingCount: number;
+  totalRefunds: number;
+}
+
 interface ManagerRevenuesSectionProps {
   getFirebaseToken: () => Promise<string>;
 }
@@ -45,7 +58,7 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
     };
   }, [dateRange]);
 
-  const { data: managersRevenue, isLoading, error } = useQuery({
+  const { data: managersRevenue, isLoading, error } = useQuery<{ managers: ManagerRevenueRow[] }>({
     queryKey: ['/api/admin/revenue/all-managers', dateRangeParams.startDate, dateRangeParams.endDate],
     queryFn: async () => {
       const token = await getFirebaseToken();
@@ -96,16 +109,34 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
     enabled: selectedManager !== 'all',
   });
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'CAD') => {
     // Server already converts cents to dollars, so no division needed
     return new Intl.NumberFormat('en-CA', {
       style: 'currency',
-      currency: 'CAD',
+      currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(amount);
   };
 
+  // Managers paid in several currencies have one row per currency; totals are kept apart
+  const totalsByCurrency = useMemo(() => {
+    const totals = new Map<string, { totalRevenue: number; platformFee: number }>();
+    for (const m of managersRevenue?.managers ?? []) {
+      const currency = m.currency || 'CAD';
+      const entry = totals.get(currency) ?? { totalRevenue: 0, platformFee: 0 };
+      entry.totalRevenue += m.totalRevenue || 0;
+      entry.platformFee += m.platformFee || 0;
+      totals.set(currency, entry);
+    }
+    return Array.from(totals.entries()).map(([currency, entry]) => ({ currency, ...entry }));
+  }, [managersRevenue]);
+
+  const managerCount = useMemo(
+    () => new Set((managersRevenue?.managers ?? []).map(m => m.managerId)).size,
+    [managersRevenue]
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
@@ -146,7 +177,7 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm text-muted-foreground">Total Managers</p>
-                    <p className="text-2xl font-bold mt-1">{managersRevenue.managers.length}</p>
+                    <p className="text-2xl font-bold mt-1">{managerCount}</p>
                   </div>
                   <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
                     <Users className="h-5 w-5 text-primary" />
@@ -159,11 +190,13 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm text-muted-foreground">Total Revenue</p>
-                    <p className="text-2xl font-bold mt-1">
-                      {formatCurrency(
-                        managersRevenue.managers.reduce((sum: number, m: any) => sum + (m.totalRevenue || 0), 0)
-                      )}
-                    </p>
+                    {totalsByCurrency.length > 0 ? totalsByCurrency.map(total => (
+                      <p key={total.currency} className="text-2xl font-bold mt-1">
+                        {formatCurrency(total.totalRevenue, total.currency)}
+                      </p>
+                    )) : (
+                      <p className="text-2xl font-bold mt-1">{formatCurrency(0)}</p>
+                    )}
                   </div>
                   <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-100">
                     <DollarSign className="h-5 w-5 text-emerald-600" />
@@ -176,11 +209,13 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm text-muted-foreground">Platform Fees</p>
-                    <p className="text-2xl font-bold mt-1">
-                      {formatCurrency(
-                        managersRevenue.managers.reduce((sum: number, m: any) => sum + (m.platformFee || 0), 0)
-                      )}
-                    </p>
+                    {totalsByCurrency.length > 0 ? totalsByCurrency.map(total => (
+                      <p key={total.currency} className="text-2xl font-bold mt-1">
+                        {formatCurrency(total.platformFee, total.currency)}
+                      </p>
+                    )) : (
+                      <p className="text-2xl font-bold mt-1">{formatCurrency(0)}</p>
+                    )}
                   </div>
                   <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-100">
                     <TrendingUp className="h-5 w-5 text-violet-600" />
@@ -210,7 +245,7 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                     label: 'Total Revenue',
                     className: 'text-right',
                     render: (_: any, row: any) => (
-                      <span className="font-medium text-sm">{formatCurrency(row.totalRevenue || 0)}</span>
+                      <span className="font-medium text-sm">{formatCurrency(row.totalRevenue || 0, row.currency)}</span>
                     ),
                   },
                   {
@@ -218,7 +253,7 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                     label: 'Platform Fee',
                     className: 'text-right',
                     render: (_: any, row: any) => (
-                      <span className="text-muted-foreground text-sm">{formatCurrency(row.platformFee || 0)}</span>
+                      <span className="text-muted-foreground text-sm">{formatCurrency(row.platformFee || 0, row.currency)}</span>
                     ),
                   },
                   {
@@ -226,7 +261,7 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                     label: 'Manager Earnings',
                     className: 'text-right',
                     render: (_: any, row: any) => (
-                      <span className="font-semibold text-emerald-600 text-sm">{formatCurrency(row.managerRevenue || 0)}</span>
+                      <span className="font-semibold text-emerald-600 text-sm">{formatCurrency(row.managerRevenue || 0, row.currency)}</span>
                     ),
                   },
                   {
@@ -253,8 +288,8 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                     ),
                   },
                 ]}
-                data={managersRevenue.managers.map((m: any) => ({ ...m, id: m.managerId }))}
-                keyField="managerId"
+                data={managersRevenue.managers.map(m => ({ ...m, id: `${m.managerId}-${m.currency}` }))}
+                keyField="id"
                 mobileBreakpoint="md"
               />
             </CardContent>
@@ -270,15 +305,15 @@ export function ManagerRevenuesSection({ getFirebaseToken }: ManagerRevenuesSect
                 <div className="space-y-3">
                   {managerDetails.locations && managerDetails.locations.length > 0 ? (
                     managerDetails.locations.map((loc: any) => (
-                      <div key={loc.locationId} className="p-4 rounded-lg bg-muted border">
+                      <div key={`${loc.locationId}-${loc.currency}`} className="p-4 rounded-lg bg-muted border">
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="font-medium">{loc.locationName}</p>
                             <p className="text-sm text-muted-foreground">{loc.bookingCount} bookings</p>
                           </div>
                           <div className="text-right">
-                            <p className="font-semibold">{formatCurrency(loc.totalRevenue || 0)}</p>
-                            <p className="text-sm text-emerald-600">Earnings: {formatCurrency(loc.managerRevenue || 0)}</p>
+                            <p className="font-semibold">{formatCurrency(loc.totalRevenue || 0, loc.currency)}</p>
+                            <p className="text-sm text-emerald-600">Earnings: {formatCurrency(loc.managerRevenue || 0, loc.currency)}</p>
                           </div>
                         </div>
                       </div>
@@ -15,6 +15,12 @@ interface PlatformOverviewSectionProps {
   getFirebaseToken: () => Promise<string>;
 }
 
+interface CurrencyTotals {
+  currency: string;
+  totalPlatformRevenue: number;
+  totalPlatformFees: number;
+}
+
 export function PlatformOverviewSection({ getFirebaseToken }: PlatformOverviewSectionProps) {
   const [dateRange, setDateRange] = useState<'week' | 'month' | 'all'>('month');
 
@@ -66,15 +72,25 @@ export function PlatformOverviewSection({ getFirebaseToken }: PlatformOverviewSe
     },
   });
 
-  const formatCurrency = (amountInCents: number) => {
+  // Server already converts cents to dollars
+  const formatCurrency = (amount: number, currency: string = 'CAD') => {
     return new Intl.NumberFormat('en-CA', {
       style: 'currency',
-      currency: 'CAD',
+      currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
-    }).format(amountInCents / 100);
+    }).format(amount);
   };
 
+  // Revenue is reported per currency — CAD and USD locations are never summed together
+  const currencyTotals: CurrencyTotals[] = platformOverview?.byCurrency?.length
+    ? platformOverview.byCurrency
+    : [{
+        currency: platformOverview?.currency || 'CAD',
+        totalPlatformRevenue: platformOverview?.totalPlatformRevenue || 0,
+        totalPlatformFees: platformOverview?.totalPlatformFees || 0,
+      }];
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
@@ -113,9 +129,11 @@ export function PlatformOverviewSection({ getFirebaseToken }: PlatformOverviewSe
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Total Platform Revenue</p>
-                  <p className="text-2xl font-bold mt-1">
-                    {formatCurrency(platformOverview.totalPlatformRevenue || 0)}
-                  </p>
+                  {currencyTotals.map(total => (
+                    <p key={total.currency} className="text-2xl font-bold mt-1">
+                      {formatCurrency(total.totalPlatformRevenue, total.currency)}
+                    </p>
+                  ))}
                 </div>
                 <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-blue-100">
                   <DollarSign className="h-5 w-5 text-blue-600" />
@@ -128,9 +146,11 @@ export function PlatformOverviewSection({ getFirebaseToken }: PlatformOverviewSe
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Total Platform Fees</p>
-                  <p className="text-2xl font-bold mt-1">
-                    {formatCurrency(platformOverview.totalPlatformFees || 0)}
-                  </p>
+                  {currencyTotals.map(total => (
+                    <p key={total.currency} className="text-2xl font-bold mt-1">
+                      {formatCurrency(total.totalPlatformFees, total.currency)}
+                    </p>
+                  ))}
                 </div>
                 <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-100">
                   <TrendingUp className="h-5 w-5 text-violet-600" />
@@ -25,11 +25,11 @@ export function PlatformSettingsSection() {
   const [isSavingTimeWindows, setIsSavingTimeWindows] = useState(false);
 
   // Kitchen time window defaults state.
-  // Checkout review window stays admin-only (no manager override). Kitchen
-  // overstay tracking has been removed from the product.
+  // Checkout review window stays admin-only (no manager override).
   const [twDefaults, setTwDefaults] = useState({
     checkinWindowMinutesBefore: '15',
     noShowGraceMinutes: '30',
+    overtimeGraceMinutes: '15',
     checkoutReviewWindowMinutes: '60',
   });
   const [autoAcceptHours, setAutoAcceptHours] = useState('24');
@@ -124,13 +124,14 @@ export function PlatformSettingsSection() {
       setTwDefaults({
         checkinWindowMinutesBefore: String(timeWindowData.checkinWindowMinutesBefore?.intValue ?? 15),
         noShowGraceMinutes: String(timeWindowData.noShowGraceMinutes?.intValue ?? 30),
+        overtimeGraceMinutes: String(timeWindowData.overtimeGraceMinutes?.intValue ?? 15),
         checkoutReviewWindowMinutes: String(timeWindowData.checkoutReviewWindowMinutes?.intValue ?? 60),
       });
     }
   }, [timeWindowData]);
 
   const timeWindowMutation = useMutation({
-    mutationFn: async (settings: { checkinWindowMinutesBefore?: number; noShowGraceMinutes?: number; checkoutReviewWindowMinutes?: number }) => {
+    mutationFn: async (settings: { checkinWindowMinutesBefore?: number; noShowGraceMinutes?: number; overtimeGraceMinutes?: number; checkoutReviewWindowMinutes?: number }) => {
       const currentFirebaseUser = auth.currentUser;
       if (!currentFirebaseUser) throw new Error('Firebase user not available');
       const token = await currentFirebaseUser.getIdToken();
@@ -162,6 +163,7 @@ export function PlatformSettingsSection() {
     timeWindowMutation.mutate({
       checkinWindowMinutesBefore: parseInt(twDefaults.checkinWindowMinutesBefore, 10),
       noShowGraceMinutes: parseInt(twDefaults.noShowGraceMinutes, 10),
+      overtimeGraceMinutes: parseInt(twDefaults.overtimeGraceMinutes, 10),
       checkoutReviewWindowMinutes: parseInt(twDefaults.checkoutReviewWindowMinutes, 10),
     });
   };
@@ -552,7 +554,7 @@ export function PlatformSettingsSection() {
             <div>
               <CardTitle>Kitchen Time Window Defaults</CardTitle>
               <CardDescription>
-                Platform-wide defaults for kitchen check-in/out time windows. Managers can only override the check-in window and no-show grace; the checkout review window is fixed platform-wide.
+                Platform-wide defaults for kitchen check-in/out time windows. Managers can only override the check-in window, no-show grace and overtime grace; the checkout review window is fixed platform-wide.
               </CardDescription>
             </div>
           </div>
@@ -579,6 +581,16 @@ export function PlatformSettingsSection() {
               />
               <p className="text-xs text-muted-foreground">Grace period before marking as no-show</p>
             </div>
+            <div className="space-y-2">
+              <Label>Overtime Grace (minutes after end)</Label>
+              <NumericInput
+                suffix="min"
+                value={twDefaults.overtimeGraceMinutes}
+                onValueChange={(val) => setTwDefaults({ ...twDefaults, overtimeGraceMinutes: val })}
+                className="max-w-32"
+              />
+              <p className="text-xs text-muted-foreground">How late a chef can check out before overtime is proposed to the manager</p>
+            </div>
             <div className="space-y-2">
               <Label>Checkout Review Window (minutes after end)</Label>
               <NumericInput
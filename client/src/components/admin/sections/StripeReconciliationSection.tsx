@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { auth } from "@/lib/firebase";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Play, Scale, Wrench, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type IssueType = "missing_transaction" | "amount_mismatch" | "orphaned_refund" | "transfer_without_booking";
+type IssueStatus = "open" | "fixed" | "dismissed";
+type FixAction = "backfill_transaction" | "sync_amount" | "record_refund";
+
+interface ReconciliationIssue {
+  id: number;
+  issueType: IssueType;
+  status: IssueStatus;
+  balanceTransactionId: string;
+  stripeObjectId: string;
+  paymentIntentId: string | null;
+  paymentTransactionId: number | null;
+  stripeAmountCents: number | null;
+  ledgerAmountCents: number | null;
+  currency: string;
+  details: { field?: string; reason?: string } | null;
+  stripeCreatedAt: string;
+  lastSeenAt: string;
+  resolution: string | null;
+  fixAction: FixAction | null;
+}
+
+interface RunResult {
+  balanceTransactions: number;
+  matched: number;
+  issuesFound: number;
+  resolved: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const ISSUE_LABELS: Record<IssueType, string> = {
+  missing_transaction: "Missing ledger row",
+  amount_mismatch: "Amount mismatch",
+  orphaned_refund: "Unrecorded refund",
+  transfer_without_booking: "Transfer without booking",
+};
+
+const FIX_LABELS: Record<FixAction, string> = {
+  backfill_transaction: "Backfill from booking",
+  sync_amount: "Use Stripe amount",
+  record_refund: "Record refund",
+};
+
+function formatCents(cents: number | null, currency: string): string {
+  if (cents == null) return "—";
+  return new Intl.NumberFormat("en-CA", { style: "currency", currency }).format(cents / 100);
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+function describeIssue(issue: ReconciliationIssue): string {
+  if (issue.issueType === "amount_mismatch") {
+    return issue.details?.field === "stripe_fee" ? "Stripe fee differs" : "Charged amount differs";
+  }
+  return issue.details?.reason || "";
+}
+
+async function fetchWithAuth(url: string) {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) throw new Error("Not authenticated");
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}` },
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`);
+  return res.json();
+}
+
+async function postWithAuth(url: string, body: unknown) {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) throw new Error("Not authenticated");
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Differences between Stripe balance transactions and the payment ledger,
+ * with a manual run over a date range and one-click fixes
+ */
+export function StripeReconciliationSection() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [statusFilter, setStatusFilter] = useState<IssueStatus | "all">("open");
+  const [startDate, setStartDate] = useState(() => daysAgo(30));
+  const [endDate, setEndDate] = useState(() => daysAgo(0));
+  const [lastRun, setLastRun] = useState<RunResult | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["adminReconciliationIssues", statusFilter],
+    queryFn: () => fetchWithAuth(`/api/admin/reconciliation/issues?status=${statusFilter}`),
+  });
+  const issues: ReconciliationIssue[] = data?.issues || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["adminReconciliationIssues"] });
+
+  const runMutation = useMutation({
+    mutationFn: () => postWithAuth("/api/admin/reconciliation/run", { startDate, endDate }),
+    onSuccess: (result: RunResult) => {
+      setLastRun(result);
+      invalidate();
+      toast({
+        title: "Reconciliation complete",
+        description: `${result.balanceTransactions} balance transactions checked, ${result.issuesFound} issue(s) found.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reconciliation failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const fixMutation = useMutation({
+    mutationFn: (issueId: number) => postWithAuth(`/api/admin/reconciliation/issues/${issueId}/fix`, {}),
+    onSuccess: (issue: ReconciliationIssue) => {
+      invalidate();
+      toast({ title: "Issue fixed", description: issue.resolution || undefined });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fix failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (issueId: number) => postWithAuth(`/api/admin/reconciliation/issues/${issueId}/dismiss`, { reason: "Reviewed in Stripe" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Issue dismissed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Dismiss failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pendingIssueId = fixMutation.isPending ? fixMutation.variables : dismissMutation.isPending ? dismissMutation.variables : null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Stripe Reconciliation</h2>
+        <p className="text-muted-foreground">
+          Charges, refunds and transfers in Stripe compared to the payment ledger. The last two days are checked every night.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Run reconciliation</CardTitle>
+          <CardDescription>Check balance transactions created between two dates (up to 90 days).</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="text-sm font-medium">From</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1 w-40" />
+          </div>
+          <div>
+            <label className="text-sm font-medium">To</label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1 w-40" />
+          </div>
+          <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending} className="gap-2">
+            {runMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+            Run now
+          </Button>
+          {lastRun && (
+            <p className="text-sm text-muted-foreground">
+              {lastRun.matched} of {lastRun.balanceTransactions} matched · {lastRun.issuesFound} issue(s) · {lastRun.resolved} resolved since last run
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="flex items-center gap-2">
+            <Scale className="h-4 w-4 text-violet-600" />
+            <CardTitle className="text-base">Issues</CardTitle>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as IssueStatus | "all")}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="fixed">Fixed</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {statusFilter === "open" ? "Stripe and the ledger agree. No open issues." : "No issues."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Stripe</TableHead>
+                  <TableHead className="text-right">Stripe Amount</TableHead>
+                  <TableHead className="text-right">Ledger Amount</TableHead>
+                  <TableHead>Transaction</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.map((issue) => (
+                  <TableRow key={issue.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(issue.stripeCreatedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={issue.status === "open" ? "destructive" : "secondary"}>{ISSUE_LABELS[issue.issueType]}</Badge>
+                      <p className="text-xs text-muted-foreground mt-1">{issue.status === "open" ? describeIssue(issue) : issue.resolution}</p>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <p>{issue.stripeObjectId}</p>
+                      {issue.paymentIntentId && <p className="text-muted-foreground">{issue.paymentIntentId}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCents(issue.stripeAmountCents, issue.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCents(issue.ledgerAmountCents, issue.currency)}</TableCell>
+                    <TableCell>{issue.paymentTransactionId ? `#${issue.paymentTransactionId}` : "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {issue.status === "open" && (
+                        <div className="flex justify-end gap-2">
+                          {issue.fixAction && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="gap-1"
+                              disabled={pendingIssueId === issue.id}
+                              onClick={() => fixMutation.mutate(issue.id)}
+                            >
+                              <Wrench className="h-3 w-3" />
+                              {FIX_LABELS[issue.fixAction]}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="gap-1"
+                            disabled={pendingIssueId === issue.id}
+                            onClick={() => dismissMutation.mutate(issue.id)}
+                          >
+                            <X className="h-3 w-3" />
+                            Dismiss
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
     MapPin,
     Package,
     PackageCheck,
+    Repeat,
     Send,
     Settings,
     Sparkles,
@@ -218,6 +219,11 @@ const navData: { navMain: NavGroup[] } = {
                     url: "storage-checkouts",
                     icon: PackageCheck,
                 },
+                {
+                    title: "Storage Subscriptions",
+                    url: "storage-subscriptions",
+                    icon: Repeat,
+                },
             ],
         },
         {
@@ -21,6 +21,7 @@ interface Booking {
   bookingDate: string;
   startTime: string;
   endTime: string;
+  endDate?: string | null; // Day endTime falls on for overnight/multi-day bookings
   status: "pending" | "confirmed" | "cancelled" | "completed";
   specialNotes?: string;
   createdAt: string;
@@ -132,7 +133,7 @@ export default function BookingControlPanel({
         const bookingDateStr = booking.bookingDate.split('T')[0];
         
         // Timeline is PRIMARY factor - check if booking end time has passed
-        if (isBookingPast(bookingDateStr, booking.endTime, timezone)) {
+        if (isBookingPast(bookingDateStr, booking.endTime, timezone, booking.endDate?.split('T')[0])) {
           past.push(booking);
         } 
         // Check if booking start time is in the future
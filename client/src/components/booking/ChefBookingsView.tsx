@@ -38,6 +38,7 @@ import {
   LogIn,
   LogOut,
   Building2,
+  CalendarClock,
 } from "lucide-react"
 import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
@@ -79,6 +80,7 @@ import { ExpiringStorageNotification } from "./ExpiringStorageNotification"
 import { PendingOverstayPenalties } from "../chef/PendingOverstayPenalties"
 import { CancellationRequestSheet, type CancellationTarget } from "./CancellationRequestSheet"
 import { KitchenCheckinTracker } from "./KitchenCheckinTracker"
+import { RescheduleBookingSheet, type RescheduleTarget } from "./RescheduleBookingSheet"
 import { auth } from "@/lib/firebase"
 import { onAuthStateChanged } from "firebase/auth"
 import { format, differenceInDays } from "date-fns"
@@ -93,6 +95,7 @@ interface Booking {
   bookingDate: string
   startTime: string
   endTime: string
+  endDate?: string | null // Day endTime falls on for overnight/multi-day bookings
   selectedSlots?: Array<string | { startTime: string; endTime: string }>
   status: "pending" | "confirmed" | "cancelled" | "completed" | "cancellation_requested"
   specialNotes?: string
@@ -106,7 +109,9 @@ interface Booking {
     name: string
     cancellationPolicyHours?: number
     cancellationPolicyMessage?: string
+    reschedulePolicyHours?: number
   }
+  seriesId?: number | null
   totalPrice?: number
   paymentStatus?: string
   // ── Payment State Flags (from server PT join) ────────────────────────
@@ -288,9 +293,30 @@ const canCancelBooking = (booking: Booking, now: Date): boolean => {
   }
 }
 
+// Same window rules as cancellation, against the location's reschedule window.
+// Recurring occurrences and overnight bookings are cancelled and rebooked instead.
+const canRescheduleBooking = (booking: Booking, now: Date): boolean => {
+  if (booking.status !== 'pending' && booking.status !== 'confirmed') return false
+  if (booking.seriesId || booking.endDate) return false
+  if (booking.checkinStatus && booking.checkinStatus !== 'not_checked_in') return false
+
+  try {
+    const dateStr = booking.bookingDate?.split('T')[0] || booking.bookingDate
+    const timezone = booking.locationTimezone || DEFAULT_TIMEZONE
+    const bookingDateTime = createBookingDateTime(dateStr, booking.startTime, timezone)
+    if (isNaN(bookingDateTime.getTime()) || bookingDateTime < now) return false
+
+    const hoursUntilBooking = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60)
+    return hoursUntilBooking >= (booking.location?.reschedulePolicyHours ?? 24)
+  } catch {
+    return false
+  }
+}
+
 // Column definitions factory
 interface BookingColumnsProps {
   onCancelBooking: (bookingId: number) => void
+  onRescheduleBooking: (booking: Booking) => void
   onDownloadInvoice: (bookingId: number, bookingDate: string) => void | Promise<void>
   onNavigate: (path: string) => void
   onCheckinTracker: (bookingId: number) => void
@@ -303,6 +329,7 @@ interface BookingColumnsProps {
 
 const getChefBookingColumns = ({
   onCancelBooking,
+  onRescheduleBooking,
   onDownloadInvoice,
   onNavigate,
   onCheckinTracker,
@@ -773,6 +800,7 @@ const getChefBookingColumns = ({
     cell: ({ row }) => {
       const booking = row.original
       const showCancel = canCancelBooking(booking, now)
+      const showReschedule = canRescheduleBooking(booking, now)
       const isDownloading = downloadingInvoiceId === booking.id
       const isVoided = booking.isVoidedAuthorization === true
       const canDownloadInvoice = booking.status !== 'cancelled' && !isVoided
@@ -817,6 +845,13 @@ const getChefBookingColumns = ({
               </DropdownMenuItem>
             )}
 
+            {showReschedule && (
+              <DropdownMenuItem onClick={() => onRescheduleBooking(booking)}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Reschedule
+              </DropdownMenuItem>
+            )}
+
             {showCancel && (() => {
               const isConfirmedPaid = booking.status === 'confirmed' &&
                 (booking.paymentStatus === 'paid' || booking.paymentStatus === 'partially_refunded')
@@ -1227,6 +1262,7 @@ export default function ChefBookingsView({
   const [checkoutStatusBookingId, setCheckoutStatusBookingId] = useState<number | null>(null)
   const [checkinStatusBookingId, setCheckinStatusBookingId] = useState<number | null>(null)
   const [cancellationTarget, setCancellationTarget] = useState<CancellationTarget | null>(null)
+  const [rescheduleTarget, setRescheduleTarget] = useState<RescheduleTarget | null>(null)
   const [checkinTrackerBookingId, setCheckinTrackerBookingId] = useState<number | null>(null)
 
   // TanStack Table state
@@ -1293,7 +1329,7 @@ export default function ChefBookingsView({
         const timezone = booking.locationTimezone || DEFAULT_TIMEZONE
         const bookingDateStr = booking.bookingDate.split('T')[0]
 
-        if (isBookingPast(bookingDateStr, booking.endTime, timezone)) {
+        if (isBookingPast(bookingDateStr, booking.endTime, timezone, booking.endDate?.split('T')[0])) {
           past.push(booking)
         } else {
           upcoming.push(booking)
@@ -1578,6 +1614,15 @@ export default function ChefBookingsView({
   const columns = useMemo(
     () => getChefBookingColumns({
       onCancelBooking: handleCancel,
+      onRescheduleBooking: (booking) => setRescheduleTarget({
+        id: booking.id,
+        kitchenId: booking.kitchenId,
+        kitchenName: booking.kitchenName || kitchens.find(k => k.id === booking.kitchenId)?.name || `Kitchen Booking #${booking.id}`,
+        bookingDate: booking.bookingDate.split('T')[0],
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        reschedulePolicyHours: booking.location?.reschedulePolicyHours ?? 24,
+      }),
       onDownloadInvoice: handleDownloadInvoice,
       onNavigate: navigate,
       onCheckinTracker: (id) => setCheckinTrackerBookingId(id),
@@ -2202,6 +2247,13 @@ export default function ChefBookingsView({
         />
       )}
 
+      {/* Reschedule Sheet */}
+      <RescheduleBookingSheet
+        open={rescheduleTarget !== null}
+        onOpenChange={(open) => { if (!open) setRescheduleTarget(null) }}
+        target={rescheduleTarget}
+      />
+
       {/* Cancellation Request / Confirm Sheet */}
       <CancellationRequestSheet
         open={cancellationTarget !== null}
@@ -11,6 +11,7 @@ import { StorageSelection } from "./StorageSelection";
 import { PendingOverstayPenalties } from "../chef/PendingOverstayPenalties";
 import { auth } from "@/lib/firebase";
 import { useUnpaidPenaltiesCheck } from "@/hooks/use-unpaid-penalties";
+import { MAX_BOOKING_SPAN_DAYS } from "@shared/timezone-utils";
 
 import {
   Sheet,
@@ -49,6 +50,9 @@ import {
   Loader2,
   CreditCard,
   ArrowLeft,
+  Tag,
+  Hourglass,
+  Wallet,
 } from "lucide-react";
 
 interface KitchenBookingSheetProps {
@@ -106,6 +110,13 @@ function getCalendarDays(year: number, month: number) {
   return days;
 }
 
+// Wall-clock hours of a run from startTime to endTime, endDayOffset days later
+function getSpanHours(startTime: string, endTime: string, endDayOffset: number) {
+  const [startH, startM] = startTime.split(':').map(Number);
+  const [endH, endM] = endTime.split(':').map(Number);
+  return (endDayOffset * 24 * 60 + endH * 60 + endM - (startH * 60 + startM)) / 60;
+}
+
 export default function KitchenBookingSheet({
   open,
   onOpenChange,
@@ -149,14 +160,19 @@ export default function KitchenBookingSheet({
     available: number;
     capacity: number;
     isFullyBooked: boolean;
+    isHeld?: boolean;
   }>>([]);
   const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
+  const [waitlistSlot, setWaitlistSlot] = useState<string | null>(null);
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
   const [isLoadingSlots, setIsLoadingSlots] = useState(false);
   const [maxSlotsPerChef, setMaxSlotsPerChef] = useState<number>(2);
 
   // Pricing state
   const [kitchenPricing, setKitchenPricing] = useState<{
     hourlyRate: number | null;
+    /** Daily cap in cents — a single day never costs more than this */
+    dailyRate: number | null;
     currency: string;
     minimumBookingHours: number;
   } | null>(null);
@@ -165,6 +181,7 @@ export default function KitchenBookingSheet({
     tax: number;
     totalPrice: number;
     durationHours: number;
+    dailyRateApplied: boolean;
   } | null>(null);
 
   // Add-ons state
@@ -183,6 +200,29 @@ export default function KitchenBookingSheet({
   const [selectedEquipmentIds, setSelectedEquipmentIds] = useState<number[]>([]);
   const [showStorageOptions, setShowStorageOptions] = useState(false);
   const [notes, setNotes] = useState<string>("");
+  const [promoCodeInput, setPromoCodeInput] = useState<string>("");
+  const [appliedPromo, setAppliedPromo] = useState<{ code: string; discountCents: number } | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [useWalletCredit, setUseWalletCredit] = useState(false);
+  // Recurring series (same time every week / every two weeks)
+  const [repeatFrequency, setRepeatFrequency] = useState<'none' | 'daily' | 'weekly' | 'biweekly'>('none');
+  const [repeatCount, setRepeatCount] = useState<number>(4);
+  const [seriesSkippedDates, setSeriesSkippedDates] = useState<string[]>([]);
+  // Overnight / multi-day run: ends spanEndTime, endDayOffset days after the selected date
+  const [endDayOffset, setEndDayOffset] = useState<number>(0);
+  const [spanEndTime, setSpanEndTime] = useState<string>('06:00');
+  // Kitchens with stations host several chefs at once; a chef may book more than one station
+  const [stationCount, setStationCount] = useState<number>(1);
+
+  // Stations free in every selected slot (capacity is 1 for kitchens without stations)
+  const maxStations = useMemo(() => {
+    if (selectedSlots.length === 0) return 1;
+    return Math.max(1, Math.min(...selectedSlots.map(time => allSlots.find(s => s.time === time)?.available ?? 1)));
+  }, [selectedSlots, allSlots]);
+
+  useEffect(() => {
+    setStationCount(prev => Math.min(prev, maxStations));
+  }, [maxStations]);
 
   // Storage pricing
   const storagePricing = useStoragePricing(selectedStorage, storageListings);
@@ -213,13 +253,126 @@ export default function KitchenBookingSheet({
     return kitchenBase + storageBaseCents + equipmentBaseCents;
   }, [estimatedPrice?.basePrice, storagePricing.subtotal, equipmentPricing.subtotal]);
 
+  // Promo discount comes off the pre-tax subtotal; tax is charged on what's left
+  const promoDiscount = appliedPromo ? Math.min(appliedPromo.discountCents, combinedSubtotal) : 0;
+
   const tax = useMemo(() => {
-    if (combinedSubtotal <= 0) return 0;
+    const discountedSubtotal = combinedSubtotal - promoDiscount;
+    if (discountedSubtotal <= 0) return 0;
     const taxRatePercent = selectedKitchen?.taxRatePercent || 0;
-    return Math.round((combinedSubtotal * taxRatePercent) / 100);
-  }, [combinedSubtotal, selectedKitchen?.taxRatePercent]);
+    return Math.round((discountedSubtotal * taxRatePercent) / 100);
+  }, [combinedSubtotal, promoDiscount, selectedKitchen?.taxRatePercent]);
+
+  const grandTotal = useMemo(() => combinedSubtotal - promoDiscount + tax, [combinedSubtotal, promoDiscount, tax]);
 
-  const grandTotal = useMemo(() => combinedSubtotal + tax, [combinedSubtotal, tax]);
+  // Prepaid credit spendable at this location; it comes off after tax and the
+  // card is always charged at least 50¢ (the server applies the same rule)
+  const { data: wallet } = useQuery<{ availableCents: number }>({
+    queryKey: ['/api/chef/wallet', locationId],
+    queryFn: async () => {
+      const currentUser = auth.currentUser;
+      const token = currentUser ? await currentUser.getIdToken() : '';
+      const response = await fetch(`/api/chef/wallet?locationId=${locationId}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to load wallet');
+      return response.json();
+    },
+    enabled: open,
+  });
+  const walletAvailable = wallet?.availableCents ?? 0;
+  const walletCredit = useWalletCredit && repeatFrequency === 'none'
+    ? Math.min(walletAvailable, Math.max(0, grandTotal - 50))
+    : 0;
+  const amountDue = grandTotal - walletCredit;
+
+  // A code's discount depends on the subtotal — re-apply after the selection changes
+  useEffect(() => {
+    setAppliedPromo(null);
+  }, [combinedSubtotal, selectedKitchen?.id]);
+
+  const applyPromoCode = async () => {
+    if (!selectedKitchen || !promoCodeInput.trim() || combinedSubtotal <= 0) return;
+    setIsApplyingPromo(true);
+    try {
+      const currentUser = auth.currentUser;
+      const token = currentUser ? await currentUser.getIdToken() : '';
+      const response = await fetch('/api/chef/promo-codes/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          code: promoCodeInput.trim(),
+          kitchenId: selectedKitchen.id,
+          subtotalCents: combinedSubtotal,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.valid) {
+        throw new Error(data.error || 'Invalid promo code');
+      }
+      setAppliedPromo({ code: data.code, discountCents: data.discountCents });
+      toast({
+        title: "Promo Code Applied",
+        description: `${data.code}: ${formatCurrency(data.discountCents)} off`,
+      });
+    } catch (error) {
+      setAppliedPromo(null);
+      toast({
+        title: "Promo Code Not Applied",
+        description: error instanceof Error ? error.message : "Could not apply this promo code.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const joinWaitlist = async () => {
+    if (!selectedKitchen || !selectedDate || !waitlistSlot) return;
+    setIsJoiningWaitlist(true);
+    try {
+      const [hours, minutes] = waitlistSlot.split(':').map(Number);
+      const endTime = `${(hours + 1).toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+      const currentUser = auth.currentUser;
+      const token = currentUser ? await currentUser.getIdToken() : '';
+      const response = await fetch('/api/chef/waitlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          kitchenId: selectedKitchen.id,
+          bookingDate: toLocalDateString(selectedDate),
+          startTime: waitlistSlot,
+          endTime,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not join the waitlist');
+      }
+      toast({
+        title: "Added to Waitlist",
+        description: "If this slot frees up, we'll hold it for you and let you know by email.",
+      });
+      setWaitlistSlot(null);
+    } catch (error) {
+      toast({
+        title: "Could Not Join Waitlist",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsJoiningWaitlist(false);
+    }
+  };
 
   const monthNames = ["January", "February", "March", "April", "May", "June",
     "July", "August", "September", "October", "November", "December"];
@@ -245,11 +398,16 @@ export default function KitchenBookingSheet({
       setSelectedKitchen(null);
       setSelectedDate(null);
       setSelectedSlots([]);
+      setWaitlistSlot(null);
       setAllSlots([]);
       setSelectedStorage([]);
       setSelectedEquipmentIds([]);
       setShowStorageOptions(false);
       setNotes("");
+      setRepeatFrequency('none');
+      setRepeatCount(4);
+      setSeriesSkippedDates([]);
+      setEndDayOffset(0);
       setEstimatedPrice(null);
       setKitchenPricing(null);
       setStorageListings([]);
@@ -350,19 +508,45 @@ export default function KitchenBookingSheet({
       return;
     }
 
+    if (endDayOffset > 0) {
+      // Overnight/multi-day: one continuous run billed in 24-hour periods, each capped at the daily rate
+      const spanHours = getSpanHours([...selectedSlots].sort()[0], spanEndTime, endDayOffset);
+      const durationHours = Math.max(spanHours, kitchenPricing.minimumBookingHours ?? 0);
+      const hourlyRate = kitchenPricing.hourlyRate ?? 0;
+      let basePrice = 0;
+      let dailyRateApplied = false;
+      for (let remaining = durationHours; remaining > 0; remaining -= 24) {
+        const periodPrice = hourlyRate * Math.min(24, remaining);
+        if (kitchenPricing.dailyRate && kitchenPricing.dailyRate < periodPrice) {
+          basePrice += kitchenPricing.dailyRate;
+          dailyRateApplied = true;
+        } else {
+          basePrice += periodPrice;
+        }
+      }
+      basePrice *= stationCount;
+      const taxAmount = Math.round((basePrice * (selectedKitchen?.taxRatePercent || 0)) / 100);
+      setEstimatedPrice({ basePrice, tax: taxAmount, totalPrice: basePrice + taxAmount, durationHours, dailyRateApplied });
+      return;
+    }
+
     const durationHours = Math.max(selectedSlots.length, kitchenPricing.minimumBookingHours ?? 0);
 
     if (kitchenPricing.hourlyRate && kitchenPricing.hourlyRate > 0) {
-      const basePrice = kitchenPricing.hourlyRate * durationHours;
+      // Mirrors server pricing: the daily rate caps a long day at the cheaper tier
+      const hourlyPrice = kitchenPricing.hourlyRate * durationHours;
+      const dailyRateApplied = !!kitchenPricing.dailyRate && kitchenPricing.dailyRate < hourlyPrice;
+      // Each station is charged the full rate
+      const basePrice = (dailyRateApplied ? kitchenPricing.dailyRate! : hourlyPrice) * stationCount;
       const taxRatePercent = selectedKitchen?.taxRatePercent || 0;
       const taxAmount = Math.round((basePrice * taxRatePercent) / 100);
       const totalPrice = basePrice + taxAmount;
 
-      setEstimatedPrice({ basePrice, tax: taxAmount, totalPrice, durationHours });
+      setEstimatedPrice({ basePrice, tax: taxAmount, totalPrice, durationHours, dailyRateApplied });
     } else {
-      setEstimatedPrice({ basePrice: 0, tax: 0, totalPrice: 0, durationHours: 0 });
+      setEstimatedPrice({ basePrice: 0, tax: 0, totalPrice: 0, durationHours: 0, dailyRateApplied: false });
     }
-  }, [selectedSlots, selectedKitchen, kitchenPricing]);
+  }, [selectedSlots, selectedKitchen, kitchenPricing, endDayOffset, spanEndTime, stationCount]);
 
   const loadAvailableSlots = async (kitchenId: number, date: string) => {
     setIsLoadingSlots(true);
@@ -556,11 +740,12 @@ export default function KitchenBookingSheet({
         }
         setKitchenPricing({
           hourlyRate: hourlyRateCents,
+          dailyRate: pricing.dailyRate != null ? parseFloat(pricing.dailyRate) : null,
           currency: pricing.currency || 'CAD',
           minimumBookingHours: pricing.minimumBookingHours ?? 0,
         });
       } else {
-        setKitchenPricing({ hourlyRate: null, currency: 'CAD', minimumBookingHours: 0 });
+        setKitchenPricing({ hourlyRate: null, dailyRate: null, currency: 'CAD', minimumBookingHours: 0 });
       }
 
       // Fetch addons
@@ -568,7 +753,7 @@ export default function KitchenBookingSheet({
       setCurrentStep('addons');
     } catch (error) {
       logger.error('Error fetching kitchen data:', error);
-      setKitchenPricing({ hourlyRate: null, currency: 'CAD', minimumBookingHours: 0 });
+      setKitchenPricing({ hourlyRate: null, dailyRate: null, currency: 'CAD', minimumBookingHours: 0 });
     }
   };
 
@@ -577,16 +762,16 @@ export default function KitchenBookingSheet({
     if (date.getMonth() !== currentMonth) return;
     setSelectedDate(date);
     setSelectedSlots([]);
+    setWaitlistSlot(null);
+    setEndDayOffset(0);
+    setStationCount(1);
     // Don't auto-navigate to slots - user clicks Continue button
   };
 
   const handleSlotClick = (slot: { time: string; available: number; capacity: number; isFullyBooked: boolean }) => {
     if (slot.isFullyBooked) {
-      toast({
-        title: "Slot Fully Booked",
-        description: "This time slot is already at maximum capacity.",
-        variant: "destructive",
-      });
+      // Fully booked slots can't be selected — offer the waitlist instead
+      setWaitlistSlot(prev => prev === slot.time ? null : slot.time);
       return;
     }
 
@@ -701,6 +886,12 @@ export default function KitchenBookingSheet({
     });
   };
 
+  const addDays = (date: Date, days: number) => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+  };
+
   const calendarDays = selectedKitchen ? getCalendarDays(currentYear, currentMonth) : [];
   const isCurrentMonth = (date: Date) => date.getMonth() === currentMonth;
   const isToday = (date: Date) => date.toDateString() === today.toDateString();
@@ -725,6 +916,9 @@ export default function KitchenBookingSheet({
     if (selectedSlots.length === 0) return '';
     const sortedSlots = [...selectedSlots].sort();
     const startTime = sortedSlots[0];
+    if (endDayOffset > 0 && selectedDate) {
+      return `${formatDate(selectedDate)} ${formatTime(startTime)} - ${formatDate(addDays(selectedDate, endDayOffset))} ${formatTime(spanEndTime)}`;
+    }
     const lastSlotStart = sortedSlots[sortedSlots.length - 1];
     const [lastHours, lastMinutes] = lastSlotStart.split(':').map(Number);
     const endHour = lastHours + 1;
@@ -768,11 +962,16 @@ export default function KitchenBookingSheet({
       const endTotalMins = lastH * 60 + lastM + 60; // Add 1 hour to last slot start
       const endHours = Math.floor(endTotalMins / 60);
       const endMins = endTotalMins % 60;
-      const endTime = `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
+      const isSpan = endDayOffset > 0;
+      const endTime = isSpan
+        ? spanEndTime
+        : `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
 
       const bookingDateStr = toLocalDateString(selectedDate);
       const [year, month, day] = bookingDateStr.split('-').map(Number);
       const bookingDate = new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+      // Overnight/multi-day runs end on a later day; the server prices them as one continuous span
+      const endDate = isSpan ? new Date(Date.UTC(year, month - 1, day + endDayOffset, 12, 0, 0)) : null;
 
       const { auth } = await import('@/lib/firebase');
       const currentUser = auth.currentUser;
@@ -788,9 +987,10 @@ export default function KitchenBookingSheet({
         body: JSON.stringify({
           kitchenId: selectedKitchen.id,
           bookingDate: bookingDate.toISOString(),
+          endDate: endDate ? endDate.toISOString() : undefined,
           startTime,
           endTime,
-          selectedSlots: sortedSlots.map(slot => {
+          selectedSlots: isSpan ? undefined : sortedSlots.map(slot => {
             const [h, m] = slot.split(':').map(Number);
             const endMins = h * 60 + m + 60;
             const endH = Math.floor(endMins / 60);
@@ -807,6 +1007,9 @@ export default function KitchenBookingSheet({
             endDate: s.endDate instanceof Date ? s.endDate.toISOString() : s.endDate,
           })) : undefined,
           selectedEquipmentIds: selectedEquipmentIds.length > 0 ? selectedEquipmentIds : undefined,
+          promoCode: appliedPromo?.code,
+          useWalletCredit: walletCredit > 0 || undefined,
+          stationCount: stationCount > 1 ? stationCount : undefined,
         }),
       });
 
@@ -841,6 +1044,102 @@ export default function KitchenBookingSheet({
   };
 
 
+  // Recurring series checkout — one consolidated Stripe session for every occurrence
+  const redirectToSeriesCheckout = async () => {
+    if (!selectedKitchen || !selectedDate || selectedSlots.length === 0 || repeatFrequency === 'none') return;
+
+    if (penaltyData?.hasUnpaidPenalties) {
+      const totalOwed = (penaltyData.totalOwedCents / 100).toFixed(2);
+      toast({
+        title: "Booking Blocked - Unpaid Penalties",
+        description: `You have ${penaltyData.totalCount} unpaid penalty(ies) totaling $${totalOwed}. Please resolve these before making new bookings.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsRedirectingToCheckout(true);
+    try {
+      const sortedSlots = [...selectedSlots].sort();
+      const toSlotRange = (slot: string) => {
+        const [h, m] = slot.split(':').map(Number);
+        const endMins = h * 60 + m + 60;
+        return {
+          startTime: slot,
+          endTime: `${Math.floor(endMins / 60).toString().padStart(2, '0')}:${(endMins % 60).toString().padStart(2, '0')}`,
+        };
+      };
+      const startTime = sortedSlots[0];
+      const endTime = toSlotRange(sortedSlots[sortedSlots.length - 1]).endTime;
+      const startDate = toLocalDateString(selectedDate);
+
+      const { auth } = await import('@/lib/firebase');
+      const currentUser = auth.currentUser;
+      const token = currentUser ? await currentUser.getIdToken() : '';
+
+      const response = await fetch('/api/chef/bookings/series/checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          kitchenId: selectedKitchen.id,
+          startTime,
+          endTime,
+          selectedSlots: sortedSlots.map(toSlotRange),
+          specialNotes: notes,
+          recurrence: {
+            frequency: repeatFrequency,
+            // Consecutive days are expanded server-side across every weekday
+            daysOfWeek: repeatFrequency === 'daily' ? [] : [selectedDate.getDay()],
+            startDate,
+            occurrenceCount: repeatCount,
+            excludedDates: seriesSkippedDates.length > 0 ? seriesSkippedDates : undefined,
+          },
+        }),
+      });
+
+      if (response.status === 409) {
+        // Some dates are taken — skip them and let the chef confirm the reduced series
+        const data = await response.json();
+        const unavailable: string[] = (data.occurrences || [])
+          .filter((o: { available: boolean }) => !o.available)
+          .map((o: { date: string }) => o.date);
+        setSeriesSkippedDates(prev => Array.from(new Set([...prev, ...unavailable])));
+        toast({
+          title: "Some Dates Unavailable",
+          description: `${unavailable.join(', ')} will be skipped. Press Checkout again to continue with the remaining dates.`,
+        });
+        setIsRedirectingToCheckout(false);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create checkout session');
+      }
+
+      const data = await response.json();
+      if (data.sessionUrl) {
+        onOpenChange(false);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        document.body.style.pointerEvents = '';
+        window.location.href = data.sessionUrl;
+      } else {
+        throw new Error('No checkout URL returned');
+      }
+    } catch (error) {
+      toast({
+        title: "Checkout Failed",
+        description: error instanceof Error ? error.message : "Failed to start checkout. Please try again.",
+        variant: "destructive",
+      });
+      setIsRedirectingToCheckout(false);
+    }
+  };
+
   // Handle free booking submission
   const handleFreeBookingSubmit = async () => {
     if (!selectedKitchen || !selectedDate || selectedSlots.length === 0) return;
@@ -1369,18 +1668,19 @@ export default function KitchenBookingSheet({
                 {allSlots.map((slot) => {
                   const isSelected = selectedSlots.includes(slot.time);
                   const isFullyBooked = slot.isFullyBooked;
+                  const isWaitlistTarget = waitlistSlot === slot.time;
 
                   return (
                     <button
                       key={slot.time}
                       type="button"
                       onClick={() => handleSlotClick(slot)}
-                      disabled={isFullyBooked}
                       className={cn(
                         "py-2.5 px-2 border rounded-lg text-center transition-all duration-200",
                         isSelected && "bg-primary text-primary-foreground border-primary shadow-sm",
                         !isSelected && !isFullyBooked && "border-border hover:border-primary hover:bg-primary/5",
-                        isFullyBooked && "bg-muted/50 text-muted-foreground/50 cursor-not-allowed border-transparent"
+                        isFullyBooked && "bg-muted/50 text-muted-foreground/50 border-transparent",
+                        isWaitlistTarget && "border-amber-300 bg-amber-50"
                       )}
                     >
                       <span className={cn("text-xs sm:text-sm font-medium leading-tight", isFullyBooked && "line-through")}>
@@ -1394,10 +1694,36 @@ export default function KitchenBookingSheet({
                           {slot.available} left
                         </span>
                       )}
+                      {isFullyBooked && (
+                        <span className="block text-[10px] sm:text-xs mt-0.5">
+                          {slot.isHeld ? 'On hold' : 'Full'}
+                        </span>
+                      )}
                     </button>
                   );
                 })}
               </div>
+              {waitlistSlot && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-2.5 mt-3 flex items-start gap-2">
+                  <Hourglass className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="text-xs text-amber-800">
+                      <strong>{formatSlotRange(waitlistSlot)} is fully booked.</strong> Join the waitlist and we&apos;ll hold it for you if it frees up.
+                    </p>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="mt-2 h-7 text-xs"
+                      onClick={joinWaitlist}
+                      disabled={isJoiningWaitlist}
+                    >
+                      {isJoiningWaitlist && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      Join Waitlist
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1428,7 +1754,11 @@ export default function KitchenBookingSheet({
                   </div>
                   <div className="p-2 bg-background rounded">
                     <p className="text-xs text-muted-foreground">Duration</p>
-                    <p className="text-sm font-medium">{selectedSlots.length} hour{selectedSlots.length > 1 ? 's' : ''}</p>
+                    {endDayOffset > 0 ? (
+                      <p className="text-sm font-medium">{getSpanHours([...selectedSlots].sort()[0], spanEndTime, endDayOffset)} hours</p>
+                    ) : (
+                      <p className="text-sm font-medium">{selectedSlots.length} hour{selectedSlots.length > 1 ? 's' : ''}</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1437,13 +1767,13 @@ export default function KitchenBookingSheet({
               <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
                 <p className="text-xs text-muted-foreground mb-1">Booking Time</p>
                 <p className="text-base font-semibold text-green-800">{getBookingTimeRange()}</p>
-                <div className="flex flex-wrap gap-1.5 mt-2">
+                {endDayOffset === 0 && <div className="flex flex-wrap gap-1.5 mt-2">
                   {[...selectedSlots].sort().map((slot, idx) => (
                     <span key={slot} className="px-2 py-0.5 bg-white border border-green-300 rounded text-xs font-medium text-green-800">
                       {formatSlotRange(slot)}
                     </span>
                   ))}
-                </div>
+                </div>}
               </div>
 
               {/* Pricing Summary */}
@@ -1458,8 +1788,11 @@ export default function KitchenBookingSheet({
                   {kitchenPricing?.hourlyRate && estimatedPrice && (
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">
-                        Kitchen ({estimatedPrice.durationHours}hr × {formatCurrency(kitchenPricing.hourlyRate)})
-                        {estimatedPrice.durationHours > selectedSlots.length && (
+                        {estimatedPrice.dailyRateApplied
+                          ? `Kitchen (${estimatedPrice.durationHours}hr, daily rate)`
+                          : `Kitchen (${estimatedPrice.durationHours}hr × ${formatCurrency(kitchenPricing.hourlyRate)})`}
+                        {stationCount > 1 && ` × ${stationCount} stations`}
+                        {!estimatedPrice.dailyRateApplied && estimatedPrice.durationHours > selectedSlots.length && (
                           <span className="text-xs text-amber-600 ml-1">(min {estimatedPrice.durationHours}hr)</span>
                         )}
                       </span>
@@ -1487,6 +1820,14 @@ export default function KitchenBookingSheet({
                     </div>
                   )}
                   
+                  {/* Promo discount */}
+                  {promoDiscount > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Promo ({appliedPromo?.code})</span>
+                      <span className="font-medium">-{formatCurrency(promoDiscount)}</span>
+                    </div>
+                  )}
+
                   {/* Tax */}
                   {tax > 0 && (
                     <div className="flex justify-between pt-2 border-t">
@@ -1494,15 +1835,90 @@ export default function KitchenBookingSheet({
                       <span className="font-medium">{formatCurrency(tax)}</span>
                     </div>
                   )}
+
+                  {/* Wallet credit */}
+                  {walletCredit > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Wallet credit</span>
+                      <span className="font-medium">-{formatCurrency(walletCredit)}</span>
+                    </div>
+                  )}
                   
                   {/* Total */}
                   <div className="flex justify-between pt-2 border-t">
-                    <span className="font-semibold">Total</span>
-                    <span className="text-lg font-bold text-primary">{formatCurrency(grandTotal)} {kitchenPricing?.currency || 'CAD'}</span>
+                    <span className="font-semibold">{walletCredit > 0 ? 'Charged to card' : 'Total'}</span>
+                    <span className="text-lg font-bold text-primary">{formatCurrency(amountDue)} {kitchenPricing?.currency || 'CAD'}</span>
                   </div>
                 </div>
               </div>
 
+              {/* Promo code — single bookings only; recurring series are priced separately */}
+              {combinedSubtotal > 0 && repeatFrequency === 'none' && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Promo Code (Optional)</label>
+                  {appliedPromo ? (
+                    <div className="flex items-center justify-between p-2 bg-green-50 border border-green-200 rounded-lg">
+                      <span className="flex items-center gap-2 text-sm font-medium text-green-800">
+                        <Tag className="h-4 w-4" />
+                        {appliedPromo.code} applied
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setAppliedPromo(null);
+                          setPromoCodeInput("");
+                        }}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={promoCodeInput}
+                        onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') applyPromoCode();
+                        }}
+                        maxLength={32}
+                        placeholder="Enter code"
+                        className="flex-1 border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={applyPromoCode}
+                        disabled={isApplyingPromo || !promoCodeInput.trim()}
+                      >
+                        {isApplyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Wallet credit — single bookings only, like promo codes */}
+              {walletAvailable > 0 && combinedSubtotal > 0 && repeatFrequency === 'none' && (
+                <label className="flex items-start gap-3 p-3 border border-border rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useWalletCredit}
+                    onChange={(e) => setUseWalletCredit(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 rounded border-border"
+                  />
+                  <span className="text-sm">
+                    <span className="flex items-center gap-2 font-medium">
+                      <Wallet className="h-4 w-4" />
+                      Use wallet credit
+                    </span>
+                    <span className="block text-xs text-muted-foreground mt-1">
+                      {formatCurrency(walletAvailable)} available at this location. At least {formatCurrency(50)} is always charged to your card.
+                    </span>
+                  </span>
+                </label>
+              )}
+
               {/* Notes */}
               <div>
                 <label className="block text-sm font-medium mb-2">Special Notes (Optional)</label>
@@ -1516,6 +1932,119 @@ export default function KitchenBookingSheet({
                 />
               </div>
 
+              {/* Stations — only for kitchens that can host several chefs at once */}
+              {(allSlots[0]?.capacity ?? 1) > 1 && repeatFrequency === 'none' && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Stations</label>
+                  <select
+                    value={stationCount}
+                    onChange={(e) => {
+                      setStationCount(parseInt(e.target.value));
+                      setAppliedPromo(null);
+                    }}
+                    className="w-full border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  >
+                    {Array.from({ length: maxStations }, (_, i) => i + 1).map(count => (
+                      <option key={count} value={count}>
+                        {count} station{count > 1 ? 's' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    This kitchen has {allSlots[0].capacity} stations shared between chefs. Each station is charged the full rate.
+                  </p>
+                </div>
+              )}
+
+              {/* Ends — overnight / multi-day run from the first selected slot */}
+              {repeatFrequency === 'none' && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Ends</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={endDayOffset}
+                      onChange={(e) => {
+                        setEndDayOffset(parseInt(e.target.value));
+                        setAppliedPromo(null);
+                      }}
+                      className="flex-1 border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                    >
+                      <option value={0}>Same day</option>
+                      {Array.from({ length: MAX_BOOKING_SPAN_DAYS }, (_, i) => i + 1).map(days => (
+                        <option key={days} value={days}>
+                          {formatDate(addDays(selectedDate, days))}{days === 1 ? ' (overnight)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    {endDayOffset > 0 && (
+                      <select
+                        value={spanEndTime}
+                        onChange={(e) => setSpanEndTime(e.target.value)}
+                        className="w-32 border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                      >
+                        {Array.from({ length: 24 }, (_, h) => `${h.toString().padStart(2, '0')}:00`).map(time => (
+                          <option key={time} value={time}>{formatTime(time)}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {endDayOffset > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      One continuous booking from {formatTime([...selectedSlots].sort()[0])} until {formatTime(spanEndTime)} on {formatDate(addDays(selectedDate, endDayOffset))}. The kitchen must be open through midnight on each day, and every 24 hours is capped at the daily rate where one is set.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Repeat — recurring series (kitchen time only, no add-ons) */}
+              {endDayOffset === 0 && stationCount === 1 && grandTotal > 0 && selectedStorage.length === 0 && selectedEquipmentIds.length === 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Repeat</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={repeatFrequency}
+                      onChange={(e) => {
+                        setRepeatFrequency(e.target.value as 'none' | 'daily' | 'weekly' | 'biweekly');
+                        setSeriesSkippedDates([]);
+                        setAppliedPromo(null);
+                      }}
+                      className="flex-1 border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                    >
+                      <option value="none">Does not repeat</option>
+                      <option value="daily">Consecutive days</option>
+                      <option value="weekly">Every week</option>
+                      <option value="biweekly">Every 2 weeks</option>
+                    </select>
+                    {repeatFrequency !== 'none' && (
+                      <select
+                        value={repeatCount}
+                        onChange={(e) => {
+                          setRepeatCount(parseInt(e.target.value));
+                          setSeriesSkippedDates([]);
+                        }}
+                        className="w-32 border border-border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                      >
+                        {[2, 3, 4, 6, 8, 10, 12, 16, 26, 52].map(n => (
+                          <option key={n} value={n}>{n} {repeatFrequency === 'daily' ? 'days' : 'sessions'}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {repeatFrequency === 'daily' && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Same hours every day for {repeatCount} days, priced as one multi-day stay — daily and weekly rates apply where cheaper. All days are authorized in one checkout and charged when the manager approves.
+                      {seriesSkippedDates.length > 0 && ` Skipping: ${seriesSkippedDates.join(', ')}.`}
+                    </p>
+                  )}
+                  {(repeatFrequency === 'weekly' || repeatFrequency === 'biweekly') && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Same time on {selectedDate.toLocaleDateString('en-US', { weekday: 'long' })}s. The total above is per session — all sessions are authorized in one checkout and charged when the manager approves.
+                      {seriesSkippedDates.length > 0 && ` Skipping: ${seriesSkippedDates.join(', ')}.`}
+                    </p>
+                  )}
+                </div>
+              )}
+
             </div>
           </ScrollArea>
         </div>
@@ -1540,9 +2069,9 @@ export default function KitchenBookingSheet({
     // Kitchen time - use estimatedPrice which accounts for minimumBookingHours
     if (selectedSlots.length > 0 && kitchenPricing?.hourlyRate && estimatedPrice) {
       const effectiveHours = estimatedPrice.durationHours;
-      const minApplied = effectiveHours > selectedSlots.length;
+      const minApplied = !estimatedPrice.dailyRateApplied && effectiveHours > selectedSlots.length;
       items.push({
-        label: `${effectiveHours} hour${effectiveHours > 1 ? 's' : ''} kitchen time${minApplied ? ` (min ${effectiveHours}hr)` : ''}`,
+        label: `${effectiveHours} hour${effectiveHours > 1 ? 's' : ''} kitchen time${minApplied ? ` (min ${effectiveHours}hr)` : ''}${estimatedPrice.dailyRateApplied ? ' (daily rate)' : ''}`,
         value: estimatedPrice.basePrice
       });
     }
@@ -1575,16 +2104,28 @@ export default function KitchenBookingSheet({
               <span className="font-medium">{formatCurrency(item.value)}</span>
             </div>
           ))}
+          {promoDiscount > 0 && (
+            <div className="flex items-center justify-between text-sm text-green-700">
+              <span>Promo ({appliedPromo?.code})</span>
+              <span className="font-medium">-{formatCurrency(promoDiscount)}</span>
+            </div>
+          )}
           {tax > 0 && (
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Tax</span>
               <span className="font-medium">{formatCurrency(tax)}</span>
             </div>
           )}
+          {walletCredit > 0 && (
+            <div className="flex items-center justify-between text-sm text-green-700">
+              <span>Wallet credit</span>
+              <span className="font-medium">-{formatCurrency(walletCredit)}</span>
+            </div>
+          )}
         </div>
         <div className="flex items-center justify-between pt-2 mt-2 border-t">
-          <span className="text-sm font-semibold">Total</span>
-          <span className="text-lg font-semibold text-primary">{formatCurrency(grandTotal)} {kitchenPricing?.currency || 'CAD'}</span>
+          <span className="text-sm font-semibold">{walletCredit > 0 ? 'Charged to card' : 'Total'}</span>
+          <span className="text-lg font-semibold text-primary">{formatCurrency(amountDue)} {kitchenPricing?.currency || 'CAD'}</span>
         </div>
       </div>
     );
@@ -1652,7 +2193,7 @@ export default function KitchenBookingSheet({
           </Button>
           <Button 
             className="flex-1 min-h-[44px]" 
-            onClick={grandTotal > 0 ? redirectToStripeCheckout : handleFreeBookingSubmit}
+            onClick={repeatFrequency !== 'none' && selectedStorage.length === 0 && selectedEquipmentIds.length === 0 ? redirectToSeriesCheckout : grandTotal > 0 ? redirectToStripeCheckout : handleFreeBookingSubmit}
             disabled={createBooking.isPending || isRedirectingToCheckout || isProcessingBooking}
           >
             {createBooking.isPending || isRedirectingToCheckout || isProcessingBooking ? (
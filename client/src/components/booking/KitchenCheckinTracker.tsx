@@ -152,7 +152,7 @@ export function KitchenCheckinTracker({
   } = useKitchenCheckin(open ? bookingId : null)
 
   // Fetch manager-defined checklist for this location
-  const { data: checklist } = useLocationChecklist(data?.locationId)
+  const { data: checklist } = useLocationChecklist(data?.locationId, { kitchenId: data?.kitchenId })
 
   const [checkinNotes, setCheckinNotes] = useState("")
   const [checkoutNotes, setCheckoutNotes] = useState("")
@@ -205,6 +205,7 @@ export function KitchenCheckinTracker({
       await checkin({
         checkinNotes: checkinNotes || undefined,
         checkinPhotoUrls: flattenPhotos(checkinPhotos),
+        checkinPhotosByRequirement: checkinPhotos,
         checkinChecklistItems: checkinChecklistItems.length > 0 ? checkinChecklistItems : undefined,
       })
       toast.success("Checked in successfully!")
@@ -240,6 +241,7 @@ export function KitchenCheckinTracker({
       await checkout({
         checkoutNotes: checkoutNotes || undefined,
         checkoutPhotoUrls: flattenPhotos(checkoutPhotos),
+        checkoutPhotosByRequirement: checkoutPhotos,
         checkoutChecklistItems: checkoutChecklistItems.length > 0 ? checkoutChecklistItems : undefined,
       })
       toast.success("Checkout requested! Manager will review shortly.")
@@ -0,0 +1,297 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format, startOfToday, isBefore } from "date-fns"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, ArrowRight, CalendarClock, Loader2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { getAuthHeaders } from "@/lib/api"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RescheduleTarget {
+  id: number
+  kitchenId: number
+  kitchenName: string
+  bookingDate: string // YYYY-MM-DD
+  startTime: string
+  endTime: string
+  reschedulePolicyHours: number
+}
+
+interface TimeSlot {
+  time: string
+  available: number
+  capacity: number
+  isFullyBooked: boolean
+  isHeld: boolean
+}
+
+interface ReschedulePreview {
+  currentKitchenPriceCents: number
+  newKitchenPriceCents: number
+  priceDifferenceCents: number
+  taxDifferenceCents: number
+  amountDueCents: number
+  settlement: "none" | "charge" | "refund" | "reduce_hold"
+}
+
+interface RescheduleBookingSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  target: RescheduleTarget | null
+}
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders()
+  const res = await fetch(url, { ...init, headers })
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body.error || `Request failed (${res.status})`)
+  }
+  return res.json()
+}
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":")
+  const hour = parseInt(hours)
+  const ampm = hour >= 12 ? "PM" : "AM"
+  const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour
+  return `${displayHour}:${minutes} ${ampm}`
+}
+
+const addHour = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return `${String(hours + 1).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+}
+
+const formatCents = (cents: number) => `$${(Math.abs(cents) / 100).toFixed(2)}`
+
+const SETTLEMENT_LABELS: Record<ReschedulePreview["settlement"], (amount: string) => string> = {
+  none: () => "No change to what you pay.",
+  charge: (amount) => `${amount} will be charged to the card you booked with.`,
+  refund: (amount) => `${amount} will be refunded to the card you booked with.`,
+  reduce_hold: (amount) => `Your payment hold will be reduced by ${amount} when the manager approves.`,
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Moves a kitchen booking to another date or time. The server re-prices the
+ * new time and settles the difference with the card used at checkout.
+ */
+export function RescheduleBookingSheet({ open, onOpenChange, target }: RescheduleBookingSheetProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined)
+  const [startTime, setStartTime] = useState("")
+  const [endTime, setEndTime] = useState("")
+
+  useEffect(() => {
+    if (open && target) {
+      setSelectedDate(new Date(`${target.bookingDate}T12:00:00`))
+      setStartTime("")
+      setEndTime("")
+    }
+  }, [open, target])
+
+  const dateStr = selectedDate ? format(selectedDate, "yyyy-MM-dd") : ""
+
+  const { data: slots = [], isLoading: isLoadingSlots } = useQuery<TimeSlot[]>({
+    queryKey: [`/api/chef/kitchens/${target?.kitchenId}/slots`, dateStr],
+    queryFn: () => requestJson(`/api/chef/kitchens/${target!.kitchenId}/slots?date=${dateStr}`, { method: "GET" }),
+    enabled: open && !!target && !!dateStr,
+  })
+
+  // The booking's own hours stay free for it on its current date
+  const freeSlots = useMemo(() => {
+    if (!target) return new Set<string>()
+    const isCurrentDate = dateStr === target.bookingDate
+    return new Set(slots
+      .filter(slot => slot.available > 0 || (isCurrentDate && slot.time >= target.startTime && slot.time < target.endTime))
+      .map(slot => slot.time))
+  }, [slots, dateStr, target])
+
+  // End times reachable from the chosen start without crossing a taken slot
+  const endOptions = useMemo(() => {
+    if (!startTime) return []
+    const options: string[] = []
+    const times = slots.map(slot => slot.time)
+    for (let i = times.indexOf(startTime); i >= 0 && i < times.length && freeSlots.has(times[i]); i++) {
+      if (i > times.indexOf(startTime) && times[i] !== addHour(times[i - 1])) break
+      options.push(addHour(times[i]))
+    }
+    return options
+  }, [slots, freeSlots, startTime])
+
+  const canPreview = !!target && !!dateStr && !!startTime && !!endTime
+  const requestBody = { bookingDate: dateStr, startTime, endTime }
+
+  const { data: preview, error: previewError, isFetching: isPreviewing } = useQuery<ReschedulePreview, Error>({
+    queryKey: [`/api/chef/bookings/${target?.id}/reschedule/preview`, dateStr, startTime, endTime],
+    queryFn: () => requestJson(`/api/chef/bookings/${target!.id}/reschedule/preview`, {
+      method: "POST",
+      body: JSON.stringify(requestBody),
+    }),
+    enabled: open && canPreview,
+    retry: false,
+  })
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () => requestJson(`/api/chef/bookings/${target!.id}/reschedule`, {
+      method: "PUT",
+      body: JSON.stringify(requestBody),
+    }),
+    onSuccess: (data: { accessCode?: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chef/bookings"] })
+      toast({
+        title: "Booking Rescheduled",
+        description: data.accessCode
+          ? `Your booking has moved. Your new kitchen access code is ${data.accessCode}.`
+          : "Your booking has moved to the new time.",
+      })
+      onOpenChange(false)
+    },
+    onError: (err: Error) => {
+      toast({ title: "Reschedule Failed", description: err.message, variant: "destructive" })
+    },
+  })
+
+  if (!target) return null
+
+  const handleDateSelect = (date: Date | undefined) => {
+    setSelectedDate(date)
+    setStartTime("")
+    setEndTime("")
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-[440px] flex flex-col p-0 gap-0">
+        <SheetHeader className="px-6 pt-6 pb-4 border-b bg-gradient-to-br from-blue-50 to-indigo-50">
+          <SheetTitle className="flex items-center gap-2 text-base">
+            <CalendarClock className="h-5 w-5 text-blue-600" />
+            Reschedule Booking
+          </SheetTitle>
+          <SheetDescription>
+            {target.kitchenName} — {format(new Date(`${target.bookingDate}T12:00:00`), "EEE, MMM d")}, {formatTime(target.startTime)} - {formatTime(target.endTime)}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-5">
+          <p className="text-xs text-muted-foreground">
+            Bookings can be moved up to {target.reschedulePolicyHours} hours before they start. If the new time costs more or less, the difference is charged or refunded.
+          </p>
+
+          <div className="flex justify-center border rounded-lg p-2">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={handleDateSelect}
+              disabled={(date) => isBefore(date, startOfToday())}
+              defaultMonth={selectedDate}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Start</Label>
+              <Select
+                value={startTime}
+                onValueChange={(value) => { setStartTime(value); setEndTime(addHour(value)) }}
+                disabled={isLoadingSlots || slots.length === 0}
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue placeholder={isLoadingSlots ? "Loading..." : slots.length === 0 ? "Closed" : "Start time"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {slots.filter(slot => freeSlots.has(slot.time)).map(slot => (
+                    <SelectItem key={slot.time} value={slot.time}>{formatTime(slot.time)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>End</Label>
+              <Select value={endTime} onValueChange={setEndTime} disabled={!startTime}>
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue placeholder="End time" />
+                </SelectTrigger>
+                <SelectContent>
+                  {endOptions.map(time => (
+                    <SelectItem key={time} value={time}>{formatTime(time)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isPreviewing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking the new time...
+            </div>
+          )}
+
+          {previewError && !isPreviewing && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-red-800">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span className="text-sm">{previewError.message}</span>
+            </div>
+          )}
+
+          {preview && !previewError && !isPreviewing && (
+            <div className="rounded-lg border p-4 space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Kitchen price</span>
+                <span className="flex items-center gap-2 font-medium">
+                  {formatCents(preview.currentKitchenPriceCents)}
+                  <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                  {formatCents(preview.newKitchenPriceCents)}
+                </span>
+              </div>
+              {preview.taxDifferenceCents !== 0 && (
+                <div className="flex items-center justify-between text-muted-foreground">
+                  <span>Tax difference</span>
+                  <span>{preview.taxDifferenceCents < 0 ? "-" : ""}{formatCents(preview.taxDifferenceCents)}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between pt-2 border-t font-semibold">
+                <span>{preview.amountDueCents < 0 ? "You get back" : "You pay"}</span>
+                <span>{formatCents(preview.amountDueCents)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {SETTLEMENT_LABELS[preview.settlement](formatCents(preview.amountDueCents))}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <SheetFooter className="px-6 py-4 border-t bg-gray-50 gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={rescheduleMutation.isPending}>
+            Keep Current Time
+          </Button>
+          <Button
+            onClick={() => rescheduleMutation.mutate()}
+            disabled={!preview || !!previewError || isPreviewing || rescheduleMutation.isPending}
+          >
+            {rescheduleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Confirm New Time
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
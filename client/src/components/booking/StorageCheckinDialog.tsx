@@ -52,6 +52,7 @@ interface StorageCheckinDialogProps {
     startDate: string;
     checkinStatus?: string;
     locationId?: number;
+    storageListingId?: number;
   };
   onSuccess?: () => void;
 }
@@ -73,7 +74,9 @@ export function StorageCheckinDialog({
   const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
 
   // Fetch manager-defined check-in checklist for the storage unit's location.
-  const { data: checklist } = useLocationChecklist(storageBooking.locationId);
+  const { data: checklist } = useLocationChecklist(storageBooking.locationId, {
+    storageListingId: storageBooking.storageListingId,
+  });
   const storageCheckinItems: ChecklistItem[] =
     checklist?.storageCheckinItems || [];
   const storageCheckinPhotoReqs: PhotoRequirement[] =
@@ -140,6 +143,7 @@ export function StorageCheckinDialog({
           body: JSON.stringify({
             checkinNotes: checkinNotes.trim() || undefined,
             checkinPhotoUrls: flattenPhotos(uploadedPhotos),
+            checkinPhotosByRequirement: uploadedPhotos,
             checkinChecklistItems:
               checkinChecklistItems.length > 0
                 ? checkinChecklistItems
@@ -44,6 +44,7 @@ interface StorageCheckoutDialogProps {
     endDate: string;
     checkoutStatus?: string;
     locationId?: number;
+    storageListingId?: number;
   };
   onSuccess?: () => void;
 }
@@ -63,7 +64,9 @@ export function StorageCheckoutDialog({
   const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
 
   // Fetch manager-defined checklist for storage checkout
-  const { data: checklist } = useLocationChecklist(storageBooking.locationId);
+  const { data: checklist } = useLocationChecklist(storageBooking.locationId, {
+    storageListingId: storageBooking.storageListingId,
+  });
   const storageCheckoutItems: ChecklistItem[] = checklist?.storageCheckoutItems || [];
   const storageCheckoutPhotoReqs: PhotoRequirement[] = checklist?.storageCheckoutPhotoRequirements || [];
   // All items are required by design.
@@ -115,6 +118,7 @@ export function StorageCheckoutDialog({
         body: JSON.stringify({
           checkoutNotes: checkoutNotes.trim() || undefined,
           checkoutPhotoUrls: flattenPhotos(uploadedPhotos),
+          checkoutPhotosByRequirement: uploadedPhotos,
           checkoutChecklistItems: checkoutChecklistItems.length > 0 ? checkoutChecklistItems : undefined,
         }),
       });
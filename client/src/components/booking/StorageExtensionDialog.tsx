@@ -17,6 +17,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { getAuthHeaders } from "@/lib/api";
 import { useUnpaidPenaltiesCheck } from "@/hooks/use-unpaid-penalties";
+import { StorageSubscriptionPanel, isLiveSubscription, useStorageSubscription } from "./StorageSubscriptionPanel";
 
 interface StorageBooking {
   id: number;
@@ -54,6 +55,10 @@ export function StorageExtensionDialog({
   // Check for unpaid penalties
   const { data: penaltyData } = useUnpaidPenaltiesCheck(open);
 
+  // Monthly subscriptions renew on their own and cannot also be extended to a date
+  const { data: subscriptionState } = useStorageSubscription(booking.id, open);
+  const renewsMonthly = isLiveSubscription(subscriptionState?.subscription);
+
   // Memoize currentEndDate to prevent useMemo dependency changes on every render
   const currentEndDate = useMemo(() => new Date(booking.endDate), [booking.endDate]);
   const today = startOfToday();
@@ -266,7 +271,7 @@ export function StorageExtensionDialog({
           </div>
 
           {/* Warning for expiring soon */}
-          {differenceInDays(currentEndDate, today) <= 2 && differenceInDays(currentEndDate, today) >= 0 && (
+          {!renewsMonthly && differenceInDays(currentEndDate, today) <= 2 && differenceInDays(currentEndDate, today) >= 0 && (
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2">
               <Clock className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
               <div className="text-sm text-amber-800">
@@ -276,65 +281,71 @@ export function StorageExtensionDialog({
             </div>
           )}
 
-          {/* Quick Extension Options */}
-          <div className="space-y-3">
-            <Label className="text-sm font-medium">Quick Extend</Label>
-            <div className="grid grid-cols-2 gap-2">
-              {quickOptions.map((option) => {
-                const isSelected = selectedDate?.getTime() === option.date.getTime();
-                const price = ((booking.basePrice || 0) * option.days) / 100;
-                return (
-                  <button
-                    key={option.label}
-                    onClick={() => setSelectedDate(option.date)}
-                    className={`p-3 rounded-lg border-2 text-left transition-all ${
-                      isSelected
-                        ? 'border-purple-500 bg-purple-50 ring-2 ring-purple-200'
-                        : 'border-gray-200 hover:border-purple-300 hover:bg-gray-50'
-                    }`}
-                  >
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <p className={`font-semibold ${isSelected ? 'text-purple-700' : 'text-gray-900'}`}>
-                          {option.label}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          Until {format(option.date, "MMM d")}
+          <StorageSubscriptionPanel storageBookingId={booking.id} />
+
+          {!renewsMonthly && (
+            <>
+            {/* Quick Extension Options */}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Quick Extend</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {quickOptions.map((option) => {
+                  const isSelected = selectedDate?.getTime() === option.date.getTime();
+                  const price = ((booking.basePrice || 0) * option.days) / 100;
+                  return (
+                    <button
+                      key={option.label}
+                      onClick={() => setSelectedDate(option.date)}
+                      className={`p-3 rounded-lg border-2 text-left transition-all ${
+                        isSelected
+                          ? 'border-purple-500 bg-purple-50 ring-2 ring-purple-200'
+                          : 'border-gray-200 hover:border-purple-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <p className={`font-semibold ${isSelected ? 'text-purple-700' : 'text-gray-900'}`}>
+                            {option.label}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Until {format(option.date, "MMM d")}
+                          </p>
+                        </div>
+                        <p className={`font-bold ${isSelected ? 'text-purple-700' : 'text-gray-700'}`}>
+                          ${price.toFixed(0)}
                         </p>
                       </div>
-                      <p className={`font-bold ${isSelected ? 'text-purple-700' : 'text-gray-700'}`}>
-                        ${price.toFixed(0)}
-                      </p>
-                    </div>
-                  </button>
-                );
-              })}
+                    </button>
+                  );
+                })}
+              </div>
             </div>
-          </div>
 
-          {/* Custom Date Option */}
-          <div className="space-y-3">
-            <button
-              onClick={() => setShowCalendar(!showCalendar)}
-              className="text-sm text-purple-600 hover:text-purple-700 font-medium flex items-center gap-1"
-            >
-              <CalendarDays className="h-4 w-4" />
-              {showCalendar ? 'Hide calendar' : 'Choose custom date'}
-            </button>
+            {/* Custom Date Option */}
+            <div className="space-y-3">
+              <button
+                onClick={() => setShowCalendar(!showCalendar)}
+                className="text-sm text-purple-600 hover:text-purple-700 font-medium flex items-center gap-1"
+              >
+                <CalendarDays className="h-4 w-4" />
+                {showCalendar ? 'Hide calendar' : 'Choose custom date'}
+              </button>
             
-            {showCalendar && (
-              <div className="flex justify-center border rounded-lg p-2 bg-white">
-                <Calendar
-                  mode="single"
-                  selected={selectedDate}
-                  onSelect={handleDateSelect}
-                  disabled={(date) => isBefore(date, addDays(minDate, minDays - 1))}
-                  defaultMonth={minDate}
-                  className="rounded-md"
-                />
-              </div>
-            )}
-          </div>
+              {showCalendar && (
+                <div className="flex justify-center border rounded-lg p-2 bg-white">
+                  <Calendar
+                    mode="single"
+                    selected={selectedDate}
+                    onSelect={handleDateSelect}
+                    disabled={(date) => isBefore(date, addDays(minDate, minDays - 1))}
+                    defaultMonth={minDate}
+                    className="rounded-md"
+                  />
+                </div>
+              )}
+            </div>
+            </>
+          )}
 
           {/* Extension Summary */}
           {extensionDetails && extensionDetails.valid && (
@@ -0,0 +1,187 @@
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Loader2, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+
+interface StorageSubscription {
+  id: number;
+  status: "active" | "past_due" | "canceled" | "unpaid";
+  monthlyPriceCents: number;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  failedAttempts: number;
+  nextRetryAt: string | null;
+}
+
+interface StorageSubscriptionPreview {
+  monthlyPriceCents: number;
+  taxRatePercent: number;
+  periodEnd: string;
+  proratedDays: number;
+  daysInMonth: number;
+  amountDueCents: number;
+  monthlyTotalCents: number;
+}
+
+interface StorageSubscriptionState {
+  subscription: StorageSubscription | null;
+  preview: StorageSubscriptionPreview | null;
+  unavailableReason: string | null;
+}
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+// Billing dates are stored as UTC midnight; show the calendar day, not the local time
+const formatBillingDate = (iso: string) => format(new Date(`${iso.slice(0, 10)}T00:00:00`), "MMM d, yyyy");
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export function useStorageSubscription(storageBookingId: number, enabled = true) {
+  return useQuery<StorageSubscriptionState>({
+    queryKey: ['/api/chef/storage-bookings', storageBookingId, 'subscription'],
+    queryFn: () => requestJson(`/api/chef/storage-bookings/${storageBookingId}/subscription`, { method: 'GET' }),
+    enabled,
+  });
+}
+
+export const isLiveSubscription = (subscription: StorageSubscription | null | undefined) =>
+  subscription?.status === "active" || subscription?.status === "past_due";
+
+/**
+ * Monthly auto-renewal for a storage booking: offer to switch (with the
+ * prorated first charge) or manage the live subscription.
+ */
+export function StorageSubscriptionPanel({ storageBookingId }: { storageBookingId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useStorageSubscription(storageBookingId);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/chef/storage-bookings'] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: () => requestJson(`/api/chef/storage-bookings/${storageBookingId}/subscription`, { method: 'POST' }),
+    onSuccess: () => {
+      onSuccess();
+      toast({ title: "Monthly storage started", description: "Your storage now renews on the 1st of each month." });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (cancelAtPeriodEnd: boolean) =>
+      requestJson(`/api/chef/storage-bookings/${storageBookingId}/subscription`, {
+        method: 'PUT',
+        body: JSON.stringify({ cancelAtPeriodEnd }),
+      }),
+    onSuccess: (_data, cancelAtPeriodEnd) => {
+      onSuccess();
+      toast({
+        title: cancelAtPeriodEnd ? "Subscription will end" : "Subscription resumed",
+        description: cancelAtPeriodEnd
+          ? "Your storage stays paid until the end of the current period."
+          : "Your storage will keep renewing monthly.",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading || !data) return null;
+
+  const { subscription, preview } = data;
+
+  if (subscription && isLiveSubscription(subscription)) {
+    return (
+      <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 font-semibold text-purple-900">
+            <Repeat className="h-4 w-4" />
+            Renews Monthly
+          </div>
+          {subscription.status === "past_due" ? (
+            <Badge variant="destructive">Payment failed</Badge>
+          ) : subscription.cancelAtPeriodEnd ? (
+            <Badge variant="outline">Ending</Badge>
+          ) : (
+            <Badge variant="secondary">Active</Badge>
+          )}
+        </div>
+        <div className="text-sm text-gray-700">
+          {formatCents(subscription.monthlyPriceCents)}/month plus tax.{" "}
+          {subscription.cancelAtPeriodEnd
+            ? `Ends on ${formatBillingDate(subscription.currentPeriodEnd)}.`
+            : `Next renewal on ${formatBillingDate(subscription.currentPeriodEnd)}.`}
+        </div>
+        {subscription.status === "past_due" && (
+          <div className="flex items-start gap-2 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              We couldn&apos;t charge your saved card
+              {subscription.nextRetryAt ? `. We'll try again on ${formatBillingDate(subscription.nextRetryAt)}` : ""}.
+              If renewal keeps failing, overstay penalties apply after the paid-through date.
+            </span>
+          </div>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => cancelMutation.mutate(!subscription.cancelAtPeriodEnd)}
+          disabled={cancelMutation.isPending || (subscription.cancelAtPeriodEnd && subscription.status !== "active")}
+        >
+          {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {subscription.cancelAtPeriodEnd ? "Keep Renewing" : "Cancel at Period End"}
+        </Button>
+      </div>
+    );
+  }
+
+  if (!preview) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-gray-900">
+        <Repeat className="h-4 w-4 text-purple-600" />
+        Switch to Monthly Storage
+      </div>
+      <p className="text-sm text-gray-600">
+        Keep this storage on a rolling monthly plan at {formatCents(preview.monthlyPriceCents)}/month
+        {preview.taxRatePercent > 0 ? " plus tax" : ""}, charged to your saved card on the 1st. Cancel any time before the next renewal.
+      </p>
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">
+            Now: {preview.proratedDays} of {preview.daysInMonth} days until {formatBillingDate(preview.periodEnd)}
+          </span>
+          <span className="font-medium">{formatCents(preview.amountDueCents)}</span>
+        </div>
+        <div className="flex justify-between text-gray-600">
+          <span>Then each month</span>
+          <span>{formatCents(preview.monthlyTotalCents)}</span>
+        </div>
+      </div>
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={() => startMutation.mutate()}
+        disabled={startMutation.isPending}
+      >
+        {startMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Pay {formatCents(preview.amountDueCents)} and Renew Monthly
+      </Button>
+    </div>
+  );
+}
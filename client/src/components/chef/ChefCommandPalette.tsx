@@ -21,6 +21,7 @@ import {
   AlertTriangle,
   Store,
   MessageSquare,
+  Wallet,
 } from "lucide-react";
 
 interface ChefCommandPaletteProps {
@@ -41,6 +42,7 @@ const navigationItems = [
 
 const financialItems = [
   { label: "Transaction History", value: "transactions", icon: CreditCard, group: "Financial" },
+  { label: "Kitchen Wallet", value: "wallet", icon: Wallet, group: "Financial" },
   { label: "Resolution Center", value: "damage-claims", icon: AlertTriangle, group: "Financial" },
 ];
 
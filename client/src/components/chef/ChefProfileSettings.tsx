@@ -13,11 +13,12 @@ import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Loader2, Mail, Phone, User, KeyRound, Shield,
-  Camera, CheckCircle2, ChefHat, Edit3, Lock
+  Camera, CheckCircle2, CalendarDays, ChefHat, Edit3, Lock
 } from "lucide-react";
 import { StatusButton } from "@/components/ui/status-button";
 import { useStatusButton } from "@/hooks/use-status-button";
 import ChangePassword from "@/components/auth/ChangePassword";
+import CalendarFeedSettings from "@/components/common/CalendarFeedSettings";
 import { useFileUpload } from "@/hooks/useFileUpload";
 import { cn } from "@/lib/utils";
 
@@ -455,6 +456,25 @@ export default function ChefProfileSettings() {
                             <ChangePassword role="chef" />
                         </div>
                     </div>
+
+                    {/* Calendar Sync Card */}
+                    <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+                        <div className="px-6 py-4 border-b bg-muted/30">
+                            <div className="flex items-center gap-3">
+                                <div className="h-10 w-10 rounded-lg bg-blue-100 flex items-center justify-center">
+                                    <CalendarDays className="h-5 w-5 text-blue-600" />
+                                </div>
+                                <div>
+                                    <h3 className="font-semibold">Calendar Sync</h3>
+                                    <p className="text-sm text-muted-foreground">Subscribe to your bookings from any calendar app</p>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="p-6">
+                            <CalendarFeedSettings />
+                        </div>
+                    </div>
                 </div>
 
                 {/* Sidebar - Account Summary */}
@@ -14,6 +14,7 @@ import {
     ChefHat,
     CreditCard,
     DollarSign,
+    Wallet,
 } from "lucide-react"
 
 import {
@@ -120,6 +121,11 @@ const navGroups: NavGroup[] = [
                 label: "My Transactions",
                 icon: CreditCard,
             },
+            {
+                id: "wallet",
+                label: "Kitchen Wallet",
+                icon: Wallet,
+            },
             {
                 id: "issues-refunds",
                 label: "Resolution Center",
@@ -0,0 +1,260 @@
+/**
+ * ChefWallet Component
+ *
+ * Prepaid kitchen credit: balance, open credit lots, history and the credit
+ * packages locations sell. Credit is spent from the booking sheet.
+ */
+
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Building2, Clock, CreditCard, Gift, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { getAuthHeaders } from "@/lib/api";
+import { formatCurrency } from "@/lib/formatters";
+
+interface WalletLot {
+  id: number;
+  entryType: "purchase" | "promotional" | "refund_credit";
+  amountCents: number;
+  remainingCents: number;
+  locationName: string | null;
+  currency: string; // Only spendable on bookings charged in this currency
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+interface WalletEntry {
+  id: number;
+  entryType: "purchase" | "promotional" | "refund_credit" | "redemption" | "expiry";
+  amountCents: number;
+  status: "pending" | "completed" | "released";
+  locationName: string | null;
+  bookingId: number | null;
+  expiresAt: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface WalletSummary {
+  balanceCents: number;
+  availableCents: number;
+  lots: WalletLot[];
+  entries: WalletEntry[];
+}
+
+interface WalletPackage {
+  id: number;
+  locationId: number;
+  locationName: string;
+  name: string;
+  description: string | null;
+  creditCents: number;
+  priceCents: number;
+  validityDays: number | null;
+}
+
+const ENTRY_LABELS: Record<WalletEntry["entryType"], string> = {
+  purchase: "Package purchase",
+  promotional: "Promotional credit",
+  refund_credit: "Refund as credit",
+  redemption: "Spent on booking",
+  expiry: "Expired",
+};
+
+const isDebit = (entry: WalletEntry) => entry.entryType === "redemption" || entry.entryType === "expiry";
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(url, { headers, credentials: "include" });
+  if (!response.ok) throw new Error("Request failed");
+  return response.json();
+}
+
+export function ChefWallet() {
+  const { data: wallet, isLoading } = useQuery<WalletSummary>({
+    queryKey: ["/api/chef/wallet"],
+    queryFn: () => fetchJson("/api/chef/wallet"),
+  });
+
+  const { data: packages = [] } = useQuery<WalletPackage[]>({
+    queryKey: ["/api/chef/wallet/packages"],
+    queryFn: () => fetchJson("/api/chef/wallet/packages"),
+  });
+
+  // Returning from Stripe — the webhook adds the credit a moment later
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("purchase") === "success") {
+      toast.success("Payment received. Your credit will appear in a moment.");
+      const url = new URL(window.location.href);
+      url.searchParams.delete("purchase");
+      window.history.replaceState({}, "", url.toString());
+    }
+  }, []);
+
+  const buyMutation = useMutation({
+    mutationFn: async (packageId: number) => {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`/api/chef/wallet/packages/${packageId}/checkout`, {
+        method: "POST",
+        headers,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to start checkout");
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.sessionUrl) {
+        document.body.style.pointerEvents = "";
+        window.location.href = data.sessionUrl;
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to start checkout");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Kitchen Wallet
+          </CardTitle>
+          <CardDescription>
+            Prepaid credit is applied at checkout when you choose &quot;Use wallet credit&quot;.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-3xl font-bold">{formatCurrency(wallet?.balanceCents ?? 0)}</div>
+
+          {wallet && wallet.lots.length > 0 && (
+            <div className="space-y-2">
+              {wallet.lots.map((lot) => (
+                <div key={lot.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="font-medium">{ENTRY_LABELS[lot.entryType]}</div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Building2 className="h-3 w-3" />
+                        {lot.locationName ?? "Any location"}
+                      </span>
+                      {lot.expiresAt && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          Expires {format(new Date(lot.expiresAt), "MMM d, yyyy")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-semibold">{formatCurrency(lot.remainingCents, lot.currency)}</div>
+                    {lot.remainingCents !== lot.amountCents && (
+                      <div className="text-xs text-muted-foreground">of {formatCurrency(lot.amountCents, lot.currency)}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {packages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gift className="h-5 w-5 text-primary" />
+              Credit Packages
+            </CardTitle>
+            <CardDescription>Buy credit for a kitchen location, often at a discount.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-3 sm:grid-cols-2">
+            {packages.map((pkg) => (
+              <div key={pkg.id} className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{pkg.name}</div>
+                    <div className="text-xs text-muted-foreground">{pkg.locationName}</div>
+                  </div>
+                  {pkg.creditCents > pkg.priceCents && (
+                    <Badge variant="secondary">+{formatCurrency(pkg.creditCents - pkg.priceCents)} bonus</Badge>
+                  )}
+                </div>
+                {pkg.description && <p className="text-sm text-muted-foreground">{pkg.description}</p>}
+                <div className="text-sm">
+                  {formatCurrency(pkg.creditCents)} credit
+                  {pkg.validityDays ? `, valid ${pkg.validityDays} days` : ""}
+                </div>
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={() => buyMutation.mutate(pkg.id)}
+                  disabled={buyMutation.isPending}
+                >
+                  <CreditCard className="h-4 w-4 mr-1" />
+                  Buy for {formatCurrency(pkg.priceCents)}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!wallet || wallet.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No wallet activity yet.</p>
+          ) : (
+            <div className="divide-y">
+              {wallet.entries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      {ENTRY_LABELS[entry.entryType]}
+                      {entry.status === "pending" && <Badge variant="outline" className="text-xs">Held</Badge>}
+                      {entry.status === "released" && <Badge variant="outline" className="text-xs">Returned</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(entry.createdAt), "MMM d, yyyy")}
+                      {entry.bookingId ? ` · Booking #${entry.bookingId}` : ""}
+                      {entry.note ? ` · ${entry.note}` : ""}
+                    </div>
+                  </div>
+                  <span className={isDebit(entry) ? "text-muted-foreground" : "font-medium text-green-700"}>
+                    {isDebit(entry) ? "-" : "+"}{formatCurrency(entry.amountCents)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
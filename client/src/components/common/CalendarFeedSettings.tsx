@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { auth } from "@/lib/firebase";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Copy, Loader2, RefreshCw } from "lucide-react";
+
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+  const token = await currentUser.getIdToken();
+  return { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' };
+}
+
+/**
+ * Subscribable ICS feed URL for the signed-in user's bookings.
+ * Regenerating the URL revokes every existing calendar subscription.
+ */
+export default function CalendarFeedSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading } = useQuery<{ feedUrl: string }>({
+    queryKey: ["/api/user/calendar-feed"],
+    queryFn: async () => {
+      const response = await fetch("/api/user/calendar-feed", { headers: await getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load calendar feed");
+      return response.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/user/calendar-feed/regenerate", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+      });
+      if (!response.ok) throw new Error("Failed to regenerate calendar feed");
+      return response.json() as Promise<{ feedUrl: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/user/calendar-feed"], result);
+      toast({
+        title: "Calendar link regenerated",
+        description: "Calendars subscribed with the old link will stop updating.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!data?.feedUrl) return;
+    await navigator.clipboard.writeText(data.feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Add this link to Google Calendar, Outlook or Apple Calendar (&quot;subscribe from URL&quot;) to see your
+        bookings, storage dates and check-in windows. Keep it private — anyone with the link can see your schedule.
+      </p>
+      <div className="flex gap-2">
+        <Input readOnly value={data?.feedUrl || ""} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+        <Button variant="outline" size="icon" onClick={handleCopy} disabled={!data?.feedUrl} aria-label="Copy calendar link">
+          {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => regenerateMutation.mutate()}
+        disabled={regenerateMutation.isPending}
+        className="text-muted-foreground"
+      >
+        {regenerateMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <RefreshCw className="h-4 w-4 mr-2" />
+        )}
+        Regenerate link
+      </Button>
+    </div>
+  );
+}
@@ -13,11 +13,12 @@ import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   Loader2, Mail, Phone, User, KeyRound, Shield, 
-  Camera, CheckCircle2, Building2, Edit3, Lock, MapPin, CreditCard, Clock
+  Camera, CheckCircle2, CalendarDays, Building2, Edit3, Lock, MapPin, CreditCard, Clock
 } from "lucide-react";
 import { StatusButton } from "@/components/ui/status-button";
 import { useStatusButton } from "@/hooks/use-status-button";
 import ChangePassword from "@/components/auth/ChangePassword";
+import CalendarFeedSettings from "@/components/common/CalendarFeedSettings";
 import { useFileUpload } from "@/hooks/useFileUpload";
 import { cn } from "@/lib/utils";
 
@@ -570,6 +571,25 @@ export default function ManagerProfileSettings() {
                             <ChangePassword role="manager" />
                         </div>
                     </div>
+
+                    {/* Calendar Sync Card */}
+                    <div className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden">
+                        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+                            <div className="flex items-center gap-3">
+                                <div className="h-10 w-10 rounded-lg bg-blue-100 flex items-center justify-center">
+                                    <CalendarDays className="h-5 w-5 text-blue-600" />
+                                </div>
+                                <div>
+                                    <h3 className="font-semibold text-slate-900">Calendar Sync</h3>
+                                    <p className="text-sm text-slate-500">Subscribe to bookings at your locations from any calendar app</p>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="p-6">
+                            <CalendarFeedSettings />
+                        </div>
+                    </div>
                 </div>
 
                 {/* Sidebar - Account Summary */}
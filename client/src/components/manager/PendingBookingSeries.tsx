@@ -0,0 +1,334 @@
+import { useState, useMemo } from "react";
+import { format } from "date-fns";
+import {
+  CheckCircle,
+  XCircle,
+  ChefHat,
+  MapPin,
+  Calendar,
+  Repeat,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BookingForSeries {
+  id: number;
+  status: string;
+  paymentStatus?: string;
+  seriesId?: number | null;
+  seriesOccurrenceIndex?: number | null;
+  chefName?: string;
+  kitchenName?: string;
+  locationName?: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  totalPrice?: number;
+}
+
+interface SeriesGroup {
+  seriesId: number;
+  chefName: string;
+  kitchenName: string;
+  locationName: string;
+  startTime: string;
+  endTime: string;
+  occurrences: BookingForSeries[];
+}
+
+interface PendingBookingSeriesProps {
+  bookings: BookingForSeries[];
+  onDecision: (params: {
+    seriesId: number;
+    status: "confirmed" | "cancelled";
+    rejectedBookingIds: number[];
+  }) => void;
+  isProcessing?: boolean;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const formatTime = (time: string) => {
+  if (!time) return "";
+  const [hours, minutes] = time.split(":");
+  const hour = parseInt(hours);
+  const ampm = hour >= 12 ? "PM" : "AM";
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${minutes} ${ampm}`;
+};
+
+const formatOccurrenceDate = (bookingDate: string) => {
+  const dateStr = bookingDate?.split("T")[0];
+  return dateStr ? format(new Date(`${dateStr}T12:00:00`), "EEE, MMM d") : "";
+};
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Pending recurring series awaiting a single approve/reject decision.
+ * Occurrences share one payment authorization, so they are reviewed together;
+ * the manager can untick individual dates to decline just those sessions.
+ */
+export function PendingBookingSeries({
+  bookings,
+  onDecision,
+  isProcessing = false,
+}: PendingBookingSeriesProps) {
+  // Dates the manager has unticked, keyed by series
+  const [declined, setDeclined] = useState<Record<number, number[]>>({});
+  const [confirmDialog, setConfirmDialog] = useState<{
+    open: boolean;
+    action: "approve" | "reject";
+    group: SeriesGroup | null;
+  }>({ open: false, action: "approve", group: null });
+
+  const groups = useMemo<SeriesGroup[]>(() => {
+    const bySeries = new Map<number, SeriesGroup>();
+    for (const booking of bookings) {
+      if (!booking.seriesId) continue;
+      if (booking.status !== "pending" || booking.paymentStatus !== "authorized") continue;
+
+      let group = bySeries.get(booking.seriesId);
+      if (!group) {
+        group = {
+          seriesId: booking.seriesId,
+          chefName: booking.chefName || "Chef",
+          kitchenName: booking.kitchenName || "Kitchen",
+          locationName: booking.locationName || "",
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          occurrences: [],
+        };
+        bySeries.set(booking.seriesId, group);
+      }
+      group.occurrences.push(booking);
+    }
+
+    return Array.from(bySeries.values()).map((group) => ({
+      ...group,
+      occurrences: group.occurrences.sort(
+        (a, b) => (a.seriesOccurrenceIndex ?? 0) - (b.seriesOccurrenceIndex ?? 0),
+      ),
+    }));
+  }, [bookings]);
+
+  if (groups.length === 0) return null;
+
+  const toggleOccurrence = (seriesId: number, bookingId: number, included: boolean) => {
+    setDeclined((prev) => {
+      const current = prev[seriesId] || [];
+      return {
+        ...prev,
+        [seriesId]: included
+          ? current.filter((id) => id !== bookingId)
+          : [...current, bookingId],
+      };
+    });
+  };
+
+  const handleConfirm = () => {
+    const { action, group } = confirmDialog;
+    if (!group) return;
+
+    onDecision({
+      seriesId: group.seriesId,
+      status: action === "approve" ? "confirmed" : "cancelled",
+      rejectedBookingIds: action === "approve" ? declined[group.seriesId] || [] : [],
+    });
+    setDeclined((prev) => ({ ...prev, [group.seriesId]: [] }));
+    setConfirmDialog({ open: false, action: "approve", group: null });
+  };
+
+  const dialogGroup = confirmDialog.group;
+  const dialogDeclinedCount = dialogGroup ? (declined[dialogGroup.seriesId] || []).length : 0;
+  const dialogApprovedCount = dialogGroup ? dialogGroup.occurrences.length - dialogDeclinedCount : 0;
+
+  return (
+    <>
+      <Card className="border-blue-200 bg-blue-50/30 mt-8">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center">
+                <Repeat className="h-4 w-4 text-blue-600" />
+              </div>
+              <div>
+                <CardTitle className="text-base">Recurring Booking Requests</CardTitle>
+                <CardDescription className="text-xs">
+                  Review each series in one step — untick any dates you can&apos;t host
+                </CardDescription>
+              </div>
+            </div>
+            <Badge variant="info">{groups.length} pending</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {groups.map((group) => {
+            const declinedIds = declined[group.seriesId] || [];
+            const allDeclined = declinedIds.length >= group.occurrences.length;
+            return (
+              <div
+                key={group.seriesId}
+                className="rounded-lg border bg-white p-3.5 shadow-sm space-y-3"
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">
+                      {group.kitchenName} · {group.occurrences.length} sessions
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <ChefHat className="h-3 w-3" />
+                        {group.chefName}
+                      </span>
+                      {group.locationName && (
+                        <span className="flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {group.locationName}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatTime(group.startTime)} – {formatTime(group.endTime)}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 text-destructive border-destructive/30 hover:bg-destructive/5"
+                      onClick={() => setConfirmDialog({ open: true, action: "reject", group })}
+                      disabled={isProcessing}
+                    >
+                      <XCircle className="h-3.5 w-3.5 mr-1" />
+                      Reject Series
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-8"
+                      onClick={() => setConfirmDialog({ open: true, action: "approve", group })}
+                      disabled={isProcessing || allDeclined}
+                    >
+                      <CheckCircle className="h-3.5 w-3.5 mr-1" />
+                      Approve Series
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {group.occurrences.map((occurrence) => {
+                    const included = !declinedIds.includes(occurrence.id);
+                    return (
+                      <label
+                        key={occurrence.id}
+                        className={`flex items-center gap-1.5 rounded-md border px-2 py-1 text-xs cursor-pointer ${included ? "bg-white" : "bg-muted text-muted-foreground line-through"}`}
+                      >
+                        <Checkbox
+                          checked={included}
+                          onCheckedChange={(checked) =>
+                            toggleOccurrence(group.seriesId, occurrence.id, checked === true)
+                          }
+                          disabled={isProcessing}
+                        />
+                        {formatOccurrenceDate(occurrence.bookingDate)}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Confirmation Dialog */}
+      <AlertDialog
+        open={confirmDialog.open}
+        onOpenChange={(open) => {
+          if (!open) setConfirmDialog({ open: false, action: "approve", group: null });
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              {confirmDialog.action === "approve" ? (
+                <>
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  Approve Recurring Series
+                </>
+              ) : (
+                <>
+                  <XCircle className="h-5 w-5 text-red-600" />
+                  Reject Recurring Series
+                </>
+              )}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="pt-2 space-y-3">
+              {dialogGroup && (
+                <div className="bg-muted rounded-lg p-3 space-y-1.5 text-sm">
+                  <div className="font-medium">
+                    {dialogGroup.kitchenName} · {dialogGroup.occurrences.length} sessions
+                  </div>
+                  <div className="text-muted-foreground text-xs">
+                    {dialogGroup.chefName} · {formatTime(dialogGroup.startTime)} – {formatTime(dialogGroup.endTime)}
+                  </div>
+                </div>
+              )}
+              {confirmDialog.action === "approve" ? (
+                <p className="text-sm">
+                  {dialogApprovedCount} session{dialogApprovedCount === 1 ? "" : "s"} will be confirmed and charged
+                  {dialogDeclinedCount > 0
+                    ? `; ${dialogDeclinedCount} declined date${dialogDeclinedCount === 1 ? "" : "s"} will be released from the hold.`
+                    : "."}
+                </p>
+              ) : (
+                <p className="text-sm">
+                  Every session in this series will be rejected and the payment hold released. The chef will not be charged.
+                </p>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isProcessing}>Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              disabled={isProcessing}
+              className={
+                confirmDialog.action === "approve"
+                  ? "bg-success text-success-foreground hover:bg-success/90"
+                  : "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              }
+            >
+              {isProcessing
+                ? "Processing..."
+                : confirmDialog.action === "approve"
+                  ? "Approve Series"
+                  : "Reject Series"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
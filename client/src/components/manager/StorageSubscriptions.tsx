@@ -0,0 +1,164 @@
+/**
+ * Storage Subscriptions Component
+ *
+ * Manager view of monthly storage subscriptions at their locations: who renews
+ * when, at what price, and which renewals are failing. Failed renewals are
+ * retried automatically; once retries run out the booking is handled by the
+ * overstay penalty queue.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2, Repeat } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getAuthHeaders } from "@/lib/api";
+import { formatCurrency } from "@/lib/formatters";
+
+interface StorageSubscriptionRow {
+  id: number;
+  storageBookingId: number;
+  status: "active" | "past_due" | "canceled" | "unpaid";
+  monthlyPriceCents: number;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  failedAttempts: number;
+  nextRetryAt: string | null;
+  lastFailureReason: string | null;
+  createdAt: string;
+  bookingReferenceCode: string | null;
+  storageName: string;
+  kitchenName: string;
+  locationName: string;
+  chefEmail: string | null;
+}
+
+// Billing dates are stored as UTC midnight; show the calendar day, not the local time
+const formatBillingDate = (iso: string) => format(new Date(`${iso.slice(0, 10)}T00:00:00`), "MMM d, yyyy");
+
+function StatusBadge({ row }: { row: StorageSubscriptionRow }) {
+  if (row.status === "past_due") return <Badge variant="destructive">Retrying payment</Badge>;
+  if (row.status === "unpaid") return <Badge variant="destructive">Unpaid</Badge>;
+  if (row.status === "canceled") return <Badge variant="outline">Ended</Badge>;
+  if (row.cancelAtPeriodEnd) return <Badge variant="outline">Ending</Badge>;
+  return <Badge variant="success">Active</Badge>;
+}
+
+export function StorageSubscriptions() {
+  const [includeEnded, setIncludeEnded] = useState(false);
+
+  const { data, isLoading } = useQuery<{ subscriptions: StorageSubscriptionRow[] }>({
+    queryKey: ['/api/manager/storage-subscriptions', includeEnded],
+    queryFn: async () => {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`/api/manager/storage-subscriptions?includeEnded=${includeEnded}`, {
+        headers,
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch storage subscriptions');
+      return response.json();
+    },
+  });
+
+  const subscriptions = data?.subscriptions || [];
+  const renewing = subscriptions.filter((s) => s.status === "active" && !s.cancelAtPeriodEnd);
+  const pastDue = subscriptions.filter((s) => s.status === "past_due");
+  const monthlyRevenueCents = renewing.reduce((sum, s) => sum + s.monthlyPriceCents, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Storage Subscriptions
+            </CardTitle>
+            <CardDescription>
+              Storage that renews on the 1st of each month, charged to the chef&apos;s saved card.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="include-ended-subscriptions" checked={includeEnded} onCheckedChange={setIncludeEnded} />
+            <Label htmlFor="include-ended-subscriptions" className="text-sm">Show ended</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Renewing</p>
+            <p className="text-2xl font-semibold">{renewing.length}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Monthly recurring (before tax)</p>
+            <p className="text-2xl font-semibold">{formatCurrency(monthlyRevenueCents)}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Failed renewals</p>
+            <p className="text-2xl font-semibold">{pastDue.length}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No storage subscriptions yet. Set a monthly subscription rate on a storage listing to offer them.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Storage</TableHead>
+                <TableHead>Chef</TableHead>
+                <TableHead>Monthly</TableHead>
+                <TableHead>Paid through</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subscriptions.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>
+                    <div className="font-medium">{row.storageName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.kitchenName} · {row.locationName}
+                      {row.bookingReferenceCode ? ` · ${row.bookingReferenceCode}` : ""}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{row.chefEmail ?? "—"}</TableCell>
+                  <TableCell className="text-sm">{formatCurrency(row.monthlyPriceCents)}</TableCell>
+                  <TableCell className="text-sm">{formatBillingDate(row.currentPeriodEnd)}</TableCell>
+                  <TableCell>
+                    <StatusBadge row={row} />
+                    {row.status === "past_due" && (
+                      <div className="mt-1 flex items-center gap-1 text-xs text-red-700">
+                        <AlertTriangle className="h-3 w-3" />
+                        {row.failedAttempts} failed
+                        {row.nextRetryAt ? `, next try ${formatBillingDate(row.nextRetryAt)}` : ""}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -102,8 +102,10 @@ interface TodayBooking {
   accessCodeValidFrom: string | null
   accessCodeValidUntil: string | null
   hasAccessCodeHash: boolean | null
+  accessCodePushStatus: 'pending' | 'pushed' | 'failed' | null // null when codes are programmed by hand
   smartLockEnabled: boolean | null
   kitchenName: string | null
+  stationNames?: string[] // Assigned stations; empty when the chef has the whole kitchen
   locationName: string | null
   chefEmail: string | null
 }
@@ -539,6 +541,11 @@ export function TodaysKitchenBookings() {
                         <div className="text-xs sm:text-sm font-medium whitespace-nowrap">
                           {booking.kitchenName}
                         </div>
+                        {booking.stationNames && booking.stationNames.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {booking.stationNames.join(", ")}
+                          </div>
+                        )}
                         {booking.referenceCode && (
                           <div className="text-xs text-muted-foreground font-mono">
                             {booking.referenceCode}
@@ -631,7 +638,10 @@ export function TodaysKitchenBookings() {
                   {actionMode === "view" && "Booking Details"}
                 </SheetTitle>
                 <SheetDescription>
-                  {selectedBooking.kitchenName} ·{" "}
+                  {selectedBooking.kitchenName}
+                  {selectedBooking.stationNames && selectedBooking.stationNames.length > 0 &&
+                    ` (${selectedBooking.stationNames.join(", ")})`}{" "}
+                  ·{" "}
                   {formatTime(selectedBooking.startTime)} –{" "}
                   {formatTime(selectedBooking.endTime)}
                   {selectedBooking.referenceCode &&
@@ -824,7 +834,12 @@ export function TodaysKitchenBookings() {
                         )}
                       </div>
                       <div className="flex items-center gap-1.5">
-                        {selectedBooking.hasAccessCodeHash && (
+                        {selectedBooking.hasAccessCodeHash && (selectedBooking.accessCodePushStatus === 'pending' || selectedBooking.accessCodePushStatus === 'failed') ? (
+                          <Badge className="bg-red-100 text-red-700 text-xs">
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Not on lock yet
+                          </Badge>
+                        ) : selectedBooking.hasAccessCodeHash && (
                           <Badge className="bg-amber-100 text-amber-700 text-xs">
                             <Clock className="h-3 w-3 mr-1" />
                             Active
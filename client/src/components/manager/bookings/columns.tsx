@@ -1,7 +1,7 @@
 "use client"
 
 import { ColumnDef } from "@tanstack/react-table"
-import { ArrowUpDown, MoreHorizontal, CheckCircle, XCircle, Clock, MapPin, User, Calendar as CalendarIcon, FileText, Package, Boxes, DollarSign, Eye, RotateCcw, ClipboardCheck, Settings2, LogIn, LogOut, Camera, FileWarning } from "lucide-react"
+import { ArrowUpDown, MoreHorizontal, CheckCircle, XCircle, Clock, MapPin, User, Calendar as CalendarIcon, FileText, Package, Boxes, DollarSign, Eye, RotateCcw, ClipboardCheck, Settings2, LogIn, LogOut, Camera, FileWarning, Repeat, LayoutGrid } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import {
@@ -53,6 +53,8 @@ export type Booking = {
     bookingDate: string;
     startTime: string;
     endTime: string;
+    endDate?: string | null; // Day endTime falls on for overnight/multi-day bookings
+    stationNames?: string[]; // Assigned stations; empty when the chef has the whole kitchen
     selectedSlots?: Array<{ startTime: string; endTime: string }>; // Array of discrete 1-hour time slots
     status: string;
     specialNotes?: string;
@@ -93,6 +95,9 @@ export type Booking = {
     checkedOutAt?: string | null;
     checkoutApprovedAt?: string | null;
     noShowDetectedAt?: string | null;
+    // ── Recurring Series ────────────────────────────────────────────────────
+    seriesId?: number | null;               // set when this booking is one occurrence of a recurring series
+    seriesOccurrenceIndex?: number | null;  // 0-based position within the series
 }
 
 interface BookingColumnsProps {
@@ -293,11 +298,17 @@ export const getBookingColumns = ({ onConfirm, onReject, onCancel, onRefund, onC
                     <div className="flex items-center">
                         <CalendarIcon className="h-3 w-3 mr-2 text-muted-foreground" />
                         {formatDate(row.getValue("bookingDate"))}
+                        {row.original.seriesId && (
+                            <Badge variant="outline" className="ml-2 h-5 px-1.5 text-[10px] gap-1">
+                                <Repeat className="h-3 w-3" />
+                                Series #{(row.original.seriesOccurrenceIndex ?? 0) + 1}
+                            </Badge>
+                        )}
                     </div>
                     {showAsRange ? (
                         <div className="flex items-center text-xs text-muted-foreground mt-1">
                             <Clock className="h-3 w-3 mr-2" />
-                            {formatTime(row.original.startTime)} - {formatTime(row.original.endTime)}
+                            {formatTime(row.original.startTime)} - {row.original.endDate ? `${formatDate(row.original.endDate)}, ` : ''}{formatTime(row.original.endTime)}
                         </div>
                     ) : (
                         <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground mt-1">
@@ -312,6 +323,12 @@ export const getBookingColumns = ({ onConfirm, onReject, onCancel, onRefund, onC
                             ))}
                         </div>
                     )}
+                    {row.original.stationNames && row.original.stationNames.length > 0 && (
+                        <div className="flex items-center text-xs text-muted-foreground mt-1">
+                            <LayoutGrid className="h-3 w-3 mr-2" />
+                            {row.original.stationNames.join(", ")}
+                        </div>
+                    )}
                 </div>
             );
         },
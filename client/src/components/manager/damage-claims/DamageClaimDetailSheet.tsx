@@ -50,6 +50,7 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { getR2ProxyUrl } from "@/utils/r2-url-helper";
+import { PhotoComparisonPanel } from "./PhotoComparisonPanel";
 
 interface ClaimHistoryEntry {
   id: number;
@@ -124,6 +125,7 @@ const EVIDENCE_TYPES = [
   { value: 'video', label: 'Video', icon: File },
   { value: 'document', label: 'Document', icon: File },
   { value: 'third_party_report', label: 'Third Party Report', icon: FileText },
+  { value: 'photo_comparison', label: 'Photo Comparison', icon: FileText },
 ];
 
 function formatCurrency(cents: number): string {
@@ -403,6 +405,19 @@ export function DamageClaimDetailSheet({
 
             <Separator />
 
+            {/* Check-in vs check-out photos */}
+            <PhotoComparisonPanel
+              claimId={claim.id}
+              canAttach={canAddEvidence}
+              alreadyAttached={claim.evidence.some((e) => e.evidenceType === 'photo_comparison')}
+              onAttached={() => {
+                refetch();
+                onClaimUpdated?.();
+              }}
+            />
+
+            <Separator />
+
             {/* Evidence Section */}
             <div>
               <div className="flex items-center justify-between mb-4">
@@ -500,7 +515,7 @@ export function DamageClaimDetailSheet({
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            {EVIDENCE_TYPES.map((type) => (
+                            {EVIDENCE_TYPES.filter((type) => type.value !== 'photo_comparison').map((type) => (
                               <SelectItem key={type.value} value={type.value}>
                                 <div className="flex items-center gap-2">
                                   <type.icon className="h-4 w-4" />
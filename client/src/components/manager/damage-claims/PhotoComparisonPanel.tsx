@@ -0,0 +1,175 @@
+/**
+ * Photo Comparison Panel
+ *
+ * Side-by-side check-in and check-out photos for the booking a damage claim
+ * was filed against, paired by checklist photo requirement. Managers can
+ * attach the comparison to a draft claim as a single PDF evidence file.
+ */
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Columns2, FileText, Loader2, ImageOff } from "lucide-react";
+import { getR2ProxyUrl } from "@/utils/r2-url-helper";
+
+interface ComparedPhoto {
+  url: string;
+  requirementId: string | null;
+  uploadedAt: string;
+  uploadedBy: number | null;
+  uploadedByName: string | null;
+}
+
+interface PhotoComparisonPair {
+  requirementId: string | null;
+  label: string;
+  description?: string;
+  checkin: ComparedPhoto[];
+  checkout: ComparedPhoto[];
+}
+
+interface PhotoComparison {
+  bookingType: 'kitchen' | 'storage';
+  bookingReference: string | null;
+  spaceName: string;
+  checkedInAt: string | null;
+  checkedOutAt: string | null;
+  pairs: PhotoComparisonPair[];
+}
+
+interface PhotoComparisonPanelProps {
+  claimId: number;
+  canAttach: boolean;
+  alreadyAttached: boolean;
+  onAttached?: () => void;
+}
+
+function PhotoColumn({ title, photos }: { title: string; photos: ComparedPhoto[] }) {
+  return (
+    <div className="space-y-2 min-w-0">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      {photos.length === 0 ? (
+        <div className="aspect-[4/3] rounded border-2 border-dashed flex flex-col items-center justify-center text-muted-foreground">
+          <ImageOff className="h-5 w-5 mb-1" />
+          <span className="text-xs">No photo</span>
+        </div>
+      ) : (
+        photos.map((photo) => (
+          <a
+            key={photo.url}
+            href={getR2ProxyUrl(photo.url)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block"
+          >
+            <img
+              src={getR2ProxyUrl(photo.url)}
+              alt={title}
+              className="aspect-[4/3] w-full rounded object-cover border"
+            />
+            <p className="text-[10px] text-muted-foreground mt-1">
+              {format(new Date(photo.uploadedAt), 'MMM d, yyyy h:mm a')}
+              {' · '}
+              {photo.uploadedByName || 'Unknown'}
+            </p>
+          </a>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function PhotoComparisonPanel({ claimId, canAttach, alreadyAttached, onAttached }: PhotoComparisonPanelProps) {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/manager/damage-claims', claimId, 'photo-comparison'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/manager/damage-claims/${claimId}/photo-comparison`);
+      return response.json();
+    },
+  });
+
+  const comparison: PhotoComparison | null = data?.comparison || null;
+
+  const attachMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/manager/damage-claims/${claimId}/photo-comparison`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Comparison attached", description: "The photo comparison PDF was added as evidence." });
+      onAttached?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!comparison || comparison.pairs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No check-in or check-out photos were submitted for this booking.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="font-semibold flex items-center gap-2">
+            <Columns2 className="h-4 w-4" />
+            Check-In vs Check-Out Photos
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            {comparison.spaceName}
+            {comparison.checkedInAt && ` · in ${format(new Date(comparison.checkedInAt), 'MMM d, h:mm a')}`}
+            {comparison.checkedOutAt && ` · out ${format(new Date(comparison.checkedOutAt), 'MMM d, h:mm a')}`}
+          </p>
+        </div>
+        {canAttach && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => attachMutation.mutate()}
+            disabled={attachMutation.isPending}
+          >
+            {attachMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileText className="h-4 w-4 mr-2" />
+            )}
+            {alreadyAttached ? 'Attach Updated PDF' : 'Attach as PDF'}
+          </Button>
+        )}
+      </div>
+
+      {comparison.pairs.map((pair) => (
+        <div key={pair.requirementId ?? '__other__'} className="border rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium">{pair.label}</p>
+            {pair.requirementId === null && (
+              <Badge variant="secondary" className="text-[10px]">Not tied to a checklist item</Badge>
+            )}
+          </div>
+          {pair.description && (
+            <p className="text-xs text-muted-foreground">{pair.description}</p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <PhotoColumn title="Check-in" photos={pair.checkin} />
+            <PhotoColumn title="Check-out" photos={pair.checkout} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, CalendarArrowDown, FileUp, Link2, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface ImportConflict {
+  bookingId: number;
+  referenceCode: string | null;
+  date: string;
+  startTime: string;
+  endTime: string;
+  eventSummary: string | null;
+}
+
+interface SyncSummary {
+  created: number;
+  updated: number;
+  removed: number;
+  skipped: number;
+  conflicts: ImportConflict[];
+  unsupportedRecurrences: number;
+}
+
+interface CalendarImport {
+  id: number;
+  name: string;
+  sourceUrl: string | null;
+  fileName: string | null;
+  isActive: boolean;
+  lastSyncedAt: string | null;
+  lastSyncStatus: 'success' | 'error' | null;
+  lastSyncError: string | null;
+  lastSyncSummary: SyncSummary | null;
+}
+
+interface KitchenCalendarImportsProps {
+  kitchenId: number;
+}
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":");
+  const hour = parseInt(hours);
+  if (hour === 24) return "Midnight";
+  const ampm = hour >= 12 ? "PM" : "AM";
+  return `${hour % 12 || 12}:${minutes} ${ampm}`;
+};
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * External calendars (ICS URL or uploaded file) whose busy events block this
+ * kitchen. Re-synced daily; blocks that overlap chef bookings are listed as conflicts.
+ */
+export function KitchenCalendarImports({ kitchenId }: KitchenCalendarImportsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/manager/kitchens/${kitchenId}/calendar-imports`];
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceFileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [sourceType, setSourceType] = useState<'url' | 'file'>('url');
+  const [name, setName] = useState("");
+  const [sourceUrl, setSourceUrl] = useState("");
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [importToDelete, setImportToDelete] = useState<CalendarImport | null>(null);
+  const [importToReplace, setImportToReplace] = useState<CalendarImport | null>(null);
+
+  const { data: imports = [], isLoading } = useQuery<CalendarImport[]>({
+    queryKey,
+    queryFn: () => requestJson(`/api/manager/kitchens/${kitchenId}/calendar-imports`, { method: 'GET' }),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    // Imported blocks change the kitchen's bookings and date overrides
+    queryClient.invalidateQueries({ queryKey: ['/api/manager/kitchens/date-overrides', kitchenId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/manager/bookings', kitchenId] });
+  };
+
+  const onMutationError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const describeSync = (summary?: SyncSummary) => {
+    if (!summary) return "Calendar synced";
+    const parts = [`${summary.created} added`, `${summary.updated} updated`, `${summary.removed} removed`];
+    const conflicts = summary.conflicts.length > 0 ? ` — ${summary.conflicts.length} conflict(s) with chef bookings` : "";
+    return `${parts.join(", ")}${conflicts}`;
+  };
+
+  const createImport = useMutation({
+    mutationFn: () =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/calendar-imports`, {
+        method: 'POST',
+        body: JSON.stringify(
+          sourceType === 'url'
+            ? { name: name.trim(), sourceUrl: sourceUrl.trim() }
+            : { name: name.trim(), fileName: file?.name, icsContent: file?.content },
+        ),
+      }),
+    onSuccess: (result: { sync: { success: boolean; error?: string; summary?: SyncSummary } }) => {
+      invalidate();
+      setIsDialogOpen(false);
+      if (result.sync.success) {
+        toast({ title: "Calendar added", description: describeSync(result.sync.summary) });
+      } else {
+        toast({ title: "Calendar added, but the first sync failed", description: result.sync.error, variant: "destructive" });
+      }
+    },
+    onError: onMutationError,
+  });
+
+  // File-based calendars re-sync from a newly uploaded export
+  const syncImport = useMutation({
+    mutationFn: ({ importId, replacement }: { importId: number; replacement?: { name: string; content: string } }) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/calendar-imports/${importId}/sync`, {
+        method: 'POST',
+        body: JSON.stringify(replacement ? { fileName: replacement.name, icsContent: replacement.content } : {}),
+      }),
+    onSuccess: (result: { summary?: SyncSummary }) => {
+      invalidate();
+      toast({ title: "Calendar synced", description: describeSync(result.summary) });
+    },
+    onError: (err: Error) => {
+      invalidate();
+      onMutationError(err);
+    },
+  });
+
+  const toggleImport = useMutation({
+    mutationFn: (calendarImport: CalendarImport) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/calendar-imports/${calendarImport.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ isActive: !calendarImport.isActive }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onMutationError,
+  });
+
+  const deleteImport = useMutation({
+    mutationFn: (importId: number) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/calendar-imports/${importId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      invalidate();
+      setImportToDelete(null);
+      toast({ title: "Success", description: "Calendar removed and its upcoming blocks released" });
+    },
+    onError: onMutationError,
+  });
+
+  const openDialog = () => {
+    setSourceType('url');
+    setName("");
+    setSourceUrl("");
+    setFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const readIcsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return null;
+    if (selected.size > MAX_FILE_BYTES) {
+      toast({ title: "File too large", description: "Calendar files can be up to 5 MB.", variant: "destructive" });
+      return null;
+    }
+    return { name: selected.name, content: await selected.text() };
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = await readIcsFile(e);
+    if (!selected) return;
+    setFile(selected);
+    if (!name.trim()) setName(selected.name.replace(/\.ics$/i, ""));
+  };
+
+  const handleReplaceFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const target = importToReplace;
+    setImportToReplace(null);
+    const selected = await readIcsFile(e);
+    if (!selected || !target) return;
+    syncImport.mutate({ importId: target.id, replacement: selected });
+  };
+
+  const handleSyncClick = (calendarImport: CalendarImport) => {
+    if (calendarImport.sourceUrl) {
+      syncImport.mutate({ importId: calendarImport.id });
+      return;
+    }
+    setImportToReplace(calendarImport);
+    replaceFileInputRef.current?.click();
+  };
+
+  const handleSave = () => {
+    let error: string | null = null;
+    if (!name.trim()) error = "Give the calendar a name";
+    else if (sourceType === 'url' && !sourceUrl.trim()) error = "Paste the calendar's ICS link";
+    else if (sourceType === 'file' && !file) error = "Choose an .ics file";
+
+    if (error) {
+      toast({ title: "Validation Error", description: error, variant: "destructive" });
+      return;
+    }
+    createImport.mutate();
+  };
+
+  return (
+    <>
+      <input
+        ref={replaceFileInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={handleReplaceFileChange}
+      />
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarArrowDown className="h-5 w-5" />
+                External Calendars
+              </CardTitle>
+              <CardDescription>
+                Block this kitchen using your own calendar. Timed events block those hours; all-day events close the kitchen for the day. Linked calendars re-sync daily.
+              </CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={openDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Calendar
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : imports.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No external calendars — only bookings made on Local Cooks block this kitchen.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {imports.map(calendarImport => {
+                const conflicts = calendarImport.lastSyncSummary?.conflicts || [];
+                const isSyncing = syncImport.isPending && syncImport.variables?.importId === calendarImport.id;
+                return (
+                  <div
+                    key={calendarImport.id}
+                    className={cn("rounded-lg border p-3 space-y-2", !calendarImport.isActive && "opacity-60")}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          {calendarImport.sourceUrl
+                            ? <Link2 className="h-4 w-4 text-muted-foreground shrink-0" />
+                            : <FileUp className="h-4 w-4 text-muted-foreground shrink-0" />}
+                          <span className="text-sm font-medium truncate">{calendarImport.name}</span>
+                          {calendarImport.lastSyncStatus === 'error' && (
+                            <Badge variant="destructive" className="text-xs">Sync failed</Badge>
+                          )}
+                          {conflicts.length > 0 && (
+                            <Badge variant="outline" className="text-xs border-amber-300 text-amber-700 bg-amber-50">
+                              {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {calendarImport.sourceUrl || calendarImport.fileName || 'Uploaded file'}
+                          {calendarImport.lastSyncedAt && (
+                            <> · Last synced {format(new Date(calendarImport.lastSyncedAt), 'MMM d, h:mm a')}</>
+                          )}
+                        </p>
+                        {calendarImport.lastSyncStatus === 'error' && calendarImport.lastSyncError && (
+                          <p className="text-xs text-destructive">{calendarImport.lastSyncError}</p>
+                        )}
+                        {calendarImport.lastSyncSummary && calendarImport.lastSyncSummary.skipped > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {calendarImport.lastSyncSummary.skipped} all-day event(s) skipped on dates you already set hours for.
+                          </p>
+                        )}
+                        {calendarImport.lastSyncSummary && calendarImport.lastSyncSummary.unsupportedRecurrences > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {calendarImport.lastSyncSummary.unsupportedRecurrences} monthly/yearly repeating event(s) only block their first date.
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Switch
+                          checked={calendarImport.isActive}
+                          onCheckedChange={() => toggleImport.mutate(calendarImport)}
+                          disabled={toggleImport.isPending}
+                          aria-label={calendarImport.isActive ? "Pause daily sync" : "Resume daily sync"}
+                        />
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => handleSyncClick(calendarImport)}
+                          disabled={syncImport.isPending}
+                          aria-label={calendarImport.sourceUrl ? "Sync now" : "Upload updated file"}
+                        >
+                          {calendarImport.sourceUrl
+                            ? <RefreshCw className={cn("h-4 w-4", isSyncing && "animate-spin")} />
+                            : isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => setImportToDelete(calendarImport)}
+                          aria-label="Remove calendar"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {conflicts.length > 0 && (
+                      <div className="rounded-md border border-amber-200 bg-amber-50 p-2 space-y-1">
+                        <p className="text-xs font-medium text-amber-800 flex items-center gap-1">
+                          <AlertTriangle className="h-3.5 w-3.5" />
+                          Overlaps existing chef bookings — reschedule or cancel these bookings:
+                        </p>
+                        {conflicts.map(conflict => (
+                          <p key={`${conflict.bookingId}-${conflict.date}`} className="text-xs text-amber-800">
+                            {format(new Date(`${conflict.date}T12:00:00`), 'EEE, MMM d')} · {formatTime(conflict.startTime)} – {formatTime(conflict.endTime)}
+                            {conflict.eventSummary && <> · &quot;{conflict.eventSummary}&quot;</>}
+                            {' '}→ booking {conflict.referenceCode || `#${conflict.bookingId}`}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add External Calendar</DialogTitle>
+            <DialogDescription>
+              Busy events from this calendar will block the kitchen for the next 6 months.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="calendarName">Name</Label>
+              <Input
+                id="calendarName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Catering calendar"
+                maxLength={60}
+                className="mt-2"
+              />
+            </div>
+
+            <Tabs value={sourceType} onValueChange={(value) => setSourceType(value as 'url' | 'file')}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="url">Subscribe to URL</TabsTrigger>
+                <TabsTrigger value="file">Upload .ics File</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {sourceType === 'url' ? (
+              <div>
+                <Label htmlFor="calendarUrl">Calendar Link</Label>
+                <Input
+                  id="calendarUrl"
+                  value={sourceUrl}
+                  onChange={(e) => setSourceUrl(e.target.value)}
+                  placeholder="https://calendar.google.com/calendar/ical/.../basic.ics"
+                  className="mt-2 font-mono text-xs"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Use the secret iCal/ICS address from Google Calendar, Outlook or Apple Calendar. webcal:// links work too.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <Label>Calendar File</Label>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".ics,text/calendar"
+                  className="hidden"
+                  onChange={handleFileChange}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="mt-2 w-full justify-start"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <FileUp className="h-4 w-4 mr-2" />
+                  {file ? file.name : 'Choose .ics file'}
+                </Button>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Uploaded files don&apos;t update on their own — upload a new export from the calendar list to refresh them.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={createImport.isPending}>
+              {createImport.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Calendar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!importToDelete} onOpenChange={(open) => !open && setImportToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Calendar</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remove &quot;{importToDelete?.name}&quot;? Upcoming times it blocked become bookable again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteImport.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => importToDelete && deleteImport.mutate(importToDelete.id)}
+              disabled={deleteImport.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
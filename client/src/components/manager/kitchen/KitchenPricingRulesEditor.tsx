@@ -0,0 +1,533 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Clock, Pencil, Plus, Trash2, Loader2, TrendingUp, TrendingDown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NumericInput } from "@/components/ui/numeric-input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface PricingRule {
+  id: number;
+  name: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  adjustmentType: 'multiplier' | 'fixed_rate';
+  multiplier: string | null;
+  fixedRate: string | null; // cents per hour
+  validFrom: string | null;
+  validUntil: string | null;
+  priority: number;
+  isActive: boolean;
+}
+
+/** Form state — string-based like the rest of the pricing page so partial input survives typing. */
+interface RuleForm {
+  name: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  adjustmentType: 'multiplier' | 'fixed_rate';
+  multiplier: string;
+  fixedRate: string; // dollars
+  validFrom: string;
+  validUntil: string;
+  priority: string;
+  isActive: boolean;
+}
+
+interface KitchenPricingRulesEditorProps {
+  kitchenId: number;
+  /** Base hourly rate in dollars (string from the pricing form), used for rate previews */
+  hourlyRate: string;
+  currency: string;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  daysOfWeek: [],
+  startTime: '17:00',
+  endTime: '22:00',
+  adjustmentType: 'multiplier',
+  multiplier: '1.25',
+  fixedRate: '',
+  validFrom: '',
+  validUntil: '',
+  priority: '0',
+  isActive: true,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const formatTime = (time: string) => {
+  if (!time) return "";
+  const [hours, minutes] = time.split(":");
+  const hour = parseInt(hours);
+  if (hour === 24) return "Midnight";
+  const ampm = hour >= 12 ? "PM" : "AM";
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${minutes} ${ampm}`;
+};
+
+const formatDays = (days: number[]) => {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Every day';
+  if (sorted.join(',') === '1,2,3,4,5') return 'Weekdays';
+  if (sorted.join(',') === '0,6') return 'Weekends';
+  return sorted.map(d => DAY_LABELS[d]).join(', ');
+};
+
+const toForm = (rule: PricingRule): RuleForm => ({
+  name: rule.name,
+  daysOfWeek: rule.daysOfWeek,
+  startTime: rule.startTime,
+  endTime: rule.endTime,
+  adjustmentType: rule.adjustmentType,
+  multiplier: rule.multiplier !== null ? String(Number(rule.multiplier)) : '',
+  fixedRate: rule.fixedRate !== null ? (Number(rule.fixedRate) / 100).toFixed(2) : '',
+  validFrom: rule.validFrom || '',
+  validUntil: rule.validUntil || '',
+  priority: String(rule.priority),
+  isActive: rule.isActive,
+});
+
+const toPayload = (form: RuleForm) => ({
+  name: form.name.trim(),
+  daysOfWeek: form.daysOfWeek,
+  startTime: form.startTime,
+  endTime: form.endTime,
+  adjustmentType: form.adjustmentType,
+  multiplier: form.adjustmentType === 'multiplier' ? parseFloat(form.multiplier) : null,
+  fixedRate: form.adjustmentType === 'fixed_rate' ? Math.round(parseFloat(form.fixedRate) * 100) : null,
+  validFrom: form.validFrom || null,
+  validUntil: form.validUntil || null,
+  priority: parseInt(form.priority) || 0,
+  isActive: form.isActive,
+});
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Peak / off-peak pricing rules for one kitchen. Rules adjust the hourly rate
+ * for matching slots; daily and weekly caps still apply on top.
+ */
+export function KitchenPricingRulesEditor({ kitchenId, hourlyRate, currency }: KitchenPricingRulesEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/manager/kitchens/${kitchenId}/pricing-rules`];
+
+  const [dialog, setDialog] = useState<{ open: boolean; ruleId: number | null }>({ open: false, ruleId: null });
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [ruleToDelete, setRuleToDelete] = useState<PricingRule | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<PricingRule[]>({
+    queryKey,
+    queryFn: () => requestJson(`/api/manager/kitchens/${kitchenId}/pricing-rules`, { method: 'GET' }),
+  });
+
+  const onMutationError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const saveRule = useMutation({
+    mutationFn: ({ ruleId, data }: { ruleId: number | null; data: ReturnType<typeof toPayload> }) =>
+      requestJson(
+        ruleId
+          ? `/api/manager/kitchens/${kitchenId}/pricing-rules/${ruleId}`
+          : `/api/manager/kitchens/${kitchenId}/pricing-rules`,
+        { method: ruleId ? 'PUT' : 'POST', body: JSON.stringify(data) },
+      ),
+    onSuccess: (_, { ruleId }) => {
+      queryClient.invalidateQueries({ queryKey });
+      setDialog({ open: false, ruleId: null });
+      toast({ title: "Success", description: ruleId ? "Pricing rule updated" : "Pricing rule added" });
+    },
+    onError: onMutationError,
+  });
+
+  const toggleRule = useMutation({
+    mutationFn: (rule: PricingRule) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/pricing-rules/${rule.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(toPayload({ ...toForm(rule), isActive: !rule.isActive })),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onMutationError,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: (ruleId: number) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/pricing-rules/${ruleId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setRuleToDelete(null);
+      toast({ title: "Success", description: "Pricing rule removed" });
+    },
+    onError: onMutationError,
+  });
+
+  const openDialog = (rule?: PricingRule) => {
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+    setDialog({ open: true, ruleId: rule?.id ?? null });
+  };
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter(d => d !== day)
+        : [...prev.daysOfWeek, day],
+    }));
+  };
+
+  const handleSave = () => {
+    // Quick client-side checks; the server re-validates everything
+    let error: string | null = null;
+    if (!form.name.trim()) error = "Give the rule a name";
+    else if (form.daysOfWeek.length === 0) error = "Select at least one day";
+    else if (form.endTime <= form.startTime) error = "End time must be after start time";
+    else if (form.adjustmentType === 'multiplier' && !(parseFloat(form.multiplier) > 0)) error = "Enter a multiplier such as 1.5 or 0.8";
+    else if (form.adjustmentType === 'fixed_rate' && !(parseFloat(form.fixedRate) >= 0)) error = "Enter an hourly rate";
+    else if (form.validFrom && form.validUntil && form.validUntil < form.validFrom) error = "Valid-until must be on or after valid-from";
+
+    if (error) {
+      toast({ title: "Validation Error", description: error, variant: "destructive" });
+      return;
+    }
+    saveRule.mutate({ ruleId: dialog.ruleId, data: toPayload(form) });
+  };
+
+  const baseHourly = parseFloat(hourlyRate);
+  const describeAdjustment = (rule: Pick<PricingRule, 'adjustmentType' | 'multiplier' | 'fixedRate'>) => {
+    if (rule.adjustmentType === 'fixed_rate') {
+      return `$${(Number(rule.fixedRate) / 100).toFixed(2)}/hr`;
+    }
+    const multiplier = Number(rule.multiplier);
+    const effective = baseHourly > 0 ? ` ($${(baseHourly * multiplier).toFixed(2)}/hr)` : '';
+    return `×${multiplier}${effective}`;
+  };
+
+  const formMultiplier = parseFloat(form.multiplier);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Peak &amp; Off-Peak Pricing
+              </CardTitle>
+              <CardDescription>
+                Adjust the hourly rate for specific days and times. Each booked hour is priced by the rule that covers it.
+              </CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No rules yet — every hour is charged at the base hourly rate.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule => {
+                const isPeak = rule.adjustmentType === 'multiplier'
+                  ? Number(rule.multiplier) >= 1
+                  : baseHourly > 0 && Number(rule.fixedRate) / 100 >= baseHourly;
+                return (
+                  <div
+                    key={rule.id}
+                    className={cn(
+                      "flex items-center justify-between gap-4 rounded-lg border p-3",
+                      !rule.isActive && "opacity-60",
+                    )}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        {isPeak
+                          ? <TrendingUp className="h-4 w-4 text-amber-600 shrink-0" />
+                          : <TrendingDown className="h-4 w-4 text-green-600 shrink-0" />}
+                        <span className="text-sm font-medium truncate">{rule.name}</span>
+                        <Badge variant="outline" className="text-xs">{describeAdjustment(rule)}</Badge>
+                        {rule.priority !== 0 && (
+                          <Badge variant="secondary" className="text-xs">Priority {rule.priority}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDays(rule.daysOfWeek)} · {formatTime(rule.startTime)} – {formatTime(rule.endTime)}
+                        {(rule.validFrom || rule.validUntil) && (
+                          <> · {rule.validFrom || '…'} to {rule.validUntil || '…'}</>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={() => toggleRule.mutate(rule)}
+                        disabled={toggleRule.isPending}
+                        aria-label={rule.isActive ? "Disable rule" : "Enable rule"}
+                      />
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openDialog(rule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => setRuleToDelete(rule)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground pt-1">
+                When rules overlap, the highest priority wins. Daily and weekly rates still cap the total.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={dialog.open} onOpenChange={(open) => !open && setDialog({ open: false, ruleId: null })}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dialog.ruleId ? 'Edit Pricing Rule' : 'Add Pricing Rule'}</DialogTitle>
+            <DialogDescription>
+              Applies to every booked hour that starts inside the time window.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="ruleName">Name</Label>
+              <Input
+                id="ruleName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Friday evening, Early bird"
+                maxLength={60}
+                className="mt-2"
+              />
+            </div>
+
+            <div>
+              <Label>Days</Label>
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {DAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={form.daysOfWeek.includes(day) ? 'default' : 'outline'}
+                    className="h-8 w-12"
+                    onClick={() => toggleDay(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="ruleStart">From</Label>
+                <Input
+                  id="ruleStart"
+                  type="time"
+                  step={3600}
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ruleEnd">Until</Label>
+                <Input
+                  id="ruleEnd"
+                  type="time"
+                  step={3600}
+                  value={form.endTime}
+                  onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="ruleAdjustment">Adjustment</Label>
+                <Select
+                  value={form.adjustmentType}
+                  onValueChange={(value: 'multiplier' | 'fixed_rate') => setForm({ ...form, adjustmentType: value })}
+                >
+                  <SelectTrigger id="ruleAdjustment" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="multiplier">Multiply hourly rate</SelectItem>
+                    <SelectItem value="fixed_rate">Fixed hourly rate</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                {form.adjustmentType === 'multiplier' ? (
+                  <>
+                    <Label htmlFor="ruleMultiplier">Multiplier</Label>
+                    <NumericInput
+                      id="ruleMultiplier"
+                      allowDecimals
+                      suffix="×"
+                      value={form.multiplier}
+                      onValueChange={(val) => setForm({ ...form, multiplier: val })}
+                      placeholder="e.g. 1.5"
+                      className="mt-2"
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Label htmlFor="ruleFixedRate">Hourly Rate ({currency})</Label>
+                    <CurrencyInput
+                      id="ruleFixedRate"
+                      value={form.fixedRate}
+                      onValueChange={(val) => setForm({ ...form, fixedRate: val })}
+                      placeholder="0.00"
+                      className="mt-2"
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+            {form.adjustmentType === 'multiplier' && baseHourly > 0 && formMultiplier > 0 && (
+              <p className="text-xs text-muted-foreground -mt-2">
+                ${baseHourly.toFixed(2)}/hr becomes ${(baseHourly * formMultiplier).toFixed(2)}/hr
+                {formMultiplier > 1 ? ' (peak)' : formMultiplier < 1 ? ' (off-peak)' : ''}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="ruleValidFrom">Valid From (optional)</Label>
+                <Input
+                  id="ruleValidFrom"
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ruleValidUntil">Valid Until (optional)</Label>
+                <Input
+                  id="ruleValidUntil"
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div>
+                <Label htmlFor="rulePriority">Priority</Label>
+                <NumericInput
+                  id="rulePriority"
+                  value={form.priority}
+                  onValueChange={(val) => setForm({ ...form, priority: val })}
+                  placeholder="0"
+                  className="mt-2"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="ruleActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                />
+                <Label htmlFor="ruleActive">Active</Label>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog({ open: false, ruleId: null })}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveRule.isPending}>
+              {saveRule.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {dialog.ruleId ? 'Save Rule' : 'Add Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Pricing Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete &quot;{ruleToDelete?.name}&quot;? Existing bookings keep the price they were charged; new bookings will use the base hourly rate for these hours.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteRule.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => ruleToDelete && deleteRule.mutate(ruleToDelete.id)}
+              disabled={deleteRule.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
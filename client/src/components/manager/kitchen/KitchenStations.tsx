@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { LayoutGrid, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface KitchenStation {
+  id: number;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+interface KitchenStationsProps {
+  kitchenId: number;
+}
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Stations let several chefs book this kitchen at the same time. Capacity is
+ * the number of active stations; without stations the kitchen is booked whole.
+ */
+export function KitchenStations({ kitchenId }: KitchenStationsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/manager/kitchens/${kitchenId}/stations`];
+
+  const [editingStation, setEditingStation] = useState<KitchenStation | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [stationToDelete, setStationToDelete] = useState<KitchenStation | null>(null);
+
+  const { data: stations = [], isLoading } = useQuery<KitchenStation[]>({
+    queryKey,
+    queryFn: () => requestJson(`/api/manager/kitchens/${kitchenId}/stations`, { method: 'GET' }),
+  });
+
+  // Kitchens whose stations are all switched off are booked whole
+  const capacity = Math.max(1, stations.filter(station => station.isActive).length);
+
+  const onMutationError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const saveStation = useMutation({
+    mutationFn: () =>
+      requestJson(
+        editingStation
+          ? `/api/manager/kitchens/${kitchenId}/stations/${editingStation.id}`
+          : `/api/manager/kitchens/${kitchenId}/stations`,
+        {
+          method: editingStation ? 'PUT' : 'POST',
+          body: JSON.stringify({ name: name.trim(), description: description.trim() || null }),
+        },
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setIsDialogOpen(false);
+      toast({ title: "Success", description: editingStation ? "Station updated" : "Station added" });
+    },
+    onError: onMutationError,
+  });
+
+  const toggleStation = useMutation({
+    mutationFn: (station: KitchenStation) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/stations/${station.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ isActive: !station.isActive }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onMutationError,
+  });
+
+  const deleteStation = useMutation({
+    mutationFn: (stationId: number) =>
+      requestJson(`/api/manager/kitchens/${kitchenId}/stations/${stationId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setStationToDelete(null);
+      toast({ title: "Success", description: "Station removed" });
+    },
+    onError: (err: Error) => {
+      setStationToDelete(null);
+      onMutationError(err);
+    },
+  });
+
+  const openDialog = (station: KitchenStation | null) => {
+    setEditingStation(station);
+    setName(station?.name ?? `Station ${stations.length + 1}`);
+    setDescription(station?.description ?? "");
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast({ title: "Validation Error", description: "Give the station a name", variant: "destructive" });
+      return;
+    }
+    saveStation.mutate();
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <LayoutGrid className="h-5 w-5" />
+                Stations
+              </CardTitle>
+              <CardDescription>
+                Split this kitchen into stations so several chefs can book it at once. Each chef books one or more stations and pays the kitchen rate per station.
+              </CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Station
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : stations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No stations — one chef books the whole kitchen at a time.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Up to {capacity} chef{capacity === 1 ? '' : 's'} at a time.
+              </p>
+              {stations.map(station => (
+                <div
+                  key={station.id}
+                  className={cn("flex items-center justify-between gap-4 rounded-lg border p-3", !station.isActive && "opacity-60")}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{station.name}</p>
+                    {station.description && (
+                      <p className="text-xs text-muted-foreground truncate">{station.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={station.isActive}
+                      onCheckedChange={() => toggleStation.mutate(station)}
+                      disabled={toggleStation.isPending}
+                      aria-label={station.isActive ? "Stop offering station" : "Offer station"}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => openDialog(station)}
+                      aria-label="Edit station"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => setStationToDelete(station)}
+                      aria-label="Remove station"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingStation ? 'Edit Station' : 'Add Station'}</DialogTitle>
+            <DialogDescription>
+              Station names show next to each booking in your booking lists.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="stationName">Name</Label>
+              <Input
+                id="stationName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Pastry bench"
+                maxLength={60}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="stationDescription">Description (Optional)</Label>
+              <Input
+                id="stationDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g. 6-burner range, 2 convection ovens"
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveStation.isPending}>
+              {saveStation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingStation ? 'Save' : 'Add Station'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!stationToDelete} onOpenChange={(open) => !open && setStationToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Station</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remove &quot;{stationToDelete?.name}&quot;? Stations with upcoming bookings can only be switched off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteStation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => stationToDelete && deleteStation.mutate(stationToDelete.id)}
+              disabled={deleteStation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
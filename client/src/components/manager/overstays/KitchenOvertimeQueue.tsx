@@ -0,0 +1,368 @@
+/**
+ * KitchenOvertimeQueue Component
+ *
+ * Manager review of late kitchen check-outs. Each proposal is billed at the
+ * kitchen's hourly rate; the manager approves it (optionally for less) or
+ * waives it, and approved overtime is charged to the chef's saved card.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  CreditCard,
+  DollarSign,
+  RefreshCw,
+  User,
+  XCircle,
+} from "lucide-react";
+import { format } from "date-fns";
+
+// Types
+interface KitchenOvertimeRecord {
+  id: number;
+  kitchenBookingId: number;
+  bookingReference: string | null;
+  status: string;
+  bookedEndAt: string;
+  checkedOutAt: string;
+  overtimeMinutes: number;
+  graceMinutes: number;
+  billableMinutes: number;
+  hourlyRateCents: number;
+  calculatedChargeCents: number;
+  finalChargeCents: number | null;
+  currency: string;
+  waiveReason: string | null;
+  chargeFailureReason: string | null;
+  kitchenName: string;
+  locationName: string;
+  chefEmail: string | null;
+  hasPaymentMethod: boolean;
+}
+
+type OvertimeDecision =
+  | { id: number; action: 'approve'; finalChargeCents?: number; managerNotes?: string }
+  | { id: number; action: 'waive'; waiveReason: string; managerNotes?: string };
+
+const getStatusBadge = (status: string) => {
+  switch (status) {
+    case 'pending_review':
+      return <Badge variant="warning"><AlertTriangle className="w-3 h-3 mr-1" />Pending Review</Badge>;
+    case 'approved':
+    case 'charge_pending':
+      return <Badge variant="info"><CreditCard className="w-3 h-3 mr-1" />Charging...</Badge>;
+    case 'charge_succeeded':
+      return <Badge variant="success"><DollarSign className="w-3 h-3 mr-1" />Charged</Badge>;
+    case 'charge_failed':
+      return <Badge variant="destructive"><AlertTriangle className="w-3 h-3 mr-1" />Charge Failed</Badge>;
+    case 'waived':
+      return <Badge variant="success"><XCircle className="w-3 h-3 mr-1" />Waived</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+const formatCurrency = (cents: number, currency: string) => {
+  return `$${(cents / 100).toFixed(2)} ${currency}`;
+};
+
+function OvertimeCard({
+  record,
+  onDecide,
+  isProcessing,
+}: {
+  record: KitchenOvertimeRecord;
+  onDecide: (decision: OvertimeDecision) => void;
+  isProcessing: boolean;
+}) {
+  const [showApprove, setShowApprove] = useState(false);
+  const [showWaive, setShowWaive] = useState(false);
+  const [amount, setAmount] = useState((record.calculatedChargeCents / 100).toFixed(2));
+  const [waiveReason, setWaiveReason] = useState("");
+  const [managerNotes, setManagerNotes] = useState("");
+
+  const canDecide = record.status === 'pending_review' || record.status === 'charge_failed';
+  const amountCents = Math.round((parseFloat(amount) || 0) * 100);
+
+  return (
+    <>
+      <Card className={record.status === 'pending_review' ? 'border-orange-200' : ''}>
+        <CardHeader className="pb-2">
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Clock className="w-5 h-5 text-muted-foreground" />
+                {record.kitchenName}
+                {record.bookingReference && (
+                  <span className="font-mono text-xs text-muted-foreground">#{record.bookingReference}</span>
+                )}
+              </CardTitle>
+              <CardDescription className="flex items-center gap-2 mt-1">
+                <User className="w-4 h-4" />
+                {record.chefEmail || 'Unknown Chef'}
+              </CardDescription>
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              {getStatusBadge(record.status)}
+              <span className="text-sm text-muted-foreground">
+                {record.overtimeMinutes} min past end time
+              </span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Booked End</p>
+              <p className="font-medium">{format(new Date(record.bookedEndAt), 'MMM d, h:mm a')}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Checked Out</p>
+              <p className="font-medium">{format(new Date(record.checkedOutAt), 'MMM d, h:mm a')}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Billable Time</p>
+              <p className="font-medium text-orange-600">{record.billableMinutes} min</p>
+              <p className="text-[10px] text-muted-foreground">{record.graceMinutes} min grace, billed in 15 min blocks</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Proposed Charge</p>
+              <p className="font-medium text-orange-600">{formatCurrency(record.calculatedChargeCents, record.currency)}</p>
+              <p className="text-[10px] text-muted-foreground">{formatCurrency(record.hourlyRateCents, record.currency)}/hr, plus tax</p>
+            </div>
+          </div>
+
+          {record.status === 'charge_failed' && record.chargeFailureReason && (
+            <p className="text-sm text-destructive mb-2">Last charge failed: {record.chargeFailureReason}</p>
+          )}
+          {record.status === 'waived' && record.waiveReason && (
+            <p className="text-sm text-muted-foreground mb-2">Waived: {record.waiveReason}</p>
+          )}
+          {!record.hasPaymentMethod && canDecide && (
+            <p className="text-sm text-red-600 mb-2">No card is saved on this booking — approving will fail to charge.</p>
+          )}
+
+          {canDecide && (
+            <div className="flex flex-wrap gap-2 pt-4 border-t">
+              <Button size="sm" onClick={() => setShowApprove(true)} disabled={isProcessing}>
+                <CheckCircle className="w-4 h-4 mr-1" />
+                {record.status === 'charge_failed' ? 'Retry Charge' : 'Approve Overtime'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowWaive(true)} disabled={isProcessing}>
+                <XCircle className="w-4 h-4 mr-1" />
+                Waive
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Approve Sheet */}
+      <Sheet open={showApprove} onOpenChange={setShowApprove}>
+        <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Approve Overtime</SheetTitle>
+            <SheetDescription>
+              The chef&apos;s saved card is charged this amount plus tax as soon as you approve.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm font-medium">Overtime Amount ({record.currency})</label>
+              <CurrencyInput
+                value={amount}
+                onValueChange={(val) => {
+                  const value = parseFloat(val);
+                  const maxAmount = record.calculatedChargeCents / 100;
+                  setAmount(!isNaN(value) && value > maxAmount ? maxAmount.toFixed(2) : val);
+                }}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Maximum: {formatCurrency(record.calculatedChargeCents, record.currency)} — {record.billableMinutes} min at {formatCurrency(record.hourlyRateCents, record.currency)}/hr
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Notes (optional)</label>
+              <Textarea
+                value={managerNotes}
+                onChange={(e) => setManagerNotes(e.target.value)}
+                placeholder="Add any notes about this decision..."
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <SheetFooter className="mt-6">
+            <Button variant="outline" onClick={() => setShowApprove(false)}>Cancel</Button>
+            <Button
+              disabled={isProcessing || amountCents <= 0}
+              onClick={() => {
+                onDecide({
+                  id: record.id,
+                  action: 'approve',
+                  finalChargeCents: amountCents !== record.calculatedChargeCents ? amountCents : undefined,
+                  managerNotes: managerNotes || undefined,
+                });
+                setShowApprove(false);
+              }}
+            >
+              Approve & Charge
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+
+      {/* Waive Sheet */}
+      <Sheet open={showWaive} onOpenChange={setShowWaive}>
+        <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Waive Overtime</SheetTitle>
+            <SheetDescription>
+              The chef will not be charged for this late check-out.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm font-medium">Reason</label>
+              <Textarea
+                value={waiveReason}
+                onChange={(e) => setWaiveReason(e.target.value)}
+                placeholder="e.g. Kitchen was free afterwards"
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <SheetFooter className="mt-6">
+            <Button variant="outline" onClick={() => setShowWaive(false)}>Cancel</Button>
+            <Button
+              disabled={isProcessing || waiveReason.trim().length === 0}
+              onClick={() => {
+                onDecide({ id: record.id, action: 'waive', waiveReason: waiveReason.trim() });
+                setShowWaive(false);
+              }}
+            >
+              Waive Overtime
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
+
+// Main component
+export function KitchenOvertimeQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showPast, setShowPast] = useState(false);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['/api/manager/kitchen-overtime', showPast],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/manager/kitchen-overtime${showPast ? '?includeAll=true' : ''}`);
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const records: KitchenOvertimeRecord[] = data?.records || [];
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ id, ...body }: OvertimeDecision) => {
+      const response = await apiRequest('POST', `/api/manager/kitchen-overtime/${id}/decision`, body);
+      return response.json();
+    },
+    onSuccess: (result, decision) => {
+      if (decision.action === 'waive') {
+        toast({ title: "Overtime waived", description: "The chef will not be charged." });
+      } else if (result?.chargeResult?.success) {
+        toast({ title: "Overtime approved & charged", description: "The chef's card has been charged." });
+      } else {
+        toast({
+          title: "Overtime approved — charge failed",
+          description: result?.chargeResult?.error || "The charge could not be completed.",
+          variant: "destructive",
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/manager/kitchen-overtime'] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="pt-6">
+          <p className="text-destructive">Error loading kitchen overtime: {(error as Error).message}</p>
+          <Button onClick={() => refetch()} className="mt-4">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Kitchen Overtime</h2>
+          <p className="text-muted-foreground">Chefs who checked out after their booking ended</p>
+        </div>
+        <Button variant={showPast ? "default" : "outline"} onClick={() => setShowPast(!showPast)}>
+          {showPast ? "Hide" : "Show"} Past Overtime
+        </Button>
+      </div>
+
+      {records.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center">
+            <CheckCircle className="w-10 h-10 text-green-500 mx-auto mb-3" />
+            <p className="text-muted-foreground">No late check-outs to review.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        records.map((record) => (
+          <OvertimeCard
+            key={record.id}
+            record={record}
+            onDecide={(decision) => decisionMutation.mutate(decision)}
+            isProcessing={decisionMutation.isPending}
+          />
+        ))
+      )}
+    </div>
+  );
+}
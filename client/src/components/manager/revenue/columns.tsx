@@ -190,7 +190,7 @@ export function getTransactionColumns({
             cell: ({ row }) => {
                 const bookingType = row.original.bookingType;
                 const isDamageClaim = bookingType === 'damage_claim';
-                const isSpecialType = isDamageClaim || bookingType === 'overstay_penalty' || bookingType === 'storage_extension';
+                const isSpecialType = isDamageClaim || bookingType === 'overstay_penalty' || bookingType === 'storage_extension' || bookingType === 'kitchen_overtime';
                 const description = row.original.description;
                 
                 return (
@@ -0,0 +1,74 @@
+/**
+ * Accounting Export Menu Component
+ *
+ * Downloads the selected date range as journal entries — revenue, platform
+ * and Stripe fees, tax, refunds and payouts — for QuickBooks, Xero or a
+ * spreadsheet.
+ */
+
+import { useState } from "react"
+import { BookOpen, ChevronDown, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { downloadAccountingExport } from "../hooks/use-revenue-data"
+import type { AccountingExportFormat, DateRange } from "../types"
+
+const EXPORT_FORMATS: Array<{ format: AccountingExportFormat; label: string; hint: string }> = [
+    { format: 'quickbooks_iif', label: 'QuickBooks Desktop', hint: '.iif general journal' },
+    { format: 'xero_csv', label: 'Xero', hint: 'Manual journal CSV' },
+    { format: 'csv', label: 'Spreadsheet', hint: 'Debit / credit CSV' },
+]
+
+interface AccountingExportMenuProps {
+    dateRange: DateRange
+}
+
+export function AccountingExportMenu({ dateRange }: AccountingExportMenuProps) {
+    const { toast } = useToast()
+    const [isExporting, setIsExporting] = useState(false)
+
+    const handleExport = async (format: AccountingExportFormat) => {
+        setIsExporting(true)
+        try {
+            await downloadAccountingExport(dateRange, format)
+        } catch (error) {
+            toast({ title: "Error", description: error instanceof Error ? error.message : String(error), variant: "destructive" })
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2" disabled={isExporting}>
+                    {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <BookOpen className="h-4 w-4" />}
+                    Export for Accounting
+                    <ChevronDown className="h-4 w-4 opacity-50" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    Journal entries for the selected dates
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {EXPORT_FORMATS.map(({ format, label, hint }) => (
+                    <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                        <div>
+                            <p className="text-sm">{label}</p>
+                            <p className="text-xs text-muted-foreground">{hint}</p>
+                        </div>
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    )
+}
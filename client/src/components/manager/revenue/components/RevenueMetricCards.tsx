@@ -6,6 +6,7 @@
  * - Tax Collected (based on kitchen tax rate)
  * - Stripe Processing Fees (actual from Stripe API)
  * - Live Payout Status (real-time from Stripe Balance API)
+ * - Revenue Share (this manager's split of co-managed locations)
  * 
  * Uses skeleton loaders for loading states.
  */
@@ -33,6 +34,7 @@ import {
     Info,
     Clock,
     Banknote,
+    Users,
 } from "lucide-react"
 import { formatCurrency, formatPercent } from "@/lib/formatters"
 import type { RevenueMetrics, Transaction } from "../types"
@@ -381,6 +383,48 @@ export function RevenueMetricCards({ metrics, isLoading, transactions }: Revenue
                             </div>
                         </>
                     )}
+
+                    {/* Revenue Share - Only show for co-managed locations */}
+                    {metrics.revenueShares && metrics.revenueShares.locations.length > 0 && (
+                        <>
+                            <Separator className="my-4" />
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2">
+                                        <Users className="h-4 w-4 text-indigo-600" />
+                                        <span className="text-sm font-semibold text-slate-700 dark:text-slate-300">Your Revenue Share</span>
+                                        <TooltipProvider>
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    <Info className="h-3 w-3 text-muted-foreground cursor-help" />
+                                                </TooltipTrigger>
+                                                <TooltipContent className="max-w-xs">
+                                                    <p className="text-sm">Payouts from co-managed locations are split between partners. This is what was transferred to your Stripe account, less refund reversals.</p>
+                                                </TooltipContent>
+                                            </Tooltip>
+                                        </TooltipProvider>
+                                    </div>
+                                    <span className="text-lg font-bold text-indigo-600">{formatCurrency(metrics.revenueShares.netCents)}</span>
+                                </div>
+                                {metrics.revenueShares.locations.map((share) => (
+                                    <div key={share.locationId} className="flex items-center justify-between text-sm">
+                                        <span className="text-muted-foreground">
+                                            {share.locationName}
+                                            {share.sharePercent > 0 && ` · ${share.sharePercent}%`}
+                                        </span>
+                                        <span className="font-medium">
+                                            {formatCurrency(share.netCents)}
+                                            {share.reversedCents > 0 && (
+                                                <span className="text-xs text-red-600 ml-1">
+                                                    ({formatCurrency(share.reversedCents)} reversed)
+                                                </span>
+                                            )}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
                 </CardContent>
             </Card>
         </div>
@@ -0,0 +1,165 @@
+/**
+ * Tax Report Card Component
+ *
+ * Quarterly sales tax collected across the manager's locations, split by
+ * GST / HST / PST / QST / RST, with a CSV export for filing returns.
+ */
+
+import { useState } from "react"
+import { Download, Landmark, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { formatCurrency } from "@/lib/formatters"
+import { useTaxReport, downloadTaxReportCsv } from "../hooks/use-revenue-data"
+import type { TaxType } from "../types"
+
+const TAX_TYPE_ORDER: TaxType[] = ['GST', 'HST', 'PST', 'QST', 'RST', 'TAX']
+const TAX_TYPE_LABELS: Record<TaxType, string> = {
+    GST: 'GST', HST: 'HST', PST: 'PST', QST: 'QST', RST: 'RST', TAX: 'Sales Tax',
+}
+
+function currentQuarter() {
+    const today = new Date()
+    return { year: today.getFullYear(), quarter: Math.floor(today.getMonth() / 3) + 1 }
+}
+
+export function TaxReportCard() {
+    const { toast } = useToast()
+    const [period, setPeriod] = useState(currentQuarter)
+    const [isDownloading, setIsDownloading] = useState(false)
+    const { data: report, isLoading } = useTaxReport(period.year, period.quarter)
+
+    const thisYear = new Date().getFullYear()
+    const years = [thisYear, thisYear - 1, thisYear - 2]
+    const taxTypes = TAX_TYPE_ORDER.filter((type) => (report?.totals.byType[type] ?? 0) !== 0)
+
+    const handleDownload = async () => {
+        setIsDownloading(true)
+        try {
+            await downloadTaxReportCsv(period.year, period.quarter)
+        } catch (error) {
+            toast({ title: "Error", description: error instanceof Error ? error.message : String(error), variant: "destructive" })
+        } finally {
+            setIsDownloading(false)
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2">
+                        <Landmark className="h-4 w-4 text-amber-600" />
+                        <div>
+                            <CardTitle className="text-base">Sales Tax Collected</CardTitle>
+                            <p className="text-xs text-muted-foreground">Net of refunds, by location and tax type</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Select
+                            value={String(period.quarter)}
+                            onValueChange={(value) => setPeriod((prev) => ({ ...prev, quarter: parseInt(value) }))}
+                        >
+                            <SelectTrigger className="w-20">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {[1, 2, 3, 4].map((q) => (
+                                    <SelectItem key={q} value={String(q)}>Q{q}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select
+                            value={String(period.year)}
+                            onValueChange={(value) => setPeriod((prev) => ({ ...prev, year: parseInt(value) }))}
+                        >
+                            <SelectTrigger className="w-24">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {years.map((year) => (
+                                    <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading} className="gap-2">
+                            {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                            CSV
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="space-y-2">
+                        <Skeleton className="h-8 w-full" />
+                        <Skeleton className="h-8 w-full" />
+                    </div>
+                ) : !report || report.totals.transactionCount === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                        No taxed payments in Q{period.quarter} {period.year}.
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b text-left text-muted-foreground">
+                                    <th className="py-2 pr-4 font-medium">Location</th>
+                                    <th className="py-2 pr-4 font-medium text-right">Taxable Sales</th>
+                                    {taxTypes.map((type) => (
+                                        <th key={type} className="py-2 pr-4 font-medium text-right">{TAX_TYPE_LABELS[type]}</th>
+                                    ))}
+                                    <th className="py-2 font-medium text-right">Total Tax</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.locations.map((location) => (
+                                    <tr key={location.locationId ?? 'unknown'} className="border-b last:border-0">
+                                        <td className="py-2 pr-4">
+                                            <p className="font-medium">
+                                                {location.locationName}
+                                                {location.province && <span className="text-muted-foreground"> · {location.province}</span>}
+                                            </p>
+                                            {location.gstHstNumber && (
+                                                <p className="text-xs text-muted-foreground">GST/HST {location.gstHstNumber}</p>
+                                            )}
+                                        </td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(location.taxableCents)}</td>
+                                        {taxTypes.map((type) => (
+                                            <td key={type} className="py-2 pr-4 text-right">{formatCurrency(location.byType[type] ?? 0)}</td>
+                                        ))}
+                                        <td className="py-2 text-right font-medium">{formatCurrency(location.taxCents)}</td>
+                                    </tr>
+                                ))}
+                                {report.locations.length > 1 && (
+                                    <tr className="font-semibold">
+                                        <td className="py-2 pr-4">Total</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(report.totals.taxableCents)}</td>
+                                        {taxTypes.map((type) => (
+                                            <td key={type} className="py-2 pr-4 text-right">{formatCurrency(report.totals.byType[type] ?? 0)}</td>
+                                        ))}
+                                        <td className="py-2 text-right">{formatCurrency(report.totals.taxCents)}</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                        {report.totals.refundedTaxCents > 0 && (
+                            <p className="text-xs text-muted-foreground mt-3">
+                                {formatCurrency(report.totals.refundedTaxCents)} of tax was returned to chefs with refunds and is excluded above.
+                            </p>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
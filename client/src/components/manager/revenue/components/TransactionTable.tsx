@@ -24,6 +24,7 @@ import { Input } from "@/components/ui/input"
 import { CurrencyInput } from "@/components/ui/currency-input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
     DropdownMenu,
     DropdownMenuCheckboxItem,
@@ -51,15 +52,29 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
 import { getTransactionColumns } from "../columns"
+import { useRefundLineItems } from "../hooks/use-revenue-data"
 import { formatCurrency, transactionsToCSV, downloadCSV } from "@/lib/formatters"
-import type { Transaction, PaymentStatus } from "../types"
+import type { Transaction, PaymentStatus, RefundLineItem, LineItemRefundSelection } from "../types"
+
+const lineItemKey = (item: Pick<RefundLineItem, 'itemType' | 'itemId'>) => `${item.itemType}:${item.itemId}`
+
+/** What refunding `quantity` units of a line returns — mirrors the server's per-line refund */
+function estimateLineRefund(item: RefundLineItem, quantity: number): number {
+    if (quantity <= 0) return 0
+    const remaining = item.itemType === 'storage' ? item.quantity - item.refundedQuantity : 1
+    const lineCents = quantity >= remaining
+        ? item.totalCents - item.refundedCents
+        : Math.round((item.totalCents * quantity) / item.quantity)
+    return Math.min(lineCents, item.maxRefundableCents)
+}
 
 interface TransactionTableProps {
     transactions: Transaction[]
     isLoading: boolean
     onDownloadInvoice: (bookingId: number, bookingType?: string, transactionId?: number) => void
     onViewDetails?: (transaction: Transaction) => void
-    onRefundTransaction?: (transaction: Transaction, amountCents: number, reason?: string) => Promise<void> | void
+    onRefundTransaction?: (transaction: Transaction, amountCents: number, reason?: string, refundTo?: 'card' | 'wallet') => Promise<void> | void
+    onRefundLineItems?: (transaction: Transaction, items: LineItemRefundSelection[], reason?: string, refundTo?: 'card' | 'wallet') => Promise<void> | void
 }
 
 export function TransactionTable({
@@ -68,6 +83,7 @@ export function TransactionTable({
     onDownloadInvoice,
     onViewDetails,
     onRefundTransaction,
+    onRefundLineItems,
 }: TransactionTableProps) {
     const [sorting, setSorting] = useState<SortingState>([{ id: 'createdAt', desc: true }])
     const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
@@ -78,8 +94,11 @@ export function TransactionTable({
     const [refundTarget, setRefundTarget] = useState<Transaction | null>(null)
     const [refundAmount, setRefundAmount] = useState('')
     const [refundReason, setRefundReason] = useState('')
+    const [refundTo, setRefundTo] = useState<'card' | 'wallet'>('card')
     const [isRefunding, setIsRefunding] = useState(false)
     const [refundError, setRefundError] = useState<string | null>(null)
+    const [refundMode, setRefundMode] = useState<'amount' | 'items'>('amount')
+    const [lineQuantities, setLineQuantities] = useState<Record<string, number>>({})
 
     const openRefundDialog = useCallback((transaction: Transaction) => {
         if (!onRefundTransaction) return
@@ -87,8 +106,11 @@ export function TransactionTable({
         const remaining = transaction.refundableAmount ?? (transaction.totalPrice || 0)
         setRefundAmount((remaining / 100).toFixed(2))
         setRefundReason('')
+        setRefundTo('card')
         setRefundError(null)
         setIsRefunding(false)
+        setRefundMode('amount')
+        setLineQuantities({})
         setRefundDialogOpen(true)
     }, [onRefundTransaction])
 
@@ -188,6 +210,24 @@ export function TransactionTable({
     const isRefundAmountValid = refundAmountCents > 0 && refundAmountCents <= refundableAmount
     const refundCurrency = refundTarget?.currency?.toUpperCase?.() || 'CAD'
 
+    // Bundled storage and equipment can be refunded line by line
+    const canRefundLineItems = !!onRefundLineItems
+        && !!refundTarget?.transactionId
+        && ['kitchen', 'bundle', 'storage'].includes(refundTarget.bookingType)
+    const { data: lineItemData, isLoading: isLoadingLineItems } = useRefundLineItems(
+        refundTarget?.transactionId ?? null,
+        refundDialogOpen && canRefundLineItems
+    )
+    const refundLineItems = lineItemData?.items || []
+    const lineItemSelections: LineItemRefundSelection[] = refundLineItems
+        .filter(item => (lineQuantities[lineItemKey(item)] || 0) > 0)
+        .map(item => ({ itemType: item.itemType, itemId: item.itemId, quantity: lineQuantities[lineItemKey(item)] }))
+    const lineItemRefundCents = refundLineItems.reduce(
+        (sum, item) => sum + estimateLineRefund(item, lineQuantities[lineItemKey(item)] || 0),
+        0
+    )
+    const isLineItemRefundValid = lineItemSelections.length > 0 && lineItemRefundCents <= refundableAmount
+
     // Handle modal lifecycle (focus + scroll lock)
     useEffect(() => {
         if (!refundDialogOpen) return
@@ -480,20 +520,120 @@ export function TransactionTable({
                                 </div>
                             </div>
 
-                            <div className="space-y-2">
-                                <Label htmlFor="refund-amount">Refund amount ({refundCurrency})</Label>
-                                <CurrencyInput
-                                    id="refund-amount"
-                                    value={refundAmount}
-                                    onValueChange={(val) => {
-                                        setRefundAmount(val)
+                            {canRefundLineItems && refundLineItems.length > 0 && (
+                                <div className="space-y-2">
+                                    <Label>Refund by</Label>
+                                    <Select value={refundMode} onValueChange={(val) => {
+                                        setRefundMode(val as 'amount' | 'items')
                                         setRefundError(null)
-                                    }}
-                                    placeholder="0.00"
-                                />
-                                {!isRefundAmountValid && refundAmount.trim() !== '' && (
-                                    <p className="text-xs text-destructive">
-                                        Enter a valid amount up to {formatCurrency(refundableAmount, refundCurrency)}.
+                                    }}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="amount">Amount</SelectItem>
+                                            <SelectItem value="items">Storage &amp; equipment line items</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+
+                            {refundMode === 'items' ? (
+                                <div className="space-y-2">
+                                    <Label>Line items</Label>
+                                    {isLoadingLineItems ? (
+                                        <Skeleton className="h-16 w-full" />
+                                    ) : (
+                                        <div className="rounded-lg border divide-y text-sm">
+                                            {refundLineItems.map((item) => {
+                                                const key = lineItemKey(item)
+                                                const remaining = item.itemType === 'storage' ? item.quantity - item.refundedQuantity : 1
+                                                const selected = lineQuantities[key] || 0
+                                                const disabled = remaining <= 0 || item.maxRefundableCents <= 0
+                                                return (
+                                                    <div key={key} className="flex items-center justify-between gap-3 p-3">
+                                                        <div className="min-w-0">
+                                                            <p className="font-medium truncate">{item.description}</p>
+                                                            <p className="text-xs text-muted-foreground">
+                                                                {disabled
+                                                                    ? 'Fully refunded'
+                                                                    : `Up to ${formatCurrency(item.maxRefundableCents, refundCurrency)}`}
+                                                                {item.itemType === 'storage' && ` · ${remaining} of ${item.quantity} days left`}
+                                                            </p>
+                                                        </div>
+                                                        {item.itemType === 'storage' ? (
+                                                            <Input
+                                                                type="number"
+                                                                min={0}
+                                                                max={remaining}
+                                                                value={selected}
+                                                                disabled={disabled}
+                                                                className="w-20"
+                                                                aria-label={`Days to refund for ${item.description}`}
+                                                                onChange={(e) => {
+                                                                    const days = Math.max(0, Math.min(remaining, Math.floor(Number(e.target.value) || 0)))
+                                                                    setLineQuantities(prev => ({ ...prev, [key]: days }))
+                                                                    setRefundError(null)
+                                                                }}
+                                                            />
+                                                        ) : (
+                                                            <Checkbox
+                                                                checked={selected > 0}
+                                                                disabled={disabled}
+                                                                aria-label={`Refund ${item.description}`}
+                                                                onCheckedChange={(checked) => {
+                                                                    setLineQuantities(prev => ({ ...prev, [key]: checked ? 1 : 0 }))
+                                                                    setRefundError(null)
+                                                                }}
+                                                            />
+                                                        )}
+                                                    </div>
+                                                )
+                                            })}
+                                        </div>
+                                    )}
+                                    <div className="flex items-center justify-between text-sm">
+                                        <span className="text-muted-foreground">Refund total (tax included)</span>
+                                        <span className="font-semibold">{formatCurrency(lineItemRefundCents, refundCurrency)}</span>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        A credit note is issued for line-item refunds.
+                                    </p>
+                                </div>
+                            ) : (
+                                <div className="space-y-2">
+                                    <Label htmlFor="refund-amount">Refund amount ({refundCurrency})</Label>
+                                    <CurrencyInput
+                                        id="refund-amount"
+                                        value={refundAmount}
+                                        onValueChange={(val) => {
+                                            setRefundAmount(val)
+                                            setRefundError(null)
+                                        }}
+                                        placeholder="0.00"
+                                    />
+                                    {!isRefundAmountValid && refundAmount.trim() !== '' && (
+                                        <p className="text-xs text-destructive">
+                                            Enter a valid amount up to {formatCurrency(refundableAmount, refundCurrency)}.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <Label>Refund to</Label>
+                                <Select value={refundTo} onValueChange={(val) => setRefundTo(val as 'card' | 'wallet')}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="card">Original payment method</SelectItem>
+                                        <SelectItem value="wallet">Chef wallet credit</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                {refundTo === 'wallet' && (
+                                    <p className="text-xs text-muted-foreground">
+                                        The chef gets credit to spend on future bookings instead of money back on their card.
                                     </p>
                                 )}
                             </div>
@@ -526,7 +666,30 @@ export function TransactionTable({
                         </Button>
                         <Button
                             onClick={async () => {
-                                if (!refundTarget || !onRefundTransaction) return
+                                if (!refundTarget) return
+                                if (refundMode === 'items') {
+                                    if (!onRefundLineItems) return
+                                    if (!isLineItemRefundValid) {
+                                        setRefundError(`Select line items totalling up to ${formatCurrency(refundableAmount, refundCurrency)}.`)
+                                        return
+                                    }
+                                    setIsRefunding(true)
+                                    try {
+                                        await onRefundLineItems(
+                                            refundTarget,
+                                            lineItemSelections,
+                                            refundReason.trim() || undefined,
+                                            refundTo
+                                        )
+                                        closeRefundDialog()
+                                    } catch (error) {
+                                        setRefundError(error instanceof Error ? error.message : 'Refund failed. Please try again.')
+                                    } finally {
+                                        setIsRefunding(false)
+                                    }
+                                    return
+                                }
+                                if (!onRefundTransaction) return
                                 if (!isRefundAmountValid) {
                                     setRefundError(`Refund amount must be between 0 and ${formatCurrency(refundableAmount, refundCurrency)}.`)
                                     return
@@ -536,7 +699,8 @@ export function TransactionTable({
                                     await onRefundTransaction(
                                         refundTarget,
                                         refundAmountCents,
-                                        refundReason.trim() || undefined
+                                        refundReason.trim() || undefined,
+                                        refundTo
                                     )
                                     closeRefundDialog()
                                 } catch (error: any) {
@@ -548,7 +712,7 @@ export function TransactionTable({
                             disabled={
                                 isRefunding
                                 || !refundTarget
-                                || !isRefundAmountValid
+                                || (refundMode === 'items' ? !isLineItemRefundValid : !isRefundAmountValid)
                             }
                         >
                             {isRefunding ? 'Processing...' : 'Confirm Refund'}
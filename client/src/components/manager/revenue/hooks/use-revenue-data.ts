@@ -17,7 +17,12 @@ import type {
     Invoice,
     Payout,
     StripeConnectStatus,
+    TaxReport,
     DateRange,
+    AccountingExportFormat,
+    RefundLineItem,
+    LineItemRefundSelection,
+    CreditNote,
 } from "../types"
 import { calculatePercentChange } from "@/lib/formatters"
 
@@ -349,6 +354,79 @@ export function useStripeConnectStatus(enabled: boolean = true) {
     })
 }
 
+// ═══════════════════════════════════════════════════════════════════════
+// TAX REPORT HOOK
+// ═══════════════════════════════════════════════════════════════════════
+
+export function useTaxReport(year: number, quarter: number, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['/api/manager/revenue/tax-report', year, quarter],
+        queryFn: async () => {
+            const headers = await getAuthHeaders()
+            const response = await fetch(`/api/manager/revenue/tax-report?year=${year}&quarter=${quarter}`, {
+                headers,
+                credentials: 'include',
+            })
+
+            if (!response.ok) throw new Error('Failed to fetch tax report')
+            return response.json() as Promise<TaxReport>
+        },
+        enabled,
+    })
+}
+
+export async function downloadTaxReportCsv(year: number, quarter: number): Promise<void> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`/api/manager/revenue/tax-report/csv?year=${year}&quarter=${quarter}`, {
+        headers,
+        credentials: 'include',
+    })
+
+    if (!response.ok) throw new Error('Failed to download tax report')
+
+    const blob = await response.blob()
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `tax-report-${year}-Q${quarter}.csv`
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// ACCOUNTING EXPORT
+// ═══════════════════════════════════════════════════════════════════════
+
+export async function downloadAccountingExport(dateRange: DateRange, format: AccountingExportFormat): Promise<void> {
+    if (!dateRange.from || !dateRange.to) throw new Error('Choose a date range to export')
+    const startDate = dateRange.from.toISOString().split('T')[0]
+    const endDate = dateRange.to.toISOString().split('T')[0]
+
+    const headers = await getAuthHeaders()
+    const response = await fetch(`/api/manager/revenue/accounting-export?startDate=${startDate}&endDate=${endDate}&format=${format}`, {
+        headers,
+        credentials: 'include',
+    })
+
+    if (!response.ok) throw new Error('Failed to export journal entries')
+
+    // The server names the file for the format (e.g. .iif for QuickBooks)
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? `accounting-${startDate}-to-${endDate}.csv`
+
+    const blob = await response.blob()
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+}
+
 // ═══════════════════════════════════════════════════════════════════════
 // INVOICE DOWNLOAD HANDLER
 // ═══════════════════════════════════════════════════════════════════════
@@ -389,6 +467,7 @@ export async function refundTransaction(params: {
     transactionId: number;
     amountCents: number;
     reason?: string;
+    refundTo?: 'card' | 'wallet';
 }): Promise<any> {
     const headers = await getAuthHeaders()
     const controller = new AbortController()
@@ -402,6 +481,7 @@ export async function refundTransaction(params: {
             body: JSON.stringify({
                 amount: params.amountCents,
                 reason: params.reason,
+                refundTo: params.refundTo,
             }),
         })
 
@@ -421,6 +501,71 @@ export async function refundTransaction(params: {
     }
 }
 
+// Storage and equipment lines of a payment that can be refunded individually
+export function useRefundLineItems(transactionId: number | null, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['/api/manager/revenue/transactions', transactionId, 'line-items'],
+        queryFn: async () => {
+            const headers = await getAuthHeaders()
+            const response = await fetch(`/api/manager/revenue/transactions/${transactionId}/line-items`, {
+                headers,
+                credentials: 'include',
+            })
+
+            if (!response.ok) throw new Error('Failed to fetch refundable line items')
+            return response.json() as Promise<{ currency: string; items: RefundLineItem[]; creditNotes: CreditNote[] }>
+        },
+        enabled: enabled && !!transactionId,
+    })
+}
+
+// Refund individual line items (manager-initiated); issues a credit note
+export async function refundTransactionLineItems(params: {
+    transactionId: number;
+    items: LineItemRefundSelection[];
+    reason?: string;
+    refundTo?: 'card' | 'wallet';
+}): Promise<{ creditNote: CreditNote }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`/api/manager/revenue/transactions/${params.transactionId}/line-item-refund`, {
+        method: 'POST',
+        headers,
+        credentials: 'include',
+        body: JSON.stringify({
+            items: params.items,
+            reason: params.reason,
+            refundTo: params.refundTo,
+        }),
+    })
+
+    if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.error || 'Failed to process refund')
+    }
+
+    return response.json()
+}
+
+export async function downloadCreditNote(creditNote: Pick<CreditNote, 'id' | 'creditNoteNumber'>): Promise<void> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`/api/manager/revenue/credit-notes/${creditNote.id}/pdf`, {
+        headers,
+        credentials: 'include',
+    })
+
+    if (!response.ok) throw new Error('Failed to download credit note')
+
+    const blob = await response.blob()
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `credit-note-${creditNote.creditNoteNumber}.pdf`
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+}
+
 // ═══════════════════════════════════════════════════════════════════════
 // PAYOUT STATEMENT DOWNLOAD HANDLER
 // ═══════════════════════════════════════════════════════════════════════
@@ -21,7 +21,13 @@ export {
     useStripeConnectStatus,
     downloadInvoice,
     refundTransaction,
+    useRefundLineItems,
+    refundTransactionLineItems,
+    downloadCreditNote,
     downloadPayoutStatement,
+    useTaxReport,
+    downloadTaxReportCsv,
+    downloadAccountingExport,
     getDefaultDateRange,
 } from './hooks/use-revenue-data'
 
@@ -29,6 +35,8 @@ export {
 export { RevenueMetricCards } from './components/RevenueMetricCards'
 export { TransactionTable } from './components/TransactionTable'
 export { DateRangePicker } from './components/DateRangePicker'
+export { TaxReportCard } from './components/TaxReportCard'
+export { AccountingExportMenu } from './components/AccountingExportMenu'
 export {
     RevenueTrendChart,
     RevenueByLocationChart,
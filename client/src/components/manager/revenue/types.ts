@@ -24,7 +24,7 @@ export type PaymentStatus =
     | 'partially_refunded'
     | 'canceled';
 
-export type BookingType = 'kitchen' | 'storage' | 'equipment' | 'bundle' | 'damage_claim' | 'overstay_penalty' | 'storage_extension';
+export type BookingType = 'kitchen' | 'storage' | 'equipment' | 'bundle' | 'damage_claim' | 'overstay_penalty' | 'storage_extension' | 'kitchen_overtime';
 
 // Transaction type for transaction history
 export interface Transaction {
@@ -59,6 +59,37 @@ export interface Transaction {
     refundableAmount: number;
 }
 
+// A storage or equipment line of a payment that can be refunded on its own
+export interface RefundLineItem {
+    itemType: 'storage' | 'equipment';
+    itemId: number;
+    description: string;
+    unitLabel: 'day' | 'rental';
+    quantity: number;              // Days booked, or 1 rental
+    refundedQuantity: number;
+    subtotalCents: number;
+    taxCents: number;
+    totalCents: number;            // Tax included
+    refundedCents: number;
+    maxRefundableCents: number;
+}
+
+export interface LineItemRefundSelection {
+    itemType: RefundLineItem['itemType'];
+    itemId: number;
+    quantity: number;
+}
+
+// Credit note issued for a line-item refund
+export interface CreditNote {
+    id: number;
+    creditNoteNumber: string;      // Format: LC-CN-XXXXXX
+    totalCents: number;
+    currency: string;
+    refundedTo: 'card' | 'wallet';
+    createdAt: string;
+}
+
 // Invoice type for invoice list
 export interface Invoice {
     bookingId: number;
@@ -104,6 +135,26 @@ export interface RevenueMetrics {
     // Comparison with previous period
     previousPeriodRevenue?: number;
     revenueChangePercent?: number;
+    // Co-managed locations: this manager's share of split payouts
+    revenueShares?: RevenueShareSummary;
+}
+
+// This manager's payouts from one co-managed location
+export interface RevenueShareLocation {
+    locationId: number;
+    locationName: string;
+    sharePercent: number;          // Current share (0 if no longer a partner)
+    transferredCents: number;
+    reversedCents: number;         // Reversed by refunds
+    netCents: number;
+    transferCount: number;
+}
+
+export interface RevenueShareSummary {
+    transferredCents: number;
+    reversedCents: number;
+    netCents: number;
+    locations: RevenueShareLocation[];
 }
 
 // Revenue by location for charts
@@ -165,6 +216,37 @@ export interface TransactionFilters {
     searchQuery: string;
 }
 
+// Sales tax collected in a quarter (all amounts in cents, net of refunds)
+export type TaxType = 'GST' | 'HST' | 'PST' | 'QST' | 'RST' | 'TAX';
+
+export interface TaxReportTotals {
+    taxableCents: number;
+    taxCents: number;
+    refundedTaxCents: number;
+    transactionCount: number;
+    byType: Partial<Record<TaxType, number>>;
+}
+
+export interface TaxReportLocation extends TaxReportTotals {
+    locationId: number | null;
+    locationName: string;
+    province: string | null;
+    gstHstNumber: string | null;
+    pstNumber: string | null;
+}
+
+export interface TaxReport {
+    year: number;
+    quarter: number;
+    startDate: string;
+    endDate: string;
+    locations: TaxReportLocation[];
+    totals: TaxReportTotals;
+}
+
+// Journal entry file formats for bookkeepers
+export type AccountingExportFormat = 'quickbooks_iif' | 'xero_csv' | 'csv';
+
 // Export options
 export interface ExportOptions {
     format: 'csv' | 'pdf';
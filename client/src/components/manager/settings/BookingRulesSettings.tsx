@@ -24,6 +24,7 @@ interface Location {
   name: string;
   cancellationPolicyHours?: number;
   cancellationPolicyMessage?: string;
+  reschedulePolicyHours?: number;
   defaultDailyBookingLimit?: number;
   minimumBookingWindowHours?: number;
   kitchenTermsUrl?: string;
@@ -43,6 +44,9 @@ export default function BookingRulesSettings({ location, onSave }: BookingRulesS
     location.cancellationPolicyMessage || "Bookings cannot be cancelled within {hours} hours of the scheduled time."
   );
 
+  // Reschedule Policy State
+  const [rescheduleHours, setRescheduleHours] = useState(location.reschedulePolicyHours ?? 24);
+
   // Daily Booking Limit State
   const [dailyBookingLimit, setDailyBookingLimit] = useState(location.defaultDailyBookingLimit || 2);
 
@@ -72,6 +76,7 @@ export default function BookingRulesSettings({ location, onSave }: BookingRulesS
     setCancellationMessage(
       location.cancellationPolicyMessage || "Bookings cannot be cancelled within {hours} hours of the scheduled time."
     );
+    setRescheduleHours(location.reschedulePolicyHours ?? 24);
     setDailyBookingLimit(location.defaultDailyBookingLimit || 2);
     setMinimumBookingWindowHours(location.minimumBookingWindowHours ?? 1);
   }, [location]);
@@ -165,10 +170,11 @@ export default function BookingRulesSettings({ location, onSave }: BookingRulesS
         locationId: location.id,
         cancellationPolicyHours: cancellationHours,
         cancellationPolicyMessage: cancellationMessage,
+        reschedulePolicyHours: rescheduleHours,
         defaultDailyBookingLimit: dailyBookingLimit,
         minimumBookingWindowHours: minimumBookingWindowHours,
       });
-    }, [onSave, location.id, cancellationHours, cancellationMessage, dailyBookingLimit, minimumBookingWindowHours]),
+    }, [onSave, location.id, cancellationHours, cancellationMessage, rescheduleHours, dailyBookingLimit, minimumBookingWindowHours]),
   );
 
   const saveDurationAction = useStatusButton(
@@ -359,6 +365,19 @@ export default function BookingRulesSettings({ location, onSave }: BookingRulesS
                 Use {"{hours}"} as a placeholder for the cancellation window
               </p>
             </div>
+            <div>
+              <Label htmlFor="reschedule-hours">Reschedule Window</Label>
+              <NumericInput
+                id="reschedule-hours"
+                suffix="hours"
+                value={String(rescheduleHours)}
+                onValueChange={(val) => setRescheduleHours(Math.max(0, parseInt(val, 10) || 0))}
+                className="mt-1.5 max-w-xs"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Minimum hours before booking time that chefs can move a booking to another time (0 = no restrictions)
+              </p>
+            </div>
           </div>
 
           {/* Daily Booking Limit */}
@@ -2,7 +2,8 @@
  * Kitchen Check-In / Check-Out Settings Component
  * Manager-controlled checklists + photo requirements for kitchen check-in and
  * check-out, plus smart-lock access codes. Storage checkout lives on its own
- * page (StorageCheckoutSettings).
+ * page (StorageCheckoutSettings). A kitchen can override the location
+ * checklist with its own template; time windows stay location-level.
  */
 
 import { useState, useEffect, useCallback, useMemo } from "react";
@@ -42,11 +43,21 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiGet, apiPut } from "@/lib/api";
+import { apiGet, apiPost, apiPut } from "@/lib/api";
 import type {
   ChecklistItem,
   PhotoRequirement,
 } from "./shared/ChecklistEditor";
+import {
+  ChecklistScopeBar,
+  CopyChecklistTemplateDialog,
+  LOCATION_SCOPE,
+  templateOverrides,
+  type ChecklistSection,
+  type ChecklistSource,
+  type ChecklistTemplateResponse,
+  type ChecklistTemplateRow,
+} from "./shared/ChecklistTemplateScope";
 import {
   KitchenCheckinCheckoutEditor,
   itemsToStorage,
@@ -58,15 +69,17 @@ import {
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 // Manager-overridable time windows only. Checkout review window is admin-only
-// (platform setting); kitchen overstay tracking has been removed.
+// (platform setting).
 interface TimeWindowSettings {
   checkinWindowMinutesBefore: number | null;
   noShowGraceMinutes: number | null;
+  overtimeGraceMinutes: number | null;
 }
 
 interface PlatformTimeWindowDefaults {
   checkinWindowMinutesBefore: number;
   noShowGraceMinutes: number;
+  overtimeGraceMinutes: number;
 }
 
 interface CheckinCheckoutSettingsData {
@@ -85,6 +98,22 @@ interface CheckinCheckoutSettingsData {
   platformDefaults?: PlatformTimeWindowDefaults;
 }
 
+/** Checklist fields this page edits (location checklist or kitchen template) */
+type KitchenChecklistData = Omit<
+  CheckinCheckoutSettingsData,
+  "id" | "timeWindowSettings" | "platformDefaults"
+> & {
+  sources?: Record<ChecklistSection, ChecklistSource>;
+};
+
+const KITCHEN_SECTION_FIELDS = {
+  checkin: ["checkinEnabled", "checkinItems", "checkinPhotoRequirements", "checkinInstructions"],
+  checkout: ["checkoutEnabled", "checkoutItems", "checkoutPhotoRequirements", "checkoutInstructions"],
+  smartLock: ["smartLockCheckinInstructions"],
+} as const;
+
+const KITCHEN_TEMPLATE_FIELDS = Object.values(KITCHEN_SECTION_FIELDS).flat();
+
 interface CheckinCheckoutSettingsProps {
   location: {
     id: number;
@@ -627,7 +656,7 @@ export default function CheckinCheckoutSettings({
   // Fetch kitchens to determine if ANY kitchen at this location has the
   // admin-controlled smart-door capability enabled. When none do, the smart
   // lock instructions textarea and all related UI is hidden from the manager.
-  const { data: kitchensAtLocation } = useQuery<Array<{ id: number; smartLockAvailable?: boolean; smart_lock_available?: boolean }>>({
+  const { data: kitchensAtLocation } = useQuery<Array<{ id: number; name: string; smartLockAvailable?: boolean; smart_lock_available?: boolean }>>({
     queryKey: ["manager-kitchens-smart-availability", location.id],
     queryFn: () => apiGet(`/manager/kitchens/${location.id}`),
     enabled: !!location.id,
@@ -640,6 +669,49 @@ export default function CheckinCheckoutSettings({
     );
   }, [kitchensAtLocation]);
 
+  // Which checklist is being edited: the location checklist or a kitchen's
+  // template. Kitchens without a template inherit the location checklist.
+  const [scope, setScope] = useState<string>(LOCATION_SCOPE);
+  const [copyDialogOpen, setCopyDialogOpen] = useState(false);
+  const [reverting, setReverting] = useState(false);
+  const scopedKitchenId = scope === LOCATION_SCOPE ? null : Number(scope);
+
+  const { data: templatesData } = useQuery<{ templates: ChecklistTemplateRow[] }>({
+    queryKey: ["checklist-templates", location.id],
+    queryFn: () => apiGet(`/manager/locations/${location.id}/checklist-templates`),
+    enabled: !!location.id,
+  });
+
+  const { data: templateData, isLoading: isLoadingTemplate } = useQuery<
+    ChecklistTemplateResponse<KitchenChecklistData>
+  >({
+    queryKey: ["checklist-template", "kitchen", scopedKitchenId],
+    queryFn: () => apiGet(`/manager/kitchens/${scopedKitchenId}/checklist-template`),
+    enabled: scopedKitchenId !== null,
+  });
+
+  const checklistData: KitchenChecklistData | undefined =
+    scopedKitchenId === null ? data : templateData?.effective;
+
+  const scopeOptions = useMemo(() => {
+    const templates = templatesData?.templates || [];
+    return [
+      { value: LOCATION_SCOPE, label: "Location default", customized: false },
+      ...(kitchensAtLocation || []).map((k) => ({
+        value: String(k.id),
+        label: k.name,
+        customized: templateOverrides(
+          templates.find((t) => t.kitchenId === k.id),
+          KITCHEN_TEMPLATE_FIELDS,
+        ),
+      })),
+    ];
+  }, [kitchensAtLocation, templatesData]);
+
+  const isScopeCustomized =
+    scopedKitchenId !== null &&
+    templateOverrides(templateData?.template, KITCHEN_TEMPLATE_FIELDS);
+
   // Kitchen check-in/out local state.
   // Items are held in a single unified list; split into server-side
   // checkinItems / checkoutItems arrays on save.
@@ -658,58 +730,63 @@ export default function CheckinCheckoutSettings({
   // Time window override state (null = use platform default)
   const [twCheckinWindow, setTwCheckinWindow] = useState<number | null>(null);
   const [twNoShowGrace, setTwNoShowGrace] = useState<number | null>(null);
+  const [twOvertimeGrace, setTwOvertimeGrace] = useState<number | null>(null);
 
   // Memoized initial unified list derived from server data. Kept in a memo so
   // we can reuse it for the "isDirty" comparison below without re-running the
   // merge repeatedly.
   const initialUnifiedItems = useMemo<UnifiedChecklistItem[]>(() => {
-    if (!data) return [];
+    if (!checklistData) return [];
     return unifyStorageToItems({
-      checkinItems: (Array.isArray(data.checkinItems)
-        ? data.checkinItems
+      checkinItems: (Array.isArray(checklistData.checkinItems)
+        ? checklistData.checkinItems
         : []) as ChecklistItem[],
-      checkoutItems: (Array.isArray(data.checkoutItems)
-        ? data.checkoutItems
+      checkoutItems: (Array.isArray(checklistData.checkoutItems)
+        ? checklistData.checkoutItems
         : []) as ChecklistItem[],
-      checkinPhotoRequirements: (Array.isArray(data.checkinPhotoRequirements)
-        ? data.checkinPhotoRequirements
+      checkinPhotoRequirements: (Array.isArray(checklistData.checkinPhotoRequirements)
+        ? checklistData.checkinPhotoRequirements
         : []) as PhotoRequirement[],
-      checkoutPhotoRequirements: (Array.isArray(data.checkoutPhotoRequirements)
-        ? data.checkoutPhotoRequirements
+      checkoutPhotoRequirements: (Array.isArray(checklistData.checkoutPhotoRequirements)
+        ? checklistData.checkoutPhotoRequirements
         : []) as PhotoRequirement[],
     });
-  }, [data]);
+  }, [checklistData]);
 
-  // Sync from server data
+  // Sync checklist from server data (location checklist or kitchen template)
   useEffect(() => {
-    if (data) {
-      setCheckinEnabled(data.checkinEnabled);
-      setCheckoutEnabled(data.checkoutEnabled);
-      setCheckinInstructions(data.checkinInstructions);
-      setCheckoutInstructions(data.checkoutInstructions);
-      setSmartLockCheckinInstructions(data.smartLockCheckinInstructions);
+    if (checklistData) {
+      setCheckinEnabled(checklistData.checkinEnabled);
+      setCheckoutEnabled(checklistData.checkoutEnabled);
+      setCheckinInstructions(checklistData.checkinInstructions);
+      setCheckoutInstructions(checklistData.checkoutInstructions);
+      setSmartLockCheckinInstructions(checklistData.smartLockCheckinInstructions);
       setItems(initialUnifiedItems);
-      // Sync time window overrides
-      if (data.timeWindowSettings) {
-        setTwCheckinWindow(data.timeWindowSettings.checkinWindowMinutesBefore);
-        setTwNoShowGrace(data.timeWindowSettings.noShowGraceMinutes);
-      }
     }
-  }, [data, initialUnifiedItems]);
+  }, [checklistData, initialUnifiedItems]);
+
+  // Sync time window overrides (always location-level)
+  useEffect(() => {
+    if (data?.timeWindowSettings) {
+      setTwCheckinWindow(data.timeWindowSettings.checkinWindowMinutesBefore);
+      setTwNoShowGrace(data.timeWindowSettings.noShowGraceMinutes);
+      setTwOvertimeGrace(data.timeWindowSettings.overtimeGraceMinutes ?? null);
+    }
+  }, [data]);
 
   const isChecklistDirty = useMemo(() => {
-    if (!data) return false;
+    if (!checklistData) return false;
     return (
-      checkinEnabled !== data.checkinEnabled ||
-      checkoutEnabled !== data.checkoutEnabled ||
+      checkinEnabled !== checklistData.checkinEnabled ||
+      checkoutEnabled !== checklistData.checkoutEnabled ||
       JSON.stringify(items) !== JSON.stringify(initialUnifiedItems) ||
-      (checkinInstructions || null) !== (data.checkinInstructions || null) ||
-      (checkoutInstructions || null) !== (data.checkoutInstructions || null) ||
+      (checkinInstructions || null) !== (checklistData.checkinInstructions || null) ||
+      (checkoutInstructions || null) !== (checklistData.checkoutInstructions || null) ||
       (smartLockCheckinInstructions || null) !==
-        (data.smartLockCheckinInstructions || null)
+        (checklistData.smartLockCheckinInstructions || null)
     );
   }, [
-    data,
+    checklistData,
     initialUnifiedItems,
     checkinEnabled,
     checkoutEnabled,
@@ -723,9 +800,10 @@ export default function CheckinCheckoutSettings({
     if (!data) return false;
     return (
       twCheckinWindow !== (data.timeWindowSettings?.checkinWindowMinutesBefore ?? null) ||
-      twNoShowGrace !== (data.timeWindowSettings?.noShowGraceMinutes ?? null)
+      twNoShowGrace !== (data.timeWindowSettings?.noShowGraceMinutes ?? null) ||
+      twOvertimeGrace !== (data.timeWindowSettings?.overtimeGraceMinutes ?? null)
     );
-  }, [data, twCheckinWindow, twNoShowGrace]);
+  }, [data, twCheckinWindow, twNoShowGrace, twOvertimeGrace]);
 
   const validationErrors = useMemo(
     () => validateUnifiedItems(items),
@@ -745,31 +823,80 @@ export default function CheckinCheckoutSettings({
         checkoutPhotoRequirements: outCheckoutPhotos,
       } = itemsToStorage(items);
 
-      await apiPut(
-        `/manager/locations/${location.id}/checkin-checkout-settings`,
-        {
-          checkinEnabled,
-          checkinItems: outCheckinItems,
-          checkinPhotoRequirements: outCheckinPhotos,
-          checkinInstructions: checkinInstructions || null,
-          checkoutEnabled,
-          checkoutItems: outCheckoutItems,
-          checkoutPhotoRequirements: outCheckoutPhotos,
-          checkoutInstructions: checkoutInstructions || null,
-          smartLockCheckinInstructions: smartLockCheckinInstructions || null,
-        },
-      );
+      const checkinSection = {
+        checkinEnabled,
+        checkinItems: outCheckinItems,
+        checkinPhotoRequirements: outCheckinPhotos,
+        checkinInstructions: checkinInstructions || null,
+      };
+      const checkoutSection = {
+        checkoutEnabled,
+        checkoutItems: outCheckoutItems,
+        checkoutPhotoRequirements: outCheckoutPhotos,
+        checkoutInstructions: checkoutInstructions || null,
+      };
+      const smartLockSection = {
+        smartLockCheckinInstructions: smartLockCheckinInstructions || null,
+      };
 
-      queryClient.invalidateQueries({
-        queryKey: ["checkin-checkout-settings", location.id],
-      });
+      if (scopedKitchenId === null) {
+        await apiPut(
+          `/manager/locations/${location.id}/checkin-checkout-settings`,
+          { ...checkinSection, ...checkoutSection, ...smartLockSection },
+        );
+
+        queryClient.invalidateQueries({
+          queryKey: ["checkin-checkout-settings", location.id],
+        });
+      } else if (checklistData) {
+        // Only override the sections the manager changed (or that the kitchen
+        // already overrides) so untouched sections keep following the
+        // location checklist.
+        const initial = itemsToStorage(initialUnifiedItems);
+        const sources = checklistData.sources;
+        const checkinChanged =
+          sources?.checkin === "kitchen" ||
+          checkinEnabled !== checklistData.checkinEnabled ||
+          (checkinInstructions || null) !== (checklistData.checkinInstructions || null) ||
+          JSON.stringify([outCheckinItems, outCheckinPhotos]) !==
+            JSON.stringify([initial.checkinItems, initial.checkinPhotoRequirements]);
+        const checkoutChanged =
+          sources?.checkout === "kitchen" ||
+          checkoutEnabled !== checklistData.checkoutEnabled ||
+          (checkoutInstructions || null) !== (checklistData.checkoutInstructions || null) ||
+          JSON.stringify([outCheckoutItems, outCheckoutPhotos]) !==
+            JSON.stringify([initial.checkoutItems, initial.checkoutPhotoRequirements]);
+        const smartLockChanged =
+          sources?.smartLock === "kitchen" ||
+          (smartLockCheckinInstructions || null) !==
+            (checklistData.smartLockCheckinInstructions || null);
+
+        await apiPut(`/manager/kitchens/${scopedKitchenId}/checklist-template`, {
+          ...(checkinChanged ? checkinSection : {}),
+          ...(checkoutChanged ? checkoutSection : {}),
+          ...(smartLockChanged ? smartLockSection : {}),
+        });
+
+        queryClient.invalidateQueries({
+          queryKey: ["checklist-template", "kitchen", scopedKitchenId],
+        });
+        queryClient.invalidateQueries({
+          queryKey: ["checklist-templates", location.id],
+        });
+      }
 
       toast({
         title: "Checklists Saved",
-        description: "Kitchen check-in/check-out checklists updated successfully.",
+        description:
+          scopedKitchenId === null
+            ? "Kitchen check-in/check-out checklists updated successfully."
+            : "This kitchen now uses its own checklist for the sections you changed.",
       });
     }, [
       location.id,
+      scopedKitchenId,
+      checklistData,
+      initialUnifiedItems,
       items,
       checkinEnabled,
       checkoutEnabled,
@@ -790,6 +917,7 @@ export default function CheckinCheckoutSettings({
           timeWindowSettings: {
             checkinWindowMinutesBefore: twCheckinWindow,
             noShowGraceMinutes: twNoShowGrace,
+            overtimeGraceMinutes: twOvertimeGrace,
           },
         },
       );
@@ -806,11 +934,75 @@ export default function CheckinCheckoutSettings({
       location.id,
       twCheckinWindow,
       twNoShowGrace,
+      twOvertimeGrace,
       queryClient,
       toast,
     ]),
   );
 
+  // Clear this page's sections from the kitchen template so it follows the
+  // location checklist again. Storage overrides on the kitchen are kept.
+  const handleRevert = useCallback(async () => {
+    if (scopedKitchenId === null) return;
+    setReverting(true);
+    try {
+      await apiPut(
+        `/manager/kitchens/${scopedKitchenId}/checklist-template`,
+        Object.fromEntries(KITCHEN_TEMPLATE_FIELDS.map((field) => [field, null])),
+      );
+      queryClient.invalidateQueries({
+        queryKey: ["checklist-template", "kitchen", scopedKitchenId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["checklist-templates", location.id],
+      });
+      toast({ title: "Kitchen now uses the location checklist" });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to revert checklist",
+        variant: "destructive",
+      });
+    } finally {
+      setReverting(false);
+    }
+  }, [scopedKitchenId, location.id, queryClient, toast]);
+
+  const handleCopy = useCallback(
+    async (targetKitchenIds: number[]) => {
+      if (scopedKitchenId === null) return;
+      try {
+        await apiPost(
+          `/manager/kitchens/${scopedKitchenId}/checklist-template/copy`,
+          { targetKitchenIds },
+        );
+        for (const kitchenId of targetKitchenIds) {
+          queryClient.invalidateQueries({
+            queryKey: ["checklist-template", "kitchen", kitchenId],
+          });
+        }
+        queryClient.invalidateQueries({
+          queryKey: ["checklist-templates", location.id],
+        });
+        toast({
+          title: "Checklist copied",
+          description: `Copied to ${targetKitchenIds.length} kitchen${targetKitchenIds.length === 1 ? "" : "s"}.`,
+        });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to copy checklist",
+          variant: "destructive",
+        });
+        throw error;
+      }
+    },
+    [scopedKitchenId, location.id, queryClient, toast],
+  );
+
+  const scopedKitchenName =
+    kitchensAtLocation?.find((k) => k.id === scopedKitchenId)?.name || "this kitchen";
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -855,36 +1047,67 @@ export default function CheckinCheckoutSettings({
         )}
       </div>
 
+      {/* Location checklist vs per-kitchen template */}
+      {(kitchensAtLocation?.length ?? 0) > 0 && (
+        <ChecklistScopeBar
+          options={scopeOptions}
+          value={scope}
+          onValueChange={setScope}
+          customized={isScopeCustomized}
+          onRevert={handleRevert}
+          reverting={reverting}
+          onCopy={() => setCopyDialogOpen(true)}
+        />
+      )}
+
+      {scopedKitchenId !== null && isLoadingTemplate ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          <span className="ml-2 text-sm text-muted-foreground">
+            Loading kitchen checklist...
+          </span>
+        </div>
+      ) : (
+        // Unified Tabbed Editor
+        <KitchenCheckinCheckoutEditor
+          items={items}
+          onItemsChange={setItems}
+          checkinEnabled={checkinEnabled}
+          onCheckinEnabledChange={setCheckinEnabled}
+          checkoutEnabled={checkoutEnabled}
+          onCheckoutEnabledChange={setCheckoutEnabled}
+          checkinInstructions={checkinInstructions}
+          onCheckinInstructionsChange={setCheckinInstructions}
+          checkoutInstructions={checkoutInstructions}
+          onCheckoutInstructionsChange={setCheckoutInstructions}
+          smartLockInstructions={smartLockCheckinInstructions}
+          onSmartLockInstructionsChange={setSmartLockCheckinInstructions}
+          smartLockAvailable={hasSmartLockKitchen}
+        />
+      )}
 
-      {/* Unified Tabbed Editor */}
-      <KitchenCheckinCheckoutEditor
-        items={items}
-        onItemsChange={setItems}
-        checkinEnabled={checkinEnabled}
-        onCheckinEnabledChange={setCheckinEnabled}
-        checkoutEnabled={checkoutEnabled}
-        onCheckoutEnabledChange={setCheckoutEnabled}
-        checkinInstructions={checkinInstructions}
-        onCheckinInstructionsChange={setCheckinInstructions}
-        checkoutInstructions={checkoutInstructions}
-        onCheckoutInstructionsChange={setCheckoutInstructions}
-        smartLockInstructions={smartLockCheckinInstructions}
-        onSmartLockInstructionsChange={setSmartLockCheckinInstructions}
-        smartLockAvailable={hasSmartLockKitchen}
-      />
-      
       {/* Save Checklists Button */}
       <div className="flex justify-end">
         <StatusButton
           status={saveChecklistsAction.status}
           onClick={saveChecklistsAction.execute}
           disabled={
-            (!isChecklistDirty && data?.id !== null) || validationErrors.length > 0
+            !checklistData ||
+            (!isChecklistDirty && (scopedKitchenId !== null || data?.id !== null)) ||
+            validationErrors.length > 0
           }
           labels={{ idle: "Save Checklists", loading: "Saving", success: "Saved" }}
         />
       </div>
 
+      <CopyChecklistTemplateDialog
+        open={copyDialogOpen}
+        onOpenChange={setCopyDialogOpen}
+        sourceName={scopedKitchenName}
+        kitchens={(kitchensAtLocation || []).filter((k) => k.id !== scopedKitchenId)}
+        onCopy={handleCopy}
+      />
+
       {/* Smart Lock & Access Codes */}
       <AccessCodesSection locationId={location.id} />
 
@@ -944,6 +1167,30 @@ export default function CheckinCheckoutSettings({
                 }}
               />
             </div>
+            <div className="space-y-2">
+              <Label className="text-xs">
+                Overtime grace (minutes after end)
+                {data?.platformDefaults && (
+                  <span className="text-muted-foreground ml-1">
+                    (default: {data.platformDefaults.overtimeGraceMinutes})
+                  </span>
+                )}
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                max={120}
+                placeholder={data?.platformDefaults ? String(data.platformDefaults.overtimeGraceMinutes) : "15"}
+                value={twOvertimeGrace ?? ""}
+                onChange={(e) => {
+                  const v = e.target.value;
+                  setTwOvertimeGrace(v === "" ? null : parseInt(v));
+                }}
+              />
+              <p className="text-[11px] text-muted-foreground">
+                Checking out later than this proposes an overtime charge at the kitchen&apos;s hourly rate for you to review.
+              </p>
+            </div>
           </div>
           <p className="text-[11px] text-muted-foreground mt-4 mb-4">
             These values override the platform defaults for this location only. Leave a field blank to use the platform default.
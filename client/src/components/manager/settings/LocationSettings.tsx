@@ -1,20 +1,28 @@
 /**
  * Location Settings Component
- * Manages timezone and location-specific settings
+ * Manages timezone, currency and location-specific settings
  */
 
-import { useCallback } from 'react';
-import { Globe } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Globe, Coins } from 'lucide-react';
 import { StatusButton } from '@/components/ui/status-button';
 import { useStatusButton } from '@/hooks/use-status-button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DEFAULT_TIMEZONE } from '@/utils/timezone-utils';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, normalizeCurrency } from '@shared/currency-utils';
+
+const CURRENCY_LABELS: Record<string, string> = {
+  CAD: 'Canadian Dollar (CAD)',
+  USD: 'US Dollar (USD)',
+};
 
 interface Location {
   id: number;
   name: string;
   address: string;
   timezone?: string;
+  currency?: string;
 }
 
 interface LocationSettingsProps {
@@ -23,7 +31,11 @@ interface LocationSettingsProps {
 }
 
 export default function LocationSettings({ location, onSave }: LocationSettingsProps) {
-  const timezone = DEFAULT_TIMEZONE;
+  const [currency, setCurrency] = useState<string>(normalizeCurrency(location.currency));
+
+  useEffect(() => {
+    setCurrency(normalizeCurrency(location.currency));
+  }, [location.currency]);
 
   const saveAction = useStatusButton(
     useCallback(async () => {
@@ -34,6 +46,15 @@ export default function LocationSettings({ location, onSave }: LocationSettingsP
     }, [onSave, location.id]),
   );
 
+  const saveCurrencyAction = useStatusButton(
+    useCallback(async () => {
+      await onSave({
+        locationId: location.id,
+        currency,
+      });
+    }, [onSave, location.id, currency]),
+  );
+
   return (
     <div className="space-y-6">
       <div>
@@ -114,6 +135,48 @@ export default function LocationSettings({ location, onSave }: LocationSettingsP
           />
         </CardContent>
       </Card>
+
+      {/* Currency Settings */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <Coins className="h-5 w-5 text-cyan-600" />
+            <div>
+              <CardTitle className="text-lg">Currency</CardTitle>
+              <CardDescription>
+                The currency chefs are charged in and you are paid out in for this location
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium text-slate-700">Location Currency</label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="mt-1.5 w-full max-w-md">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <SelectItem key={code} value={code}>{CURRENCY_LABELS[code] ?? code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-2">
+              All kitchens, storage and equipment at this location are priced in this currency.
+              Existing bookings keep the currency they were paid in.
+              {currency !== DEFAULT_CURRENCY && ' Your Stripe account must be able to receive payouts in this currency.'}
+            </p>
+          </div>
+
+          <StatusButton
+            status={saveCurrencyAction.status}
+            onClick={saveCurrencyAction.execute}
+            variant="outline"
+            labels={{ idle: "Save Currency", loading: "Saving", success: "Saved" }}
+          />
+        </CardContent>
+      </Card>
     </div>
   );
 }
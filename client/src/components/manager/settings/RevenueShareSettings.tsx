@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface RevenueShare {
+  recipientUserId: number;
+  email: string;
+  sharePercent: number;
+  hasConnectAccount: boolean;
+  isLocationManager: boolean;
+}
+
+interface ShareDraft {
+  email: string;
+  sharePercent: string;
+}
+
+interface RevenueShareSettingsProps {
+  locationId: number;
+}
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+const toDrafts = (shares: RevenueShare[]): ShareDraft[] =>
+  shares.map(share => ({ email: share.email, sharePercent: String(share.sharePercent) }));
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Split this location's payouts between co-managers. Each partner needs their
+ * own Stripe Connect account; shares apply to payments transferred after saving.
+ */
+export default function RevenueShareSettings({ locationId }: RevenueShareSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/manager/locations/${locationId}/revenue-shares`];
+
+  const [drafts, setDrafts] = useState<ShareDraft[]>([]);
+
+  const { data, isLoading } = useQuery<RevenueShare[]>({
+    queryKey,
+    queryFn: () => requestJson(`/api/manager/locations/${locationId}/revenue-shares`, { method: 'GET' }),
+  });
+  const shares = data ?? [];
+
+  // Reset the form to the saved split whenever it (re)loads
+  useEffect(() => {
+    if (data) setDrafts(toDrafts(data));
+  }, [data]);
+
+  const saveShares = useMutation({
+    mutationFn: (next: ShareDraft[]) =>
+      requestJson(`/api/manager/locations/${locationId}/revenue-shares`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          shares: next.map(draft => ({
+            email: draft.email.trim(),
+            sharePercent: parseFloat(draft.sharePercent),
+          })),
+        }),
+      }),
+    onSuccess: (_data, next) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Success",
+        description: next.length > 0 ? "Revenue split saved" : "Revenue split removed — you receive all payouts",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const total = drafts.reduce((sum, draft) => sum + (parseFloat(draft.sharePercent) || 0), 0);
+  const totalIsValid = Math.round(total * 100) === 10000;
+
+  const updateDraft = (index: number, updates: Partial<ShareDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...updates } : draft)));
+  };
+
+  const handleSave = () => {
+    if (drafts.some(draft => !draft.email.trim() || !(parseFloat(draft.sharePercent) > 0))) {
+      toast({ title: "Validation Error", description: "Enter an email and a share for each partner", variant: "destructive" });
+      return;
+    }
+    if (drafts.length > 0 && !totalIsValid) {
+      toast({ title: "Validation Error", description: "Shares must add up to 100%", variant: "destructive" });
+      return;
+    }
+    saveShares.mutate(drafts);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Users className="h-5 w-5" />
+              Revenue Share
+            </CardTitle>
+            <CardDescription>
+              Co-manage this location? Split its payouts between partners by percentage. Each partner is paid directly to their own Stripe account, and refunds are taken back in the same proportions.
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDrafts(prev => [...prev, { email: "", sharePercent: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Partner
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : drafts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No split — you receive 100% of this location&apos;s payouts.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {drafts.map((draft, index) => {
+              const saved = shares.find(share => share.email.toLowerCase() === draft.email.trim().toLowerCase());
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="email"
+                    placeholder="partner@example.com"
+                    value={draft.email}
+                    onChange={(e) => updateDraft(index, { email: e.target.value })}
+                    className="flex-1"
+                  />
+                  <div className="relative w-28 shrink-0">
+                    <Input
+                      type="number"
+                      min="0.01"
+                      max="100"
+                      step="0.01"
+                      value={draft.sharePercent}
+                      onChange={(e) => updateDraft(index, { sharePercent: e.target.value })}
+                      className="pr-7"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">%</span>
+                  </div>
+                  {saved?.isLocationManager && <Badge variant="secondary">You</Badge>}
+                  {saved && !saved.hasConnectAccount && <Badge variant="destructive">No Stripe account</Badge>}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove partner"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <p className={cn("text-sm", totalIsValid ? "text-muted-foreground" : "text-destructive")}>
+              Total: {Math.round(total * 100) / 100}%
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <Button onClick={handleSave} disabled={saveShares.isPending || (drafts.length === 0 && shares.length === 0)}>
+            {saveShares.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Split
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,11 +8,12 @@
  * pattern as kitchens.
  *
  * This page is the single source of truth for storage inspection
- * configuration — replacing the legacy checkout-only page.
+ * configuration — replacing the legacy checkout-only page. A storage listing
+ * can override the location inspections with its own template.
  */
 
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Loader2, AlertTriangle, Info } from "lucide-react";
 import { StatusButton } from "@/components/ui/status-button";
 import { useStatusButton } from "@/hooks/use-status-button";
@@ -30,6 +31,15 @@ import {
   validateStorageInspectionItems,
   type UnifiedStorageInspectionItem,
 } from "./StorageCheckinCheckoutEditor";
+import {
+  ChecklistScopeBar,
+  LOCATION_SCOPE,
+  templateOverrides,
+  type ChecklistSection,
+  type ChecklistSource,
+  type ChecklistTemplateResponse,
+  type ChecklistTemplateRow,
+} from "./shared/ChecklistTemplateScope";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -48,6 +58,22 @@ interface StorageCheckinCheckoutSettingsData {
   storageCheckoutInstructions: string | null;
 }
 
+/** Storage fields this page edits (location checklist or listing template) */
+type StorageChecklistData = Omit<StorageCheckinCheckoutSettingsData, "id"> & {
+  sources?: Record<ChecklistSection, ChecklistSource>;
+};
+
+const STORAGE_TEMPLATE_FIELDS = [
+  "storageCheckinEnabled",
+  "storageCheckinItems",
+  "storageCheckinPhotoRequirements",
+  "storageCheckinInstructions",
+  "storageCheckoutEnabled",
+  "storageCheckoutItems",
+  "storageCheckoutPhotoRequirements",
+  "storageCheckoutInstructions",
+] as const;
+
 interface StorageCheckinCheckoutSettingsProps {
   location: {
     id: number;
@@ -72,6 +98,67 @@ export default function StorageCheckinCheckoutSettings({
     enabled: !!location.id,
   });
 
+  // Which checklist is being edited: the location checklist or a storage
+  // listing's template
+  const [scope, setScope] = useState<string>(LOCATION_SCOPE);
+  const [reverting, setReverting] = useState(false);
+  const scopedListingId = scope === LOCATION_SCOPE ? null : Number(scope);
+
+  const { data: kitchensAtLocation } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ["manager-kitchens-storage-scope", location.id],
+    queryFn: () => apiGet(`/manager/kitchens/${location.id}`),
+    enabled: !!location.id,
+  });
+
+  const listingQueries = useQueries({
+    queries: (kitchensAtLocation || []).map((kitchen) => ({
+      queryKey: ["manager-storage-listings", kitchen.id],
+      queryFn: (): Promise<Array<{ id: number; name: string }>> =>
+        apiGet(`/manager/kitchens/${kitchen.id}/storage-listings`),
+    })),
+  });
+
+  const { data: templatesData } = useQuery<{ templates: ChecklistTemplateRow[] }>({
+    queryKey: ["checklist-templates", location.id],
+    queryFn: () => apiGet(`/manager/locations/${location.id}/checklist-templates`),
+    enabled: !!location.id,
+  });
+
+  const { data: templateData, isLoading: isLoadingTemplate } = useQuery<
+    ChecklistTemplateResponse<StorageChecklistData>
+  >({
+    queryKey: ["checklist-template", "storage-listing", scopedListingId],
+    queryFn: () =>
+      apiGet(`/manager/storage-listings/${scopedListingId}/checklist-template`),
+    enabled: scopedListingId !== null,
+  });
+
+  const checklistData: StorageChecklistData | undefined =
+    scopedListingId === null ? data : templateData?.effective;
+
+  const scopeOptions = useMemo(() => {
+    const templates = templatesData?.templates || [];
+    const multipleKitchens = (kitchensAtLocation?.length ?? 0) > 1;
+    const listingOptions = (kitchensAtLocation || []).flatMap((kitchen, i) =>
+      (listingQueries[i]?.data || []).map((listing) => ({
+        value: String(listing.id),
+        label: multipleKitchens ? `${kitchen.name} · ${listing.name}` : listing.name,
+        customized: templateOverrides(
+          templates.find((t) => t.storageListingId === listing.id),
+          STORAGE_TEMPLATE_FIELDS,
+        ),
+      })),
+    );
+    return [
+      { value: LOCATION_SCOPE, label: "Location default", customized: false },
+      ...listingOptions,
+    ];
+  }, [kitchensAtLocation, listingQueries, templatesData]);
+
+  const isScopeCustomized =
+    scopedListingId !== null &&
+    templateOverrides(templateData?.template, STORAGE_TEMPLATE_FIELDS);
+
   // Local state — single unified list for the editor plus per-stage
   // enable flags & instructions.
   const [checkinEnabled, setCheckinEnabled] = useState(true);
@@ -85,51 +172,51 @@ export default function StorageCheckinCheckoutSettings({
   );
 
   const initialUnifiedItems = useMemo<UnifiedStorageInspectionItem[]>(() => {
-    if (!data) return [];
+    if (!checklistData) return [];
     return unifyStorageInspectionItems({
-      checkinItems: Array.isArray(data.storageCheckinItems)
-        ? (data.storageCheckinItems as ChecklistItem[])
+      checkinItems: Array.isArray(checklistData.storageCheckinItems)
+        ? (checklistData.storageCheckinItems as ChecklistItem[])
         : [],
-      checkoutItems: Array.isArray(data.storageCheckoutItems)
-        ? (data.storageCheckoutItems as ChecklistItem[])
+      checkoutItems: Array.isArray(checklistData.storageCheckoutItems)
+        ? (checklistData.storageCheckoutItems as ChecklistItem[])
         : [],
       checkinPhotoRequirements: Array.isArray(
-        data.storageCheckinPhotoRequirements,
+        checklistData.storageCheckinPhotoRequirements,
       )
-        ? (data.storageCheckinPhotoRequirements as PhotoRequirement[])
+        ? (checklistData.storageCheckinPhotoRequirements as PhotoRequirement[])
         : [],
       checkoutPhotoRequirements: Array.isArray(
-        data.storageCheckoutPhotoRequirements,
+        checklistData.storageCheckoutPhotoRequirements,
       )
-        ? (data.storageCheckoutPhotoRequirements as PhotoRequirement[])
+        ? (checklistData.storageCheckoutPhotoRequirements as PhotoRequirement[])
         : [],
     });
-  }, [data]);
+  }, [checklistData]);
 
-  // Sync from server data on first load / when switching locations
+  // Sync from server data on first load / when switching locations or scope
   useEffect(() => {
-    if (data) {
-      setCheckinEnabled(data.storageCheckinEnabled ?? true);
-      setCheckoutEnabled(data.storageCheckoutEnabled ?? true);
-      setCheckinInstructions(data.storageCheckinInstructions);
-      setCheckoutInstructions(data.storageCheckoutInstructions);
+    if (checklistData) {
+      setCheckinEnabled(checklistData.storageCheckinEnabled ?? true);
+      setCheckoutEnabled(checklistData.storageCheckoutEnabled ?? true);
+      setCheckinInstructions(checklistData.storageCheckinInstructions);
+      setCheckoutInstructions(checklistData.storageCheckoutInstructions);
       setItems(initialUnifiedItems);
     }
-  }, [data, initialUnifiedItems]);
+  }, [checklistData, initialUnifiedItems]);
 
   const isDirty = useMemo(() => {
-    if (!data) return false;
+    if (!checklistData) return false;
     return (
-      checkinEnabled !== (data.storageCheckinEnabled ?? true) ||
-      checkoutEnabled !== (data.storageCheckoutEnabled ?? true) ||
+      checkinEnabled !== (checklistData.storageCheckinEnabled ?? true) ||
+      checkoutEnabled !== (checklistData.storageCheckoutEnabled ?? true) ||
       JSON.stringify(items) !== JSON.stringify(initialUnifiedItems) ||
       (checkinInstructions || null) !==
-        (data.storageCheckinInstructions || null) ||
+        (checklistData.storageCheckinInstructions || null) ||
       (checkoutInstructions || null) !==
-        (data.storageCheckoutInstructions || null)
+        (checklistData.storageCheckoutInstructions || null)
     );
   }, [
-    data,
+    checklistData,
     initialUnifiedItems,
     checkinEnabled,
     checkoutEnabled,
@@ -159,31 +246,71 @@ export default function StorageCheckinCheckoutSettings({
         checkoutPhotoRequirements: outCheckoutPhotos,
       } = storageInspectionItemsToArrays(items);
 
-      await apiPut(
-        `/manager/locations/${location.id}/checkin-checkout-settings`,
-        {
-          storageCheckinEnabled: checkinEnabled,
-          storageCheckinItems: outCheckinItems,
-          storageCheckinPhotoRequirements: outCheckinPhotos,
-          storageCheckinInstructions: checkinInstructions || null,
-          storageCheckoutEnabled: checkoutEnabled,
-          storageCheckoutItems: outCheckoutItems,
-          storageCheckoutPhotoRequirements: outCheckoutPhotos,
-          storageCheckoutInstructions: checkoutInstructions || null,
-        },
-      );
+      const checkinSection = {
+        storageCheckinEnabled: checkinEnabled,
+        storageCheckinItems: outCheckinItems,
+        storageCheckinPhotoRequirements: outCheckinPhotos,
+        storageCheckinInstructions: checkinInstructions || null,
+      };
+      const checkoutSection = {
+        storageCheckoutEnabled: checkoutEnabled,
+        storageCheckoutItems: outCheckoutItems,
+        storageCheckoutPhotoRequirements: outCheckoutPhotos,
+        storageCheckoutInstructions: checkoutInstructions || null,
+      };
 
-      queryClient.invalidateQueries({
-        queryKey: ["checkin-checkout-settings", location.id],
-      });
+      if (scopedListingId === null) {
+        await apiPut(
+          `/manager/locations/${location.id}/checkin-checkout-settings`,
+          { ...checkinSection, ...checkoutSection },
+        );
+
+        queryClient.invalidateQueries({
+          queryKey: ["checkin-checkout-settings", location.id],
+        });
+      } else if (checklistData) {
+        // Only override the stages the manager changed (or that the listing
+        // already overrides) so the other stage keeps following its parent.
+        const initial = storageInspectionItemsToArrays(initialUnifiedItems);
+        const sources = checklistData.sources;
+        const checkinChanged =
+          sources?.storageCheckin === "storage_listing" ||
+          checkinEnabled !== (checklistData.storageCheckinEnabled ?? true) ||
+          (checkinInstructions || null) !== (checklistData.storageCheckinInstructions || null) ||
+          JSON.stringify([outCheckinItems, outCheckinPhotos]) !==
+            JSON.stringify([initial.checkinItems, initial.checkinPhotoRequirements]);
+        const checkoutChanged =
+          sources?.storageCheckout === "storage_listing" ||
+          checkoutEnabled !== (checklistData.storageCheckoutEnabled ?? true) ||
+          (checkoutInstructions || null) !== (checklistData.storageCheckoutInstructions || null) ||
+          JSON.stringify([outCheckoutItems, outCheckoutPhotos]) !==
+            JSON.stringify([initial.checkoutItems, initial.checkoutPhotoRequirements]);
+
+        await apiPut(`/manager/storage-listings/${scopedListingId}/checklist-template`, {
+          ...(checkinChanged ? checkinSection : {}),
+          ...(checkoutChanged ? checkoutSection : {}),
+        });
+
+        queryClient.invalidateQueries({
+          queryKey: ["checklist-template", "storage-listing", scopedListingId],
+        });
+        queryClient.invalidateQueries({
+          queryKey: ["checklist-templates", location.id],
+        });
+      }
 
       toast({
         title: "Settings Saved",
         description:
-          "Storage check-in / check-out checklists updated successfully.",
+          scopedListingId === null
+            ? "Storage check-in / check-out checklists updated successfully."
+            : "This storage unit now uses its own inspection for the stages you changed.",
       });
     }, [
       location.id,
+      scopedListingId,
+      checklistData,
+      initialUnifiedItems,
       checkinEnabled,
       checkoutEnabled,
       items,
@@ -195,6 +322,34 @@ export default function StorageCheckinCheckoutSettings({
     ]),
   );
 
+  // Clear the listing's template so it follows the location (or its
+  // kitchen's) inspections again
+  const handleRevert = useCallback(async () => {
+    if (scopedListingId === null) return;
+    setReverting(true);
+    try {
+      await apiPut(
+        `/manager/storage-listings/${scopedListingId}/checklist-template`,
+        Object.fromEntries(STORAGE_TEMPLATE_FIELDS.map((field) => [field, null])),
+      );
+      queryClient.invalidateQueries({
+        queryKey: ["checklist-template", "storage-listing", scopedListingId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["checklist-templates", location.id],
+      });
+      toast({ title: "Storage unit now uses the location checklist" });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to revert checklist",
+        variant: "destructive",
+      });
+    } finally {
+      setReverting(false);
+    }
+  }, [scopedListingId, location.id, queryClient, toast]);
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -240,28 +395,50 @@ export default function StorageCheckinCheckoutSettings({
         )}
       </div>
 
+      {/* Location checklist vs per-listing template */}
+      {scopeOptions.length > 1 && (
+        <ChecklistScopeBar
+          options={scopeOptions}
+          value={scope}
+          onValueChange={setScope}
+          customized={isScopeCustomized}
+          onRevert={handleRevert}
+          reverting={reverting}
+        />
+      )}
+
+      {scopedListingId !== null && isLoadingTemplate ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          <span className="ml-2 text-sm text-muted-foreground">
+            Loading storage unit checklist...
+          </span>
+        </div>
+      ) : (
+        // Unified Matrix Editor
+        <StorageCheckinCheckoutEditor
+          items={items}
+          onItemsChange={setItems}
+          checkinEnabled={checkinEnabled}
+          onCheckinEnabledChange={setCheckinEnabled}
+          checkoutEnabled={checkoutEnabled}
+          onCheckoutEnabledChange={setCheckoutEnabled}
+          checkinInstructions={checkinInstructions}
+          onCheckinInstructionsChange={setCheckinInstructions}
+          checkoutInstructions={checkoutInstructions}
+          onCheckoutInstructionsChange={setCheckoutInstructions}
+        />
+      )}
 
-      {/* Unified Matrix Editor */}
-      <StorageCheckinCheckoutEditor
-        items={items}
-        onItemsChange={setItems}
-        checkinEnabled={checkinEnabled}
-        onCheckinEnabledChange={setCheckinEnabled}
-        checkoutEnabled={checkoutEnabled}
-        onCheckoutEnabledChange={setCheckoutEnabled}
-        checkinInstructions={checkinInstructions}
-        onCheckinInstructionsChange={setCheckinInstructions}
-        checkoutInstructions={checkoutInstructions}
-        onCheckoutInstructionsChange={setCheckoutInstructions}
-      />
-      
       {/* Save Settings Button */}
       <div className="flex justify-end">
         <StatusButton
           status={saveAction.status}
           onClick={saveAction.execute}
           disabled={
-            (!isDirty && data?.id !== null) || validationErrors.length > 0
+            !checklistData ||
+            (!isDirty && (scopedListingId !== null || data?.id !== null)) ||
+            validationErrors.length > 0
           }
           labels={{ idle: "Save Storage Checklists", loading: "Saving", success: "Saved" }}
         />
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Landmark, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface TaxComponent {
+  type: string;
+  ratePercent: number;
+}
+
+interface TaxProfile {
+  locationId: number;
+  province: string | null;
+  provinceSource: "manual" | "address" | null;
+  components: TaxComponent[];
+  ratePercent: number;
+  gstHstNumber: string | null;
+  pstNumber: string | null;
+}
+
+interface TaxSettingsProps {
+  locationId: number;
+}
+
+// Radix Select does not allow an empty value, so "auto" stands in for "use the address"
+const AUTO_DETECT = "auto";
+
+const PROVINCES: Array<{ code: string; name: string }> = [
+  { code: "AB", name: "Alberta" },
+  { code: "BC", name: "British Columbia" },
+  { code: "MB", name: "Manitoba" },
+  { code: "NB", name: "New Brunswick" },
+  { code: "NL", name: "Newfoundland and Labrador" },
+  { code: "NS", name: "Nova Scotia" },
+  { code: "NT", name: "Northwest Territories" },
+  { code: "NU", name: "Nunavut" },
+  { code: "ON", name: "Ontario" },
+  { code: "PE", name: "Prince Edward Island" },
+  { code: "QC", name: "Quebec" },
+  { code: "SK", name: "Saskatchewan" },
+  { code: "YT", name: "Yukon" },
+];
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+const provinceName = (code: string | null) => PROVINCES.find(p => p.code === code)?.name ?? code;
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Sales tax jurisdiction and registration numbers for a location. The
+ * province sets the tax rate on all of its kitchens; registration numbers are
+ * printed on invoices.
+ */
+export default function TaxSettings({ locationId }: TaxSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/manager/locations/${locationId}/tax-settings`];
+
+  const [province, setProvince] = useState(AUTO_DETECT);
+  const [gstHstNumber, setGstHstNumber] = useState("");
+  const [pstNumber, setPstNumber] = useState("");
+
+  const { data, isLoading } = useQuery<TaxProfile>({
+    queryKey,
+    queryFn: () => requestJson(`/api/manager/locations/${locationId}/tax-settings`, { method: 'GET' }),
+  });
+
+  // Reset the form to the saved settings whenever they (re)load
+  useEffect(() => {
+    if (!data) return;
+    setProvince(data.provinceSource === "manual" && data.province ? data.province : AUTO_DETECT);
+    setGstHstNumber(data.gstHstNumber ?? "");
+    setPstNumber(data.pstNumber ?? "");
+  }, [data]);
+
+  const saveSettings = useMutation({
+    mutationFn: () =>
+      requestJson(`/api/manager/locations/${locationId}/tax-settings`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          taxProvince: province === AUTO_DETECT ? null : province,
+          gstHstNumber: gstHstNumber.trim() || null,
+          pstNumber: pstNumber.trim() || null,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Success", description: "Tax settings saved — kitchen tax rates updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Landmark className="h-5 w-5" />
+          Sales Tax
+        </CardTitle>
+        <CardDescription>
+          Bookings, storage, penalties and damage claims are taxed at your province&apos;s GST, HST, PST or QST rates. Registration numbers appear on every invoice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Province / Territory</Label>
+              <Select value={province} onValueChange={setProvince}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_DETECT}>Auto-detect from address</SelectItem>
+                  {PROVINCES.map(p => (
+                    <SelectItem key={p.code} value={p.code}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {data && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  {data.province ? (
+                    <>
+                      <span>
+                        {provinceName(data.province)}
+                        {data.provinceSource === "address" && " (from address)"}:
+                      </span>
+                      {data.components.map(component => (
+                        <Badge key={component.type} variant="secondary">
+                          {component.type} {component.ratePercent}%
+                        </Badge>
+                      ))}
+                      <span>= {data.ratePercent}%</span>
+                    </>
+                  ) : (
+                    <span>
+                      Couldn&apos;t detect a province from the address — choose one, or kitchens keep their own tax rate
+                      {data.ratePercent > 0 && ` (${data.ratePercent}%)`}.
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`gst-hst-${locationId}`}>GST/HST Number</Label>
+                <Input
+                  id={`gst-hst-${locationId}`}
+                  placeholder="123456789 RT 0001"
+                  value={gstHstNumber}
+                  onChange={(e) => setGstHstNumber(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`pst-${locationId}`}>PST / QST Number</Label>
+                <Input
+                  id={`pst-${locationId}`}
+                  placeholder="Optional"
+                  value={pstNumber}
+                  onChange={(e) => setPstNumber(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <Button onClick={() => saveSettings.mutate()} disabled={isLoading || saveSettings.isPending}>
+            {saveSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Tax Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus, Trash2, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/api";
+import { formatCurrency } from "@/lib/formatters";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface WalletPackage {
+  id: number;
+  name: string;
+  description: string | null;
+  creditCents: number;
+  priceCents: number;
+  validityDays: number | null;
+  isActive: boolean;
+}
+
+interface WalletPackagesSettingsProps {
+  locationId: number;
+}
+
+async function requestJson(url: string, init: RequestInit) {
+  const headers = await getAuthHeaders();
+  const res = await fetch(url, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+const toCents = (dollars: string) => Math.round(parseFloat(dollars) * 100);
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Prepaid credit packages this location sells to chefs (e.g. pay $450, get
+ * $500 of kitchen time). Credit is only spendable at this location.
+ */
+export default function WalletPackagesSettings({ locationId }: WalletPackagesSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/manager/locations/${locationId}/wallet-packages`];
+
+  const [editingPackage, setEditingPackage] = useState<WalletPackage | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [credit, setCredit] = useState("");
+  const [price, setPrice] = useState("");
+  const [validityDays, setValidityDays] = useState("");
+  const [packageToDelete, setPackageToDelete] = useState<WalletPackage | null>(null);
+
+  const { data: packages = [], isLoading } = useQuery<WalletPackage[]>({
+    queryKey,
+    queryFn: () => requestJson(`/api/manager/locations/${locationId}/wallet-packages`, { method: 'GET' }),
+  });
+
+  const onMutationError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const savePackage = useMutation({
+    mutationFn: () =>
+      requestJson(
+        editingPackage
+          ? `/api/manager/wallet-packages/${editingPackage.id}`
+          : `/api/manager/locations/${locationId}/wallet-packages`,
+        {
+          method: editingPackage ? 'PUT' : 'POST',
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || null,
+            creditCents: toCents(credit),
+            priceCents: toCents(price),
+            validityDays: validityDays ? parseInt(validityDays) : null,
+            isActive: editingPackage?.isActive ?? true,
+          }),
+        },
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setIsDialogOpen(false);
+      toast({ title: "Success", description: editingPackage ? "Package updated" : "Package added" });
+    },
+    onError: onMutationError,
+  });
+
+  const togglePackage = useMutation({
+    mutationFn: (pkg: WalletPackage) =>
+      requestJson(`/api/manager/wallet-packages/${pkg.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ ...pkg, isActive: !pkg.isActive }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onMutationError,
+  });
+
+  const deletePackage = useMutation({
+    mutationFn: (packageId: number) =>
+      requestJson(`/api/manager/wallet-packages/${packageId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setPackageToDelete(null);
+      toast({ title: "Success", description: "Package removed" });
+    },
+    onError: (err: Error) => {
+      setPackageToDelete(null);
+      onMutationError(err);
+    },
+  });
+
+  const openDialog = (pkg: WalletPackage | null) => {
+    setEditingPackage(pkg);
+    setName(pkg?.name ?? "");
+    setDescription(pkg?.description ?? "");
+    setCredit(pkg ? (pkg.creditCents / 100).toFixed(2) : "");
+    setPrice(pkg ? (pkg.priceCents / 100).toFixed(2) : "");
+    setValidityDays(pkg?.validityDays ? String(pkg.validityDays) : "");
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !(toCents(credit) > 0) || !(toCents(price) > 0)) {
+      toast({ title: "Validation Error", description: "Enter a name, the credit and the price", variant: "destructive" });
+      return;
+    }
+    savePackage.mutate();
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Wallet className="h-5 w-5" />
+                Prepaid Credit Packages
+              </CardTitle>
+              <CardDescription>
+                Sell kitchen credit up front. Chefs spend it on bookings at this location; you are paid for the package price as the credit is used.
+              </CardDescription>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Package
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : packages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No packages — chefs pay for each booking at checkout.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {packages.map(pkg => (
+                <div
+                  key={pkg.id}
+                  className={cn("flex items-center justify-between gap-4 rounded-lg border p-3", !pkg.isActive && "opacity-60")}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{pkg.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Pay {formatCurrency(pkg.priceCents)}, get {formatCurrency(pkg.creditCents)}
+                      {pkg.validityDays ? ` · valid ${pkg.validityDays} days` : " · no expiry"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={pkg.isActive}
+                      onCheckedChange={() => togglePackage.mutate(pkg)}
+                      disabled={togglePackage.isPending}
+                      aria-label={pkg.isActive ? "Stop selling package" : "Sell package"}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => openDialog(pkg)}
+                      aria-label="Edit package"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => setPackageToDelete(pkg)}
+                      aria-label="Remove package"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingPackage ? 'Edit Package' : 'Add Package'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to new purchases. Credit already sold keeps its terms.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="packageName">Name</Label>
+              <Input
+                id="packageName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. 10-hour bundle"
+                maxLength={80}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="packageDescription">Description (Optional)</Label>
+              <Input
+                id="packageDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="packagePrice">Price ($)</Label>
+                <Input
+                  id="packagePrice"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="packageCredit">Credit ($)</Label>
+                <Input
+                  id="packageCredit"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={credit}
+                  onChange={(e) => setCredit(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="packageValidity">Valid for (days, optional)</Label>
+              <Input
+                id="packageValidity"
+                type="number"
+                min="1"
+                value={validityDays}
+                onChange={(e) => setValidityDays(e.target.value)}
+                placeholder="No expiry"
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={savePackage.isPending}>
+              {savePackage.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingPackage ? 'Save' : 'Add Package'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!packageToDelete} onOpenChange={(open) => !open && setPackageToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Package</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remove &quot;{packageToDelete?.name}&quot;? Chefs keep any credit they already bought.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deletePackage.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => packageToDelete && deletePackage.mutate(packageToDelete.id)}
+              disabled={deletePackage.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -11,3 +11,6 @@ export { default as NotificationsSettings } from './NotificationsSettings';
 export { default as FacilityDocsSettings } from './FacilityDocsSettings';
 export { default as CheckinCheckoutSettings } from './CheckinCheckoutSettings';
 export { default as StorageCheckinCheckoutSettings } from './StorageCheckinCheckoutSettings';
+export { default as WalletPackagesSettings } from './WalletPackagesSettings';
+export { default as RevenueShareSettings } from './RevenueShareSettings';
+export { default as TaxSettings } from './TaxSettings';
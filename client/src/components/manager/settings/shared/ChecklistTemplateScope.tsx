@@ -0,0 +1,237 @@
+/**
+ * Checklist template scope controls shared by CheckinCheckoutSettings
+ * (kitchens) and StorageCheckinCheckoutSettings (storage listings).
+ *
+ * Managers pick whether they are editing the location checklist or a
+ * kitchen's / listing's template. Templates override the location checklist
+ * section by section; sections they leave empty keep inheriting.
+ */
+
+import { useState } from "react";
+import { Copy, Layers, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const LOCATION_SCOPE = "location";
+
+export type ChecklistSection =
+  | "checkin"
+  | "checkout"
+  | "storageCheckin"
+  | "storageCheckout"
+  | "smartLock";
+
+export type ChecklistSource = "location" | "kitchen" | "storage_listing";
+
+/** Template row as returned by the manager checklist template endpoints */
+export interface ChecklistTemplateRow {
+  id: number;
+  kitchenId: number | null;
+  storageListingId: number | null;
+  [field: string]: unknown;
+}
+
+/** GET/PUT /manager/{kitchens|storage-listings}/:id/checklist-template */
+export interface ChecklistTemplateResponse<T> {
+  template: ChecklistTemplateRow | null;
+  effective: T & { sources: Record<ChecklistSection, ChecklistSource> };
+}
+
+export interface ChecklistScopeOption {
+  value: string;
+  label: string;
+  customized: boolean;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** True when the template sets any of the given fields */
+export function templateOverrides(
+  template: ChecklistTemplateRow | null | undefined,
+  fields: readonly string[],
+): boolean {
+  return !!template && fields.some((field) => template[field] != null);
+}
+
+// ─── Scope Bar ────────────────────────────────────────────────────────────────
+
+interface ChecklistScopeBarProps {
+  options: ChecklistScopeOption[];
+  value: string;
+  onValueChange: (value: string) => void;
+  /** Whether the selected kitchen / listing overrides any section on this page */
+  customized: boolean;
+  onRevert: () => void;
+  reverting: boolean;
+  onCopy?: () => void;
+}
+
+export function ChecklistScopeBar({
+  options,
+  value,
+  onValueChange,
+  customized,
+  onRevert,
+  reverting,
+  onCopy,
+}: ChecklistScopeBarProps) {
+  const isLocation = value === LOCATION_SCOPE;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+      <Layers className="size-4 text-muted-foreground" />
+      <Label className="text-xs text-muted-foreground shrink-0">
+        Editing checklist for
+      </Label>
+      <Select value={value} onValueChange={onValueChange}>
+        <SelectTrigger className="w-64 h-8 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+              {option.customized ? " (custom)" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!isLocation && (
+        <Badge
+          variant="outline"
+          className={
+            customized
+              ? "text-violet-700 bg-violet-50 border-violet-200"
+              : "text-muted-foreground"
+          }
+        >
+          {customized ? "Custom checklist" : "Uses location checklist"}
+        </Badge>
+      )}
+
+      <div className="ml-auto flex items-center gap-2">
+        {!isLocation && customized && (
+          <Button size="sm" variant="outline" onClick={onRevert} disabled={reverting}>
+            {reverting ? (
+              <Loader2 className="size-4 mr-1.5 animate-spin" />
+            ) : (
+              <RotateCcw className="size-4 mr-1.5" />
+            )}
+            Revert to location checklist
+          </Button>
+        )}
+        {!isLocation && customized && onCopy && (
+          <Button size="sm" variant="outline" onClick={onCopy}>
+            <Copy className="size-4 mr-1.5" />
+            Copy to other kitchens
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Copy Dialog ──────────────────────────────────────────────────────────────
+
+interface CopyChecklistTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sourceName: string;
+  kitchens: Array<{ id: number; name: string }>;
+  /** Should report its own errors and reject to keep the dialog open */
+  onCopy: (targetKitchenIds: number[]) => Promise<void>;
+}
+
+export function CopyChecklistTemplateDialog({
+  open,
+  onOpenChange,
+  sourceName,
+  kitchens,
+  onCopy,
+}: CopyChecklistTemplateDialogProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [copying, setCopying] = useState(false);
+
+  const toggle = (kitchenId: number, checked: boolean) => {
+    setSelected((prev) =>
+      checked ? [...prev, kitchenId] : prev.filter((id) => id !== kitchenId),
+    );
+  };
+
+  const handleCopy = async () => {
+    setCopying(true);
+    try {
+      await onCopy(selected);
+      setSelected([]);
+      onOpenChange(false);
+    } catch {
+      // onCopy reports the error; keep the dialog open so the manager can retry
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Copy checklist</DialogTitle>
+          <DialogDescription>
+            Replace the checklist of the selected kitchens with {sourceName}&apos;s.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {kitchens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              There are no other kitchens at this location.
+            </p>
+          ) : (
+            kitchens.map((kitchen) => (
+              <label
+                key={kitchen.id}
+                className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={selected.includes(kitchen.id)}
+                  onCheckedChange={(checked) => toggle(kitchen.id, checked === true)}
+                />
+                {kitchen.name}
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCopy} disabled={selected.length === 0 || copying}>
+            {copying && <Loader2 className="size-4 mr-1.5 animate-spin" />}
+            Copy checklist
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
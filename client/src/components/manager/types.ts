@@ -17,6 +17,7 @@ export interface LocationData {
     timezone?: string;
     cancellationPolicyHours?: number;
     cancellationPolicyMessage?: string;
+    reschedulePolicyHours?: number;
     defaultDailyBookingLimit?: number;
     minimumBookingWindowHours?: number;
 }
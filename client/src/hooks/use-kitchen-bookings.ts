@@ -139,6 +139,9 @@ export function useKitchenBookings() {
         startTime: booking.start_time || booking.startTime,
         endTime: booking.end_time || booking.endTime,
         selectedSlots: booking.selected_slots || booking.selectedSlots || [], // Discrete time slots for non-contiguous bookings
+        endDate: booking.endDate ?? booking.end_date ?? null,
+        seriesId: booking.seriesId ?? booking.series_id ?? null,
+        rescheduleHistory: booking.rescheduleHistory ?? booking.reschedule_history ?? [],
         status: booking.status,
         specialNotes: booking.special_notes || booking.specialNotes,
         createdAt: booking.created_at || booking.createdAt,
@@ -149,6 +152,7 @@ export function useKitchenBookings() {
           name: booking.location.name,
           cancellationPolicyHours: booking.location.cancellationPolicyHours ?? booking.location.cancellation_policy_hours ?? 24,
           cancellationPolicyMessage: booking.location.cancellationPolicyMessage || booking.location.cancellation_policy_message || `Bookings cannot be cancelled within ${booking.location.cancellationPolicyHours ?? booking.location.cancellation_policy_hours ?? 24} hours of the scheduled time.`,
+          reschedulePolicyHours: booking.location.reschedulePolicyHours ?? booking.location.reschedule_policy_hours ?? 24,
         } : undefined,
         // Preserve other location-related fields
         locationName: booking.locationName || booking.location_name,
@@ -288,7 +292,7 @@ export function useKitchenBookings() {
   });
 
   // Get available time slots for a kitchen on a specific date
-  const getAvailableSlots = async (kitchenId: number, date: string): Promise<string[]> => {
+  const getAvailableSlots = async (kitchenId: number, date: string): Promise<Array<{ time: string; available: number; capacity: number }>> => {
     const headers = await getAuthHeaders();
     const response = await fetch(
       `/api/chef/kitchens/${kitchenId}/availability?date=${date}`,
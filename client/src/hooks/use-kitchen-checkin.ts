@@ -46,6 +46,8 @@ export interface CheckinStatusData {
   bookingDate: string;
   startTime: string;
   endTime: string;
+  // Day endTime falls on for overnight/multi-day bookings (null = bookingDate)
+  endDate?: string | null;
   // Authoritative timezone for the check-in window. Defaults to Newfoundland
   // if the server doesn't send it, but server now always includes it.
   timezone?: string | null;
@@ -130,9 +132,9 @@ export function useKitchenCheckin(bookingId: number | null) {
   const checkinMutation = useMutation<
     CheckinResult,
     Error,
-    { checkinNotes?: string; checkinPhotoUrls?: string[]; checkinChecklistItems?: Array<{ id: string; label: string; checked: boolean }> }
+    { checkinNotes?: string; checkinPhotoUrls?: string[]; checkinPhotosByRequirement?: Record<string, string[]>; checkinChecklistItems?: Array<{ id: string; label: string; checked: boolean }> }
   >({
-    mutationFn: async ({ checkinNotes, checkinPhotoUrls, checkinChecklistItems }) => {
+    mutationFn: async ({ checkinNotes, checkinPhotoUrls, checkinPhotosByRequirement, checkinChecklistItems }) => {
       const headers = await getAuthHeaders();
       const response = await fetch(
         `/api/chef/bookings/${bookingId}/checkin`,
@@ -140,7 +142,7 @@ export function useKitchenCheckin(bookingId: number | null) {
           method: "POST",
           credentials: "include",
           headers,
-          body: JSON.stringify({ checkinNotes, checkinPhotoUrls, checkinChecklistItems }),
+          body: JSON.stringify({ checkinNotes, checkinPhotoUrls, checkinPhotosByRequirement, checkinChecklistItems }),
         }
       );
       if (!response.ok) {
@@ -161,9 +163,9 @@ export function useKitchenCheckin(bookingId: number | null) {
   const checkoutMutation = useMutation<
     CheckoutResult,
     Error,
-    { checkoutNotes?: string; checkoutPhotoUrls?: string[]; checkoutChecklistItems?: Array<{ id: string; label: string; checked: boolean }> }
+    { checkoutNotes?: string; checkoutPhotoUrls?: string[]; checkoutPhotosByRequirement?: Record<string, string[]>; checkoutChecklistItems?: Array<{ id: string; label: string; checked: boolean }> }
   >({
-    mutationFn: async ({ checkoutNotes, checkoutPhotoUrls, checkoutChecklistItems }) => {
+    mutationFn: async ({ checkoutNotes, checkoutPhotoUrls, checkoutPhotosByRequirement, checkoutChecklistItems }) => {
       const headers = await getAuthHeaders();
       const response = await fetch(
         `/api/chef/bookings/${bookingId}/checkout`,
@@ -171,7 +173,7 @@ export function useKitchenCheckin(bookingId: number | null) {
           method: "POST",
           credentials: "include",
           headers,
-          body: JSON.stringify({ checkoutNotes, checkoutPhotoUrls, checkoutChecklistItems }),
+          body: JSON.stringify({ checkoutNotes, checkoutPhotoUrls, checkoutPhotosByRequirement, checkoutChecklistItems }),
         }
       );
       if (!response.ok) {
@@ -209,7 +211,7 @@ export function useKitchenCheckin(bookingId: number | null) {
     const now = new Date();
     const dateOnly = s.bookingDate.split("T")[0]; // Extract YYYY-MM-DD from ISO timestamp
     const bookingStart = createBookingDateTime(dateOnly, s.startTime, timezone);
-    const bookingEnd = createBookingDateTime(dateOnly, s.endTime, timezone);
+    const bookingEnd = createBookingDateTime(s.endDate ? s.endDate.split("T")[0] : dateOnly, s.endTime, timezone);
     const checkinOpens = new Date(
       bookingStart.getTime() - windowMinutesBefore * 60 * 1000,
     );
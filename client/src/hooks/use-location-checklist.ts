@@ -44,18 +44,36 @@ export interface LocationChecklist {
   storageCheckinPhotoRequirements: PhotoRequirement[];
   storageCheckinInstructions: string | null;
   smartLockCheckinInstructions: string | null;
+  /** Level each section was resolved from (location checklist or a template) */
+  sources?: Record<'checkin' | 'checkout' | 'storageCheckin' | 'storageCheckout' | 'smartLock', 'location' | 'kitchen' | 'storage_listing'>;
+}
+
+/** Kitchen or storage listing whose checklist template should be applied */
+export interface ChecklistScope {
+  kitchenId?: number | null;
+  storageListingId?: number | null;
 }
 
 // ─── Hook ─────────────────────────────────────────────────────────────────────
 
 /**
- * Fetches the manager-defined checklist for a location.
+ * Fetches the manager-defined checklist for a location, with the kitchen's or
+ * storage listing's template applied when a scope is given.
  * Used by chef-side check-in/check-out components.
  */
-export function useLocationChecklist(locationId: number | null | undefined) {
+export function useLocationChecklist(locationId: number | null | undefined, scope?: ChecklistScope) {
+  const kitchenId = scope?.kitchenId ?? null;
+  const storageListingId = scope?.storageListingId ?? null;
+
   return useQuery<LocationChecklist>({
-    queryKey: ["location-checklist", locationId],
-    queryFn: () => apiGet(`/chef/locations/${locationId}/checklist`),
+    queryKey: ["location-checklist", locationId, kitchenId, storageListingId],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (kitchenId) params.set("kitchenId", String(kitchenId));
+      if (storageListingId) params.set("storageListingId", String(storageListingId));
+      const query = params.toString();
+      return apiGet(`/chef/locations/${locationId}/checklist${query ? `?${query}` : ""}`);
+    },
     enabled: !!locationId && locationId > 0,
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes — checklists don't change often
   });
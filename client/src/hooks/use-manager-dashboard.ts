@@ -29,6 +29,7 @@ interface Location {
   timezone?: string;
   cancellationPolicyHours?: number;
   cancellationPolicyMessage?: string;
+  reschedulePolicyHours?: number;
   defaultDailyBookingLimit?: number;
   minimumBookingWindowHours?: number;
 }
@@ -48,6 +48,7 @@ const viewLabels: Record<string, string> = {
     feedback: "Feedback",
     "damage-claims": "Damage Claims",
     "seller-revenue": "Seller Revenue",
+    wallet: "Kitchen Wallet",
 }
 
 export default function ChefDashboardLayout({
@@ -1,6 +1,8 @@
 import { logger } from "@/lib/logger";
 import AdminProtectedRoute from "@/components/admin/AdminProtectedRoute";
 import PromoCodeSender from "@/components/admin/PromoCodeSender";
+import PromoCodesManager from "@/components/admin/PromoCodesManager";
+import ChefWalletCreditGrant from "@/components/admin/ChefWalletCreditGrant";
 import ChefKitchenAccessManager from "@/components/admin/ChefKitchenAccessManager";
 import DamageClaimReview from "@/components/admin/DamageClaimReview";
 import DamageClaimSettings from "@/components/admin/DamageClaimSettings";
@@ -17,6 +19,7 @@ import { AdminTransactionHistory } from "@/components/admin/sections/AdminTransa
 import AdminOverstayPenalties from "@/components/admin/sections/AdminOverstayPenalties";
 import AdminDamageClaimsHistory from "@/components/admin/sections/AdminDamageClaimsHistory";
 import { AccessCodeDashboard } from "@/components/admin/sections/AccessCodeDashboard";
+import { StripeReconciliationSection } from "@/components/admin/sections/StripeReconciliationSection";
 import {
   formatApplicationStatus,
   formatCertificationStatus,
@@ -114,7 +117,7 @@ function AdminDashboard() {
     "platform-overview", "platform-settings", "overstay-settings",
     "damage-claim-settings", "account-settings", "overview", "transactions",
     "overstay-penalties-history", "damage-claims-history",
-    "security-settings", "access-codes",
+    "security-settings", "access-codes", "reconciliation",
   ], []);
 
   const [activeSection, setActiveSection] = useState<AdminSection>(() => {
@@ -1181,7 +1184,15 @@ function AdminDashboard() {
         );
 
       case "promos":
-        return <PromoCodeSender />;
+        return (
+          <div className="space-y-6">
+            <ErrorBoundary>
+              <PromoCodesManager />
+            </ErrorBoundary>
+            <ChefWalletCreditGrant />
+            <PromoCodeSender />
+          </div>
+        );
 
       case "transactions":
         return (
@@ -1210,6 +1221,13 @@ function AdminDashboard() {
       case "platform-overview":
         return <PlatformOverviewSection getFirebaseToken={getFirebaseToken} />;
 
+      case "reconciliation":
+        return (
+          <ErrorBoundary>
+            <StripeReconciliationSection />
+          </ErrorBoundary>
+        );
+
       case "platform-settings":
         return <PlatformSettingsSection />;
 
@@ -61,6 +61,7 @@ import ApplicationFormPanel from "@/components/application/ApplicationFormPanel"
 import ChefSupportPage from "@/components/chef/ChefSupportPage";
 import { IssuesAndRefunds } from "@/components/chef/IssuesAndRefunds";
 import { TransactionHistory } from "@/components/chef/TransactionHistory";
+import { ChefWallet } from "@/components/chef/ChefWallet";
 import TidioController from "@/components/chat/TidioController";
 import OutstandingDuesBanner from "@/components/chef/OutstandingDuesBanner";
 import ChefProfileSettings from "@/components/chef/ChefProfileSettings";
@@ -98,7 +99,7 @@ export default function ApplicantDashboard() {
   const getInitialTab = () => {
     const params = new URLSearchParams(window.location.search);
     const view = params.get('view');
-    if (view && ['overview', 'applications', 'kitchen-applications', 'discover-kitchens', 'bookings', 'training', 'messages', 'support', 'feedback', 'seller-revenue'].includes(view)) {
+    if (view && ['overview', 'applications', 'kitchen-applications', 'discover-kitchens', 'bookings', 'training', 'messages', 'support', 'feedback', 'seller-revenue', 'wallet'].includes(view)) {
       return view;
     }
     return 'overview';
@@ -139,7 +140,7 @@ export default function ApplicantDashboard() {
     const VALID_VIEWS = [
       'overview', 'applications', 'kitchen-applications', 'discover-kitchens',
       'bookings', 'training', 'messages', 'support', 'feedback',
-      'damage-claims', 'profile', 'seller-revenue'
+      'damage-claims', 'profile', 'seller-revenue', 'wallet'
     ];
     const syncFromUrl = () => {
       const params = new URLSearchParams(window.location.search);
@@ -1190,6 +1191,12 @@ export default function ApplicantDashboard() {
             <TransactionHistory />
           </div>
         );
+      case "wallet":
+        return (
+          <div className="space-y-8 animate-in fade-in-50 duration-500">
+            <ChefWallet />
+          </div>
+        );
       case "seller-revenue":
         if (!isSellerApplicationFullyApproved) {
           return <div className="space-y-8 animate-in fade-in-50 duration-500">{overviewTabContent}</div>;
@@ -34,6 +34,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ManagerPageLayout } from "@/components/layout/ManagerPageLayout";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { KitchenCalendarImports } from "@/components/manager/kitchen/KitchenCalendarImports";
+import { KitchenStations } from "@/components/manager/kitchen/KitchenStations";
 
 // --- Types ---
 interface DateAvailability {
@@ -467,9 +469,11 @@ function AvailabilityContent({
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-top-4">
       <Tabs defaultValue="weekly" value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full max-w-md grid-cols-2">
+        <TabsList className="grid w-full max-w-2xl grid-cols-4">
           <TabsTrigger value="weekly">Weekly Schedule</TabsTrigger>
           <TabsTrigger value="calendar">Exceptions & Calendar</TabsTrigger>
+          <TabsTrigger value="external">External Calendars</TabsTrigger>
+          <TabsTrigger value="stations">Stations</TabsTrigger>
         </TabsList>
 
         <TabsContent value="weekly" className="space-y-4 mt-6">
@@ -683,6 +687,14 @@ function AvailabilityContent({
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="external" className="mt-6">
+          <KitchenCalendarImports kitchenId={selectedKitchenId} />
+        </TabsContent>
+
+        <TabsContent value="stations" className="mt-6">
+          <KitchenStations kitchenId={selectedKitchenId} />
+        </TabsContent>
       </Tabs>
 
       {/* Exception Dialog */}
@@ -15,6 +15,7 @@ import { useChefKitchenApplicationForLocation } from "@/hooks/use-chef-kitchen-a
 import { getR2ProxyUrl } from "@/utils/r2-url-helper";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getAuthHeaders } from "@/lib/api";
 
 // Component for equipment image with R2 proxy URL
 function EquipmentImage({ imageUrl, alt }: { imageUrl: string; alt: string }) {
@@ -221,6 +222,7 @@ export default function KitchenBookingCalendar() {
   // Pricing state
   const [kitchenPricing, setKitchenPricing] = useState<{
     hourlyRate: number | null;
+    dailyRate: number | null; // Daily cap in cents
     currency: string;
     minimumBookingHours: number;
   } | null>(null);
@@ -230,6 +232,11 @@ export default function KitchenBookingCalendar() {
     totalPrice: number;
     durationHours: number;
   } | null>(null);
+  // Server-side price breakdown for the selected slots (peak/off-peak rules, daily cap)
+  const [pricePreview, setPricePreview] = useState<{
+    totalPriceCents: number;
+    lineItems: Array<{ description: string; amountCents: number; pricingRuleId?: number }>;
+  } | null>(null);
 
   // Storage and Equipment listings state
   const [storageListings, setStorageListings] = useState<any[]>([]);
@@ -597,6 +604,7 @@ export default function KitchenBookingCalendar() {
         
         setKitchenPricing({
           hourlyRate: hourlyRateCents,
+          dailyRate: pricing.dailyRate != null ? parseFloat(pricing.dailyRate) : null,
           currency: pricing.currency || 'CAD',
           minimumBookingHours: pricing.minimumBookingHours || 1,
         });
@@ -606,6 +614,7 @@ export default function KitchenBookingCalendar() {
         logger.info('ℹ️ No pricing set for kitchen:', kitchen.id);
         setKitchenPricing({
           hourlyRate: null,
+          dailyRate: null,
           currency: 'CAD',
           minimumBookingHours: 1,
         });
@@ -615,6 +624,7 @@ export default function KitchenBookingCalendar() {
         // Still set pricing state so UI can show message
         setKitchenPricing({
           hourlyRate: null,
+          dailyRate: null,
           currency: 'CAD',
           minimumBookingHours: 1,
         });
@@ -623,6 +633,7 @@ export default function KitchenBookingCalendar() {
       logger.error('Error fetching kitchen pricing:', error);
       setKitchenPricing({
         hourlyRate: null,
+        dailyRate: null,
         currency: 'CAD',
         minimumBookingHours: 1,
       });
@@ -661,6 +672,51 @@ export default function KitchenBookingCalendar() {
     setSelectedSlots([]);
   };
 
+  // Fetch the authoritative breakdown when the selection changes (debounced while clicking slots)
+  useEffect(() => {
+    if (!selectedSlots.length || !selectedKitchen || !selectedDate || !kitchenPricing?.hourlyRate) {
+      setPricePreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const sortedSlots = [...selectedSlots].sort();
+        const response = await fetch(`/api/chef/kitchens/${selectedKitchen.id}/price-preview`, {
+          method: 'POST',
+          credentials: 'include',
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({
+            bookingDate: toLocalDateString(selectedDate),
+            selectedSlots: sortedSlots.map(slot => {
+              const [h, m] = slot.split(':').map(Number);
+              const endMins = h * 60 + m + 60;
+              return {
+                startTime: slot,
+                endTime: `${Math.floor(endMins / 60).toString().padStart(2, '0')}:${(endMins % 60).toString().padStart(2, '0')}`,
+              };
+            }),
+          }),
+        });
+        if (!response.ok) throw new Error(`Price preview failed (${response.status})`);
+        const data = await response.json();
+        if (!cancelled) {
+          setPricePreview({ totalPriceCents: data.totalPriceCents, lineItems: data.lineItems || [] });
+        }
+      } catch (error) {
+        // Fall back to the local estimate
+        logger.error('Error fetching price preview:', error);
+        if (!cancelled) setPricePreview(null);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedSlots, selectedKitchen, selectedDate, kitchenPricing]);
+
   // Calculate estimated price when slots change
   useEffect(() => {
     if (!selectedSlots.length || !selectedKitchen || !kitchenPricing) {
@@ -678,7 +734,14 @@ export default function KitchenBookingCalendar() {
     // Only calculate price if hourly rate is set
     // hourlyRate is already in cents
     if (kitchenPricing.hourlyRate && kitchenPricing.hourlyRate > 0) {
-      const basePrice = kitchenPricing.hourlyRate * durationHours;
+      const hourlyPrice = kitchenPricing.hourlyRate * durationHours;
+      // Prefer the server breakdown (peak/off-peak rules); otherwise estimate locally with
+      // the daily rate capping a long day — chefs pay whichever is lower
+      const basePrice = pricePreview
+        ? pricePreview.totalPriceCents
+        : kitchenPricing.dailyRate && kitchenPricing.dailyRate < hourlyPrice
+          ? kitchenPricing.dailyRate
+          : hourlyPrice;
       // basePrice is already in cents
       
       const taxRatePercent = selectedKitchen?.taxRatePercent || 0;
@@ -701,7 +764,7 @@ export default function KitchenBookingCalendar() {
         durationHours: 0,
       });
     }
-  }, [selectedSlots, selectedKitchen, kitchenPricing]);
+  }, [selectedSlots, selectedKitchen, kitchenPricing, pricePreview]);
 
   const handleSlotClick = (slot: { time: string; available: number; capacity: number; isFullyBooked: boolean }) => {
     // Don't allow selecting fully booked slots
@@ -1537,6 +1600,16 @@ export default function KitchenBookingCalendar() {
                                     <p className="text-[10px] sm:text-xs text-green-700 mt-0.5 sm:mt-1">
                                       Duration: {selectedSlots.length} {selectedSlots.length === 1 ? 'hour' : 'hours'}
                                     </p>
+                                    {pricePreview && pricePreview.lineItems.length > 0 && (
+                                      <ul className="mt-1.5 sm:mt-2 space-y-0.5">
+                                        {pricePreview.lineItems.map((item, index) => (
+                                          <li key={index} className="flex justify-between gap-4 text-[10px] sm:text-xs text-green-800">
+                                            <span className={item.pricingRuleId ? 'font-medium' : undefined}>{item.description}</span>
+                                            <span>{formatCurrency(item.amountCents)}</span>
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    )}
                                     {estimatedPrice && (
                                       <p className="text-xs sm:text-sm font-semibold text-green-900 mt-1.5 sm:mt-2">
                                         Estimated Total: {formatCurrency(combinedSubtotal)} {kitchenPricing?.currency || 'CAD'}
@@ -10,18 +10,27 @@ import { NumericInput } from "@/components/ui/numeric-input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ManagerPageLayout } from "@/components/layout/ManagerPageLayout";
+import { KitchenPricingRulesEditor } from "@/components/manager/kitchen/KitchenPricingRulesEditor";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { apiGet, apiPut } from "@/lib/api";
 
 interface KitchenPricing {
   /** Raw input string in dollars (e.g. "15.50"). Empty string = unset. Stored as string so trailing decimals survive while typing. */
   hourlyRate: string;
+  /** Optional daily cap in dollars — a day never costs more than this. Empty string = no cap. */
+  dailyRate: string;
+  /** Optional weekly cap in dollars — seven days never cost more than this. Empty string = no cap. */
+  weeklyRate: string;
   currency: string;
   pricingModel: 'hourly' | 'daily' | 'weekly';
   /** Raw input string as a percentage (e.g. "13" or "13.5"). Empty string = unset. */
   taxRatePercent: string;
 }
 
+/** Format a cents value from the API as a 2-decimal dollar string ('' when unset). */
+const centsToDollarString = (cents: unknown): string =>
+  cents !== undefined && cents !== null ? (Number(cents) / 100).toFixed(2) : '';
+
 interface KitchenPricingManagementProps {
   embedded?: boolean;
 }
@@ -62,6 +71,8 @@ function KitchenPricingContent({
   // Pricing form state — string-based so users can type decimals freely (e.g. "5." → "5.5" → "5.50")
   const [pricing, setPricing] = useState<KitchenPricing>({
     hourlyRate: '',
+    dailyRate: '',
+    weeklyRate: '',
     currency: 'CAD',
     pricingModel: 'hourly',
     taxRatePercent: '',
@@ -87,6 +98,8 @@ function KitchenPricingContent({
         hourlyRate: data.hourlyRate !== undefined && data.hourlyRate !== null
           ? (Number(data.hourlyRate) / 100).toFixed(2)
           : '',
+        dailyRate: centsToDollarString(data.dailyRate),
+        weeklyRate: centsToDollarString(data.weeklyRate),
         currency: data.currency || 'CAD',
         pricingModel: data.pricingModel || 'hourly',
         taxRatePercent: data.taxRatePercent !== undefined && data.taxRatePercent !== null
@@ -110,6 +123,8 @@ function KitchenPricingContent({
     } else {
       setPricing({
         hourlyRate: '',
+        dailyRate: '',
+        weeklyRate: '',
         taxRatePercent: '',
         currency: 'CAD',
         pricingModel: 'hourly',
@@ -130,6 +145,8 @@ function KitchenPricingContent({
 
     // Parse string inputs into numbers for validation + payload
     const hourlyRateNum = pricing.hourlyRate.trim() === '' ? null : parseFloat(pricing.hourlyRate);
+    const dailyRateNum = pricing.dailyRate.trim() === '' ? null : parseFloat(pricing.dailyRate);
+    const weeklyRateNum = pricing.weeklyRate.trim() === '' ? null : parseFloat(pricing.weeklyRate);
     const taxRateNum = pricing.taxRatePercent.trim() === '' ? null : parseFloat(pricing.taxRatePercent);
 
     // Validate hourly rate
@@ -142,6 +159,36 @@ function KitchenPricingContent({
       return;
     }
 
+    // Validate daily / weekly caps
+    for (const [label, value] of [['Daily', dailyRateNum], ['Weekly', weeklyRateNum]] as const) {
+      if (value !== null && (isNaN(value) || value <= 0)) {
+        toast({
+          title: "Validation Error",
+          description: `${label} rate must be greater than zero or empty`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (pricing.pricingModel === 'daily' && dailyRateNum === null) {
+      toast({
+        title: "Validation Error",
+        description: "Set a daily rate to use the daily pricing model",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (pricing.pricingModel === 'weekly' && weeklyRateNum === null) {
+      toast({
+        title: "Validation Error",
+        description: "Set a weekly rate to use the weekly pricing model",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Validate tax rate
     if (taxRateNum !== null && (isNaN(taxRateNum) || taxRateNum < 0)) {
       toast({
@@ -161,6 +208,8 @@ function KitchenPricingContent({
 
       const payload = {
         hourlyRate: hourlyRateInCents,
+        dailyRate: dailyRateNum === null ? null : Math.round(dailyRateNum * 100),
+        weeklyRate: weeklyRateNum === null ? null : Math.round(weeklyRateNum * 100),
         currency: pricing.currency || 'CAD',
         pricingModel: pricing.pricingModel || 'hourly',
         taxRatePercent: taxRateNum,
@@ -177,6 +226,8 @@ function KitchenPricingContent({
         hourlyRate: updated.hourlyRate !== null && updated.hourlyRate !== undefined
           ? (Number(updated.hourlyRate) / 100).toFixed(2)
           : '',
+        dailyRate: centsToDollarString(updated.dailyRate),
+        weeklyRate: centsToDollarString(updated.weeklyRate),
         taxRatePercent: updated.taxRatePercent !== undefined && updated.taxRatePercent !== null
           ? String(Number(updated.taxRatePercent))
           : '',
@@ -224,7 +275,7 @@ function KitchenPricingContent({
             Pricing Configuration
           </CardTitle>
           <CardDescription>
-            Set hourly rates and booking requirements
+            Set hourly, daily and weekly rates and booking requirements
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -253,10 +304,7 @@ function KitchenPricingContent({
 
           {/* Hourly Rate */}
           <div>
-            <Label htmlFor="hourlyRate">
-              {pricing.pricingModel === 'hourly' ? 'Hourly Rate' :
-                pricing.pricingModel === 'daily' ? 'Daily Rate' : 'Weekly Rate'} ({pricing.currency})
-            </Label>
+            <Label htmlFor="hourlyRate">Hourly Rate ({pricing.currency})</Label>
             <CurrencyInput
               id="hourlyRate"
               value={pricing.hourlyRate}
@@ -267,15 +315,53 @@ function KitchenPricingContent({
               className="mt-2"
             />
             <p className="text-xs text-muted-foreground mt-1">
-              {pricing.pricingModel === 'hourly'
-                ? 'Amount charged per hour'
-                : pricing.pricingModel === 'daily'
-                  ? 'Amount charged per day'
-                  : 'Amount charged per week'}
+              Amount charged per hour
             </p>
 
           </div>
 
+          {/* Daily Rate */}
+          <div>
+            <Label htmlFor="dailyRate">
+              Daily Rate ({pricing.currency}){pricing.pricingModel !== 'daily' && ' — optional'}
+            </Label>
+            <CurrencyInput
+              id="dailyRate"
+              value={pricing.dailyRate}
+              onValueChange={(val) => {
+                setPricing({ ...pricing, dailyRate: val });
+              }}
+              placeholder="No daily cap"
+              className="mt-2"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {pricing.pricingModel === 'daily'
+                ? 'Flat amount charged per booked day'
+                : 'Caps the hourly total for any single day — chefs pay whichever is lower'}
+            </p>
+          </div>
+
+          {/* Weekly Rate */}
+          <div>
+            <Label htmlFor="weeklyRate">
+              Weekly Rate ({pricing.currency}){pricing.pricingModel !== 'weekly' && ' — optional'}
+            </Label>
+            <CurrencyInput
+              id="weeklyRate"
+              value={pricing.weeklyRate}
+              onValueChange={(val) => {
+                setPricing({ ...pricing, weeklyRate: val });
+              }}
+              placeholder="No weekly cap"
+              className="mt-2"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {pricing.pricingModel === 'weekly'
+                ? 'Flat amount charged per 7 consecutive days'
+                : 'Caps multi-day bookings at this amount per 7 consecutive days'}
+            </p>
+          </div>
+
           {/* Tax Rate */}
           <div>
             <Label htmlFor="taxRatePercent">Tax Rate (%)</Label>
@@ -320,6 +406,7 @@ function KitchenPricingContent({
             <AlertDescription>
               <ul className="text-xs space-y-1 mt-2 list-disc list-inside">
                 <li>Chefs will see the calculated total price before booking</li>
+                <li>Daily and weekly rates act as caps: chefs are always charged the cheapest applicable tier</li>
                 <li>Updates apply to new bookings only</li>
               </ul>
             </AlertDescription>
@@ -347,6 +434,12 @@ function KitchenPricingContent({
           </div>
         </CardContent>
       </Card>
+
+      <KitchenPricingRulesEditor
+        kitchenId={selectedKitchenId}
+        hourlyRate={pricing.hourlyRate}
+        currency={pricing.currency}
+      />
     </div>
   );
 }
@@ -28,9 +28,11 @@ import EquipmentListingManagement from "./EquipmentListingManagement";
 import KitchenDashboardOverview from "@/components/dashboard/KitchenDashboardOverview";
 import StripeConnectSetup from "@/components/manager/StripeConnectSetup";
 import { OverstayPenaltyQueue } from "@/components/manager/overstays/OverstayPenaltyQueue";
+import { KitchenOvertimeQueue } from "@/components/manager/overstays/KitchenOvertimeQueue";
 import { DamageClaimQueue } from "@/components/manager/damage-claims/DamageClaimQueue";
 import { PendingStorageCheckouts } from "@/components/manager/PendingStorageCheckouts";
 import { PendingStorageCheckins } from "@/components/manager/PendingStorageCheckins";
+import { StorageSubscriptions } from "@/components/manager/StorageSubscriptions";
 import { TodaysKitchenBookings } from "@/components/manager/TodaysKitchenBookings";
 import ManagerLocationsPage from "@/components/manager/ManagerLocationsPage";
 import ManagerRevenueDashboard from "./ManagerRevenueDashboard";
@@ -45,6 +47,9 @@ import {
   FacilityDocsSettings,
   CheckinCheckoutSettings,
   StorageCheckinCheckoutSettings,
+  WalletPackagesSettings,
+  RevenueShareSettings,
+  TaxSettings,
 } from "@/components/manager/settings";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
@@ -91,6 +96,7 @@ interface Location {
   address: string;
   cancellationPolicyHours?: number;
   cancellationPolicyMessage?: string;
+  reschedulePolicyHours?: number;
   defaultDailyBookingLimit?: number;
   notificationEmail?: string;
   notificationPhone?: string;
@@ -164,7 +170,7 @@ async function getAuthHeaders(): Promise<HeadersInit> {
 }
 
 
-type ViewType = 'my-locations' | 'overview' | 'bookings' | 'availability' | 'settings' | 'applications' | 'pricing' | 'storage-listings' | 'equipment-listings' | 'payments' | 'revenue' | 'messages' | 'profile' | 'kitchens' | 'settings-license' | 'settings-booking-rules' | 'settings-facility-docs' | 'settings-location' | 'settings-checkin-checkout' | 'settings-storage-checkin-checkout' | 'application-requirements' | 'notifications' | 'overstays' | 'damage-claims' | 'storage-checkouts';
+type ViewType = 'my-locations' | 'overview' | 'bookings' | 'availability' | 'settings' | 'applications' | 'pricing' | 'storage-listings' | 'equipment-listings' | 'payments' | 'revenue' | 'messages' | 'profile' | 'kitchens' | 'settings-license' | 'settings-booking-rules' | 'settings-facility-docs' | 'settings-location' | 'settings-checkin-checkout' | 'settings-storage-checkin-checkout' | 'application-requirements' | 'notifications' | 'overstays' | 'damage-claims' | 'storage-checkouts' | 'storage-subscriptions';
 
 
 export default function ManagerBookingDashboard() {
@@ -178,7 +184,7 @@ export default function ManagerBookingDashboard() {
   const [activeView, setActiveView] = useState<ViewType>(() => {
     const params = new URLSearchParams(window.location.search);
     const view = params.get('view');
-    const validViews: ViewType[] = ['my-locations', 'overview', 'bookings', 'availability', 'settings', 'applications', 'pricing', 'storage-listings', 'equipment-listings', 'payments', 'revenue', 'messages', 'profile', 'kitchens', 'settings-license', 'settings-booking-rules', 'settings-facility-docs', 'settings-location', 'settings-checkin-checkout', 'settings-storage-checkin-checkout', 'application-requirements', 'notifications', 'overstays', 'damage-claims', 'storage-checkouts'];
+    const validViews: ViewType[] = ['my-locations', 'overview', 'bookings', 'availability', 'settings', 'applications', 'pricing', 'storage-listings', 'equipment-listings', 'payments', 'revenue', 'messages', 'profile', 'kitchens', 'settings-license', 'settings-booking-rules', 'settings-facility-docs', 'settings-location', 'settings-checkin-checkout', 'settings-storage-checkin-checkout', 'application-requirements', 'notifications', 'overstays', 'damage-claims', 'storage-checkouts', 'storage-subscriptions'];
     // Back-compat: redirect legacy 'settings-storage-checkout' URLs to the new combined page.
     if (view === 'settings-storage-checkout') {
       return 'settings-storage-checkin-checkout';
@@ -251,7 +257,7 @@ export default function ManagerBookingDashboard() {
     const handleLocationChange = () => {
       const params = new URLSearchParams(window.location.search);
       const view = params.get('view');
-      const validViews: ViewType[] = ['my-locations', 'overview', 'bookings', 'availability', 'settings', 'applications', 'pricing', 'storage-listings', 'equipment-listings', 'payments', 'revenue', 'messages', 'profile', 'kitchens', 'settings-license', 'settings-booking-rules', 'settings-facility-docs', 'settings-location', 'settings-checkin-checkout', 'settings-storage-checkin-checkout', 'application-requirements', 'notifications', 'overstays', 'damage-claims', 'storage-checkouts'];
+      const validViews: ViewType[] = ['my-locations', 'overview', 'bookings', 'availability', 'settings', 'applications', 'pricing', 'storage-listings', 'equipment-listings', 'payments', 'revenue', 'messages', 'profile', 'kitchens', 'settings-license', 'settings-booking-rules', 'settings-facility-docs', 'settings-location', 'settings-checkin-checkout', 'settings-storage-checkin-checkout', 'application-requirements', 'notifications', 'overstays', 'damage-claims', 'storage-checkouts', 'storage-subscriptions'];
       // Back-compat: redirect legacy URL to the new combined page.
       if (view === 'settings-storage-checkout') {
         setActiveView('settings-storage-checkin-checkout');
@@ -420,18 +426,20 @@ export default function ManagerBookingDashboard() {
 
   // Update location settings mutation
   const updateLocationSettings = useMutation({
-    mutationFn: async ({ locationId, cancellationPolicyHours, cancellationPolicyMessage, defaultDailyBookingLimit, minimumBookingWindowHours, notificationEmail, notificationPhone, logoUrl, timezone }: {
+    mutationFn: async ({ locationId, cancellationPolicyHours, cancellationPolicyMessage, reschedulePolicyHours, defaultDailyBookingLimit, minimumBookingWindowHours, notificationEmail, notificationPhone, logoUrl, timezone, currency }: {
       locationId: number;
       cancellationPolicyHours?: number;
       cancellationPolicyMessage?: string;
+      reschedulePolicyHours?: number;
       defaultDailyBookingLimit?: number;
       minimumBookingWindowHours?: number;
       notificationEmail?: string;
       notificationPhone?: string;
       logoUrl?: string;
       timezone?: string;
+      currency?: string;
     }) => {
-      const payload = { cancellationPolicyHours, cancellationPolicyMessage, defaultDailyBookingLimit, minimumBookingWindowHours, notificationEmail, notificationPhone, logoUrl, timezone };
+      const payload = { cancellationPolicyHours, cancellationPolicyMessage, reschedulePolicyHours, defaultDailyBookingLimit, minimumBookingWindowHours, notificationEmail, notificationPhone, logoUrl, timezone, currency };
       logger.info('📡 Sending PUT request to:', `/api/manager/locations/${locationId}/cancellation-policy`);
       logger.info('📡 Request body:', payload);
       logger.info('📡 LogoUrl in payload:', logoUrl, 'type:', typeof logoUrl);
@@ -492,6 +500,9 @@ export default function ManagerBookingDashboard() {
       if (payload.cancellationPolicyMessage !== undefined && payload.cancellationPolicyMessage !== (currentLocation?.cancellationPolicyMessage || "Bookings cannot be cancelled within {hours} hours of the scheduled time.")) {
         changedFields.push('cancellationPolicy');
       }
+      if (payload.reschedulePolicyHours !== undefined && payload.reschedulePolicyHours !== (currentLocation?.reschedulePolicyHours ?? 24)) {
+        changedFields.push('cancellationPolicy');
+      }
       if (payload.defaultDailyBookingLimit !== undefined && payload.defaultDailyBookingLimit !== (currentLocation?.defaultDailyBookingLimit ?? 2)) {
         changedFields.push('bookingLimits');
       }
@@ -705,6 +716,7 @@ export default function ManagerBookingDashboard() {
 
       {activeView === 'overstays' && (
         <div className="space-y-6">
+          <KitchenOvertimeQueue />
           <OverstayPenaltyQueue />
         </div>
       )}
@@ -722,6 +734,12 @@ export default function ManagerBookingDashboard() {
         </div>
       )}
 
+      {activeView === 'storage-subscriptions' && (
+        <div className="space-y-6">
+          <StorageSubscriptions />
+        </div>
+      )}
+
       {activeView === 'my-locations' && (
         <ManagerLocationsPage
           locations={locations}
@@ -768,10 +786,13 @@ export default function ManagerBookingDashboard() {
       )}
 
       {activeView === 'settings-booking-rules' && selectedLocation && (
-        <BookingRulesSettings
-          location={locationDetails || selectedLocation}
-          onSave={(updates) => updateLocationSettings.mutateAsync(updates)}
-        />
+        <div className="space-y-6">
+          <BookingRulesSettings
+            location={locationDetails || selectedLocation}
+            onSave={(updates) => updateLocationSettings.mutateAsync(updates)}
+          />
+          <WalletPackagesSettings locationId={selectedLocation.id} />
+        </div>
       )}
 
       {activeView === 'settings-booking-rules' && !selectedLocation && (
@@ -797,10 +818,14 @@ export default function ManagerBookingDashboard() {
       )}
 
       {activeView === 'settings-location' && selectedLocation && (
-        <LocationSettings
-          location={locationDetails || selectedLocation}
-          onSave={(updates) => updateLocationSettings.mutateAsync(updates)}
-        />
+        <div className="space-y-6">
+          <LocationSettings
+            location={locationDetails || selectedLocation}
+            onSave={(updates) => updateLocationSettings.mutateAsync(updates)}
+          />
+          <TaxSettings locationId={selectedLocation.id} />
+          <RevenueShareSettings locationId={selectedLocation.id} />
+        </div>
       )}
 
       {activeView === 'settings-location' && !selectedLocation && (
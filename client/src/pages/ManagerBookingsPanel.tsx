@@ -6,6 +6,7 @@ import { useToast } from "@/hooks/use-toast";
 import ManagerHeader from "@/components/layout/ManagerHeader";
 import { StorageExtensionApprovals } from "@/components/manager/StorageExtensionApprovals";
 import { PendingCancellationRequests } from "@/components/manager/PendingCancellationRequests";
+import { PendingBookingSeries } from "@/components/manager/PendingBookingSeries";
 import {
   BookingActionSheet,
   type BookingForAction,
@@ -38,6 +39,7 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { CurrencyInput } from "@/components/ui/currency-input";
 import { DEFAULT_TIMEZONE, isBookingUpcoming, isBookingPast, createBookingDateTime, getNowInTimezone } from "@/utils/timezone-utils";
 import { useManagerDashboard } from "@/hooks/use-manager-dashboard";
@@ -88,6 +90,7 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
   const [searchQuery, setSearchQuery] = useState('');
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
+  const [cancelFollowingInSeries, setCancelFollowingInSeries] = useState(false);
   const [refundDialogOpen, setRefundDialogOpen] = useState(false);
   const [bookingToRefund, setBookingToRefund] = useState<Booking | null>(null);
   const [refundAmount, setRefundAmount] = useState<string>('');
@@ -105,7 +108,7 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
   const hasApprovedLicense = locations.some((loc: any) => loc.kitchenLicenseStatus === 'approved');
 
   // Fetch all bookings for this manager with real-time polling
-  const { data: bookings = [], isLoading, error: bookingsError } = useQuery({
+  const { data: bookings = [], isLoading, error: bookingsError } = useQuery<Booking[]>({
     queryKey: ['managerBookings'],
     queryFn: async () => {
       try {
@@ -371,6 +374,18 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
   };
 
   const handleCancelConfirm = () => {
+    if (bookingToCancel?.seriesId) {
+      // Series occurrences share one payment — cancel through the series endpoint
+      seriesCancelMutation.mutate({
+        seriesId: bookingToCancel.seriesId,
+        fromBookingId: bookingToCancel.id,
+        scope: cancelFollowingInSeries ? 'this_and_following' : 'this',
+      });
+      setCancelDialogOpen(false);
+      setBookingToCancel(null);
+      setCancelFollowingInSeries(false);
+      return;
+    }
     if (bookingToCancel) {
       updateStatusMutation.mutate({ bookingId: bookingToCancel.id, status: 'cancelled' });
       setCancelDialogOpen(false);
@@ -405,6 +420,7 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
   const handleCancelDialogClose = () => {
     setCancelDialogOpen(false);
     setBookingToCancel(null);
+    setCancelFollowingInSeries(false);
   };
 
   // Refund mutation
@@ -528,6 +544,71 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
     cancellationRequestMutation.mutate({ bookingId, action: 'decline' });
   };
 
+  // ── Recurring Series: Approve / Reject / Cancel occurrences ─────────────
+  const seriesDecisionMutation = useMutation({
+    mutationFn: async ({ seriesId, status, rejectedBookingIds }: { seriesId: number; status: 'confirmed' | 'cancelled'; rejectedBookingIds: number[] }) => {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`/api/manager/booking-series/${seriesId}/status`, {
+        method: 'PUT',
+        headers,
+        credentials: "include",
+        body: JSON.stringify({ status, rejectedBookingIds }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update booking series');
+      }
+      return response.json();
+    },
+    onSuccess: (data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['managerBookings'] });
+      toast({
+        title: status === 'confirmed' ? "Series Approved" : "Series Rejected",
+        description: data?.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const seriesCancelMutation = useMutation({
+    mutationFn: async ({ seriesId, fromBookingId, scope }: { seriesId: number; fromBookingId: number; scope: 'this' | 'this_and_following' }) => {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`/api/manager/booking-series/${seriesId}/cancel`, {
+        method: 'PUT',
+        headers,
+        credentials: "include",
+        body: JSON.stringify({ fromBookingId, scope }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to cancel series occurrences');
+      }
+      return response.json();
+    },
+    onSuccess: (_data, { scope }) => {
+      queryClient.invalidateQueries({ queryKey: ['managerBookings'] });
+      toast({
+        title: "Booking Cancelled",
+        description: scope === 'this_and_following'
+          ? "This and all following sessions in the series were cancelled."
+          : "This session was cancelled. The rest of the series is unchanged.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // ── Storage Cancellation Request: Accept / Decline ─────────────────────
   const storageCancellationMutation = useMutation({
     mutationFn: async ({ storageBookingId, action }: { storageBookingId: number; action: 'accept' | 'decline' }) => {
@@ -771,7 +852,8 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
       try {
         // Timeline is the PRIMARY factor - status does NOT override timeline
         // Check if booking end time has passed - if yes, it's past (regardless of status)
-        if (isBookingPast(bookingDateStr, booking.endTime, timezone)) {
+        const bookingEndDateStr = booking.endDate ? booking.endDate.split('T')[0] : bookingDateStr;
+        if (isBookingPast(bookingDateStr, booking.endTime, timezone, bookingEndDateStr)) {
           past.push(booking);
         }
         // Check if booking start time is in the future - if yes, it's upcoming
@@ -781,7 +863,7 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
         // If booking is currently happening (between start and end), check more carefully
         else {
           // Booking start time has passed but end time hasn't - check if it's very recent
-          const bookingEndDateTime = createBookingDateTime(bookingDateStr, booking.endTime, timezone);
+          const bookingEndDateTime = createBookingDateTime(bookingEndDateStr, booking.endTime, timezone);
           const now = getNowInTimezone(timezone);
 
           // If end time is very close (within 1 hour), it might have just ended - use end time to decide
@@ -1020,6 +1102,13 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
                     });
                     return;
                   }
+                  if (booking.seriesId && booking.status === 'pending') {
+                    toast({
+                      title: "Recurring Series",
+                      description: "This session is part of a recurring series. Approve or reject it from Recurring Booking Requests below.",
+                    });
+                    return;
+                  }
                   handleTakeAction(booking as any);
                 },
                 onManageBooking: (booking) => handleManageBooking(booking as any),
@@ -1035,10 +1124,17 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
           </div>
         )}
 
+        {/* Recurring series awaiting a single approve/reject decision */}
+        <PendingBookingSeries
+          bookings={bookings}
+          onDecision={(params) => seriesDecisionMutation.mutate(params)}
+          isProcessing={seriesDecisionMutation.isPending}
+        />
+
         {/* Cancellation Requests + Storage Extensions — side-by-side below bookings */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-8">
           <PendingCancellationRequests
-            bookings={bookings as any}
+            bookings={bookings}
             onAcceptKitchenCancellation={handleAcceptKitchenCancellationById}
             onDeclineKitchenCancellation={handleDeclineKitchenCancellationById}
             onAcceptStorageCancellation={handleAcceptStorageCancellation}
@@ -1124,6 +1220,18 @@ export default function ManagerBookingsPanel({ embedded = false }: ManagerBookin
                     </div>
                   </div>
                 )}
+                {bookingToCancel?.seriesId && (
+                  <div className="flex items-center gap-2 pt-1">
+                    <Checkbox
+                      id="cancel-following-in-series"
+                      checked={cancelFollowingInSeries}
+                      onCheckedChange={(checked) => setCancelFollowingInSeries(checked === true)}
+                    />
+                    <Label htmlFor="cancel-following-in-series" className="text-sm font-normal">
+                      Also cancel all following sessions in this recurring series
+                    </Label>
+                  </div>
+                )}
                 <p className="text-muted-foreground mt-3">
                   The chef will be notified via email.
                 </p>
@@ -39,15 +39,20 @@ import {
   downloadInvoice,
   downloadPayoutStatement,
   refundTransaction,
+  refundTransactionLineItems,
+  downloadCreditNote,
   getDefaultDateRange,
   type DateRange,
   type LocationOption,
   type PaymentStatus,
   type Transaction,
+  type LineItemRefundSelection,
 } from "@/components/manager/revenue"
 
 import { RevenueMetricCards } from "@/components/manager/revenue/components/RevenueMetricCards"
 import { TransactionTable } from "@/components/manager/revenue/components/TransactionTable"
+import { TaxReportCard } from "@/components/manager/revenue/components/TaxReportCard"
+import { AccountingExportMenu } from "@/components/manager/revenue/components/AccountingExportMenu"
 import { DateRangePicker } from "@/components/manager/revenue/components/DateRangePicker"
 import {
   RevenueTrendChart,
@@ -185,7 +190,7 @@ export default function ManagerRevenueDashboard({
     }
   }, [toast])
 
-  const handleRefundTransaction = useCallback(async (transaction: Transaction, amountCents: number, reason?: string) => {
+  const handleRefundTransaction = useCallback(async (transaction: Transaction, amountCents: number, reason?: string, refundTo?: 'card' | 'wallet') => {
     if (!transaction?.transactionId) {
       toast({
         title: "Refund Failed",
@@ -200,11 +205,14 @@ export default function ManagerRevenueDashboard({
         transactionId: transaction.transactionId,
         amountCents,
         reason,
+        refundTo,
       })
 
       toast({
         title: "Refund Initiated",
-        description: "The refund was submitted successfully.",
+        description: refundTo === 'wallet'
+          ? "The amount was added to the chef's wallet as credit."
+          : "The refund was submitted successfully.",
       })
 
       // Refresh revenue data after refund
@@ -221,6 +229,44 @@ export default function ManagerRevenueDashboard({
     }
   }, [queryClient, toast])
 
+  const handleRefundLineItems = useCallback(async (transaction: Transaction, items: LineItemRefundSelection[], reason?: string, refundTo?: 'card' | 'wallet') => {
+    if (!transaction?.transactionId) {
+      throw new Error("Missing transaction ID for this booking.")
+    }
+
+    try {
+      const { creditNote } = await refundTransactionLineItems({
+        transactionId: transaction.transactionId,
+        items,
+        reason,
+        refundTo,
+      })
+
+      toast({
+        title: "Refund Initiated",
+        description: `Credit note ${creditNote.creditNoteNumber} was issued and is downloading.`,
+      })
+      downloadCreditNote(creditNote).catch(() => {
+        toast({
+          title: "Download Failed",
+          description: "The refund went through, but the credit note could not be downloaded.",
+          variant: "destructive",
+        })
+      })
+
+      queryClient.invalidateQueries({ queryKey: ['/api/manager/revenue/transactions'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/manager/revenue/overview'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/manager/revenue/charts'] })
+    } catch (error) {
+      toast({
+        title: "Refund Failed",
+        description: error instanceof Error ? error.message : "Unable to process refund. Please try again.",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }, [queryClient, toast])
+
   const handleNavigateToPayments = useCallback(() => {
     if (onNavigate) {
       onNavigate("payments")
@@ -252,6 +298,9 @@ export default function ManagerRevenueDashboard({
             onDateRangeChange={setDateRange}
           />
 
+          {/* Journal entries for bookkeepers */}
+          <AccountingExportMenu dateRange={dateRange} />
+
           {/* Location Filter */}
           {locations.length > 1 && (
             <Select
@@ -312,8 +361,12 @@ export default function ManagerRevenueDashboard({
         isLoading={isLoadingTransactions}
         onDownloadInvoice={handleDownloadInvoice}
         onRefundTransaction={handleRefundTransaction}
+        onRefundLineItems={handleRefundLineItems}
       />
 
+      {/* Sales Tax Collected */}
+      <TaxReportCard />
+
       {/* Recent Invoices */}
       {invoices.length > 0 && (
         <Card>
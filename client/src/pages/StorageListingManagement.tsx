@@ -82,6 +82,7 @@ interface StorageListing {
   name: string;
   description?: string;
   basePrice: number; // Daily rate in dollars (converted from cents)
+  monthlySubscriptionPrice?: number | null; // Monthly subscription rate in dollars; null = not offered
   totalVolume?: number; // Cubic feet
   accessType?: string;
   temperatureRange?: string;
@@ -250,6 +251,7 @@ function StorageListingContent({
       const mappedData = Array.isArray(data) ? data.map((item: any) => ({
         ...item,
         basePrice: item.basePrice ? item.basePrice / 100 : 0,
+        monthlySubscriptionPrice: item.monthlySubscriptionPrice ? item.monthlySubscriptionPrice / 100 : null,
       })) : [];
       setListings(mappedData);
     } catch (error: any) {
@@ -419,6 +421,9 @@ function StorageListingContent({
       await apiPut(`/manager/storage-listings/${editingListing.id}`, {
         ...editingListing,
         basePrice: Math.round((editingListing.basePrice || 0) * 100), // Convert to cents
+        monthlySubscriptionPrice: editingListing.monthlySubscriptionPrice
+          ? Math.round(editingListing.monthlySubscriptionPrice * 100)
+          : null,
       });
       toast({ title: "Success", description: "Storage listing updated successfully" });
       setEditDialogOpen(false);
@@ -528,6 +533,7 @@ function StorageListingContent({
                             {listing.totalVolume && <><span>•</span><span>{listing.totalVolume} cu ft</span></>}
                             <span>•</span>
                             <span className="font-medium text-blue-600">${(listing.basePrice || 0).toFixed(2)}/day</span>
+                            {listing.monthlySubscriptionPrice && <><span>•</span><span>${listing.monthlySubscriptionPrice.toFixed(2)}/month subscription</span></>}
                             {listing.minimumBookingDuration && listing.minimumBookingDuration > 1 && <><span>•</span><span>Min {listing.minimumBookingDuration} days</span></>}
                           </div>
                         </div>
@@ -963,6 +969,26 @@ function StorageListingContent({
                     )}
                   </div>
 
+                  {/* Monthly Subscription */}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Monthly Subscription Rate ($, optional)</Label>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                      <Input 
+                        type="number" 
+                        step="0.01" 
+                        min="0" 
+                        value={editingListing.monthlySubscriptionPrice || ''} 
+                        onChange={(e) => setEditingListing({ ...editingListing, monthlySubscriptionPrice: parseFloat(e.target.value) || null })}
+                        className="pl-10"
+                        placeholder="Not offered"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Lets chefs with a confirmed booking switch to storage that renews on the 1st of each month, charged to their saved card.
+                    </p>
+                  </div>
+
                   {/* Description */}
                   <div className="space-y-2">
                     <Label className="text-sm font-medium">Description</Label>
@@ -104,10 +104,11 @@ export function isBookingTimePast(bookingDate: string, bookingTime: string, time
 
 /**
  * Check if booking is currently active
+ * (endDate is the day endTime falls on for overnight bookings)
  */
-export function isBookingActive(bookingDate: string, startTime: string, endTime: string, timezone: string = DEFAULT_TIMEZONE): boolean {
+export function isBookingActive(bookingDate: string, startTime: string, endTime: string, timezone: string = DEFAULT_TIMEZONE, endDate?: string | null): boolean {
   const startDateTime = createBookingDateTime(bookingDate, startTime, timezone);
-  const endDateTime = createBookingDateTime(bookingDate, endTime, timezone);
+  const endDateTime = createBookingDateTime(endDate || bookingDate, endTime, timezone);
   const now = getNowInTimezone(timezone);
   
   return now >= startDateTime && now <= endDateTime;
@@ -124,9 +125,10 @@ export function isBookingUpcoming(bookingDate: string, startTime: string, timezo
 
 /**
  * Check if booking is past
+ * (endDate is the day endTime falls on for overnight bookings)
  */
-export function isBookingPast(bookingDate: string, endTime: string, timezone: string = DEFAULT_TIMEZONE): boolean {
-  const endDateTime = createBookingDateTime(bookingDate, endTime, timezone);
+export function isBookingPast(bookingDate: string, endTime: string, timezone: string = DEFAULT_TIMEZONE, endDate?: string | null): boolean {
+  const endDateTime = createBookingDateTime(endDate || bookingDate, endTime, timezone);
   const now = getNowInTimezone(timezone);
   return endDateTime < now;
 }
@@ -0,0 +1,41 @@
+-- Migration: Add kitchen_booking_series table
+-- Recurring (weekly / biweekly) kitchen bookings. Each occurrence is a regular
+-- kitchen_bookings row linked back to its series via series_id.
+
+CREATE TABLE IF NOT EXISTS kitchen_booking_series (
+    id SERIAL PRIMARY KEY,
+    reference_code TEXT UNIQUE,
+    chef_id INTEGER NOT NULL REFERENCES users(id),
+    kitchen_id INTEGER NOT NULL REFERENCES kitchens(id),
+    frequency TEXT NOT NULL,
+    days_of_week JSONB NOT NULL DEFAULT '[]'::jsonb,
+    start_date TIMESTAMP NOT NULL,
+    until_date TIMESTAMP,
+    occurrence_count INTEGER,
+    excluded_dates JSONB DEFAULT '[]'::jsonb,
+    start_time TEXT NOT NULL,
+    end_time TEXT NOT NULL,
+    selected_slots JSONB DEFAULT '[]'::jsonb,
+    status TEXT NOT NULL DEFAULT 'active',
+    payment_intent_id TEXT,
+    per_occurrence_price_cents NUMERIC,
+    currency TEXT NOT NULL DEFAULT 'CAD',
+    special_notes TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE kitchen_bookings ADD COLUMN IF NOT EXISTS series_id INTEGER REFERENCES kitchen_booking_series(id) ON DELETE SET NULL;
+ALTER TABLE kitchen_bookings ADD COLUMN IF NOT EXISTS series_occurrence_index INTEGER;
+
+-- Index for loading all occurrences of a series
+CREATE INDEX IF NOT EXISTS idx_kitchen_bookings_series_id
+ON kitchen_bookings(series_id);
+
+-- Index for idempotent webhook lookups by PaymentIntent
+CREATE INDEX IF NOT EXISTS idx_kitchen_booking_series_payment_intent_id
+ON kitchen_booking_series(payment_intent_id);
+
+COMMENT ON COLUMN kitchen_booking_series.frequency IS 'Recurrence frequency: weekly or biweekly';
+COMMENT ON COLUMN kitchen_booking_series.excluded_dates IS 'YYYY-MM-DD dates the chef skipped at checkout';
+COMMENT ON COLUMN kitchen_bookings.series_id IS 'Recurring series this occurrence belongs to (NULL for one-off bookings)';
@@ -0,0 +1,15 @@
+-- Migration: Add daily and weekly kitchen rates
+-- kitchens.pricing_model already accepted 'daily' and 'weekly' but only hourly_rate
+-- existed. Rates are stored in cents like hourly_rate. When set, they also act as
+-- caps: an hourly booking never costs more than the daily rate, and a multi-day
+-- booking never costs more than the weekly rate per 7 days.
+
+ALTER TABLE kitchens ADD COLUMN IF NOT EXISTS daily_rate NUMERIC;
+ALTER TABLE kitchens ADD COLUMN IF NOT EXISTS weekly_rate NUMERIC;
+
+-- Rate tiers applied to a booking's kitchen time (itemized on invoices)
+ALTER TABLE kitchen_bookings ADD COLUMN IF NOT EXISTS pricing_breakdown JSONB;
+
+COMMENT ON COLUMN kitchens.daily_rate IS 'Full-day rate in cents; caps hourly bookings';
+COMMENT ON COLUMN kitchens.weekly_rate IS '7-day rate in cents; caps multi-day bookings';
+COMMENT ON COLUMN kitchen_bookings.pricing_breakdown IS 'Kitchen-time line items: [{tier, description, quantity, unitRateCents, amountCents}]';
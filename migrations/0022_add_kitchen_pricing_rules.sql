@@ -0,0 +1,30 @@
+-- Migration: Add kitchen_pricing_rules table
+-- Peak / off-peak pricing. Each rule targets days of the week and a time window,
+-- optionally bounded by a date range, and either multiplies the kitchen's hourly
+-- rate or replaces it with a fixed hourly rate. Bookings are priced slot-by-slot.
+
+CREATE TABLE IF NOT EXISTS kitchen_pricing_rules (
+    id SERIAL PRIMARY KEY,
+    kitchen_id INTEGER NOT NULL REFERENCES kitchens(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    days_of_week JSONB NOT NULL DEFAULT '[]'::jsonb,
+    start_time TEXT NOT NULL,
+    end_time TEXT NOT NULL,
+    adjustment_type TEXT NOT NULL,
+    multiplier NUMERIC,
+    fixed_rate NUMERIC,
+    valid_from DATE,
+    valid_until DATE,
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Index for loading a kitchen's rules at pricing time
+CREATE INDEX IF NOT EXISTS idx_kitchen_pricing_rules_kitchen_id
+ON kitchen_pricing_rules(kitchen_id);
+
+COMMENT ON COLUMN kitchen_pricing_rules.adjustment_type IS 'multiplier (× hourly_rate) or fixed_rate (cents per hour)';
+COMMENT ON COLUMN kitchen_pricing_rules.fixed_rate IS 'Replacement hourly rate in cents when adjustment_type = fixed_rate';
+COMMENT ON COLUMN kitchen_pricing_rules.priority IS 'Highest priority wins when several rules match the same slot';
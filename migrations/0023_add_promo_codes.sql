@@ -0,0 +1,59 @@
+-- Migration: Add promo_codes and promo_code_redemptions tables
+-- Promo codes redeemable at kitchen booking checkout. A code is platform-wide
+-- (location_id NULL) or limited to one location, and either the platform or the
+-- location's manager funds the discount.
+-- Checkout reserves a use with a pending redemption for its Stripe session, so
+-- concurrent checkouts can't overshoot max_redemptions / per_chef_limit. The
+-- webhook completes it; an abandoned checkout's reservation is released.
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    description TEXT,
+    discount_type TEXT NOT NULL,
+    discount_value NUMERIC NOT NULL,
+    max_discount_cents INTEGER,
+    min_subtotal_cents INTEGER,
+    location_id INTEGER REFERENCES locations(id) ON DELETE CASCADE,
+    absorbed_by TEXT NOT NULL DEFAULT 'platform',
+    max_redemptions INTEGER,
+    per_chef_limit INTEGER,
+    starts_at TIMESTAMP,
+    expires_at TIMESTAMP,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+    id SERIAL PRIMARY KEY,
+    promo_code_id INTEGER REFERENCES promo_codes(id) ON DELETE SET NULL,
+    code TEXT NOT NULL,
+    chef_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    booking_id INTEGER REFERENCES kitchen_bookings(id) ON DELETE SET NULL,
+    payment_intent_id TEXT UNIQUE,
+    discount_cents INTEGER NOT NULL,
+    absorbed_by TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'completed',
+    checkout_session_id TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for usage-cap checks at checkout
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_promo_code_id
+ON promo_code_redemptions(promo_code_id);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_chef_id
+ON promo_code_redemptions(chef_id);
+
+-- Index for releasing abandoned reservations
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_pending
+ON promo_code_redemptions(created_at)
+WHERE status = 'pending';
+
+COMMENT ON COLUMN promo_codes.discount_value IS 'Percent off (discount_type = percent) or cents off (discount_type = fixed)';
+COMMENT ON COLUMN promo_codes.location_id IS 'NULL = redeemable at every location';
+COMMENT ON COLUMN promo_codes.absorbed_by IS 'platform: manager is paid the pre-discount price; manager: manager is paid the discounted price';
+COMMENT ON COLUMN promo_code_redemptions.status IS 'pending: reserved by a checkout session; completed: booking paid; released: checkout abandoned (does not count toward limits)';
@@ -0,0 +1,42 @@
+-- Migration: Add kitchen_waitlist_entries table
+-- Chefs register interest in a fully booked kitchen/date/time range. When a
+-- booking is cancelled or its authorization expires, the next chef in line is
+-- offered a time-limited hold on the freed slot.
+
+CREATE TABLE IF NOT EXISTS kitchen_waitlist_entries (
+    id SERIAL PRIMARY KEY,
+    kitchen_id INTEGER NOT NULL REFERENCES kitchens(id) ON DELETE CASCADE,
+    chef_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    booking_date TIMESTAMP NOT NULL,
+    start_time TEXT NOT NULL,
+    end_time TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'waiting',
+    offered_at TIMESTAMP,
+    hold_expires_at TIMESTAMP,
+    claimed_booking_id INTEGER REFERENCES kitchen_bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Queue lookups when a slot frees up, and hold expiry sweeps
+CREATE INDEX IF NOT EXISTS idx_kitchen_waitlist_entries_kitchen_date
+ON kitchen_waitlist_entries(kitchen_id, booking_date, status);
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_waitlist_entries_chef_id
+ON kitchen_waitlist_entries(chef_id);
+
+COMMENT ON TABLE kitchen_waitlist_entries IS 'Chefs waiting for a fully booked kitchen time range; offered a time-limited hold when it frees up';
+COMMENT ON COLUMN kitchen_waitlist_entries.status IS 'waiting, offered, claimed, expired or cancelled';
+COMMENT ON COLUMN kitchen_waitlist_entries.hold_expires_at IS 'While status is offered, the freed slot is reserved for this chef until this time';
+
+-- In-app notification type for hold offers
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'waitlist_slot_offered'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'chef_notification_type')
+  ) THEN
+    ALTER TYPE chef_notification_type ADD VALUE 'waitlist_slot_offered';
+  END IF;
+END $$;
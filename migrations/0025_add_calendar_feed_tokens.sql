@@ -0,0 +1,14 @@
+-- Migration: Add calendar_feed_tokens table
+-- One secret token per user for the subscribable iCalendar (ICS) feed of their
+-- kitchen bookings, storage bookings and check-in windows.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    last_accessed_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret tokens for per-user ICS calendar feeds';
+COMMENT ON COLUMN calendar_feed_tokens.token IS 'Only credential for the feed URL; regenerating it revokes existing subscriptions';
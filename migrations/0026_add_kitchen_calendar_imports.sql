@@ -0,0 +1,58 @@
+-- Migration: Add external calendar imports for kitchens
+-- Managers subscribe a kitchen to an ICS URL (or upload an .ics file). Timed
+-- events become manager_blocked kitchen bookings, all-day events become closed
+-- kitchen_date_overrides. The daily cron re-syncs every active import.
+
+CREATE TABLE IF NOT EXISTS kitchen_calendar_imports (
+    id SERIAL PRIMARY KEY,
+    kitchen_id INTEGER NOT NULL REFERENCES kitchens(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    source_url TEXT,
+    file_name TEXT,
+    ics_content TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_synced_at TIMESTAMP,
+    last_sync_status TEXT,
+    last_sync_error TEXT,
+    last_sync_summary JSONB,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_calendar_imports_kitchen ON kitchen_calendar_imports(kitchen_id);
+
+CREATE TABLE IF NOT EXISTS kitchen_calendar_import_events (
+    id SERIAL PRIMARY KEY,
+    import_id INTEGER NOT NULL REFERENCES kitchen_calendar_imports(id) ON DELETE CASCADE,
+    event_uid TEXT NOT NULL,
+    occurrence_date TEXT NOT NULL,
+    start_time TEXT,
+    end_time TEXT,
+    summary TEXT,
+    kitchen_booking_id INTEGER REFERENCES kitchen_bookings(id) ON DELETE SET NULL,
+    date_override_id INTEGER REFERENCES kitchen_date_overrides(id) ON DELETE SET NULL,
+    conflict_booking_ids JSONB DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kitchen_calendar_import_events_occurrence
+    ON kitchen_calendar_import_events(import_id, event_uid, occurrence_date);
+
+COMMENT ON TABLE kitchen_calendar_imports IS 'External ICS calendars whose events block kitchen availability';
+COMMENT ON COLUMN kitchen_calendar_imports.ics_content IS 'Contents of an uploaded .ics file; null for URL subscriptions';
+COMMENT ON TABLE kitchen_calendar_import_events IS 'Imported event occurrences (one per local day) and the booking or date override created for each';
+COMMENT ON COLUMN kitchen_calendar_import_events.conflict_booking_ids IS 'Chef bookings the imported block overlapped at the last sync';
+
+-- In-app manager notification type for import conflicts
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'calendar_import_conflict'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'calendar_import_conflict';
+  END IF;
+END $$;
@@ -0,0 +1,9 @@
+-- Migration: Overnight and multi-day kitchen bookings
+-- A booking runs from booking_date + start_time to end_date + end_time in the
+-- location's timezone. NULL end_date keeps the existing same-day behaviour.
+
+ALTER TABLE kitchen_bookings ADD COLUMN IF NOT EXISTS end_date TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_bookings_end_date ON kitchen_bookings(kitchen_id, end_date) WHERE end_date IS NOT NULL;
+
+COMMENT ON COLUMN kitchen_bookings.end_date IS 'Day end_time falls on for bookings that span midnight; NULL = same day as booking_date';
@@ -0,0 +1,23 @@
+-- Migration: Add kitchen stations for concurrent bookings
+-- A kitchen with N active stations can host N chefs at once. Each booking
+-- records the stations it occupies; an empty list means the whole kitchen
+-- (every booking made before stations existed, and manager blocks).
+
+CREATE TABLE IF NOT EXISTS kitchen_stations (
+    id SERIAL PRIMARY KEY,
+    kitchen_id INTEGER NOT NULL REFERENCES kitchens(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_stations_kitchen ON kitchen_stations(kitchen_id);
+
+ALTER TABLE kitchen_bookings
+ADD COLUMN IF NOT EXISTS station_ids JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON TABLE kitchen_stations IS 'Bookable stations (capacity units) within a kitchen';
+COMMENT ON COLUMN kitchen_bookings.station_ids IS 'kitchen_stations ids occupied by this booking; empty = whole kitchen';
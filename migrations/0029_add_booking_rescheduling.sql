@@ -0,0 +1,25 @@
+-- Migration: Add self-service booking rescheduling
+-- Chefs can move a kitchen booking to a new time up to reschedule_policy_hours
+-- before it starts. Every move is appended to the booking's reschedule_history
+-- along with the price difference that was charged or refunded.
+
+ALTER TABLE locations
+ADD COLUMN IF NOT EXISTS reschedule_policy_hours INTEGER NOT NULL DEFAULT 24;
+
+ALTER TABLE kitchen_bookings
+ADD COLUMN IF NOT EXISTS reschedule_history JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN locations.reschedule_policy_hours IS 'Chefs cannot reschedule a booking within this many hours of its start';
+COMMENT ON COLUMN kitchen_bookings.reschedule_history IS 'Chef reschedules: [{fromBookingDate, fromStartTime, ..., priceDifferenceCents, refundId, paymentIntentId, rescheduledAt}]';
+
+-- In-app manager notification type for reschedules
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'booking_rescheduled'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'booking_rescheduled';
+  END IF;
+END $$;
@@ -0,0 +1,73 @@
+-- Migration: Add chef wallet (prepaid credit) and location credit packages
+-- Chefs hold credit bought as manager-defined packages, granted by admins as
+-- promotional credit, or returned by a manager as refund credit. Kitchen
+-- booking checkout draws credit down before charging the card. Money for
+-- credit stays on the platform balance until it is spent; the manager of the
+-- booked location is then paid the funded share with the booking payout.
+
+CREATE TABLE IF NOT EXISTS chef_wallet_packages (
+    id SERIAL PRIMARY KEY,
+    location_id INTEGER NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    credit_cents INTEGER NOT NULL,
+    price_cents INTEGER NOT NULL,
+    validity_days INTEGER,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS chef_wallet_entries (
+    id SERIAL PRIMARY KEY,
+    chef_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL,
+    amount_cents INTEGER NOT NULL,
+    remaining_cents INTEGER,
+    funded_cents INTEGER,
+    location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+    currency TEXT NOT NULL DEFAULT 'CAD',
+    package_id INTEGER REFERENCES chef_wallet_packages(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP,
+    status TEXT NOT NULL DEFAULT 'completed',
+    allocations JSONB,
+    booking_id INTEGER REFERENCES kitchen_bookings(id) ON DELETE SET NULL,
+    payment_intent_id TEXT,
+    checkout_session_id TEXT UNIQUE,
+    note TEXT,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chef_wallet_packages_location_id
+ON chef_wallet_packages(location_id);
+
+-- Balance reads and redemptions scan a chef's open credit lots
+CREATE INDEX IF NOT EXISTS idx_chef_wallet_entries_chef_id
+ON chef_wallet_entries(chef_id, entry_type, status);
+
+CREATE INDEX IF NOT EXISTS idx_chef_wallet_entries_booking_id
+ON chef_wallet_entries(booking_id);
+
+COMMENT ON COLUMN chef_wallet_packages.price_cents IS 'Price the chef pays; credit_cents - price_cents is funded by the manager';
+COMMENT ON COLUMN chef_wallet_packages.validity_days IS 'Credit expires this many days after purchase; NULL = never';
+COMMENT ON COLUMN chef_wallet_entries.entry_type IS 'Credits: purchase, promotional, refund_credit. Debits: redemption, expiry';
+COMMENT ON COLUMN chef_wallet_entries.funded_cents IS 'Credit lots: cash the platform holds to pay managers when the lot is spent';
+COMMENT ON COLUMN chef_wallet_entries.location_id IS 'Credit lots: only spendable at this location; NULL = any location';
+COMMENT ON COLUMN chef_wallet_entries.currency IS 'Credit lots: only spend on bookings charged in this currency';
+COMMENT ON COLUMN chef_wallet_entries.status IS 'pending: held by an open checkout; released: hold abandoned or credit returned';
+COMMENT ON COLUMN chef_wallet_entries.allocations IS 'Debits: [{entryId, amountCents, fundedCents}] drawn from each credit lot';
+
+-- Package purchases are recorded in payment_transactions with booking_type = wallet
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'wallet'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'booking_type_enum')
+  ) THEN
+    ALTER TYPE booking_type_enum ADD VALUE 'wallet';
+  END IF;
+END $$;
@@ -0,0 +1,54 @@
+-- Migration: Add monthly storage subscriptions
+-- Long-term tenants can turn a storage booking into a monthly subscription
+-- that renews on the 1st of each month, charged off-session to the payment
+-- method saved at checkout. The first period is prorated from the booking's
+-- current end date. The booking's end_date always holds the paid-through date,
+-- so overstay detection keeps working once a subscription stops renewing.
+
+ALTER TABLE storage_listings
+ADD COLUMN IF NOT EXISTS monthly_subscription_price NUMERIC;
+
+CREATE TABLE IF NOT EXISTS storage_subscriptions (
+    id SERIAL PRIMARY KEY,
+    storage_booking_id INTEGER NOT NULL REFERENCES storage_bookings(id) ON DELETE CASCADE,
+    storage_listing_id INTEGER NOT NULL REFERENCES storage_listings(id) ON DELETE CASCADE,
+    chef_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    monthly_price_cents INTEGER NOT NULL,
+    current_period_start TIMESTAMP NOT NULL,
+    current_period_end TIMESTAMP NOT NULL,
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    next_retry_at TIMESTAMP,
+    last_failure_reason TEXT,
+    last_payment_intent_id TEXT,
+    canceled_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One live subscription per storage booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_subscriptions_live_booking
+ON storage_subscriptions(storage_booking_id)
+WHERE status IN ('active', 'past_due');
+
+-- The daily renewal job scans live subscriptions by period end
+CREATE INDEX IF NOT EXISTS idx_storage_subscriptions_status_period_end
+ON storage_subscriptions(status, current_period_end);
+
+COMMENT ON COLUMN storage_listings.monthly_subscription_price IS 'Monthly subscription rate in cents; NULL = subscriptions not offered';
+COMMENT ON COLUMN storage_subscriptions.status IS 'active, past_due (renewal failed, retrying), canceled (ended at period end), unpaid (retries exhausted)';
+COMMENT ON COLUMN storage_subscriptions.current_period_end IS 'Next renewal date, always the 1st of a month; mirrors storage_bookings.end_date';
+COMMENT ON COLUMN storage_subscriptions.next_retry_at IS 'past_due only: when the failed renewal is charged again';
+
+-- In-app chef notification for failed renewals
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'storage_subscription_payment_failed'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'chef_notification_type')
+  ) THEN
+    ALTER TYPE chef_notification_type ADD VALUE 'storage_subscription_payment_failed';
+  END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- Migration: Add dunning retries for failed off-session charges
+-- Overstay penalties and damage claims used to escalate on the first failed
+-- off-session charge. They now move to charge_failed and are retried on a
+-- configurable backoff (platform setting charge_retry_backoff_hours) while the
+-- chef is emailed a card-update link. Only once retries are exhausted does the
+-- record escalate to manual collection.
+
+ALTER TABLE storage_overstay_records
+ADD COLUMN IF NOT EXISTS charge_retry_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_charge_retry_at TIMESTAMP;
+
+ALTER TABLE damage_claims
+ADD COLUMN IF NOT EXISTS charge_retry_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_charge_retry_at TIMESTAMP;
+
+-- The daily cron picks up due retries
+CREATE INDEX IF NOT EXISTS idx_storage_overstay_records_next_charge_retry
+ON storage_overstay_records (next_charge_retry_at)
+WHERE status = 'charge_failed';
+
+CREATE INDEX IF NOT EXISTS idx_damage_claims_next_charge_retry
+ON damage_claims (next_charge_retry_at)
+WHERE status = 'charge_failed';
+
+COMMENT ON COLUMN storage_overstay_records.charge_retry_count IS 'Failed off-session charge attempts so far';
+COMMENT ON COLUMN storage_overstay_records.next_charge_retry_at IS 'When the failed charge is retried; NULL when no retry is scheduled';
+COMMENT ON COLUMN damage_claims.charge_retry_count IS 'Failed off-session charge attempts so far';
+COMMENT ON COLUMN damage_claims.next_charge_retry_at IS 'When the failed charge is retried; NULL when no retry is scheduled';
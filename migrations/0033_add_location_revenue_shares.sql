@@ -0,0 +1,45 @@
+-- Migration: Add split payouts for co-managed locations
+-- A location can split its payouts between several managers, each with their
+-- own Stripe Connect account and a percentage share. Without any rows the
+-- location's manager keeps receiving 100%. Each split transfer is recorded so
+-- refund reversals can be split the same way and each partner sees their share.
+
+CREATE TABLE IF NOT EXISTS location_revenue_shares (
+    id SERIAL PRIMARY KEY,
+    location_id INTEGER NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    recipient_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    share_percent NUMERIC(5, 2) NOT NULL,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE (location_id, recipient_user_id)
+);
+
+CREATE TABLE IF NOT EXISTS payment_transfer_splits (
+    id SERIAL PRIMARY KEY,
+    payment_transaction_id INTEGER NOT NULL REFERENCES payment_transactions(id) ON DELETE CASCADE,
+    location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+    recipient_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    connect_account_id TEXT NOT NULL,
+    share_percent NUMERIC(5, 2) NOT NULL,
+    transfer_kind TEXT NOT NULL DEFAULT 'booking',
+    amount_cents INTEGER NOT NULL,
+    reversed_cents INTEGER NOT NULL DEFAULT 0,
+    transfer_id TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_revenue_shares_recipient
+ON location_revenue_shares(recipient_user_id);
+
+-- Refund reversals look up every split of a transaction
+CREATE INDEX IF NOT EXISTS idx_payment_transfer_splits_transaction
+ON payment_transfer_splits(payment_transaction_id, transfer_kind);
+
+-- Revenue overview and payout statements read a partner's own splits
+CREATE INDEX IF NOT EXISTS idx_payment_transfer_splits_recipient
+ON payment_transfer_splits(recipient_user_id, created_at);
+
+COMMENT ON TABLE location_revenue_shares IS 'Payout split between co-managers of a location; shares sum to 100';
+COMMENT ON COLUMN payment_transfer_splits.transfer_kind IS 'booking, promo_top_up or wallet_top_up';
+COMMENT ON COLUMN payment_transfer_splits.reversed_cents IS 'Amount reversed from this transfer by refunds so far';
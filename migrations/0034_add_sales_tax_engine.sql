@@ -0,0 +1,31 @@
+-- Migration: Add jurisdiction-aware sales tax
+-- Canadian sales tax depends on the province the kitchen is in (GST, HST, PST,
+-- QST or RST). Each location's province is derived from its address unless the
+-- manager sets it explicitly, and its GST/HST and PST registration numbers are
+-- printed on invoices. Every payment records the tax it collected, split by
+-- tax type, for the quarterly tax-collected report.
+
+ALTER TABLE locations
+    ADD COLUMN IF NOT EXISTS tax_province TEXT,
+    ADD COLUMN IF NOT EXISTS gst_hst_number TEXT,
+    ADD COLUMN IF NOT EXISTS pst_number TEXT;
+
+ALTER TABLE payment_transactions
+    ADD COLUMN IF NOT EXISTS tax_cents INTEGER,
+    ADD COLUMN IF NOT EXISTS tax_breakdown JSONB;
+
+-- Storage subscription and overstay penalty charges already kept their tax in metadata
+UPDATE payment_transactions
+SET tax_cents = COALESCE(metadata->>'tax_cents', metadata->>'penalty_tax_cents')::INTEGER
+WHERE tax_cents IS NULL
+  AND COALESCE(metadata->>'tax_cents', metadata->>'penalty_tax_cents') ~ '^[0-9]+$';
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_tax_collected
+    ON payment_transactions (manager_id, paid_at)
+    WHERE tax_cents > 0;
+
+COMMENT ON COLUMN locations.tax_province IS 'Two-letter province or territory code used for sales tax; NULL = derive from the address';
+COMMENT ON COLUMN locations.gst_hst_number IS 'GST/HST registration number shown on invoices (e.g. 123456789 RT 0001)';
+COMMENT ON COLUMN locations.pst_number IS 'Provincial sales tax (PST/QST/RST) registration number shown on invoices';
+COMMENT ON COLUMN payment_transactions.tax_cents IS 'Sales tax included in amount, in cents; NULL = not recorded';
+COMMENT ON COLUMN payment_transactions.tax_breakdown IS 'Tax split by type (GST, HST, PST, QST, RST) and the jurisdiction it was charged in';
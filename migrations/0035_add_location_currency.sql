@@ -0,0 +1,26 @@
+-- Migration: Add per-location currency
+-- Locations outside Canada charge in their own currency. Kitchens, storage and
+-- equipment listings inherit the currency of their location, and bookings and
+-- payment transactions keep the currency they were charged in.
+
+ALTER TABLE locations
+    ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'CAD';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'locations_currency_check'
+    ) THEN
+        ALTER TABLE locations
+            ADD CONSTRAINT locations_currency_check CHECK (currency IN ('CAD', 'USD'));
+    END IF;
+END $$;
+
+-- Normalize any lower-case codes written by older code paths
+UPDATE payment_transactions SET currency = UPPER(currency) WHERE currency <> UPPER(currency);
+
+-- Revenue is aggregated per manager and currency
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_manager_currency
+    ON payment_transactions (manager_id, currency);
+
+COMMENT ON COLUMN locations.currency IS 'ISO 4217 currency (CAD or USD) this location charges in; inherited by its kitchens and listings';
@@ -0,0 +1,41 @@
+-- Migration: Add Stripe reconciliation issues
+-- The reconciliation job walks Stripe balance transactions and matches them to
+-- payment_transactions. Each discrepancy (no ledger row, amounts that differ,
+-- refunds the ledger never recorded, transfers without a booking) is stored so
+-- admins can review it and apply a fix or dismiss it.
+
+CREATE TABLE IF NOT EXISTS stripe_reconciliation_issues (
+    id SERIAL PRIMARY KEY,
+    issue_type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    balance_transaction_id TEXT NOT NULL,
+    stripe_object_id TEXT NOT NULL,
+    payment_intent_id TEXT,
+    payment_transaction_id INTEGER REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    stripe_amount_cents INTEGER,
+    ledger_amount_cents INTEGER,
+    currency TEXT NOT NULL DEFAULT 'CAD',
+    details JSONB DEFAULT '{}',
+    stripe_created_at TIMESTAMP NOT NULL,
+    detected_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMP,
+    resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    resolution TEXT,
+    UNIQUE (balance_transaction_id, issue_type),
+    CONSTRAINT stripe_reconciliation_issues_type_check CHECK (
+        issue_type IN ('missing_transaction', 'amount_mismatch', 'orphaned_refund', 'transfer_without_booking')
+    ),
+    CONSTRAINT stripe_reconciliation_issues_status_check CHECK (status IN ('open', 'fixed', 'dismissed'))
+);
+
+-- The admin report lists open issues newest first
+CREATE INDEX IF NOT EXISTS idx_stripe_reconciliation_issues_status
+ON stripe_reconciliation_issues(status, stripe_created_at DESC);
+
+-- Transfers are matched by their Stripe ID
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_transfer_id
+ON payment_transactions(transfer_id) WHERE transfer_id IS NOT NULL;
+
+COMMENT ON TABLE stripe_reconciliation_issues IS 'Differences between Stripe balance transactions and the payment ledger';
+COMMENT ON COLUMN stripe_reconciliation_issues.resolved_by IS 'Admin who fixed or dismissed the issue; null when a later run found it resolved';
@@ -0,0 +1,37 @@
+-- Migration: Add security deposits
+-- Rental equipment deposits were added to booking totals. They are now held
+-- on the chef's saved card as a separate PaymentIntent once the manager
+-- confirms the booking: a manual-capture authorization when the deposit can
+-- be released before the authorization lapses, otherwise captured and
+-- refunded on release. An approved damage claim keeps part of the deposit.
+
+CREATE TABLE IF NOT EXISTS security_deposits (
+    id SERIAL PRIMARY KEY,
+    kitchen_booking_id INTEGER NOT NULL UNIQUE REFERENCES kitchen_bookings(id) ON DELETE CASCADE,
+    chef_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    amount_cents INTEGER NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'CAD',
+    hold_method TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'held',
+    stripe_payment_intent_id TEXT UNIQUE,
+    stripe_charge_id TEXT,
+    stripe_refund_id TEXT,
+    applied_cents INTEGER NOT NULL DEFAULT 0,
+    damage_claim_id INTEGER REFERENCES damage_claims(id) ON DELETE SET NULL,
+    held_at TIMESTAMP,
+    authorization_expires_at TIMESTAMP,
+    released_at TIMESTAMP,
+    failure_reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT security_deposits_hold_method_check CHECK (hold_method IN ('authorization', 'capture')),
+    CONSTRAINT security_deposits_status_check CHECK (status IN ('held', 'released', 'applied', 'failed', 'expired')),
+    CONSTRAINT security_deposits_applied_check CHECK (applied_cents >= 0 AND applied_cents <= amount_cents)
+);
+
+-- The daily sweep walks deposits that are still held
+CREATE INDEX IF NOT EXISTS idx_security_deposits_held
+ON security_deposits(status) WHERE status = 'held';
+
+COMMENT ON TABLE security_deposits IS 'Refundable rental equipment deposits held on the chef''s card per kitchen booking';
+COMMENT ON COLUMN security_deposits.applied_cents IS 'Part of the deposit kept to pay an approved damage claim (tax included)';
@@ -0,0 +1,40 @@
+-- Migration: Add line-item refunds and credit notes
+-- Managers can refund a single equipment rental or some storage days from a
+-- bundle payment instead of an amount off the whole transaction. Each
+-- refunded booking row tracks what was refunded, and every line-item refund
+-- issues a credit note.
+
+ALTER TABLE storage_bookings
+ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC DEFAULT 0,
+ADD COLUMN IF NOT EXISTS refunded_days INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE equipment_bookings
+ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+    id SERIAL PRIMARY KEY,
+    payment_transaction_id INTEGER NOT NULL REFERENCES payment_transactions(id) ON DELETE CASCADE,
+    manager_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    chef_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    location_id INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+    refunded_to TEXT NOT NULL DEFAULT 'card',
+    stripe_refund_id TEXT,
+    transfer_reversal_id TEXT,
+    currency TEXT NOT NULL DEFAULT 'CAD',
+    subtotal_cents INTEGER NOT NULL,
+    tax_cents INTEGER NOT NULL,
+    total_cents INTEGER NOT NULL,
+    line_items JSONB NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT credit_notes_refunded_to_check CHECK (refunded_to IN ('card', 'wallet')),
+    CONSTRAINT credit_notes_total_check CHECK (total_cents > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_payment_transaction
+ON credit_notes(payment_transaction_id);
+
+COMMENT ON COLUMN storage_bookings.refunded_amount IS 'Refunded by line item in cents, tax included';
+COMMENT ON COLUMN storage_bookings.refunded_days IS 'Storage days refunded by line item';
+COMMENT ON COLUMN equipment_bookings.refunded_amount IS 'Refunded by line item in cents, tax included';
+COMMENT ON TABLE credit_notes IS 'Credit notes issued for line-item refunds on booking payments';
@@ -0,0 +1,63 @@
+-- Migration: Add kitchen overtime billing
+-- Chefs who check out after the booked end time plus the location's overtime
+-- grace period are proposed an overtime charge at the kitchen's hourly rate.
+-- The manager approves, adjusts or waives it before the saved card is
+-- charged off-session.
+
+-- Location override for the grace period (null = platform setting
+-- kitchen_overtime_grace_minutes, 15 when unset)
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS overtime_grace_minutes INTEGER;
+
+CREATE TABLE IF NOT EXISTS kitchen_overtime_records (
+    id SERIAL PRIMARY KEY,
+    kitchen_booking_id INTEGER NOT NULL UNIQUE REFERENCES kitchen_bookings(id) ON DELETE CASCADE,
+    kitchen_id INTEGER NOT NULL REFERENCES kitchens(id) ON DELETE CASCADE,
+    chef_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    booked_end_at TIMESTAMP NOT NULL,
+    checked_out_at TIMESTAMP NOT NULL,
+    overtime_minutes INTEGER NOT NULL,
+    grace_minutes INTEGER NOT NULL,
+    billable_minutes INTEGER NOT NULL,
+    hourly_rate_cents INTEGER NOT NULL,
+    calculated_charge_cents INTEGER NOT NULL,
+    final_charge_cents INTEGER,
+    currency TEXT NOT NULL DEFAULT 'CAD',
+    status TEXT NOT NULL DEFAULT 'pending_review',
+    decided_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP,
+    waive_reason TEXT,
+    manager_notes TEXT,
+    stripe_payment_intent_id TEXT,
+    stripe_charge_id TEXT,
+    charged_at TIMESTAMP,
+    charge_failure_reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT kitchen_overtime_records_status_check CHECK (status IN ('pending_review', 'approved', 'waived', 'charge_pending', 'charge_succeeded', 'charge_failed')),
+    CONSTRAINT kitchen_overtime_records_final_charge_check CHECK (final_charge_cents IS NULL OR (final_charge_cents >= 0 AND final_charge_cents <= calculated_charge_cents))
+);
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_overtime_records_kitchen_status
+ON kitchen_overtime_records(kitchen_id, status);
+
+COMMENT ON TABLE kitchen_overtime_records IS 'Late kitchen check-outs billed at the hourly rate after manager approval';
+COMMENT ON COLUMN kitchen_overtime_records.billable_minutes IS 'Minutes past the booked end, rounded up to the 15-minute billing increment';
+
+-- In-app notification types for overtime
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'kitchen_overtime_pending_review'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'kitchen_overtime_pending_review';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'kitchen_overtime_charged'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'notification_type')
+  ) THEN
+    ALTER TYPE notification_type ADD VALUE 'kitchen_overtime_charged';
+  END IF;
+END $$;
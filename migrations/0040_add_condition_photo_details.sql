@@ -0,0 +1,29 @@
+-- Migration: Condition photo details for check-in / check-out comparison
+-- Stores the photo requirement, submission time and uploader for each
+-- condition photo so managers can compare check-in and check-out photos
+-- side by side and attach the comparison to a damage claim.
+
+ALTER TABLE kitchen_bookings
+ADD COLUMN IF NOT EXISTS checkin_photo_details JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS checkout_photo_details JSONB DEFAULT '[]'::jsonb;
+
+ALTER TABLE storage_bookings
+ADD COLUMN IF NOT EXISTS checkin_photo_details JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS checkout_photo_details JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN kitchen_bookings.checkin_photo_details IS 'Array of {url, requirementId, uploadedAt, uploadedBy} for check-in photos';
+COMMENT ON COLUMN kitchen_bookings.checkout_photo_details IS 'Array of {url, requirementId, uploadedAt, uploadedBy} for check-out photos';
+COMMENT ON COLUMN storage_bookings.checkin_photo_details IS 'Array of {url, requirementId, uploadedAt, uploadedBy} for move-in photos';
+COMMENT ON COLUMN storage_bookings.checkout_photo_details IS 'Array of {url, requirementId, uploadedAt, uploadedBy} for move-out photos';
+
+-- Evidence type for the generated comparison PDF
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'photo_comparison'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'evidence_type')
+  ) THEN
+    ALTER TYPE evidence_type ADD VALUE 'photo_comparison';
+  END IF;
+END $$;
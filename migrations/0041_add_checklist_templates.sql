@@ -0,0 +1,45 @@
+-- Migration: Per-kitchen and per-storage-listing checklist templates
+-- Lets a kitchen or storage listing override sections of its location's
+-- check-in/check-out checklist. NULL columns inherit the parent value.
+
+CREATE TABLE IF NOT EXISTS checklist_templates (
+  id SERIAL PRIMARY KEY,
+  location_id INTEGER NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  kitchen_id INTEGER UNIQUE REFERENCES kitchens(id) ON DELETE CASCADE,
+  storage_listing_id INTEGER UNIQUE REFERENCES storage_listings(id) ON DELETE CASCADE,
+
+  checkin_enabled BOOLEAN,
+  checkin_items JSONB,
+  checkin_photo_requirements JSONB,
+  checkin_instructions TEXT,
+
+  checkout_enabled BOOLEAN,
+  checkout_items JSONB,
+  checkout_photo_requirements JSONB,
+  checkout_instructions TEXT,
+
+  storage_checkout_enabled BOOLEAN,
+  storage_checkout_items JSONB,
+  storage_checkout_photo_requirements JSONB,
+  storage_checkout_instructions TEXT,
+
+  storage_checkin_enabled BOOLEAN,
+  storage_checkin_items JSONB,
+  storage_checkin_photo_requirements JSONB,
+  storage_checkin_instructions TEXT,
+
+  smart_lock_checkin_instructions TEXT,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  -- A template belongs to exactly one kitchen or one storage listing
+  CONSTRAINT checklist_templates_scope_check CHECK (
+    (kitchen_id IS NOT NULL AND storage_listing_id IS NULL)
+    OR (kitchen_id IS NULL AND storage_listing_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_templates_location ON checklist_templates(location_id);
+
+COMMENT ON TABLE checklist_templates IS 'Kitchen / storage listing overrides of the location check-in/check-out checklist; NULL columns inherit';
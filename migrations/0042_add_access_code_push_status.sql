@@ -0,0 +1,13 @@
+-- Migration: Track whether a booking's access code reached the smart lock
+-- Codes for kitchens with a lock provider are only shown to the chef once the
+-- lock accepts them. Failed pushes are retried by the access code cron.
+
+ALTER TABLE kitchen_bookings
+ADD COLUMN IF NOT EXISTS access_code_push_status TEXT;
+
+-- Index for the push retry sweep
+CREATE INDEX IF NOT EXISTS idx_kitchen_bookings_access_code_push_pending
+ON kitchen_bookings(updated_at)
+WHERE access_code_push_status IN ('pending', 'failed');
+
+COMMENT ON COLUMN kitchen_bookings.access_code_push_status IS 'pending: being pushed to the lock; pushed: lock accepted the code; failed: push failed, retried by cron; NULL: kitchen has no lock provider';
@@ -30,6 +30,39 @@ export function createMockDb() {
     }
 }
 
+/**
+ * Query builder stub resolving to `rows` however the query ends: awaited
+ * directly or after .where(), .limit(), .orderBy(), .for() or .returning()
+ */
+export function queryReturning(rows: unknown[]) {
+    const query = {
+        from: () => query,
+        innerJoin: () => query,
+        leftJoin: () => query,
+        set: () => query,
+        values: () => query,
+        where: () => query,
+        orderBy: () => query,
+        limit: () => query,
+        for: () => query,
+        returning: () => query,
+        then: (resolve: (value: unknown[]) => unknown, reject?: (reason: unknown) => unknown) =>
+            Promise.resolve(rows).then(resolve, reject),
+    }
+    return query
+}
+
+/**
+ * Queue the results of successive calls to a mocked db.select (or tx.select)
+ */
+export function mockSelects(select: (...args: never[]) => unknown, ...results: unknown[][]) {
+    const mock = vi.mocked(select)
+    mock.mockReset()
+    for (const rows of results) {
+        mock.mockReturnValueOnce(queryReturning(rows))
+    }
+}
+
 /**
  * Mock kitchen fixture for testing
  */
@@ -16,7 +16,8 @@ import {
     storageOverstayRecords
 } from "@shared/schema";
 import { eq, and, desc, asc, lt, not, inArray, gte, lte, or, sql, ne } from "drizzle-orm";
-import { KitchenBooking, StorageBooking, EquipmentBooking, InsertKitchenBooking } from "./booking.types";
+import { KitchenBooking, KitchenBookingDTO, StorageBooking, EquipmentBooking, InsertKitchenBooking } from "./booking.types";
+import { getBookingDaySegments } from "@shared/timezone-utils";
 
 export class BookingRepository {
 
@@ -24,7 +25,9 @@ export class BookingRepository {
     // Postgres numeric columns are returned as strings by node-postgres.
     // These helpers cast them to JavaScript numbers for frontend compatibility.
 
-    private mapKitchenBookingToDTO(row: any) {
+    private mapKitchenBookingToDTO(row: KitchenBooking): KitchenBookingDTO;
+    private mapKitchenBookingToDTO(row: KitchenBooking | null | undefined): KitchenBookingDTO | null;
+    private mapKitchenBookingToDTO(row: KitchenBooking | null | undefined): KitchenBookingDTO | null {
         if (!row) return null;
         return {
             ...row,
@@ -333,33 +336,46 @@ export class BookingRepository {
             .orderBy(desc(kitchenBookings.createdAt));
     }
 
-    async findConflictingBookings(kitchenId: number, date: Date, startTime: string, endTime: string, excludeBookingId?: number) {
+    async findConflictingBookings(kitchenId: number, date: Date, startTime: string, endTime: string, excludeBookingId?: number, endDate?: Date | null) {
         // Basic overlap logic: (StartA < EndB) and (EndA > StartB)
         // Since time is string HH:MM, we compare string directly IF dates match.
-        // KitchenBookings has bookingDate (timestamp) + startTime/endTime (strings).
-        // Conflict is strictly if same date + time overlap.
+        // KitchenBookings has bookingDate (timestamp) + startTime/endTime (strings),
+        // plus endDate when the booking runs past midnight. Bookings are split into
+        // per-day segments and compared day by day.
 
         // Convert date object to YYYY-MM-DD for comparison
         const dateStr = date.toISOString().split('T')[0];
+        const endDateStr = endDate ? endDate.toISOString().split('T')[0] : dateStr;
+        const segments = getBookingDaySegments(dateStr, startTime, endTime, endDateStr);
+        if (segments.length === 0) return [];
 
         const conditions = [
             eq(kitchenBookings.kitchenId, kitchenId),
             not(eq(kitchenBookings.status, 'cancelled')),
-            sql`DATE(${kitchenBookings.bookingDate}) = ${dateStr}::date`,
-            sql`${kitchenBookings.startTime} < ${endTime}`,
-            sql`${kitchenBookings.endTime} > ${startTime}`
+            sql`DATE(${kitchenBookings.bookingDate}) <= ${endDateStr}::date`,
+            sql`DATE(COALESCE(${kitchenBookings.endDate}, ${kitchenBookings.bookingDate})) >= ${dateStr}::date`,
         ];
 
         if (excludeBookingId) {
             conditions.push(not(eq(kitchenBookings.id, excludeBookingId)));
         }
 
-        const conflicts = await db
+        const candidates = await db
             .select()
             .from(kitchenBookings)
             .where(and(...conditions));
 
-        return conflicts;
+        return candidates.filter(booking => {
+            const existing = getBookingDaySegments(
+                booking.bookingDate.toISOString().split('T')[0],
+                booking.startTime,
+                booking.endTime,
+                booking.endDate ? booking.endDate.toISOString().split('T')[0] : null
+            );
+            return existing.some(a => segments.some(b =>
+                a.date === b.date && a.startTime < b.endTime && a.endTime > b.startTime
+            ));
+        });
     }
 
     // ===== STORAGE BOOKINGS =====
@@ -722,6 +738,7 @@ function getKitchenBookingSelection() {
         bookingDate: kitchenBookings.bookingDate,
         startTime: kitchenBookings.startTime,
         endTime: kitchenBookings.endTime,
+        endDate: kitchenBookings.endDate,
         status: kitchenBookings.status,
         specialNotes: kitchenBookings.specialNotes,
         bookingType: kitchenBookings.bookingType,
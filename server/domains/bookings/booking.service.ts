@@ -4,7 +4,7 @@ import {
 } from "./booking.repository";
 import {
     CreateKitchenBookingDTO,
-    KitchenBooking,
+    KitchenBookingDTO,
     StorageBooking,
     EquipmentBooking,
     BookingPricingResult
@@ -21,6 +21,28 @@ import { db } from "../../db";
 import { eq, and, ne } from "drizzle-orm";
 import { sendEmail, generateBookingConfirmationEmail, generateBookingCancellationEmail, generateBookingCancellationNotificationEmail } from "../../email";
 import { kitchenService } from "../kitchens/kitchen.service";
+import { getBookingDaySegments, getDayOffset, MAX_BOOKING_SPAN_DAYS } from "@shared/timezone-utils";
+
+/**
+ * Non-cancelled bookings that touch dateStr, each with the hours it occupies
+ * on that day (overnight and multi-day bookings cover several days).
+ */
+function getBookingRangesOnDate<T extends { bookingDate: Date | string; endDate?: Date | string | null; startTime: string; endTime: string; status: string }>(
+    bookings: T[],
+    dateStr: string
+): Array<{ booking: T; startTime: string; endTime: string }> {
+    const ranges: Array<{ booking: T; startTime: string; endTime: string }> = [];
+    for (const booking of bookings) {
+        if (booking.status === 'cancelled') continue;
+        const bookingDateStr = new Date(booking.bookingDate).toISOString().split('T')[0];
+        const endDateStr = booking.endDate ? new Date(booking.endDate).toISOString().split('T')[0] : null;
+        if (bookingDateStr > dateStr || (endDateStr ?? bookingDateStr) < dateStr) continue;
+        const segment = getBookingDaySegments(bookingDateStr, booking.startTime, booking.endTime, endDateStr)
+            .find(s => s.date === dateStr);
+        if (segment) ranges.push({ booking, startTime: segment.startTime, endTime: segment.endTime });
+    }
+    return ranges;
+}
 
 export class BookingService {
     private repo: BookingRepository;
@@ -34,12 +56,23 @@ export class BookingService {
      */
     async createKitchenBooking(
         data: CreateKitchenBookingDTO
-    ): Promise<KitchenBooking> {
+    ): Promise<KitchenBookingDTO> {
         // 1. Validate pricing
+        // Overnight/multi-day bookings are one continuous run, not a set of slots
+        const endDayOffset = data.endDate
+            ? getDayOffset(data.bookingDate.toISOString().split('T')[0], data.endDate.toISOString().split('T')[0])
+            : 0;
         const pricing = await calculateKitchenBookingPrice(
             data.kitchenId,
             data.startTime,
-            data.endTime
+            data.endTime,
+            {
+                slotCount: endDayOffset > 0 ? undefined : data.selectedSlots?.length || undefined,
+                selectedSlots: endDayOffset > 0 ? undefined : data.selectedSlots,
+                bookingDates: [data.bookingDate],
+                endDayOffset,
+                stationCount: data.stationCount,
+            }
         );
 
         // 1.1 Validate Chef Access (Tier 2 Requirement)
@@ -92,6 +125,21 @@ export class BookingService {
             }
         }
 
+        // 1.2 Reserve stations (kitchens without stations are booked whole)
+        const { assignKitchenStations } = await import('../../services/kitchen-station-service');
+        const stationAssignment = await assignKitchenStations({
+            kitchenId: data.kitchenId,
+            bookingDate: data.bookingDate,
+            startTime: data.startTime,
+            endTime: data.endTime,
+            count: data.stationCount ?? 1,
+            endDate: endDayOffset > 0 ? data.endDate : null,
+            selectedSlots: endDayOffset > 0 ? undefined : data.selectedSlots,
+        });
+        if (!stationAssignment.success) {
+            throw new Error(stationAssignment.error);
+        }
+
         // 2. Calculate service fee
         const serviceFeeCents = await calculatePlatformFeeDynamic(pricing.totalPriceCents);
 
@@ -109,8 +157,8 @@ export class BookingService {
 
         // 4. Create Booking
         // Generate selectedSlots from startTime/endTime if not provided
-        let selectedSlots = data.selectedSlots;
-        if (!selectedSlots || selectedSlots.length === 0) {
+        let selectedSlots = endDayOffset > 0 ? [] : data.selectedSlots;
+        if (endDayOffset === 0 && (!selectedSlots || selectedSlots.length === 0)) {
             // Generate contiguous slots from startTime to endTime for backward compatibility
             selectedSlots = [];
             const [startHours, startMins] = data.startTime.split(':').map(Number);
@@ -135,11 +183,13 @@ export class BookingService {
             totalPrice: '0', // Will be updated after calculating addons
             hourlyRate: pricing.hourlyRateCents.toString(),
             durationHours: pricing.durationHours.toString(),
+            pricingBreakdown: pricing.lineItems,
             serviceFee: serviceFeeCents.toString(),
             currency: pricing.currency,
             storageItems: [], 
             equipmentItems: [], 
             selectedSlots: selectedSlots,
+            stationIds: stationAssignment.stationIds,
             paymentStatus: data.paymentStatus || 'pending'
         });
 
@@ -218,7 +268,7 @@ export class BookingService {
                         const listingBasePriceCents = Math.round(parseFloat(String(listing.basePrice || '0')));
 
                         if (listing.pricingModel === 'hourly') {
-                            const duration = calculateDurationHours(data.startTime, data.endTime);
+                            const duration = calculateDurationHours(data.startTime, data.endTime, endDayOffset);
                             const effectiveDuration = Math.max(1, Math.ceil(duration));
                             priceCents = listingBasePriceCents * effectiveDuration;
                         } else {
@@ -356,6 +406,9 @@ export class BookingService {
 
         await this.repo.updateKitchenBooking(bookingId, { status: 'cancelled' });
 
+        const { offerFreedSlotToWaitlist } = await import('../../services/kitchen-waitlist-service');
+        await offerFreedSlotToWaitlist(bookingId);
+
         // Logic for email notifications would go here
         // We can reuse the extensive logic from storage-firebase or refactor it.
     }
@@ -432,59 +485,50 @@ export class BookingService {
 
     // ===== AVAILABILITY LOGIC =====
 
-    async validateBookingAvailability(kitchenId: number, bookingDate: Date, startTime: string, endTime: string): Promise<{ valid: boolean; error?: string }> {
+    /**
+     * Check a booking against the kitchen's hours. Overnight and multi-day
+     * bookings (endDate after bookingDate) must fit each day they touch: the
+     * first day has to stay open until midnight, later days from midnight.
+     */
+    async validateBookingAvailability(kitchenId: number, bookingDate: Date, startTime: string, endTime: string, endDate?: Date | null): Promise<{ valid: boolean; error?: string }> {
         try {
+            const bookingDateStr = bookingDate.toISOString().split('T')[0];
+            const endDateStr = endDate ? endDate.toISOString().split('T')[0] : bookingDateStr;
+            const dayOffset = getDayOffset(bookingDateStr, endDateStr);
+            if (dayOffset > MAX_BOOKING_SPAN_DAYS) {
+                return { valid: false, error: `Bookings can span at most ${MAX_BOOKING_SPAN_DAYS} days` };
+            }
+
             // Check if start time is before end time
-            if (startTime >= endTime) {
+            const segments = getBookingDaySegments(bookingDateStr, startTime, endTime, endDateStr);
+            if (segments.length === 0) {
                 return { valid: false, error: "End time must be after start time" };
             }
 
-            // First check if there's a date-specific override
-            const dateOverride = await kitchenService.getKitchenDateOverrideForDate(kitchenId, bookingDate);
-
-            let availabilityStartTime: string;
-            let availabilityEndTime: string;
-
-            if (dateOverride) {
-                // If there's an override and it's closed, can't book
-                if (!dateOverride.isAvailable) {
-                    return { valid: false, error: "Kitchen is closed on this date" };
+            let firstWindow: { startTime: string; endTime: string } | null = null;
+            for (const segment of segments) {
+                const window = await this.getAvailabilityWindow(kitchenId, new Date(`${segment.date}T12:00:00Z`));
+                const onDate = segments.length > 1 ? ` (${segment.date})` : '';
+                if ('error' in window) {
+                    return { valid: false, error: `${window.error}${onDate}` };
                 }
-                // If override has custom hours, use those
-                if (dateOverride.startTime && dateOverride.endTime) {
-                    availabilityStartTime = dateOverride.startTime;
-                    availabilityEndTime = dateOverride.endTime;
-                } else {
-                    return { valid: false, error: "Kitchen availability not properly configured for this date" };
-                }
-            } else {
-                // No override, use regular weekly schedule
-                // Use getUTCDay() since dates are passed as UTC noon to avoid timezone shifts
-                const dayOfWeek = bookingDate.getUTCDay();
-                const availability = await kitchenService.getKitchenAvailability(kitchenId);
+                firstWindow = firstWindow ?? window;
 
-                const dayAvailability = availability.find(a => a.dayOfWeek === dayOfWeek);
+                // A day open until 23:59 runs into the next one
+                const availabilityEndTime = segments.length > 1 && window.endTime >= '23:59' ? '24:00' : window.endTime;
 
-                // Check if day is available
-                if (!dayAvailability || !dayAvailability.isAvailable) {
-                    return { valid: false, error: "Kitchen is not available on this day" };
+                // Check if booking times are within availability window
+                if (segment.startTime < window.startTime || segment.endTime > availabilityEndTime) {
+                    return { valid: false, error: `Booking time must be within manager-set available hours${onDate}` };
                 }
-
-                availabilityStartTime = dayAvailability.startTime;
-                availabilityEndTime = dayAvailability.endTime;
-            }
-
-            // Check if booking times are within availability window
-            if (startTime < availabilityStartTime || endTime > availabilityEndTime) {
-                return { valid: false, error: "Booking time must be within manager-set available hours" };
             }
 
             // Check that start time aligns with available slots (hourly slots)
             const startHour = parseInt(startTime.split(':')[0]);
-            const availabilityStartHour = parseInt(availabilityStartTime.split(':')[0]);
-            const availabilityEndHour = parseInt(availabilityEndTime.split(':')[0]);
+            const availabilityStartHour = parseInt(firstWindow!.startTime.split(':')[0]);
+            const availabilityEndHour = parseInt(firstWindow!.endTime.split(':')[0]);
 
-            if (startHour < availabilityStartHour || startHour >= availabilityEndHour) {
+            if (startHour < availabilityStartHour || (segments.length === 1 && startHour >= availabilityEndHour)) {
                 return { valid: false, error: "Start time must be within manager-set available slot times" };
             }
 
@@ -495,149 +539,150 @@ export class BookingService {
         }
     }
 
-    async getAvailableTimeSlots(kitchenId: number, date: Date): Promise<string[]> {
-        try {
-            // First check if there's a date-specific override
-            const dateOverride = await kitchenService.getKitchenDateOverrideForDate(kitchenId, date);
-
-            let startHour: number;
-            let endHour: number;
-
-            if (dateOverride) {
-                // If there's an override and it's closed, return empty slots
-                if (!dateOverride.isAvailable) {
-                    return [];
-                }
-                // If override is available with custom hours, use those
-                if (dateOverride.startTime && dateOverride.endTime) {
-                    startHour = parseInt(dateOverride.startTime.split(':')[0]);
-                    endHour = parseInt(dateOverride.endTime.split(':')[0]);
-                } else {
-                    return [];
-                }
-            } else {
-                // No override, use regular weekly schedule
-                // Use getUTCDay() since dates are passed as UTC noon to avoid timezone shifts
-                const dayOfWeek = date.getUTCDay();
-                const availability = await kitchenService.getKitchenAvailability(kitchenId);
-
-                const dayAvailability = availability.find(a => a.dayOfWeek === dayOfWeek);
-
-                if (!dayAvailability || !dayAvailability.isAvailable) {
-                    return [];
-                }
-
-                startHour = parseInt(dayAvailability.startTime.split(':')[0]);
-                endHour = parseInt(dayAvailability.endTime.split(':')[0]);
+    /**
+     * Opening hours for one date: the date override when there is one,
+     * otherwise the weekly schedule.
+     */
+    private async getAvailabilityWindow(kitchenId: number, date: Date): Promise<{ startTime: string; endTime: string } | { error: string }> {
+        // First check if there's a date-specific override
+        const dateOverride = await kitchenService.getKitchenDateOverrideForDate(kitchenId, date);
+
+        if (dateOverride) {
+            // If there's an override and it's closed, can't book
+            if (!dateOverride.isAvailable) {
+                return { error: "Kitchen is closed on this date" };
             }
-
-            const slots: string[] = [];
-            for (let hour = startHour; hour < endHour; hour++) {
-                slots.push(`${hour.toString().padStart(2, '0')}:00`);
+            // If override has custom hours, use those
+            if (dateOverride.startTime && dateOverride.endTime) {
+                return { startTime: dateOverride.startTime, endTime: dateOverride.endTime };
             }
+            return { error: "Kitchen availability not properly configured for this date" };
+        }
 
-            // Filter out already booked slots
-            const bookings = await this.getBookingsByKitchen(kitchenId);
-            const dateStr = date.toISOString().split('T')[0];
+        // No override, use regular weekly schedule
+        // Use getUTCDay() since dates are passed as UTC noon to avoid timezone shifts
+        const dayOfWeek = date.getUTCDay();
+        const availability = await kitchenService.getKitchenAvailability(kitchenId);
 
-            const dayBookings = bookings.filter(b => {
-                const bookingDateStr = new Date(b.bookingDate).toISOString().split('T')[0];
-                return bookingDateStr === dateStr && b.status !== 'cancelled';
-            });
+        const dayAvailability = availability.find(a => a.dayOfWeek === dayOfWeek);
 
-            const bookedSlots = new Set<string>();
-            dayBookings.forEach(booking => {
-                const [startHours, startMins] = booking.startTime.split(':').map(Number);
-                const [endHours, endMins] = booking.endTime.split(':').map(Number);
-                const startTotalMins = startHours * 60 + startMins;
-                const endTotalMins = endHours * 60 + endMins;
+        // Check if day is available
+        if (!dayAvailability || !dayAvailability.isAvailable) {
+            return { error: "Kitchen is not available on this day" };
+        }
 
-                for (const slot of slots) {
-                    const [slotHours, slotMins] = slot.split(':').map(Number);
-                    const slotTotalMins = slotHours * 60 + slotMins;
+        return { startTime: dayAvailability.startTime, endTime: dayAvailability.endTime };
+    }
 
-                    if (slotTotalMins >= startTotalMins && slotTotalMins < endTotalMins) {
-                        bookedSlots.add(slot);
-                    }
-                }
-            });
+    async findConflictingBookings(kitchenId: number, bookingDate: Date, startTime: string, endTime: string, excludeBookingId?: number, endDate?: Date | null) {
+        return this.repo.findConflictingBookings(kitchenId, bookingDate, startTime, endTime, excludeBookingId, endDate);
+    }
+
+    /**
+     * Hourly slots for a date with how many stations are still free in each.
+     * Kitchens without stations have a capacity of 1.
+     */
+    async getAvailableTimeSlots(kitchenId: number, date: Date): Promise<Array<{ time: string; available: number; capacity: number }>> {
+        try {
+            const usage = await this.getSlotUsage(kitchenId, date);
+            if (!usage) {
+                return [];
+            }
 
-            return slots.filter(slot => !bookedSlots.has(slot));
+            return usage.slots.map(slot => ({
+                time: slot,
+                available: Math.max(0, usage.capacity - (usage.bookedCounts.get(slot) || 0)),
+                capacity: usage.capacity,
+            }));
         } catch (error) {
             logger.error('Error getting available time slots:', error);
             throw error;
         }
     }
 
-    async getAvailableSlots(kitchenId: number, dateStr: string): Promise<{ time: string; available: boolean }[]> {
+    async getAvailableSlots(kitchenId: number, dateStr: string): Promise<{ time: string; available: number; capacity: number }[]> {
         try {
             const date = new Date(dateStr);
             const slots = await this.getAvailableTimeSlots(kitchenId, date);
-            return slots.map(time => ({ time, available: true }));
+            return slots.filter(slot => slot.available > 0);
         } catch (error) {
             logger.error('Error getting available slots:', error);
             return [];
         }
     }
 
-    async getAllTimeSlotsWithBookingInfo(kitchenId: number, date: Date): Promise<Array<{
+    /**
+     * Opening-hours slots for a date, the kitchen's station capacity and how
+     * many stations bookings take in each slot. Null when the kitchen is closed.
+     */
+    private async getSlotUsage(kitchenId: number, date: Date): Promise<{ slots: string[]; capacity: number; bookedCounts: Map<string, number> } | null> {
+        const window = await this.getAvailabilityWindow(kitchenId, date);
+        if ('error' in window) {
+            return null;
+        }
+
+        const startHour = parseInt(window.startTime.split(':')[0]);
+        const endHour = parseInt(window.endTime.split(':')[0]);
+        const slots: string[] = [];
+        for (let hour = startHour; hour < endHour; hour++) {
+            slots.push(`${hour.toString().padStart(2, '0')}:00`);
+        }
+
+        const { getKitchenCapacity, getBookingStationUnits } = await import('../../services/kitchen-station-service');
+        const capacity = await getKitchenCapacity(kitchenId);
+
+        const bookings = await this.getBookingsByKitchen(kitchenId);
+        const dateStr = date.toISOString().split('T')[0];
+        const dayBookings = getBookingRangesOnDate(bookings, dateStr);
+
+        const bookedCounts = new Map<string, number>();
+        slots.forEach(slot => bookedCounts.set(slot, 0));
+
+        dayBookings.forEach(({ booking, startTime, endTime }) => {
+            const [startHours, startMins] = startTime.split(':').map(Number);
+            const [endHours, endMins] = endTime.split(':').map(Number);
+            const startTotalMins = startHours * 60 + startMins;
+            const endTotalMins = endHours * 60 + endMins;
+            // Manager blocks (e.g. imported calendar events) and bookings without stations take the whole kitchen
+            const usedCapacity = getBookingStationUnits(booking, capacity);
+
+            slots.forEach(slot => {
+                const [slotHours, slotMins] = slot.split(':').map(Number);
+                const slotTotalMins = slotHours * 60 + slotMins;
+                if (slotTotalMins >= startTotalMins && slotTotalMins < endTotalMins) {
+                    bookedCounts.set(slot, (bookedCounts.get(slot) || 0) + usedCapacity);
+                }
+            });
+        });
+
+        return { slots, capacity, bookedCounts };
+    }
+
+    /**
+     * Hourly slots with remaining capacity. Active waitlist holds count as taken
+     * capacity for everyone except the chef holding them (`forChefId`);
+     * `isHeld` marks slots that are only full because of someone else's hold.
+     */
+    async getAllTimeSlotsWithBookingInfo(kitchenId: number, date: Date, forChefId?: number): Promise<Array<{
         time: string;
         available: number;
         capacity: number;
         isFullyBooked: boolean;
+        isHeld: boolean;
     }>> {
         try {
-            const dateOverride = await kitchenService.getKitchenDateOverrideForDate(kitchenId, date);
-
-            let startHour: number;
-            let endHour: number;
-            let capacity: number;
-
-            if (dateOverride) {
-                if (!dateOverride.isAvailable) {
-                    return [];
-                }
-                if (dateOverride.startTime && dateOverride.endTime) {
-                    startHour = parseInt(dateOverride.startTime.split(':')[0]);
-                    endHour = parseInt(dateOverride.endTime.split(':')[0]);
-                    capacity = (dateOverride as any).maxConcurrentBookings ?? 1;
-                } else {
-                    return [];
-                }
-            } else {
-                // Use getUTCDay() since dates are passed as UTC noon to avoid timezone shifts
-                const dayOfWeek = date.getUTCDay();
-                const availability = await kitchenService.getKitchenAvailability(kitchenId);
-                const dayAvailability = availability.find(a => a.dayOfWeek === dayOfWeek);
-
-                if (!dayAvailability || !dayAvailability.isAvailable) {
-                    return [];
-                }
-
-                startHour = parseInt(dayAvailability.startTime.split(':')[0]);
-                endHour = parseInt(dayAvailability.endTime.split(':')[0]);
-                capacity = (dayAvailability as any).maxConcurrentBookings ?? 1;
+            const usage = await this.getSlotUsage(kitchenId, date);
+            if (!usage) {
+                return [];
             }
-
-            const allSlots: string[] = [];
-            for (let hour = startHour; hour < endHour; hour++) {
-                allSlots.push(`${hour.toString().padStart(2, '0')}:00`);
-            }
-
-            const bookings = await this.getBookingsByKitchen(kitchenId);
-            const dateStr = date.toISOString().split('T')[0];
-
-            const dayBookings = bookings.filter(b => {
-                const bookingDateStr = new Date(b.bookingDate).toISOString().split('T')[0];
-                return bookingDateStr === dateStr && b.status !== 'cancelled';
-            });
-
-            const slotBookingCounts = new Map<string, number>();
-            allSlots.forEach(slot => slotBookingCounts.set(slot, 0));
-
-            dayBookings.forEach(booking => {
-                const [startHours, startMins] = booking.startTime.split(':').map(Number);
-                const [endHours, endMins] = booking.endTime.split(':').map(Number);
+            const { slots: allSlots, capacity, bookedCounts: slotBookingCounts } = usage;
+
+            const { getActiveWaitlistHolds } = await import('../../services/kitchen-waitlist-service');
+            const holds = (await getActiveWaitlistHolds(kitchenId, date)).filter(hold => hold.chefId !== forChefId);
+            const slotHoldCounts = new Map<string, number>();
+            holds.forEach(hold => {
+                const [startHours, startMins] = hold.startTime.split(':').map(Number);
+                const [endHours, endMins] = hold.endTime.split(':').map(Number);
                 const startTotalMins = startHours * 60 + startMins;
                 const endTotalMins = endHours * 60 + endMins;
 
@@ -645,18 +690,20 @@ export class BookingService {
                     const [slotHours, slotMins] = slot.split(':').map(Number);
                     const slotTotalMins = slotHours * 60 + slotMins;
                     if (slotTotalMins >= startTotalMins && slotTotalMins < endTotalMins) {
-                        slotBookingCounts.set(slot, (slotBookingCounts.get(slot) || 0) + 1);
+                        slotHoldCounts.set(slot, (slotHoldCounts.get(slot) || 0) + 1);
                     }
                 });
             });
 
             return allSlots.map(slot => {
                 const bookedCount = slotBookingCounts.get(slot) || 0;
+                const heldCount = slotHoldCounts.get(slot) || 0;
                 return {
                     time: slot,
-                    available: Math.max(0, capacity - bookedCount),
+                    available: Math.max(0, capacity - bookedCount - heldCount),
                     capacity,
-                    isFullyBooked: bookedCount >= capacity
+                    isFullyBooked: bookedCount + heldCount >= capacity,
+                    isHeld: bookedCount < capacity && bookedCount + heldCount >= capacity
                 };
             });
         } catch (error) {
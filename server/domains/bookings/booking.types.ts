@@ -13,6 +13,15 @@ import { z } from "zod";
 export type KitchenBooking = typeof kitchenBookings.$inferSelect;
 export type InsertKitchenBooking = typeof kitchenBookings.$inferInsert;
 
+// Kitchen booking as the repository returns it, with numeric columns parsed to numbers
+export type KitchenBookingDTO = Omit<KitchenBooking, 'totalPrice' | 'hourlyRate' | 'durationHours' | 'serviceFee' | 'damageDeposit'> & {
+    totalPrice: number | null;
+    hourlyRate: number | null;
+    durationHours: number | null;
+    serviceFee: number | null;
+    damageDeposit: number | null;
+};
+
 export type StorageBooking = typeof storageBookings.$inferSelect;
 export type EquipmentBooking = typeof equipmentBookings.$inferSelect;
 
@@ -30,6 +39,7 @@ export type CreateKitchenBookingDTO = z.infer<typeof createKitchenBookingSchema>
     selectedStorage?: Array<{ storageListingId: number; startDate: string; endDate: string }>; // Storage with explicit date ranges
     selectedEquipmentIds?: number[];
     selectedSlots?: Array<{ startTime: string; endTime: string }>; // Array of discrete 1-hour time slots, e.g., [{startTime: "09:00", endTime: "10:00"}]
+    stationCount?: number; // Stations to book in a kitchen with stations (default 1)
 };
 
 export type BookingStatus = 'pending' | 'confirmed' | 'cancelled';
@@ -21,6 +21,7 @@ export class InventoryRepository {
             // Convert numeric string fields to numbers for frontend compatibility
             basePrice: row.basePrice ? parseFloat(row.basePrice) : null,
             pricePerCubicFoot: row.pricePerCubicFoot ? parseFloat(row.pricePerCubicFoot) : null,
+            monthlySubscriptionPrice: row.monthlySubscriptionPrice ? parseFloat(row.monthlySubscriptionPrice) : null,
             dimensionsLength: row.dimensionsLength ? parseFloat(row.dimensionsLength) : null,
             dimensionsWidth: row.dimensionsWidth ? parseFloat(row.dimensionsWidth) : null,
             dimensionsHeight: row.dimensionsHeight ? parseFloat(row.dimensionsHeight) : null,
@@ -57,8 +58,8 @@ export class InventoryRepository {
     }
 
     async updateStorageListing(id: number, updates: Partial<StorageListing>) {
-        // Sanitize updates: remove readonly/auto-managed fields
-        const { id: _id, createdAt, updatedAt, approvedAt, ...safeUpdates } = updates as any;
+        // Sanitize updates: remove readonly/auto-managed fields (currency follows the location)
+        const { id: _id, createdAt, updatedAt, approvedAt, currency: _currency, ...safeUpdates } = updates;
 
         const [updated] = await db
             .update(storageListings)
@@ -116,8 +117,8 @@ export class InventoryRepository {
     }
 
     async updateEquipmentListing(id: number, updates: Partial<EquipmentListing>) {
-        // Sanitize updates: remove readonly/auto-managed fields
-        const { id: _id, createdAt, updatedAt, ...safeUpdates } = updates as any;
+        // Sanitize updates: remove readonly/auto-managed fields (currency follows the location)
+        const { id: _id, createdAt, updatedAt, currency: _currency, ...safeUpdates } = updates;
 
         const [updated] = await db
             .update(equipmentListings)
@@ -1,6 +1,7 @@
 
 import { InventoryRepository } from "./inventory.repository";
 import { InsertStorageListing, InsertEquipmentListing } from "./inventory.types";
+import { getKitchenCurrency } from "../../services/location-currency-service";
 
 export class InventoryService {
     private repo: InventoryRepository;
@@ -13,7 +14,8 @@ export class InventoryService {
 
     async createStorageListing(data: any) {
         // Validation logic can go here
-        return this.repo.createStorageListing(data);
+        // Listings charge in their kitchen's (location's) currency
+        return this.repo.createStorageListing({ ...data, currency: await getKitchenCurrency(data.kitchenId) });
     }
 
     async getStorageListingsByKitchen(kitchenId: number) {
@@ -35,7 +37,7 @@ export class InventoryService {
     // ===== EQUIPMENT =====
 
     async createEquipmentListing(data: any) {
-        return this.repo.createEquipmentListing(data);
+        return this.repo.createEquipmentListing({ ...data, currency: await getKitchenCurrency(data.kitchenId) });
     }
 
     async getEquipmentListingsByKitchen(kitchenId: number) {
@@ -11,6 +11,8 @@ import { kitchens, locations, kitchenDateOverrides, kitchenAvailability } from '
 import { eq, and, desc, gte, lte, sql } from 'drizzle-orm';
 import type { CreateKitchenDTO, UpdateKitchenDTO, KitchenDTO, KitchenWithLocationDTO, CreateKitchenOverrideDTO, UpdateKitchenOverrideDTO, KitchenOverrideDTO } from './kitchen.types';
 import { KitchenErrorCodes, DomainError } from '../../shared/errors/domain-error';
+import { DEFAULT_CURRENCY } from '@shared/currency-utils';
+import { redactSmartLockConfig } from '../../services/smart-lock-service';
 
 /**
  * Repository for kitchen data access
@@ -28,10 +30,13 @@ export class KitchenRepository {
       amenities: (row.amenities as string[]) || [],         // Ensure type safety for JSONB
       // Cast enum to specific string union type if needed, or trust strict match
       pricingModel: row.pricingModel as any,
+      dailyRate: row.dailyRate ? parseFloat(row.dailyRate) : null,
+      weeklyRate: row.weeklyRate ? parseFloat(row.weeklyRate) : null,
       taxRatePercent: row.taxRatePercent ? parseFloat(row.taxRatePercent) : null,
       smartLockAvailable: row.smartLockAvailable ?? false,
       smartLockEnabled: row.smartLockEnabled ?? false,
-      smartLockConfig: row.smartLockConfig as Record<string, unknown> | null ?? null,
+      // Lock provider credentials never leave the server
+      smartLockConfig: redactSmartLockConfig(row.smartLockConfig),
     };
   }
 
@@ -144,9 +149,11 @@ export class KitchenRepository {
           amenities: dto.amenities || [],
           isActive: dto.isActive !== undefined ? dto.isActive : true,
           hourlyRate: dto.hourlyRate ? dto.hourlyRate.toString() : null, // Convert number to string for numeric column
-          currency: dto.currency || 'CAD',
+          currency: dto.currency || DEFAULT_CURRENCY,
           minimumBookingHours: dto.minimumBookingHours || 1,
           pricingModel: dto.pricingModel || 'hourly',
+          dailyRate: dto.dailyRate ? dto.dailyRate.toString() : null,
+          weeklyRate: dto.weeklyRate ? dto.weeklyRate.toString() : null,
           taxRatePercent: dto.taxRatePercent ? dto.taxRatePercent.toString() : null,
           smartLockAvailable: dto.smartLockAvailable ?? false,
         })
@@ -182,6 +189,8 @@ export class KitchenRepository {
           currency: dto.currency,
           minimumBookingHours: dto.minimumBookingHours,
           pricingModel: dto.pricingModel,
+          dailyRate: dto.dailyRate ? dto.dailyRate.toString() : (dto.dailyRate === null ? null : undefined),
+          weeklyRate: dto.weeklyRate ? dto.weeklyRate.toString() : (dto.weeklyRate === null ? null : undefined),
           taxRatePercent: dto.taxRatePercent ? dto.taxRatePercent.toString() : (dto.taxRatePercent === null ? null : undefined),
           smartLockAvailable: dto.smartLockAvailable,
           smartLockEnabled: dto.smartLockEnabled,
@@ -33,6 +33,8 @@ export interface CreateKitchenDTO {
   currency?: string;
   minimumBookingHours?: number;
   pricingModel?: PricingModel;
+  dailyRate?: number | null;
+  weeklyRate?: number | null;
   taxRatePercent?: number | null;
   smartLockAvailable?: boolean;
 }
@@ -53,6 +55,8 @@ export interface UpdateKitchenDTO {
   currency?: string;
   minimumBookingHours?: number;
   pricingModel?: PricingModel;
+  dailyRate?: number | null;
+  weeklyRate?: number | null;
   taxRatePercent?: number | null;
   /** Admin-controlled capability gate. When false, managers cannot configure smart locks. */
   smartLockAvailable?: boolean;
@@ -76,6 +80,8 @@ export interface KitchenDTO {
   currency: string;
   minimumBookingHours: number;
   pricingModel: PricingModel;
+  dailyRate: number | null;
+  weeklyRate: number | null;
   taxRatePercent: number | null;
   /** Admin-controlled capability gate. When false, managers cannot configure smart locks. */
   smartLockAvailable: boolean;
@@ -11,6 +11,7 @@ import { locations, locationRequirements } from '@shared/schema';
 import { eq, and, desc, sql } from 'drizzle-orm';
 import type { CreateLocationDTO, UpdateLocationDTO, VerifyKitchenLicenseDTO, LocationDTO, LocationRequirements, UpdateLocationRequirements } from './location.types';
 import { LocationErrorCodes, DomainError } from '../../shared/errors/domain-error';
+import { DEFAULT_CURRENCY } from '@shared/currency-utils';
 
 /**
  * Repository for location data access
@@ -85,6 +86,7 @@ export class LocationRepository {
           description: dto.description || null,
           customOnboardingLink: dto.customOnboardingLink || null,
           timezone: dto.timezone || 'America/St_Johns',
+          currency: dto.currency || DEFAULT_CURRENCY,
           kitchenLicenseUrl: dto.kitchenLicenseUrl || null,
           kitchenLicenseStatus: dto.kitchenLicenseStatus || 'pending',
           kitchenLicenseExpiry: dto.kitchenLicenseExpiry || null,
@@ -129,6 +131,7 @@ export class LocationRepository {
           description: dto.description,
           customOnboardingLink: dto.customOnboardingLink,
           timezone: dto.timezone,
+          currency: dto.currency,
           kitchenLicenseUrl: dto.kitchenLicenseUrl,
           kitchenLicenseStatus: dto.kitchenLicenseStatus,
           kitchenLicenseExpiry: dto.kitchenLicenseExpiry,
@@ -1,4 +1,5 @@
 import type { LocationRequirements, UpdateLocationRequirements } from '@shared/schema';
+import type { SupportedCurrency } from '@shared/currency-utils';
 
 export type { LocationRequirements, UpdateLocationRequirements };
 
@@ -23,6 +24,7 @@ export interface CreateLocationDTO {
   description?: string;
   customOnboardingLink?: string;
   timezone?: string;
+  currency?: SupportedCurrency;
   kitchenLicenseUrl?: string;
   kitchenLicenseStatus?: 'pending' | 'approved' | 'rejected';
   kitchenLicenseExpiry?: string;
@@ -51,6 +53,7 @@ export interface UpdateLocationDTO {
   description?: string;
   customOnboardingLink?: string;
   timezone?: string;
+  currency?: SupportedCurrency;
   kitchenLicenseUrl?: string | null;
   kitchenLicenseStatus?: 'pending' | 'approved' | 'rejected' | 'pending_update';
   kitchenLicenseExpiry?: string | null;
@@ -87,6 +90,7 @@ export interface LocationDTO {
   preferredContactMethod: string;
   cancellationPolicyHours: number;
   cancellationPolicyMessage: string;
+  reschedulePolicyHours: number;
   defaultDailyBookingLimit: number;
   minimumBookingWindowHours: number;
   logoUrl: string | null;
@@ -94,6 +98,7 @@ export interface LocationDTO {
   description: string | null;
   customOnboardingLink: string | null;
   timezone: string;
+  currency: string;
   kitchenLicenseStatus: string;
   kitchenLicenseUrl: string | null;
   kitchenLicenseApprovedBy: number | null;
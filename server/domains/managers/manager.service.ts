@@ -3,6 +3,7 @@ import { managerRepository } from "./manager.repository";
 import { db } from "../../db"; // Needed for RevenueService call passing
 import { getCompleteRevenueMetrics } from "../../services/revenue-service"; // Plan to use static import if possible
 import { getPayouts } from "../../services/stripe-connect-service";
+import { getRevenueShareSummary } from "../../services/location-revenue-share-service";
 import { users } from "@shared/schema";
 import { eq } from "drizzle-orm";
 
@@ -20,16 +21,22 @@ export class ManagerService implements IManagerService {
         return await managerRepository.updateOnboardingStatus(userId, updates);
     }
 
-    async getRevenueOverview(managerId: number, query: { startDate?: string; endDate?: string; locationId?: number }) {
+    async getRevenueOverview(managerId: number, query: { startDate?: string; endDate?: string; locationId?: number; currency?: string }) {
         // Delegate to existing RevenueService
         // Note: The original route dynamically imported this. We can standard import it if no circular deps.
-        return await getCompleteRevenueMetrics(
+        const metrics = await getCompleteRevenueMetrics(
             managerId,
             db,
             query.startDate,
             query.endDate,
-            query.locationId
+            query.locationId,
+            query.currency
         );
+
+        // Co-managed locations: what this manager was actually paid as a partner
+        const revenueShares = await getRevenueShareSummary(managerId, query);
+
+        return { ...metrics, revenueShares };
     }
 
     async getInvoices(managerId: number, query: InvoiceQuery) {
@@ -22,7 +22,7 @@ export interface IManagerService {
         steps?: any
     }): Promise<User | undefined>;
 
-    getRevenueOverview(managerId: number, query: { startDate?: string; endDate?: string; locationId?: number }): Promise<any>;
+    getRevenueOverview(managerId: number, query: { startDate?: string; endDate?: string; locationId?: number; currency?: string }): Promise<any>;
     getInvoices(managerId: number, query: InvoiceQuery): Promise<{ invoices: any[], total: number }>;
 }
 
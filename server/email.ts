@@ -439,7 +439,7 @@ const detectEmailProvider = (email: string): 'google' | 'outlook' | 'yahoo' | 'a
 };
 
 // Helper function to format dates for calendar URLs (YYYYMMDDTHHMMSSZ format in UTC)
-const formatDateForCalendar = (date: Date): string => {
+export const formatDateForCalendar = (date: Date): string => {
   const year = date.getUTCFullYear();
   const month = String(date.getUTCMonth() + 1).padStart(2, '0');
   const day = String(date.getUTCDate()).padStart(2, '0');
@@ -450,7 +450,7 @@ const formatDateForCalendar = (date: Date): string => {
 };
 
 // Helper function to escape text for iCalendar format
-const escapeIcalText = (text: string): string => {
+export const escapeIcalText = (text: string): string => {
   return text
     .replace(/\\/g, '\\\\')
     .replace(/;/g, '\\;')
@@ -484,8 +484,24 @@ const generateEventUid = (
   return `${dateStr.replace(/-/g, '')}T${startTime.replace(/:/g, '')}-${positiveHash}@localcooks.com`;
 };
 
+// Stable event UID for a kitchen booking. The booking reference code survives
+// reschedules, so invites, cancellations and calendar feeds all update the same
+// event; bookings without one fall back to the date/time/location hash.
+export const getBookingEventUid = (
+  referenceCode: string | null | undefined,
+  bookingDate: string | Date,
+  startTime: string,
+  location: string
+): string => {
+  if (referenceCode) {
+    return `${referenceCode.toLowerCase()}@localcooks.com`;
+  }
+  return generateEventUid(bookingDate, startTime, location);
+};
+
 // Helper function to generate .ics file content (iCalendar format - RFC 5545 compliant)
 // Uses the same UID for synchronization across all attendees
+// METHOD:CANCEL with the original UID removes the event from the attendee's calendar
 const generateIcsFile = (
   title: string,
   startDateTime: Date,
@@ -494,8 +510,10 @@ const generateIcsFile = (
   description: string,
   organizerEmail?: string,
   attendeeEmails?: string[],
-  eventUid?: string // Optional: Use same UID for synchronization
+  eventUid?: string, // Optional: Use same UID for synchronization
+  method: 'REQUEST' | 'CANCEL' = 'REQUEST'
 ): string => {
+  const isCancellation = method === 'CANCEL';
   // Format dates in UTC (Z suffix) for RFC 5545 compliance
   const startDateStr = formatDateForCalendar(startDateTime);
   const endDateStr = formatDateForCalendar(endDateTime);
@@ -511,7 +529,7 @@ const generateIcsFile = (
     'VERSION:2.0',
     'PRODID:-//Local Cooks Community//Kitchen Booking System//EN',
     'CALSCALE:GREGORIAN',
-    'METHOD:REQUEST', // Indicates this is a calendar invitation
+    `METHOD:${method}`, // REQUEST = calendar invitation, CANCEL = withdraw it
     'BEGIN:VEVENT',
     `UID:${uid}`,
     `DTSTAMP:${now}`, // When the event was created
@@ -520,8 +538,8 @@ const generateIcsFile = (
     `SUMMARY:${escapeIcalText(title)}`,
     `DESCRIPTION:${escapeIcalText(description)}`,
     `LOCATION:${escapeIcalText(location)}`,
-    'STATUS:CONFIRMED',
-    'SEQUENCE:0', // Increment on updates for synchronization
+    isCancellation ? 'STATUS:CANCELLED' : 'STATUS:CONFIRMED',
+    isCancellation ? 'SEQUENCE:1' : 'SEQUENCE:0', // Increment on updates for synchronization
     'TRANSP:OPAQUE', // Indicates busy time
   ];
 
@@ -546,6 +564,11 @@ const generateIcsFile = (
     });
   }
 
+  if (isCancellation) {
+    lines.push('END:VEVENT', 'END:VCALENDAR');
+    return lines.join('\r\n');
+  }
+
   // Add reminder alarms (15 minutes before and 1 day before)
   lines.push(
     'BEGIN:VALARM',
@@ -3108,7 +3131,7 @@ export const generateBookingNotificationEmail = (bookingData: { managerEmail: st
   const bookingDateStr = bookingData.bookingDate instanceof Date ? bookingData.bookingDate.toISOString().split('T')[0] : bookingData.bookingDate.split('T')[0];
   const startDateTime = createBookingDateTime(bookingDateStr, bookingData.startTime, timezone);
   const endDateTime = createBookingDateTime(bookingDateStr, bookingData.endTime, timezone);
-  const eventUid = generateEventUid(bookingData.bookingDate, bookingData.startTime, locationName);
+  const eventUid = getBookingEventUid(bookingData.referenceCode, bookingData.bookingDate, bookingData.startTime, locationName);
   const icsContent = generateIcsFile(
     calendarTitle,
     startDateTime,
@@ -3664,7 +3687,7 @@ ${new Date().getFullYear()} Local Cooks
   };
 };
 
-export const generateBookingConfirmationEmail = (bookingData: { chefEmail: string; chefName: string; kitchenName: string; bookingDate: string | Date; startTime: string; endTime: string; specialNotes?: string; timezone?: string; locationName?: string; locationAddress?: string; addons?: string; checkInWindowMinutesBefore?: number; noShowGraceMinutes?: number }): EmailContent => {
+export const generateBookingConfirmationEmail = (bookingData: { chefEmail: string; chefName: string; kitchenName: string; bookingDate: string | Date; startTime: string; endTime: string; specialNotes?: string; timezone?: string; locationName?: string; locationAddress?: string; addons?: string; checkInWindowMinutesBefore?: number; noShowGraceMinutes?: number; referenceCode?: string | null }): EmailContent => {
   const timezone = bookingData.timezone || 'America/St_Johns';
   const locationName = bookingData.locationName || bookingData.kitchenName;
   const dashboardUrl = getDashboardUrl();
@@ -3705,7 +3728,7 @@ export const generateBookingConfirmationEmail = (bookingData: { chefEmail: strin
   const bookingDateStr = bookingData.bookingDate instanceof Date ? bookingData.bookingDate.toISOString().split('T')[0] : bookingData.bookingDate.split('T')[0];
   const startDateTime = createBookingDateTime(bookingDateStr, bookingData.startTime, timezone);
   const endDateTime = createBookingDateTime(bookingDateStr, bookingData.endTime, timezone);
-  const eventUid = generateEventUid(bookingData.bookingDate, bookingData.startTime, locationName);
+  const eventUid = getBookingEventUid(bookingData.referenceCode, bookingData.bookingDate, bookingData.startTime, locationName);
   const icsContent = generateIcsFile(
     calendarTitle,
     startDateTime,
@@ -3855,10 +3878,30 @@ The Local Cooks Team
   };
 };
 
-export const generateBookingCancellationEmail = (bookingData: { chefEmail: string; chefName: string; kitchenName: string; bookingDate: string; startTime: string; endTime: string; cancellationReason?: string }): EmailContent => {
+export const generateBookingCancellationEmail = (bookingData: { chefEmail: string; chefName: string; kitchenName: string; bookingDate: string; startTime: string; endTime: string; cancellationReason?: string; timezone?: string; locationName?: string; referenceCode?: string | null; cancelCalendarInvite?: boolean }): EmailContent => {
   const firstName = bookingData.chefName.split(' ')[0];
   const subject = `Booking Cancelled - ${bookingData.kitchenName}`;
   const formattedDate = new Date(bookingData.bookingDate).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const timezone = bookingData.timezone || 'America/St_Johns';
+  const locationName = bookingData.locationName || bookingData.kitchenName;
+
+  // Cancel the invite sent with the confirmation email (same UID, METHOD:CANCEL).
+  // Storage cancellations reuse this email without session times, and pending
+  // cancellation requests haven't cancelled anything yet — no invite to cancel.
+  const bookingDateStr = bookingData.bookingDate.split('T')[0];
+  const icsContent = bookingData.cancelCalendarInvite !== false && bookingData.startTime && bookingData.endTime && /^\d{4}-\d{2}-\d{2}$/.test(bookingDateStr)
+    ? generateIcsFile(
+      `Kitchen Booking - ${bookingData.kitchenName}`,
+      createBookingDateTime(bookingDateStr, bookingData.startTime, timezone),
+      createBookingDateTime(bookingDateStr, bookingData.endTime, timezone),
+      locationName,
+      `Cancelled kitchen booking for ${bookingData.kitchenName}.${bookingData.cancellationReason ? `\n\nReason: ${bookingData.cancellationReason}` : ''}`,
+      getSupportEmail(),
+      [bookingData.chefEmail],
+      getBookingEventUid(bookingData.referenceCode, bookingData.bookingDate, bookingData.startTime, locationName),
+      'CANCEL'
+    )
+    : null;
 
   const html = `
 <!DOCTYPE html>
@@ -3923,7 +3966,17 @@ The Local Cooks Team
 © ${new Date().getFullYear()} Local Cooks
   `.trim();
 
-  return { to: bookingData.chefEmail, subject, text, html };
+  return {
+    to: bookingData.chefEmail,
+    subject,
+    text,
+    html,
+    attachments: icsContent ? [{
+      filename: 'kitchen-booking.ics',
+      content: icsContent,
+      contentType: 'text/calendar; charset=utf-8; method=CANCEL'
+    }] : undefined
+  };
 };
 
 // Kitchen availability change notification email for chefs
@@ -7134,3 +7187,87 @@ The Local Cooks Team
 
   return { to: data.chefEmail, subject, text, html };
 };
+
+// Offer a freed kitchen slot to the next chef on the waitlist
+export const generateWaitlistSlotOfferedEmail = (data: {
+  chefEmail: string;
+  chefName: string;
+  kitchenName: string;
+  locationName: string;
+  locationId: number;
+  bookingDate: string | Date;
+  startTime: string;
+  endTime: string;
+  holdExpiresAt: Date;
+  timezone?: string;
+}): EmailContent => {
+  const firstName = data.chefName.split(' ')[0];
+  const subject = `A Slot Opened Up at ${data.kitchenName}`;
+  const formattedDate = new Date(data.bookingDate).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+  const formattedHoldExpiry = data.holdExpiresAt.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: data.timezone || 'America/St_Johns', timeZoneName: 'short' });
+  const bookUrl = `${getSubdomainUrl('chef')}/book-kitchen?location=${data.locationId}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${subject}</title>
+  ${getUniformEmailStyles()}
+</head>
+<body>
+  <div class="email-container">
+    <div class="header">
+      <img src="https://raw.githubusercontent.com/Raunak-Sarmacharya/LocalCooksCommunity/refs/heads/main/attached_assets/emailHeader.png" alt="Local Cooks" class="header-image" />
+    </div>
+    <div class="content">
+      <h2 class="greeting" style="font-size: 22px; margin-bottom: 12px;">Hi ${firstName},</h2>
+      <p class="message" style="margin-bottom: 20px;">Good news — a kitchen time you were on the waitlist for has opened up, and we're <strong>holding it for you</strong>.</p>
+      <div style="background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px 20px; margin: 0 0 24px 0;">
+        <p style="font-size: 15px; line-height: 1.8; color: #475569; margin: 0;"><span style="color: #64748b;">Kitchen:</span> <strong style="color: #1e293b;">${data.kitchenName}</strong></p>
+        <p style="font-size: 15px; line-height: 1.8; color: #475569; margin: 0;"><span style="color: #64748b;">Location:</span> <strong style="color: #1e293b;">${data.locationName}</strong></p>
+        <p style="font-size: 15px; line-height: 1.8; color: #475569; margin: 0;"><span style="color: #64748b;">Date:</span> <strong style="color: #1e293b;">${formattedDate}</strong></p>
+        <p style="font-size: 15px; line-height: 1.8; color: #475569; margin: 0;"><span style="color: #64748b;">Time:</span> <strong style="color: #1e293b;">${data.startTime} – ${data.endTime}</strong></p>
+        <p style="font-size: 15px; line-height: 1.8; color: #475569; margin: 0;"><span style="color: #64748b;">Held until:</span> <strong style="color: #1e293b;">${formattedHoldExpiry}</strong></p>
+      </div>
+      <p style="font-size: 14px; line-height: 1.6; color: #64748b; margin: 0 0 20px 0;">If you don't book before the hold ends, the slot is offered to the next chef on the waitlist.</p>
+      <div style="margin: 16px 0 0 0; text-align: center;">
+        <a href="${bookUrl}" class="cta-button" style="display: inline-block; padding: 10px 24px; background: hsl(347, 91%, 51%); color: #ffffff !important; text-decoration: none !important; border-radius: 6px; font-weight: 500; font-size: 14px; letter-spacing: 0.01em; box-shadow: none; margin: 0;">Book Now</a>
+      </div>
+      <p style="font-size: 13px; line-height: 1.5; color: #94a3b8; margin: 24px 0 0 0;">If you have any questions, contact us at <a href="mailto:${getSupportEmail()}" style="color: hsl(347, 91%, 51%); text-decoration: none;">${getSupportEmail()}</a></p>
+      <div style="margin-top: 28px; padding-top: 20px; border-top: 1px solid #f1f5f9;">
+        <p style="font-size: 15px; color: #64748b; margin: 0;">Best,</p>
+        <p style="font-size: 15px; color: #1e293b; font-weight: 600; margin: 4px 0 0 0;">The Local Cooks Team</p>
+      </div>
+    </div>
+    <div class="footer">
+      <div class="divider"></div>
+      <p class="footer-text">&copy; ${new Date().getFullYear()} Local Cooks</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const text = `
+Hi ${firstName},
+
+A kitchen time you were on the waitlist for has opened up, and we're holding it for you.
+
+Kitchen: ${data.kitchenName} (${data.locationName})
+Date: ${formattedDate}
+Time: ${data.startTime} – ${data.endTime}
+Held until: ${formattedHoldExpiry}
+
+If you don't book before the hold ends, the slot is offered to the next chef on the waitlist.
+
+Book now: ${bookUrl}
+
+Best,
+The Local Cooks Team
+
+© ${new Date().getFullYear()} Local Cooks
+  `.trim();
+
+  return { to: data.chefEmail, subject, text, html };
+};
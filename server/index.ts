@@ -20,6 +20,8 @@ app.set('env', process.env.NODE_ENV || 'development');
 // Must be registered BEFORE express.json() middleware
 // Only apply to the exact webhook endpoint, not sub-routes like /manual-process-session
 app.post('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
+// Smart lock events are HMAC-signed over the raw body too
+app.post('/api/webhooks/smart-lock/:kitchenId', express.raw({ type: 'application/json' }));
 
 // JSON parsing for all other routes
 app.use(express.json({ limit: '12mb' }));
@@ -0,0 +1,73 @@
+/**
+ * Public URL Guard
+ *
+ * Checks for server-side requests to URLs a manager supplies (calendar
+ * feeds, smart lock APIs), so those requests can't reach internal networks
+ * or cloud metadata endpoints.
+ */
+
+import dns from "dns";
+import net from "net";
+
+// ============================================================================
+// BLOCKED ADDRESSES
+// ============================================================================
+
+/** Addresses a manager-supplied URL may not reach: internal networks and cloud metadata (169.254.169.254) */
+const BLOCKED_ADDRESSES = new net.BlockList();
+BLOCKED_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4"); // "this" network
+BLOCKED_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4"); // carrier-grade NAT
+BLOCKED_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.0.0.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("198.18.0.0", 15, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("224.0.0.0", 3, "ipv4"); // multicast and reserved
+BLOCKED_ADDRESSES.addSubnet("::", 127, "ipv6"); // unspecified and loopback
+BLOCKED_ADDRESSES.addSubnet("64:ff9b::", 96, "ipv6"); // NAT64
+BLOCKED_ADDRESSES.addSubnet("fc00::", 7, "ipv6"); // unique local
+BLOCKED_ADDRESSES.addSubnet("fe80::", 10, "ipv6"); // link-local
+BLOCKED_ADDRESSES.addSubnet("ff00::", 8, "ipv6"); // multicast
+
+/** True for addresses server-side fetches must not reach (also matches IPv4-mapped IPv6) */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// ============================================================================
+// URL AND DNS CHECKS
+// ============================================================================
+
+/**
+ * True when the URL is https and its host is not a blocked IP literal.
+ * Hostnames are checked when they resolve, via lookupPublicAddress.
+ */
+export function isPublicHttpsUrl(url: URL): boolean {
+  if (url.protocol !== "https:") return false;
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  return !(net.isIP(host) && isBlockedAddress(host));
+}
+
+/**
+ * dns.lookup that fails when the host resolves to any blocked address. The
+ * connection uses the address checked here, so a second DNS answer can't
+ * point it somewhere else.
+ */
+export const lookupPublicAddress = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void,
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || addresses.some(a => isBlockedAddress(a.address))) {
+      return callback(new Error(`Host ${hostname} does not resolve to a public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
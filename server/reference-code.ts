@@ -11,6 +11,7 @@ const CODE_LENGTH = 6; // 32^6 = ~1 billion combinations per prefix
 // Prefix mapping for each record type
 export const REFERENCE_PREFIXES = {
   kitchen_booking: 'KB',
+  kitchen_booking_series: 'KS',
   storage_booking: 'SB',
   storage_extension: 'EXT',
   overstay_penalty: 'OP',
@@ -49,6 +50,8 @@ export async function generateReferenceCode(type: ReferenceType): Promise<string
       SELECT 1 FROM (
         SELECT reference_code FROM kitchen_bookings WHERE reference_code = ${code}
         UNION ALL
+        SELECT reference_code FROM kitchen_booking_series WHERE reference_code = ${code}
+        UNION ALL
         SELECT reference_code FROM storage_bookings WHERE reference_code = ${code}
         UNION ALL
         SELECT reference_code FROM pending_storage_extensions WHERE reference_code = ${code}
@@ -30,6 +30,7 @@ import {
     sendEmail
 } from "../email";
 import { normalizePhoneForStorage } from "../phone-utils";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, isSupportedCurrency, normalizeCurrency } from "@shared/currency-utils";
 import { hashPassword, comparePasswords } from "../passwordUtils";
 import { getFirestore } from 'firebase-admin/firestore';
 import { initializeFirebaseAdmin } from '../firebase-setup';
@@ -175,7 +176,8 @@ router.get("/revenue/all-managers", requireFirebaseAuthWithUser, requireAdmin, a
         const { startDate, endDate } = req.query;
 
         // Query payment_transactions grouped by manager - this is the same source
-        // of truth that the manager revenue dashboard uses
+        // of truth that the manager revenue dashboard uses. Managers paid in more
+        // than one currency get one row per currency; amounts are never summed across them.
         const conditions = [sql`pt.status = 'succeeded'`];
 
         if (startDate) {
@@ -193,6 +195,7 @@ router.get("/revenue/all-managers", requireFirebaseAuthWithUser, requireAdmin, a
           u.id as manager_id,
           u.username as manager_name,
           u.username as manager_email,
+          UPPER(pt.currency) as currency,
           COALESCE(SUM(pt.amount::numeric), 0)::bigint as total_revenue,
           COALESCE(SUM(pt.service_fee::numeric), 0)::bigint as platform_fee,
           COALESCE(SUM(pt.manager_revenue::numeric), 0)::bigint as manager_revenue,
@@ -201,7 +204,7 @@ router.get("/revenue/all-managers", requireFirebaseAuthWithUser, requireAdmin, a
         FROM users u
         LEFT JOIN payment_transactions pt ON pt.manager_id = u.id AND ${txnFilters}
         WHERE u.role = ${managerRole}
-        GROUP BY u.id, u.username
+        GROUP BY u.id, u.username, UPPER(pt.currency)
         ORDER BY total_revenue DESC
       `);
 
@@ -210,6 +213,7 @@ router.get("/revenue/all-managers", requireFirebaseAuthWithUser, requireAdmin, a
             managerId: parseInt(row.manager_id),
             managerName: row.manager_name,
             managerEmail: row.manager_email,
+            currency: normalizeCurrency(row.currency),
             totalRevenue: (parseInt(row.total_revenue) || 0) / 100,
             platformFee: (parseInt(row.platform_fee) || 0) / 100,
             managerRevenue: (parseInt(row.manager_revenue) || 0) / 100,
@@ -253,8 +257,10 @@ router.get("/revenue/platform-overview", requireFirebaseAuthWithUser, requireAdm
         
         const bookingFilters = sql.join(conditions, sql` AND `);
 
+        // Bookings are charged in their location's currency, so totals are kept per currency
         const bookingResult = await db.execute(sql`
         SELECT 
+          UPPER(kb.currency) as currency,
           COALESCE(SUM(kb.total_price), 0)::bigint as total_revenue,
           COALESCE(SUM(kb.service_fee), 0)::bigint as platform_fee,
           COUNT(*)::int as booking_count,
@@ -264,20 +270,35 @@ router.get("/revenue/platform-overview", requireFirebaseAuthWithUser, requireAdm
         JOIN kitchens k ON kb.kitchen_id = k.id
         JOIN locations l ON k.location_id = l.id
         WHERE ${bookingFilters}
+        GROUP BY UPPER(kb.currency)
+        ORDER BY total_revenue DESC
       `);
 
-        const row = (bookingResult.rows as any[])[0] || {};
-
-        res.json({
+        const byCurrency = (bookingResult.rows as Record<string, string>[]).map((row) => ({
+            currency: normalizeCurrency(row.currency),
             totalPlatformRevenue: (parseInt(row.total_revenue) || 0) / 100,
             totalPlatformFees: (parseInt(row.platform_fee) || 0) / 100,
-            activeManagers: totalManagers, // Use total managers count, not just those with bookings
             totalBookings: parseInt(row.booking_count) || 0,
             paidBookingCount: parseInt(row.paid_count) || 0,
             pendingBookingCount: parseInt(row.pending_count) || 0,
+        }));
+        // Top-level amounts stay in the default currency for older clients; counts cover all currencies
+        const defaultTotals = byCurrency.find((entry) => entry.currency === DEFAULT_CURRENCY);
+        const sumCount = (key: 'totalBookings' | 'paidBookingCount' | 'pendingBookingCount') =>
+            byCurrency.reduce((sum, entry) => sum + entry[key], 0);
+
+        res.json({
+            currency: DEFAULT_CURRENCY,
+            totalPlatformRevenue: defaultTotals?.totalPlatformRevenue || 0,
+            totalPlatformFees: defaultTotals?.totalPlatformFees || 0,
+            activeManagers: totalManagers, // Use total managers count, not just those with bookings
+            totalBookings: sumCount('totalBookings'),
+            paidBookingCount: sumCount('paidBookingCount'),
+            pendingBookingCount: sumCount('pendingBookingCount'),
+            byCurrency,
             _raw: {
-                totalRevenue: parseInt(row.total_revenue) || 0,
-                platformFee: parseInt(row.platform_fee) || 0,
+                totalRevenue: Math.round((defaultTotals?.totalPlatformRevenue || 0) * 100),
+                platformFee: Math.round((defaultTotals?.totalPlatformFees || 0) * 100),
             }
         });
     } catch (error: any) {
@@ -1242,7 +1263,8 @@ router.post("/locations", requireFirebaseAuthWithUser, requireAdmin, async (req:
             address,
             managerId: managerIdNum,
             notificationEmail: req.body.notificationEmail || undefined,
-            notificationPhone: normalizedNotificationPhone
+            notificationPhone: normalizedNotificationPhone,
+            currency: isSupportedCurrency(req.body.currency) ? req.body.currency : undefined,
         });
 
         const mappedLocation = {
@@ -1387,8 +1409,10 @@ router.post("/kitchens", async (req: Request, res: Response) => {
             hourlyRate: undefined,
             minimumBookingHours: 1,
             pricingModel: 'hourly',
-            taxRatePercent: taxRatePercent ? parseFloat(taxRatePercent) : null
+            taxRatePercent: taxRatePercent ? parseFloat(taxRatePercent) : null,
+            currency: normalizeCurrency(location.currency),
         });
+
         res.status(201).json(kitchen);
     } catch (error: any) {
         logger.error("Error creating kitchen:", error);
@@ -1419,7 +1443,11 @@ router.put("/locations/:id", async (req: Request, res: Response) => {
             return res.status(400).json({ error: "Invalid location ID" });
         }
 
-        const { name, address, managerId, notificationEmail, notificationPhone } = req.body;
+        const { name, address, managerId, notificationEmail, notificationPhone, currency } = req.body;
+
+        if (currency !== undefined && !isSupportedCurrency(currency)) {
+            return res.status(400).json({ error: `Currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}` });
+        }
 
         let managerIdNum: number | undefined | null = undefined;
         if (managerId !== undefined && managerId !== null && managerId !== '') {
@@ -1444,6 +1472,7 @@ router.put("/locations/:id", async (req: Request, res: Response) => {
         if (address !== undefined) updates.address = address;
         if (managerIdNum !== undefined) updates.managerId = managerIdNum;
         if (notificationEmail !== undefined) updates.notificationEmail = notificationEmail || null;
+        if (currency !== undefined) updates.currency = currency;
 
         if (notificationPhone !== undefined) {
             if (notificationPhone && notificationPhone.trim() !== '') {
@@ -1464,6 +1493,16 @@ router.put("/locations/:id", async (req: Request, res: Response) => {
             return res.status(404).json({ error: "Location not found" });
         }
 
+        // Kitchens and listings charge in the location's currency; existing bookings keep theirs
+        if (updates.currency !== undefined) {
+            try {
+                const { syncLocationCurrency } = await import('../services/location-currency-service');
+                await syncLocationCurrency(locationId);
+            } catch (currencyError) {
+                logger.error(`Error syncing currency for location ${locationId}:`, currencyError);
+            }
+        }
+
         const mappedLocation = {
             ...updated,
             managerId: (updated as any).managerId || (updated as any).manager_id || null,
@@ -2142,6 +2181,8 @@ router.get("/fees/config", requireFirebaseAuthWithUser, requireAdmin, async (req
             .where(sql`key IN (
                 'stripe_percentage_fee',
                 'stripe_flat_fee_cents',
+                'stripe_percentage_fee_usd',
+                'stripe_flat_fee_cents_usd',
                 'platform_commission_rate',
                 'minimum_application_fee_cents'
             )`);
@@ -2164,11 +2205,14 @@ router.get("/fees/config", requireFirebaseAuthWithUser, requireAdmin, async (req
                 platformCommissionRateDisplay: `${(config.platformCommissionRate * 100).toFixed(1)}%`,
                 minimumApplicationFeeCents: config.minimumApplicationFeeCents,
                 minimumApplicationFeeDisplay: `$${(config.minimumApplicationFeeCents / 100).toFixed(2)}`,
+                stripeEstimatesByCurrency: config.stripeEstimatesByCurrency,
             },
             rawSettings: settingsMap,
             documentation: {
                 stripePercentageFee: "Stripe's processing fee percentage for display estimates (e.g., 0.029 for 2.9%). Actual fee deducted from transfer is read from Stripe at capture time.",
                 stripeFlatFeeCents: "Stripe's flat fee per transaction in cents for display estimates (e.g., 30 for $0.30).",
+                stripePercentageFeeUsd: "Stripe percentage estimate for USD locations. Defaults to stripePercentageFee.",
+                stripeFlatFeeCentsUsd: "Stripe flat fee estimate in US cents for USD locations. Defaults to stripeFlatFeeCents.",
                 platformCommissionRate: "Platform's commission rate (e.g., 0.05 for 5%). Deducted from manager's transfer along with the actual Stripe fee.",
                 minimumApplicationFeeCents: "Minimum platform commission floor in cents to ensure profitability.",
             },
@@ -2197,6 +2241,8 @@ router.put("/fees/config", requireFirebaseAuthWithUser, requireAdmin, async (req
         const {
             stripePercentageFee,
             stripeFlatFeeCents,
+            stripePercentageFeeUsd,
+            stripeFlatFeeCentsUsd,
             platformCommissionRate,
             minimumApplicationFeeCents,
         } = req.body;
@@ -2228,6 +2274,30 @@ router.put("/fees/config", requireFirebaseAuthWithUser, requireAdmin, async (req
             });
         }
 
+        if (stripePercentageFeeUsd !== undefined) {
+            const fee = parseFloat(stripePercentageFeeUsd);
+            if (isNaN(fee) || fee < 0 || fee > 0.5) {
+                return res.status(400).json({ error: 'stripePercentageFeeUsd must be between 0 and 0.5 (50%)' });
+            }
+            updates.push({
+                key: 'stripe_percentage_fee_usd',
+                value: fee.toString(),
+                description: 'Stripe processing fee percentage for USD locations (e.g., 0.029 for 2.9%)',
+            });
+        }
+
+        if (stripeFlatFeeCentsUsd !== undefined) {
+            const cents = parseInt(stripeFlatFeeCentsUsd, 10);
+            if (isNaN(cents) || cents < 0 || cents > 500) {
+                return res.status(400).json({ error: 'stripeFlatFeeCentsUsd must be between 0 and 500 ($5.00)' });
+            }
+            updates.push({
+                key: 'stripe_flat_fee_cents_usd',
+                value: cents.toString(),
+                description: 'Stripe flat fee in US cents for USD locations (e.g., 30 for $0.30)',
+            });
+        }
+
         if (platformCommissionRate !== undefined) {
             const rate = parseFloat(platformCommissionRate);
             if (isNaN(rate) || rate < 0 || rate > 0.5) {
@@ -2296,6 +2366,7 @@ router.put("/fees/config", requireFirebaseAuthWithUser, requireAdmin, async (req
                 stripeFlatFeeCents: newConfig.stripeFlatFeeCents,
                 platformCommissionRate: newConfig.platformCommissionRate,
                 minimumApplicationFeeCents: newConfig.minimumApplicationFeeCents,
+                stripeEstimatesByCurrency: newConfig.stripeEstimatesByCurrency,
             },
         });
     } catch (error) {
@@ -3048,6 +3119,8 @@ router.get("/escalated-penalties", requireFirebaseAuthWithUser, requireAdmin, as
                 sor.calculated_penalty_cents as "calculatedPenaltyCents",
                 sor.final_penalty_cents as "finalPenaltyCents",
                 sor.charge_failure_reason as "chargeFailureReason",
+                sor.charge_retry_count as "chargeRetryCount",
+                sor.next_charge_retry_at as "nextChargeRetryAt",
                 sor.detected_at as "detectedAt",
                 sor.resolved_at as "resolvedAt",
                 sl.name as "storageName",
@@ -3077,6 +3150,8 @@ router.get("/escalated-penalties", requireFirebaseAuthWithUser, requireAdmin, as
                 dc.claimed_amount_cents as "claimedAmountCents",
                 dc.final_amount_cents as "finalAmountCents",
                 dc.charge_failure_reason as "chargeFailureReason",
+                dc.charge_retry_count as "chargeRetryCount",
+                dc.next_charge_retry_at as "nextChargeRetryAt",
                 dc.booking_type as "bookingType",
                 dc.created_at as "createdAt",
                 loc.name as "locationName",
@@ -3107,6 +3182,9 @@ router.get("/escalated-penalties", requireFirebaseAuthWithUser, requireAdmin, as
                 ].reduce((sum, val) => sum + val, 0),
                 totalOverstays: allOverstays.length,
                 totalClaims: allClaims.length,
+                // Dunning queue: failed charges waiting for their next automatic retry
+                totalRetryingOverstays: allOverstays.filter(o => o.status === 'charge_failed' && o.nextChargeRetryAt).length,
+                totalRetryingClaims: allClaims.filter(c => c.status === 'charge_failed' && c.nextChargeRetryAt).length,
             },
         });
     } catch (error) {
@@ -3115,6 +3193,153 @@ router.get("/escalated-penalties", requireFirebaseAuthWithUser, requireAdmin, as
     }
 });
 
+/**
+ * GET /admin/charge-retry-settings
+ * Backoff schedule for retrying failed penalty and damage claim charges
+ */
+router.get("/charge-retry-settings", requireFirebaseAuthWithUser, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+        const { getChargeRetryBackoffHours, DEFAULT_CHARGE_RETRY_BACKOFF_HOURS } = await import('../services/charge-retry-service');
+        res.json({
+            backoffHours: await getChargeRetryBackoffHours(),
+            defaults: { backoffHours: DEFAULT_CHARGE_RETRY_BACKOFF_HOURS },
+        });
+    } catch (error) {
+        logger.error("Error fetching charge retry settings:", error);
+        res.status(500).json({ error: "Failed to fetch charge retry settings" });
+    }
+});
+
+/**
+ * PUT /admin/charge-retry-settings
+ * Update the backoff schedule (hours after each failure). An empty list escalates on the first failure.
+ */
+router.put("/charge-retry-settings", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { validateChargeRetryBackoff, setChargeRetryBackoffHours } = await import('../services/charge-retry-service');
+        const { backoffHours } = req.body;
+
+        const validationError = validateChargeRetryBackoff(backoffHours);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await setChargeRetryBackoffHours(backoffHours);
+        logger.info('[Admin] Updated charge retry schedule:', { backoffHours });
+
+        res.json({ success: true, backoffHours });
+    } catch (error) {
+        logger.error("Error updating charge retry settings:", error);
+        res.status(500).json({ error: "Failed to update charge retry settings" });
+    }
+});
+
+// ============================================================================
+// STRIPE RECONCILIATION
+// ============================================================================
+
+/**
+ * GET /admin/reconciliation/issues?status=open|fixed|dismissed|all
+ * Differences between Stripe balance transactions and the payment ledger
+ */
+router.get("/reconciliation/issues", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const status = String(req.query.status || "open");
+        if (!["open", "fixed", "dismissed", "all"].includes(status)) {
+            return res.status(400).json({ error: "Status must be open, fixed, dismissed or all" });
+        }
+
+        const { getReconciliationIssues, getReconciliationFixAction } = await import('../services/stripe-reconciliation-service');
+        const issues = await getReconciliationIssues(status as "open" | "fixed" | "dismissed" | "all");
+        res.json({
+            issues: issues.map(issue => ({
+                ...issue,
+                fixAction: issue.status === "open" ? getReconciliationFixAction(issue) : null,
+            })),
+        });
+    } catch (error) {
+        logger.error("Error fetching reconciliation issues:", error);
+        res.status(500).json({ error: "Failed to fetch reconciliation issues" });
+    }
+});
+
+/**
+ * POST /admin/reconciliation/run
+ * Reconcile balance transactions between startDate and endDate (YYYY-MM-DD, at most 90 days)
+ */
+router.post("/reconciliation/run", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { startDate, endDate } = req.body || {};
+        const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+        if (
+            typeof startDate !== "string" || !datePattern.test(startDate) ||
+            typeof endDate !== "string" || !datePattern.test(endDate) ||
+            startDate > endDate
+        ) {
+            return res.status(400).json({ error: "startDate and endDate (YYYY-MM-DD) are required" });
+        }
+        const days = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000);
+        if (days > 90) {
+            return res.status(400).json({ error: "Reconcile at most 90 days at a time" });
+        }
+
+        const { runStripeReconciliation } = await import('../services/stripe-reconciliation-service');
+        const result = await runStripeReconciliation(startDate, endDate);
+        logger.info(`[Admin] Stripe reconciliation run by admin ${req.neonUser!.id}:`, result);
+        res.json(result);
+    } catch (error) {
+        logger.error("Error running Stripe reconciliation:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to run reconciliation" });
+    }
+});
+
+/**
+ * POST /admin/reconciliation/issues/:id/fix
+ * Apply the issue's fix (backfill the ledger row, take Stripe's amount or fee, record the refund)
+ */
+router.post("/reconciliation/issues/:id/fix", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const issueId = parseInt(req.params.id);
+        if (isNaN(issueId)) {
+            return res.status(400).json({ error: "Invalid issue ID" });
+        }
+
+        const { fixReconciliationIssue } = await import('../services/stripe-reconciliation-service');
+        const result = await fixReconciliationIssue(issueId, req.neonUser!.id);
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+        res.json(result.issue);
+    } catch (error) {
+        logger.error("Error fixing reconciliation issue:", error);
+        res.status(500).json({ error: "Failed to fix reconciliation issue" });
+    }
+});
+
+/**
+ * POST /admin/reconciliation/issues/:id/dismiss
+ * Close an issue without changing the ledger
+ */
+router.post("/reconciliation/issues/:id/dismiss", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const issueId = parseInt(req.params.id);
+        if (isNaN(issueId)) {
+            return res.status(400).json({ error: "Invalid issue ID" });
+        }
+        const reason = typeof req.body?.reason === "string" ? req.body.reason.trim().slice(0, 500) : "";
+
+        const { dismissReconciliationIssue } = await import('../services/stripe-reconciliation-service');
+        const result = await dismissReconciliationIssue(issueId, req.neonUser!.id, reason);
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+        res.json(result.issue);
+    } catch (error) {
+        logger.error("Error dismissing reconciliation issue:", error);
+        res.status(500).json({ error: "Failed to dismiss reconciliation issue" });
+    }
+});
+
 // ============================================================================
 // ADMIN TRANSACTION HISTORY
 // ============================================================================
@@ -3901,4 +4126,157 @@ router.post("/access-codes/emergency-revoke", requireFirebaseAuthWithUser, requi
     }
 });
 
+// ============================================================================
+// PROMO CODES (Admin)
+// ============================================================================
+
+/**
+ * GET /admin/promo-codes
+ * List promo codes with their redemption counts
+ */
+router.get("/promo-codes", requireFirebaseAuthWithUser, requireAdmin, async (_req: Request, res: Response) => {
+    try {
+        const { getPromoCodes } = await import('../services/promo-code-service');
+        res.json(await getPromoCodes());
+    } catch (error) {
+        logger.error("Error fetching promo codes:", error);
+        res.status(500).json({ error: "Failed to fetch promo codes" });
+    }
+});
+
+/**
+ * POST /admin/promo-codes
+ * Create a promo code
+ */
+router.post("/promo-codes", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { validatePromoCodeInput, createPromoCode } = await import('../services/promo-code-service');
+        const validationError = validatePromoCodeInput(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const promo = await createPromoCode(req.body, req.neonUser!.id);
+        logger.info(`[Admin] Promo code ${promo.code} created by admin ${req.neonUser!.id}`);
+        res.status(201).json(promo);
+    } catch (error) {
+        if ((error as { code?: string })?.code === '23505') {
+            return res.status(409).json({ error: "A promo code with this code already exists" });
+        }
+        logger.error("Error creating promo code:", error);
+        res.status(500).json({ error: "Failed to create promo code" });
+    }
+});
+
+/**
+ * PUT /admin/promo-codes/:id
+ * Update a promo code. Existing redemptions keep the discount they were given.
+ */
+router.put("/promo-codes/:id", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: "Invalid promo code ID" });
+        }
+
+        const { validatePromoCodeInput, updatePromoCode } = await import('../services/promo-code-service');
+        const validationError = validatePromoCodeInput(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const promo = await updatePromoCode(id, req.body);
+        if (!promo) {
+            return res.status(404).json({ error: "Promo code not found" });
+        }
+        res.json(promo);
+    } catch (error) {
+        if ((error as { code?: string })?.code === '23505') {
+            return res.status(409).json({ error: "A promo code with this code already exists" });
+        }
+        logger.error("Error updating promo code:", error);
+        res.status(500).json({ error: "Failed to update promo code" });
+    }
+});
+
+/**
+ * DELETE /admin/promo-codes/:id
+ * Delete a promo code. Redemption history is kept (with the code text).
+ */
+router.delete("/promo-codes/:id", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: "Invalid promo code ID" });
+        }
+
+        const { deletePromoCode } = await import('../services/promo-code-service');
+        if (!(await deletePromoCode(id))) {
+            return res.status(404).json({ error: "Promo code not found" });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        logger.error("Error deleting promo code:", error);
+        res.status(500).json({ error: "Failed to delete promo code" });
+    }
+});
+
+
+// ============================================================================
+// CHEF WALLET CREDIT (Admin)
+// ============================================================================
+
+/**
+ * GET /admin/chefs/:chefId/wallet
+ * A chef's wallet balance, credit lots and history
+ */
+router.get("/chefs/:chefId/wallet", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const chefId = parseInt(req.params.chefId);
+        if (isNaN(chefId)) {
+            return res.status(400).json({ error: "Invalid chef ID" });
+        }
+
+        const { getWalletSummary } = await import('../services/chef-wallet-service');
+        res.json(await getWalletSummary(chefId));
+    } catch (error) {
+        logger.error("Error fetching chef wallet:", error);
+        res.status(500).json({ error: "Failed to fetch chef wallet" });
+    }
+});
+
+/**
+ * POST /admin/chefs/:chefId/wallet-credits
+ * Grant platform-funded promotional credit, optionally limited to one location
+ */
+router.post("/chefs/:chefId/wallet-credits", requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const chefId = parseInt(req.params.chefId);
+        if (isNaN(chefId)) {
+            return res.status(400).json({ error: "Invalid chef ID" });
+        }
+
+        const chef = await userService.getUser(chefId);
+        if (!chef || (!chef.isChef && chef.role !== 'chef')) {
+            return res.status(404).json({ error: "Chef not found" });
+        }
+
+        const { validatePromotionalCreditInput, grantPromotionalCredit } = await import('../services/chef-wallet-service');
+        const validationError = validatePromotionalCreditInput(req.body || {});
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+        if (req.body.locationId && !(await locationService.getLocationById(req.body.locationId))) {
+            return res.status(400).json({ error: "Location not found" });
+        }
+
+        const entry = await grantPromotionalCredit(chefId, req.body, req.neonUser!.id);
+        logger.info(`[Admin] ${entry.amountCents}¢ promotional wallet credit granted to chef ${chefId} by admin ${req.neonUser!.id}`);
+        res.status(201).json(entry);
+    } catch (error) {
+        logger.error("Error granting wallet credit:", error);
+        res.status(500).json({ error: "Failed to grant wallet credit" });
+    }
+});
+
 export default router;
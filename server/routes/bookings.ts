@@ -9,14 +9,17 @@ import {
     storageListings,
     equipmentListings,
     paymentTransactions,
-    checkinCheckoutChecklists,
 } from "@shared/schema";
 import { eq, and, or, desc, inArray } from "drizzle-orm";
 import { logger } from "../logger";
 import { requireChef, requireNoUnpaidPenalties } from "./middleware";
 import { requireFirebaseAuthWithUser } from "../firebase-auth-middleware";
 import { createPaymentIntent } from "../services/stripe-service";
-import { calculateKitchenBookingPrice } from "../services/pricing-service";
+import { calculateKitchenBookingPrice, getKitchenOnlyPriceCents } from "../services/pricing-service";
+import type { AppliedPromo } from "../services/promo-code-service";
+import type { AppliedWalletCredit } from "../services/chef-wallet-service";
+import { getBookingDaySegments, getDayOffset } from "@shared/timezone-utils";
+import { normalizeCurrency, toStripeCurrency } from "@shared/currency-utils";
 import { userService } from "../domains/users/user.service";
 import { bookingService } from "../domains/bookings/booking.service";
 import { inventoryService } from "../domains/inventory/inventory.service";
@@ -88,9 +91,13 @@ router.post("/bookings/checkout", async (req: Request, res: Response) => {
             return res.status(404).json({ error: "Booking not found" });
         }
 
+        // Charge in the currency of the kitchen's location
+        const { getKitchenCurrency } = await import('../services/location-currency-service');
+        const currency = await getKitchenCurrency(booking.kitchenId);
+
         // Calculate fees using database-driven configuration (admin-configurable)
         const { calculateCheckoutFeesAsync } = await import('../services/stripe-checkout-fee-service');
-        const feeCalculation = await calculateCheckoutFeesAsync(Math.round(bookingPriceNum * 100));
+        const feeCalculation = await calculateCheckoutFeesAsync(Math.round(bookingPriceNum * 100), currency);
 
         // Get base URL for success/cancel URLs
         const baseUrl = getBaseUrl(req);
@@ -103,7 +110,7 @@ router.post("/bookings/checkout", async (req: Request, res: Response) => {
             managerStripeAccountId,
             customerEmail,
             bookingId,
-            currency: 'cad',
+            currency: currency.toLowerCase(),
             successUrl: `${baseUrl}/booking-success?session_id={CHECKOUT_SESSION_ID}`,
             cancelUrl: `${baseUrl}/booking-cancel?booking_id=${bookingId}`,
             metadata: {
@@ -746,6 +753,9 @@ async function processExpiredCancellationRequests(): Promise<{ processed: number
                     }
                 }
 
+                const { offerFreedSlotToWaitlist } = await import("../services/kitchen-waitlist-service");
+                await offerFreedSlotToWaitlist(booking.id);
+
                 results.accepted++;
                 logger.info(`[Cron] Auto-accepted cancellation request for kitchen booking ${booking.id}`);
             } catch (err) {
@@ -829,6 +839,15 @@ async function processExpiredCancellationRequests(): Promise<{ processed: number
  *    - Finds bookings/extensions with 'authorized' payment status older than 24 hours
  *    - Cancels the Stripe PaymentIntent to release the hold on the chef's card
  *    - Rejects the booking/extension and notifies the chef
+ *    - Offers the freed kitchen slots to waitlisted chefs
+ * 
+ * 10. WAITLIST HOLD EXPIRY:
+ *    - Expires waitlist holds the chef didn't book in time
+ *    - Offers the slot to the next chef on the waitlist
+ * 
+ * 11. EXTERNAL CALENDAR RE-SYNC:
+ *    - Re-fetches every active kitchen calendar import
+ *    - Updates the kitchen blocks and notifies managers of new conflicts
  * 
  * Security: Uses Vercel cron secret for authentication
  */
@@ -1096,6 +1115,76 @@ router.post("/detect-overstays", async (req: Request, res: Response) => {
         }
         logger.info("[Cron] Check-in reminders complete:", checkinReminderResults);
 
+        // Task 10: Expire lapsed waitlist holds and offer the slots to the next chef in line
+        logger.info("[Cron] Task 10: Expiring waitlist holds...");
+        const { processExpiredWaitlistHolds } = await import("../services/kitchen-waitlist-service");
+        const waitlistHoldResults = await processExpiredWaitlistHolds();
+        logger.info("[Cron] Waitlist hold expiry complete:", waitlistHoldResults);
+
+        // Task 11: Re-sync external calendars that block kitchen availability
+        logger.info("[Cron] Task 11: Syncing external kitchen calendars...");
+        const { syncAllCalendarImports } = await import("../services/kitchen-calendar-import-service");
+        const calendarImportResults = await syncAllCalendarImports();
+        logger.info("[Cron] External calendar sync complete:", calendarImportResults);
+
+        // Task 12: Release abandoned wallet holds, return credit from cancelled bookings, expire lapsed credit
+        logger.info("[Cron] Task 12: Chef wallet maintenance...");
+        const { processWalletMaintenance } = await import("../services/chef-wallet-service");
+        const walletResults = await processWalletMaintenance();
+        logger.info("[Cron] Chef wallet maintenance complete:", walletResults);
+
+        // Task 13: Renew monthly storage subscriptions and retry failed renewals
+        logger.info("[Cron] Task 13: Renewing storage subscriptions...");
+        const { processStorageSubscriptionRenewals } = await import("../services/storage-subscription-service");
+        const storageSubscriptionResults = await processStorageSubscriptionRenewals();
+        logger.info("[Cron] Storage subscription renewals complete:", storageSubscriptionResults);
+
+        // Task 14: Retry failed overstay penalty and damage claim charges that are due (dunning)
+        logger.info("[Cron] Task 14: Retrying failed penalty and claim charges...");
+        const { processDueChargeRetries } = await import("../services/charge-retry-service");
+        const chargeRetryResults = await processDueChargeRetries();
+        logger.info("[Cron] Charge retries complete:", chargeRetryResults);
+
+        // Task 15: Reconcile the last two days of Stripe balance transactions against the ledger
+        logger.info("[Cron] Task 15: Reconciling Stripe balance transactions...");
+        let reconciliationResults: unknown = { skipped: true };
+        try {
+            const { runStripeReconciliation } = await import("../services/stripe-reconciliation-service");
+            const today = new Date();
+            const twoDaysAgo = new Date(today.getTime() - 2 * 24 * 60 * 60 * 1000);
+            reconciliationResults = await runStripeReconciliation(
+                twoDaysAgo.toISOString().split('T')[0],
+                today.toISOString().split('T')[0],
+            );
+        } catch (reconciliationError) {
+            logger.error("[Cron] Stripe reconciliation failed:", reconciliationError);
+        }
+        logger.info("[Cron] Stripe reconciliation complete:", reconciliationResults);
+
+        // Task 16: Release security deposits for settled bookings and flag lapsed authorizations
+        logger.info("[Cron] Task 16: Releasing security deposits...");
+        const { processSecurityDepositReleases } = await import("../services/security-deposit-service");
+        const securityDepositResults = await processSecurityDepositReleases();
+        logger.info("[Cron] Security deposit releases complete:", securityDepositResults);
+
+        // Task 17: Propose overtime for late kitchen check-outs that were missed at checkout
+        logger.info("[Cron] Task 17: Detecting kitchen overtime...");
+        const { detectKitchenOvertime } = await import("../services/kitchen-overtime-service");
+        const kitchenOvertimeResults = await detectKitchenOvertime();
+        logger.info("[Cron] Kitchen overtime detection complete:", kitchenOvertimeResults);
+
+        // Task 18: Release promo code uses reserved by abandoned checkouts
+        logger.info("[Cron] Task 18: Releasing abandoned promo code reservations...");
+        const { releaseStalePromoReservations } = await import("../services/promo-code-service");
+        const promoReservationsReleased = await releaseStalePromoReservations();
+        logger.info("[Cron] Promo code reservation release complete:", { released: promoReservationsReleased });
+
+        // Task 19: Retry access codes the smart lock did not accept
+        logger.info("[Cron] Task 19: Retrying access code pushes to smart locks...");
+        const { retryAccessCodePushes } = await import("../services/kitchen-checkout-service");
+        const accessCodePushRetryResults = await retryAccessCodePushes();
+        logger.info("[Cron] Access code push retry complete:", accessCodePushRetryResults);
+
         logger.info("[Cron] All daily scheduled tasks complete");
 
         res.json({
@@ -1144,6 +1233,36 @@ router.post("/detect-overstays", async (req: Request, res: Response) => {
             checkinReminders: {
                 summary: checkinReminderResults,
             },
+            waitlistHolds: {
+                summary: waitlistHoldResults,
+            },
+            calendarImports: {
+                summary: calendarImportResults,
+            },
+            wallet: {
+                summary: walletResults,
+            },
+            storageSubscriptions: {
+                summary: storageSubscriptionResults,
+            },
+            chargeRetries: {
+                summary: chargeRetryResults,
+            },
+            stripeReconciliation: {
+                summary: reconciliationResults,
+            },
+            securityDeposits: {
+                summary: securityDepositResults,
+            },
+            kitchenOvertime: {
+                summary: kitchenOvertimeResults,
+            },
+            promoReservations: {
+                summary: { released: promoReservationsReleased },
+            },
+            accessCodePushRetry: {
+                summary: accessCodePushRetryResults,
+            },
         });
     } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : "Failed to run daily tasks";
@@ -1216,6 +1335,17 @@ router.post("/chef/storage-bookings/:id/extension-preview", requireChef, require
             return res.status(400).json({ error: "Cannot extend a completed booking. Storage has already been cleared." });
         }
 
+        // Monthly subscriptions move the end date on each renewal
+        {
+            const { getLiveStorageSubscription } = await import("../services/storage-subscription-service");
+            if (await getLiveStorageSubscription(id)) {
+                return res.status(400).json({
+                    error: "This storage renews monthly. Cancel the subscription at period end before extending to a fixed date.",
+                    code: "ACTIVE_SUBSCRIPTION",
+                });
+            }
+        }
+
         // INDUSTRY STANDARD: Block extensions on bookings with active overstay penalties
         // Self-storage law: tenant must settle outstanding balance before renewing/extending
         {
@@ -1291,7 +1421,7 @@ router.post("/chef/storage-bookings/:id/extension-preview", requireChef, require
             taxRatePercent,
             extensionTax: extensionTaxDollars,
             extensionTotalPrice: extensionTotalPriceDollars,
-            currency: 'CAD',
+            currency: normalizeCurrency(storageListing?.currency),
         });
     } catch (error: any) {
         logger.error("Error calculating extension preview:", error);
@@ -1335,6 +1465,17 @@ router.post("/chef/storage-bookings/:id/extension-checkout", requireChef, requir
             return res.status(400).json({ error: "Cannot extend a completed booking. Storage has already been cleared." });
         }
 
+        // Monthly subscriptions move the end date on each renewal
+        {
+            const { getLiveStorageSubscription } = await import("../services/storage-subscription-service");
+            if (await getLiveStorageSubscription(id)) {
+                return res.status(400).json({
+                    error: "This storage renews monthly. Cancel the subscription at period end before extending to a fixed date.",
+                    code: "ACTIVE_SUBSCRIPTION",
+                });
+            }
+        }
+
         // INDUSTRY STANDARD: Block extensions on bookings with active overstay penalties
         // Self-storage law: tenant must settle outstanding balance before renewing/extending
         {
@@ -1399,7 +1540,7 @@ router.post("/chef/storage-bookings/:id/extension-checkout", requireChef, requir
 
         // Calculate platform fees on total (base + tax) - deducted from manager's share
         const { calculateCheckoutFeesAsync } = await import('../services/stripe-checkout-fee-service');
-        const feeCalculation = await calculateCheckoutFeesAsync(totalWithTaxCents);
+        const feeCalculation = await calculateCheckoutFeesAsync(totalWithTaxCents, kitchen.currency);
 
         const location = await locationService.getLocationById(kitchen.locationId);
         if (!location) {
@@ -1442,7 +1583,7 @@ router.post("/chef/storage-bookings/:id/extension-checkout", requireChef, requir
             managerStripeAccountId,
             customerEmail: chefEmail,
             bookingId: id, // Using storage booking ID for legacy compatibility
-            currency: 'cad',
+            currency: toStripeCurrency(kitchen.currency),
             successUrl: `${baseUrl}/dashboard?storage_extended=true&storage_booking_id=${id}`,
             cancelUrl: `${baseUrl}/dashboard?storage_extension_cancelled=true&storage_booking_id=${id}`,
             lineItemName: 'Storage Extension',
@@ -1727,6 +1868,77 @@ router.put("/chef/storage-bookings/:id/extend", requireChef, async (req: Request
     }
 });
 
+// ============================================================================
+// MONTHLY STORAGE SUBSCRIPTIONS
+// Auto-renewing storage charged to the booking's saved card on the 1st of each month
+// ============================================================================
+
+// Current subscription, or the prorated cost of starting one
+router.get("/chef/storage-bookings/:id/subscription", requireChef, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid storage booking ID" });
+
+        const { getChefStorageSubscription } = await import("../services/storage-subscription-service");
+        const result = await getChefStorageSubscription(id, req.neonUser!.id);
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+
+        res.json({
+            subscription: result.subscription,
+            preview: result.preview,
+            unavailableReason: result.unavailableReason,
+        });
+    } catch (error) {
+        logger.error("Error fetching storage subscription:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch storage subscription" });
+    }
+});
+
+// Start a monthly subscription (charges the prorated first period now)
+router.post("/chef/storage-bookings/:id/subscription", requireChef, requireNoUnpaidPenalties, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid storage booking ID" });
+
+        const { startStorageSubscription } = await import("../services/storage-subscription-service");
+        const result = await startStorageSubscription(id, req.neonUser!.id);
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+
+        res.status(201).json({ success: true, subscription: result.subscription });
+    } catch (error) {
+        logger.error("Error starting storage subscription:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to start storage subscription" });
+    }
+});
+
+// Cancel at period end, or resume a subscription set to cancel
+router.put("/chef/storage-bookings/:id/subscription", requireChef, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid storage booking ID" });
+
+        const { cancelAtPeriodEnd } = req.body || {};
+        if (typeof cancelAtPeriodEnd !== "boolean") {
+            return res.status(400).json({ error: "cancelAtPeriodEnd must be true or false" });
+        }
+
+        const { setStorageSubscriptionCancelAtPeriodEnd } = await import("../services/storage-subscription-service");
+        const result = await setStorageSubscriptionCancelAtPeriodEnd(id, req.neonUser!.id, cancelAtPeriodEnd);
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+
+        res.json({ success: true, subscription: result.subscription });
+    } catch (error) {
+        logger.error("Error updating storage subscription:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update storage subscription" });
+    }
+});
+
 // ============================================================================
 // STORAGE CHECKOUT WORKFLOW (Hybrid Verification System)
 // Chef initiates checkout -> Manager verifies -> Prevents unwarranted overstay penalties
@@ -1740,7 +1952,7 @@ router.post("/chef/storage-bookings/:id/request-checkout", requireChef, async (r
             return res.status(400).json({ error: "Invalid storage booking ID" });
         }
 
-        const { checkoutNotes, checkoutPhotoUrls, checkoutChecklistItems } = req.body;
+        const { checkoutNotes, checkoutPhotoUrls, checkoutChecklistItems, checkoutPhotosByRequirement } = req.body;
         const chefId = req.neonUser!.id;
 
         // Import the checkout service
@@ -1751,7 +1963,8 @@ router.post("/chef/storage-bookings/:id/request-checkout", requireChef, async (r
             chefId,
             checkoutNotes,
             checkoutPhotoUrls,
-            checkoutChecklistItems
+            checkoutChecklistItems,
+            checkoutPhotosByRequirement
         );
 
         if (!result.success) {
@@ -1782,7 +1995,7 @@ router.post("/chef/storage-bookings/:id/checkin", requireChef, async (req: Reque
             return res.status(400).json({ error: "Invalid storage booking ID" });
         }
 
-        const { checkinNotes, checkinPhotoUrls, checkinChecklistItems } = req.body;
+        const { checkinNotes, checkinPhotoUrls, checkinChecklistItems, checkinPhotosByRequirement } = req.body;
         const chefId = req.neonUser!.id;
 
         // Import the check-in service
@@ -1793,7 +2006,8 @@ router.post("/chef/storage-bookings/:id/checkin", requireChef, async (req: Reque
             chefId,
             checkinNotes,
             checkinPhotoUrls,
-            checkinChecklistItems
+            checkinChecklistItems,
+            checkinPhotosByRequirement
         );
 
         if (!result.success) {
@@ -2200,11 +2414,9 @@ router.get("/chef/bookings/:id/details", requireChef, async (req: Request, res:
             logger.error("Error fetching payment transaction:", err);
         }
 
-        // Calculate correct kitchen price from hourly rate and duration
+        // Calculate correct kitchen price from the stored rate tiers (or hourly rate × duration)
         // The totalPrice in DB may include storage/equipment, so we calculate kitchen-only price
-        const hourlyRate = booking.hourlyRate ? parseFloat(booking.hourlyRate.toString()) : 0;
-        const durationHours = booking.durationHours ? parseFloat(booking.durationHours.toString()) : 0;
-        const calculatedKitchenPrice = Math.round(hourlyRate * durationHours);
+        const calculatedKitchenPrice = getKitchenOnlyPriceCents(booking);
         
         // Use calculated price if available, otherwise fall back to stored totalPrice
         const kitchenOnlyPrice = calculatedKitchenPrice > 0 ? calculatedKitchenPrice : (booking.totalPrice || 0);
@@ -2453,6 +2665,7 @@ router.get("/chef/invoices/storage/:id", requireChef, async (req: Request, res:
             kitchenName: kitchen?.name || (storageBooking as any).kitchenName || 'Kitchen',
             locationName: locationName || 'Location',
             locationAddress,
+            locationId: kitchen?.locationId,
             taxRatePercent,
         };
 
@@ -2509,6 +2722,7 @@ router.put("/chef/bookings/:id/cancel", requireChef, async (req: Request, res: R
         const rows = await db
             .select({
                 id: kitchenBookings.id,
+                referenceCode: kitchenBookings.referenceCode,
                 bookingDate: kitchenBookings.bookingDate,
                 startTime: kitchenBookings.startTime,
                 endTime: kitchenBookings.endTime,
@@ -2517,10 +2731,12 @@ router.put("/chef/bookings/:id/cancel", requireChef, async (req: Request, res: R
                 chefId: kitchenBookings.chefId,
                 paymentIntentId: kitchenBookings.paymentIntentId,
                 paymentStatus: kitchenBookings.paymentStatus,
+                seriesId: kitchenBookings.seriesId,
                 cancellationPolicyHours: locations.cancellationPolicyHours,
                 cancellationPolicyMessage: locations.cancellationPolicyMessage,
                 locationId: locations.id,
                 locationName: locations.name,
+                timezone: locations.timezone,
                 managerId: locations.managerId,
                 notificationEmail: locations.notificationEmail,
             })
@@ -2564,6 +2780,37 @@ router.put("/chef/bookings/:id/cancel", requireChef, async (req: Request, res: R
             return res.status(400).json({ error: policyMessage });
         }
 
+        // ── SERIES OCCURRENCE: the PaymentIntent is shared by the whole series ──
+        // Voiding it here would cancel every occurrence, so delegate to the series service.
+        if (booking.seriesId) {
+            const { cancelSeriesOccurrences } = await import('../services/booking-series-service');
+            const result = await cancelSeriesOccurrences({
+                seriesId: booking.seriesId,
+                fromBookingId: id,
+                scope: 'this',
+                cancelledBy: 'chef',
+                reason,
+            });
+            if (!result.success) {
+                return res.status(400).json({ error: result.error });
+            }
+            const action = result.cancellationRequestedIds?.includes(id) ? 'cancellation_requested' : 'cancelled';
+            if (action === 'cancelled') {
+                const { offerFreedSlotToWaitlist } = await import('../services/kitchen-waitlist-service');
+                await offerFreedSlotToWaitlist(id);
+            }
+            sendCancellationNotifications(booking, id, action).catch(err =>
+                logger.error(`[Cancel Booking] Notification error for booking ${id}:`, err)
+            );
+            return res.json({
+                success: true,
+                action,
+                message: action === 'cancelled'
+                    ? 'This occurrence was cancelled. The rest of your series is unchanged.'
+                    : 'Your cancellation request has been submitted to the kitchen manager for review.',
+            });
+        }
+
         // ── TIER 1: Pending or Authorized → Immediate cancel ──────────────────
         // No money captured yet. Void auth if applicable, cancel booking directly.
         if (booking.status === 'pending' || booking.paymentStatus === 'authorized') {
@@ -2594,6 +2841,10 @@ router.put("/chef/bookings/:id/cancel", requireChef, async (req: Request, res: R
                 logger.warn(`[Cancel Booking] Smart lock code removal failed for booking ${id}:`, lockErr);
             }
 
+            // Offer the freed slot to the next chef on the waitlist
+            const { offerFreedSlotToWaitlist } = await import('../services/kitchen-waitlist-service');
+            await offerFreedSlotToWaitlist(id);
+
             // Send notifications (fire-and-forget)
             sendCancellationNotifications(booking, id, 'cancelled').catch(err =>
                 logger.error(`[Cancel Booking] Notification error for booking ${id}:`, err)
@@ -2632,6 +2883,9 @@ router.put("/chef/bookings/:id/cancel", requireChef, async (req: Request, res: R
             .set({ status: 'cancelled', updatedAt: new Date() })
             .where(eq(kitchenBookings.id, id));
 
+        const { offerFreedSlotToWaitlist } = await import('../services/kitchen-waitlist-service');
+        await offerFreedSlotToWaitlist(id);
+
         sendCancellationNotifications(booking, id, 'cancelled').catch(err =>
             logger.error(`[Cancel Booking] Notification error for booking ${id}:`, err)
         );
@@ -2643,6 +2897,56 @@ router.put("/chef/bookings/:id/cancel", requireChef, async (req: Request, res: R
     }
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// CHEF RESCHEDULING
+// ═══════════════════════════════════════════════════════════════════════════
+// Allowed until the location's reschedule window. The kitchen price difference
+// (plus tax) is charged to the saved card or refunded — see booking-reschedule-service.
+// ═══════════════════════════════════════════════════════════════════════════
+router.post("/chef/bookings/:id/reschedule/preview", requireChef, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid booking ID" });
+
+        const { bookingDate, startTime, endTime, endDate, selectedSlots } = req.body || {};
+        const { previewReschedule } = await import('../services/booking-reschedule-service');
+        const result = await previewReschedule(id, req.neonUser!.id, { bookingDate, startTime, endTime, endDate, selectedSlots });
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+        res.json(result.preview);
+    } catch (error) {
+        logger.error("Error previewing booking reschedule:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to preview reschedule" });
+    }
+});
+
+router.put("/chef/bookings/:id/reschedule", requireChef, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid booking ID" });
+
+        const { bookingDate, startTime, endTime, endDate, selectedSlots } = req.body || {};
+        const { rescheduleBooking } = await import('../services/booking-reschedule-service');
+        const result = await rescheduleBooking(id, req.neonUser!.id, { bookingDate, startTime, endTime, endDate, selectedSlots });
+        if (!result.success) {
+            return res.status(result.status).json({ error: result.error });
+        }
+
+        res.json({
+            success: true,
+            booking: result.booking,
+            amountDueCents: result.preview.amountDueCents,
+            settlement: result.preview.settlement,
+            // Shown once — the previous access code no longer works
+            ...(result.accessCode && { accessCode: result.accessCode }),
+        });
+    } catch (error) {
+        logger.error("Error rescheduling booking:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to reschedule booking" });
+    }
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // KITCHEN CHECK-IN / CHECK-OUT (Chef-Side)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -2653,7 +2957,7 @@ router.post("/chef/bookings/:id/checkin", requireChef, async (req: Request, res:
         const id = parseInt(req.params.id);
         if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid booking ID" });
 
-        const { checkinNotes, checkinPhotoUrls, checkinChecklistItems } = req.body || {};
+        const { checkinNotes, checkinPhotoUrls, checkinChecklistItems, checkinPhotosByRequirement } = req.body || {};
         const { requestKitchenCheckin } = await import("../services/kitchen-checkout-service");
 
         const result = await requestKitchenCheckin(
@@ -2663,6 +2967,7 @@ router.post("/chef/bookings/:id/checkin", requireChef, async (req: Request, res:
             checkinNotes,
             checkinPhotoUrls,
             checkinChecklistItems,
+            checkinPhotosByRequirement,
         );
 
         if (!result.success) {
@@ -2682,7 +2987,7 @@ router.post("/chef/bookings/:id/checkout", requireChef, async (req: Request, res
         const id = parseInt(req.params.id);
         if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid booking ID" });
 
-        const { checkoutNotes, checkoutPhotoUrls, checkoutChecklistItems } = req.body || {};
+        const { checkoutNotes, checkoutPhotoUrls, checkoutChecklistItems, checkoutPhotosByRequirement } = req.body || {};
         const { requestKitchenCheckout } = await import("../services/kitchen-checkout-service");
 
         const result = await requestKitchenCheckout(
@@ -2691,6 +2996,7 @@ router.post("/chef/bookings/:id/checkout", requireChef, async (req: Request, res
             checkoutNotes,
             checkoutPhotoUrls,
             checkoutChecklistItems,
+            checkoutPhotosByRequirement,
         );
 
         if (!result.success) {
@@ -2732,11 +3038,12 @@ router.get("/chef/bookings/:id/checkin-status", requireChef, async (req: Request
                 accessCodeValidUntil: kitchenBookings.accessCodeValidUntil,
                 smartLockEnabled: kitchens.smartLockEnabled,
                 // Holds manager-typed access code + visibility settings.
-                // No provider API credentials are stored here anymore.
+                // Lock provider credentials are redacted before responding.
                 smartLockConfig: kitchens.smartLockConfig,
                 bookingDate: kitchenBookings.bookingDate,
                 startTime: kitchenBookings.startTime,
                 endTime: kitchenBookings.endTime,
+                endDate: kitchenBookings.endDate,
                 // Location timezone (authoritative for all check-in window math).
                 // Must be returned so the client can compute canCheckin in the
                 // same timezone the server validates in.
@@ -2788,8 +3095,10 @@ router.get("/chef/bookings/:id/checkin-status", requireChef, async (req: Request
             }
         }
 
+        const { redactSmartLockConfig } = await import("../services/smart-lock-service");
         res.json({
             ...booking,
+            smartLockConfig: redactSmartLockConfig(booking.smartLockConfig),
             checkinWindowMinutesBefore: settings.checkinWindowMinutesBefore,
             noShowGraceMinutes: settings.noShowGraceMinutes,
         });
@@ -2806,7 +3115,10 @@ router.get("/chef/bookings/:id/checkin-status", requireChef, async (req: Request
 /**
  * GET /chef/locations/:locationId/checklist
  * Fetch the checkin/checkout checklists for a location (chef-facing).
- * Returns only the fields relevant to chefs (items, photo requirements, instructions).
+ * Pass ?kitchenId= or ?storageListingId= to get the checklist with that
+ * kitchen's / listing's template applied.
+ * Returns only the fields relevant to chefs (items, photo requirements,
+ * instructions) plus which level each section came from.
  */
 router.get("/chef/locations/:locationId/checklist", requireChef, async (req: Request, res: Response) => {
     try {
@@ -2815,55 +3127,15 @@ router.get("/chef/locations/:locationId/checklist", requireChef, async (req: Req
             return res.status(400).json({ error: "Invalid location ID" });
         }
 
-        const [checklist] = await db
-            .select()
-            .from(checkinCheckoutChecklists)
-            .where(eq(checkinCheckoutChecklists.locationId, locationId));
-
-        if (!checklist) {
-            // No checklist configured — return empty defaults
-            return res.json({
-                locationId,
-                checkinEnabled: true,
-                checkinItems: [],
-                checkinPhotoRequirements: [],
-                checkinInstructions: null,
-                checkoutEnabled: true,
-                checkoutItems: [],
-                checkoutPhotoRequirements: [],
-                checkoutInstructions: null,
-                storageCheckoutEnabled: true,
-                storageCheckoutItems: [],
-                storageCheckoutPhotoRequirements: [],
-                storageCheckoutInstructions: null,
-                storageCheckinEnabled: true,
-                storageCheckinItems: [],
-                storageCheckinPhotoRequirements: [],
-                storageCheckinInstructions: null,
-                smartLockCheckinInstructions: null,
-            });
+        const kitchenId = req.query.kitchenId ? parseInt(req.query.kitchenId as string) : undefined;
+        const storageListingId = req.query.storageListingId ? parseInt(req.query.storageListingId as string) : undefined;
+        if ((kitchenId !== undefined && isNaN(kitchenId)) || (storageListingId !== undefined && isNaN(storageListingId))) {
+            return res.status(400).json({ error: "Invalid kitchen or storage listing ID" });
         }
 
-        res.json({
-            locationId: checklist.locationId,
-            checkinEnabled: checklist.checkinEnabled,
-            checkinItems: checklist.checkinItems,
-            checkinPhotoRequirements: checklist.checkinPhotoRequirements,
-            checkinInstructions: checklist.checkinInstructions,
-            checkoutEnabled: checklist.checkoutEnabled,
-            checkoutItems: checklist.checkoutItems,
-            checkoutPhotoRequirements: checklist.checkoutPhotoRequirements,
-            checkoutInstructions: checklist.checkoutInstructions,
-            storageCheckoutEnabled: checklist.storageCheckoutEnabled,
-            storageCheckoutItems: checklist.storageCheckoutItems,
-            storageCheckoutPhotoRequirements: checklist.storageCheckoutPhotoRequirements,
-            storageCheckoutInstructions: checklist.storageCheckoutInstructions,
-            storageCheckinEnabled: checklist.storageCheckinEnabled,
-            storageCheckinItems: checklist.storageCheckinItems,
-            storageCheckinPhotoRequirements: checklist.storageCheckinPhotoRequirements,
-            storageCheckinInstructions: checklist.storageCheckinInstructions,
-            smartLockCheckinInstructions: checklist.smartLockCheckinInstructions,
-        });
+        // No checklist configured — the effective checklist is the empty defaults
+        const { getEffectiveChecklist } = await import("../services/checklist-template-service");
+        res.json(await getEffectiveChecklist(locationId, { kitchenId, storageListingId }));
     } catch (error) {
         logger.error("Error fetching chef checklist:", error);
         res.status(500).json({ error: "Failed to fetch checklist" });
@@ -2876,6 +3148,7 @@ async function sendCancellationNotifications(
         kitchenId: number; chefId: number | null; bookingDate: Date | null;
         startTime: string; endTime: string; locationId: number;
         locationName: string | null; managerId: number | null; notificationEmail: string | null;
+        referenceCode: string | null; timezone: string;
     },
     bookingId: number,
     action: 'cancelled' | 'cancellation_requested',
@@ -2917,6 +3190,10 @@ async function sendCancellationNotifications(
                 startTime: booking.startTime,
                 endTime: booking.endTime,
                 cancellationReason,
+                timezone: booking.timezone,
+                locationName: booking.locationName || undefined,
+                referenceCode: booking.referenceCode,
+                cancelCalendarInvite: !isCancellationRequest,
             });
             await sendEmail(chefEmail);
             logger.info(`✅ Booking ${action} email sent to chef: ${chef.username}`);
@@ -3000,8 +3277,10 @@ router.post("/payments/create-intent", requireChef, async (req: Request, res: Re
             return res.status(400).json({ error: "Missing required booking fields" });
         }
 
-        // Calculate kitchen booking price (pass pool for compatibility)
-        const kitchenPricing = await calculateKitchenBookingPrice(kitchenId, startTime, endTime);
+        // Calculate kitchen booking price (peak/off-peak rules resolve against the booking date)
+        const kitchenPricing = await calculateKitchenBookingPrice(kitchenId, startTime, endTime, {
+            bookingDates: [bookingDate],
+        });
         let totalPriceCents = kitchenPricing.totalPriceCents;
 
         // Calculate storage add-ons
@@ -3049,11 +3328,11 @@ router.post("/payments/create-intent", requireChef, async (req: Request, res: Re
                     }
 
                     if (equipmentListing) {
-                        // Parse sessionRate and damageDeposit as numeric (stored in cents in database)
+                        // Parse sessionRate as numeric (stored in cents in database).
+                        // The damage deposit is held separately once the booking is confirmed.
                         const sessionRateCents = equipmentListing.sessionRate ? Math.round(parseFloat(String(equipmentListing.sessionRate))) : 0;
-                        const damageDepositCents = equipmentListing.damageDeposit ? Math.round(parseFloat(String(equipmentListing.damageDeposit))) : 0;
 
-                        totalPriceCents += sessionRateCents + damageDepositCents;
+                        totalPriceCents += sessionRateCents;
                     }
                 } catch (error) {
                     logger.error(`Error calculating equipment price for listing ${equipmentListingId}:`, error);
@@ -3105,7 +3384,7 @@ router.post("/payments/create-intent", requireChef, async (req: Request, res: Re
         //   to the manager's Connect account.
         // calculateCheckoutFeesAsync is used here only for display estimates and logs.
         const { calculateCheckoutFeesAsync } = await import('../services/stripe-checkout-fee-service');
-        const feeCalculation = await calculateCheckoutFeesAsync(totalWithTaxCents);
+        const feeCalculation = await calculateCheckoutFeesAsync(totalWithTaxCents, kitchenPricing.currency);
         const applicationFeeAmountCents = undefined;
 
         logger.info(`[Payment] Creating intent (separate charges + transfers): Subtotal=${totalPriceCents}, Tax=${taxCents} (${taxRatePercent}%), Total=${totalWithTaxCents}, Expected=${expectedAmountCents}, EstimatedStripeFee=${feeCalculation.stripeProcessingFeeInCents}, EstimatedManagerReceives=${feeCalculation.managerReceivesInCents}`);
@@ -3281,16 +3560,218 @@ router.post("/payments/cancel", requireChef, async (req: Request, res: Response)
     }
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// KITCHEN WAITLIST (Chef-Side)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Chef's waitlist entries (waiting, offered holds, and history)
+router.get("/chef/waitlist", requireChef, async (req: Request, res: Response) => {
+    try {
+        const { getWaitlistEntriesForChef } = await import('../services/kitchen-waitlist-service');
+        const entries = await getWaitlistEntriesForChef(req.neonUser!.id);
+        res.json(entries);
+    } catch (error) {
+        logger.error("Error fetching waitlist entries:", error);
+        res.status(500).json({ error: "Failed to fetch waitlist" });
+    }
+});
+
+// Join the waitlist for a fully booked kitchen time range
+router.post("/chef/waitlist", requireChef, async (req: Request, res: Response) => {
+    try {
+        const { kitchenId, bookingDate, startTime, endTime } = req.body;
+        const chefId = req.neonUser!.id;
+
+        const parsedKitchenId = parseInt(kitchenId);
+        if (isNaN(parsedKitchenId) || parsedKitchenId <= 0) {
+            return res.status(400).json({ error: "Invalid kitchen ID" });
+        }
+
+        const kitchenDetails = await kitchenService.getKitchenById(parsedKitchenId);
+        if (!kitchenDetails || !kitchenDetails.locationId) {
+            return res.status(404).json({ error: "Kitchen not found" });
+        }
+
+        const applicationStatus = await chefService.getApplicationStatusForBooking(chefId, kitchenDetails.locationId);
+        if (!applicationStatus.canBook) {
+            return res.status(403).json({ error: applicationStatus.message });
+        }
+
+        const { joinWaitlist } = await import('../services/kitchen-waitlist-service');
+        const result = await joinWaitlist({
+            kitchenId: parsedKitchenId,
+            chefId,
+            bookingDate: typeof bookingDate === 'string' ? bookingDate.split('T')[0] : '',
+            startTime,
+            endTime,
+        });
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.status(201).json(result.entry);
+    } catch (error) {
+        logger.error("Error joining waitlist:", error);
+        res.status(500).json({ error: "Failed to join waitlist" });
+    }
+});
+
+// Leave the waitlist — releases an active hold to the next chef in line
+router.delete("/chef/waitlist/:id", requireChef, async (req: Request, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id) || id <= 0) return res.status(400).json({ error: "Invalid waitlist entry ID" });
+
+        const { leaveWaitlist } = await import('../services/kitchen-waitlist-service');
+        const left = await leaveWaitlist(id, req.neonUser!.id);
+        if (!left) {
+            return res.status(404).json({ error: "Active waitlist entry not found" });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        logger.error("Error leaving waitlist:", error);
+        res.status(500).json({ error: "Failed to leave waitlist" });
+    }
+});
+
+// Preview a promo code against a booking subtotal — checkout re-validates against the server-side price
+router.post("/chef/promo-codes/validate", requireChef, async (req: Request, res: Response) => {
+    try {
+        const { code, kitchenId, subtotalCents } = req.body;
+        const chefId = req.neonUser!.id;
+
+        if (!code || typeof code !== 'string' || !kitchenId) {
+            return res.status(400).json({ error: "Promo code and kitchen are required" });
+        }
+        const subtotal = Math.round(Number(subtotalCents));
+        if (!Number.isFinite(subtotal) || subtotal <= 0) {
+            return res.status(400).json({ error: "A booking subtotal is required" });
+        }
+
+        const kitchenDetails = await kitchenService.getKitchenById(kitchenId);
+        if (!kitchenDetails || !kitchenDetails.locationId) {
+            return res.status(404).json({ error: "Kitchen not found" });
+        }
+
+        const { validatePromoCodeForBooking } = await import('../services/promo-code-service');
+        const result = await validatePromoCodeForBooking({
+            code,
+            chefId,
+            locationId: kitchenDetails.locationId,
+            subtotalCents: subtotal,
+        });
+        if (!result.valid) {
+            return res.status(400).json({ valid: false, error: result.error });
+        }
+
+        res.json({
+            valid: true,
+            code: result.promo.code,
+            discountCents: result.promo.discountCents,
+        });
+    } catch (error) {
+        logger.error("Error validating promo code:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to validate promo code" });
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHEF WALLET (Prepaid Credit)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Wallet balance, open credit lots and recent history; ?locationId= also returns what is spendable there
+router.get("/chef/wallet", requireChef, async (req: Request, res: Response) => {
+    try {
+        const locationId = req.query.locationId ? parseInt(req.query.locationId as string) : null;
+        if (locationId !== null && (isNaN(locationId) || locationId <= 0)) {
+            return res.status(400).json({ error: "Invalid location ID" });
+        }
+
+        const { getWalletSummary } = await import('../services/chef-wallet-service');
+        res.json(await getWalletSummary(req.neonUser!.id, locationId));
+    } catch (error) {
+        logger.error("Error fetching chef wallet:", error);
+        res.status(500).json({ error: "Failed to fetch wallet" });
+    }
+});
+
+// Credit packages on sale, optionally for one location
+router.get("/chef/wallet/packages", requireChef, async (req: Request, res: Response) => {
+    try {
+        const locationId = req.query.locationId ? parseInt(req.query.locationId as string) : undefined;
+        if (locationId !== undefined && (isNaN(locationId) || locationId <= 0)) {
+            return res.status(400).json({ error: "Invalid location ID" });
+        }
+
+        const { getActiveWalletPackages } = await import('../services/chef-wallet-service');
+        res.json(await getActiveWalletPackages(locationId));
+    } catch (error) {
+        logger.error("Error fetching wallet packages:", error);
+        res.status(500).json({ error: "Failed to fetch wallet packages" });
+    }
+});
+
+// Buy a credit package — credit is added by the webhook once Stripe confirms payment
+router.post("/chef/wallet/packages/:id/checkout", requireChef, async (req: Request, res: Response) => {
+    try {
+        const packageId = parseInt(req.params.id);
+        if (isNaN(packageId)) {
+            return res.status(400).json({ error: "Invalid package ID" });
+        }
+
+        const { getWalletPackageById } = await import('../services/chef-wallet-service');
+        const pkg = await getWalletPackageById(packageId);
+        if (!pkg || !pkg.isActive) {
+            return res.status(404).json({ error: "Package not found" });
+        }
+
+        const chefId = req.neonUser!.id;
+        const applicationStatus = await chefService.getApplicationStatusForBooking(chefId, pkg.locationId);
+        if (!applicationStatus.canBook) {
+            return res.status(403).json({ error: applicationStatus.message });
+        }
+
+        const location = await locationService.getLocationById(pkg.locationId);
+        if (!location) {
+            return res.status(404).json({ error: "Location not found" });
+        }
+
+        const baseUrl = getBaseUrl(req);
+        const { createWalletPackageCheckoutSession } = await import('../services/stripe-checkout-service');
+        const session = await createWalletPackageCheckoutSession({
+            chefId,
+            customerEmail: req.neonUser!.username,
+            pkg,
+            locationName: location.name,
+            currency: normalizeCurrency(location.currency),
+            successUrl: `${baseUrl}/dashboard?view=wallet&purchase=success`,
+            cancelUrl: `${baseUrl}/dashboard?view=wallet`,
+        });
+
+        res.json({ sessionUrl: session.sessionUrl, sessionId: session.sessionId });
+    } catch (error) {
+        logger.error("Error creating wallet package checkout:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to start package checkout" });
+    }
+});
+
 // Create booking and redirect to Stripe Checkout (new flow - replaces embedded payment)
 router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, async (req: Request, res: Response) => {
     try {
-        const { kitchenId, bookingDate, startTime, endTime, selectedSlots, specialNotes, selectedStorage, selectedEquipmentIds } = req.body;
+        const { kitchenId, bookingDate, endDate, startTime, endTime, selectedSlots, specialNotes, selectedStorage, selectedEquipmentIds, promoCode, useWalletCredit } = req.body;
         const chefId = req.neonUser!.id;
 
         if (!kitchenId || !bookingDate || !startTime || !endTime) {
             return res.status(400).json({ error: "Missing required booking fields" });
         }
 
+        // Kitchens with stations can host several chefs; a chef may book more than one station
+        const stationCount = req.body.stationCount === undefined ? 1 : Number(req.body.stationCount);
+        if (!Number.isInteger(stationCount) || stationCount < 1) {
+            return res.status(400).json({ error: "stationCount must be a whole number of at least 1" });
+        }
+
         // Get kitchen details
         const kitchenDetails = await kitchenService.getKitchenById(kitchenId);
         if (!kitchenDetails) {
@@ -3313,12 +3794,18 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
         }
 
         // Validate booking availability
+        // endDate (optional) is the day endTime falls on for overnight/multi-day runs
         const bookingDateObj = new Date(bookingDate);
+        const bookingEndDateObj = endDate ? new Date(endDate) : null;
+        if (bookingEndDateObj && isNaN(bookingEndDateObj.getTime())) {
+            return res.status(400).json({ error: "Invalid end date" });
+        }
         const availabilityCheck = await bookingService.validateBookingAvailability(
             kitchenId,
             bookingDateObj,
             startTime,
-            endTime
+            endTime,
+            bookingEndDateObj
         );
 
         if (!availabilityCheck.valid) {
@@ -3338,6 +3825,8 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
         const bookingDateStr = typeof bookingDate === 'string'
             ? bookingDate.split('T')[0]
             : bookingDateObj.toISOString().split('T')[0];
+        const bookingEndDateStr = bookingEndDateObj ? bookingEndDateObj.toISOString().split('T')[0] : null;
+        const endDayOffset = bookingEndDateStr ? getDayOffset(bookingDateStr, bookingEndDateStr) : 0;
 
         const { isBookingTimePast, getHoursUntilBooking } = await import('../date-utils');
 
@@ -3352,8 +3841,42 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
             });
         }
 
+        // A slot freed by a cancellation may be held for a waitlisted chef
+        const { isRangeHeldForOthers, parseWaitlistDate } = await import('../services/kitchen-waitlist-service');
+        if (endDayOffset > 0) {
+            // The slot picker only shows the first day — check every day the run touches
+            for (const segment of getBookingDaySegments(bookingDateStr, startTime, endTime, bookingEndDateStr)) {
+                const daySlots = await bookingService.getAllTimeSlotsWithBookingInfo(kitchenId, parseWaitlistDate(segment.date), chefId);
+                if (daySlots.some(slot => slot.time >= segment.startTime && slot.time < segment.endTime && slot.isFullyBooked)) {
+                    return res.status(409).json({ error: `The kitchen is already booked on ${segment.date} during this time` });
+                }
+            }
+        } else {
+            const slotsInfo = await bookingService.getAllTimeSlotsWithBookingInfo(kitchenId, parseWaitlistDate(bookingDateStr), chefId);
+            if (isRangeHeldForOthers(slotsInfo, startTime, endTime)) {
+                return res.status(409).json({
+                    error: "This time is being held for a chef on the waitlist. Join the waitlist to be offered it if the hold expires."
+                });
+            }
+        }
+
+        // Reserve stations for the whole booking (empty for kitchens booked whole)
+        const { assignKitchenStations } = await import('../services/kitchen-station-service');
+        const stationAssignment = await assignKitchenStations({
+            kitchenId,
+            bookingDate: bookingDateObj,
+            startTime,
+            endTime,
+            count: stationCount,
+            endDate: endDayOffset > 0 ? bookingEndDateObj : null,
+            selectedSlots: endDayOffset === 0 && Array.isArray(selectedSlots) ? selectedSlots : undefined,
+        });
+        if (!stationAssignment.success) {
+            return res.status(409).json({ error: stationAssignment.error });
+        }
+
         // Get manager's Stripe Connect account
-        const manager = await userService.getUser((location as any).managerId);
+        const manager = await userService.getUser(location.managerId);
         if (!manager) {
             return res.status(404).json({ error: "Manager not found" });
         }
@@ -3383,20 +3906,21 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
         // Calculate total price
         // IMPORTANT: When staggered slots are selected, use slot count for pricing
         // not the duration from startTime to endTime (which would overcharge)
-        const kitchenPricing = await calculateKitchenBookingPrice(kitchenId, startTime, endTime);
-        
-        let totalPriceCents: number;
-        let effectiveDurationHours: number;
-        
-        if (selectedSlots && Array.isArray(selectedSlots) && selectedSlots.length > 0) {
-            // Staggered slots: price based on number of slots (each slot = 1 hour)
-            effectiveDurationHours = Math.max(selectedSlots.length, minimumBookingHours);
-            totalPriceCents = Math.round(kitchenPricing.hourlyRateCents * effectiveDurationHours);
-            logger.info(`[Checkout] Staggered slots pricing: ${selectedSlots.length} slots, effective ${effectiveDurationHours} hours, $${(totalPriceCents / 100).toFixed(2)}`);
-        } else {
-            // Contiguous booking: use standard duration calculation
-            effectiveDurationHours = kitchenPricing.durationHours;
-            totalPriceCents = kitchenPricing.totalPriceCents;
+        // Overnight/multi-day runs are continuous, so they are priced by span rather than slots
+        const hasSlots = endDayOffset === 0 && selectedSlots && Array.isArray(selectedSlots) && selectedSlots.length > 0;
+        const kitchenPricing = await calculateKitchenBookingPrice(kitchenId, startTime, endTime, {
+            slotCount: hasSlots ? selectedSlots.length : undefined,
+            selectedSlots: hasSlots ? selectedSlots : undefined,
+            bookingDates: [bookingDateStr],
+            endDayOffset,
+            stationCount,
+        });
+        const effectiveDurationHours = kitchenPricing.durationHours;
+        let totalPriceCents = kitchenPricing.totalPriceCents;
+        // Kitchen-only subtotal (daily rate caps already applied) — add-ons are added below
+        const kitchenOnlyPriceCents = kitchenPricing.totalPriceCents;
+        if (hasSlots) {
+            logger.info(`[Checkout] Staggered slots pricing: ${selectedSlots.length} slots, effective ${effectiveDurationHours} hours, ${kitchenPricing.rateTier} tier, $${(totalPriceCents / 100).toFixed(2)}`);
         }
 
         // Calculate storage add-ons — track individual prices for Stripe line items
@@ -3454,18 +3978,53 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
             }
         }
 
-        // Calculate tax
+        // Apply promo code to the pre-tax subtotal (kitchen + add-ons). One use is
+        // reserved for this checkout and released if the session is abandoned
+        let appliedPromo: AppliedPromo | undefined;
+        let checkoutHoldMinutes: number | undefined;
+        if (promoCode && typeof promoCode === 'string' && promoCode.trim()) {
+            const { reservePromoRedemption, PROMO_RESERVATION_MINUTES } = await import('../services/promo-code-service');
+            const promoResult = await reservePromoRedemption({
+                code: promoCode,
+                chefId,
+                locationId: kitchenLocationId,
+                subtotalCents: totalPriceCents,
+            });
+            if (!promoResult.valid) {
+                return res.status(400).json({ error: promoResult.error });
+            }
+            appliedPromo = promoResult.promo;
+            checkoutHoldMinutes = PROMO_RESERVATION_MINUTES;
+            totalPriceCents -= appliedPromo.discountCents;
+            logger.info(`[Checkout] Promo ${appliedPromo.code} applied: -$${(appliedPromo.discountCents / 100).toFixed(2)} (absorbed by ${appliedPromo.absorbedBy})`);
+        }
+
+        // Calculate tax (on the discounted subtotal)
         const taxRatePercent = kitchenDetails.taxRatePercent ? parseFloat(String(kitchenDetails.taxRatePercent)) : 0;
         const taxCents = Math.round((totalPriceCents * taxRatePercent) / 100);
         const totalWithTaxCents = totalPriceCents + taxCents;
 
+        // Draw down wallet credit before charging the card — credit pays part of the
+        // total after tax, and the hold is released if the checkout is abandoned
+        let appliedWallet: AppliedWalletCredit | undefined;
+        if (useWalletCredit === true) {
+            const { getAvailableWalletCredit, getWalletCreditToApply, holdWalletCredit, WALLET_HOLD_MINUTES } = await import('../services/chef-wallet-service');
+            const walletCents = getWalletCreditToApply(await getAvailableWalletCredit(chefId, kitchenLocationId, kitchenPricing.currency), totalWithTaxCents);
+            appliedWallet = (await holdWalletCredit({ chefId, locationId: kitchenLocationId, currency: kitchenPricing.currency, amountCents: walletCents })) ?? undefined;
+            if (appliedWallet) {
+                checkoutHoldMinutes = Math.min(checkoutHoldMinutes ?? WALLET_HOLD_MINUTES, WALLET_HOLD_MINUTES);
+                logger.info(`[Checkout] Wallet credit applied: -$${(appliedWallet.appliedCents / 100).toFixed(2)} (hold ${appliedWallet.holdId})`);
+            }
+        }
+        const cardChargeCents = totalWithTaxCents - (appliedWallet?.appliedCents ?? 0);
+
         // ENTERPRISE-GRADE: Do NOT create booking here
         // Booking will be created in webhook when payment succeeds
         // This follows Stripe's recommended pattern and eliminates orphan bookings
 
         // Calculate fees for Stripe Checkout
         const { calculateCheckoutFeesAsync } = await import('../services/stripe-checkout-fee-service');
-        const feeCalculation = await calculateCheckoutFeesAsync(totalWithTaxCents);
+        const feeCalculation = await calculateCheckoutFeesAsync(cardChargeCents, kitchenPricing.currency);
 
         // Get base URL for success/cancel URLs
         const baseUrl = getBaseUrl(req);
@@ -3473,26 +4032,31 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
         // Create Stripe Checkout session with booking data in metadata
         // Booking will be created from this metadata in the webhook
         const { createPendingCheckoutSession } = await import('../services/stripe-checkout-service');
-        // Build kitchen-only price for line item breakdown
-        const kitchenOnlyPriceCents = Math.round(kitchenPricing.hourlyRateCents * effectiveDurationHours);
-        const kitchenLabel = `Kitchen Session (${effectiveDurationHours} hr${effectiveDurationHours !== 1 ? 's' : ''})`;
+        // Build kitchen line item label — name the rate tier when the daily cap applied
+        const stationLabel = stationCount > 1 ? `, ${stationCount} stations` : '';
+        const kitchenLabel = kitchenPricing.rateTier === 'hourly'
+            ? `Kitchen Session (${effectiveDurationHours} hr${effectiveDurationHours !== 1 ? 's' : ''}${stationLabel})`
+            : `Kitchen Session (${effectiveDurationHours} hr${effectiveDurationHours !== 1 ? 's' : ''}, ${kitchenPricing.rateTier} rate${stationLabel})`;
         const taxLabel = taxRatePercent > 0 ? `Tax (${taxRatePercent}%)` : 'Tax';
 
         const checkoutSession = await createPendingCheckoutSession({
-            bookingPriceInCents: totalWithTaxCents,
+            bookingPriceInCents: cardChargeCents,
             platformFeeInCents: feeCalculation.totalPlatformFeeInCents,
             managerStripeAccountId,
             customerEmail: chefEmail,
-            currency: 'cad',
+            currency: toStripeCurrency(kitchenPricing.currency),
             successUrl: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
             cancelUrl: `${baseUrl}/dashboard?tab=kitchens`,
+            expiresInMinutes: checkoutHoldMinutes,
             bookingData: {
                 kitchenId,
                 chefId,
                 bookingDate: bookingDateObj.toISOString(),
+                endDate: endDayOffset > 0 ? bookingEndDateObj!.toISOString() : undefined,
                 startTime,
                 endTime,
-                selectedSlots: selectedSlots || [],
+                selectedSlots: hasSlots ? selectedSlots : [],
+                stationIds: stationAssignment.stationIds,
                 specialNotes,
                 selectedStorage: selectedStorage || [],
                 selectedEquipmentIds: selectedEquipmentIds || [],
@@ -3500,6 +4064,9 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
                 taxCents,
                 hourlyRateCents: kitchenPricing.hourlyRateCents,
                 durationHours: effectiveDurationHours,
+                pricingBreakdown: kitchenPricing.lineItems,
+                promo: appliedPromo,
+                wallet: appliedWallet,
             },
             // Separate line items for Stripe Dashboard & receipt visibility
             lineItemBreakdown: {
@@ -3509,9 +4076,30 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
                 equipmentItems: equipmentLineItems,
                 taxCents,
                 taxLabel,
+                discount: appliedPromo ? { code: appliedPromo.code, amountCents: appliedPromo.discountCents } : undefined,
+                walletCreditCents: appliedWallet?.appliedCents,
             },
+        }).catch(async (error) => {
+            if (appliedWallet) {
+                const { releaseWalletRedemption } = await import('../services/chef-wallet-service');
+                await releaseWalletRedemption(appliedWallet.holdId, "Checkout session could not be created");
+            }
+            if (appliedPromo?.redemptionId) {
+                const { releasePromoReservation } = await import('../services/promo-code-service');
+                await releasePromoReservation(appliedPromo.redemptionId);
+            }
+            throw error;
         });
 
+        if (appliedWallet) {
+            const { attachWalletHoldToCheckout } = await import('../services/chef-wallet-service');
+            await attachWalletHoldToCheckout(appliedWallet.holdId, checkoutSession.sessionId);
+        }
+        if (appliedPromo?.redemptionId) {
+            const { attachPromoReservationToCheckout } = await import('../services/promo-code-service');
+            await attachPromoReservationToCheckout(appliedPromo.redemptionId, checkoutSession.sessionId);
+        }
+
         logger.info(`[Checkout] Created pending checkout session ${checkoutSession.sessionId} - booking will be created in webhook`);
 
         // Return checkout URL for redirect
@@ -3523,6 +4111,8 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
                 price: totalWithTaxCents / 100,
                 platformFee: feeCalculation.totalPlatformFeeInCents / 100,
                 total: feeCalculation.totalChargeInCents / 100,
+                discount: appliedPromo ? appliedPromo.discountCents / 100 : 0,
+                walletCredit: appliedWallet ? appliedWallet.appliedCents / 100 : 0,
             },
         });
     } catch (error: any) {
@@ -3531,10 +4121,254 @@ router.post("/chef/bookings/checkout", requireChef, requireNoUnpaidPenalties, as
     }
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// RECURRING BOOKING SERIES (Chef-Side)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Preview a recurring series: per-occurrence availability + consolidated price
+router.post("/chef/bookings/series/preview", requireChef, async (req: Request, res: Response) => {
+    try {
+        const { kitchenId, startTime, endTime, selectedSlots, recurrence } = req.body;
+        if (!kitchenId || !startTime || !endTime || !recurrence) {
+            return res.status(400).json({ error: "Missing required series fields" });
+        }
+
+        const { validateRecurrenceRule, quoteSeries } = await import('../services/booking-series-service');
+        const ruleError = validateRecurrenceRule(recurrence);
+        if (ruleError) {
+            return res.status(400).json({ error: ruleError });
+        }
+
+        const quote = await quoteSeries({ kitchenId, rule: recurrence, startTime, endTime, selectedSlots });
+        res.json(quote);
+    } catch (error) {
+        logger.error("Error previewing booking series:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to preview booking series" });
+    }
+});
+
+// Create ONE consolidated Stripe Checkout session for a recurring series.
+// Occurrence bookings are created in the webhook (same payment-first pattern as single bookings).
+router.post("/chef/bookings/series/checkout", requireChef, requireNoUnpaidPenalties, async (req: Request, res: Response) => {
+    try {
+        const { kitchenId, startTime, endTime, selectedSlots, specialNotes, recurrence } = req.body;
+        const chefId = req.neonUser!.id;
+
+        if (!kitchenId || !startTime || !endTime || !recurrence) {
+            return res.status(400).json({ error: "Missing required series fields" });
+        }
+
+        const { validateRecurrenceRule, quoteSeries } = await import('../services/booking-series-service');
+        const ruleError = validateRecurrenceRule(recurrence);
+        if (ruleError) {
+            return res.status(400).json({ error: ruleError });
+        }
+        if (JSON.stringify(recurrence).length > 500) {
+            return res.status(400).json({ error: "Too many excluded dates for a single series" });
+        }
+
+        const kitchenDetails = await kitchenService.getKitchenById(kitchenId);
+        if (!kitchenDetails) {
+            return res.status(404).json({ error: "Kitchen not found" });
+        }
+
+        const applicationStatus = await chefService.getApplicationStatusForBooking(chefId, kitchenDetails.locationId);
+        if (!applicationStatus.canBook) {
+            return res.status(403).json({
+                error: applicationStatus.message,
+                hasApplication: applicationStatus.hasApplication,
+                applicationStatus: applicationStatus.status,
+            });
+        }
+
+        const minimumBookingHours = kitchenDetails.minimumBookingHours ?? 0;
+        if (minimumBookingHours > 0 && Array.isArray(selectedSlots) && selectedSlots.length > 0 && selectedSlots.length < minimumBookingHours) {
+            return res.status(400).json({
+                error: `This kitchen requires a minimum of ${minimumBookingHours} hour${minimumBookingHours > 1 ? 's' : ''} per booking. You selected ${selectedSlots.length}.`
+            });
+        }
+
+        // Per-occurrence conflict detection — every date must be bookable.
+        // The chef can skip problem dates by adding them to recurrence.excludedDates.
+        const quote = await quoteSeries({ kitchenId, rule: recurrence, startTime, endTime, selectedSlots });
+        const unavailable = quote.occurrences.filter(o => !o.available);
+        if (unavailable.length > 0) {
+            return res.status(409).json({
+                error: `${unavailable.length} date${unavailable.length !== 1 ? 's are' : ' is'} not available. Skip ${unavailable.length !== 1 ? 'them' : 'it'} or choose another time.`,
+                occurrences: quote.occurrences,
+            });
+        }
+        if (quote.bookableDates.length < 2) {
+            return res.status(400).json({ error: "A recurring series needs at least two bookable dates" });
+        }
+
+        const location = await locationService.getLocationById(kitchenDetails.locationId);
+        if (!location) {
+            return res.status(404).json({ error: "Location not found" });
+        }
+        const manager = await userService.getUser((location as any).managerId);
+        if (!manager) {
+            return res.status(404).json({ error: "Manager not found" });
+        }
+        const managerStripeAccountId = manager.stripeConnectAccountId;
+        if (!managerStripeAccountId) {
+            return res.status(400).json({
+                error: "Manager has not set up Stripe payments. Please contact the kitchen manager."
+            });
+        }
+
+        const chef = await userService.getUser(chefId);
+        if (!chef || !chef.username) {
+            return res.status(400).json({ error: "Chef email not found" });
+        }
+
+        const { calculateCheckoutFeesAsync } = await import('../services/stripe-checkout-fee-service');
+        const feeCalculation = await calculateCheckoutFeesAsync(quote.totalCents, quote.currency);
+
+        const occurrenceCount = quote.bookableDates.length;
+        const frequencyLabel = recurrence.frequency === 'daily' ? 'Multi-day' : recurrence.frequency === 'biweekly' ? 'Every 2 weeks' : 'Weekly';
+        const baseUrl = getBaseUrl(req);
+        const { createPendingCheckoutSession } = await import('../services/stripe-checkout-service');
+        const checkoutSession = await createPendingCheckoutSession({
+            bookingPriceInCents: quote.totalCents,
+            platformFeeInCents: feeCalculation.totalPlatformFeeInCents,
+            managerStripeAccountId,
+            customerEmail: chef.username,
+            currency: toStripeCurrency(quote.currency),
+            successUrl: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+            cancelUrl: `${baseUrl}/dashboard?tab=kitchens`,
+            bookingData: {
+                kitchenId,
+                chefId,
+                bookingDate: quote.bookableDates[0],
+                startTime,
+                endTime,
+                selectedSlots: selectedSlots || [],
+                specialNotes,
+                totalPriceCents: quote.subtotalCents,
+                taxCents: quote.taxCents,
+                hourlyRateCents: quote.hourlyRateCents,
+                durationHours: quote.durationHours,
+                pricingBreakdown: quote.occurrenceLineItems,
+                series: {
+                    rule: recurrence,
+                    occurrenceCount,
+                    perOccurrencePriceCents: quote.perOccurrencePriceCents,
+                },
+            },
+            lineItemBreakdown: {
+                kitchenPriceCents: quote.subtotalCents,
+                kitchenLabel: recurrence.frequency === 'daily'
+                    ? `${frequencyLabel} Kitchen Booking (${occurrenceCount} days × ${quote.durationHours} hr${quote.durationHours !== 1 ? 's' : ''}, ${quote.rateTier} rate)`
+                    : `${frequencyLabel} Kitchen Sessions (${occurrenceCount} × ${quote.durationHours} hr${quote.durationHours !== 1 ? 's' : ''})`,
+                taxCents: quote.taxCents,
+                taxLabel: quote.taxRatePercent > 0 ? `Tax (${quote.taxRatePercent}%)` : 'Tax',
+            },
+        });
+
+        logger.info(`[Checkout] Created series checkout session ${checkoutSession.sessionId} for ${occurrenceCount} occurrences - bookings will be created in webhook`);
+
+        res.json({
+            sessionUrl: checkoutSession.sessionUrl,
+            sessionId: checkoutSession.sessionId,
+            series: {
+                occurrenceCount,
+                dates: quote.bookableDates,
+                price: quote.totalCents / 100,
+                platformFee: feeCalculation.totalPlatformFeeInCents / 100,
+                total: feeCalculation.totalChargeInCents / 100,
+            },
+        });
+    } catch (error) {
+        logger.error("Error creating booking series checkout:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to create booking series checkout" });
+    }
+});
+
+// Get a chef's booking series with all occurrences
+router.get("/chef/booking-series/:id", requireChef, async (req: Request, res: Response) => {
+    try {
+        const seriesId = parseInt(req.params.id);
+        const { getSeriesWithOccurrences } = await import('../services/booking-series-service');
+        const series = await getSeriesWithOccurrences(seriesId);
+        if (!series || series.chefId !== req.neonUser!.id) {
+            return res.status(404).json({ error: "Booking series not found" });
+        }
+        res.json(series);
+    } catch (error) {
+        logger.error("Error fetching booking series:", error);
+        res.status(500).json({ error: "Failed to fetch booking series" });
+    }
+});
+
+// Cancel one occurrence or "this and following"
+router.put("/chef/booking-series/:id/cancel", requireChef, async (req: Request, res: Response) => {
+    try {
+        const seriesId = parseInt(req.params.id);
+        const { fromBookingId, scope = 'this', reason } = req.body || {};
+        if (!fromBookingId || !['this', 'this_and_following'].includes(scope)) {
+            return res.status(400).json({ error: "fromBookingId and a valid scope ('this' or 'this_and_following') are required" });
+        }
+
+        const { getSeriesById, cancelSeriesOccurrences } = await import('../services/booking-series-service');
+        const series = await getSeriesById(seriesId);
+        if (!series || series.chefId !== req.neonUser!.id) {
+            return res.status(404).json({ error: "Booking series not found" });
+        }
+
+        const result = await cancelSeriesOccurrences({
+            seriesId,
+            fromBookingId: parseInt(fromBookingId),
+            scope,
+            cancelledBy: 'chef',
+            reason,
+        });
+        if (!result.success) {
+            return res.status(400).json({ error: result.error });
+        }
+        res.json(result);
+    } catch (error) {
+        logger.error("Error cancelling booking series occurrences:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to cancel occurrences" });
+    }
+});
+
+// Move one occurrence or "this and following" to a new time (same session length)
+router.put("/chef/booking-series/:id/modify", requireChef, async (req: Request, res: Response) => {
+    try {
+        const seriesId = parseInt(req.params.id);
+        const { fromBookingId, scope = 'this', startTime, endTime } = req.body || {};
+        if (!fromBookingId || !startTime || !endTime || !['this', 'this_and_following'].includes(scope)) {
+            return res.status(400).json({ error: "fromBookingId, startTime, endTime and a valid scope are required" });
+        }
+
+        const { getSeriesById, modifySeriesOccurrences } = await import('../services/booking-series-service');
+        const series = await getSeriesById(seriesId);
+        if (!series || series.chefId !== req.neonUser!.id) {
+            return res.status(404).json({ error: "Booking series not found" });
+        }
+
+        const result = await modifySeriesOccurrences({
+            seriesId,
+            fromBookingId: parseInt(fromBookingId),
+            scope,
+            startTime,
+            endTime,
+        });
+        if (!result.success) {
+            return res.status(result.conflicts ? 409 : 400).json({ error: result.error, conflicts: result.conflicts });
+        }
+        res.json(result);
+    } catch (error) {
+        logger.error("Error modifying booking series occurrences:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to modify occurrences" });
+    }
+});
+
 // Create a booking
 router.post("/chef/bookings", requireChef, requireNoUnpaidPenalties, async (req: Request, res: Response) => {
     try {
-        const { kitchenId, bookingDate, startTime, endTime, selectedSlots, specialNotes, selectedStorageIds, selectedStorage, selectedEquipmentIds, paymentIntentId } = req.body;
+        const { kitchenId, bookingDate, endDate, startTime, endTime, selectedSlots, specialNotes, selectedStorageIds, selectedStorage, selectedEquipmentIds, paymentIntentId, stationCount } = req.body;
         const chefId = req.neonUser!.id;
         
         logger.info(`[Booking Route] Received booking request with selectedEquipmentIds: ${JSON.stringify(selectedEquipmentIds)}`);
@@ -3566,12 +4400,18 @@ router.post("/chef/bookings", requireChef, requireNoUnpaidPenalties, async (req:
         }
 
         // First validate that the booking is within manager-set availability
+        // endDate (optional) is the day endTime falls on for overnight/multi-day runs
         const bookingDateObj = new Date(bookingDate);
+        const bookingEndDateObj = endDate ? new Date(endDate) : null;
+        if (bookingEndDateObj && isNaN(bookingEndDateObj.getTime())) {
+            return res.status(400).json({ error: "Invalid end date" });
+        }
         const availabilityCheck = await bookingService.validateBookingAvailability(
             kitchenId,
             bookingDateObj,
             startTime,
-            endTime
+            endTime,
+            bookingEndDateObj
         );
 
         if (!availabilityCheck.valid) {
@@ -3657,9 +4497,13 @@ router.post("/chef/bookings", requireChef, requireNoUnpaidPenalties, async (req:
             kitchenId,
             chefId,
             bookingDate: bookingDateObj,
+            endDate: bookingEndDateObj && getDayOffset(bookingDateObj.toISOString().split('T')[0], bookingEndDateObj.toISOString().split('T')[0]) > 0
+                ? bookingEndDateObj
+                : null,
             startTime,
             endTime,
             selectedSlots: selectedSlots || [], // Pass discrete time slots
+            stationCount: stationCount === undefined ? undefined : Number(stationCount),
             status: 'pending', // Requires manager approval before confirmation
             paymentStatus: paymentIntentId ? 'paid' : 'pending',
             paymentIntentId,
@@ -3668,6 +4512,9 @@ router.post("/chef/bookings", requireChef, requireNoUnpaidPenalties, async (req:
             selectedEquipmentIds: selectedEquipmentIds || []
         });
 
+        const { claimWaitlistEntries } = await import('../services/kitchen-waitlist-service');
+        await claimWaitlistEntries(booking);
+
         // Create payment transaction record if payment intent is present
         if (paymentIntentId) {
             try {
@@ -3693,6 +4540,7 @@ router.post("/chef/bookings", requireChef, requireNoUnpaidPenalties, async (req:
                         baseAmount: subtotalCents,
                         serviceFee: serviceFeeCents,
                         managerRevenue: managerRevenueCents,
+                        taxCents,
                         currency: (booking.currency || 'CAD').toUpperCase(),
                         paymentIntentId,
                         status: normalizedStatus,
@@ -3863,10 +4711,12 @@ router.get("/chef/bookings/by-session/:sessionId", requireChef, async (req: Requ
             
             // Create the booking from metadata (webhook hasn't created it yet)
             const bookingDate = new Date(metadata.booking_date);
+            const endDate = metadata.end_date ? new Date(metadata.end_date) : null;
             const startTime = metadata.start_time;
             const endTime = metadata.end_time;
             const specialNotes = metadata.special_notes || null;
             const selectedSlots = metadata.selected_slots ? JSON.parse(metadata.selected_slots) : [];
+            const stationIds = metadata.station_ids ? JSON.parse(metadata.station_ids) : [];
             const selectedStorage = metadata.selected_storage ? JSON.parse(metadata.selected_storage) : [];
             const selectedEquipmentIds = metadata.selected_equipment_ids ? JSON.parse(metadata.selected_equipment_ids) : [];
             
@@ -3876,6 +4726,7 @@ router.get("/chef/bookings/by-session/:sessionId", requireChef, async (req: Requ
             const totalPriceCents = parseInt(metadata.total_price_cents || "0");
             const hourlyRateCents = parseInt(metadata.hourly_rate_cents || "0");
             const durationHours = parseFloat(metadata.duration_hours || "1");
+            const sessionCurrency = normalizeCurrency(session.currency);
             
             const [directBooking] = await db
                 .insert(kitchenBookings)
@@ -3883,6 +4734,7 @@ router.get("/chef/bookings/by-session/:sessionId", requireChef, async (req: Requ
                     kitchenId: kitchenIdFromMeta,
                     chefId: chefIdFromMeta,
                     bookingDate,
+                    endDate,
                     startTime,
                     endTime,
                     status: "pending", // Awaiting manager approval
@@ -3893,8 +4745,9 @@ router.get("/chef/bookings/by-session/:sessionId", requireChef, async (req: Requ
                     hourlyRate: hourlyRateCents.toString(),
                     durationHours: durationHours.toString(),
                     serviceFee: parseInt(metadata.platform_fee_cents || "0").toString(),
-                    currency: "CAD",
+                    currency: sessionCurrency,
                     selectedSlots: selectedSlots,
+                    stationIds,
                     storageItems: [],
                     equipmentItems: [],
                 })
@@ -3940,7 +4793,8 @@ router.get("/chef/bookings/by-session/:sessionId", requireChef, async (req: Requ
                             baseAmount: parseInt(metadata.total_price_cents || "0") + parseInt(metadata.tax_cents || "0"),
                             serviceFee: parseInt(metadata.platform_fee_cents || "0"),
                             managerRevenue: parseInt(metadata.booking_price_cents || "0") - parseInt(metadata.platform_fee_cents || "0"),
-                            currency: "CAD",
+                            taxCents: parseInt(metadata.tax_cents || "0"),
+                            currency: sessionCurrency,
                             paymentIntentId,
                             status: "succeeded",
                             stripeStatus: "succeeded",
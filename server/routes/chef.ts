@@ -585,6 +585,7 @@ router.get("/invoices/overstay/:overstayRecordId", requireChef, async (req: Requ
                 id: storageBooking.id,
                 kitchenName: kitchen.name,
                 locationName: location?.name,
+                locationId: location?.id,
                 storageName: listing.name,
                 taxRatePercent: taxRatePercent,
             },
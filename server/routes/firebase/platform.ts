@@ -377,12 +377,14 @@ router.get('/admin/platform-settings/kitchen-time-windows', requireFirebaseAuthW
         const keys = [
             'kitchen_checkin_window_minutes_before',
             'kitchen_no_show_grace_minutes',
+            'kitchen_overtime_grace_minutes',
             'kitchen_checkout_review_window_minutes',
         ];
 
         const defaults: Record<string, { key: string; value: string; intValue: number; description: string | null; updatedAt: Date | null }> = {
             checkinWindowMinutesBefore: { key: 'kitchen_checkin_window_minutes_before', value: '15', intValue: 15, description: 'How early (in minutes) before start time a chef can check in', updatedAt: null },
             noShowGraceMinutes: { key: 'kitchen_no_show_grace_minutes', value: '30', intValue: 30, description: 'Grace period (in minutes) after start time before marking no-show', updatedAt: null },
+            overtimeGraceMinutes: { key: 'kitchen_overtime_grace_minutes', value: '15', intValue: 15, description: 'Grace period (in minutes) after end time before a late check-out is billed as overtime', updatedAt: null },
             checkoutReviewWindowMinutes: { key: 'kitchen_checkout_review_window_minutes', value: '60', intValue: 60, description: 'How long (in minutes) manager has to review a checkout request', updatedAt: null },
         };
 
@@ -399,6 +401,8 @@ router.get('/admin/platform-settings/kitchen-time-windows', requireFirebaseAuthW
                     defaults.checkinWindowMinutesBefore = { key, value: setting.value, intValue: parseInt(setting.value), description: setting.description, updatedAt: setting.updatedAt };
                 } else if (key === 'kitchen_no_show_grace_minutes') {
                     defaults.noShowGraceMinutes = { key, value: setting.value, intValue: parseInt(setting.value), description: setting.description, updatedAt: setting.updatedAt };
+                } else if (key === 'kitchen_overtime_grace_minutes') {
+                    defaults.overtimeGraceMinutes = { key, value: setting.value, intValue: parseInt(setting.value), description: setting.description, updatedAt: setting.updatedAt };
                 } else if (key === 'kitchen_checkout_review_window_minutes') {
                     defaults.checkoutReviewWindowMinutes = { key, value: setting.value, intValue: parseInt(setting.value), description: setting.description, updatedAt: setting.updatedAt };
                 }
@@ -415,7 +419,7 @@ router.get('/admin/platform-settings/kitchen-time-windows', requireFirebaseAuthW
 // Update kitchen time window defaults
 router.put('/admin/platform-settings/kitchen-time-windows', requireFirebaseAuthWithUser, requireAdmin, async (req: Request, res: Response) => {
     try {
-        const { checkinWindowMinutesBefore, noShowGraceMinutes, checkoutReviewWindowMinutes } = req.body;
+        const { checkinWindowMinutesBefore, noShowGraceMinutes, overtimeGraceMinutes, checkoutReviewWindowMinutes } = req.body;
         const userId = req.neonUser!.id;
 
         if (!userId) {
@@ -427,6 +431,7 @@ router.put('/admin/platform-settings/kitchen-time-windows', requireFirebaseAuthW
         const fields = [
             { key: 'kitchen_checkin_window_minutes_before', value: checkinWindowMinutesBefore, label: 'checkinWindowMinutesBefore', min: 0, max: 120, description: 'How early (in minutes) before start time a chef can check in' },
             { key: 'kitchen_no_show_grace_minutes', value: noShowGraceMinutes, label: 'noShowGraceMinutes', min: 0, max: 120, description: 'Grace period (in minutes) after start time before marking no-show' },
+            { key: 'kitchen_overtime_grace_minutes', value: overtimeGraceMinutes, label: 'overtimeGraceMinutes', min: 0, max: 120, description: 'Grace period (in minutes) after end time before a late check-out is billed as overtime' },
             { key: 'kitchen_checkout_review_window_minutes', value: checkoutReviewWindowMinutes, label: 'checkoutReviewWindowMinutes', min: 0, max: 480, description: 'How long (in minutes) manager has to review a checkout request' },
         ];
 
@@ -83,6 +83,8 @@ router.get("/chef/kitchens/:kitchenId/pricing", requireChef, async (req: Request
             hourlyRate: kitchen.hourlyRate,
             currency: kitchen.currency,
             pricingModel: kitchen.pricingModel,
+            dailyRate: kitchen.dailyRate,
+            weeklyRate: kitchen.weeklyRate,
             minimumBookingHours: kitchen.minimumBookingHours
         };
 
@@ -96,6 +98,44 @@ router.get("/chef/kitchens/:kitchenId/pricing", requireChef, async (req: Request
     }
 });
 
+// Preview the kitchen-time price for a date and slot selection.
+// Peak/off-peak rules are evaluated slot-by-slot, so the breakdown can change per slot.
+router.post("/chef/kitchens/:kitchenId/price-preview", requireChef, async (req: Request, res: Response) => {
+    try {
+        const kitchenId = parseInt(req.params.kitchenId);
+        if (isNaN(kitchenId) || kitchenId <= 0) {
+            return res.status(400).json({ error: "Invalid kitchen ID" });
+        }
+
+        const { bookingDate, selectedSlots, stationCount } = req.body;
+        if (!bookingDate || !/^\d{4}-\d{2}-\d{2}/.test(String(bookingDate))) {
+            return res.status(400).json({ error: "bookingDate must be in YYYY-MM-DD format" });
+        }
+        if (!Array.isArray(selectedSlots) || selectedSlots.length === 0) {
+            return res.status(400).json({ error: "Select at least one time slot" });
+        }
+
+        const sortedSlots = [...selectedSlots].sort((a, b) => a.startTime.localeCompare(b.startTime));
+        const { calculateKitchenBookingPrice } = await import("../services/pricing-service");
+        const pricing = await calculateKitchenBookingPrice(
+            kitchenId,
+            sortedSlots[0].startTime,
+            sortedSlots[sortedSlots.length - 1].endTime,
+            {
+                slotCount: sortedSlots.length,
+                selectedSlots: sortedSlots,
+                bookingDates: [String(bookingDate)],
+                stationCount: stationCount === undefined ? undefined : Number(stationCount),
+            }
+        );
+
+        res.json(pricing);
+    } catch (error) {
+        logger.error("Error previewing kitchen price:", error);
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to preview price" });
+    }
+});
+
 // Get kitchen booking policy (for chefs to see max slots per chef per day)
 router.get("/chef/kitchens/:kitchenId/policy", requireChef, async (req: Request, res: Response) => {
     try {
@@ -268,7 +308,15 @@ router.get("/chef/kitchens/:kitchenId/slots", requireChef, async (req: Request,
             return res.status(400).json({ error: "Invalid date format" });
         }
 
-        const slotsInfo = await bookingService.getAllTimeSlotsWithBookingInfo(kitchenId, bookingDate);
+        // Lazy evaluation: expire lapsed waitlist holds so the slot falls through to the next chef
+        try {
+            const { processExpiredWaitlistHolds } = await import("../services/kitchen-waitlist-service");
+            await processExpiredWaitlistHolds({ kitchenId });
+        } catch (waitlistError) {
+            logger.warn(`Waitlist hold expiry failed for kitchen ${kitchenId}:`, waitlistError);
+        }
+
+        const slotsInfo = await bookingService.getAllTimeSlotsWithBookingInfo(kitchenId, bookingDate, req.neonUser!.id);
 
         res.json(slotsInfo);
     } catch (error: any) {
@@ -313,7 +361,7 @@ router.get("/chef/kitchens/:kitchenId/month-availability", requireChef, async (r
     }
 });
 
-// Get available time slots for a kitchen on a specific date (legacy endpoint, returns only available slots)
+// Get time slots for a kitchen on a specific date with the number of free stations in each (legacy endpoint)
 router.get("/chef/kitchens/:kitchenId/availability", requireChef, async (req: Request, res: Response) => {
     try {
         const kitchenId = parseInt(req.params.kitchenId);
@@ -337,7 +385,7 @@ router.get("/chef/kitchens/:kitchenId/availability", requireChef, async (req: Re
 
         const slots = await bookingService.getAvailableTimeSlots(kitchenId, bookingDate);
 
-        logger.info(`✅ Returning ${slots.length} available slots`);
+        logger.info(`✅ Returning ${slots.length} slots`);
 
         res.json(slots);
     } catch (error: any) {
@@ -4,6 +4,7 @@ import { userService } from "../domains/users/user.service";
 import { requireFirebaseAuthWithUser } from "../firebase-auth-middleware";
 import { sendEmail, generateWelcomeEmail } from "../email";
 import { getFirebaseUserByEmail } from "../firebase-setup";
+import { getAppBaseUrl } from "../config";
 
 const router = Router();
 
@@ -430,4 +431,65 @@ router.post("/verify-email-complete", async (req: Request, res: Response) => {
   }
 });
 
+// ===================================
+// CALENDAR FEED ROUTES
+// ===================================
+
+/** Feed URL on the user's own portal, from the configured base URL rather than request headers */
+function getFeedUrl(req: Request, token: string): string {
+  const baseUrl = getAppBaseUrl(req.neonUser!.role === 'manager' ? 'kitchen' : 'chef');
+  return `${baseUrl}/api/user/calendar-feed/${token}.ics`;
+}
+
+/**
+ * GET /api/user/calendar-feed
+ * Get the current user's subscribable ICS feed URL (created on first request)
+ */
+router.get("/calendar-feed", requireFirebaseAuthWithUser, async (req: Request, res: Response) => {
+  try {
+    const { getCalendarFeedToken } = await import("../services/calendar-feed-service");
+    const token = await getCalendarFeedToken(req.neonUser!.id);
+    res.json({ feedUrl: getFeedUrl(req, token) });
+  } catch (error) {
+    logger.error("Error getting calendar feed URL:", error);
+    res.status(500).json({ error: "Failed to get calendar feed URL" });
+  }
+});
+
+/**
+ * POST /api/user/calendar-feed/regenerate
+ * Issue a new feed token - existing calendar subscriptions stop updating
+ */
+router.post("/calendar-feed/regenerate", requireFirebaseAuthWithUser, async (req: Request, res: Response) => {
+  try {
+    const { regenerateCalendarFeedToken } = await import("../services/calendar-feed-service");
+    const token = await regenerateCalendarFeedToken(req.neonUser!.id);
+    res.json({ feedUrl: getFeedUrl(req, token) });
+  } catch (error) {
+    logger.error("Error regenerating calendar feed URL:", error);
+    res.status(500).json({ error: "Failed to regenerate calendar feed URL" });
+  }
+});
+
+/**
+ * GET /api/user/calendar-feed/:token.ics
+ * Public ICS feed fetched by calendar apps - the secret token is the only credential
+ */
+router.get("/calendar-feed/:token.ics", async (req: Request, res: Response) => {
+  try {
+    const { getCalendarFeedForToken } = await import("../services/calendar-feed-service");
+    const feed = await getCalendarFeedForToken(req.params.token);
+    if (!feed) {
+      return res.status(404).json({ error: "Calendar feed not found" });
+    }
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="localcooks-bookings.ics"');
+    res.setHeader("Cache-Control", "private, max-age=300");
+    res.send(feed);
+  } catch (error) {
+    logger.error("Error generating calendar feed:", error);
+    res.status(500).json({ error: "Failed to generate calendar feed" });
+  }
+});
+
 export default router;
@@ -12,12 +12,15 @@ import {
   equipmentListings,
   pendingStorageExtensions,
 } from "@shared/schema";
-import { eq, and, ne, notInArray } from "drizzle-orm";
+import { eq, and, ne, or, isNull, notInArray } from "drizzle-orm";
 import { logger } from "../logger";
 import * as Sentry from '@sentry/node';
 import { errorResponse } from "../api-response";
 import { notificationService } from "../services/notification.service";
 import { generateReferenceCode } from "../reference-code";
+import type { PromoTransactionMetadata } from "../services/promo-code-service";
+import type { WalletTransactionMetadata } from "../services/chef-wallet-service";
+import { DEFAULT_CURRENCY, normalizeCurrency, type SupportedCurrency } from "@shared/currency-utils";
 
 const router = Router();
 
@@ -232,6 +235,81 @@ router.post("/stripe/manual-process-session", async (req: Request, res: Response
   }
 });
 
+// ===================================
+// SMART LOCK WEBHOOK ENDPOINTS
+// ===================================
+
+// Door events from a kitchen's lock (or the bridge in front of it). Signed with
+// the kitchen's lock provider secret over the raw body, like our outbound pushes.
+router.post("/smart-lock/:kitchenId", async (req: Request, res: Response) => {
+  try {
+    const kitchenId = parseInt(req.params.kitchenId);
+    if (isNaN(kitchenId) || kitchenId <= 0) {
+      return res.status(400).json({ error: "Invalid kitchen ID" });
+    }
+
+    const [kitchen] = await db
+      .select({ smartLockConfig: kitchens.smartLockConfig })
+      .from(kitchens)
+      .where(eq(kitchens.id, kitchenId))
+      .limit(1);
+
+    const {
+      getLockEventSecret,
+      parseLockEvent,
+      parseSmartLockProviderConfig,
+      verifyLockEventSignature,
+    } = await import("../services/smart-lock-service");
+    const providerConfig = kitchen ? parseSmartLockProviderConfig(kitchen.smartLockConfig) : null;
+    const secret = providerConfig ? getLockEventSecret(providerConfig) : null;
+    if (!secret) {
+      // Same answer whether the kitchen is missing or has no lock events set up
+      return res.status(404).json({ error: "Lock events are not configured for this kitchen" });
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : JSON.stringify(req.body ?? {});
+    const signed = verifyLockEventSignature(
+      rawBody,
+      req.headers["x-localcooks-timestamp"] as string | undefined,
+      req.headers["x-localcooks-signature"] as string | undefined,
+      secret,
+    );
+    if (!signed) {
+      logger.warn(`[Webhook] Rejected lock event for kitchen ${kitchenId}: bad signature`);
+      return res.status(401).json({ error: "Invalid signature" });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return res.status(400).json({ error: "Invalid JSON" });
+    }
+
+    const event = parseLockEvent(body);
+    if ("error" in event) {
+      return res.status(400).json({ error: event.error });
+    }
+
+    const { ingestLockEvent } = await import("../services/kitchen-checkout-service");
+    const result = await ingestLockEvent(kitchenId, event);
+    if (!result.success) {
+      return res.status(result.status || 500).json({ error: result.error });
+    }
+
+    res.json({
+      received: true,
+      duplicate: result.duplicate ?? false,
+      matched: result.matched ?? false,
+      checkedIn: result.checkedIn ?? false,
+    });
+  } catch (err) {
+    logger.error("Error handling smart lock webhook:", err);
+    Sentry.captureException(err, { tags: { component: 'smart_lock_webhook' } });
+    return errorResponse(res, err);
+  }
+});
+
 // Webhook event handlers
 async function handleCheckoutSessionCompleted(
   session: Stripe.Checkout.Session,
@@ -475,6 +553,8 @@ async function handleCheckoutSessionCompleted(
 
     // Check if this is a storage extension payment
     const metadata = expandedSession.metadata || {};
+    // Every item in a checkout is charged in the currency of the kitchen's location
+    const sessionCurrency = normalizeCurrency(expandedSession.currency);
     logger.operational(`[Webhook] Checkout session metadata:`, { 
       sessionId: session.id, 
       metadataType: metadata.type,
@@ -496,6 +576,7 @@ async function handleCheckoutSessionCompleted(
         stripeCustomerId,
         stripePaymentMethodId,
         isManualCapture,
+        sessionCurrency,
       );
     }
 
@@ -508,6 +589,7 @@ async function handleCheckoutSessionCompleted(
         chargeId,
         metadata,
         expandedSession.payment_status,
+        sessionCurrency,
       );
     }
 
@@ -520,6 +602,44 @@ async function handleCheckoutSessionCompleted(
         chargeId || "",
         metadata,
         expandedSession.payment_status,
+        sessionCurrency,
+      );
+    }
+
+    // Handle card update after a failed penalty/claim charge (setup mode — saves the card, retries the charge)
+    if (metadata.type === "card_update") {
+      logger.info(`[Webhook] Processing card update for session ${session.id}`);
+      const setupIntentId = typeof expandedSession.setup_intent === "string"
+        ? expandedSession.setup_intent
+        : expandedSession.setup_intent?.id;
+      const { applyCardUpdate } = await import("../services/charge-retry-service");
+      await applyCardUpdate(session.id, setupIntentId, stripeCustomerId, metadata);
+    }
+
+    // Handle prepaid wallet package purchase (credit is added once payment is confirmed)
+    if (metadata.type === "wallet_package") {
+      if (expandedSession.payment_status !== "paid") {
+        logger.info(`[Webhook] Wallet package payment not yet confirmed for session ${session.id}, status: ${expandedSession.payment_status}`);
+        return;
+      }
+      const { recordWalletPackagePurchase } = await import("../services/chef-wallet-service");
+      await recordWalletPackagePurchase({ sessionId: session.id, paymentIntentId, chargeId, metadata, currency: sessionCurrency });
+    }
+
+    // Handle recurring booking series (one consolidated checkout → N occurrence bookings)
+    if (metadata.type === "kitchen_booking_series") {
+      if (!isManualCapture && expandedSession.payment_status !== "paid") {
+        logger.info(`[Webhook] Series payment not yet confirmed for session ${session.id}, status: ${expandedSession.payment_status}`);
+        return;
+      }
+      await handleBookingSeriesCheckoutCompleted(
+        session.id,
+        paymentIntentId,
+        metadata,
+        stripeCustomerId,
+        stripePaymentMethodId,
+        isManualCapture,
+        sessionCurrency,
       );
     }
 
@@ -555,6 +675,7 @@ async function handleCheckoutSessionCompleted(
         const kitchenId = parseInt(metadata.kitchen_id);
         const chefId = parseInt(metadata.chef_id);
         const bookingDate = new Date(metadata.booking_date);
+        const endDate = metadata.end_date ? new Date(metadata.end_date) : null;
         const startTime = metadata.start_time;
         const endTime = metadata.end_time;
         const totalPriceCents = parseInt(metadata.total_price_cents);
@@ -563,8 +684,30 @@ async function handleCheckoutSessionCompleted(
         const durationHours = parseFloat(metadata.duration_hours || "1");
         const specialNotes = metadata.special_notes || null;
         const selectedSlots = metadata.selected_slots ? JSON.parse(metadata.selected_slots) : [];
+        const stationIds = metadata.station_ids ? JSON.parse(metadata.station_ids) : [];
         const selectedStorage = metadata.selected_storage ? JSON.parse(metadata.selected_storage) : [];
         const selectedEquipmentIds = metadata.selected_equipment_ids ? JSON.parse(metadata.selected_equipment_ids) : [];
+        // Promo discount applied at checkout — totals above are already discounted
+        const promo: PromoTransactionMetadata | null = metadata.promo_code && metadata.promo_code_id
+          ? {
+              promoCodeId: parseInt(metadata.promo_code_id),
+              code: metadata.promo_code,
+              discountCents: parseInt(metadata.promo_discount_cents || "0"),
+              absorbedBy: metadata.promo_absorbed_by === "manager" ? "manager" : "platform",
+              subtotalBeforeDiscountCents: parseInt(metadata.promo_subtotal_before_discount_cents || "0"),
+              redemptionId: metadata.promo_redemption_id ? parseInt(metadata.promo_redemption_id) : undefined,
+              totalChargedCents: parseInt(metadata.booking_price_cents),
+            }
+          : null;
+        // Wallet credit held at checkout — booking_price_cents is what the card pays after it
+        const wallet: WalletTransactionMetadata | null = metadata.wallet_hold_id
+          ? {
+              holdId: parseInt(metadata.wallet_hold_id),
+              appliedCents: parseInt(metadata.wallet_applied_cents || "0"),
+              platformFundedCents: parseInt(metadata.wallet_platform_funded_cents || "0"),
+              totalChargedCents: parseInt(metadata.booking_price_cents),
+            }
+          : null;
 
         logger.operational(`[Webhook] Creating booking from metadata for kitchen ${kitchenId}, chef ${chefId}`, {
           sessionId: session.id,
@@ -594,6 +737,7 @@ async function handleCheckoutSessionCompleted(
               kitchenId,
               chefId,
               bookingDate,
+              endDate,
               startTime,
               endTime,
               status: "pending", // Awaiting manager approval
@@ -603,9 +747,11 @@ async function handleCheckoutSessionCompleted(
               totalPrice: totalPriceCents.toString(),
               hourlyRate: hourlyRateCents.toString(),
               durationHours: durationHours.toString(),
+              pricingBreakdown: metadata.pricing_breakdown ? JSON.parse(metadata.pricing_breakdown) : null,
               serviceFee: parseInt(metadata.platform_fee_cents || "0").toString(),
-              currency: "CAD",
+              currency: sessionCurrency,
               selectedSlots: selectedSlots,
+              stationIds,
               storageItems: [],
               equipmentItems: [],
               // ENTERPRISE STANDARD: Store Stripe customer/payment info for off-session damage claim charging
@@ -656,6 +802,10 @@ async function handleCheckoutSessionCompleted(
 
         logger.operational(`[Webhook] Created booking ${booking.id} from checkout session ${session.id}`);
 
+        // The chef may have been holding this slot from the waitlist
+        const { claimWaitlistEntries } = await import("../services/kitchen-waitlist-service");
+        await claimWaitlistEntries(booking);
+
         // CRITICAL: Verify booking was actually persisted to database before creating payment_transactions
         const [verifiedBooking] = await db
           .select({ id: kitchenBookings.id })
@@ -744,7 +894,7 @@ async function handleCheckoutSessionCompleted(
                     paymentStatus: bookingPaymentStatus, // 'authorized' for manual capture, 'paid' for auto capture
                     paymentIntentId: paymentIntentId || null, // Link to the kitchen booking payment
                     serviceFee: '0',
-                    currency: 'CAD',
+                    currency: normalizeCurrency(storageListing.currency),
                     stripeCustomerId: stripeCustomerId || null,
                     stripePaymentMethodId: stripePaymentMethodId || null,
                   })
@@ -798,7 +948,7 @@ async function handleCheckoutSessionCompleted(
                     paymentStatus: bookingPaymentStatus, // 'authorized' for manual capture, 'paid' for auto capture
                     paymentIntentId: paymentIntentId || null, // Link to the kitchen booking payment
                     serviceFee: '0',
-                    currency: 'CAD',
+                    currency: normalizeCurrency(equipmentListing.currency),
                   })
                   .returning();
 
@@ -835,6 +985,26 @@ async function handleCheckoutSessionCompleted(
           }
         }
 
+        // Record promo redemption — counts against the code's usage caps from now on
+        if (promo) {
+          try {
+            const { recordPromoRedemption } = await import("../services/promo-code-service");
+            await recordPromoRedemption({ promo, chefId, bookingId: booking.id, paymentIntentId: paymentIntentId || null });
+          } catch (promoError) {
+            logger.error(`[Webhook] Error recording promo redemption for booking ${booking.id}:`, promoError as Error);
+          }
+        }
+
+        // Spend the wallet credit held at checkout on this booking
+        if (wallet) {
+          try {
+            const { completeWalletRedemption } = await import("../services/chef-wallet-service");
+            await completeWalletRedemption(wallet.holdId, { bookingId: booking.id, paymentIntentId: paymentIntentId || null });
+          } catch (walletError) {
+            logger.error(`[Webhook] Error redeeming wallet hold ${wallet.holdId} for booking ${booking.id}:`, walletError as Error);
+          }
+        }
+
         // Create payment_transactions record with all Stripe data populated
         try {
           const { createPaymentTransaction, updatePaymentTransaction } = await import("../services/payment-transactions-service");
@@ -872,8 +1042,9 @@ async function handleCheckoutSessionCompleted(
                 amount: parseInt(metadata.booking_price_cents),
                 baseAmount: totalPriceCents + taxCents,
                 serviceFee: parseInt(metadata.platform_fee_cents || "0"),
+                taxCents,
                 managerRevenue: parseInt(metadata.booking_price_cents) - parseInt(metadata.platform_fee_cents || "0"),
-                currency: "CAD",
+                currency: sessionCurrency,
                 paymentIntentId,
                 status: ptStatus,
                 stripeStatus: ptStatus,
@@ -885,6 +1056,9 @@ async function handleCheckoutSessionCompleted(
                   // belong to this kitchen booking payment (vs. extensions paid separately)
                   ...(storageItemsForJson.length > 0 ? { storage_items: storageItemsForJson } : {}),
                   ...(equipmentItemsForJson.length > 0 ? { equipment_items: equipmentItemsForJson } : {}),
+                  // Read by invoices and by the manager transfer (platform-funded discounts are topped up)
+                  ...(promo ? { promo } : {}),
+                  ...(wallet ? { wallet } : {}),
                 },
               }, db);
               
@@ -966,7 +1140,7 @@ async function handleCheckoutSessionCompleted(
             }
           }
         } catch (ptError) {
-          logger.warn(`[Webhook] Could not create payment_transactions record:`, ptError as any);
+          logger.warn(`[Webhook] Could not create payment_transactions record:`, ptError);
         }
 
         // Send manager notification - payment is confirmed
@@ -1057,7 +1231,7 @@ async function handleCheckoutSessionCompleted(
             }
           }
         } catch (notifyError) {
-          logger.error(`[Webhook] Error sending manager notification:`, notifyError as any);
+          logger.error(`[Webhook] Error sending manager notification:`, notifyError);
         }
 
         // Send chef confirmation email
@@ -1103,7 +1277,7 @@ async function handleCheckoutSessionCompleted(
             logger.warn(`[Webhook] Chef or kitchen not found for booking ${booking.id} - chef: ${!!chef}, kitchen: ${!!kitchen}`);
           }
         } catch (emailError) {
-          logger.error(`[Webhook] Error sending chef email:`, emailError as any);
+          logger.error(`[Webhook] Error sending chef email:`, emailError);
         }
 
       } catch (createError) {
@@ -1206,7 +1380,8 @@ async function handleCheckoutSessionCompleted(
                     baseAmount: subtotalCents,
                     serviceFee: serviceFeeCents,
                     managerRevenue: subtotalCents - serviceFeeCents,
-                    currency: 'CAD',
+                    taxCents,
+                    currency: sessionCurrency,
                     paymentIntentId,
                     chargeId,
                     status: 'succeeded',
@@ -1251,6 +1426,159 @@ async function handleCheckoutSessionCompleted(
   }
 }
 
+// Handle recurring booking series checkout completion
+// Creates the series + every occurrence booking and ONE payment_transactions row
+// covering the consolidated PaymentIntent (linked to the first occurrence).
+async function handleBookingSeriesCheckoutCompleted(
+  sessionId: string,
+  paymentIntentId: string | undefined,
+  metadata: Record<string, string>,
+  stripeCustomerId: string | undefined,
+  stripePaymentMethodId: string | undefined,
+  isManualCapture: boolean,
+  currency: SupportedCurrency,
+) {
+  try {
+    const { createSeriesFromCheckout, getSeriesNotificationContext } = await import(
+      "../services/booking-series-service"
+    );
+    const created = await createSeriesFromCheckout({
+      metadata,
+      paymentIntentId,
+      paymentStatus: isManualCapture ? "authorized" : "paid",
+      stripeCustomerId,
+      stripePaymentMethodId,
+      currency,
+    });
+    if (!created) return; // Duplicate webhook delivery
+    const { series, bookings: occurrences, skippedDates } = created;
+
+    if (occurrences.length === 0) {
+      logger.error(`[Webhook] CRITICAL: Series ${series.id} has no bookable occurrences (session ${sessionId})`);
+      Sentry.captureMessage(`Booking series ${series.id} created with no occurrences`, {
+        extra: { sessionId, paymentIntentId, skippedDates },
+      });
+      return;
+    }
+
+    const chefId = series.chefId;
+    if (stripeCustomerId) {
+      try {
+        await db
+          .update(users)
+          .set({ stripeCustomerId, updatedAt: new Date() })
+          .where(eq(users.id, chefId));
+      } catch (userUpdateError) {
+        logger.warn(`[Webhook] Could not save Stripe Customer ID to user:`, userUpdateError as Error);
+      }
+    }
+
+    const context = await getSeriesNotificationContext(series);
+    const firstOccurrence = occurrences[0];
+
+    if (context?.managerId) {
+      try {
+        const { createPaymentTransaction } = await import("../services/payment-transactions-service");
+        const ptStatus = isManualCapture ? "authorized" : "succeeded";
+        await createPaymentTransaction({
+          bookingId: firstOccurrence.id,
+          bookingType: "kitchen",
+          chefId,
+          managerId: context.managerId,
+          amount: parseInt(metadata.booking_price_cents),
+          baseAmount: parseInt(metadata.total_price_cents) + parseInt(metadata.tax_cents || "0"),
+          serviceFee: parseInt(metadata.platform_fee_cents || "0"),
+          taxCents: parseInt(metadata.tax_cents || "0"),
+          managerRevenue: parseInt(metadata.booking_price_cents) - parseInt(metadata.platform_fee_cents || "0"),
+          currency,
+          paymentIntentId,
+          status: ptStatus,
+          stripeStatus: ptStatus,
+          metadata: {
+            checkout_session_id: sessionId,
+            booking_id: firstOccurrence.id.toString(),
+            series_id: series.id.toString(),
+            series_booking_ids: occurrences.map((o) => o.id),
+            ...(skippedDates.length > 0 ? { series_skipped_dates: skippedDates } : {}),
+          },
+        }, db);
+      } catch (ptError) {
+        logger.warn(`[Webhook] Could not create payment_transactions record for series ${series.id}:`, ptError);
+      }
+
+      try {
+        await notificationService.notifyNewBookingSeries({
+          managerId: context.managerId,
+          locationId: context.locationId,
+          bookingId: firstOccurrence.id,
+          seriesId: series.id,
+          occurrenceCount: occurrences.length,
+          frequency: series.frequency,
+          chefName: context.chefName,
+          kitchenName: context.kitchenName,
+          bookingDate: firstOccurrence.bookingDate.toISOString().split("T")[0],
+          startTime: series.startTime,
+          endTime: series.endTime,
+        });
+      } catch (notifyError) {
+        logger.error(`[Webhook] Error sending manager series notification:`, notifyError);
+      }
+    }
+
+    // Emails reuse the single-booking templates for the first session, with the
+    // series schedule summarised in the notes
+    if (context) {
+      const lastOccurrence = occurrences[occurrences.length - 1];
+      const seriesNote = `Recurring series: ${occurrences.length} sessions (${series.frequency}) through ${lastOccurrence.bookingDate.toISOString().split("T")[0]}.`
+        + (series.specialNotes ? `\n${series.specialNotes}` : "");
+      try {
+        const { sendEmail, generateBookingNotificationEmail, generateBookingRequestEmail } = await import("../email");
+        const [location] = await db
+          .select({ notificationEmail: locations.notificationEmail })
+          .from(locations)
+          .where(eq(locations.id, context.locationId))
+          .limit(1);
+        if (location?.notificationEmail) {
+          await sendEmail(generateBookingNotificationEmail({
+            managerEmail: location.notificationEmail,
+            chefName: context.chefName,
+            kitchenName: context.kitchenName,
+            bookingDate: firstOccurrence.bookingDate,
+            startTime: series.startTime,
+            endTime: series.endTime,
+            specialNotes: seriesNote,
+            timezone: context.timezone || "America/St_Johns",
+            locationName: context.locationName,
+            bookingId: firstOccurrence.id,
+            referenceCode: series.referenceCode,
+          }), { trackingId: `booking_series_${series.id}_manager` });
+        }
+        await sendEmail(generateBookingRequestEmail({
+          chefEmail: context.chefName,
+          chefName: context.chefName,
+          kitchenName: context.kitchenName,
+          bookingDate: firstOccurrence.bookingDate,
+          startTime: series.startTime,
+          endTime: series.endTime,
+          specialNotes: seriesNote,
+          timezone: context.timezone || "America/St_Johns",
+          locationName: context.locationName,
+        }), { trackingId: `booking_series_${series.id}_chef` });
+      } catch (emailError) {
+        logger.error(`[Webhook] Error sending series booking emails:`, emailError);
+      }
+    }
+
+    logger.operational(`[Webhook] Created booking series ${series.id} (${occurrences.length} occurrences) from checkout session ${sessionId}`);
+  } catch (error) {
+    logger.error(`[Webhook] Error creating booking series from metadata:`, error);
+    Sentry.captureException(error, {
+      tags: { component: 'webhook_series_creation' },
+      extra: { sessionId, paymentIntentId },
+    });
+  }
+}
+
 // Helper function to update storage booking with Stripe IDs for off-session charging
 async function updateStorageBookingStripeIds(
   storageBookingId: number,
@@ -1313,6 +1641,7 @@ async function handleStorageExtensionPaymentCompleted(
   stripeCustomerId: string | undefined,
   stripePaymentMethodId: string | undefined,
   isManualCapture: boolean = false,
+  currency: SupportedCurrency = DEFAULT_CURRENCY,
 ) {
   try {
     const { bookingService } = await import(
@@ -1405,7 +1734,8 @@ async function handleStorageExtensionPaymentCompleted(
         baseAmount: extensionBasePriceCents,
         serviceFee: extensionServiceFeeCents,
         managerRevenue: managerReceivesCents || (extensionTotalPriceCents - extensionServiceFeeCents),
-        currency: "CAD",
+        taxCents: parseInt(metadata.tax_cents || "0"),
+        currency,
         paymentIntentId, // CRITICAL: Must be saved for Stripe fee syncing
         chargeId, // Also save charge ID
         status: extPtStatus,
@@ -1505,7 +1835,7 @@ async function handleStorageExtensionPaymentCompleted(
 
       logger.info(`[Webhook] Created payment_transactions for storage extension ${pendingExtension.id}`);
     } catch (ptError) {
-      logger.warn(`[Webhook] Could not create payment_transactions for storage extension:`, ptError as any);
+      logger.warn(`[Webhook] Could not create payment_transactions for storage extension:`, ptError);
     }
 
     logger.info(`[Webhook] Storage extension payment received - awaiting manager approval:`, {
@@ -1595,7 +1925,7 @@ async function handleStorageExtensionPaymentCompleted(
         }
       }
     } catch (emailError) {
-      logger.error(`[Webhook] Error sending storage extension notification emails:`, emailError as any);
+      logger.error(`[Webhook] Error sending storage extension notification emails:`, emailError);
     }
   } catch (error: any) {
     logger.error(
@@ -1660,6 +1990,7 @@ async function handlePaymentIntentSucceeded(
           baseAmount: subtotalCents,
           serviceFee: serviceFeeCents,
           managerRevenue: managerRevenueCents,
+          taxCents,
           currency: (booking.currency || 'CAD').toUpperCase(),
           paymentIntentId: paymentIntent.id,
           status: 'succeeded',
@@ -1792,6 +2123,12 @@ async function handlePaymentIntentSucceeded(
                 platformCommissionCents: transferResult.platformCommissionCents,
                 feeWithheldCents: transferResult.feeWithheldCents,
                 transferredCents: transferResult.transferredCents,
+                ...(transferResult.promoTopUpTransferId
+                  ? { promoTopUpTransferId: transferResult.promoTopUpTransferId, promoTopUpCents: transferResult.promoTopUpCents }
+                  : {}),
+                ...(transferResult.walletTopUpTransferId
+                  ? { walletTopUpTransferId: transferResult.walletTopUpTransferId, walletTopUpCents: transferResult.walletTopUpCents }
+                  : {}),
               },
             };
             logger.info(
@@ -1845,6 +2182,9 @@ async function handlePaymentIntentSucceeded(
           and(
             eq(kitchenBookings.paymentIntentId, paymentIntent.id),
             ne(kitchenBookings.paymentStatus, "paid"),
+            // Series occurrences share the PaymentIntent — declined/cancelled dates
+            // were released from the hold at capture and must stay unpaid
+            or(isNull(kitchenBookings.seriesId), ne(kitchenBookings.status, "cancelled")),
           ),
         );
 
@@ -2267,6 +2607,12 @@ async function handleChargeRefunded(
       return;
     }
 
+    // Security deposit refunds are tracked on security_deposits, not the payment ledger
+    if (charge.metadata?.type === "security_deposit") {
+      logger.info(`[Webhook] Charge ${charge.id} is a security deposit — refund tracked on the deposit`);
+      return;
+    }
+
     // Get refund amount from Stripe charge
     const refundAmountCents = charge.amount_refunded;
 
@@ -2518,6 +2864,7 @@ async function handleOverstayPenaltyPaymentCompleted(
   chargeId: string | undefined,
   metadata: Record<string, string>,
   paymentStatus: string,
+  currency: SupportedCurrency = DEFAULT_CURRENCY,
 ) {
   try {
     const overstayRecordId = parseInt(metadata.overstayRecordId);
@@ -2589,6 +2936,9 @@ async function handleOverstayPenaltyPaymentCompleted(
     }
 
     const penaltyAmountCents = overstayRecord.finalPenaltyCents || overstayRecord.calculatedPenaltyCents || 0;
+    // Payment links created before penalties were taxed carry no tax metadata
+    const penaltyTaxCents = parseInt(metadata.penalty_tax_cents || "0") || 0;
+    const penaltyTotalCents = penaltyAmountCents + penaltyTaxCents;
 
     // Update the overstay record to charge_succeeded
     await db
@@ -2632,11 +2982,12 @@ async function handleOverstayPenaltyPaymentCompleted(
         bookingType: "storage", // Overstay penalties are related to storage bookings
         chefId: isNaN(chefId) ? null : chefId,
         managerId: managerId || null,
-        amount: penaltyAmountCents,
+        amount: penaltyTotalCents,
         baseAmount: penaltyAmountCents,
         serviceFee: 0, // No service fee on penalties - full amount goes to manager
-        managerRevenue: penaltyAmountCents,
-        currency: "CAD",
+        managerRevenue: penaltyTotalCents,
+        taxCents: penaltyTaxCents,
+        currency,
         paymentIntentId,
         status: "succeeded",
         stripeStatus: "succeeded",
@@ -2646,6 +2997,8 @@ async function handleOverstayPenaltyPaymentCompleted(
           overstay_record_id: overstayRecordId.toString(),
           storage_booking_id: storageBookingId?.toString() || "",
           charge_id: chargeId || "",
+          penalty_base_cents: penaltyAmountCents.toString(),
+          penalty_tax_cents: penaltyTaxCents.toString(),
         },
       }, db);
 
@@ -2705,6 +3058,8 @@ async function handleOverstayPenaltyPaymentCompleted(
                     overstay_record_id: overstayRecordId.toString(),
                     storage_booking_id: storageBookingId?.toString() || '',
                     charge_id: chargeId || '',
+                    penalty_base_cents: penaltyAmountCents.toString(),
+                    penalty_tax_cents: penaltyTaxCents.toString(),
                     manager_connect_account_id: managerConnectAccountId,
                     transfer: {
                       transferred: true,
@@ -2861,6 +3216,7 @@ async function handleDamageClaimPaymentCompleted(
   chargeId: string,
   metadata: Record<string, string>,
   paymentStatus: string,
+  currency: SupportedCurrency = DEFAULT_CURRENCY,
 ) {
   try {
     const claimId = parseInt(metadata.damage_claim_id);
@@ -2891,6 +3247,9 @@ async function handleDamageClaimPaymentCompleted(
     }
 
     const chargeAmount = claim.finalAmountCents || claim.claimedAmountCents || 0;
+    // Payment links created before claims were taxed carry no tax metadata
+    const claimTaxCents = parseInt(metadata.tax_cents || "0") || 0;
+    const chargeTotalCents = chargeAmount + claimTaxCents;
 
     // Update the damage claim to charge_succeeded
     await db
@@ -2934,11 +3293,12 @@ async function handleDamageClaimPaymentCompleted(
         bookingType: claim.bookingType as 'kitchen' | 'storage',
         chefId: isNaN(chefId) ? null : chefId,
         managerId: claim.managerId || null,
-        amount: chargeAmount,
+        amount: chargeTotalCents,
         baseAmount: chargeAmount,
         serviceFee: 0,
-        managerRevenue: chargeAmount,
-        currency: "CAD",
+        managerRevenue: chargeTotalCents,
+        taxCents: claimTaxCents,
+        currency,
         paymentIntentId,
         status: "succeeded",
         stripeStatus: "succeeded",
@@ -2947,6 +3307,8 @@ async function handleDamageClaimPaymentCompleted(
           type: "damage_claim",
           damage_claim_id: claimId.toString(),
           charge_id: chargeId || "",
+          claim_amount_cents: chargeAmount.toString(),
+          tax_cents: claimTaxCents.toString(),
         },
       }, db);
 
@@ -3004,6 +3366,8 @@ async function handleDamageClaimPaymentCompleted(
                     type: 'damage_claim',
                     damage_claim_id: claimId.toString(),
                     charge_id: chargeId || '',
+                    claim_amount_cents: chargeAmount.toString(),
+                    tax_cents: claimTaxCents.toString(),
                     manager_connect_account_id: managerConnectAccountId,
                     transfer: {
                       transferred: true,
@@ -3086,7 +3450,7 @@ async function handleDamageClaimPaymentCompleted(
             chefEmail: chefUser.username,
             chefName: chefUser.username.split('@')[0],
             claimTitle,
-            chargedAmount: `$${(chargeAmount / 100).toFixed(2)} CAD`,
+            chargedAmount: `$${(chargeTotalCents / 100).toFixed(2)} CAD`,
             locationName,
             claimId,
           }));
@@ -3264,6 +3628,12 @@ async function handleChargeUpdated(
               platformCommissionCents: transferResult.platformCommissionCents,
               feeWithheldCents: transferResult.feeWithheldCents,
               transferredCents: transferResult.transferredCents,
+              ...(transferResult.promoTopUpTransferId
+                ? { promoTopUpTransferId: transferResult.promoTopUpTransferId, promoTopUpCents: transferResult.promoTopUpCents }
+                : {}),
+              ...(transferResult.walletTopUpTransferId
+                ? { walletTopUpTransferId: transferResult.walletTopUpTransferId, walletTopUpCents: transferResult.walletTopUpCents }
+                : {}),
             },
           };
           stripeNetAmount = transferResult.transferredCents; // for log below
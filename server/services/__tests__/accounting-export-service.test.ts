@@ -0,0 +1,134 @@
+/**
+ * Accounting Export Service Tests
+ *
+ * Covers the double-entry journal lines for sales, refunds and payouts and
+ * the QuickBooks IIF, Xero and plain CSV file layouts.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  accountingExportToCsv,
+  accountingExportToIif,
+  accountingExportToXeroCsv,
+  buildPayoutEntry,
+  buildRefundEntry,
+  buildSaleEntry,
+  type JournalEntry,
+  type JournalPayment,
+} from '../accounting-export-service';
+
+const payment: JournalPayment = {
+  id: 7,
+  bookingId: 42,
+  itemType: 'kitchen',
+  currency: 'CAD',
+  amountCents: 11300,
+  walletCreditCents: 0,
+  serviceFeeCents: 500,
+  managerRevenueCents: 10800,
+  stripeFeeCents: 358,
+  taxCents: 1300,
+  refundCents: 0,
+  locationName: 'Downtown Kitchen',
+};
+
+const totals = (entry: JournalEntry) => ({
+  debit: entry.lines.reduce((sum, line) => sum + line.debitCents, 0),
+  credit: entry.lines.reduce((sum, line) => sum + line.creditCents, 0),
+});
+
+describe('Accounting Export Service', () => {
+  describe('buildSaleEntry', () => {
+    it('books the net payment to Stripe Clearing with fees, tax and revenue split out', () => {
+      const entry = buildSaleEntry(payment, '2026-07-14');
+      expect(entry.lines).toEqual([
+        { account: 'stripe_clearing', debitCents: 10442, creditCents: 0 },
+        { account: 'platform_fees', debitCents: 500, creditCents: 0 },
+        { account: 'stripe_fees', debitCents: 358, creditCents: 0 },
+        { account: 'sales_tax', debitCents: 0, creditCents: 1300 },
+        { account: 'revenue', debitCents: 0, creditCents: 10000 },
+      ]);
+      expect(totals(entry)).toEqual({ debit: 11300, credit: 11300 });
+    });
+
+    it('counts wallet credit as revenue and drops zero lines', () => {
+      const entry = buildSaleEntry({ ...payment, amountCents: 5000, walletCreditCents: 5000, serviceFeeCents: 0, managerRevenueCents: 10000, stripeFeeCents: 0, taxCents: 0 }, '2026-07-14');
+      expect(entry.lines).toEqual([
+        { account: 'stripe_clearing', debitCents: 10000, creditCents: 0 },
+        { account: 'revenue', debitCents: 0, creditCents: 10000 },
+      ]);
+    });
+  });
+
+  describe('buildRefundEntry', () => {
+    it('returns tax in proportion to the amount refunded', () => {
+      const entry = buildRefundEntry({ ...payment, refundCents: 5650 }, '2026-07-20')!;
+      expect(entry.lines).toEqual([
+        { account: 'refunds', debitCents: 5000, creditCents: 0 },
+        { account: 'sales_tax', debitCents: 650, creditCents: 0 },
+        { account: 'stripe_clearing', debitCents: 0, creditCents: 5650 },
+      ]);
+      expect(buildRefundEntry(payment, '2026-07-20')).toBeNull();
+    });
+  });
+
+  describe('file formats', () => {
+    const data = {
+      startDate: '2026-07-01',
+      endDate: '2026-07-31',
+      entries: [
+        buildSaleEntry(payment, '2026-07-14'),
+        buildPayoutEntry({ id: 'po_123', arrivalDate: '2026-07-16', amountCents: 10442, currency: 'CAD' }),
+      ],
+    };
+
+    it('writes debit and credit columns in the plain CSV', () => {
+      const lines = accountingExportToCsv(data).split('\n');
+      expect(lines).toHaveLength(8);
+      expect(lines[1]).toBe('2026-07-14,PT-7,sale,PT-7,1210,Stripe Clearing,Payment for kitchen #42 at Downtown Kitchen,104.42,,CAD,Downtown Kitchen,42');
+      expect(lines[7]).toBe('2026-07-16,po_123,payout,po_123,1210,Stripe Clearing,Stripe payout po_123,,104.42,CAD,,');
+    });
+
+    it('signs Xero amounts with credits negative', () => {
+      const lines = accountingExportToXeroCsv(data).split('\n');
+      expect(lines[0]).toBe('*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount,TrackingName1,TrackingOption1');
+      expect(lines[5]).toBe('PT-7 Payment for kitchen #42 at Downtown Kitchen (CAD),2026-07-14,Payment for kitchen #42 at Downtown Kitchen,4000,Tax Exempt,-100.00,Location,Downtown Kitchen');
+    });
+
+    it('writes one IIF general journal per entry with US dates', () => {
+      const lines = accountingExportToIif(data).split('\r\n');
+      expect(lines.slice(0, 3)).toEqual([
+        '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO',
+        '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO',
+        '!ENDTRNS',
+      ]);
+      expect(lines[3]).toBe('TRNS\t\tGENERAL JOURNAL\t07/14/2026\tStripe Clearing\t104.42\tPT-7\tPayment for kitchen #42 at Downtown Kitchen (CAD)');
+      expect(lines[4]).toMatch(/^SPL\t\tGENERAL JOURNAL\t07\/14\/2026\tPlatform Fees\t5\.00\t/);
+      expect(lines[8]).toBe('ENDTRNS');
+      expect(lines[9]).toBe('TRNS\t\tGENERAL JOURNAL\t07/16/2026\tBank\t104.42\tpo_123\tStripe payout po_123 (CAD)');
+    });
+  });
+});
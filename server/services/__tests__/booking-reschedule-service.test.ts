@@ -0,0 +1,80 @@
+/**
+ * Booking Reschedule Service Tests
+ *
+ * Covers the reschedule policy checks and how the price difference is
+ * settled.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  getRescheduleBlockReason,
+  getRescheduleSettlement,
+  validateRescheduleRequest,
+} from '../booking-reschedule-service';
+
+const booking = { status: 'confirmed', bookingType: 'chef', seriesId: null, checkinStatus: 'not_checked_in' };
+
+describe('Booking Reschedule Service', () => {
+  describe('getRescheduleBlockReason', () => {
+    it('allows bookings outside the reschedule window', () => {
+      expect(getRescheduleBlockReason(booking, 48, 24)).toBeNull();
+      expect(getRescheduleBlockReason(booking, 1, 0)).toBeNull();
+    });
+
+    it('blocks bookings inside the reschedule window', () => {
+      expect(getRescheduleBlockReason(booking, 12, 24)).toMatch(/within 24 hours/);
+    });
+
+    it('blocks cancelled, series and checked-in bookings', () => {
+      expect(getRescheduleBlockReason({ ...booking, status: 'cancelled' }, 48, 24)).toMatch(/Cancelled/);
+      expect(getRescheduleBlockReason({ ...booking, status: 'cancellation_requested' }, 48, 24)).toMatch(/pending cancellation/);
+      expect(getRescheduleBlockReason({ ...booking, seriesId: 7 }, 48, 24)).toMatch(/recurring series/);
+      expect(getRescheduleBlockReason({ ...booking, checkinStatus: 'checked_in' }, 48, 24)).toMatch(/checked in/);
+    });
+  });
+
+  describe('getRescheduleSettlement', () => {
+    it('charges increases on paid and authorized bookings', () => {
+      expect(getRescheduleSettlement('paid', 2500)).toBe('charge');
+      expect(getRescheduleSettlement('authorized', 2500)).toBe('charge');
+    });
+
+    it('refunds captured payments and lowers holds for decreases', () => {
+      expect(getRescheduleSettlement('paid', -2500)).toBe('refund');
+      expect(getRescheduleSettlement('partially_refunded', -2500)).toBe('refund');
+      expect(getRescheduleSettlement('authorized', -2500)).toBe('reduce_hold');
+    });
+
+    it('moves no money when the price is unchanged or nothing was paid', () => {
+      expect(getRescheduleSettlement('paid', 0)).toBe('none');
+      expect(getRescheduleSettlement('pending', 2500)).toBe('none');
+    });
+  });
+
+  it('validates the new time', () => {
+    expect(validateRescheduleRequest({ bookingDate: '2026-11-02', startTime: '09:00', endTime: '12:00' })).toBeNull();
+    expect(validateRescheduleRequest({ bookingDate: '11/02/2026', startTime: '09:00', endTime: '12:00' })).toMatch(/YYYY-MM-DD/);
+    expect(validateRescheduleRequest({ bookingDate: '2026-11-02', startTime: '9am', endTime: '12:00' })).toMatch(/HH:MM/);
+    expect(validateRescheduleRequest({ bookingDate: '2026-11-02', endDate: '2026-11-01', startTime: '22:00', endTime: '02:00' })).toMatch(/before the booking date/);
+  });
+});
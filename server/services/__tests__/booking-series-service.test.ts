@@ -0,0 +1,200 @@
+/**
+ * Booking Series Service Tests
+ *
+ * Covers the pure recurrence logic: rule validation and expansion of a
+ * weekly / biweekly rule into concrete occurrence dates. Also covers the
+ * manager decision holding deposits for the approved occurrences.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('../../domains/bookings/booking.service', () => ({
+  bookingService: {
+    validateBookingAvailability: vi.fn(),
+    findConflictingBookings: vi.fn(),
+  },
+}));
+
+vi.mock('../security-deposit-service', () => ({
+  placeDepositsForConfirmedBookings: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../kitchen-checkout-service', () => ({
+  removeAccessCodeFromLock: vi.fn(),
+}));
+
+vi.mock('../stripe-service', () => ({
+  capturePaymentIntent: vi.fn().mockResolvedValue({ amount: 22600, status: 'succeeded' }),
+}));
+
+vi.mock('../stripe-checkout-fee-service', () => ({
+  calculateCheckoutFeesAsync: vi.fn().mockResolvedValue({ totalPlatformFeeInCents: 700 }),
+}));
+
+vi.mock('../payment-transactions-service', () => ({
+  findPaymentTransactionByIntentId: vi.fn().mockResolvedValue(null),
+  updatePaymentTransaction: vi.fn(),
+}));
+
+import { db } from '../../db';
+import { placeDepositsForConfirmedBookings } from '../security-deposit-service';
+import {
+  validateRecurrenceRule,
+  expandSeriesOccurrences,
+  seriesDateToBookingDate,
+  processSeriesManagerDecision,
+  MAX_SERIES_OCCURRENCES,
+} from '../booking-series-service';
+import { mockSelects } from '../../__tests__/test-utils';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function mockUpdates() {
+  vi.mocked(db.update).mockReturnValue({
+    set: () => ({ where: () => Promise.resolve([]) }),
+  } as unknown as ReturnType<typeof db.update>);
+}
+
+const occurrence = (id: number, paymentStatus: string) => ({
+  id,
+  kitchenId: 7,
+  status: 'pending',
+  paymentStatus,
+  totalPrice: '10000',
+});
+
+describe('Booking Series Service', () => {
+  describe('validateRecurrenceRule', () => {
+    it('accepts a weekly rule bounded by count', () => {
+      expect(validateRecurrenceRule({
+        frequency: 'weekly',
+        daysOfWeek: [2, 4],
+        startDate: '2026-03-03',
+        occurrenceCount: 8,
+      })).toBeNull();
+    });
+
+    it('requires exactly one of occurrenceCount or untilDate', () => {
+      expect(validateRecurrenceRule({
+        frequency: 'weekly',
+        daysOfWeek: [2],
+        startDate: '2026-03-03',
+      })).not.toBeNull();
+      expect(validateRecurrenceRule({
+        frequency: 'weekly',
+        daysOfWeek: [2],
+        startDate: '2026-03-03',
+        occurrenceCount: 4,
+        untilDate: '2026-04-30',
+      })).not.toBeNull();
+    });
+
+    it('rejects counts outside 2..MAX_SERIES_OCCURRENCES', () => {
+      const base = { frequency: 'weekly' as const, daysOfWeek: [1], startDate: '2026-03-02' };
+      expect(validateRecurrenceRule({ ...base, occurrenceCount: 1 })).not.toBeNull();
+      expect(validateRecurrenceRule({ ...base, occurrenceCount: MAX_SERIES_OCCURRENCES + 1 })).not.toBeNull();
+    });
+
+    it('rejects an until-date before the start date', () => {
+      expect(validateRecurrenceRule({
+        frequency: 'weekly',
+        daysOfWeek: [1],
+        startDate: '2026-03-02',
+        untilDate: '2026-03-01',
+      })).not.toBeNull();
+    });
+  });
+
+  describe('expandSeriesOccurrences', () => {
+    it('expands Tuesday/Thursday weekly by count', () => {
+      // 2026-03-03 is a Tuesday
+      expect(expandSeriesOccurrences({
+        frequency: 'weekly',
+        daysOfWeek: [2, 4],
+        startDate: '2026-03-03',
+        occurrenceCount: 4,
+      })).toEqual(['2026-03-03', '2026-03-05', '2026-03-10', '2026-03-12']);
+    });
+
+    it('skips alternate weeks for biweekly', () => {
+      expect(expandSeriesOccurrences({
+        frequency: 'biweekly',
+        daysOfWeek: [2],
+        startDate: '2026-03-03',
+        occurrenceCount: 3,
+      })).toEqual(['2026-03-03', '2026-03-17', '2026-03-31']);
+    });
+
+    it('stops at an inclusive until-date', () => {
+      expect(expandSeriesOccurrences({
+        frequency: 'weekly',
+        daysOfWeek: [2],
+        startDate: '2026-03-03',
+        untilDate: '2026-03-17',
+      })).toEqual(['2026-03-03', '2026-03-10', '2026-03-17']);
+    });
+
+    it('applies excluded dates after the count (RRULE EXDATE semantics)', () => {
+      expect(expandSeriesOccurrences({
+        frequency: 'weekly',
+        daysOfWeek: [2],
+        startDate: '2026-03-03',
+        occurrenceCount: 3,
+        excludedDates: ['2026-03-10'],
+      })).toEqual(['2026-03-03', '2026-03-17']);
+    });
+  });
+
+  describe('seriesDateToBookingDate', () => {
+    it('stores occurrences at UTC noon', () => {
+      expect(seriesDateToBookingDate('2026-03-03').toISOString()).toBe('2026-03-03T12:00:00.000Z');
+    });
+  });
+
+  describe('processSeriesManagerDecision', () => {
+    const series = { id: 3, kitchenId: 7, paymentIntentId: 'pi_series' };
+
+    it('holds deposits for the occurrences approved when the authorization is captured', async () => {
+      const occurrences = [occurrence(21, 'authorized'), occurrence(22, 'authorized')];
+      mockSelects(db.select, [series], occurrences, [{ taxRatePercent: '13' }], occurrences);
+      mockUpdates();
+
+      const result = await processSeriesManagerDecision({ seriesId: 3, status: 'confirmed', rejectedBookingIds: [22] });
+
+      expect(result.approvedBookingIds).toEqual([21]);
+      expect(placeDepositsForConfirmedBookings).toHaveBeenLastCalledWith([21]);
+    });
+
+    it('holds deposits for occurrences approved after an up-front charge', async () => {
+      const occurrences = [occurrence(31, 'paid'), occurrence(32, 'paid')];
+      mockSelects(db.select, [{ ...series, paymentIntentId: null }], occurrences, [{ taxRatePercent: null }], occurrences);
+      mockUpdates();
+
+      await processSeriesManagerDecision({ seriesId: 3, status: 'confirmed' });
+
+      expect(placeDepositsForConfirmedBookings).toHaveBeenLastCalledWith([31, 32]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Calendar Feed Service Tests
+ *
+ * Covers ICS line folding, check-in window bounds, and the shape of the
+ * published feed calendar apps subscribe to.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { buildCalendarFeed, foldIcsLine, getCheckinWindow } from '../calendar-feed-service';
+
+describe('Calendar Feed Service', () => {
+  describe('foldIcsLine', () => {
+    it('leaves short lines alone and folds long ones at 75 octets', () => {
+      expect(foldIcsLine('SUMMARY:Kitchen Booking')).toBe('SUMMARY:Kitchen Booking');
+
+      const folded = foldIcsLine(`DESCRIPTION:${'x'.repeat(200)}`);
+      const parts = folded.split('\r\n');
+      expect(parts.length).toBeGreaterThan(1);
+      expect(parts.every(part => Buffer.byteLength(part, 'utf8') <= 75)).toBe(true);
+      expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+      expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+    });
+  });
+
+  it('opens check-in before the session and closes it after the no-show grace period', () => {
+    const start = new Date('2026-06-02T12:30:00Z');
+    const window = getCheckinWindow(start, { checkinWindowMinutesBefore: 15, noShowGraceMinutes: 30 });
+    expect(window.start.toISOString()).toBe('2026-06-02T12:15:00.000Z');
+    expect(window.end.toISOString()).toBe('2026-06-02T13:00:00.000Z');
+  });
+
+  describe('buildCalendarFeed', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+
+    it('publishes timed and all-day events with CRLF line endings', () => {
+      const feed = buildCalendarFeed('Local Cooks Bookings', [
+        {
+          uid: 'kb-a7k9mx@localcooks.com',
+          summary: 'Kitchen Booking - Main Kitchen (Pending)',
+          start: new Date('2026-06-02T12:30:00Z'),
+          end: new Date('2026-06-02T15:30:00Z'),
+          status: 'TENTATIVE',
+        },
+        {
+          uid: 'sb-x3p2nr-end@localcooks.com',
+          summary: 'Storage ends: Walk-in Cooler',
+          start: new Date('2026-06-10T00:00:00Z'),
+          end: new Date('2026-06-10T00:00:00Z'),
+          allDay: true,
+        },
+      ], now);
+
+      const lines = feed.split('\r\n');
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('METHOD:PUBLISH');
+      expect(lines).toContain('DTSTART:20260602T123000Z');
+      expect(lines).toContain('STATUS:TENTATIVE');
+      // All-day DTEND is exclusive
+      expect(lines).toContain('DTSTART;VALUE=DATE:20260610');
+      expect(lines).toContain('DTEND;VALUE=DATE:20260611');
+      expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+});
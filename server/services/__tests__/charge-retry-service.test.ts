@@ -0,0 +1,69 @@
+/**
+ * Charge Retry Service Tests
+ *
+ * Covers the dunning backoff schedule: validating and parsing the platform
+ * setting and when each failed charge is retried.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  DEFAULT_CHARGE_RETRY_BACKOFF_HOURS,
+  getNextChargeRetryAt,
+  parseChargeRetryBackoff,
+  validateChargeRetryBackoff,
+} from '../charge-retry-service';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+describe('Charge Retry Service', () => {
+  describe('validateChargeRetryBackoff', () => {
+    it('accepts whole hours, including an empty schedule', () => {
+      expect(validateChargeRetryBackoff([24, 72, 168])).toBeNull();
+      expect(validateChargeRetryBackoff([])).toBeNull();
+    });
+
+    it('rejects non-lists, fractional or out-of-range delays and long schedules', () => {
+      expect(validateChargeRetryBackoff('24,72')).toMatch(/list of hours/);
+      expect(validateChargeRetryBackoff([24, 1.5])).toMatch(/whole number/);
+      expect(validateChargeRetryBackoff([0])).toMatch(/between 1 and 720/);
+      expect(validateChargeRetryBackoff([24, 1000])).toMatch(/between 1 and 720/);
+      expect(validateChargeRetryBackoff(Array(11).fill(24))).toMatch(/At most 10/);
+    });
+  });
+
+  it('parses the stored setting and falls back to the default', () => {
+    expect(parseChargeRetryBackoff('12, 48')).toEqual([12, 48]);
+    expect(parseChargeRetryBackoff('')).toEqual([]);
+    expect(parseChargeRetryBackoff(undefined)).toEqual(DEFAULT_CHARGE_RETRY_BACKOFF_HOURS);
+    expect(parseChargeRetryBackoff('24,soon')).toEqual(DEFAULT_CHARGE_RETRY_BACKOFF_HOURS);
+  });
+
+  it('retries after each delay, then gives up', () => {
+    const backoff = [24, 72];
+    expect(getNextChargeRetryAt(1, backoff, now)?.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect(getNextChargeRetryAt(2, backoff, now)?.toISOString()).toBe('2026-10-21T12:00:00.000Z');
+    expect(getNextChargeRetryAt(3, backoff, now)).toBeNull();
+    expect(getNextChargeRetryAt(1, [], now)).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Checklist Template Service Tests
+ *
+ * Covers building the location checklist defaults, layering kitchen and
+ * storage listing templates over it section by section, and resolving the
+ * effective checklist for a kitchen or storage listing.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { buildLocationChecklist, getEffectiveChecklist, mergeChecklistTemplates } from '../checklist-template-service';
+import { mockSelects } from '../../__tests__/test-utils';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function templateRow(overrides: Record<string, unknown>) {
+  return {
+    id: 1,
+    locationId: 3,
+    kitchenId: null,
+    storageListingId: null,
+    checkinEnabled: null,
+    checkinItems: null,
+    checkinPhotoRequirements: null,
+    checkinInstructions: null,
+    checkoutEnabled: null,
+    checkoutItems: null,
+    checkoutPhotoRequirements: null,
+    checkoutInstructions: null,
+    storageCheckoutEnabled: null,
+    storageCheckoutItems: null,
+    storageCheckoutPhotoRequirements: null,
+    storageCheckoutInstructions: null,
+    storageCheckinEnabled: null,
+    storageCheckinItems: null,
+    storageCheckinPhotoRequirements: null,
+    storageCheckinInstructions: null,
+    smartLockCheckinInstructions: null,
+    ...overrides,
+  };
+}
+
+const sweepFloor = { id: 'floor', label: 'Sweep the floor', required: true };
+const cleanOven = { id: 'oven', label: 'Clean the ovens', required: true };
+const sanitiseSaw = { id: 'saw', label: 'Sanitise the bone saw', required: true };
+
+const location = buildLocationChecklist(3, {
+  checkinItems: [sweepFloor],
+  checkoutItems: [sweepFloor, cleanOven],
+  checkoutInstructions: 'Leave the keys at the front desk',
+  storageCheckoutItems: [sweepFloor],
+});
+
+describe('Checklist Template Service', () => {
+  describe('buildLocationChecklist', () => {
+    it('fills in defaults when the location has no checklist', () => {
+      const checklist = buildLocationChecklist(3, null);
+
+      expect(checklist.checkinEnabled).toBe(true);
+      expect(checklist.checkoutItems).toEqual([]);
+      expect(checklist.smartLockCheckinInstructions).toBeNull();
+      expect(checklist.sources.checkout).toBe('location');
+    });
+  });
+
+  describe('mergeChecklistTemplates', () => {
+    it('replaces a section the kitchen overrides and inherits the rest', () => {
+      const merged = mergeChecklistTemplates(location, [
+        { source: 'kitchen', template: { checkoutItems: [sanitiseSaw] } },
+      ]);
+
+      expect(merged.checkoutItems).toEqual([sanitiseSaw]);
+      // Columns the override leaves null take defaults, not the location's
+      expect(merged.checkoutInstructions).toBeNull();
+      expect(merged.checkoutEnabled).toBe(true);
+      expect(merged.checkinItems).toEqual([sweepFloor]);
+      expect(merged.sources).toMatchObject({ checkin: 'location', checkout: 'kitchen' });
+    });
+
+    it('applies the storage listing template over the kitchen template', () => {
+      const merged = mergeChecklistTemplates(location, [
+        { source: 'kitchen', template: { storageCheckoutItems: [cleanOven], storageCheckinEnabled: false } },
+        { source: 'storage_listing', template: { storageCheckoutItems: [sanitiseSaw] } },
+      ]);
+
+      expect(merged.storageCheckoutItems).toEqual([sanitiseSaw]);
+      expect(merged.storageCheckinEnabled).toBe(false);
+      expect(merged.sources).toMatchObject({ storageCheckout: 'storage_listing', storageCheckin: 'kitchen' });
+    });
+
+    it('leaves the location checklist untouched', () => {
+      mergeChecklistTemplates(location, [{ source: 'kitchen', template: { checkinEnabled: false } }]);
+
+      expect(location.checkinEnabled).toBe(true);
+      expect(location.sources.checkin).toBe('location');
+    });
+  });
+
+  describe('getEffectiveChecklist', () => {
+    const locationRow = templateRow({ checkoutItems: [sweepFloor], storageCheckoutItems: [sweepFloor] });
+
+    it('returns the location checklist without a scope', async () => {
+      mockSelects(db.select, [locationRow]);
+
+      const checklist = await getEffectiveChecklist(3);
+
+      expect(checklist.checkoutItems).toEqual([sweepFloor]);
+      expect(checklist.sources.checkout).toBe('location');
+      expect(db.select).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves a storage listing through its kitchen: location -> kitchen -> listing', async () => {
+      mockSelects(db.select, 
+        [locationRow],
+        [{ kitchenId: 8 }],
+        // Listing row first: levels are applied by kind, not row order
+        [
+          templateRow({ id: 2, storageListingId: 21, storageCheckoutItems: [sanitiseSaw] }),
+          templateRow({ id: 1, kitchenId: 8, storageCheckoutItems: [cleanOven], checkoutItems: [cleanOven] }),
+        ],
+      );
+
+      const checklist = await getEffectiveChecklist(3, { storageListingId: 21 });
+
+      expect(checklist.storageCheckoutItems).toEqual([sanitiseSaw]);
+      expect(checklist.checkoutItems).toEqual([cleanOven]);
+      expect(checklist.storageCheckinItems).toEqual([]);
+      expect(checklist.sources).toMatchObject({
+        storageCheckout: 'storage_listing',
+        checkout: 'kitchen',
+        storageCheckin: 'location',
+      });
+    });
+
+    it('falls back to the location checklist when the listing and kitchen have no templates', async () => {
+      mockSelects(db.select, [locationRow], [{ kitchenId: 8 }], []);
+
+      const checklist = await getEffectiveChecklist(3, { storageListingId: 21 });
+
+      expect(checklist.storageCheckoutItems).toEqual([sweepFloor]);
+      expect(checklist.sources.storageCheckout).toBe('location');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Chef Wallet Service Tests
+ *
+ * Covers package and grant validation, how much credit a booking can use,
+ * which lots it is drawn from (same location and currency), settling it when a booking costs less at
+ * approval, and the manager top-up for captured charges.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import {
+  allocateWalletCredit,
+  getPackageCreditExpiry,
+  getWalletCreditToApply,
+  getWalletTopUpCents,
+  settleWalletRedemption,
+  trimWalletAllocations,
+  validatePromotionalCreditInput,
+  validateWalletPackageInput,
+} from '../chef-wallet-service';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const lot = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  amountCents: 10000,
+  remainingCents: 10000,
+  fundedCents: 10000,
+  locationId: null as number | null,
+  currency: 'CAD',
+  expiresAt: null as Date | null,
+  ...overrides,
+});
+
+describe('Chef Wallet Service', () => {
+  describe('validateWalletPackageInput', () => {
+    const pkg = { name: '10 hours', creditCents: 50000, priceCents: 45000 };
+
+    it('accepts a discounted package', () => {
+      expect(validateWalletPackageInput(pkg)).toBeNull();
+      expect(validateWalletPackageInput({ ...pkg, validityDays: 90 })).toBeNull();
+    });
+
+    it('rejects packages that cost more than their credit', () => {
+      expect(validateWalletPackageInput({ ...pkg, priceCents: 60000 })).toMatch(/more than the credit/);
+    });
+
+    it('rejects missing names, fractional cents and bad validity', () => {
+      expect(validateWalletPackageInput({ ...pkg, name: ' ' })).toMatch(/name is required/);
+      expect(validateWalletPackageInput({ ...pkg, creditCents: 100.5 })).toMatch(/whole number/);
+      expect(validateWalletPackageInput({ ...pkg, priceCents: 10 })).toMatch(/at least 50/);
+      expect(validateWalletPackageInput({ ...pkg, validityDays: 0 })).toMatch(/Validity/);
+    });
+  });
+
+  it('validates promotional grants', () => {
+    expect(validatePromotionalCreditInput({ amountCents: 2500 }, now)).toBeNull();
+    expect(validatePromotionalCreditInput({ amountCents: 0 }, now)).toMatch(/greater than 0/);
+    expect(validatePromotionalCreditInput({ amountCents: 2500, expiresAt: '2026-10-01T00:00:00Z' }, now)).toMatch(/future/);
+    expect(validatePromotionalCreditInput({ amountCents: 2500, currency: 'EUR' }, now)).toMatch(/Currency/);
+  });
+
+  it('expires package credit after its validity', () => {
+    expect(getPackageCreditExpiry(null, now)).toBeNull();
+    expect(getPackageCreditExpiry(30, now)?.toISOString()).toBe('2026-11-17T12:00:00.000Z');
+  });
+
+  it('always leaves the minimum card charge', () => {
+    expect(getWalletCreditToApply(2000, 11300)).toBe(2000);
+    expect(getWalletCreditToApply(50000, 11300)).toBe(11250);
+    expect(getWalletCreditToApply(50000, 40)).toBe(0);
+  });
+
+  describe('allocateWalletCredit', () => {
+    it('draws location-only lots first, then the soonest to expire', () => {
+      const lots = [
+        lot(1),
+        lot(2, { expiresAt: new Date('2026-12-01T00:00:00Z') }),
+        lot(3, { locationId: 7, remainingCents: 3000 }),
+      ];
+      expect(allocateWalletCredit(lots, 15000, 7, 'CAD', now).map((a) => [a.entryId, a.amountCents])).toEqual([
+        [3, 3000],
+        [2, 10000],
+        [1, 2000],
+      ]);
+    });
+
+    it('skips expired lots and lots for other locations', () => {
+      const lots = [
+        lot(1, { expiresAt: new Date('2026-10-01T00:00:00Z') }),
+        lot(2, { locationId: 9 }),
+        lot(3, { remainingCents: 1500 }),
+      ];
+      const allocations = allocateWalletCredit(lots, 5000, 7, 'CAD', now);
+      expect(allocations).toEqual([{ entryId: 3, amountCents: 1500, fundedCents: 1500 }]);
+    });
+
+    it('only draws lots in the booking currency', () => {
+      const lots = [lot(1, { currency: 'USD' }), lot(2, { remainingCents: 2500 })];
+      expect(allocateWalletCredit(lots, 5000, 7, 'CAD', now)).toEqual([{ entryId: 2, amountCents: 2500, fundedCents: 2500 }]);
+      expect(allocateWalletCredit(lots, 5000, 7, 'usd', now)).toEqual([{ entryId: 1, amountCents: 5000, fundedCents: 5000 }]);
+    });
+
+    it('carries the share of each lot that was paid for', () => {
+      // $450 bought $500 of credit
+      const allocations = allocateWalletCredit([lot(1, { amountCents: 50000, remainingCents: 50000, fundedCents: 45000 })], 10000, null, 'CAD', now);
+      expect(allocations[0].fundedCents).toBe(9000);
+    });
+  });
+
+  describe('settling a redemption', () => {
+    const allocations = [
+      { entryId: 1, amountCents: 4000, fundedCents: 3600 }, // package lot, drawn first
+      { entryId: 2, amountCents: 6000, fundedCents: 6000 }, // promotional lot
+    ];
+
+    it('gives credit back to the lots drawn last first', () => {
+      expect(trimWalletAllocations(allocations, 7000)).toEqual([
+        { entryId: 1, amountCents: 4000, fundedCents: 3600 },
+        { entryId: 2, amountCents: 3000, fundedCents: 3000 },
+      ]);
+      expect(trimWalletAllocations(allocations, 3000)).toEqual([
+        { entryId: 1, amountCents: 3000, fundedCents: 2700 },
+      ]);
+      expect(trimWalletAllocations(allocations, 10000)).toEqual(allocations);
+    });
+
+    it('returns the excess to its lots and reports the settled credit', async () => {
+      const set = vi.fn(() => ({ where: vi.fn() }));
+      const tx = {
+        select: () => ({ from: () => ({ where: () => ({ for: async () => [{ id: 9, allocations }] }) }) }),
+        update: vi.fn(() => ({ set })),
+      };
+      vi.mocked(db.transaction).mockImplementation(((run: (t: typeof tx) => unknown) => run(tx)) as unknown as typeof db.transaction);
+
+      const settled = await settleWalletRedemption(9, 7000);
+
+      expect(settled).toEqual({ holdId: 9, appliedCents: 7000, platformFundedCents: 6600 });
+      // Lot 2 gets 3000¢ back, then the redemption shrinks to 7000¢
+      expect(tx.update).toHaveBeenCalledTimes(2);
+      expect(set).toHaveBeenLastCalledWith(expect.objectContaining({
+        amountCents: -7000,
+        allocations: trimWalletAllocations(allocations, 7000),
+      }));
+    });
+  });
+
+  it('prorates the manager top-up for partial captures', () => {
+    const wallet = { holdId: 1, appliedCents: 10000, platformFundedCents: 9000, totalChargedCents: 2000 };
+    expect(getWalletTopUpCents(wallet, 2000)).toBe(9000);
+    expect(getWalletTopUpCents(wallet, 1000)).toBe(4500);
+    expect(getWalletTopUpCents({ ...wallet, platformFundedCents: 0 }, 2000)).toBe(0);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Kitchen Calendar Import Service Tests
+ *
+ * Covers ICS parsing, recurrence expansion, conversion of external events into
+ * per-day kitchen blocks in the location's timezone, conflict detection, and
+ * keeping calendar fetches to public https hosts.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('dns', () => ({
+  default: { lookup: vi.fn() },
+}));
+
+vi.mock('https', () => ({
+  default: { get: vi.fn() },
+}));
+
+import dns from 'dns';
+import https from 'https';
+import {
+  buildImportedBlocks,
+  expandRecurrenceDates,
+  fetchIcs,
+  findBlockConflicts,
+  normalizeCalendarUrl,
+  parseIcsEvents,
+  splitIntoDayBlocks,
+  validateCalendarImportInput,
+} from '../kitchen-calendar-import-service';
+import { isBlockedAddress, lookupPublicAddress } from '../../public-url-guard';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/** Queue https.get responses; returns the URLs requested */
+function mockHttpsResponses(...responses: Array<{ status: number; headers?: Record<string, string>; body?: Buffer[] }>) {
+  const requested: string[] = [];
+  const get = vi.mocked(https.get);
+  get.mockReset();
+  for (const { status, headers = {}, body = [] } of responses) {
+    get.mockImplementationOnce(((url: string, _options: unknown, onResponse: (response: Readable) => void) => {
+      requested.push(url);
+      const response = Object.assign(Readable.from(body), { statusCode: status, headers });
+      Object.defineProperty(response, 'complete', { get: () => response.readableEnded });
+      setImmediate(() => onResponse(response));
+      return { on: vi.fn() };
+    }) as unknown as typeof https.get);
+  }
+  return requested;
+}
+
+const ics = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  ...events,
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('Kitchen Calendar Import Service', () => {
+  describe('parseIcsEvents', () => {
+    it('reads busy events and drops cancelled or free ones', () => {
+      const events = parseIcsEvents(ics(
+        'BEGIN:VEVENT\r\nUID:a@host\r\nSUMMARY:Wedding\\, 120 guests\r\nDTSTART:20260610T140000Z\r\nDTEND:20260610T180000Z\r\nBEGIN:VALARM\r\nTRIGGER:-PT15M\r\nEND:VALARM\r\nEND:VEVENT',
+        'BEGIN:VEVENT\r\nUID:b@host\r\nSTATUS:CANCELLED\r\nDTSTART:20260611T140000Z\r\nEND:VEVENT',
+        'BEGIN:VEVENT\r\nUID:c@host\r\nTRANSP:TRANSPARENT\r\nDTSTART;VALUE=DATE:20260612\r\nEND:VEVENT',
+      ));
+
+      expect(events).toHaveLength(1);
+      expect(events[0].uid).toBe('a@host');
+      expect(events[0].summary).toBe('Wedding, 120 guests');
+      expect(events[0].start).toEqual({ date: '2026-06-10', time: '14:00', utc: true, tzid: null });
+    });
+
+    it('unfolds continuation lines and keeps TZID parameters', () => {
+      const [event] = parseIcsEvents(ics(
+        'BEGIN:VEVENT\r\nUID:long@host\r\nSUMMARY:Holiday party prep for the \r\n annual gala\r\nDTSTART;TZID=America/Toronto:20260610T090000\r\nDURATION:PT3H\r\nEND:VEVENT',
+      ));
+
+      expect(event.summary).toBe('Holiday party prep for the annual gala');
+      expect(event.start.tzid).toBe('America/Toronto');
+      expect(event.durationMinutes).toBe(180);
+    });
+  });
+
+  describe('expandRecurrenceDates', () => {
+    it('expands weekly rules by weekday with COUNT and EXDATE', () => {
+      const { dates, supported } = expandRecurrenceDates(
+        '2026-06-01', // Monday
+        'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+        ['2026-06-03'],
+        '2026-12-31',
+      );
+      expect(supported).toBe(true);
+      expect(dates).toEqual(['2026-06-01', '2026-06-08', '2026-06-10']);
+    });
+
+    it('stops daily rules at UNTIL or the sync horizon', () => {
+      expect(expandRecurrenceDates('2026-06-01', 'FREQ=DAILY;INTERVAL=2;UNTIL=20260607', [], '2026-12-31').dates)
+        .toEqual(['2026-06-01', '2026-06-03', '2026-06-05', '2026-06-07']);
+      expect(expandRecurrenceDates('2026-06-01', 'FREQ=DAILY', [], '2026-06-03').dates)
+        .toEqual(['2026-06-01', '2026-06-02', '2026-06-03']);
+    });
+
+    it('falls back to the first occurrence for unsupported frequencies', () => {
+      expect(expandRecurrenceDates('2026-06-01', 'FREQ=MONTHLY', [], '2026-12-31'))
+        .toEqual({ dates: ['2026-06-01'], supported: false });
+    });
+  });
+
+  describe('splitIntoDayBlocks', () => {
+    it('splits overnight events at midnight', () => {
+      expect(splitIntoDayBlocks('x', null, { date: '2026-06-10', time: '20:00' }, { date: '2026-06-11', time: '02:00' }))
+        .toEqual([
+          { eventUid: 'x', date: '2026-06-10', startTime: '20:00', endTime: '24:00', summary: null },
+          { eventUid: 'x', date: '2026-06-11', startTime: '00:00', endTime: '02:00', summary: null },
+        ]);
+    });
+
+    it('treats all-day DTEND as exclusive', () => {
+      const blocks = splitIntoDayBlocks('x', 'Closed', { date: '2026-06-10', time: null }, { date: '2026-06-12', time: null });
+      expect(blocks.map(b => [b.date, b.startTime])).toEqual([['2026-06-10', null], ['2026-06-11', null]]);
+    });
+  });
+
+  describe('buildImportedBlocks', () => {
+    it('converts UTC events into the location timezone and limits them to the window', () => {
+      const events = parseIcsEvents(ics(
+        'BEGIN:VEVENT\r\nUID:utc@host\r\nDTSTART:20260610T140000Z\r\nDTEND:20260610T180000Z\r\nEND:VEVENT',
+        'BEGIN:VEVENT\r\nUID:old@host\r\nDTSTART:20260101T140000Z\r\nDTEND:20260101T180000Z\r\nEND:VEVENT',
+      ));
+      const { blocks } = buildImportedBlocks(events, 'America/Toronto', '2026-06-01', '2026-06-30');
+
+      // 14:00Z is 10:00 EDT
+      expect(blocks).toEqual([
+        { eventUid: 'utc@host', date: '2026-06-10', startTime: '10:00', endTime: '14:00', summary: null },
+      ]);
+    });
+
+    it('replaces a recurring occurrence with its RECURRENCE-ID override', () => {
+      const events = parseIcsEvents(ics(
+        'BEGIN:VEVENT\r\nUID:weekly@host\r\nDTSTART:20260601T090000\r\nDTEND:20260601T120000\r\nRRULE:FREQ=WEEKLY;COUNT=3\r\nEND:VEVENT',
+        'BEGIN:VEVENT\r\nUID:weekly@host\r\nRECURRENCE-ID:20260608T090000\r\nDTSTART:20260609T130000\r\nDTEND:20260609T150000\r\nEND:VEVENT',
+      ));
+      const { blocks } = buildImportedBlocks(events, 'America/St_Johns', '2026-06-01', '2026-06-30');
+
+      expect(blocks.map(b => `${b.date} ${b.startTime}-${b.endTime}`).sort()).toEqual([
+        '2026-06-01 09:00-12:00',
+        '2026-06-09 13:00-15:00',
+        '2026-06-15 09:00-12:00',
+      ]);
+    });
+  });
+
+  it('flags chef bookings overlapping a block', () => {
+    const bookings = [
+      { id: 1, startTime: '09:00', endTime: '11:00' },
+      { id: 2, startTime: '14:00', endTime: '16:00' },
+    ];
+    expect(findBlockConflicts({ startTime: '10:00', endTime: '14:00' }, bookings).map(b => b.id)).toEqual([1]);
+    expect(findBlockConflicts({ startTime: null, endTime: null }, bookings).map(b => b.id)).toEqual([1, 2]);
+  });
+
+  describe('validateCalendarImportInput', () => {
+    it('requires exactly one source', () => {
+      expect(validateCalendarImportInput({ name: 'Catering' })).toMatch(/either a calendar URL or an .ics file/);
+      expect(validateCalendarImportInput({ name: 'Catering', sourceUrl: 'ftp://example.com/cal.ics' })).toMatch(/https or webcal/);
+      expect(validateCalendarImportInput({ name: 'Catering', sourceUrl: 'webcal://example.com/cal.ics' })).toBeNull();
+      expect(validateCalendarImportInput({ name: 'Catering', icsContent: 'not a calendar' })).toMatch(/not a valid iCalendar/);
+    });
+
+    it('rewrites webcal links to https', () => {
+      expect(normalizeCalendarUrl('webcal://example.com/cal.ics')).toBe('https://example.com/cal.ics');
+    });
+
+    it('rejects plain http and private address literals', () => {
+      expect(normalizeCalendarUrl('http://example.com/cal.ics')).toBeNull();
+      expect(normalizeCalendarUrl('https://169.254.169.254/latest/meta-data')).toBeNull();
+      expect(normalizeCalendarUrl('https://[::1]/cal.ics')).toBeNull();
+    });
+  });
+
+  describe('calendar fetch guard', () => {
+    it('blocks private, loopback and link-local addresses', () => {
+      for (const address of ['169.254.169.254', '10.0.0.5', '172.20.1.1', '192.168.1.1', '127.0.0.1', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:169.254.169.254']) {
+        expect(isBlockedAddress(address)).toBe(true);
+      }
+      expect(isBlockedAddress('142.250.72.14')).toBe(false);
+      expect(isBlockedAddress('2607:f8b0:4005:80a::200e')).toBe(false);
+    });
+
+    it('refuses hosts resolving to any private address', async () => {
+      vi.mocked(dns.lookup).mockImplementation(((_host: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+        callback(null, [{ address: '142.250.72.14', family: 4 }, { address: '169.254.169.254', family: 4 }])) as unknown as typeof dns.lookup);
+
+      const error = await new Promise((resolve) => lookupPublicAddress('calendar.example.com', {}, resolve));
+
+      expect(error).toBeInstanceOf(Error);
+    });
+
+    it('connects to the checked address of a public host', async () => {
+      vi.mocked(dns.lookup).mockImplementation(((_host: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+        callback(null, [{ address: '142.250.72.14', family: 4 }])) as unknown as typeof dns.lookup);
+
+      const result = await new Promise((resolve) => lookupPublicAddress('calendar.example.com', {}, (...args) => resolve(args)));
+
+      expect(result).toEqual([null, '142.250.72.14', 4]);
+    });
+
+    it('follows redirects between public https URLs', async () => {
+      const requested = mockHttpsResponses(
+        { status: 301, headers: { location: 'webcal://cdn.example.com/cal.ics' } },
+        { status: 200, body: [Buffer.from(ics())] },
+      );
+
+      expect(await fetchIcs('https://example.com/cal.ics')).toContain('BEGIN:VCALENDAR');
+      expect(requested).toEqual(['https://example.com/cal.ics', 'https://cdn.example.com/cal.ics']);
+    });
+
+    it('refuses redirects to a metadata address or plain http', async () => {
+      mockHttpsResponses({ status: 302, headers: { location: 'https://169.254.169.254/latest/meta-data' } });
+      await expect(fetchIcs('https://example.com/cal.ics')).rejects.toThrow(/public https/);
+
+      mockHttpsResponses({ status: 302, headers: { location: 'http://example.com/cal.ics' } });
+      await expect(fetchIcs('https://example.com/cal.ics')).rejects.toThrow(/public https/);
+    });
+
+    it('stops reading a body past 5 MB without a content-length', async () => {
+      const chunk = Buffer.alloc(3 * 1024 * 1024, 'a');
+      mockHttpsResponses({ status: 200, body: [chunk, chunk] });
+
+      await expect(fetchIcs('https://example.com/cal.ics')).rejects.toThrow(/too large/);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Kitchen Overtime Service Tests
+ *
+ * Covers the grace period and the 15-minute billing blocks used to price a
+ * late kitchen check-out, opening one overtime record per booking, and the
+ * off-session charge of an approved record.
+ */
+
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+const { mockPaymentIntentsCreate } = vi.hoisted(() => {
+  process.env.STRIPE_SECRET_KEY = 'sk_test_overtime';
+  return { mockPaymentIntentsCreate: vi.fn() };
+});
+
+vi.mock('stripe', () => ({
+  default: class {
+    paymentIntents = { create: mockPaymentIntentsCreate };
+  },
+}));
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('../kitchen-checkout-service', () => ({
+  getCheckinSettings: vi.fn().mockResolvedValue({ overtimeGraceMinutes: 15 }),
+}));
+
+vi.mock('../location-currency-service', () => ({
+  getLocationCurrency: vi.fn().mockResolvedValue('CAD'),
+}));
+
+vi.mock('../tax-service', () => ({
+  calculateLocationTax: vi.fn().mockResolvedValue({ locationId: 3, province: 'ON', ratePercent: 13, taxCents: 390, lines: [] }),
+}));
+
+vi.mock('../payment-transactions-service', () => ({
+  createPaymentTransaction: vi.fn().mockResolvedValue(null),
+  updatePaymentTransaction: vi.fn(),
+}));
+
+vi.mock('../stripe-service', () => ({
+  getStripePaymentAmounts: vi.fn(),
+}));
+
+vi.mock('../notification.service', () => ({
+  notificationService: {
+    notifyManagerKitchenOvertimePendingReview: vi.fn(),
+    notifyChefKitchenOvertimeCharged: vi.fn(),
+    notifyPaymentReceived: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { calculateOvertimeCharge, chargeApprovedOvertime, detectOvertimeForBooking } from '../kitchen-overtime-service';
+import { mockSelects } from '../../__tests__/test-utils';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/** Capture db.insert(...).values(...) and resolve .returning() to `rows` */
+function mockInsertReturning(rows: unknown[]) {
+  const values = vi.fn(() => ({
+    onConflictDoNothing: () => ({ returning: () => Promise.resolve(rows) }),
+  }));
+  vi.mocked(db.insert).mockReset();
+  vi.mocked(db.insert).mockReturnValue({ values } as unknown as ReturnType<typeof db.insert>);
+  return values;
+}
+
+/** Capture the .set(...) payload of every db.update() */
+function mockUpdates() {
+  const set = vi.fn(() => ({ where: () => Promise.resolve([]) }));
+  vi.mocked(db.update).mockReset();
+  vi.mocked(db.update).mockReturnValue({ set } as unknown as ReturnType<typeof db.update>);
+  return set;
+}
+
+const bookedEndAt = new Date('2026-10-20T18:00:00Z');
+const minutesAfterEnd = (minutes: number) => new Date(bookedEndAt.getTime() + minutes * 60 * 1000);
+
+function bookingRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 42,
+    chefId: 10,
+    kitchenId: 7,
+    status: 'confirmed',
+    bookingDate: new Date('2026-10-20T00:00:00Z'),
+    startTime: '10:00',
+    endTime: '18:00',
+    endDate: null,
+    checkedOutAt: minutesAfterEnd(45),
+    bookingHourlyRate: '4000',
+    kitchenHourlyRate: '5000',
+    kitchenName: 'Main Kitchen',
+    locationId: 3,
+    managerId: null,
+    timezone: 'UTC',
+    ...overrides,
+  };
+}
+
+function overtimeRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 5,
+    kitchenBookingId: 42,
+    kitchenId: 7,
+    chefId: 10,
+    status: 'approved',
+    overtimeMinutes: 45,
+    finalChargeCents: 3000,
+    currency: 'CAD',
+    updatedAt: new Date('2026-10-21T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+const chargeBooking = {
+  stripeCustomerId: 'cus_test123',
+  stripePaymentMethodId: 'pm_test123',
+  kitchenName: 'Main Kitchen',
+  locationId: 3,
+  managerId: null,
+};
+
+describe('Kitchen Overtime Service', () => {
+  describe('calculateOvertimeCharge', () => {
+    it('returns null within the grace period', () => {
+      expect(calculateOvertimeCharge({ bookedEndAt, checkedOutAt: minutesAfterEnd(15), graceMinutes: 15, hourlyRateCents: 4000 })).toBeNull();
+      expect(calculateOvertimeCharge({ bookedEndAt, checkedOutAt: minutesAfterEnd(-30), graceMinutes: 0, hourlyRateCents: 4000 })).toBeNull();
+    });
+
+    it('bills every minute after the booked end once grace is exceeded', () => {
+      expect(calculateOvertimeCharge({ bookedEndAt, checkedOutAt: minutesAfterEnd(45), graceMinutes: 15, hourlyRateCents: 4000 }))
+        .toEqual({ overtimeMinutes: 45, billableMinutes: 45, chargeCents: 3000 });
+    });
+
+    it('rounds up to the next 15-minute block', () => {
+      expect(calculateOvertimeCharge({ bookedEndAt, checkedOutAt: minutesAfterEnd(16), graceMinutes: 15, hourlyRateCents: 4500 }))
+        .toEqual({ overtimeMinutes: 16, billableMinutes: 30, chargeCents: 2250 });
+    });
+  });
+
+  describe('detectOvertimeForBooking', () => {
+    it('opens no record when the chef checked out within the grace period', async () => {
+      mockSelects(db.select, [bookingRow({ checkedOutAt: minutesAfterEnd(10) })], []);
+      const values = mockInsertReturning([]);
+
+      await expect(detectOvertimeForBooking(42)).resolves.toBeNull();
+      expect(values).not.toHaveBeenCalled();
+    });
+
+    it('opens a pending record billed at the rate the chef booked at', async () => {
+      mockSelects(db.select, [bookingRow()], []);
+      const values = mockInsertReturning([overtimeRecord({ status: 'pending_review' })]);
+
+      await detectOvertimeForBooking(42);
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        kitchenBookingId: 42,
+        overtimeMinutes: 45,
+        graceMinutes: 15,
+        billableMinutes: 45,
+        hourlyRateCents: 4000,
+        calculatedChargeCents: 3000,
+        currency: 'CAD',
+        status: 'pending_review',
+      }));
+    });
+
+    it("falls back to the kitchen's rate when the booking stored a zero rate", async () => {
+      mockSelects(db.select, [bookingRow({ bookingHourlyRate: '0' })], []);
+      const values = mockInsertReturning([overtimeRecord({ status: 'pending_review' })]);
+
+      await detectOvertimeForBooking(42);
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ hourlyRateCents: 5000, calculatedChargeCents: 3750 }));
+    });
+
+    it('returns the existing record instead of opening a duplicate', async () => {
+      const existing = overtimeRecord({ status: 'pending_review' });
+      mockSelects(db.select, [bookingRow()], [existing]);
+      const values = mockInsertReturning([]);
+
+      await expect(detectOvertimeForBooking(42)).resolves.toBe(existing);
+      expect(values).not.toHaveBeenCalled();
+    });
+
+    it('returns null when a concurrent detection already inserted the record', async () => {
+      mockSelects(db.select, [bookingRow()], []);
+      mockInsertReturning([]);
+
+      await expect(detectOvertimeForBooking(42)).resolves.toBeNull();
+    });
+  });
+
+  describe('chargeApprovedOvertime', () => {
+    beforeEach(() => {
+      mockPaymentIntentsCreate.mockReset();
+    });
+
+    it('moves charge_pending to charge_succeeded and charges the total with tax', async () => {
+      mockSelects(db.select, [overtimeRecord()], [chargeBooking]);
+      const set = mockUpdates();
+      mockPaymentIntentsCreate.mockResolvedValue({ id: 'pi_123', status: 'succeeded', latest_charge: 'ch_123' });
+
+      const result = await chargeApprovedOvertime(5);
+
+      expect(result).toEqual({ success: true, paymentIntentId: 'pi_123', chargeId: 'ch_123' });
+      expect(mockPaymentIntentsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 3390, currency: 'cad', customer: 'cus_test123', off_session: true }),
+        { idempotencyKey: `kitchen_overtime_5_${new Date('2026-10-21T09:00:00Z').getTime()}` },
+      );
+      expect(set.mock.calls.map(([update]) => (update as { status: string }).status))
+        .toEqual(['charge_pending', 'charge_succeeded']);
+      expect(set).toHaveBeenLastCalledWith(expect.objectContaining({ stripePaymentIntentId: 'pi_123', stripeChargeId: 'ch_123' }));
+    });
+
+    it('moves charge_pending to charge_failed when Stripe declines the card', async () => {
+      mockSelects(db.select, [overtimeRecord()], [chargeBooking]);
+      const set = mockUpdates();
+      mockPaymentIntentsCreate.mockRejectedValue(Object.assign(new Error('Your card was declined.'), { code: 'card_declined' }));
+
+      const result = await chargeApprovedOvertime(5);
+
+      expect(result).toEqual({ success: false, error: 'Your card was declined.', requires3DS: false });
+      expect(set.mock.calls.map(([update]) => (update as { status: string }).status))
+        .toEqual(['charge_pending', 'charge_failed']);
+      expect(set).toHaveBeenLastCalledWith(expect.objectContaining({ chargeFailureReason: 'Your card was declined.' }));
+    });
+
+    it('retries a failed charge under a new idempotency key', async () => {
+      const failedAt = new Date('2026-10-22T09:00:00Z');
+      mockSelects(db.select, [overtimeRecord({ status: 'charge_failed', updatedAt: failedAt })], [chargeBooking]);
+      mockUpdates();
+      mockPaymentIntentsCreate.mockResolvedValue({ id: 'pi_456', status: 'succeeded', latest_charge: 'ch_456' });
+
+      await chargeApprovedOvertime(5);
+
+      expect(mockPaymentIntentsCreate).toHaveBeenCalledWith(
+        expect.anything(),
+        { idempotencyKey: `kitchen_overtime_5_${failedAt.getTime()}` },
+      );
+    });
+
+    it('refuses records the manager has not approved', async () => {
+      mockSelects(db.select, [overtimeRecord({ status: 'pending_review' })]);
+      const set = mockUpdates();
+
+      const result = await chargeApprovedOvertime(5);
+
+      expect(result.success).toBe(false);
+      expect(mockPaymentIntentsCreate).not.toHaveBeenCalled();
+      expect(set).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Kitchen Station Service Tests
+ *
+ * Covers how many stations a booking takes, free-station assignment and
+ * per-station pricing.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  getBookingStationUnits,
+  pickFreeStations,
+  validateKitchenStationInput,
+} from '../kitchen-station-service';
+import { priceForStations, priceKitchenTime } from '../pricing-service';
+
+const stations = [{ id: 11 }, { id: 12 }, { id: 13 }];
+
+describe('Kitchen Station Service', () => {
+  describe('getBookingStationUnits', () => {
+    it('counts assigned stations', () => {
+      expect(getBookingStationUnits({ bookingType: 'chef', stationIds: [11, 12] }, 3)).toBe(2);
+    });
+
+    it('treats manager blocks and bookings without stations as the whole kitchen', () => {
+      expect(getBookingStationUnits({ bookingType: 'manager_blocked', stationIds: [11] }, 3)).toBe(3);
+      expect(getBookingStationUnits({ bookingType: 'chef', stationIds: [] }, 3)).toBe(3);
+      expect(getBookingStationUnits({ bookingType: 'chef', stationIds: null }, 1)).toBe(1);
+    });
+  });
+
+  describe('pickFreeStations', () => {
+    it('skips stations taken by overlapping bookings', () => {
+      expect(pickFreeStations(stations, [{ bookingType: 'chef', stationIds: [11] }], 2)).toEqual([12, 13]);
+    });
+
+    it('returns null when not enough stations are free', () => {
+      expect(pickFreeStations(stations, [{ bookingType: 'chef', stationIds: [11, 12] }], 2)).toBeNull();
+    });
+
+    it('returns null when an overlapping booking has the whole kitchen', () => {
+      expect(pickFreeStations(stations, [{ bookingType: 'chef', stationIds: [] }], 1)).toBeNull();
+      expect(pickFreeStations(stations, [{ bookingType: 'manager_blocked', stationIds: [] }], 1)).toBeNull();
+    });
+  });
+
+  it('validates station names', () => {
+    expect(validateKitchenStationInput({ name: '  ' })).toMatch(/required/);
+    expect(validateKitchenStationInput({ name: 'x'.repeat(61) })).toMatch(/60 characters/);
+    expect(validateKitchenStationInput({ name: 'Pastry bench' })).toBeNull();
+  });
+
+  it('charges the full rate for every station booked', () => {
+    const single = priceKitchenTime({ hourlyRate: 5000, dailyRate: null, weeklyRate: null, pricingModel: 'hourly', minimumBookingHours: 0 }, 3);
+    const double = priceForStations(single, 2);
+
+    expect(double.totalPriceCents).toBe(30000);
+    expect(double.lineItems[0].quantity).toBe(6);
+    expect(double.lineItems[0].amountCents).toBe(30000);
+    expect(double.lineItems[0].description).toMatch(/× 2 stations$/);
+    expect(priceForStations(single, 1)).toBe(single);
+  });
+});
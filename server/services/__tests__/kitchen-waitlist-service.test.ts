@@ -0,0 +1,96 @@
+/**
+ * Kitchen Waitlist Service Tests
+ *
+ * Covers request validation, when a freed range can be offered to a waiting
+ * chef, and how active holds block the slot for everyone else.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  getHoldExpiresAt,
+  isHoldActive,
+  isRangeHeldForOthers,
+  isRangeOpen,
+  timeRangesOverlap,
+  validateWaitlistRequest,
+  WAITLIST_HOLD_HOURS,
+} from '../kitchen-waitlist-service';
+
+const slots = [
+  { time: '09:00', available: 0 },
+  { time: '10:00', available: 1 },
+  { time: '11:00', available: 1 },
+  { time: '12:00', available: 0, isHeld: true },
+];
+
+describe('Kitchen Waitlist Service', () => {
+  describe('validateWaitlistRequest', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+
+    it('accepts a future time range', () => {
+      expect(validateWaitlistRequest({ bookingDate: '2026-06-02', startTime: '09:00', endTime: '11:00' }, now)).toBeNull();
+    });
+
+    it('rejects malformed, inverted, or past requests', () => {
+      expect(validateWaitlistRequest({ bookingDate: '06/02/2026', startTime: '09:00', endTime: '11:00' }, now))
+        .toMatch(/YYYY-MM-DD/);
+      expect(validateWaitlistRequest({ bookingDate: '2026-06-02', startTime: '11:00', endTime: '09:00' }, now))
+        .toMatch(/after start time/);
+      expect(validateWaitlistRequest({ bookingDate: '2026-05-31', startTime: '09:00', endTime: '11:00' }, now))
+        .toMatch(/past date/);
+    });
+  });
+
+  describe('isRangeOpen', () => {
+    it('requires every slot in the range to have room', () => {
+      expect(isRangeOpen(slots, '10:00', '12:00')).toBe(true);
+      expect(isRangeOpen(slots, '09:00', '11:00')).toBe(false);
+    });
+
+    it('is not open when the range runs past opening hours', () => {
+      expect(isRangeOpen(slots, '11:00', '14:00')).toBe(false);
+    });
+  });
+
+  describe('holds', () => {
+    it('flags ranges blocked by another chef\'s hold', () => {
+      expect(isRangeHeldForOthers(slots, '11:00', '13:00')).toBe(true);
+      expect(isRangeHeldForOthers(slots, '09:00', '11:00')).toBe(false);
+    });
+
+    it('only counts offered holds that have not lapsed', () => {
+      const offeredAt = new Date('2026-06-01T12:00:00Z');
+      const holdExpiresAt = getHoldExpiresAt(offeredAt);
+      expect(holdExpiresAt.getTime() - offeredAt.getTime()).toBe(WAITLIST_HOLD_HOURS * 60 * 60 * 1000);
+
+      const insideHold = new Date('2026-06-01T13:00:00Z');
+      expect(isHoldActive({ status: 'offered', holdExpiresAt }, insideHold)).toBe(true);
+      expect(isHoldActive({ status: 'offered', holdExpiresAt }, new Date(holdExpiresAt.getTime() + 1))).toBe(false);
+      expect(isHoldActive({ status: 'waiting', holdExpiresAt: null }, insideHold)).toBe(false);
+    });
+  });
+
+  it('treats touching ranges as non-overlapping', () => {
+    expect(timeRangesOverlap('09:00', '11:00', '10:00', '12:00')).toBe(true);
+    expect(timeRangesOverlap('09:00', '11:00', '11:00', '12:00')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Line-Item Refund Service Tests
+ *
+ * Covers pricing a storage or equipment line from a bundle payment and
+ * planning which part of each line a refund returns.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  formatCreditNoteNumber,
+  planLineItemRefund,
+  toRefundableLineItem,
+  type LineItemSource,
+  type TransactionRefundContext,
+} from '../line-item-refund-service';
+
+// $100 kitchen + storage + equipment, 13% tax, $108 to the manager
+const ctx: TransactionRefundContext = {
+  amountCents: 11300,
+  taxCents: 1300,
+  managerRevenueCents: 10800,
+  stripeFeeCents: 358,
+  refundedCents: 0,
+};
+
+const storage: LineItemSource = {
+  itemType: 'storage',
+  itemId: 4,
+  description: 'Storage — Walk-in cooler',
+  days: 3,
+  subtotalCents: 3000,
+  refundedCents: 0,
+  refundedDays: 0,
+};
+
+const equipment: LineItemSource = {
+  itemType: 'equipment',
+  itemId: 9,
+  description: 'Equipment — Stand mixer',
+  days: 1,
+  subtotalCents: 2000,
+  refundedCents: 0,
+  refundedDays: 0,
+};
+
+describe('Line-Item Refund Service', () => {
+  describe('toRefundableLineItem', () => {
+    it('adds the line share of tax and caps it at the line share of manager revenue', () => {
+      expect(toRefundableLineItem(storage, ctx)).toMatchObject({
+        unitLabel: 'day',
+        quantity: 3,
+        taxCents: 390,
+        totalCents: 3390,
+        maxRefundableCents: 3240,
+      });
+    });
+
+    it('takes earlier refunds off what is left', () => {
+      const item = toRefundableLineItem({ ...storage, refundedCents: 1130, refundedDays: 1 }, ctx);
+      expect(item.maxRefundableCents).toBe(2110);
+      expect(item.refundedQuantity).toBe(1);
+    });
+  });
+
+  describe('planLineItemRefund', () => {
+    const items = [toRefundableLineItem(storage, ctx), toRefundableLineItem(equipment, ctx)];
+
+    it('refunds storage by the day and an equipment rental up to its cap', () => {
+      const plan = planLineItemRefund(items, [
+        { itemType: 'storage', itemId: 4, quantity: 1 },
+        { itemType: 'equipment', itemId: 9, quantity: 1 },
+      ], 10800);
+      expect(plan).toEqual({
+        lines: [
+          expect.objectContaining({ itemType: 'storage', quantity: 1, subtotalCents: 1000, taxCents: 130, totalCents: 1130 }),
+          expect.objectContaining({ itemType: 'equipment', quantity: 1, subtotalCents: 1912, taxCents: 248, totalCents: 2160 }),
+        ],
+        subtotalCents: 2912,
+        taxCents: 378,
+        totalCents: 3290,
+      });
+    });
+
+    it('rejects lines that are not in the transaction or have too many days', () => {
+      expect(planLineItemRefund(items, [{ itemType: 'equipment', itemId: 99, quantity: 1 }], 10800))
+        .toEqual({ error: 'Line item equipment:99 is not part of this transaction' });
+      expect(planLineItemRefund(items, [{ itemType: 'storage', itemId: 4, quantity: 4 }], 10800))
+        .toEqual({ error: 'Storage — Walk-in cooler: quantity must be between 1 and 3' });
+    });
+
+    it('rejects a refund over the transaction balance', () => {
+      const plan = planLineItemRefund(items, [{ itemType: 'equipment', itemId: 9, quantity: 1 }], 2000);
+      expect(plan).toHaveProperty('error');
+    });
+  });
+
+  it('formats credit note numbers', () => {
+    expect(formatCreditNoteNumber(42)).toBe('LC-CN-000042');
+  });
+});
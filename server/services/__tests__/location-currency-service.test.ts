@@ -0,0 +1,73 @@
+/**
+ * Location Currency Tests
+ *
+ * Covers normalizing stored and Stripe currency codes, formatting amounts for
+ * invoices and picking the Stripe fee estimate for a location's currency.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { formatMoney, normalizeCurrency, toStripeCurrency } from '@shared/currency-utils';
+import { getStripeFeeEstimate, type FeeConfig } from '../stripe-checkout-fee-service';
+
+describe('Location Currency', () => {
+  describe('normalizeCurrency', () => {
+    it('upper-cases supported codes and defaults everything else to CAD', () => {
+      expect(normalizeCurrency('usd')).toBe('USD');
+      expect(normalizeCurrency(' CAD ')).toBe('CAD');
+      expect(normalizeCurrency('eur')).toBe('CAD');
+      expect(normalizeCurrency(null)).toBe('CAD');
+      expect(toStripeCurrency('USD')).toBe('usd');
+      expect(toStripeCurrency(undefined)).toBe('cad');
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('keeps the plain dollar sign for CAD and marks US dollars', () => {
+      expect(formatMoney(123456)).toBe('$1,234.56');
+      expect(formatMoney(1200, 'USD')).toBe('US$12.00');
+    });
+  });
+
+  describe('getStripeFeeEstimate', () => {
+    const config = {
+      stripePercentageFee: 0.029,
+      stripeFlatFeeCents: 30,
+      stripeEstimatesByCurrency: {
+        USD: { stripePercentageFee: 0.031, stripeFlatFeeCents: 30 },
+      },
+    } as FeeConfig;
+
+    it('uses the per-currency estimate when one is configured', () => {
+      expect(getStripeFeeEstimate(config, 'usd')).toEqual({ stripePercentageFee: 0.031, stripeFlatFeeCents: 30 });
+    });
+
+    it('falls back to the base estimate', () => {
+      expect(getStripeFeeEstimate(config, 'CAD')).toEqual({ stripePercentageFee: 0.029, stripeFlatFeeCents: 30 });
+      expect(getStripeFeeEstimate({ ...config, stripeEstimatesByCurrency: undefined }, 'USD'))
+        .toEqual({ stripePercentageFee: 0.029, stripeFlatFeeCents: 30 });
+    });
+  });
+});
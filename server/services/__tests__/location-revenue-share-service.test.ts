@@ -0,0 +1,88 @@
+/**
+ * Location Revenue Share Service Tests
+ *
+ * Covers validating a co-managed location's split and dividing transfer and
+ * reversal amounts between partners.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { splitAmountByShares, validateRevenueShares } from '../location-revenue-share-service';
+
+describe('Location Revenue Share Service', () => {
+  describe('validateRevenueShares', () => {
+    it('accepts shares adding up to 100%, and an empty list to clear the split', () => {
+      expect(validateRevenueShares([
+        { email: 'a@example.com', sharePercent: 60 },
+        { email: 'b@example.com', sharePercent: 40 },
+      ])).toBeNull();
+      expect(validateRevenueShares([
+        { email: 'a@example.com', sharePercent: 33.33 },
+        { email: 'b@example.com', sharePercent: 33.33 },
+        { email: 'c@example.com', sharePercent: 33.34 },
+      ])).toBeNull();
+      expect(validateRevenueShares([])).toBeNull();
+    });
+
+    it('rejects totals other than 100%', () => {
+      expect(validateRevenueShares([
+        { email: 'a@example.com', sharePercent: 60 },
+        { email: 'b@example.com', sharePercent: 30 },
+      ])).toMatch(/add up to 100% \(currently 90%\)/);
+    });
+
+    it('rejects duplicate or missing recipients and invalid percentages', () => {
+      expect(validateRevenueShares('a@example.com')).toMatch(/must be a list/);
+      expect(validateRevenueShares([
+        { email: 'a@example.com', sharePercent: 50 },
+        { email: 'A@example.com ', sharePercent: 50 },
+      ])).toMatch(/more than once/);
+      expect(validateRevenueShares([{ email: '', sharePercent: 100 }])).toMatch(/needs an email/);
+      expect(validateRevenueShares([{ email: 'a@example.com', sharePercent: 0 }])).toMatch(/more than 0%/);
+      expect(validateRevenueShares([
+        { email: 'a@example.com', sharePercent: 50.005 },
+        { email: 'b@example.com', sharePercent: 49.995 },
+      ])).toMatch(/2 decimal places/);
+    });
+  });
+
+  describe('splitAmountByShares', () => {
+    it('splits exactly, giving leftover cents to the largest remainders', () => {
+      expect(splitAmountByShares(10000, [60, 40])).toEqual([6000, 4000]);
+      expect(splitAmountByShares(100, [33.33, 33.33, 33.34])).toEqual([33, 33, 34]);
+      expect(splitAmountByShares(1001, [50, 50])).toEqual([501, 500]);
+    });
+
+    it('splits reversals by what is left on each transfer', () => {
+      // 60/40 split with 600¢ already reversed from the first partner only
+      expect(splitAmountByShares(1000, [5400, 4000])).toEqual([574, 426]);
+    });
+
+    it('returns zeros when there is nothing to split', () => {
+      expect(splitAmountByShares(0, [60, 40])).toEqual([0, 0]);
+      expect(splitAmountByShares(500, [0, 0])).toEqual([0, 0]);
+    });
+  });
+});
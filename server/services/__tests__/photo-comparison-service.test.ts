@@ -0,0 +1,109 @@
+/**
+ * Photo Comparison Service Tests
+ *
+ * Covers recording which requirement each condition photo answers, reading
+ * legacy photos that have no details, and pairing check-in with check-out
+ * photos by requirement id.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  buildConditionPhotoDetails,
+  pairConditionPhotos,
+  readConditionPhotos,
+} from '../photo-comparison-service';
+
+const submittedAt = new Date('2026-10-20T13:50:00Z');
+
+describe('Photo Comparison Service', () => {
+  describe('buildConditionPhotoDetails', () => {
+    it('tags each submitted photo with its requirement', () => {
+      const details = buildConditionPhotoDetails(
+        ['https://r2/a.jpg', 'https://r2/b.jpg', 'https://r2/c.jpg'],
+        { stove: ['https://r2/a.jpg'], __generic__: ['https://r2/b.jpg'], floor: ['https://r2/ignored.jpg'] },
+        7,
+        submittedAt,
+      );
+
+      expect(details).toEqual([
+        { url: 'https://r2/a.jpg', requirementId: 'stove', uploadedAt: '2026-10-20T13:50:00.000Z', uploadedBy: 7 },
+        { url: 'https://r2/b.jpg', requirementId: null, uploadedAt: '2026-10-20T13:50:00.000Z', uploadedBy: 7 },
+        { url: 'https://r2/c.jpg', requirementId: null, uploadedAt: '2026-10-20T13:50:00.000Z', uploadedBy: 7 },
+      ]);
+    });
+
+    it('ignores a malformed requirement map', () => {
+      expect(buildConditionPhotoDetails(['https://r2/a.jpg'], 'stove', 7, submittedAt)[0].requirementId).toBeNull();
+    });
+  });
+
+  describe('readConditionPhotos', () => {
+    it('falls back to the stage time and chef for photos without details', () => {
+      const photos = readConditionPhotos(
+        ['https://r2/a.jpg', 'https://r2/b.jpg'],
+        [{ url: 'https://r2/a.jpg', requirementId: 'stove', uploadedAt: '2026-10-20T13:50:00.000Z', uploadedBy: 9 }],
+        { uploadedAt: new Date('2026-10-20T14:00:00Z'), uploadedBy: 7 },
+      );
+
+      expect(photos.map((p) => [p.requirementId, p.uploadedAt, p.uploadedBy])).toEqual([
+        ['stove', '2026-10-20T13:50:00.000Z', 9],
+        [null, '2026-10-20T14:00:00.000Z', 7],
+      ]);
+    });
+  });
+
+  describe('pairConditionPhotos', () => {
+    const stove = { id: 'stove', label: 'Stove top', required: true };
+    const floor = { id: 'floor', label: 'Floor', required: true };
+    const fridge = { id: 'fridge', label: 'Walk-in fridge', required: true };
+
+    it('pairs photos by requirement in checklist order', () => {
+      const pairs = pairConditionPhotos({
+        checkinRequirements: [stove, floor],
+        checkoutRequirements: [floor, stove, fridge],
+        checkinPhotos: [{ requirementId: 'floor' }, { requirementId: 'stove' }],
+        checkoutPhotos: [{ requirementId: 'stove' }, { requirementId: 'fridge' }],
+      });
+
+      expect(pairs.map((p) => [p.requirementId, p.checkin.length, p.checkout.length])).toEqual([
+        ['stove', 1, 1],
+        ['floor', 1, 0],
+        ['fridge', 0, 1],
+      ]);
+    });
+
+    it('groups generic photos and removed requirements under other photos', () => {
+      const pairs = pairConditionPhotos({
+        checkinRequirements: [stove],
+        checkoutRequirements: [stove],
+        checkinPhotos: [{ requirementId: null }, { requirementId: 'deleted' }],
+        checkoutPhotos: [],
+      });
+
+      expect(pairs).toEqual([
+        { requirementId: null, label: 'Other photos', checkin: [{ requirementId: null }, { requirementId: 'deleted' }], checkout: [] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Pricing Service Tests
+ *
+ * Covers tier selection in priceKitchenTime: the daily rate capping a long
+ * hourly day, the weekly rate capping multi-day stays, peak/off-peak
+ * rules evaluated slot-by-slot, and overnight runs billed in 24-hour periods.
+ * Also covers reading the kitchen-only price back off a stored booking and
+ * the amount captured when a manager approves it.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { calculateApprovalCapture, calculateDurationHours, getKitchenOnlyPriceCents, priceKitchenTime, toKitchenSpanPeriods, toKitchenTimeSlots } from '../pricing-service';
+import type { PricingRuleDefinition } from '../kitchen-pricing-rules-service';
+
+const rule = (overrides: Partial<PricingRuleDefinition>): PricingRuleDefinition => ({
+  id: 1,
+  name: 'Friday evening',
+  daysOfWeek: [5],
+  startTime: '17:00',
+  endTime: '22:00',
+  adjustmentType: 'multiplier',
+  multiplier: 1.5,
+  fixedRate: null,
+  validFrom: null,
+  validUntil: null,
+  priority: 0,
+  isActive: true,
+  ...overrides,
+});
+
+const rates = {
+  hourlyRate: 2500, // $25/hr
+  dailyRate: 15000, // $150/day
+  weeklyRate: 80000, // $800/week
+  pricingModel: 'hourly' as const,
+  minimumBookingHours: 0,
+};
+
+describe('Pricing Service', () => {
+  describe('priceKitchenTime', () => {
+    it('charges hourly while cheaper than the daily rate', () => {
+      const result = priceKitchenTime(rates, 4);
+      expect(result.rateTier).toBe('hourly');
+      expect(result.totalPriceCents).toBe(10000);
+      expect(result.lineItems).toHaveLength(1);
+      expect(result.lineItems[0]).toMatchObject({ tier: 'hourly', quantity: 4, unitRateCents: 2500 });
+    });
+
+    it('caps a long day at the daily rate', () => {
+      const result = priceKitchenTime(rates, 8);
+      expect(result.rateTier).toBe('daily');
+      expect(result.totalPriceCents).toBe(15000);
+    });
+
+    it('applies minimum booking hours before comparing tiers', () => {
+      const result = priceKitchenTime({ ...rates, dailyRate: null, minimumBookingHours: 3 }, 1);
+      expect(result.billableHoursPerDay).toBe(3);
+      expect(result.totalPriceCents).toBe(7500);
+    });
+
+    it('uses the daily rate for every day under the daily model', () => {
+      const result = priceKitchenTime({ ...rates, pricingModel: 'daily', weeklyRate: null }, 2, 3);
+      expect(result.rateTier).toBe('daily');
+      expect(result.totalPriceCents).toBe(45000);
+    });
+
+    it('bills full weeks at the weekly rate and leftover days at the day price', () => {
+      // 9 days of 8hrs: 1 week ($800) + 2 capped days ($300)
+      const result = priceKitchenTime(rates, 8, 9);
+      expect(result.rateTier).toBe('weekly');
+      expect(result.totalPriceCents).toBe(110000);
+      expect(result.lineItems.map(i => i.tier)).toEqual(['weekly', 'daily']);
+    });
+
+    it('never charges leftover days more than another week', () => {
+      // 13 days: 6 leftover capped days ($900) cost more than a second week ($800)
+      const result = priceKitchenTime(rates, 8, 13);
+      expect(result.totalPriceCents).toBe(160000);
+      expect(result.lineItems).toHaveLength(1);
+      expect(result.lineItems[0]).toMatchObject({ tier: 'weekly', quantity: 2 });
+    });
+
+    it('ignores the weekly rate when seven days are already cheaper', () => {
+      const result = priceKitchenTime({ ...rates, weeklyRate: 200000 }, 8, 7);
+      expect(result.rateTier).toBe('daily');
+      expect(result.totalPriceCents).toBe(105000);
+    });
+  });
+
+  describe('peak/off-peak rules', () => {
+    // 2026-03-06 is a Friday, 2026-03-05 a Thursday
+    const hourlyOnly = { ...rates, dailyRate: null, weeklyRate: null };
+
+    it('prices only the slots inside the rule window', () => {
+      const result = priceKitchenTime(hourlyOnly, 3, 1, {
+        rules: [rule({})],
+        dates: ['2026-03-06'],
+        slots: toKitchenTimeSlots('15:00', '18:00'),
+      });
+      // 2 base hours ($50) + 1 peak hour at $37.50
+      expect(result.totalPriceCents).toBe(8750);
+      expect(result.lineItems).toEqual([
+        expect.objectContaining({ description: 'Hourly rate (2 hrs)', amountCents: 5000 }),
+        expect.objectContaining({ description: 'Friday evening (1 hr)', unitRateCents: 3750, pricingRuleId: 1 }),
+      ]);
+    });
+
+    it('ignores rules on other weekdays and outside their date range', () => {
+      const slots = toKitchenTimeSlots('18:00', '20:00');
+      expect(priceKitchenTime(hourlyOnly, 2, 1, { rules: [rule({})], dates: ['2026-03-05'], slots }).totalPriceCents).toBe(5000);
+      expect(priceKitchenTime(hourlyOnly, 2, 1, {
+        rules: [rule({ validUntil: '2026-03-01' })],
+        dates: ['2026-03-06'],
+        slots,
+      }).totalPriceCents).toBe(5000);
+    });
+
+    it('picks the highest-priority rule when rules overlap', () => {
+      const result = priceKitchenTime(hourlyOnly, 1, 1, {
+        rules: [
+          rule({}),
+          rule({ id: 2, name: 'Holiday', adjustmentType: 'fixed_rate', multiplier: null, fixedRate: 6000, priority: 10 }),
+        ],
+        dates: ['2026-03-06'],
+        slots: toKitchenTimeSlots('18:00', '19:00'),
+      });
+      expect(result.totalPriceCents).toBe(6000);
+      expect(result.lineItems[0]).toMatchObject({ pricingRuleId: 2 });
+    });
+
+    it('still caps a peak day at the daily rate', () => {
+      const result = priceKitchenTime(rates, 5, 1, {
+        rules: [rule({})],
+        dates: ['2026-03-06'],
+        slots: toKitchenTimeSlots('17:00', '22:00'),
+      });
+      // 5 peak hours ($187.50) > $150 daily rate
+      expect(result.rateTier).toBe('daily');
+      expect(result.totalPriceCents).toBe(15000);
+    });
+  });
+
+  describe('overnight and multi-day runs', () => {
+    it('counts hours across midnight', () => {
+      expect(calculateDurationHours('22:00', '04:00', 1)).toBe(6);
+      expect(calculateDurationHours('08:00', '20:00', 2)).toBe(60);
+      expect(calculateDurationHours('22:00', '04:00')).toBe(0);
+    });
+
+    it('splits a run into 24-hour periods with slots on their own dates', () => {
+      const periods = toKitchenSpanPeriods('2026-03-06', '22:00', 30);
+      expect(periods.map(p => [p.date, p.hours])).toEqual([['2026-03-06', 24], ['2026-03-07', 6]]);
+      expect(periods[0].slots[2]).toEqual({ startTime: '00:00', hours: 1, date: '2026-03-07' });
+    });
+
+    it('caps each full period at the daily rate and bills the rest hourly', () => {
+      const result = priceKitchenTime(rates, [24, 6], 2);
+      expect(result.lineItems).toEqual([
+        expect.objectContaining({ tier: 'daily', quantity: 1, amountCents: 15000 }),
+        expect.objectContaining({ tier: 'hourly', quantity: 6, amountCents: 15000 }),
+      ]);
+    });
+
+    it('applies peak rules to the calendar date each overnight slot falls on', () => {
+      // Thursday 20:00 to Friday 02:00 — only Thursday is outside the Friday rule
+      const periods = toKitchenSpanPeriods('2026-03-05', '20:00', 6);
+      const result = priceKitchenTime({ ...rates, dailyRate: null }, periods.map(p => p.hours), 1, {
+        rules: [rule({ startTime: '00:00', endTime: '02:00' })],
+        dates: periods.map(p => p.date),
+        slots: [],
+        slotsByDay: periods.map(p => p.slots),
+      });
+      // 4 base hours ($100) + 2 peak hours at $37.50
+      expect(result.totalPriceCents).toBe(17500);
+    });
+  });
+
+  describe('getKitchenOnlyPriceCents', () => {
+    it('sums the stored line items', () => {
+      const pricingBreakdown = [
+        { description: '2 h', quantity: 2, unitPriceCents: 5000, amountCents: 10000 },
+        { description: 'Weekend', quantity: 1, unitPriceCents: 1500, amountCents: 1500 },
+      ];
+      expect(getKitchenOnlyPriceCents({ pricingBreakdown, hourlyRate: '5000', durationHours: '2' })).toBe(11500);
+    });
+
+    it('falls back to hourly rate × duration', () => {
+      expect(getKitchenOnlyPriceCents({ pricingBreakdown: null, hourlyRate: '4500', durationHours: '3.00' })).toBe(13500);
+    });
+  });
+
+  describe('calculateApprovalCapture', () => {
+    it('captures the peak-priced amount quoted at checkout', () => {
+      const quote = priceKitchenTime({ ...rates, dailyRate: null, weeklyRate: null }, 3, 1, {
+        rules: [rule({})],
+        dates: ['2026-03-06'],
+        slots: toKitchenTimeSlots('15:00', '18:00'),
+      });
+      const booking = { pricingBreakdown: quote.lineItems, hourlyRate: '2500', durationHours: '3' };
+
+      const capture = calculateApprovalCapture(booking, 2000, 13);
+
+      // Checkout: $87.50 kitchen + $20 storage, 13% tax — not 3 hrs × $25
+      expect(capture.kitchenOnlyPriceCents).toBe(8750);
+      expect(capture.approvedSubtotalCents).toBe(10750);
+      expect(capture.approvedTaxCents).toBe(1398);
+      expect(capture.captureAmountCents).toBe(12148);
+    });
+
+    it('captures the daily rate when it capped a long day', () => {
+      const quote = priceKitchenTime(rates, 10);
+      const booking = { pricingBreakdown: quote.lineItems, hourlyRate: '2500', durationHours: '10' };
+
+      expect(calculateApprovalCapture(booking, 0, 0).captureAmountCents).toBe(15000);
+    });
+
+    describe('with a promo applied at checkout', () => {
+      // 4 hrs × $25 + $20 storage = $120, SUMMER15 took 15% ($18) → $102 stored
+      const booking = { pricingBreakdown: priceKitchenTime(rates, 4).lineItems, totalPrice: '10200' };
+      const promo = { discountCents: 1800, subtotalBeforeDiscountCents: 12000 };
+      const summer15 = { discountType: 'percent', discountValue: '15', maxDiscountCents: null };
+
+      it('captures the discounted total that was authorized', () => {
+        const capture = calculateApprovalCapture(booking, 2000, 13, { promo, promoCode: summer15 });
+
+        expect(capture.promoDiscountCents).toBe(1800);
+        expect(capture.approvedSubtotalCents).toBe(10200);
+        expect(capture.captureAmountCents).toBe(11526); // $102 + 13% tax
+        expect(capture.authorizedAmountCents).toBe(11526);
+      });
+
+      it('re-applies the code to the subtotal left after rejected add-ons', () => {
+        const capture = calculateApprovalCapture(booking, 0, 13, { promo, promoCode: summer15 });
+
+        expect(capture.promoDiscountCents).toBe(1500); // 15% of $100
+        expect(capture.approvedSubtotalCents).toBe(8500);
+        expect(capture.captureAmountCents).toBe(9605);
+        expect(capture.authorizedAmountCents).toBe(11526);
+      });
+
+      it('prorates the discount when the code has been deleted', () => {
+        const fixed = { discountCents: 3000, subtotalBeforeDiscountCents: 12000 };
+
+        expect(calculateApprovalCapture(booking, 0, 0, { promo: fixed, promoCode: null }).promoDiscountCents).toBe(2500);
+        expect(calculateApprovalCapture(booking, 0, 0, {
+          promo: fixed,
+          promoCode: { discountType: 'fixed', discountValue: '3000', maxDiscountCents: null },
+        }).promoDiscountCents).toBe(3000);
+      });
+    });
+
+    describe('with wallet credit applied at checkout', () => {
+      // 4 hrs × $25 + $20 storage = $120, no tax
+      const booking = { pricingBreakdown: priceKitchenTime(rates, 4).lineItems, totalPrice: '12000' };
+
+      it('captures only what the card was authorized for', () => {
+        const capture = calculateApprovalCapture(booking, 2000, 0, { walletAppliedCents: 5000 });
+
+        expect(capture.walletCents).toBe(5000);
+        expect(capture.captureAmountCents).toBe(7000);
+        expect(capture.authorizedAmountCents).toBe(7000);
+      });
+
+      it('keeps the credit and charges the card less when add-ons are rejected', () => {
+        const capture = calculateApprovalCapture(booking, 0, 0, { walletAppliedCents: 5000 });
+
+        expect(capture.walletCents).toBe(5000);
+        expect(capture.captureAmountCents).toBe(5000);
+      });
+
+      it('trims the credit when it covers more than the approved total', () => {
+        const capture = calculateApprovalCapture(booking, 0, 0, { walletAppliedCents: 11950 });
+
+        // $100 approved: credit pays all but the minimum card charge
+        expect(capture.walletCents).toBe(9950);
+        expect(capture.captureAmountCents).toBe(50);
+        expect(capture.authorizedAmountCents).toBe(50);
+      });
+    });
+  });
+});
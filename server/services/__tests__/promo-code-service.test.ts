@@ -0,0 +1,224 @@
+/**
+ * Promo Code Service Tests
+ *
+ * Covers the discount math, redemption eligibility, reserving a use at
+ * checkout, and how a discount's funding source changes the commission base
+ * and the manager top-up.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import {
+  calculatePromoDiscountCents,
+  checkPromoEligibility,
+  getPromoCommissionBaseCents,
+  getPromoTopUpCents,
+  recordPromoRedemption,
+  reservePromoRedemption,
+  validatePromoCodeInput,
+} from '../promo-code-service';
+import type { PromoCode } from '@shared/schema';
+import { queryReturning } from '../../__tests__/test-utils';
+
+const promoCode = (overrides: Partial<PromoCode>): PromoCode => ({
+  id: 1,
+  code: 'SUMMER15',
+  description: null,
+  discountType: 'percent',
+  discountValue: '15',
+  maxDiscountCents: null,
+  minSubtotalCents: null,
+  locationId: null,
+  absorbedBy: 'platform',
+  maxRedemptions: null,
+  perChefLimit: null,
+  startsAt: null,
+  expiresAt: null,
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const context = { locationId: 7, subtotalCents: 10000, redemptionCount: 0, chefRedemptionCount: 0 };
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Run db.transaction against a tx whose selects return the locked promo row
+ * and its usage counts; returns the tx so tests can inspect the insert
+ */
+function mockReserveTransaction(promo: PromoCode | undefined, counts: { total: number; forChef: number }) {
+  const tx = {
+    select: vi.fn()
+      .mockReturnValueOnce(queryReturning(promo ? [promo] : []))
+      .mockReturnValueOnce(queryReturning([counts])),
+    insert: vi.fn(() => queryReturning([{ id: 42 }])),
+  };
+  vi.mocked(db.transaction).mockImplementation(((run: (t: typeof tx) => unknown) => run(tx)) as unknown as typeof db.transaction);
+  return tx;
+}
+
+describe('Promo Code Service', () => {
+  describe('calculatePromoDiscountCents', () => {
+    it('takes a percentage off the subtotal, capped at the maximum', () => {
+      expect(calculatePromoDiscountCents(promoCode({}), 10000)).toBe(1500);
+      expect(calculatePromoDiscountCents(promoCode({ maxDiscountCents: 1000 }), 10000)).toBe(1000);
+    });
+
+    it('never discounts more than the subtotal', () => {
+      const fixed = promoCode({ discountType: 'fixed', discountValue: '5000' });
+      expect(calculatePromoDiscountCents(fixed, 10000)).toBe(5000);
+      expect(calculatePromoDiscountCents(fixed, 3000)).toBe(3000);
+    });
+  });
+
+  describe('checkPromoEligibility', () => {
+    it('accepts an active, unrestricted code', () => {
+      expect(checkPromoEligibility(promoCode({}), context)).toBeNull();
+    });
+
+    it('rejects codes outside their dates or location', () => {
+      const now = new Date('2026-06-01T12:00:00Z');
+      expect(checkPromoEligibility(promoCode({ expiresAt: new Date('2026-05-31T00:00:00Z') }), { ...context, now }))
+        .toMatch(/expired/);
+      expect(checkPromoEligibility(promoCode({ startsAt: new Date('2026-07-01T00:00:00Z') }), { ...context, now }))
+        .toMatch(/not active yet/);
+      expect(checkPromoEligibility(promoCode({ locationId: 8 }), context)).toMatch(/location/);
+    });
+
+    it('enforces total and per-chef usage caps', () => {
+      expect(checkPromoEligibility(promoCode({ maxRedemptions: 10 }), { ...context, redemptionCount: 10 }))
+        .toMatch(/usage limit/);
+      expect(checkPromoEligibility(promoCode({ perChefLimit: 1 }), { ...context, chefRedemptionCount: 1 }))
+        .toMatch(/maximum number of times/);
+    });
+  });
+
+  describe('reservePromoRedemption', () => {
+    const params = { code: 'summer15', chefId: 3, locationId: 7, subtotalCents: 10000 };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      // Releasing stale reservations first finds none
+      vi.mocked(db.update).mockReturnValue(queryReturning([]) as unknown as ReturnType<typeof db.update>);
+    });
+
+    it('reserves a pending use and returns its id with the discount', async () => {
+      const tx = mockReserveTransaction(promoCode({ maxRedemptions: 10 }), { total: 9, forChef: 0 });
+
+      const result = await reservePromoRedemption(params);
+
+      expect(result).toEqual({
+        valid: true,
+        promo: {
+          promoCodeId: 1,
+          code: 'SUMMER15',
+          discountCents: 1500,
+          absorbedBy: 'platform',
+          subtotalBeforeDiscountCents: 10000,
+          redemptionId: 42,
+        },
+      });
+      expect(tx.insert).toHaveBeenCalledTimes(1);
+    });
+
+    it('counts pending reservations against the caps', async () => {
+      const tx = mockReserveTransaction(promoCode({ maxRedemptions: 10 }), { total: 10, forChef: 0 });
+
+      const result = await reservePromoRedemption(params);
+
+      expect(result.valid).toBe(false);
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('enforces the per-chef limit', async () => {
+      const tx = mockReserveTransaction(promoCode({ perChefLimit: 1 }), { total: 4, forChef: 1 });
+
+      const result = await reservePromoRedemption(params);
+
+      expect(result.valid).toBe(false);
+      expect(tx.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown code', async () => {
+      mockReserveTransaction(undefined, { total: 0, forChef: 0 });
+
+      expect(await reservePromoRedemption(params)).toEqual({ valid: false, error: 'Promo code not found' });
+    });
+  });
+
+  describe('recordPromoRedemption', () => {
+    const promo = {
+      promoCodeId: 1,
+      code: 'SUMMER15',
+      discountCents: 1500,
+      absorbedBy: 'platform' as const,
+      subtotalBeforeDiscountCents: 10000,
+    };
+
+    it('completes the reservation made at checkout instead of inserting a new use', async () => {
+      vi.clearAllMocks();
+      const set = vi.fn(() => queryReturning([]));
+      vi.mocked(db.update).mockReturnValue({ set } as unknown as ReturnType<typeof db.update>);
+
+      await recordPromoRedemption({ promo: { ...promo, redemptionId: 42 }, chefId: 3, bookingId: 55, paymentIntentId: 'pi_1' });
+
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed', bookingId: 55, paymentIntentId: 'pi_1' }));
+    });
+  });
+
+  describe('validatePromoCodeInput', () => {
+    it('requires manager-funded codes to be tied to a location', () => {
+      const input = { code: 'local10', discountType: 'percent' as const, discountValue: 10, absorbedBy: 'manager' as const };
+      expect(validatePromoCodeInput(input)).toMatch(/limited to a location/);
+      expect(validatePromoCodeInput({ ...input, locationId: 7 })).toBeNull();
+    });
+  });
+
+  describe('discount funding', () => {
+    it('takes commission on the pre-discount price only when the platform funds the discount', () => {
+      expect(getPromoCommissionBaseCents(8500, { discountCents: 1500, absorbedBy: 'platform' })).toBe(10000);
+      expect(getPromoCommissionBaseCents(8500, { discountCents: 1500, absorbedBy: 'manager' })).toBe(8500);
+      expect(getPromoCommissionBaseCents(8500, null)).toBe(8500);
+    });
+
+    it('prorates the manager top-up on a partial capture', () => {
+      const promo = {
+        promoCodeId: 1,
+        code: 'SUMMER15',
+        discountCents: 1500,
+        absorbedBy: 'platform' as const,
+        subtotalBeforeDiscountCents: 10000,
+        totalChargedCents: 8500,
+      };
+      expect(getPromoTopUpCents(promo, 8500)).toBe(1500);
+      expect(getPromoTopUpCents(promo, 4250)).toBe(750);
+      expect(getPromoTopUpCents({ ...promo, absorbedBy: 'manager' }, 8500)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Security Deposit Service Tests
+ *
+ * Covers choosing between an authorization hold and an up-front capture,
+ * splitting a damage claim between the deposit and an off-session charge, and
+ * which confirmed bookings get a deposit held.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.hoisted(() => {
+  process.env.STRIPE_SECRET_KEY = 'sk_test_deposits';
+});
+
+vi.mock('stripe', () => ({
+  default: class {
+    paymentIntents = { create: vi.fn(), cancel: vi.fn() };
+  },
+}));
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('../kitchen-checkout-service', () => ({
+  getCheckinSettings: vi.fn(),
+}));
+
+import { db } from '../../db';
+import {
+  AUTHORIZATION_HOLD_DAYS,
+  allocateClaimToDeposit,
+  chooseDepositHoldMethod,
+  placeDepositsForConfirmedBookings,
+} from '../security-deposit-service';
+import { mockSelects, queryReturning } from '../../__tests__/test-utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const heldDeposit = (kitchenBookingId: number) => ({ id: kitchenBookingId * 10, kitchenBookingId, status: 'held' });
+
+describe('Security Deposit Service', () => {
+  describe('chooseDepositHoldMethod', () => {
+    const now = new Date('2026-07-14T12:00:00Z');
+
+    it('authorizes when the deposit is released within the hold window', () => {
+      expect(chooseDepositHoldMethod(new Date(now.getTime() + 2 * DAY_MS), now)).toBe('authorization');
+      expect(chooseDepositHoldMethod(new Date(now.getTime() + AUTHORIZATION_HOLD_DAYS * DAY_MS), now)).toBe('authorization');
+    });
+
+    it('captures when the authorization would lapse first', () => {
+      expect(chooseDepositHoldMethod(new Date(now.getTime() + AUTHORIZATION_HOLD_DAYS * DAY_MS + 1), now)).toBe('capture');
+      expect(chooseDepositHoldMethod(new Date(now.getTime() + 30 * DAY_MS), now)).toBe('capture');
+    });
+  });
+
+  describe('allocateClaimToDeposit', () => {
+    it('takes a smaller claim entirely from the deposit', () => {
+      expect(allocateClaimToDeposit(11300, 1300, 20000)).toEqual({
+        depositCents: 11300,
+        depositTaxCents: 1300,
+        remainderCents: 0,
+        remainderTaxCents: 0,
+      });
+    });
+
+    it('charges what the deposit does not cover, splitting tax pro rata', () => {
+      expect(allocateClaimToDeposit(11300, 1300, 5000)).toEqual({
+        depositCents: 5000,
+        depositTaxCents: 575,
+        remainderCents: 6300,
+        remainderTaxCents: 725,
+      });
+    });
+
+    it('charges the full claim when there is no deposit', () => {
+      expect(allocateClaimToDeposit(11300, 1300, 0)).toEqual({
+        depositCents: 0,
+        depositTaxCents: 0,
+        remainderCents: 11300,
+        remainderTaxCents: 1300,
+      });
+    });
+  });
+
+  describe('placeDepositsForConfirmedBookings', () => {
+    // Each booking placed looks up its existing deposit first; returning one
+    // keeps Stripe out of these tests
+    it('holds a deposit however a single booking was paid', async () => {
+      mockSelects(db.select, 
+        [
+          { id: 1, status: 'confirmed', paymentStatus: 'paid' }, // Authorization captured on approval
+          { id: 2, status: 'confirmed', paymentStatus: 'processing' }, // Already charged at checkout
+          { id: 3, status: 'confirmed', paymentStatus: 'paid' }, // Mostly wallet credit, card for the rest
+        ],
+        [heldDeposit(1)],
+        [heldDeposit(2)],
+        [heldDeposit(3)],
+      );
+
+      await expect(placeDepositsForConfirmedBookings([1, 2, 3]))
+        .resolves.toEqual([heldDeposit(1), heldDeposit(2), heldDeposit(3)]);
+    });
+
+    it('holds a deposit for every approved occurrence of a series', async () => {
+      mockSelects(db.select, 
+        [
+          { id: 11, status: 'confirmed', paymentStatus: 'paid' },
+          { id: 12, status: 'confirmed', paymentStatus: 'paid' },
+        ],
+        [heldDeposit(11)],
+        [heldDeposit(12)],
+      );
+
+      await expect(placeDepositsForConfirmedBookings([11, 12])).resolves.toEqual([heldDeposit(11), heldDeposit(12)]);
+    });
+
+    it('skips bookings that are not confirmed and paid', async () => {
+      mockSelects(db.select, [
+        { id: 4, status: 'pending', paymentStatus: 'authorized' },
+        { id: 5, status: 'cancelled', paymentStatus: 'paid' },
+        { id: 6, status: 'confirmed', paymentStatus: 'pending' },
+      ]);
+
+      await expect(placeDepositsForConfirmedBookings([4, 5, 6])).resolves.toEqual([]);
+      expect(db.select).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps placing deposits after one booking fails', async () => {
+      mockSelects(db.select, [
+        { id: 7, status: 'confirmed', paymentStatus: 'paid' },
+        { id: 8, status: 'confirmed', paymentStatus: 'paid' },
+      ]);
+      vi.mocked(db.select)
+        .mockImplementationOnce(() => { throw new Error('connection reset'); })
+        .mockReturnValueOnce(queryReturning([heldDeposit(8)]) as unknown as ReturnType<typeof db.select>);
+
+      await expect(placeDepositsForConfirmedBookings([7, 8])).resolves.toEqual([heldDeposit(8)]);
+    });
+  });
+});
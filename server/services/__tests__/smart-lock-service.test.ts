@@ -0,0 +1,205 @@
+/**
+ * Smart Lock Service Tests
+ *
+ * Covers reading the provider block from smartLockConfig, keeping lock
+ * credentials out of API responses, retrying lock calls against the
+ * in-memory fake lock, keeping lock API calls to public https hosts, and
+ * verifying inbound lock events.
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('https', () => ({
+  default: { request: vi.fn() },
+}));
+
+import https from 'https';
+import {
+  createFakeSmartLockProvider,
+  createSmartLockProvider,
+  fakeLockCodes,
+  getLockEventSecret,
+  mergeSmartLockConfig,
+  parseLockEvent,
+  parseSmartLockProviderConfig,
+  redactSmartLockConfig,
+  verifyLockEventSignature,
+  withLockRetries,
+} from '../smart-lock-service';
+
+const grant = {
+  bookingId: 42,
+  code: 'ABC234',
+  validFrom: new Date('2026-10-20T13:45:00Z'),
+  validUntil: new Date('2026-10-20T18:15:00Z'),
+  label: 'LocalCooks #42',
+};
+
+describe('Smart Lock Service', () => {
+  beforeEach(() => {
+    fakeLockCodes.clear();
+  });
+
+  describe('parseSmartLockProviderConfig', () => {
+    it('returns null for kitchens that program their keypad by hand', () => {
+      expect(parseSmartLockProviderConfig({ accessCode: 'K7M2PQ', codeVisibility: 'at_checkin' })).toBeNull();
+    });
+
+    it('requires the credentials of the chosen provider', () => {
+      expect(parseSmartLockProviderConfig({ provider: { type: 'nuki', smartlockId: 123 } })).toBeNull();
+      expect(parseSmartLockProviderConfig({ provider: { type: 'nuki', smartlockId: 123, apiToken: 'tok' } }))
+        .toEqual({ type: 'nuki', smartlockId: '123', apiToken: 'tok' });
+      expect(parseSmartLockProviderConfig({ provider: { type: 'august' } })).toBeNull();
+    });
+
+    it('refuses lock URLs that are not public https', () => {
+      expect(parseSmartLockProviderConfig({ provider: { type: 'http_webhook', url: 'http://lock.example.com/hook', secret: 's' } })).toBeNull();
+      expect(parseSmartLockProviderConfig({ provider: { type: 'http_webhook', url: 'https://169.254.169.254/latest', secret: 's' } })).toBeNull();
+      expect(parseSmartLockProviderConfig({ provider: { type: 'nuki', smartlockId: '1', apiToken: 'tok', baseUrl: 'https://[::1]:8080' } })).toBeNull();
+      expect(parseSmartLockProviderConfig({ provider: { type: 'http_webhook', url: 'https://lock.example.com/hook', secret: 's' } }))
+        .toEqual({ type: 'http_webhook', url: 'https://lock.example.com/hook', secret: 's' });
+    });
+  });
+
+  describe('lock API requests', () => {
+    /** Answer the next https.request with a status and body */
+    function mockLockResponse(status: number, body: string) {
+      vi.mocked(https.request).mockImplementation(((_url: URL, _options: unknown, onResponse: (response: unknown) => void) => {
+        const request = Object.assign(new EventEmitter(), {
+          end: () => {
+            const response = Object.assign(new EventEmitter(), { statusCode: status, resume: vi.fn(), destroy: vi.fn() });
+            onResponse(response);
+            response.emit('data', Buffer.from(body));
+            response.emit('end');
+          },
+        });
+        return request;
+      }) as unknown as typeof https.request);
+    }
+
+    it('keeps the reply body out of errors', async () => {
+      mockLockResponse(500, 'internal: db password=hunter2');
+      const lock = createSmartLockProvider({ type: 'http_webhook', url: 'https://lock.example.com/hook', secret: 's' });
+
+      await expect(lock.pushCode(grant)).rejects.toThrow(/^Lock API returned HTTP 500$/);
+    });
+
+    it('reads the code id from a successful reply', async () => {
+      mockLockResponse(200, JSON.stringify({ id: 77 }));
+      const lock = createSmartLockProvider({ type: 'http_webhook', url: 'https://lock.example.com/hook', secret: 's' });
+
+      expect(await lock.pushCode(grant)).toEqual({ externalId: '77' });
+    });
+
+    it('never calls a private lock URL', async () => {
+      vi.mocked(https.request).mockClear();
+      const lock = createSmartLockProvider({ type: 'http_webhook', url: 'https://10.0.0.5/hook', secret: 's' });
+
+      await expect(lock.pushCode(grant)).rejects.toThrow('Lock API URL must be a public https URL');
+      expect(https.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redactSmartLockConfig / mergeSmartLockConfig', () => {
+    const stored = {
+      accessCode: 'K7M2PQ',
+      provider: { type: 'http_webhook', url: 'https://lock.example.com/hook', secret: 's3cret' },
+    };
+
+    it('drops credentials but says they are set', () => {
+      expect(redactSmartLockConfig(stored)).toEqual({
+        accessCode: 'K7M2PQ',
+        provider: { type: 'http_webhook', url: 'https://lock.example.com/hook', credentialsSet: true },
+      });
+    });
+
+    it('keeps the stored secret when a redacted config is saved back', () => {
+      const saved = mergeSmartLockConfig({ ...redactSmartLockConfig(stored), codeVisibility: 'on_booking' }, stored);
+      expect(saved.provider).toEqual(stored.provider);
+      expect(saved.codeVisibility).toBe('on_booking');
+    });
+
+    it('does not carry a secret over to a different provider', () => {
+      const saved = mergeSmartLockConfig({ provider: { type: 'igloohome', deviceId: 'IGK1' } }, stored);
+      expect(saved.provider).toEqual({ type: 'igloohome', deviceId: 'IGK1' });
+    });
+  });
+
+  describe('withLockRetries', () => {
+    it('retries a push until the lock answers', async () => {
+      const lock = createFakeSmartLockProvider({ failPushes: 2 });
+      const outcome = await withLockRetries(() => lock.pushCode(grant), { baseDelayMs: 0 });
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.attempts).toBe(3);
+      expect(fakeLockCodes.get(outcome.result!.externalId!)).toEqual(grant);
+    });
+
+    it('reports the last error once attempts run out', async () => {
+      const lock = createFakeSmartLockProvider({ failRemovals: 5 });
+      const outcome = await withLockRetries(() => lock.removeCode({ bookingId: 42, externalId: null }), { attempts: 2, baseDelayMs: 0 });
+
+      expect(outcome).toEqual({ success: false, error: 'Fake lock is offline', attempts: 2 });
+    });
+  });
+
+  it('removes a pushed code from the fake lock', async () => {
+    const lock = createFakeSmartLockProvider();
+    const { externalId } = await lock.pushCode(grant);
+    await lock.pushCode({ ...grant, bookingId: 43 });
+
+    await lock.removeCode({ bookingId: 42, externalId });
+
+    expect(Array.from(fakeLockCodes.values()).map((g) => g.bookingId)).toEqual([43]);
+  });
+
+  describe('lock events', () => {
+    const body = JSON.stringify({ id: 'evt_1', type: 'unlock', occurredAt: '2026-10-20T13:52:00Z', code: '483926' });
+    const now = new Date('2026-10-20T13:52:30Z');
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    const sign = (secret: string, ts = timestamp) =>
+      `sha256=${crypto.createHmac('sha256', secret).update(`${ts}.${body}`).digest('hex')}`;
+
+    it('accepts a body signed with the kitchen secret', () => {
+      expect(verifyLockEventSignature(body, timestamp, sign('whsec'), 'whsec', now)).toBe(true);
+      expect(verifyLockEventSignature(body, timestamp, sign('other'), 'whsec', now)).toBe(false);
+      expect(verifyLockEventSignature(`${body} `, timestamp, sign('whsec'), 'whsec', now)).toBe(false);
+    });
+
+    it('rejects stale timestamps', () => {
+      const stale = String(Number(timestamp) - 600);
+      expect(verifyLockEventSignature(body, stale, sign('whsec', stale), 'whsec', now)).toBe(false);
+    });
+
+    it('signs Nuki and Igloohome events with eventSecret only', () => {
+      expect(getLockEventSecret({ type: 'http_webhook', url: 'https://x', secret: 'whsec' })).toBe('whsec');
+      expect(getLockEventSecret({ type: 'nuki', smartlockId: '1', apiToken: 'tok' })).toBeNull();
+      expect(getLockEventSecret({ type: 'nuki', smartlockId: '1', apiToken: 'tok', eventSecret: 'evsec' })).toBe('evsec');
+    });
+
+    it('parses an unlock event', () => {
+      expect(parseLockEvent(JSON.parse(body))).toEqual({
+        eventId: 'evt_1',
+        type: 'unlock',
+        occurredAt: new Date('2026-10-20T13:52:00Z'),
+        code: '483926',
+        externalId: null,
+      });
+      expect(parseLockEvent({ type: 'unlock' })).toEqual({ error: 'occurredAt must be an ISO timestamp' });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Storage Subscription Service Tests
+ *
+ * Covers first-period proration, renewal dates, the dunning retry schedule and
+ * which storage bookings can switch to monthly.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  calculateProratedPeriod,
+  getNextBillingDate,
+  getNextRenewalRetryAt,
+  getSubscriptionBlockReason,
+} from '../storage-subscription-service';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const booking = (overrides: Record<string, unknown> = {}) => ({
+  status: 'confirmed',
+  paymentStatus: 'paid' as string | null,
+  checkoutStatus: 'active' as string | null,
+  stripePaymentMethodId: 'pm_123' as string | null,
+  stripeCustomerId: 'cus_123' as string | null,
+  endDate: new Date('2026-10-20T00:00:00Z'),
+  ...overrides,
+});
+
+describe('Storage Subscription Service', () => {
+  it('renews on the 1st of the next month', () => {
+    expect(getNextBillingDate(new Date('2026-10-20T00:00:00Z')).toISOString()).toBe('2026-11-01T00:00:00.000Z');
+    expect(getNextBillingDate(new Date('2026-12-01T00:00:00Z')).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  describe('calculateProratedPeriod', () => {
+    it('charges the share of the month up to the next 1st', () => {
+      // Oct 20 → Nov 1 is 12 of October's 31 days
+      const period = calculateProratedPeriod(31000, new Date('2026-10-20T00:00:00Z'));
+      expect(period.proratedDays).toBe(12);
+      expect(period.daysInMonth).toBe(31);
+      expect(period.amountCents).toBe(12000);
+      expect(period.periodEnd.toISOString()).toBe('2026-11-01T00:00:00.000Z');
+    });
+
+    it('charges a full month when starting on the 1st', () => {
+      const period = calculateProratedPeriod(15000, new Date('2027-02-01T00:00:00Z'));
+      expect(period.proratedDays).toBe(28);
+      expect(period.amountCents).toBe(15000);
+    });
+  });
+
+  it('retries failed renewals, then gives up', () => {
+    expect(getNextRenewalRetryAt(1, now)?.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect(getNextRenewalRetryAt(3, now)?.toISOString()).toBe('2026-10-23T12:00:00.000Z');
+    expect(getNextRenewalRetryAt(4, now)).toBeNull();
+  });
+
+  describe('getSubscriptionBlockReason', () => {
+    it('allows confirmed, paid bookings with a saved card', () => {
+      expect(getSubscriptionBlockReason(booking(), '15000', now)).toBeNull();
+    });
+
+    it('requires a monthly rate on the listing', () => {
+      expect(getSubscriptionBlockReason(booking(), null, now)).toMatch(/not offered/);
+    });
+
+    it('rejects unpaid, checked-out, card-less and already-ended bookings', () => {
+      expect(getSubscriptionBlockReason(booking({ paymentStatus: 'authorized' }), 15000, now)).toMatch(/must be paid/);
+      expect(getSubscriptionBlockReason(booking({ checkoutStatus: 'checkout_requested' }), 15000, now)).toMatch(/Checkout/);
+      expect(getSubscriptionBlockReason(booking({ stripePaymentMethodId: null }), 15000, now)).toMatch(/saved payment method/);
+      expect(getSubscriptionBlockReason(booking({ endDate: new Date('2026-10-10T00:00:00Z') }), 15000, now)).toMatch(/already ended/);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Stripe Reconciliation Service Tests
+ *
+ * Covers reducing balance transactions to ledger entries, matching them to
+ * payment transactions and the fix offered for each issue.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type Stripe from 'stripe';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  findDiscrepancies,
+  getReconciliationFixAction,
+  toStripeLedgerEntry,
+  type LedgerPayment,
+  type StripeLedgerEntry,
+} from '../stripe-reconciliation-service';
+
+const charge = (overrides: Partial<StripeLedgerEntry> = {}): StripeLedgerEntry => ({
+  balanceTransactionId: 'txn_1',
+  kind: 'charge',
+  objectId: 'ch_1',
+  paymentIntentId: 'pi_1',
+  chargeId: 'ch_1',
+  metadataPaymentTransactionId: null,
+  amountCents: 11300,
+  feeCents: 358,
+  currency: 'CAD',
+  created: new Date('2026-07-14T12:00:00Z'),
+  ...overrides,
+});
+
+const payment = (overrides: Partial<LedgerPayment> = {}): LedgerPayment => ({
+  id: 7,
+  bookingId: 42,
+  bookingType: 'kitchen',
+  amountCents: 11300,
+  stripeFeeCents: 358,
+  refundCents: 0,
+  paymentIntentId: 'pi_1',
+  chargeId: 'ch_1',
+  transferId: null,
+  bookingExists: true,
+  ...overrides,
+});
+
+describe('Stripe Reconciliation Service', () => {
+  describe('toStripeLedgerEntry', () => {
+    it('reads the captured amount and fee from a charge', () => {
+      const entry = toStripeLedgerEntry({
+        id: 'txn_1',
+        type: 'charge',
+        created: 1784030400,
+        currency: 'cad',
+        fee: 358,
+        source: { id: 'ch_1', object: 'charge', payment_intent: 'pi_1', captured: true, amount: 12000, amount_captured: 11300, currency: 'cad' },
+      } as unknown as Stripe.BalanceTransaction);
+      expect(entry).toMatchObject({ kind: 'charge', paymentIntentId: 'pi_1', amountCents: 11300, feeCents: 358, currency: 'CAD' });
+    });
+
+    it('skips payouts and unexpanded sources', () => {
+      expect(toStripeLedgerEntry({ id: 'txn_2', type: 'payout', created: 0, source: { id: 'po_1', object: 'payout' } } as unknown as Stripe.BalanceTransaction)).toBeNull();
+      expect(toStripeLedgerEntry({ id: 'txn_3', type: 'charge', created: 0, source: 'ch_1' } as unknown as Stripe.BalanceTransaction)).toBeNull();
+    });
+  });
+
+  describe('findDiscrepancies', () => {
+    it('matches a charge with the same amount and fee', () => {
+      expect(findDiscrepancies([charge()], [payment()])).toEqual([]);
+    });
+
+    it('flags a charge with no ledger row', () => {
+      const [finding] = findDiscrepancies([charge()], []);
+      expect(finding).toMatchObject({ issueType: 'missing_transaction', paymentTransactionId: null, ledgerAmountCents: null });
+    });
+
+    it('flags amount and fee mismatches', () => {
+      expect(findDiscrepancies([charge()], [payment({ amountCents: 10000 })])[0]).toMatchObject({
+        issueType: 'amount_mismatch',
+        stripeAmountCents: 11300,
+        ledgerAmountCents: 10000,
+        details: { field: 'amount' },
+      });
+      expect(findDiscrepancies([charge()], [payment({ stripeFeeCents: 300 })])[0]).toMatchObject({
+        issueType: 'amount_mismatch',
+        stripeAmountCents: 358,
+        ledgerAmountCents: 300,
+        details: { field: 'stripe_fee' },
+      });
+    });
+
+    it('compares a bundle charge to the bundle row only', () => {
+      const payments = [payment({ id: 1, bookingType: 'bundle' }), payment({ id: 2, bookingType: 'kitchen', amountCents: 8000 })];
+      expect(findDiscrepancies([charge()], payments)).toEqual([]);
+    });
+
+    it('flags refunds the ledger has not recorded', () => {
+      const refund = charge({ balanceTransactionId: 'txn_r', kind: 'refund', objectId: 're_1', amountCents: 5000, feeCents: null });
+      expect(findDiscrepancies([refund], [payment({ refundCents: 5000 })])).toEqual([]);
+      expect(findDiscrepancies([refund], [payment()])[0]).toMatchObject({ issueType: 'orphaned_refund', ledgerAmountCents: 0 });
+    });
+
+    it('flags transfers whose booking is gone', () => {
+      const transfer = charge({ balanceTransactionId: 'txn_t', kind: 'transfer', objectId: 'tr_1', paymentIntentId: null, feeCents: null, amountCents: 10000 });
+      expect(findDiscrepancies([transfer], [payment({ transferId: 'tr_1' })])).toEqual([]);
+      expect(findDiscrepancies([transfer], [payment({ transferId: 'tr_1', bookingExists: false })])[0]).toMatchObject({
+        issueType: 'transfer_without_booking',
+        paymentTransactionId: 7,
+      });
+      expect(findDiscrepancies([transfer], [payment()], new Map([['tr_1', 7]]))).toEqual([]);
+    });
+  });
+
+  describe('getReconciliationFixAction', () => {
+    it('offers a fix only when it can be applied', () => {
+      expect(getReconciliationFixAction({ issueType: 'missing_transaction', paymentTransactionId: null, details: null })).toBe('backfill_transaction');
+      expect(getReconciliationFixAction({ issueType: 'amount_mismatch', paymentTransactionId: 7, details: null })).toBe('sync_amount');
+      expect(getReconciliationFixAction({ issueType: 'amount_mismatch', paymentTransactionId: null, details: null })).toBeNull();
+      expect(getReconciliationFixAction({ issueType: 'orphaned_refund', paymentTransactionId: 7, details: null })).toBe('record_refund');
+      expect(getReconciliationFixAction({ issueType: 'transfer_without_booking', paymentTransactionId: 7, details: null })).toBeNull();
+    });
+  });
+});
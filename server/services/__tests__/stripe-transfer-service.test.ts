@@ -0,0 +1,90 @@
+/**
+ * Stripe Transfer Service Tests
+ *
+ * Covers prorating refund reversals of the main payout and of a
+ * platform-funded promo top-up.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+const { createReversal } = vi.hoisted(() => {
+  process.env.STRIPE_SECRET_KEY = 'sk_test_transfers';
+  return { createReversal: vi.fn() };
+});
+
+vi.mock('stripe', () => ({
+  default: class {
+    transfers = { createReversal };
+  },
+}));
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('../location-revenue-share-service', () => ({
+  getPaymentRevenueSplit: vi.fn(),
+  getTransferSplitGroup: vi.fn().mockResolvedValue([]),
+  recordSplitReversal: vi.fn(),
+  recordTransferSplits: vi.fn(),
+  splitAmountByShares: vi.fn(),
+}));
+
+import { reversePromoTopUpForRefund, reverseTransferForRefund } from '../stripe-transfer-service';
+
+describe('Stripe Transfer Service', () => {
+  beforeEach(() => {
+    createReversal.mockReset();
+    createReversal.mockImplementation(async (transferId: string, params: { amount: number }) => ({
+      id: `trr_${transferId}`,
+      amount: params.amount,
+    }));
+  });
+
+  describe('reverseTransferForRefund', () => {
+    it('reverses the refunded share of the transfer', async () => {
+      await reverseTransferForRefund('tr_main', 4250, 8500, 7000);
+
+      expect(createReversal).toHaveBeenCalledWith('tr_main', expect.objectContaining({ amount: 3500 }));
+    });
+  });
+
+  describe('reversePromoTopUpForRefund', () => {
+    const transfer = { promoTopUpTransferId: 'tr_promo', promoTopUpCents: 1500 };
+
+    it('reverses the top-up in proportion to the refund', async () => {
+      const reversal = await reversePromoTopUpForRefund(transfer, 4250, 8500);
+
+      expect(createReversal).toHaveBeenCalledWith('tr_promo', expect.objectContaining({ amount: 750 }));
+      expect(reversal?.id).toBe('trr_tr_promo');
+    });
+
+    it('reverses the whole top-up on a full refund', async () => {
+      await reversePromoTopUpForRefund(transfer, 8500, 8500);
+
+      expect(createReversal).toHaveBeenCalledWith('tr_promo', expect.objectContaining({ amount: 1500 }));
+    });
+
+    it('does nothing when no top-up was paid', async () => {
+      expect(await reversePromoTopUpForRefund(undefined, 8500, 8500)).toBeNull();
+      expect(await reversePromoTopUpForRefund({ promoTopUpTransferId: 'tr_promo', promoTopUpCents: 0 }, 8500, 8500)).toBeNull();
+      expect(createReversal).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tax Service Tests
+ *
+ * Covers finding a location's province, splitting tax between GST/HST and
+ * provincial components, validating registration numbers and the quarterly
+ * report export.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// ============================================================================
+// MOCK SETUP - Must be before imports
+// ============================================================================
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+import {
+  calculateTaxBreakdown,
+  detectProvinceFromAddress,
+  getQuarterRange,
+  taxReportToCsv,
+  validateTaxSettings,
+  type TaxReport,
+} from '../tax-service';
+
+describe('Tax Service', () => {
+  describe('detectProvinceFromAddress', () => {
+    it('uses the postal code ahead of province names', () => {
+      expect(detectProvinceFromAddress('123 Ontario Street, Montreal H2X 1Y4')).toBe('QC');
+      expect(detectProvinceFromAddress('55 King St W, Toronto M5K1A1')).toBe('ON');
+      expect(detectProvinceFromAddress('1 Main St, Iqaluit X0A 0H0')).toBe('NU');
+      expect(detectProvinceFromAddress('4920 52 St, Yellowknife X1A 2P4')).toBe('NT');
+    });
+
+    it('falls back to province codes and names', () => {
+      expect(detectProvinceFromAddress('800 Robson St, Vancouver, BC')).toBe('BC');
+      expect(detectProvinceFromAddress('Halifax, Nova Scotia')).toBe('NS');
+      expect(detectProvinceFromAddress('Rue Principale, Québec')).toBe('QC');
+      expect(detectProvinceFromAddress('meet me on the corner')).toBeNull();
+      expect(detectProvinceFromAddress(null)).toBeNull();
+    });
+  });
+
+  describe('calculateTaxBreakdown', () => {
+    it('splits Quebec tax between GST and QST', () => {
+      const breakdown = calculateTaxBreakdown(10000, 'QC');
+      expect(breakdown.ratePercent).toBe(14.975);
+      expect(breakdown.taxCents).toBe(1498);
+      expect(breakdown.lines).toEqual([
+        { type: 'GST', ratePercent: 5, amountCents: 500 },
+        { type: 'QST', ratePercent: 9.975, amountCents: 998 },
+      ]);
+    });
+
+    it('charges a single HST line in harmonized provinces', () => {
+      expect(calculateTaxBreakdown(10000, 'ON').lines).toEqual([
+        { type: 'HST', ratePercent: 13, amountCents: 1300 },
+      ]);
+    });
+
+    it('uses the fallback rate when the province is unknown', () => {
+      const breakdown = calculateTaxBreakdown(10000, null, 8);
+      expect(breakdown.taxCents).toBe(800);
+      expect(breakdown.lines).toEqual([{ type: 'TAX', ratePercent: 8, amountCents: 800 }]);
+    });
+  });
+
+  describe('validateTaxSettings', () => {
+    it('accepts known provinces and well-formed registration numbers', () => {
+      expect(validateTaxSettings({ taxProvince: 'ON', gstHstNumber: '123456789 RT 0001' })).toBeNull();
+      expect(validateTaxSettings({ taxProvince: null, gstHstNumber: '123456789RT0001', pstNumber: 'PST-1234-5678' })).toBeNull();
+    });
+
+    it('rejects unknown provinces and malformed numbers', () => {
+      expect(validateTaxSettings({ taxProvince: 'XX' })).toMatch(/Unknown province/);
+      expect(validateTaxSettings({ gstHstNumber: '12345 RT 1' })).toMatch(/9-digit business number/);
+      expect(validateTaxSettings({ pstNumber: 'PST#1' })).toMatch(/letters, digits/);
+    });
+  });
+
+  describe('getQuarterRange', () => {
+    it('covers whole calendar quarters', () => {
+      expect(getQuarterRange(2026, 1)).toEqual({ startDate: '2026-01-01', endDate: '2026-03-31' });
+      expect(getQuarterRange(2024, 1).endDate).toBe('2024-03-31');
+      expect(getQuarterRange(2026, 4)).toEqual({ startDate: '2026-10-01', endDate: '2026-12-31' });
+    });
+  });
+
+  describe('taxReportToCsv', () => {
+    it('writes one row per payment and a totals row, in dollars', () => {
+      const report: TaxReport = {
+        year: 2026,
+        quarter: 3,
+        startDate: '2026-07-01',
+        endDate: '2026-09-30',
+        locations: [],
+        totals: { taxableCents: 10000, taxCents: 1498, refundedTaxCents: 0, transactionCount: 1, byType: { GST: 500, QST: 998 } },
+        rows: [{
+          paymentTransactionId: 7,
+          date: '2026-08-14',
+          locationId: 3,
+          locationName: 'Cuisine, Plateau',
+          province: 'QC',
+          itemType: 'kitchen',
+          bookingId: 42,
+          taxableCents: 10000,
+          taxCents: 1498,
+          refundedTaxCents: 0,
+          byType: { GST: 500, QST: 998 },
+        }],
+      };
+
+      const lines = taxReportToCsv(report).split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toBe('Date,Transaction ID,Location,Province,Item,Booking ID,Taxable Amount,GST,HST,PST,QST,RST,Sales Tax,Total Tax,Tax Refunded');
+      expect(lines[1]).toBe('2026-08-14,7,"Cuisine, Plateau",QC,kitchen,42,100.00,5.00,0.00,0.00,9.98,0.00,0.00,14.98,0.00');
+      expect(lines[2]).toBe('Total,,,,,,100.00,5.00,0.00,0.00,9.98,0.00,0.00,14.98,0.00');
+    });
+  });
+});
@@ -0,0 +1,425 @@
+import { logger } from "../logger";
+/**
+ * Accounting Export Service
+ *
+ * Turns a manager's payments, refunds and Stripe payouts for a date range
+ * into double-entry journal entries a bookkeeper can import instead of
+ * re-typing revenue:
+ *
+ * - Sale (on the paid date): the payment lands in Stripe Clearing net of the
+ *   platform fee and Stripe fee, which are booked as expenses; the tax is
+ *   owed (Sales Tax Payable) and the rest is revenue.
+ * - Refund (on the refunded date): returned to the chef out of Stripe
+ *   Clearing, with the tax refunded in proportion to the amount refunded.
+ *   Stripe keeps its fee on refunds, so fees are not reversed.
+ * - Payout (on the arrival date): Stripe Clearing moves to the bank.
+ *
+ * Entries are exported as QuickBooks Desktop IIF general journals, a Xero
+ * manual journal CSV or a plain debit/credit CSV. Amounts are in the
+ * currency each payment or payout was made in.
+ */
+
+import { db } from "../db";
+import { locations, paymentTransactions, users } from "@shared/schema";
+import { and, eq, gt, inArray, sql } from "drizzle-orm";
+import { normalizeCurrency } from "@shared/currency-utils";
+import { getPaymentLocationId } from "./location-revenue-share-service";
+import type { TaxBreakdown } from "./tax-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AccountingExportFormat = "quickbooks_iif" | "xero_csv" | "csv";
+
+export type JournalAccount =
+  | "stripe_clearing"
+  | "bank"
+  | "sales_tax"
+  | "revenue"
+  | "refunds"
+  | "platform_fees"
+  | "stripe_fees";
+
+export interface JournalLine {
+  account: JournalAccount;
+  debitCents: number;
+  creditCents: number;
+}
+
+export interface JournalEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  type: "sale" | "refund" | "payout";
+  reference: string;
+  description: string;
+  currency: string;
+  locationName: string | null;
+  bookingId: number | null;
+  lines: JournalLine[];
+}
+
+export interface AccountingExport {
+  startDate: string;
+  endDate: string;
+  entries: JournalEntry[];
+}
+
+/** A payment transaction as the journal builders need it */
+export interface JournalPayment {
+  id: number;
+  bookingId: number;
+  itemType: string;
+  currency: string;
+  amountCents: number;
+  walletCreditCents: number;
+  serviceFeeCents: number;
+  managerRevenueCents: number;
+  stripeFeeCents: number;
+  taxCents: number;
+  refundCents: number;
+  locationName: string | null;
+}
+
+export interface JournalPayout {
+  id: string;
+  arrivalDate: string;
+  amountCents: number;
+  currency: string;
+}
+
+export const ACCOUNTING_EXPORT_FORMATS: AccountingExportFormat[] = ["quickbooks_iif", "xero_csv", "csv"];
+
+/** Default chart of accounts; bookkeepers map these to their own on import */
+export const JOURNAL_ACCOUNTS: Record<JournalAccount, { code: string; name: string }> = {
+  bank: { code: "1000", name: "Bank" },
+  stripe_clearing: { code: "1210", name: "Stripe Clearing" },
+  sales_tax: { code: "2200", name: "Sales Tax Payable" },
+  revenue: { code: "4000", name: "Kitchen Rental Revenue" },
+  refunds: { code: "4900", name: "Refunds" },
+  platform_fees: { code: "6100", name: "Platform Fees" },
+  stripe_fees: { code: "6110", name: "Stripe Processing Fees" },
+};
+
+// ============================================================================
+// JOURNAL ENTRIES
+// ============================================================================
+
+export function isAccountingExportFormat(value: unknown): value is AccountingExportFormat {
+  return typeof value === "string" && (ACCOUNTING_EXPORT_FORMATS as string[]).includes(value);
+}
+
+/** Positive amounts are debits, negative are credits; zero lines are dropped */
+function journalLines(amounts: Array<[JournalAccount, number]>): JournalLine[] {
+  return amounts
+    .filter(([, cents]) => cents !== 0)
+    .map(([account, cents]) => ({
+      account,
+      debitCents: cents > 0 ? cents : 0,
+      creditCents: cents < 0 ? -cents : 0,
+    }));
+}
+
+function describePayment(payment: JournalPayment): string {
+  const item = payment.itemType.replace(/_/g, " ");
+  return payment.locationName
+    ? `${item} #${payment.bookingId} at ${payment.locationName}`
+    : `${item} #${payment.bookingId}`;
+}
+
+export function buildSaleEntry(payment: JournalPayment, date: string): JournalEntry {
+  const grossCents = payment.amountCents + payment.walletCreditCents;
+  // Same rule as the revenue dashboard: fall back to what the manager did not receive
+  const platformFeeCents = payment.serviceFeeCents > 0
+    ? payment.serviceFeeCents
+    : Math.max(0, grossCents - payment.managerRevenueCents);
+
+  return {
+    id: `PT-${payment.id}`,
+    date,
+    type: "sale",
+    reference: `PT-${payment.id}`,
+    description: `Payment for ${describePayment(payment)}`,
+    currency: payment.currency,
+    locationName: payment.locationName,
+    bookingId: payment.bookingId,
+    lines: journalLines([
+      ["stripe_clearing", grossCents - platformFeeCents - payment.stripeFeeCents],
+      ["platform_fees", platformFeeCents],
+      ["stripe_fees", payment.stripeFeeCents],
+      ["sales_tax", -payment.taxCents],
+      ["revenue", -(grossCents - payment.taxCents)],
+    ]),
+  };
+}
+
+export function buildRefundEntry(payment: JournalPayment, date: string): JournalEntry | null {
+  const refundCents = Math.min(payment.amountCents, payment.refundCents);
+  if (refundCents <= 0) return null;
+  const refundedTaxCents = payment.amountCents > 0
+    ? Math.round((payment.taxCents * refundCents) / payment.amountCents)
+    : 0;
+
+  return {
+    id: `PT-${payment.id}-R`,
+    date,
+    type: "refund",
+    reference: `PT-${payment.id}`,
+    description: `Refund of ${describePayment(payment)}`,
+    currency: payment.currency,
+    locationName: payment.locationName,
+    bookingId: payment.bookingId,
+    lines: journalLines([
+      ["refunds", refundCents - refundedTaxCents],
+      ["sales_tax", refundedTaxCents],
+      ["stripe_clearing", -refundCents],
+    ]),
+  };
+}
+
+export function buildPayoutEntry(payout: JournalPayout): JournalEntry {
+  return {
+    id: payout.id,
+    date: payout.arrivalDate,
+    type: "payout",
+    reference: payout.id,
+    description: `Stripe payout ${payout.id}`,
+    currency: payout.currency,
+    locationName: null,
+    bookingId: null,
+    lines: journalLines([
+      ["bank", payout.amountCents],
+      ["stripe_clearing", -payout.amountCents],
+    ]),
+  };
+}
+
+// ============================================================================
+// FILE FORMATS
+// ============================================================================
+
+function escapeCsv(value: string | number | null): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toDollars = (cents: number) => (cents / 100).toFixed(2);
+
+/** Signed amount: debits positive, credits negative */
+const signedDollars = (line: JournalLine) => toDollars(line.debitCents - line.creditCents);
+
+function toCsv(rows: Array<Array<string | number | null>>): string {
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\n");
+}
+
+/** One row per journal line with separate debit and credit columns */
+export function accountingExportToCsv(data: AccountingExport): string {
+  const header = [
+    "Date", "Journal", "Type", "Reference", "Account Code", "Account", "Description",
+    "Debit", "Credit", "Currency", "Location", "Booking ID",
+  ];
+  const rows = data.entries.flatMap((entry) =>
+    entry.lines.map((line) => [
+      entry.date, entry.id, entry.type, entry.reference,
+      JOURNAL_ACCOUNTS[line.account].code, JOURNAL_ACCOUNTS[line.account].name, entry.description,
+      line.debitCents > 0 ? toDollars(line.debitCents) : "",
+      line.creditCents > 0 ? toDollars(line.creditCents) : "",
+      entry.currency, entry.locationName, entry.bookingId,
+    ]),
+  );
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Xero manual journal import. Lines sharing a narration and date become one
+ * journal; tax is already split onto its own account, so lines are Tax Exempt.
+ */
+export function accountingExportToXeroCsv(data: AccountingExport): string {
+  const header = [
+    "*Narration", "*Date", "Description", "*AccountCode", "*TaxRate", "*Amount",
+    "TrackingName1", "TrackingOption1",
+  ];
+  const rows = data.entries.flatMap((entry) =>
+    entry.lines.map((line) => [
+      `${entry.reference} ${entry.description} (${entry.currency})`, entry.date, entry.description,
+      JOURNAL_ACCOUNTS[line.account].code, "Tax Exempt", signedDollars(line),
+      entry.locationName ? "Location" : "", entry.locationName,
+    ]),
+  );
+  return toCsv([header, ...rows]);
+}
+
+/** Tabs and line breaks would break the IIF row */
+const iifText = (value: string) => value.replace(/[\t\r\n]+/g, " ");
+
+/** QuickBooks Desktop IIF: one GENERAL JOURNAL transaction per entry, MM/DD/YYYY dates */
+export function accountingExportToIif(data: AccountingExport): string {
+  const lines = [
+    "!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO",
+    "!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO",
+    "!ENDTRNS",
+  ];
+  for (const entry of data.entries) {
+    const [year, month, day] = entry.date.split("-");
+    const date = `${month}/${day}/${year}`;
+    const memo = iifText(`${entry.description} (${entry.currency})`);
+    entry.lines.forEach((line, i) => {
+      const kind = i === 0 ? "TRNS" : "SPL";
+      lines.push([
+        kind, "", "GENERAL JOURNAL", date, iifText(JOURNAL_ACCOUNTS[line.account].name),
+        signedDollars(line), iifText(entry.reference), memo,
+      ].join("\t"));
+    });
+    lines.push("ENDTRNS");
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function formatAccountingExport(
+  data: AccountingExport,
+  format: AccountingExportFormat,
+): { body: string; contentType: string; filename: string } {
+  const name = `accounting-${data.startDate}-to-${data.endDate}`;
+  switch (format) {
+    case "quickbooks_iif":
+      return { body: accountingExportToIif(data), contentType: "application/octet-stream", filename: `${name}.iif` };
+    case "xero_csv":
+      return { body: accountingExportToXeroCsv(data), contentType: "text/csv; charset=utf-8", filename: `${name}-xero.csv` };
+    case "csv":
+      return { body: accountingExportToCsv(data), contentType: "text/csv; charset=utf-8", filename: `${name}.csv` };
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+async function loadPayments(managerId: number, dateSql: ReturnType<typeof sql>, startDate: string, endDate: string, refundsOnly: boolean) {
+  return db
+    .select({
+      id: paymentTransactions.id,
+      bookingId: paymentTransactions.bookingId,
+      bookingType: paymentTransactions.bookingType,
+      currency: paymentTransactions.currency,
+      amount: paymentTransactions.amount,
+      serviceFee: paymentTransactions.serviceFee,
+      managerRevenue: paymentTransactions.managerRevenue,
+      stripeProcessingFee: paymentTransactions.stripeProcessingFee,
+      refundAmount: paymentTransactions.refundAmount,
+      taxCents: paymentTransactions.taxCents,
+      taxBreakdown: paymentTransactions.taxBreakdown,
+      metadata: paymentTransactions.metadata,
+      entryDate: sql<string>`${dateSql}::text`,
+    })
+    .from(paymentTransactions)
+    .where(and(
+      eq(paymentTransactions.managerId, managerId),
+      inArray(paymentTransactions.status, ["succeeded", "partially_refunded", "refunded"]),
+      refundsOnly ? gt(sql`COALESCE(${paymentTransactions.refundAmount}::numeric, 0)`, 0) : undefined,
+      sql`${dateSql} >= ${startDate}::date`,
+      sql`${dateSql} <= ${endDate}::date`,
+      // Kitchen rows of a bundle are covered by the bundle's own transaction
+      sql`NOT (
+        ${paymentTransactions.bookingType} = 'kitchen'
+        AND EXISTS (
+          SELECT 1 FROM payment_transactions pt2
+          WHERE pt2.booking_id = ${paymentTransactions.bookingId}
+            AND pt2.booking_type = 'bundle'
+            AND pt2.manager_id = ${paymentTransactions.managerId}
+        )
+      )`,
+    ))
+    .orderBy(dateSql, paymentTransactions.id);
+}
+
+type PaymentRow = Awaited<ReturnType<typeof loadPayments>>[number];
+
+async function loadPayouts(managerId: number, startDate: string, endDate: string): Promise<JournalPayout[]> {
+  const [manager] = await db
+    .select({ stripeConnectAccountId: users.stripeConnectAccountId })
+    .from(users)
+    .where(eq(users.id, managerId))
+    .limit(1);
+  if (!manager?.stripeConnectAccountId) return [];
+
+  try {
+    const { getPayouts } = await import("./stripe-connect-service");
+    const payouts = await getPayouts(manager.stripeConnectAccountId, 100, {
+      start: new Date(`${startDate}T00:00:00Z`),
+      end: new Date(`${endDate}T23:59:59Z`),
+    });
+    return payouts
+      .filter((payout) => payout.status === "paid" || payout.status === "in_transit")
+      .map((payout) => ({
+        id: payout.id,
+        arrivalDate: new Date(payout.arrival_date * 1000).toISOString().split("T")[0],
+        amountCents: payout.amount,
+        currency: normalizeCurrency(payout.currency),
+      }));
+  } catch (error) {
+    // Payments still export; the bookkeeper can add payouts from the bank feed
+    logger.warn(`[AccountingExport] Could not load payouts for manager ${managerId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Journal entries for a manager's sales, refunds and payouts between two
+ * dates (inclusive), in date order
+ */
+export async function getAccountingExport(managerId: number, startDate: string, endDate: string): Promise<AccountingExport> {
+  const paidOn = sql`DATE(COALESCE(${paymentTransactions.paidAt}, ${paymentTransactions.createdAt}))`;
+  const refundedOn = sql`DATE(COALESCE(${paymentTransactions.refundedAt}, ${paymentTransactions.updatedAt}))`;
+
+  const [sales, refunds, payouts] = await Promise.all([
+    loadPayments(managerId, paidOn, startDate, endDate, false),
+    loadPayments(managerId, refundedOn, startDate, endDate, true),
+    loadPayouts(managerId, startDate, endDate),
+  ]);
+
+  // Resolve each payment's location once, preferring the one its tax breakdown recorded
+  const locationIdByPayment = new Map<number, number | null>();
+  for (const row of [...sales, ...refunds]) {
+    if (locationIdByPayment.has(row.id)) continue;
+    const recorded = (row.taxBreakdown as TaxBreakdown | null)?.locationId;
+    locationIdByPayment.set(row.id, recorded ?? await getPaymentLocationId(row.id));
+  }
+  const locationIds = Array.from(new Set(
+    Array.from(locationIdByPayment.values()).filter((id): id is number => id != null),
+  ));
+  const locationRows = locationIds.length > 0
+    ? await db.select({ id: locations.id, name: locations.name }).from(locations).where(inArray(locations.id, locationIds))
+    : [];
+  const locationNames = new Map(locationRows.map((loc) => [loc.id, loc.name]));
+
+  const toJournalPayment = (row: PaymentRow): JournalPayment => {
+    const metadata = (row.metadata ?? {}) as { type?: string; wallet?: { appliedCents?: number } };
+    const locationId = locationIdByPayment.get(row.id);
+    return {
+      id: row.id,
+      bookingId: row.bookingId,
+      itemType: metadata.type || row.bookingType,
+      currency: normalizeCurrency(row.currency),
+      amountCents: parseInt(String(row.amount)) || 0,
+      walletCreditCents: parseInt(String(metadata.wallet?.appliedCents ?? 0)) || 0,
+      serviceFeeCents: parseInt(String(row.serviceFee)) || 0,
+      managerRevenueCents: parseInt(String(row.managerRevenue)) || 0,
+      stripeFeeCents: parseInt(String(row.stripeProcessingFee ?? "0")) || 0,
+      taxCents: row.taxCents ?? 0,
+      refundCents: parseInt(String(row.refundAmount ?? "0")) || 0,
+      locationName: locationId != null ? locationNames.get(locationId) ?? null : null,
+    };
+  };
+
+  const entries: JournalEntry[] = [
+    ...sales.map((row) => buildSaleEntry(toJournalPayment(row), row.entryDate)),
+    ...refunds
+      .map((row) => buildRefundEntry(toJournalPayment(row), row.entryDate))
+      .filter((entry): entry is JournalEntry => entry !== null),
+    ...payouts.map(buildPayoutEntry),
+  ];
+  entries.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+  logger.info(`[AccountingExport] Manager ${managerId}: ${entries.length} journal entries for ${startDate} to ${endDate}`);
+  return { startDate, endDate, entries };
+}
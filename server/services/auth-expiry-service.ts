@@ -72,8 +72,9 @@ export async function lazyExpireKitchenBookingAuth(booking: {
     const { cancelPaymentIntent } = await import("./stripe-service");
     await cancelPaymentIntent(booking.paymentIntentId);
 
-    // Update kitchen booking
-    await db
+    // Update kitchen booking (by PaymentIntent so recurring series occurrences
+    // sharing the released hold are expired together)
+    const expiredBookings = await db
       .update(kitchenBookings)
       .set({
         status: "cancelled",
@@ -82,10 +83,11 @@ export async function lazyExpireKitchenBookingAuth(booking: {
       })
       .where(
         and(
-          eq(kitchenBookings.id, booking.id),
+          eq(kitchenBookings.paymentIntentId, booking.paymentIntentId),
           eq(kitchenBookings.paymentStatus, "authorized"), // Atomic guard
         )
-      );
+      )
+      .returning({ id: kitchenBookings.id });
 
     // Update associated storage bookings
     await db
@@ -131,6 +133,12 @@ export async function lazyExpireKitchenBookingAuth(booking: {
       logger.warn(`[AuthExpiry] Lazy: Could not send notification for booking ${booking.id}:`, notifErr);
     }
 
+    // Offer the freed slot(s) to the waitlist
+    const { offerFreedSlotToWaitlist } = await import("./kitchen-waitlist-service");
+    for (const expired of expiredBookings) {
+      await offerFreedSlotToWaitlist(expired.id);
+    }
+
     logger.info(`[AuthExpiry] Lazy-expired kitchen booking ${booking.id} successfully`);
     return true;
   } catch (err: any) {
@@ -252,23 +260,35 @@ export async function processExpiredAuthorizations(): Promise<AuthExpiryResult[]
 
     logger.info(`[AuthExpiry] Found ${expiredBookings.length} expired kitchen booking authorizations`);
 
+    // Series occurrences share one PaymentIntent — release each hold once
+    const releasedIntentIds = new Set<string>();
+
     for (const booking of expiredBookings) {
       if (!booking.paymentIntentId) continue;
+      if (releasedIntentIds.has(booking.paymentIntentId)) continue;
 
       try {
         // Cancel the PaymentIntent to release the hold
         const { cancelPaymentIntent } = await import("./stripe-service");
         await cancelPaymentIntent(booking.paymentIntentId);
 
-        // Update kitchen booking — reject it and mark payment as failed
-        await db
+        releasedIntentIds.add(booking.paymentIntentId);
+
+        // Update kitchen booking(s) on this PaymentIntent — reject and mark payment as failed
+        const cancelledBookings = await db
           .update(kitchenBookings)
           .set({
             status: "cancelled",
             paymentStatus: "failed",
             updatedAt: new Date(),
           })
-          .where(eq(kitchenBookings.id, booking.id));
+          .where(
+            and(
+              eq(kitchenBookings.paymentIntentId, booking.paymentIntentId),
+              eq(kitchenBookings.paymentStatus, "authorized"),
+            ),
+          )
+          .returning({ id: kitchenBookings.id });
 
         // Update associated storage bookings
         await db
@@ -320,6 +340,12 @@ export async function processExpiredAuthorizations(): Promise<AuthExpiryResult[]
           logger.warn(`[AuthExpiry] Could not send notification for booking ${booking.id}:`, notifErr);
         }
 
+        // Offer the freed slot(s) to the waitlist
+        const { offerFreedSlotToWaitlist } = await import("./kitchen-waitlist-service");
+        for (const cancelled of cancelledBookings) {
+          await offerFreedSlotToWaitlist(cancelled.id);
+        }
+
         results.push({
           type: "kitchen_booking",
           id: booking.id,
@@ -0,0 +1,595 @@
+import { logger } from "../logger";
+/**
+ * Booking Reschedule Service — Chef Self-Service Time Changes
+ *
+ * Lets a chef move a one-off kitchen booking to another date or time instead of
+ * requesting cancellation and rebooking. A reschedule:
+ *   - must happen at least `locations.reschedulePolicyHours` before the current
+ *     start, the same way `cancellationPolicyHours` gates cancellations;
+ *   - must fall within the kitchen's opening hours and be free for the
+ *     booking's stations (the booking itself is ignored when looking for
+ *     conflicts);
+ *   - is re-priced with calculateKitchenBookingPrice. Only the kitchen time is
+ *     re-priced — storage and equipment add-ons and any promo discount stay as
+ *     they were.
+ *
+ * SETTLEMENT — the kitchen price difference plus tax:
+ *   - costs more: charged off-session to the card saved at checkout
+ *   - costs less, payment captured: refunded against the original PaymentIntent
+ *     (the manager's transfer is reversed by the same amount, as for manager refunds)
+ *   - costs less, payment only authorized: nothing moves now; the manager's
+ *     approval captures the lower amount
+ *
+ * Every reschedule is appended to `kitchenBookings.rescheduleHistory`.
+ * Occurrences of a recurring series share one PaymentIntent and are not
+ * rescheduled individually.
+ */
+
+import { db } from "../db";
+import { kitchenBookings, kitchens, locations, type KitchenBooking } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import { DEFAULT_TIMEZONE, getDayOffset, getHoursUntilBooking, isBookingTimePast } from "@shared/timezone-utils";
+import { calculateKitchenBookingPrice, getKitchenOnlyPriceCents, type KitchenPriceLineItem } from "./pricing-service";
+import { assignKitchenStations, getBookingStationIds } from "./kitchen-station-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RescheduleRequest {
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  endDate?: string | null; // YYYY-MM-DD, for overnight/multi-day bookings
+  selectedSlots?: Array<{ startTime: string; endTime: string }>;
+}
+
+export type RescheduleSettlement = "none" | "charge" | "refund" | "reduce_hold";
+
+export interface ReschedulePreview {
+  currentKitchenPriceCents: number;
+  newKitchenPriceCents: number;
+  priceDifferenceCents: number; // Kitchen price difference before tax
+  taxDifferenceCents: number;
+  amountDueCents: number; // Positive = charged to the chef, negative = refunded or released
+  settlement: RescheduleSettlement;
+  durationHours: number;
+  lineItems: KitchenPriceLineItem[];
+}
+
+export interface RescheduleHistoryEntry {
+  fromBookingDate: string;
+  fromEndDate: string | null;
+  fromStartTime: string;
+  fromEndTime: string;
+  toBookingDate: string;
+  toEndDate: string | null;
+  toStartTime: string;
+  toEndTime: string;
+  previousKitchenPriceCents: number;
+  newKitchenPriceCents: number;
+  priceDifferenceCents: number;
+  taxDifferenceCents: number;
+  settlement: RescheduleSettlement;
+  paymentIntentId: string | null; // Off-session charge for the difference
+  refundId: string | null;
+  rescheduledBy: number;
+  rescheduledAt: string;
+}
+
+export type RescheduleResult =
+  | { success: true; booking: KitchenBooking; preview: ReschedulePreview; accessCode: string | null }
+  | { success: false; error: string; status: 400 | 402 | 404 | 409 };
+
+type ReschedulePlan =
+  | { success: true; context: BookingContext; preview: ReschedulePreview; stationIds: number[]; request: NormalizedRequest }
+  | { success: false; error: string; status: 400 | 404 | 409 };
+
+interface BookingContext {
+  booking: KitchenBooking;
+  taxRatePercent: number;
+  timezone: string;
+  reschedulePolicyHours: number;
+  minimumBookingWindowHours: number;
+  managerId: number | null;
+  locationId: number;
+  kitchenName: string;
+}
+
+interface NormalizedRequest {
+  bookingDate: string;
+  endDate: string | null;
+  startTime: string;
+  endTime: string;
+  selectedSlots: Array<{ startTime: string; endTime: string }>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-4]):[0-5]\d$/;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function validateRescheduleRequest(request: Partial<RescheduleRequest>): string | null {
+  if (!DATE_PATTERN.test(request.bookingDate || "")) {
+    return "Date must be in YYYY-MM-DD format";
+  }
+  if (!TIME_PATTERN.test(request.startTime || "") || !TIME_PATTERN.test(request.endTime || "")) {
+    return "Start and end times must be in HH:MM format";
+  }
+  if (request.endDate) {
+    if (!DATE_PATTERN.test(request.endDate)) return "End date must be in YYYY-MM-DD format";
+    if (request.endDate < request.bookingDate!) return "End date cannot be before the booking date";
+  }
+  if (request.selectedSlots !== undefined) {
+    if (!Array.isArray(request.selectedSlots)) return "selectedSlots must be an array";
+    const invalid = request.selectedSlots.some((slot) =>
+      !slot || !TIME_PATTERN.test(slot.startTime || "") || !TIME_PATTERN.test(slot.endTime || "")
+    );
+    if (invalid) return "Each selected slot needs a start and end time in HH:MM format";
+  }
+  return null;
+}
+
+/**
+ * Why a booking cannot be rescheduled right now, or null when it can.
+ * `hoursUntilBooking` is measured to the booking's current start.
+ */
+export function getRescheduleBlockReason(
+  booking: { status: string; bookingType?: string | null; seriesId?: number | null; checkinStatus?: string | null },
+  hoursUntilBooking: number,
+  reschedulePolicyHours: number
+): string | null {
+  if (booking.status === "cancelled") return "Cancelled bookings cannot be rescheduled";
+  if (booking.status === "completed") return "Completed bookings cannot be rescheduled";
+  if (booking.status === "cancellation_requested") {
+    return "This booking has a pending cancellation request";
+  }
+  if (booking.bookingType !== "chef") return "Only chef bookings can be rescheduled";
+  if (booking.seriesId) {
+    return "Bookings in a recurring series cannot be rescheduled individually. Cancel this occurrence and book a new time instead.";
+  }
+  if (booking.checkinStatus && booking.checkinStatus !== "not_checked_in") {
+    return "You have already checked in to this booking";
+  }
+  if (hoursUntilBooking < reschedulePolicyHours) {
+    return `Bookings cannot be rescheduled within ${reschedulePolicyHours} hours of the scheduled time.`;
+  }
+  return null;
+}
+
+/** How the price difference is settled for a booking's payment state */
+export function getRescheduleSettlement(paymentStatus: string | null, amountDueCents: number): RescheduleSettlement {
+  if (amountDueCents === 0) return "none";
+  const isCaptured = paymentStatus === "paid" || paymentStatus === "partially_refunded";
+  if (amountDueCents > 0) {
+    return isCaptured || paymentStatus === "authorized" ? "charge" : "none";
+  }
+  if (isCaptured) return "refund";
+  return paymentStatus === "authorized" ? "reduce_hold" : "none";
+}
+
+export function isSameSchedule(booking: Pick<KitchenBooking, "bookingDate" | "endDate" | "startTime" | "endTime">, request: NormalizedRequest): boolean {
+  return toDateString(booking.bookingDate) === request.bookingDate
+    && (booking.endDate ? toDateString(booking.endDate) : null) === request.endDate
+    && booking.startTime === request.startTime
+    && booking.endTime === request.endTime;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function toBookingDate(dateStr: string): Date {
+  return new Date(`${dateStr}T12:00:00Z`);
+}
+
+function normalizeRequest(request: RescheduleRequest): NormalizedRequest {
+  const endDate = request.endDate && request.endDate !== request.bookingDate ? request.endDate : null;
+  return {
+    bookingDate: request.bookingDate,
+    endDate,
+    startTime: request.startTime,
+    endTime: request.endTime,
+    // Staggered slots only apply to single-day bookings
+    selectedSlots: endDate ? [] : (request.selectedSlots ?? []),
+  };
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+async function getBookingContext(bookingId: number, chefId: number): Promise<BookingContext | null> {
+  const [row] = await db
+    .select({
+      booking: kitchenBookings,
+      taxRatePercent: kitchens.taxRatePercent,
+      kitchenName: kitchens.name,
+      locationId: locations.id,
+      timezone: locations.timezone,
+      reschedulePolicyHours: locations.reschedulePolicyHours,
+      minimumBookingWindowHours: locations.minimumBookingWindowHours,
+      managerId: locations.managerId,
+    })
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchenBookings.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(and(eq(kitchenBookings.id, bookingId), eq(kitchenBookings.chefId, chefId)))
+    .limit(1);
+  if (!row) return null;
+
+  return {
+    booking: row.booking,
+    taxRatePercent: row.taxRatePercent ? parseFloat(String(row.taxRatePercent)) : 0,
+    timezone: row.timezone || DEFAULT_TIMEZONE,
+    reschedulePolicyHours: row.reschedulePolicyHours ?? 24,
+    minimumBookingWindowHours: row.minimumBookingWindowHours ?? 1,
+    managerId: row.managerId ?? null,
+    locationId: row.locationId,
+    kitchenName: row.kitchenName,
+  };
+}
+
+/** Check the policy and the new time, and price the move — no side effects */
+async function planReschedule(bookingId: number, chefId: number, input: RescheduleRequest): Promise<ReschedulePlan> {
+  const validationError = validateRescheduleRequest(input);
+  if (validationError) return { success: false, error: validationError, status: 400 };
+  const request = normalizeRequest(input);
+
+  const context = await getBookingContext(bookingId, chefId);
+  if (!context) return { success: false, error: "Booking not found", status: 404 };
+  const { booking, timezone } = context;
+
+  const hoursUntilCurrent = getHoursUntilBooking(toDateString(booking.bookingDate), booking.startTime, timezone);
+  const blockReason = getRescheduleBlockReason(booking, hoursUntilCurrent, context.reschedulePolicyHours);
+  if (blockReason) return { success: false, error: blockReason, status: 400 };
+
+  if (isSameSchedule(booking, request)) {
+    return { success: false, error: "Choose a different date or time", status: 400 };
+  }
+
+  // The new time follows the same rules as a new booking
+  if (isBookingTimePast(request.bookingDate, request.startTime, timezone)) {
+    return { success: false, error: "Cannot move a booking to a time that has already passed", status: 400 };
+  }
+  const hoursUntilNew = getHoursUntilBooking(request.bookingDate, request.startTime, timezone);
+  if (hoursUntilNew < context.minimumBookingWindowHours) {
+    const hours = context.minimumBookingWindowHours;
+    return { success: false, error: `Bookings must be made at least ${hours} hour${hours !== 1 ? "s" : ""} in advance`, status: 400 };
+  }
+
+  const { bookingService } = await import("../domains/bookings/booking.service");
+  const bookingDate = toBookingDate(request.bookingDate);
+  const endDate = request.endDate ? toBookingDate(request.endDate) : null;
+  const availability = await bookingService.validateBookingAvailability(
+    booking.kitchenId,
+    bookingDate,
+    request.startTime,
+    request.endTime,
+    endDate
+  );
+  if (!availability.valid) {
+    return { success: false, error: availability.error || "Booking is not within manager-set available hours", status: 400 };
+  }
+
+  // A slot freed by a cancellation may be held for a waitlisted chef
+  if (!endDate) {
+    const { isRangeHeldForOthers } = await import("./kitchen-waitlist-service");
+    const slotsInfo = await bookingService.getAllTimeSlotsWithBookingInfo(booking.kitchenId, bookingDate, chefId);
+    if (isRangeHeldForOthers(slotsInfo, request.startTime, request.endTime)) {
+      return { success: false, error: "This time is being held for a chef on the waitlist", status: 409 };
+    }
+  }
+
+  const stationCount = Math.max(1, getBookingStationIds(booking).length);
+  const stationAssignment = await assignKitchenStations({
+    kitchenId: booking.kitchenId,
+    bookingDate,
+    startTime: request.startTime,
+    endTime: request.endTime,
+    count: stationCount,
+    endDate,
+    selectedSlots: request.selectedSlots.length > 0 ? request.selectedSlots : undefined,
+    excludeBookingId: booking.id,
+  });
+  if (!stationAssignment.success) {
+    return { success: false, error: stationAssignment.error, status: 409 };
+  }
+
+  const endDayOffset = request.endDate ? getDayOffset(request.bookingDate, request.endDate) : 0;
+  const hasSlots = request.selectedSlots.length > 0;
+  const pricing = await calculateKitchenBookingPrice(booking.kitchenId, request.startTime, request.endTime, {
+    slotCount: hasSlots ? request.selectedSlots.length : undefined,
+    selectedSlots: hasSlots ? request.selectedSlots : undefined,
+    bookingDates: [request.bookingDate],
+    endDayOffset,
+    stationCount,
+  });
+
+  const currentKitchenPriceCents = getKitchenOnlyPriceCents(booking);
+  const priceDifferenceCents = pricing.totalPriceCents - currentKitchenPriceCents;
+  const taxDifferenceCents = Math.round((priceDifferenceCents * context.taxRatePercent) / 100);
+  const amountDueCents = priceDifferenceCents + taxDifferenceCents;
+
+  return {
+    success: true,
+    context,
+    request,
+    stationIds: stationAssignment.stationIds,
+    preview: {
+      currentKitchenPriceCents,
+      newKitchenPriceCents: pricing.totalPriceCents,
+      priceDifferenceCents,
+      taxDifferenceCents,
+      amountDueCents,
+      settlement: getRescheduleSettlement(booking.paymentStatus, amountDueCents),
+      durationHours: pricing.durationHours,
+      lineItems: pricing.lineItems,
+    },
+  };
+}
+
+export async function previewReschedule(
+  bookingId: number,
+  chefId: number,
+  request: RescheduleRequest
+): Promise<{ success: true; preview: ReschedulePreview } | { success: false; error: string; status: 400 | 404 | 409 }> {
+  const plan = await planReschedule(bookingId, chefId, request);
+  return plan.success ? { success: true, preview: plan.preview } : plan;
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+/**
+ * Move a booking to a new time. The price difference is settled with Stripe
+ * before the booking changes, so a declined card leaves the booking untouched.
+ */
+export async function rescheduleBooking(
+  bookingId: number,
+  chefId: number,
+  input: RescheduleRequest
+): Promise<RescheduleResult> {
+  const plan = await planReschedule(bookingId, chefId, input);
+  if (!plan.success) return plan;
+
+  const { context, preview, request, stationIds } = plan;
+  const { booking } = context;
+  let paymentIntentId: string | null = null;
+  let refundId: string | null = null;
+
+  if (preview.settlement === "charge") {
+    if (!booking.stripeCustomerId || !booking.stripePaymentMethodId) {
+      return {
+        success: false,
+        error: "No saved card is on file for this booking. Cancel it and book the new time instead.",
+        status: 402,
+      };
+    }
+    try {
+      paymentIntentId = await chargeRescheduleDifference(context, preview);
+    } catch (error) {
+      logger.error(`[Reschedule] Charge failed for booking ${booking.id}:`, error);
+      return { success: false, error: "We couldn't charge the price difference to your saved card", status: 402 };
+    }
+  } else if (preview.settlement === "refund" && booking.paymentIntentId) {
+    refundId = await refundRescheduleDifference(context, -preview.amountDueCents);
+  }
+
+  const entry: RescheduleHistoryEntry = {
+    fromBookingDate: toDateString(booking.bookingDate),
+    fromEndDate: booking.endDate ? toDateString(booking.endDate) : null,
+    fromStartTime: booking.startTime,
+    fromEndTime: booking.endTime,
+    toBookingDate: request.bookingDate,
+    toEndDate: request.endDate,
+    toStartTime: request.startTime,
+    toEndTime: request.endTime,
+    previousKitchenPriceCents: preview.currentKitchenPriceCents,
+    newKitchenPriceCents: preview.newKitchenPriceCents,
+    priceDifferenceCents: preview.priceDifferenceCents,
+    taxDifferenceCents: preview.taxDifferenceCents,
+    settlement: preview.settlement,
+    paymentIntentId,
+    refundId,
+    rescheduledBy: chefId,
+    rescheduledAt: new Date().toISOString(),
+  };
+  const history = Array.isArray(booking.rescheduleHistory) ? booking.rescheduleHistory : [];
+  const totalPriceCents = Math.max(0, Math.round(parseFloat(String(booking.totalPrice ?? "0")) || 0) + preview.priceDifferenceCents);
+  const durationHours = preview.durationHours;
+
+  const [updated] = await db
+    .update(kitchenBookings)
+    .set({
+      bookingDate: toBookingDate(request.bookingDate),
+      endDate: request.endDate ? toBookingDate(request.endDate) : null,
+      startTime: request.startTime,
+      endTime: request.endTime,
+      selectedSlots: request.selectedSlots,
+      stationIds,
+      totalPrice: totalPriceCents.toString(),
+      // Keeps hourly rate × duration equal to the kitchen price the manager captures on approval
+      hourlyRate: (durationHours > 0 ? preview.newKitchenPriceCents / durationHours : 0).toString(),
+      durationHours: durationHours.toString(),
+      pricingBreakdown: preview.lineItems,
+      ...(refundId && { paymentStatus: "partially_refunded" as const }),
+      rescheduleHistory: [...history, entry],
+      updatedAt: new Date(),
+    })
+    .where(eq(kitchenBookings.id, booking.id))
+    .returning();
+
+  logger.info(`[Reschedule] Booking ${booking.id} moved from ${entry.fromBookingDate} ${entry.fromStartTime} to ${entry.toBookingDate} ${entry.toStartTime}`, {
+    amountDueCents: preview.amountDueCents,
+    settlement: preview.settlement,
+    paymentIntentId,
+    refundId,
+  });
+
+  // Access codes are tied to the booking window — issue one for the new time
+  let accessCode: string | null = null;
+  if (booking.accessCodeHash) {
+    const { kitchenCheckoutService } = await import("./kitchen-checkout-service");
+    await kitchenCheckoutService.logAccessCodeAudit({
+      bookingId: booking.id,
+      kitchenId: booking.kitchenId,
+      action: "revoked",
+      source: "api",
+      metadata: { reason: "reschedule", triggeredBy: chefId },
+    });
+    accessCode = await kitchenCheckoutService.generateBookingAccessCode(
+      updated.id,
+      updated.bookingDate,
+      updated.startTime,
+      updated.endTime,
+      updated.kitchenId,
+      updated.endDate
+    );
+  }
+
+  notifyManagerOfReschedule(context, entry).catch((error) =>
+    logger.error(`[Reschedule] Notification error for booking ${booking.id}:`, error)
+  );
+
+  // The old time is free again
+  const { offerNextInLine } = await import("./kitchen-waitlist-service");
+  await offerNextInLine(booking.kitchenId, booking.bookingDate).catch((error) =>
+    logger.error(`[Reschedule] Error offering freed slot from booking ${booking.id}:`, error)
+  );
+
+  return { success: true, booking: updated, preview, accessCode };
+}
+
+async function notifyManagerOfReschedule(context: BookingContext, entry: RescheduleHistoryEntry): Promise<void> {
+  if (!context.managerId) return;
+  const { users } = await import("@shared/schema");
+  const { notificationService } = await import("./notification.service");
+  const [chef] = await db
+    .select({ username: users.username })
+    .from(users)
+    .where(eq(users.id, entry.rescheduledBy))
+    .limit(1);
+
+  await notificationService.notifyBookingRescheduled({
+    managerId: context.managerId,
+    locationId: context.locationId,
+    bookingId: context.booking.id,
+    chefName: chef?.username || "A chef",
+    kitchenName: context.kitchenName,
+    bookingDate: entry.toBookingDate,
+    startTime: entry.toStartTime,
+    endTime: entry.toEndTime,
+    previousBookingDate: entry.fromBookingDate,
+    previousStartTime: entry.fromStartTime,
+    previousEndTime: entry.fromEndTime,
+  });
+}
+
+async function chargeRescheduleDifference(context: BookingContext, preview: ReschedulePreview): Promise<string> {
+  const { booking, managerId } = context;
+  const { chargeSavedPaymentMethod } = await import("./stripe-service");
+  const { createPaymentTransaction } = await import("./payment-transactions-service");
+  const { users } = await import("@shared/schema");
+
+  let managerConnectAccountId = "";
+  if (managerId) {
+    const [manager] = await db
+      .select({ stripeConnectAccountId: users.stripeConnectAccountId })
+      .from(users)
+      .where(eq(users.id, managerId))
+      .limit(1);
+    managerConnectAccountId = manager?.stripeConnectAccountId || "";
+  }
+
+  const metadata = {
+    type: "booking_reschedule",
+    booking_id: booking.id.toString(),
+    chef_id: String(booking.chefId ?? ""),
+    kitchen_id: booking.kitchenId.toString(),
+    manager_id: managerId?.toString() || "",
+    manager_connect_account_id: managerConnectAccountId,
+    price_difference_cents: preview.priceDifferenceCents.toString(),
+    tax_difference_cents: preview.taxDifferenceCents.toString(),
+  };
+
+  const history = Array.isArray(booking.rescheduleHistory) ? booking.rescheduleHistory : [];
+  const payment = await chargeSavedPaymentMethod({
+    amount: preview.amountDueCents,
+    customerId: booking.stripeCustomerId!,
+    paymentMethodId: booking.stripePaymentMethodId!,
+    metadata,
+    statementDescriptorSuffix: "RESCHEDULE",
+    currency: (booking.currency || "CAD").toLowerCase(),
+    // One charge per reschedule of this booking, safe to retry
+    idempotencyKey: `booking_reschedule_${booking.id}_${history.length + 1}`,
+  });
+  if (payment.status !== "succeeded") {
+    throw new Error(`PaymentIntent ${payment.id} is ${payment.status}`);
+  }
+
+  // ARCHITECTURE — Separate Charges and Transfers: seeded like other off-session
+  // charges; the charge webhooks sync the Stripe fee and transfer the manager's share.
+  try {
+    await createPaymentTransaction({
+      bookingId: booking.id,
+      bookingType: "kitchen",
+      chefId: booking.chefId ?? null,
+      managerId,
+      amount: preview.amountDueCents,
+      baseAmount: preview.priceDifferenceCents,
+      serviceFee: 0,
+      managerRevenue: preview.amountDueCents,
+      taxCents: preview.taxDifferenceCents,
+      currency: (booking.currency || "CAD").toUpperCase(),
+      paymentIntentId: payment.id,
+      chargeId: payment.chargeId || undefined,
+      status: "succeeded",
+      stripeStatus: payment.status,
+      metadata: { ...metadata, charged_via: "off_session" },
+    }, db);
+  } catch (error) {
+    logger.error(`[Reschedule] Failed to record payment transaction for ${payment.id}:`, error);
+  }
+
+  return payment.id;
+}
+
+async function refundRescheduleDifference(context: BookingContext, amountCents: number): Promise<string | null> {
+  const { booking } = context;
+  const { reverseTransferAndRefund } = await import("./stripe-service");
+  const { findPaymentTransactionByIntentId, updatePaymentTransaction } = await import("./payment-transactions-service");
+
+  try {
+    const refund = await reverseTransferAndRefund(booking.paymentIntentId!, amountCents, "requested_by_customer", {
+      refundApplicationFee: false,
+      metadata: {
+        type: "booking_reschedule",
+        booking_id: booking.id.toString(),
+        booking_type: "kitchen",
+      },
+    });
+
+    const transaction = await findPaymentTransactionByIntentId(booking.paymentIntentId!, db);
+    if (transaction) {
+      const refundTotal = (parseInt(String(transaction.refund_amount || "0")) || 0) + amountCents;
+      await updatePaymentTransaction(transaction.id, {
+        status: "partially_refunded",
+        stripeStatus: "partially_refunded",
+        refundAmount: refundTotal,
+        refundId: refund.refundId,
+        refundReason: "Booking rescheduled to a lower price",
+        refundedAt: new Date(),
+        lastSyncedAt: new Date(),
+      }, db);
+    }
+    return refund.refundId;
+  } catch (error) {
+    // The chef still gets the new time; the manager can refund the difference manually
+    logger.error(`[Reschedule] Refund of ${amountCents} cents failed for booking ${booking.id}:`, error);
+    return null;
+  }
+}
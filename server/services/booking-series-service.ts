@@ -0,0 +1,989 @@
+import { logger } from "../logger";
+/**
+ * Booking Series Service — Recurring Kitchen Bookings
+ *
+ * A series is an RRULE-style recurrence (weekly or biweekly on one or more
+ * weekdays, bounded by an occurrence count or an until-date). Every occurrence
+ * is materialised as a normal kitchen_bookings row linked via series_id, so
+ * check-in, access codes, invoices and manager views keep working unchanged.
+ *
+ * PAYMENT MODEL:
+ *   - One consolidated Stripe Checkout session authorizes the whole series
+ *     (capture_method: manual, same as single bookings).
+ *   - The manager approves/rejects the series as a whole (optionally rejecting
+ *     individual dates). Approval performs ONE partial capture for the approved
+ *     occurrences; Stripe releases the rest of the hold automatically.
+ *   - Once captured, cancelling an occurrence follows the single-booking rules
+ *     (chef → cancellation request, manager refunds via Revenue Dashboard).
+ */
+
+import { db } from "../db";
+import {
+  kitchenBookings,
+  kitchenBookingSeries,
+  kitchens,
+  locations,
+  users,
+  type KitchenBookingSeries,
+} from "@shared/schema";
+import { eq, asc } from "drizzle-orm";
+import { bookingService } from "../domains/bookings/booking.service";
+import { generateReferenceCode } from "../reference-code";
+import { assignKitchenStations } from "./kitchen-station-service";
+import {
+  calculateDurationHours,
+  calculateKitchenBookingPrice,
+  type KitchenPriceLineItem,
+  type KitchenRateTier,
+} from "./pricing-service";
+import { DEFAULT_TIMEZONE } from "@shared/timezone-utils";
+import { normalizeCurrency } from "@shared/currency-utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// "daily" = consecutive days, i.e. a multi-day booking priced as one stay
+export type SeriesFrequency = "weekly" | "biweekly" | "daily";
+export type SeriesScope = "this" | "this_and_following";
+
+export interface SeriesRecurrenceRule {
+  frequency: SeriesFrequency;
+  daysOfWeek: number[]; // 0-6, Sunday is 0 (may be empty for "daily")
+  startDate: string; // YYYY-MM-DD
+  occurrenceCount?: number;
+  untilDate?: string; // YYYY-MM-DD, inclusive
+  excludedDates?: string[]; // YYYY-MM-DD
+}
+
+export interface SeriesOccurrenceCheck {
+  date: string; // YYYY-MM-DD
+  available: boolean;
+  error?: string;
+}
+
+export interface SeriesQuote {
+  occurrences: SeriesOccurrenceCheck[];
+  bookableDates: string[];
+  hourlyRateCents: number;
+  durationHours: number;
+  perOccurrencePriceCents: number;
+  rateTier: KitchenRateTier;
+  occurrenceLineItems: KitchenPriceLineItem[]; // Stored on each occurrence's pricing_breakdown
+  subtotalCents: number;
+  taxRatePercent: number;
+  taxCents: number;
+  totalCents: number;
+  currency: string;
+  timezone: string;
+}
+
+export interface SeriesOccurrenceChangeResult {
+  success: boolean;
+  error?: string;
+  affectedBookingIds: number[];
+  cancellationRequestedIds?: number[];
+  authorizationReleased?: boolean;
+  conflicts?: SeriesOccurrenceCheck[];
+}
+
+export interface SeriesDecisionResult {
+  success: boolean;
+  error?: string;
+  approvedBookingIds: number[];
+  rejectedBookingIds: number[];
+  capturedAmountCents?: number;
+}
+
+type SlotRange = { startTime: string; endTime: string };
+
+export const MAX_SERIES_OCCURRENCES = 52;
+// Hard horizon for until-date rules so a typo can't expand years of bookings
+const MAX_SERIES_HORIZON_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// RECURRENCE EXPANSION (pure)
+// ============================================================================
+
+function parseDateOnly(dateStr: string): number {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDateOnly(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+/**
+ * Validate a recurrence rule. Returns an error message, or null when valid.
+ */
+export function validateRecurrenceRule(rule: SeriesRecurrenceRule): string | null {
+  if (rule.frequency !== "weekly" && rule.frequency !== "biweekly" && rule.frequency !== "daily") {
+    return "Frequency must be 'weekly', 'biweekly' or 'daily'";
+  }
+  if (!Array.isArray(rule.daysOfWeek) || (rule.daysOfWeek.length === 0 && rule.frequency !== "daily")) {
+    return "Select at least one day of the week";
+  }
+  if (rule.daysOfWeek.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return "Days of week must be integers between 0 (Sunday) and 6 (Saturday)";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(rule.startDate || "")) {
+    return "Start date must be in YYYY-MM-DD format";
+  }
+  const hasCount = rule.occurrenceCount !== undefined && rule.occurrenceCount !== null;
+  const hasUntil = !!rule.untilDate;
+  if (hasCount === hasUntil) {
+    return "Provide either an occurrence count or an until-date (not both)";
+  }
+  if (hasCount && (!Number.isInteger(rule.occurrenceCount) || rule.occurrenceCount! < 2 || rule.occurrenceCount! > MAX_SERIES_OCCURRENCES)) {
+    return `Occurrence count must be between 2 and ${MAX_SERIES_OCCURRENCES}`;
+  }
+  if (hasUntil) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rule.untilDate!)) {
+      return "Until-date must be in YYYY-MM-DD format";
+    }
+    const span = (parseDateOnly(rule.untilDate!) - parseDateOnly(rule.startDate)) / DAY_MS;
+    if (span < 0) return "Until-date must be on or after the start date";
+    if (span > MAX_SERIES_HORIZON_DAYS) return "A series cannot span more than one year";
+  }
+  return null;
+}
+
+/**
+ * Expand a recurrence rule into concrete YYYY-MM-DD dates.
+ *
+ * Follows RRULE semantics: the count is applied first, excluded dates (EXDATE)
+ * are removed afterwards. Biweekly weeks are anchored on the week (Sunday-based)
+ * that contains the start date.
+ */
+export function expandSeriesOccurrences(rule: SeriesRecurrenceRule): string[] {
+  const startMs = parseDateOnly(rule.startDate);
+  const untilMs = rule.untilDate
+    ? parseDateOnly(rule.untilDate)
+    : startMs + MAX_SERIES_HORIZON_DAYS * DAY_MS;
+  const limit = Math.min(rule.occurrenceCount ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const days = new Set(
+    rule.frequency === "daily" && rule.daysOfWeek.length === 0 ? [0, 1, 2, 3, 4, 5, 6] : rule.daysOfWeek,
+  );
+  const anchorWeekStart = startMs - new Date(startMs).getUTCDay() * DAY_MS;
+
+  const dates: string[] = [];
+  for (let ms = startMs; ms <= untilMs && dates.length < limit; ms += DAY_MS) {
+    const dayOfWeek = new Date(ms).getUTCDay();
+    if (!days.has(dayOfWeek)) continue;
+    if (rule.frequency === "biweekly") {
+      const weekIndex = Math.floor((ms - anchorWeekStart) / (7 * DAY_MS));
+      if (weekIndex % 2 !== 0) continue;
+    }
+    dates.push(formatDateOnly(ms));
+  }
+
+  const excluded = new Set(rule.excludedDates || []);
+  return dates.filter((d) => !excluded.has(d));
+}
+
+/**
+ * Booking dates are stored at UTC noon (matches the chef booking sheet) so the
+ * calendar date never shifts across timezones.
+ */
+export function seriesDateToBookingDate(dateStr: string): Date {
+  return new Date(parseDateOnly(dateStr) + 12 * 60 * 60 * 1000);
+}
+
+function buildContiguousSlots(startTime: string, endTime: string): SlotRange[] {
+  const toMinutes = (t: string) => {
+    const [h, m] = t.split(":").map(Number);
+    return h * 60 + m;
+  };
+  const toTime = (mins: number) =>
+    `${Math.floor(mins / 60).toString().padStart(2, "0")}:${(mins % 60).toString().padStart(2, "0")}`;
+  const slots: SlotRange[] = [];
+  for (let mins = toMinutes(startTime); mins < toMinutes(endTime); mins += 60) {
+    slots.push({ startTime: toTime(mins), endTime: toTime(mins + 60) });
+  }
+  return slots;
+}
+
+// ============================================================================
+// AVAILABILITY + PRICING
+// ============================================================================
+
+/**
+ * Check every occurrence independently: manager availability (weekly schedule
+ * and date overrides via validateBookingAvailability), booking window, and
+ * conflicts with existing bookings.
+ */
+export async function checkSeriesAvailability(params: {
+  kitchenId: number;
+  dates: string[];
+  startTime: string;
+  endTime: string;
+  timezone?: string;
+  minimumBookingWindowHours?: number;
+  excludeBookingIds?: Map<string, number>; // date → booking being moved (ignored in conflict check)
+}): Promise<SeriesOccurrenceCheck[]> {
+  const { kitchenId, dates, startTime, endTime } = params;
+  const timezone = params.timezone || DEFAULT_TIMEZONE;
+  const minimumWindow = params.minimumBookingWindowHours ?? 0;
+  const { isBookingTimePast, getHoursUntilBooking } = await import("../date-utils");
+
+  const results: SeriesOccurrenceCheck[] = [];
+  for (const date of dates) {
+    if (isBookingTimePast(date, startTime, timezone)) {
+      results.push({ date, available: false, error: "This date has already passed" });
+      continue;
+    }
+    if (minimumWindow > 0 && getHoursUntilBooking(date, startTime, timezone) < minimumWindow) {
+      results.push({
+        date,
+        available: false,
+        error: `Bookings must be made at least ${minimumWindow} hour${minimumWindow !== 1 ? "s" : ""} in advance`,
+      });
+      continue;
+    }
+
+    const bookingDate = seriesDateToBookingDate(date);
+    const availability = await bookingService.validateBookingAvailability(kitchenId, bookingDate, startTime, endTime);
+    if (!availability.valid) {
+      results.push({ date, available: false, error: availability.error });
+      continue;
+    }
+
+    const stations = await assignKitchenStations({
+      kitchenId,
+      bookingDate,
+      startTime,
+      endTime,
+      count: 1,
+      excludeBookingId: params.excludeBookingIds?.get(date),
+    });
+    if (!stations.success) {
+      results.push({ date, available: false, error: stations.error });
+      continue;
+    }
+
+    results.push({ date, available: true });
+  }
+  return results;
+}
+
+/**
+ * Price and availability preview for a series. Every occurrence uses the same
+ * slots, so the kitchen subtotal is per-occurrence price × bookable occurrences.
+ *
+ * Weekly/biweekly occurrences are priced as separate days (daily cap applies to
+ * each). A "daily" series is one multi-day stay, so daily/weekly rates apply
+ * across the whole stay and the total is shared evenly between the days.
+ */
+export async function quoteSeries(params: {
+  kitchenId: number;
+  rule: SeriesRecurrenceRule;
+  startTime: string;
+  endTime: string;
+  selectedSlots?: SlotRange[];
+}): Promise<SeriesQuote> {
+  const { kitchenId, rule, startTime, endTime, selectedSlots } = params;
+
+  const kitchen = await db
+    .select({
+      taxRatePercent: kitchens.taxRatePercent,
+      timezone: locations.timezone,
+      minimumBookingWindowHours: locations.minimumBookingWindowHours,
+    })
+    .from(kitchens)
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchens.id, kitchenId))
+    .limit(1);
+  if (kitchen.length === 0) {
+    throw new Error("Kitchen not found");
+  }
+  const { taxRatePercent: taxRateRaw, timezone, minimumBookingWindowHours } = kitchen[0];
+
+  const dates = expandSeriesOccurrences(rule);
+  const occurrences = await checkSeriesAvailability({
+    kitchenId,
+    dates,
+    startTime,
+    endTime,
+    timezone: timezone || DEFAULT_TIMEZONE,
+    minimumBookingWindowHours: minimumBookingWindowHours ?? 1,
+  });
+  const bookableDates = occurrences.filter((o) => o.available).map((o) => o.date);
+
+  // Same pricing rules as single checkout: staggered slots are priced per slot
+  const slotCount = selectedSlots && selectedSlots.length > 0 ? selectedSlots.length : undefined;
+  const isStay = rule.frequency === "daily";
+  const pricedDates = bookableDates.length > 0 ? bookableDates : [rule.startDate];
+  const dayCount = pricedDates.length;
+  let pricing: Awaited<ReturnType<typeof calculateKitchenBookingPrice>>;
+  let perOccurrencePriceCents: number;
+  let occurrenceLineItems: KitchenPriceLineItem[];
+  if (isStay) {
+    // One stay across every day, so daily/weekly caps apply to the whole run
+    pricing = await calculateKitchenBookingPrice(kitchenId, startTime, endTime, {
+      slotCount,
+      selectedSlots,
+      bookingDates: pricedDates,
+    });
+    perOccurrencePriceCents = Math.round(pricing.totalPriceCents / dayCount);
+    const stayLabel = pricing.lineItems.map((item) => item.description).join(" + ");
+    occurrenceLineItems = perOccurrencePriceCents > 0
+      ? [{
+          tier: pricing.rateTier,
+          description: `${dayCount}-day stay: ${stayLabel} (1 of ${dayCount} days)`,
+          quantity: 1,
+          unitRateCents: perOccurrencePriceCents,
+          amountCents: perOccurrencePriceCents,
+        }]
+      : [];
+  } else {
+    // Each session is priced on its own date so peak/off-peak rule date ranges are honoured
+    const datePrices: Array<Awaited<ReturnType<typeof calculateKitchenBookingPrice>>> = [];
+    for (const date of pricedDates) {
+      datePrices.push(await calculateKitchenBookingPrice(kitchenId, startTime, endTime, {
+        slotCount,
+        selectedSlots,
+        bookingDates: [date],
+      }));
+    }
+    pricing = datePrices[0];
+    perOccurrencePriceCents = pricing.totalPriceCents;
+    occurrenceLineItems = pricing.lineItems;
+    const uniform = datePrices.every((p) => p.totalPriceCents === pricing.totalPriceCents);
+    if (!uniform) {
+      // Sessions share one per-occurrence price, so spread the exact total evenly
+      const seriesTotal = datePrices.reduce((sum, p) => sum + p.totalPriceCents, 0);
+      perOccurrencePriceCents = Math.round(seriesTotal / dayCount);
+      occurrenceLineItems = [{
+        tier: pricing.rateTier,
+        description: `Average session price across ${dayCount} sessions (peak/off-peak rates vary by date)`,
+        quantity: 1,
+        unitRateCents: perOccurrencePriceCents,
+        amountCents: perOccurrencePriceCents,
+      }];
+    }
+  }
+  const durationHours = pricing.durationHours;
+
+  const subtotalCents = perOccurrencePriceCents * bookableDates.length;
+  const taxRatePercent = taxRateRaw ? parseFloat(String(taxRateRaw)) : 0;
+  const taxCents = Math.round((subtotalCents * taxRatePercent) / 100);
+
+  return {
+    occurrences,
+    bookableDates,
+    hourlyRateCents: pricing.hourlyRateCents,
+    durationHours,
+    perOccurrencePriceCents,
+    rateTier: pricing.rateTier,
+    occurrenceLineItems,
+    subtotalCents,
+    taxRatePercent,
+    taxCents,
+    totalCents: subtotalCents + taxCents,
+    currency: pricing.currency,
+    timezone: timezone || DEFAULT_TIMEZONE,
+  };
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+export async function getSeriesById(seriesId: number): Promise<KitchenBookingSeries | null> {
+  const [series] = await db
+    .select()
+    .from(kitchenBookingSeries)
+    .where(eq(kitchenBookingSeries.id, seriesId))
+    .limit(1);
+  return series || null;
+}
+
+export async function getSeriesOccurrences(seriesId: number) {
+  return db
+    .select()
+    .from(kitchenBookings)
+    .where(eq(kitchenBookings.seriesId, seriesId))
+    .orderBy(asc(kitchenBookings.seriesOccurrenceIndex), asc(kitchenBookings.bookingDate));
+}
+
+export async function getSeriesWithOccurrences(seriesId: number) {
+  const series = await getSeriesById(seriesId);
+  if (!series) return null;
+  const occurrences = await getSeriesOccurrences(seriesId);
+  return { ...series, occurrences };
+}
+
+/**
+ * Resolve the manager that owns the kitchen of a series (for access checks).
+ */
+export async function getSeriesManagerId(seriesId: number): Promise<number | null> {
+  const [row] = await db
+    .select({ managerId: locations.managerId })
+    .from(kitchenBookingSeries)
+    .innerJoin(kitchens, eq(kitchenBookingSeries.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchenBookingSeries.id, seriesId))
+    .limit(1);
+  return row?.managerId ?? null;
+}
+
+// ============================================================================
+// CREATION (webhook)
+// ============================================================================
+
+/**
+ * Create the series row and all occurrence bookings after the consolidated
+ * checkout completes. Idempotent on the PaymentIntent ID.
+ *
+ * Occurrences that became unavailable between checkout and webhook are skipped
+ * — they are simply excluded from the later partial capture.
+ */
+export async function createSeriesFromCheckout(params: {
+  metadata: Record<string, string>;
+  paymentIntentId?: string;
+  paymentStatus: "authorized" | "paid";
+  stripeCustomerId?: string;
+  stripePaymentMethodId?: string;
+  currency?: string;
+}): Promise<{ series: KitchenBookingSeries; bookings: Array<typeof kitchenBookings.$inferSelect>; skippedDates: string[] } | null> {
+  const { metadata, paymentIntentId, paymentStatus } = params;
+  const currency = normalizeCurrency(params.currency);
+
+  if (paymentIntentId) {
+    const [existing] = await db
+      .select({ id: kitchenBookingSeries.id })
+      .from(kitchenBookingSeries)
+      .where(eq(kitchenBookingSeries.paymentIntentId, paymentIntentId))
+      .limit(1);
+    if (existing) {
+      logger.info(`[BookingSeries] Series ${existing.id} already exists for payment intent ${paymentIntentId}, skipping duplicate creation`);
+      return null;
+    }
+  }
+
+  const rule: SeriesRecurrenceRule = JSON.parse(metadata.series_rule);
+  const kitchenId = parseInt(metadata.kitchen_id);
+  const chefId = parseInt(metadata.chef_id);
+  const startTime = metadata.start_time;
+  const endTime = metadata.end_time;
+  const selectedSlots: SlotRange[] = metadata.selected_slots
+    ? JSON.parse(metadata.selected_slots)
+    : buildContiguousSlots(startTime, endTime);
+  const perOccurrencePriceCents = parseInt(metadata.per_occurrence_price_cents);
+  const hourlyRateCents = parseInt(metadata.hourly_rate_cents || "0");
+  const durationHours = parseFloat(metadata.duration_hours || "1");
+  const platformFeeCents = parseInt(metadata.platform_fee_cents || "0");
+  const occurrenceCount = parseInt(metadata.occurrence_count || "0");
+  const specialNotes = metadata.special_notes || null;
+  const pricingBreakdown = metadata.pricing_breakdown ? JSON.parse(metadata.pricing_breakdown) : null;
+
+  const dates = expandSeriesOccurrences(rule);
+  const seriesRefCode = await generateReferenceCode("kitchen_booking_series");
+
+  const [series] = await db
+    .insert(kitchenBookingSeries)
+    .values({
+      referenceCode: seriesRefCode,
+      chefId,
+      kitchenId,
+      frequency: rule.frequency,
+      daysOfWeek: rule.daysOfWeek,
+      startDate: seriesDateToBookingDate(rule.startDate),
+      untilDate: rule.untilDate ? seriesDateToBookingDate(rule.untilDate) : null,
+      occurrenceCount: rule.occurrenceCount ?? null,
+      excludedDates: rule.excludedDates || [],
+      startTime,
+      endTime,
+      selectedSlots,
+      status: "active",
+      paymentIntentId: paymentIntentId || null,
+      perOccurrencePriceCents: perOccurrencePriceCents.toString(),
+      currency,
+      specialNotes,
+    })
+    .returning();
+
+  const bookings: Array<typeof kitchenBookings.$inferSelect> = [];
+  const skippedDates: string[] = [];
+  // Service fee is split evenly for reporting; the PT row holds the authoritative total
+  const serviceFeePerOccurrence = occurrenceCount > 0 ? Math.round(platformFeeCents / occurrenceCount) : 0;
+
+  for (let index = 0; index < dates.length; index++) {
+    const date = dates[index];
+    const bookingDate = seriesDateToBookingDate(date);
+
+    const stations = await assignKitchenStations({ kitchenId, bookingDate, startTime, endTime, count: 1 });
+    if (!stations.success) {
+      skippedDates.push(date);
+      logger.warn(`[BookingSeries] Skipping ${date} for series ${series.id} — slot was taken after checkout`);
+      continue;
+    }
+
+    const kbRefCode = await generateReferenceCode("kitchen_booking");
+    const [booking] = await db
+      .insert(kitchenBookings)
+      .values({
+        referenceCode: kbRefCode,
+        kitchenId,
+        chefId,
+        bookingDate,
+        startTime,
+        endTime,
+        selectedSlots,
+        stationIds: stations.stationIds,
+        status: "pending",
+        paymentStatus,
+        paymentIntentId: paymentIntentId || null,
+        specialNotes,
+        totalPrice: perOccurrencePriceCents.toString(),
+        hourlyRate: hourlyRateCents.toString(),
+        durationHours: durationHours.toString(),
+        pricingBreakdown,
+        serviceFee: serviceFeePerOccurrence.toString(),
+        currency,
+        storageItems: [],
+        equipmentItems: [],
+        stripeCustomerId: params.stripeCustomerId || null,
+        stripePaymentMethodId: params.stripePaymentMethodId || null,
+        seriesId: series.id,
+        seriesOccurrenceIndex: index,
+      })
+      .returning();
+    bookings.push(booking);
+  }
+
+  logger.info(`[BookingSeries] Created series ${series.id} with ${bookings.length} occurrence(s)`, {
+    paymentIntentId,
+    skippedDates,
+  });
+
+  return { series, bookings, skippedDates };
+}
+
+// ============================================================================
+// PER-OCCURRENCE MANAGEMENT
+// ============================================================================
+
+function selectTargets<T extends { id: number; seriesOccurrenceIndex: number | null; bookingDate: Date }>(
+  occurrences: T[],
+  fromBookingId: number,
+  scope: SeriesScope,
+): T[] | null {
+  const anchor = occurrences.find((o) => o.id === fromBookingId);
+  if (!anchor) return null;
+  if (scope === "this") return [anchor];
+  const anchorTime = anchor.bookingDate.getTime();
+  return occurrences.filter((o) => o.bookingDate.getTime() >= anchorTime);
+}
+
+async function releaseAuthorizationIfUnused(series: KitchenBookingSeries): Promise<boolean> {
+  if (!series.paymentIntentId) return false;
+
+  const occurrences = await getSeriesOccurrences(series.id);
+  const stillHeld = occurrences.some((o) => o.status !== "cancelled" && o.paymentStatus === "authorized");
+  const anyCaptured = occurrences.some((o) => o.paymentStatus === "paid" || o.paymentStatus === "partially_refunded");
+  if (stillHeld || anyCaptured) return false;
+
+  try {
+    const { cancelPaymentIntent } = await import("./stripe-service");
+    await cancelPaymentIntent(series.paymentIntentId);
+
+    const { findPaymentTransactionByIntentId, updatePaymentTransaction } =
+      await import("./payment-transactions-service");
+    const pt = await findPaymentTransactionByIntentId(series.paymentIntentId, db);
+    if (pt) {
+      await updatePaymentTransaction(pt.id, { status: "canceled", stripeStatus: "canceled" }, db);
+    }
+    logger.info(`[BookingSeries] Released authorization ${series.paymentIntentId} — no occurrences left in series ${series.id}`);
+    return true;
+  } catch (error) {
+    logger.error(`[BookingSeries] Failed to release authorization for series ${series.id}:`, error);
+    return false;
+  }
+}
+
+async function refreshSeriesStatus(seriesId: number): Promise<void> {
+  const occurrences = await getSeriesOccurrences(seriesId);
+  const allCancelled = occurrences.length > 0 && occurrences.every((o) => o.status === "cancelled");
+  const allDone = occurrences.length > 0 && occurrences.every((o) => o.status === "cancelled" || o.status === "completed");
+  const status = allCancelled ? "cancelled" : allDone ? "completed" : "active";
+  await db
+    .update(kitchenBookingSeries)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(kitchenBookingSeries.id, seriesId));
+}
+
+/**
+ * Cancel one occurrence, or an occurrence and every later one.
+ *
+ * - Pending/authorized occurrences are cancelled immediately. Their share of the
+ *   hold is released at capture time (or the whole hold when nothing is left).
+ * - Confirmed/paid occurrences: a chef files a cancellation request (manager
+ *   decides on the refund); a manager cancels directly and refunds from the
+ *   Revenue Dashboard, same as single bookings.
+ */
+export async function cancelSeriesOccurrences(params: {
+  seriesId: number;
+  fromBookingId: number;
+  scope: SeriesScope;
+  cancelledBy: "chef" | "manager";
+  reason?: string;
+}): Promise<SeriesOccurrenceChangeResult> {
+  const { seriesId, fromBookingId, scope, cancelledBy, reason } = params;
+  const series = await getSeriesById(seriesId);
+  if (!series) {
+    return { success: false, error: "Booking series not found", affectedBookingIds: [] };
+  }
+
+  const occurrences = await getSeriesOccurrences(seriesId);
+  const selected = selectTargets(occurrences, fromBookingId, scope);
+  if (!selected) {
+    return { success: false, error: "Booking is not part of this series", affectedBookingIds: [] };
+  }
+  const targets = selected.filter((o) => o.status !== "cancelled" && o.status !== "completed");
+  if (targets.length === 0) {
+    return { success: false, error: "No upcoming occurrences to cancel", affectedBookingIds: [] };
+  }
+
+  // Chefs are bound by the location cancellation policy for every targeted date
+  if (cancelledBy === "chef") {
+    const [location] = await db
+      .select({
+        cancellationPolicyHours: locations.cancellationPolicyHours,
+        cancellationPolicyMessage: locations.cancellationPolicyMessage,
+        timezone: locations.timezone,
+      })
+      .from(kitchens)
+      .innerJoin(locations, eq(kitchens.locationId, locations.id))
+      .where(eq(kitchens.id, series.kitchenId))
+      .limit(1);
+    const { getHoursUntilBooking } = await import("../date-utils");
+    const cancellationHours = location?.cancellationPolicyHours || 24;
+    const tooLate = targets.find((o) =>
+      getHoursUntilBooking(o.bookingDate.toISOString().split("T")[0], o.startTime, location?.timezone || DEFAULT_TIMEZONE) < cancellationHours,
+    );
+    if (tooLate) {
+      const policyMessage = (location?.cancellationPolicyMessage || "Bookings cannot be cancelled within {hours} hours of the scheduled time.")
+        .replace("{hours}", String(cancellationHours));
+      return { success: false, error: policyMessage, affectedBookingIds: [] };
+    }
+  }
+
+  const { removeAccessCodeFromLock } = await import("./kitchen-checkout-service");
+  const cancelledIds: number[] = [];
+  const requestedIds: number[] = [];
+
+  for (const occurrence of targets) {
+    const isCaptured = occurrence.paymentStatus === "paid" || occurrence.paymentStatus === "partially_refunded";
+
+    if (isCaptured && occurrence.status === "confirmed" && cancelledBy === "chef") {
+      await db
+        .update(kitchenBookings)
+        .set({
+          status: "cancellation_requested",
+          cancellationRequestedAt: new Date(),
+          cancellationRequestReason: reason || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(kitchenBookings.id, occurrence.id));
+      requestedIds.push(occurrence.id);
+      continue;
+    }
+
+    await db
+      .update(kitchenBookings)
+      .set({
+        status: "cancelled",
+        // Held (uncaptured) occurrences will never be captured — mark their share as released
+        ...(occurrence.paymentStatus === "authorized" ? { paymentStatus: "failed" as const } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(kitchenBookings.id, occurrence.id));
+    await removeAccessCodeFromLock(occurrence.id, occurrence.kitchenId);
+    cancelledIds.push(occurrence.id);
+  }
+
+  const authorizationReleased = await releaseAuthorizationIfUnused(series);
+  await refreshSeriesStatus(seriesId);
+
+  logger.info(`[BookingSeries] ${cancelledBy} cancelled ${cancelledIds.length} occurrence(s) of series ${seriesId} (scope=${scope})`, {
+    cancelledIds,
+    requestedIds,
+    authorizationReleased,
+  });
+
+  return {
+    success: true,
+    affectedBookingIds: cancelledIds,
+    cancellationRequestedIds: requestedIds,
+    authorizationReleased,
+  };
+}
+
+/**
+ * Move one occurrence, or an occurrence and every later one, to a new time on
+ * the same date. The session length must stay the same so the amount already
+ * authorized/captured remains correct. All-or-nothing: if any target date is
+ * unavailable, nothing is changed and the conflicts are returned.
+ */
+export async function modifySeriesOccurrences(params: {
+  seriesId: number;
+  fromBookingId: number;
+  scope: SeriesScope;
+  startTime: string;
+  endTime: string;
+}): Promise<SeriesOccurrenceChangeResult> {
+  const { seriesId, fromBookingId, scope, startTime, endTime } = params;
+  const series = await getSeriesById(seriesId);
+  if (!series) {
+    return { success: false, error: "Booking series not found", affectedBookingIds: [] };
+  }
+
+  const occurrences = await getSeriesOccurrences(seriesId);
+  const selected = selectTargets(occurrences, fromBookingId, scope);
+  if (!selected) {
+    return { success: false, error: "Booking is not part of this series", affectedBookingIds: [] };
+  }
+  const targets = selected.filter((o) => o.status === "pending" || o.status === "confirmed");
+  if (targets.length === 0) {
+    return { success: false, error: "No upcoming occurrences to modify", affectedBookingIds: [] };
+  }
+
+  const newDuration = calculateDurationHours(startTime, endTime);
+  const mismatched = targets.find((o) => calculateDurationHours(o.startTime, o.endTime) !== newDuration);
+  if (mismatched) {
+    return {
+      success: false,
+      error: "Changing the session length is not supported for recurring bookings. Cancel the occurrence and book a new session instead.",
+      affectedBookingIds: [],
+    };
+  }
+
+  const [location] = await db
+    .select({ timezone: locations.timezone, minimumBookingWindowHours: locations.minimumBookingWindowHours })
+    .from(kitchens)
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchens.id, series.kitchenId))
+    .limit(1);
+
+  const dateToBooking = new Map<string, number>();
+  for (const o of targets) {
+    dateToBooking.set(o.bookingDate.toISOString().split("T")[0], o.id);
+  }
+  const checks = await checkSeriesAvailability({
+    kitchenId: series.kitchenId,
+    dates: Array.from(dateToBooking.keys()),
+    startTime,
+    endTime,
+    timezone: location?.timezone || DEFAULT_TIMEZONE,
+    minimumBookingWindowHours: location?.minimumBookingWindowHours ?? 1,
+    excludeBookingIds: dateToBooking,
+  });
+  const conflicts = checks.filter((c) => !c.available);
+  if (conflicts.length > 0) {
+    return {
+      success: false,
+      error: `${conflicts.length} occurrence(s) cannot be moved to the new time`,
+      affectedBookingIds: [],
+      conflicts,
+    };
+  }
+
+  const slots = buildContiguousSlots(startTime, endTime);
+  for (const o of targets) {
+    await db
+      .update(kitchenBookings)
+      .set({ startTime, endTime, selectedSlots: slots, updatedAt: new Date() })
+      .where(eq(kitchenBookings.id, o.id));
+  }
+
+  if (scope === "this_and_following") {
+    await db
+      .update(kitchenBookingSeries)
+      .set({ startTime, endTime, selectedSlots: slots, updatedAt: new Date() })
+      .where(eq(kitchenBookingSeries.id, seriesId));
+  }
+
+  logger.info(`[BookingSeries] Moved ${targets.length} occurrence(s) of series ${seriesId} to ${startTime}-${endTime} (scope=${scope})`);
+  return { success: true, affectedBookingIds: targets.map((o) => o.id) };
+}
+
+// ============================================================================
+// MANAGER DECISION (consolidated capture)
+// ============================================================================
+
+/**
+ * Approve or reject a pending series. A single PaymentIntent covers every
+ * occurrence, so approval must capture once: we capture the approved
+ * occurrences' subtotal + proportional tax and Stripe releases the remainder.
+ */
+export async function processSeriesManagerDecision(params: {
+  seriesId: number;
+  status: "confirmed" | "cancelled";
+  rejectedBookingIds?: number[];
+}): Promise<SeriesDecisionResult> {
+  const { seriesId, status } = params;
+  const rejectedSet = new Set(params.rejectedBookingIds || []);
+  const series = await getSeriesById(seriesId);
+  if (!series) {
+    return { success: false, error: "Booking series not found", approvedBookingIds: [], rejectedBookingIds: [] };
+  }
+
+  const occurrences = await getSeriesOccurrences(seriesId);
+  const pending = occurrences.filter((o) => o.status === "pending");
+  if (pending.length === 0) {
+    return { success: false, error: "This series has no occurrences awaiting approval", approvedBookingIds: [], rejectedBookingIds: [] };
+  }
+
+  const approved = status === "confirmed" ? pending.filter((o) => !rejectedSet.has(o.id)) : [];
+  const rejected = pending.filter((o) => !approved.includes(o));
+
+  const [kitchen] = await db
+    .select({ taxRatePercent: kitchens.taxRatePercent })
+    .from(kitchens)
+    .where(eq(kitchens.id, series.kitchenId))
+    .limit(1);
+  const taxRatePercent = kitchen?.taxRatePercent ? parseFloat(String(kitchen.taxRatePercent)) : 0;
+
+  const paymentIntentId = series.paymentIntentId;
+  const isAuthorized = !!paymentIntentId && pending.some((o) => o.paymentStatus === "authorized");
+  let capturedAmountCents: number | undefined;
+
+  if (isAuthorized && approved.length > 0) {
+    const { capturePaymentIntent } = await import("./stripe-service");
+    const { calculateCheckoutFeesAsync } = await import("./stripe-checkout-fee-service");
+    const { findPaymentTransactionByIntentId, updatePaymentTransaction } =
+      await import("./payment-transactions-service");
+
+    const approvedSubtotalCents = approved.reduce(
+      (sum, o) => sum + Math.round(parseFloat(String(o.totalPrice || "0"))),
+      0,
+    );
+    const approvedTaxCents = Math.round((approvedSubtotalCents * taxRatePercent) / 100);
+    const captureAmountCents = approvedSubtotalCents + approvedTaxCents;
+    const feeCalc = await calculateCheckoutFeesAsync(captureAmountCents);
+
+    const pt = await findPaymentTransactionByIntentId(paymentIntentId!, db);
+    const existingMeta = pt?.metadata
+      ? (typeof pt.metadata === "string" ? JSON.parse(pt.metadata) : pt.metadata)
+      : {};
+    const originalAuthorizedAmount = pt ? Math.round(parseFloat(pt.amount)) : captureAmountCents;
+    const isPartialCapture = captureAmountCents < originalAuthorizedAmount;
+
+    // Pre-set metadata BEFORE capture so the payment_intent.succeeded webhook
+    // does not overwrite per-occurrence totals (see syncStripeAmountsToBookings)
+    if (pt) {
+      await updatePaymentTransaction(pt.id, {
+        metadata: { ...existingMeta, partialCapture: isPartialCapture, series_id: String(seriesId) },
+      }, db);
+    }
+
+    const captureResult = isPartialCapture
+      ? await capturePaymentIntent(paymentIntentId!, captureAmountCents, feeCalc.totalPlatformFeeInCents)
+      : await capturePaymentIntent(paymentIntentId!);
+    capturedAmountCents = isPartialCapture ? captureAmountCents : captureResult.amount;
+
+    for (const o of approved) {
+      await db
+        .update(kitchenBookings)
+        .set({ status: "confirmed", paymentStatus: "paid", updatedAt: new Date() })
+        .where(eq(kitchenBookings.id, o.id));
+    }
+
+    if (pt) {
+      await updatePaymentTransaction(pt.id, {
+        status: "succeeded",
+        stripeStatus: "succeeded",
+        paidAt: new Date(),
+        amount: captureAmountCents,
+        serviceFee: feeCalc.totalPlatformFeeInCents,
+        managerRevenue: captureAmountCents - feeCalc.totalPlatformFeeInCents,
+        metadata: {
+          ...existingMeta,
+          series_id: String(seriesId),
+          partialCapture: isPartialCapture,
+          capturedAmount: captureAmountCents,
+          originalAuthorizedAmount,
+          approvedSubtotal: approvedSubtotalCents,
+          approvedTax: approvedTaxCents,
+          taxRatePercent,
+          approvedBookingIds: approved.map((o) => o.id),
+          rejectedBookingIds: rejected.map((o) => o.id),
+          capturedAt: new Date().toISOString(),
+        },
+      }, db);
+    }
+
+    logger.info(`[BookingSeries] ${isPartialCapture ? "Partial" : "Full"} capture for series ${seriesId}`, {
+      paymentIntentId,
+      captureAmountCents,
+      originalAuthorizedAmount,
+      approved: approved.length,
+      rejected: rejected.length,
+    });
+  } else if (approved.length > 0) {
+    // Already captured (auto-capture) — confirm without touching Stripe
+    for (const o of approved) {
+      await db
+        .update(kitchenBookings)
+        .set({ status: "confirmed", updatedAt: new Date() })
+        .where(eq(kitchenBookings.id, o.id));
+    }
+  }
+
+  // Each approved occurrence holds its own rental equipment deposit
+  const { placeDepositsForConfirmedBookings } = await import("./security-deposit-service");
+  await placeDepositsForConfirmedBookings(approved.map((o) => o.id));
+
+  const { removeAccessCodeFromLock } = await import("./kitchen-checkout-service");
+  for (const o of rejected) {
+    await db
+      .update(kitchenBookings)
+      .set({
+        status: "cancelled",
+        ...(o.paymentStatus === "authorized" ? { paymentStatus: "failed" as const } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(kitchenBookings.id, o.id));
+    await removeAccessCodeFromLock(o.id, o.kitchenId);
+  }
+
+  // Whole series rejected while still held → void the authorization
+  if (approved.length === 0) {
+    await releaseAuthorizationIfUnused(series);
+  }
+  await refreshSeriesStatus(seriesId);
+
+  return {
+    success: true,
+    approvedBookingIds: approved.map((o) => o.id),
+    rejectedBookingIds: rejected.map((o) => o.id),
+    capturedAmountCents,
+  };
+}
+
+/**
+ * Chef and kitchen display names for series notifications.
+ */
+export async function getSeriesNotificationContext(series: KitchenBookingSeries) {
+  const [row] = await db
+    .select({
+      kitchenName: kitchens.name,
+      locationId: locations.id,
+      locationName: locations.name,
+      managerId: locations.managerId,
+      timezone: locations.timezone,
+    })
+    .from(kitchens)
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchens.id, series.kitchenId))
+    .limit(1);
+  const [chef] = await db
+    .select({ username: users.username })
+    .from(users)
+    .where(eq(users.id, series.chefId))
+    .limit(1);
+  return row ? { ...row, chefName: chef?.username || "Chef" } : null;
+}
@@ -0,0 +1,431 @@
+import { logger } from "../logger";
+/**
+ * Calendar Feed Service — Subscribable iCalendar (ICS) Feeds
+ *
+ * Every user gets one secret-token feed URL they can subscribe to from Google
+ * Calendar, Outlook or Apple Calendar. The token is the only credential, so
+ * regenerating it revokes all existing subscriptions.
+ *
+ * Feed contents:
+ *   - Chefs:    their kitchen bookings, check-in windows for confirmed
+ *               bookings, and storage booking start/end days.
+ *   - Managers: kitchen bookings and storage start/end days at the locations
+ *               they manage.
+ *
+ * Session times are local to each location (`locations.timezone`) and are
+ * emitted in UTC. Kitchen booking UIDs match the invites attached to booking
+ * emails, so calendars that merge the two update one event.
+ */
+
+import { db } from "../db";
+import {
+  calendarFeedTokens,
+  kitchenBookings,
+  kitchens,
+  locations,
+  storageBookings,
+  storageListings,
+  users,
+} from "@shared/schema";
+import { and, eq, gte, inArray, ne, or } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { getBookingWindow } from "@shared/timezone-utils";
+import { escapeIcalText, formatDateForCalendar, getBookingEventUid } from "../email";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CalendarFeedEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  /** All-day event on the UTC date of `start`..`end` (inclusive) */
+  allDay?: boolean;
+  status?: "CONFIRMED" | "TENTATIVE";
+  /** Shown as free time (e.g. check-in windows overlapping the booking itself) */
+  transparent?: boolean;
+}
+
+export interface CheckinWindowSettings {
+  checkinWindowMinutesBefore: number;
+  noShowGraceMinutes: number;
+}
+
+/** Bookings older than this are left out of the feed */
+const FEED_HISTORY_DAYS = 30;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** YYYYMMDD for all-day DTSTART/DTEND values */
+function formatIcsDate(date: Date): string {
+  return date.toISOString().split("T")[0].replace(/-/g, "");
+}
+
+/** RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space */
+export function foldIcsLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** Check-in opens before the session starts and closes when the no-show grace period ends */
+export function getCheckinWindow(sessionStart: Date, settings: CheckinWindowSettings): { start: Date; end: Date } {
+  return {
+    start: new Date(sessionStart.getTime() - settings.checkinWindowMinutesBefore * 60 * 1000),
+    end: new Date(sessionStart.getTime() + settings.noShowGraceMinutes * 60 * 1000),
+  };
+}
+
+export function buildCalendarFeed(calendarName: string, events: CalendarFeedEvent[], now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Local Cooks Community//Kitchen Booking System//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcalText(calendarName)}`,
+    "X-PUBLISHED-TTL:PT1H", // Refresh hint for subscribing calendar apps
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateForCalendar(now)}`,
+    );
+    if (event.allDay) {
+      // DTEND is exclusive for all-day events
+      const endExclusive = new Date(event.end.getTime() + 24 * 60 * 60 * 1000);
+      lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`, `DTEND;VALUE=DATE:${formatIcsDate(endExclusive)}`);
+    } else {
+      lines.push(`DTSTART:${formatDateForCalendar(event.start)}`, `DTEND:${formatDateForCalendar(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeIcalText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcalText(event.location)}`);
+    lines.push(
+      `STATUS:${event.status || "CONFIRMED"}`,
+      `TRANSP:${event.transparent || event.allDay ? "TRANSPARENT" : "OPAQUE"}`,
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** The user's feed token, created on first use */
+export async function getCalendarFeedToken(userId: number): Promise<string> {
+  const [existing] = await db
+    .select({ token: calendarFeedTokens.token })
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, userId))
+    .limit(1);
+  if (existing) return existing.token;
+
+  await db
+    .insert(calendarFeedTokens)
+    .values({ userId, token: generateFeedToken() })
+    .onConflictDoNothing({ target: calendarFeedTokens.userId });
+
+  // Re-read so concurrent first requests agree on one token
+  const [created] = await db
+    .select({ token: calendarFeedTokens.token })
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, userId))
+    .limit(1);
+  return created.token;
+}
+
+/** Replace the user's token — every existing subscription stops working */
+export async function regenerateCalendarFeedToken(userId: number): Promise<string> {
+  const token = generateFeedToken();
+  await db
+    .insert(calendarFeedTokens)
+    .values({ userId, token })
+    .onConflictDoUpdate({
+      target: calendarFeedTokens.userId,
+      set: { token, createdAt: new Date(), lastAccessedAt: null },
+    });
+  logger.info(`[CalendarFeed] Regenerated feed token for user ${userId}`);
+  return token;
+}
+
+export async function getUserIdForCalendarFeedToken(token: string): Promise<number | null> {
+  const [row] = await db
+    .update(calendarFeedTokens)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeedTokens.token, token))
+    .returning({ userId: calendarFeedTokens.userId });
+  return row?.userId ?? null;
+}
+
+// ============================================================================
+// FEED EVENTS
+// ============================================================================
+
+type KitchenBookingRow = {
+  id: number;
+  referenceCode: string | null;
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+  endDate: Date | null;
+  status: string;
+  chefEmail: string | null;
+  kitchenName: string;
+  locationId: number;
+  locationName: string;
+  locationAddress: string;
+  timezone: string;
+};
+
+function kitchenBookingEvent(booking: KitchenBookingRow, audience: "chef" | "manager"): CalendarFeedEvent {
+  const dateStr = booking.bookingDate.toISOString().split("T")[0];
+  const isPending = booking.status === "pending";
+  const chefName = booking.chefEmail ? booking.chefEmail.split("@")[0] : "External booking";
+  const descriptionLines = [
+    booking.referenceCode ? `Reference: ${booking.referenceCode}` : null,
+    audience === "manager" ? `Chef: ${chefName}` : null,
+    isPending ? "Awaiting manager approval" : null,
+    booking.status === "cancellation_requested" ? "Cancellation requested" : null,
+  ].filter(Boolean);
+
+  return {
+    uid: getBookingEventUid(booking.referenceCode, booking.bookingDate, booking.startTime, booking.locationName),
+    summary: audience === "manager"
+      ? `${booking.kitchenName} - ${chefName}${isPending ? " (Pending)" : ""}`
+      : `Kitchen Booking - ${booking.kitchenName}${isPending ? " (Pending)" : ""}`,
+    description: descriptionLines.join("\n") || undefined,
+    location: `${booking.locationName}, ${booking.locationAddress}`,
+    ...getBookingWindow(
+      dateStr,
+      booking.startTime,
+      booking.endTime,
+      booking.timezone,
+      booking.endDate ? booking.endDate.toISOString().split("T")[0] : null,
+    ),
+    status: isPending ? "TENTATIVE" : "CONFIRMED",
+  };
+}
+
+function storageBookingEvents(booking: {
+  id: number;
+  referenceCode: string | null;
+  startDate: Date;
+  endDate: Date;
+  status: string;
+  storageName: string;
+  kitchenName: string;
+  chefEmail: string | null;
+}, audience: "chef" | "manager"): CalendarFeedEvent[] {
+  const uidBase = (booking.referenceCode || `storage-${booking.id}`).toLowerCase();
+  const who = audience === "manager" && booking.chefEmail ? ` - ${booking.chefEmail.split("@")[0]}` : "";
+  const status = booking.status === "pending" ? "TENTATIVE" : "CONFIRMED";
+  const description = booking.referenceCode ? `Reference: ${booking.referenceCode}` : undefined;
+  return [
+    {
+      uid: `${uidBase}-start@localcooks.com`,
+      summary: `Storage starts: ${booking.storageName} (${booking.kitchenName})${who}`,
+      description,
+      start: booking.startDate,
+      end: booking.startDate,
+      allDay: true,
+      status,
+    },
+    {
+      uid: `${uidBase}-end@localcooks.com`,
+      summary: `Storage ends: ${booking.storageName} (${booking.kitchenName})${who}`,
+      description,
+      start: booking.endDate,
+      end: booking.endDate,
+      allDay: true,
+      status,
+    },
+  ];
+}
+
+const kitchenBookingColumns = {
+  id: kitchenBookings.id,
+  referenceCode: kitchenBookings.referenceCode,
+  bookingDate: kitchenBookings.bookingDate,
+  startTime: kitchenBookings.startTime,
+  endTime: kitchenBookings.endTime,
+  endDate: kitchenBookings.endDate,
+  status: kitchenBookings.status,
+  chefEmail: users.username,
+  kitchenName: kitchens.name,
+  locationId: locations.id,
+  locationName: locations.name,
+  locationAddress: locations.address,
+  timezone: locations.timezone,
+};
+
+const storageBookingColumns = {
+  id: storageBookings.id,
+  referenceCode: storageBookings.referenceCode,
+  startDate: storageBookings.startDate,
+  endDate: storageBookings.endDate,
+  status: storageBookings.status,
+  storageName: storageListings.name,
+  kitchenName: kitchens.name,
+  chefEmail: users.username,
+};
+
+async function getChefFeedEvents(chefId: number, since: Date): Promise<CalendarFeedEvent[]> {
+  const bookingRows = await db
+    .select(kitchenBookingColumns)
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchenBookings.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .leftJoin(users, eq(kitchenBookings.chefId, users.id))
+    .where(
+      and(
+        eq(kitchenBookings.chefId, chefId),
+        ne(kitchenBookings.status, "cancelled"),
+        gte(kitchenBookings.bookingDate, since),
+      ),
+    );
+
+  const events = bookingRows.map(row => kitchenBookingEvent(row, "chef"));
+
+  // Check-in windows for confirmed sessions (location overrides of the platform defaults)
+  const { getCheckinSettings } = await import("./kitchen-checkout-service");
+  const settingsByLocation = new Map<number, CheckinWindowSettings>();
+  for (const row of bookingRows) {
+    if (row.status !== "confirmed") continue;
+    if (!settingsByLocation.has(row.locationId)) {
+      settingsByLocation.set(row.locationId, await getCheckinSettings(row.locationId));
+    }
+    const session = kitchenBookingEvent(row, "chef");
+    const window = getCheckinWindow(session.start, settingsByLocation.get(row.locationId)!);
+    events.push({
+      uid: `checkin-${session.uid}`,
+      summary: `Check-in window - ${row.kitchenName}`,
+      description: "Check in from your dashboard: complete the checklist and upload condition photos.",
+      location: session.location,
+      start: window.start,
+      end: window.end,
+      transparent: true,
+    });
+  }
+
+  const storageRows = await db
+    .select(storageBookingColumns)
+    .from(storageBookings)
+    .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+    .innerJoin(kitchens, eq(storageListings.kitchenId, kitchens.id))
+    .leftJoin(users, eq(storageBookings.chefId, users.id))
+    .where(
+      and(
+        eq(storageBookings.chefId, chefId),
+        ne(storageBookings.status, "cancelled"),
+        gte(storageBookings.endDate, since),
+      ),
+    );
+  for (const row of storageRows) {
+    events.push(...storageBookingEvents(row, "chef"));
+  }
+
+  return events;
+}
+
+async function getManagerFeedEvents(managerId: number, since: Date): Promise<CalendarFeedEvent[]> {
+  const managedLocations = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.managerId, managerId));
+  const locationIds = managedLocations.map(l => l.id);
+  if (locationIds.length === 0) return [];
+
+  const bookingRows = await db
+    .select(kitchenBookingColumns)
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchenBookings.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .leftJoin(users, eq(kitchenBookings.chefId, users.id))
+    .where(
+      and(
+        inArray(locations.id, locationIds),
+        ne(kitchenBookings.status, "cancelled"),
+        gte(kitchenBookings.bookingDate, since),
+      ),
+    );
+
+  const storageRows = await db
+    .select(storageBookingColumns)
+    .from(storageBookings)
+    .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+    .innerJoin(kitchens, eq(storageListings.kitchenId, kitchens.id))
+    .leftJoin(users, eq(storageBookings.chefId, users.id))
+    .where(
+      and(
+        inArray(kitchens.locationId, locationIds),
+        ne(storageBookings.status, "cancelled"),
+        or(gte(storageBookings.endDate, since), gte(storageBookings.startDate, since)),
+      ),
+    );
+
+  return [
+    ...bookingRows.map(row => kitchenBookingEvent(row, "manager")),
+    ...storageRows.flatMap(row => storageBookingEvents(row, "manager")),
+  ];
+}
+
+/** Full ICS feed for a user; null when the token doesn't match anyone */
+export async function getCalendarFeedForToken(token: string): Promise<string | null> {
+  const userId = await getUserIdForCalendarFeedToken(token);
+  if (!userId) return null;
+
+  const [user] = await db
+    .select({ id: users.id, role: users.role, isChef: users.isChef, isManager: users.isManager })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return null;
+
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const isChef = user.isChef || user.role === "chef";
+  const isManager = user.isManager || user.role === "manager";
+
+  // Dual-role users get both views; a manager's own chef booking appears once
+  const eventsByUid = new Map<string, CalendarFeedEvent>();
+  if (isManager) {
+    for (const event of await getManagerFeedEvents(user.id, since)) eventsByUid.set(event.uid, event);
+  }
+  if (isChef) {
+    for (const event of await getChefFeedEvents(user.id, since)) eventsByUid.set(event.uid, event);
+  }
+
+  return buildCalendarFeed("Local Cooks Bookings", Array.from(eventsByUid.values()));
+}
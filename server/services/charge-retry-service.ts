@@ -0,0 +1,363 @@
+import { logger } from "../logger";
+/**
+ * Charge Retry Service — Dunning for Failed Off-Session Charges
+ *
+ * Overstay penalties (`chargeApprovedPenalty`) and damage claims
+ * (`chargeApprovedClaim`) are charged off-session to the chef's saved card.
+ * When that charge fails the record moves to `charge_failed` with a
+ * `nextChargeRetryAt` instead of escalating straight away:
+ *
+ *   1. The chef is emailed a card-update link (Stripe Checkout in setup mode).
+ *      Saving a card there re-attempts the charge at once (see applyCardUpdate).
+ *   2. The daily cron re-attempts due charges (processDueChargeRetries).
+ *   3. Once the backoff schedule is exhausted the record escalates as before:
+ *      a self-serve payment link to the chef and an email to admins.
+ *
+ * The owning services write every attempt to storageOverstayHistory /
+ * damageClaimHistory. The backoff is the `charge_retry_backoff_hours` platform
+ * setting: hours to wait after the 1st, 2nd, ... failure.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import {
+  damageClaimHistory,
+  damageClaims,
+  platformSettings,
+  storageBookings,
+  storageOverstayHistory,
+  storageOverstayRecords,
+  users,
+} from "@shared/schema";
+import { and, asc, eq, isNotNull, lte } from "drizzle-orm";
+import { normalizeCurrency } from "@shared/currency-utils";
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, {
+  apiVersion: '2026-02-25.clover',
+}) : null;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RetryableChargeType = 'overstay_penalty' | 'damage_claim';
+
+export interface CardUpdateLinkParams {
+  chargeType: RetryableChargeType;
+  targetId: number;
+  chefId: number;
+  customerId: string | null;
+  amountCents: number;
+  currency: string; // Currency the charge is in (CAD, USD)
+  description: string; // e.g. "Overstay penalty — Walk-in Cooler #2"
+  failureReason: string;
+  nextRetryAt: Date;
+}
+
+export interface ChargeRetryResults {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+export const CHARGE_RETRY_BACKOFF_SETTING_KEY = 'charge_retry_backoff_hours';
+
+/** Hours after each failed charge before it is retried: 1 day, 3 days, 7 days */
+export const DEFAULT_CHARGE_RETRY_BACKOFF_HOURS = [24, 72, 168];
+
+const MAX_RETRIES = 10;
+const MAX_BACKOFF_HOURS = 720;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** Why a backoff schedule is invalid, or null when it can be saved. An empty schedule disables retries. */
+export function validateChargeRetryBackoff(hours: unknown): string | null {
+  if (!Array.isArray(hours)) return 'Retry schedule must be a list of hours';
+  if (hours.length > MAX_RETRIES) return `At most ${MAX_RETRIES} retries can be scheduled`;
+  for (const h of hours) {
+    if (typeof h !== 'number' || !Number.isInteger(h) || h < 1 || h > MAX_BACKOFF_HOURS) {
+      return `Each retry delay must be a whole number of hours between 1 and ${MAX_BACKOFF_HOURS}`;
+    }
+  }
+  return null;
+}
+
+/** Parse the stored setting ("24,72,168"), falling back to the default when it is malformed */
+export function parseChargeRetryBackoff(value: string | null | undefined): number[] {
+  if (value === null || value === undefined) return DEFAULT_CHARGE_RETRY_BACKOFF_HOURS;
+  const hours = value.trim() === '' ? [] : value.split(',').map((h) => Number(h.trim()));
+  return validateChargeRetryBackoff(hours) === null ? hours : DEFAULT_CHARGE_RETRY_BACKOFF_HOURS;
+}
+
+/** When to retry after the `failedAttempts`-th failure, or null once retries are exhausted */
+export function getNextChargeRetryAt(failedAttempts: number, backoffHours: number[], now: Date): Date | null {
+  const delayHours = backoffHours[failedAttempts - 1];
+  if (delayHours === undefined) return null;
+  return new Date(now.getTime() + delayHours * HOUR_MS);
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getChargeRetryBackoffHours(): Promise<number[]> {
+  try {
+    const [setting] = await db
+      .select({ value: platformSettings.value })
+      .from(platformSettings)
+      .where(eq(platformSettings.key, CHARGE_RETRY_BACKOFF_SETTING_KEY))
+      .limit(1);
+    return parseChargeRetryBackoff(setting?.value);
+  } catch (error) {
+    logger.error('[ChargeRetryService] Error fetching retry schedule, using default:', error);
+    return DEFAULT_CHARGE_RETRY_BACKOFF_HOURS;
+  }
+}
+
+export async function setChargeRetryBackoffHours(hours: number[]): Promise<void> {
+  const value = hours.join(',');
+  await db
+    .insert(platformSettings)
+    .values({
+      key: CHARGE_RETRY_BACKOFF_SETTING_KEY,
+      value,
+      description: 'Hours to wait after each failed off-session penalty/claim charge before retrying',
+    })
+    .onConflictDoUpdate({
+      target: platformSettings.key,
+      set: { value, updatedAt: new Date() },
+    });
+}
+
+// ============================================================================
+// CARD UPDATE LINK
+// ============================================================================
+
+/**
+ * Email the chef a Stripe Checkout (setup mode) link to save a new card for a
+ * failed charge. Returns the link, or null when it could not be sent.
+ */
+export async function sendCardUpdateLinkToChef(params: CardUpdateLinkParams): Promise<string | null> {
+  if (!stripe) return null;
+
+  try {
+    const [chef] = await db
+      .select({ email: users.username })
+      .from(users)
+      .where(eq(users.id, params.chefId))
+      .limit(1);
+
+    if (!chef?.email) {
+      logger.warn(`[ChargeRetryService] No email found for chef ${params.chefId} — cannot send card update link`);
+      return null;
+    }
+
+    const baseUrl = process.env.FRONTEND_URL || process.env.VITE_API_URL || 'https://localcooks.com';
+    const metadata = {
+      type: 'card_update',
+      charge_type: params.chargeType,
+      target_id: params.targetId.toString(),
+      chef_id: params.chefId.toString(),
+    };
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'setup',
+      payment_method_types: ['card'],
+      ...(params.customerId ? { customer: params.customerId } : { customer_creation: 'always' as const }),
+      metadata,
+      setup_intent_data: { metadata },
+      success_url: `${baseUrl}/chef/payments/success?card_updated=${params.chargeType}&id=${params.targetId}`,
+      cancel_url: `${baseUrl}/chef/payments/cancel?card_updated=${params.chargeType}&id=${params.targetId}`,
+    });
+
+    if (!session.url) {
+      logger.error(`[ChargeRetryService] Card update session ${session.id} has no URL`);
+      return null;
+    }
+
+    const amount = `$${(params.amountCents / 100).toFixed(2)} ${normalizeCurrency(params.currency)}`;
+    const retryDate = params.nextRetryAt.toLocaleDateString('en-CA', { month: 'long', day: 'numeric', year: 'numeric' });
+
+    const { sendEmail } = await import('../email');
+    await sendEmail({
+      to: chef.email,
+      subject: `Action Required: Update Your Card — ${amount} Payment Failed`,
+      html: `
+        <h2>We couldn't charge your saved card</h2>
+        <p><strong>For:</strong> ${params.description}</p>
+        <p><strong>Amount:</strong> ${amount}</p>
+        <p><strong>Reason:</strong> ${params.failureReason}</p>
+        <p>Update your card and we'll retry the payment right away:</p>
+        <p><a href="${session.url}" style="display: inline-block; padding: 12px 24px; background-color: #2563EB; color: white; text-decoration: none; border-radius: 6px; font-weight: bold;">Update Card</a></p>
+        <p>Otherwise we'll try your saved card again on ${retryDate}. If payment keeps failing, this will be referred for manual collection.</p>
+      `,
+      text: `We couldn't charge your saved card\n\nFor: ${params.description}\nAmount: ${amount}\nReason: ${params.failureReason}\n\nUpdate your card: ${session.url}\n\nOtherwise we'll try again on ${retryDate}.`,
+    });
+
+    logger.info(`[ChargeRetryService] Sent card update link to chef ${chef.email} for ${params.chargeType} ${params.targetId}`);
+    return session.url;
+  } catch (error) {
+    logger.error(`[ChargeRetryService] Failed to send card update link for ${params.chargeType} ${params.targetId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * checkout.session.completed for a card update session: save the new card where
+ * the failed charge reads it from, then retry the charge immediately.
+ */
+export async function applyCardUpdate(
+  sessionId: string,
+  setupIntentId: string | undefined,
+  customerId: string | undefined,
+  metadata: Record<string, string>,
+): Promise<void> {
+  if (!stripe) return;
+
+  const targetId = parseInt(metadata.target_id);
+  const chargeType = metadata.charge_type as RetryableChargeType;
+  if (isNaN(targetId) || !setupIntentId || !customerId) {
+    logger.error(`[ChargeRetryService] Card update session ${sessionId} is missing its target or setup intent`, metadata);
+    return;
+  }
+
+  const setupIntent = await stripe.setupIntents.retrieve(setupIntentId);
+  const paymentMethodId = typeof setupIntent.payment_method === 'string'
+    ? setupIntent.payment_method
+    : setupIntent.payment_method?.id;
+  if (!paymentMethodId) {
+    logger.error(`[ChargeRetryService] Setup intent ${setupIntentId} has no payment method`);
+    return;
+  }
+
+  if (chargeType === 'overstay_penalty') {
+    const [record] = await db
+      .select({ status: storageOverstayRecords.status, storageBookingId: storageOverstayRecords.storageBookingId })
+      .from(storageOverstayRecords)
+      .where(eq(storageOverstayRecords.id, targetId))
+      .limit(1);
+    if (!record) return;
+
+    await db
+      .update(storageBookings)
+      .set({ stripeCustomerId: customerId, stripePaymentMethodId: paymentMethodId, updatedAt: new Date() })
+      .where(eq(storageBookings.id, record.storageBookingId));
+
+    await db.insert(storageOverstayHistory).values({
+      overstayRecordId: targetId,
+      previousStatus: record.status,
+      newStatus: record.status,
+      eventType: 'card_updated',
+      eventSource: 'stripe_webhook',
+      description: 'Chef saved a new card for the failed penalty charge',
+      metadata: { sessionId, setupIntentId },
+    });
+
+    if (record.status === 'charge_failed' || record.status === 'escalated') {
+      const { chargeApprovedPenalty } = await import('./overstay-penalty-service');
+      const result = await chargeApprovedPenalty(targetId);
+      logger.info(`[ChargeRetryService] Retried overstay penalty ${targetId} after card update:`, result);
+    }
+    return;
+  }
+
+  if (chargeType === 'damage_claim') {
+    const [claim] = await db
+      .select({ status: damageClaims.status, chefId: damageClaims.chefId })
+      .from(damageClaims)
+      .where(eq(damageClaims.id, targetId))
+      .limit(1);
+    if (!claim) return;
+
+    // Claims keep their own card; chargeApprovedClaim prefers it over the booking's
+    await db
+      .update(damageClaims)
+      .set({ stripeCustomerId: customerId, stripePaymentMethodId: paymentMethodId, updatedAt: new Date() })
+      .where(eq(damageClaims.id, targetId));
+
+    await db.insert(damageClaimHistory).values({
+      damageClaimId: targetId,
+      previousStatus: claim.status,
+      newStatus: claim.status,
+      action: 'card_updated',
+      actionBy: 'chef',
+      actionByUserId: claim.chefId,
+      notes: 'Chef saved a new card for the failed claim charge',
+      metadata: { sessionId, setupIntentId },
+    });
+
+    if (claim.status === 'charge_failed' || claim.status === 'escalated') {
+      const { chargeApprovedClaim } = await import('./damage-claim-service');
+      const result = await chargeApprovedClaim(targetId);
+      logger.info(`[ChargeRetryService] Retried damage claim ${targetId} after card update:`, result);
+    }
+  }
+}
+
+// ============================================================================
+// SCHEDULED RETRIES
+// ============================================================================
+
+/**
+ * Daily cron: re-attempt every failed penalty and claim charge whose retry is
+ * due. The charge functions reschedule or escalate on failure.
+ */
+export async function processDueChargeRetries(now: Date = new Date()): Promise<ChargeRetryResults> {
+  const results: ChargeRetryResults = { attempted: 0, succeeded: 0, failed: 0 };
+
+  const dueOverstays = await db
+    .select({ id: storageOverstayRecords.id })
+    .from(storageOverstayRecords)
+    .where(and(
+      eq(storageOverstayRecords.status, 'charge_failed'),
+      isNotNull(storageOverstayRecords.nextChargeRetryAt),
+      lte(storageOverstayRecords.nextChargeRetryAt, now),
+    ))
+    .orderBy(asc(storageOverstayRecords.nextChargeRetryAt));
+
+  const dueClaims = await db
+    .select({ id: damageClaims.id })
+    .from(damageClaims)
+    .where(and(
+      eq(damageClaims.status, 'charge_failed'),
+      isNotNull(damageClaims.nextChargeRetryAt),
+      lte(damageClaims.nextChargeRetryAt, now),
+    ))
+    .orderBy(asc(damageClaims.nextChargeRetryAt));
+
+  if (dueOverstays.length > 0) {
+    const { chargeApprovedPenalty } = await import('./overstay-penalty-service');
+    for (const { id } of dueOverstays) {
+      results.attempted++;
+      try {
+        const result = await chargeApprovedPenalty(id);
+        if (result.success) results.succeeded++;
+        else results.failed++;
+      } catch (error) {
+        logger.error(`[ChargeRetryService] Error retrying overstay penalty ${id}:`, error);
+        results.failed++;
+      }
+    }
+  }
+
+  if (dueClaims.length > 0) {
+    const { chargeApprovedClaim } = await import('./damage-claim-service');
+    for (const { id } of dueClaims) {
+      results.attempted++;
+      try {
+        const result = await chargeApprovedClaim(id);
+        if (result.success) results.succeeded++;
+        else results.failed++;
+      } catch (error) {
+        logger.error(`[ChargeRetryService] Error retrying damage claim ${id}:`, error);
+        results.failed++;
+      }
+    }
+  }
+
+  return results;
+}
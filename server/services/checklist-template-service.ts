@@ -0,0 +1,465 @@
+import { logger } from "../logger";
+/**
+ * Checklist Template Service
+ *
+ * A location has one check-in/check-out checklist (checkin_checkout_checklists).
+ * Kitchens and storage listings can carry a checklist template that overrides
+ * it section by section, so a bakery and a butchery at the same location can
+ * ask for different check-out steps.
+ *
+ * Resolution (most specific wins):
+ * - Kitchen bookings:  location -> kitchen template
+ * - Storage bookings:  location -> kitchen template -> storage listing template
+ *
+ * A section (e.g. check-out) is overridden as a whole when the template sets
+ * any of its columns; columns left null inside an overridden section take the
+ * section defaults rather than the parent's values.
+ */
+
+import { db } from "../db";
+import {
+  checkinCheckoutChecklists,
+  checklistTemplates,
+  kitchens,
+  locations,
+  storageListings,
+  type ChecklistTemplate,
+} from "@shared/schema";
+import { and, eq, inArray, or, type SQL } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChecklistSection = 'checkin' | 'checkout' | 'storageCheckin' | 'storageCheckout' | 'smartLock';
+
+export type ChecklistSource = 'location' | 'kitchen' | 'storage_listing';
+
+export interface ChecklistScope {
+  kitchenId?: number | null;
+  storageListingId?: number | null;
+}
+
+export type ChecklistTemplateTarget = { kitchenId: number } | { storageListingId: number };
+
+export interface EffectiveChecklist {
+  locationId: number;
+  checkinEnabled: boolean;
+  checkinItems: unknown;
+  checkinPhotoRequirements: unknown;
+  checkinInstructions: string | null;
+  checkoutEnabled: boolean;
+  checkoutItems: unknown;
+  checkoutPhotoRequirements: unknown;
+  checkoutInstructions: string | null;
+  storageCheckoutEnabled: boolean;
+  storageCheckoutItems: unknown;
+  storageCheckoutPhotoRequirements: unknown;
+  storageCheckoutInstructions: string | null;
+  storageCheckinEnabled: boolean;
+  storageCheckinItems: unknown;
+  storageCheckinPhotoRequirements: unknown;
+  storageCheckinInstructions: string | null;
+  smartLockCheckinInstructions: string | null;
+  /** Where each section was resolved from */
+  sources: Record<ChecklistSection, ChecklistSource>;
+}
+
+type ChecklistField = Exclude<keyof EffectiveChecklist, 'locationId' | 'sources'>;
+
+type ChecklistFieldValues = Pick<EffectiveChecklist, ChecklistField>;
+
+/** Template row (or request body) reduced to its overridable columns */
+export type ChecklistTemplateFields = { [K in ChecklistField]?: EffectiveChecklist[K] | null };
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+export const CHECKLIST_SECTIONS: Record<ChecklistSection, ChecklistField[]> = {
+  checkin: ['checkinEnabled', 'checkinItems', 'checkinPhotoRequirements', 'checkinInstructions'],
+  checkout: ['checkoutEnabled', 'checkoutItems', 'checkoutPhotoRequirements', 'checkoutInstructions'],
+  storageCheckin: ['storageCheckinEnabled', 'storageCheckinItems', 'storageCheckinPhotoRequirements', 'storageCheckinInstructions'],
+  storageCheckout: ['storageCheckoutEnabled', 'storageCheckoutItems', 'storageCheckoutPhotoRequirements', 'storageCheckoutInstructions'],
+  smartLock: ['smartLockCheckinInstructions'],
+};
+
+const CHECKLIST_FIELDS = Object.values(CHECKLIST_SECTIONS).flat();
+
+/** Values columns take when neither the location nor a template sets them */
+const CHECKLIST_DEFAULTS: ChecklistFieldValues = {
+  checkinEnabled: true,
+  checkinItems: [],
+  checkinPhotoRequirements: [],
+  checkinInstructions: null,
+  checkoutEnabled: true,
+  checkoutItems: [],
+  checkoutPhotoRequirements: [],
+  checkoutInstructions: null,
+  storageCheckoutEnabled: true,
+  storageCheckoutItems: [],
+  storageCheckoutPhotoRequirements: [],
+  storageCheckoutInstructions: null,
+  storageCheckinEnabled: true,
+  storageCheckinItems: [],
+  storageCheckinPhotoRequirements: [],
+  storageCheckinInstructions: null,
+  smartLockCheckinInstructions: null,
+};
+
+/** Set a column, falling back to its default when the value is null */
+function setField<K extends ChecklistField>(
+  target: ChecklistFieldValues,
+  field: K,
+  value: ChecklistFieldValues[K] | null | undefined,
+): void {
+  target[field] = value ?? CHECKLIST_DEFAULTS[field];
+}
+
+/**
+ * Location checklist with no templates applied. A location without a
+ * checklist row gets the same defaults the manager settings page shows.
+ */
+export function buildLocationChecklist(
+  locationId: number,
+  row: ChecklistTemplateFields | null | undefined,
+): EffectiveChecklist {
+  const checklist: EffectiveChecklist = {
+    locationId,
+    ...CHECKLIST_DEFAULTS,
+    sources: {
+      checkin: 'location',
+      checkout: 'location',
+      storageCheckin: 'location',
+      storageCheckout: 'location',
+      smartLock: 'location',
+    },
+  };
+  for (const field of CHECKLIST_FIELDS) {
+    setField(checklist, field, row?.[field]);
+  }
+  return checklist;
+}
+
+/**
+ * Apply templates to a checklist in order (least to most specific). Sections
+ * a template leaves entirely null are inherited unchanged.
+ */
+export function mergeChecklistTemplates(
+  base: EffectiveChecklist,
+  templates: Array<{ source: ChecklistSource; template: ChecklistTemplateFields }>,
+): EffectiveChecklist {
+  const merged: EffectiveChecklist = { ...base, sources: { ...base.sources } };
+  const sections = Object.keys(CHECKLIST_SECTIONS) as ChecklistSection[];
+
+  for (const { source, template } of templates) {
+    for (const section of sections) {
+      const fields = CHECKLIST_SECTIONS[section];
+      if (!fields.some((field) => template[field] != null)) continue;
+      for (const field of fields) {
+        setField(merged, field, template[field]);
+      }
+      merged.sources[section] = source;
+    }
+  }
+
+  return merged;
+}
+
+function copyTemplateField<K extends ChecklistField>(
+  target: ChecklistTemplateFields,
+  row: ChecklistTemplateFields,
+  field: K,
+): void {
+  target[field] = row[field];
+}
+
+function pickTemplateFields(row: ChecklistTemplate): ChecklistTemplateFields {
+  const fields: ChecklistTemplateFields = {};
+  for (const field of CHECKLIST_FIELDS) {
+    copyTemplateField(fields, row, field);
+  }
+  return fields;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Checklist that applies to a booking. Without a scope this is the location
+ * checklist; a kitchen or storage listing scope layers its templates on top.
+ * A storage listing also inherits its kitchen's template.
+ */
+export async function getEffectiveChecklist(
+  locationId: number,
+  scope?: ChecklistScope,
+): Promise<EffectiveChecklist> {
+  const [locationChecklist] = await db
+    .select()
+    .from(checkinCheckoutChecklists)
+    .where(eq(checkinCheckoutChecklists.locationId, locationId))
+    .limit(1);
+
+  const base = buildLocationChecklist(locationId, locationChecklist);
+
+  let kitchenId = scope?.kitchenId ?? null;
+  const storageListingId = scope?.storageListingId ?? null;
+
+  if (storageListingId && !kitchenId) {
+    const [listing] = await db
+      .select({ kitchenId: storageListings.kitchenId })
+      .from(storageListings)
+      .where(eq(storageListings.id, storageListingId))
+      .limit(1);
+    kitchenId = listing?.kitchenId ?? null;
+  }
+
+  const conditions: SQL[] = [];
+  if (kitchenId) conditions.push(eq(checklistTemplates.kitchenId, kitchenId));
+  if (storageListingId) conditions.push(eq(checklistTemplates.storageListingId, storageListingId));
+  if (conditions.length === 0) return base;
+
+  const rows = await db
+    .select()
+    .from(checklistTemplates)
+    .where(and(eq(checklistTemplates.locationId, locationId), or(...conditions)));
+
+  const kitchenTemplate = rows.find((row) => row.kitchenId !== null);
+  const listingTemplate = rows.find((row) => row.storageListingId !== null);
+
+  return mergeChecklistTemplates(base, [
+    ...(kitchenTemplate ? [{ source: 'kitchen' as const, template: pickTemplateFields(kitchenTemplate) }] : []),
+    ...(listingTemplate ? [{ source: 'storage_listing' as const, template: pickTemplateFields(listingTemplate) }] : []),
+  ]);
+}
+
+// ============================================================================
+// MANAGER ACCESS
+// ============================================================================
+
+interface OwnedTarget {
+  locationId: number;
+  scope: ChecklistScope;
+  where: SQL;
+}
+
+/**
+ * Resolve a template target the manager owns, or null when the kitchen or
+ * listing does not exist or belongs to another manager
+ */
+async function getOwnedTarget(target: ChecklistTemplateTarget, managerId: number): Promise<OwnedTarget | null> {
+  if ('kitchenId' in target) {
+    const [kitchen] = await db
+      .select({ locationId: kitchens.locationId })
+      .from(kitchens)
+      .innerJoin(locations, eq(locations.id, kitchens.locationId))
+      .where(and(eq(kitchens.id, target.kitchenId), eq(locations.managerId, managerId)))
+      .limit(1);
+    if (!kitchen) return null;
+    return {
+      locationId: kitchen.locationId,
+      scope: { kitchenId: target.kitchenId },
+      where: eq(checklistTemplates.kitchenId, target.kitchenId),
+    };
+  }
+
+  const [listing] = await db
+    .select({ locationId: kitchens.locationId, kitchenId: storageListings.kitchenId })
+    .from(storageListings)
+    .innerJoin(kitchens, eq(kitchens.id, storageListings.kitchenId))
+    .innerJoin(locations, eq(locations.id, kitchens.locationId))
+    .where(and(eq(storageListings.id, target.storageListingId), eq(locations.managerId, managerId)))
+    .limit(1);
+  if (!listing) return null;
+  return {
+    locationId: listing.locationId,
+    scope: { kitchenId: listing.kitchenId, storageListingId: target.storageListingId },
+    where: eq(checklistTemplates.storageListingId, target.storageListingId),
+  };
+}
+
+function targetLabel(target: ChecklistTemplateTarget): string {
+  return 'kitchenId' in target ? `kitchen ${target.kitchenId}` : `storage listing ${target.storageListingId}`;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * Template for a kitchen or storage listing (null when it inherits
+ * everything) together with the checklist chefs will actually see
+ */
+export async function getChecklistTemplate(
+  target: ChecklistTemplateTarget,
+  managerId: number,
+): Promise<{ success: boolean; error?: string; status?: number; template?: ChecklistTemplate | null; effective?: EffectiveChecklist }> {
+  const owned = await getOwnedTarget(target, managerId);
+  if (!owned) {
+    return { success: false, error: 'Access denied', status: 403 };
+  }
+
+  const [template] = await db.select().from(checklistTemplates).where(owned.where).limit(1);
+  const effective = await getEffectiveChecklist(owned.locationId, owned.scope);
+
+  return { success: true, template: template ?? null, effective };
+}
+
+/**
+ * Create or update a template. Only the provided fields are written, so a
+ * page that edits the kitchen sections leaves storage overrides untouched;
+ * sending null for a field clears it. A template left with no overrides is
+ * removed.
+ */
+export async function saveChecklistTemplate(
+  target: ChecklistTemplateTarget,
+  managerId: number,
+  fields: ChecklistTemplateFields,
+): Promise<{ success: boolean; error?: string; status?: number; template?: ChecklistTemplate | null; effective?: EffectiveChecklist }> {
+  const owned = await getOwnedTarget(target, managerId);
+  if (!owned) {
+    return { success: false, error: 'Access denied', status: 403 };
+  }
+
+  const provided: ChecklistTemplateFields = {};
+  for (const field of CHECKLIST_FIELDS) {
+    if (fields[field] !== undefined) copyTemplateField(provided, fields, field);
+  }
+  const payload = { ...provided, locationId: owned.locationId, updatedAt: new Date() };
+
+  const [template] = await db
+    .insert(checklistTemplates)
+    .values({ ...payload, ...target })
+    .onConflictDoUpdate({
+      target: 'kitchenId' in target ? checklistTemplates.kitchenId : checklistTemplates.storageListingId,
+      set: payload,
+    })
+    .returning();
+
+  const overridesAnything = CHECKLIST_FIELDS.some((field) => template[field] != null);
+  if (!overridesAnything) {
+    await db.delete(checklistTemplates).where(eq(checklistTemplates.id, template.id));
+  }
+
+  logger.info(`[ChecklistTemplate] ${overridesAnything ? 'Saved' : 'Cleared'} template for ${targetLabel(target)}`, { managerId });
+
+  const effective = await getEffectiveChecklist(owned.locationId, owned.scope);
+  return { success: true, template: overridesAnything ? template : null, effective };
+}
+
+/**
+ * Remove a template so the kitchen or listing falls back to its parent
+ */
+export async function deleteChecklistTemplate(
+  target: ChecklistTemplateTarget,
+  managerId: number,
+): Promise<{ success: boolean; error?: string; status?: number; effective?: EffectiveChecklist }> {
+  const owned = await getOwnedTarget(target, managerId);
+  if (!owned) {
+    return { success: false, error: 'Access denied', status: 403 };
+  }
+
+  await db.delete(checklistTemplates).where(owned.where);
+
+  logger.info(`[ChecklistTemplate] Removed template for ${targetLabel(target)}`, { managerId });
+
+  const effective = await getEffectiveChecklist(owned.locationId, owned.scope);
+  return { success: true, effective };
+}
+
+/**
+ * Templates configured under a location, so the settings pages can show
+ * which kitchens and listings have their own checklist
+ */
+export async function getLocationChecklistTemplates(
+  locationId: number,
+  managerId: number,
+): Promise<{ success: boolean; error?: string; status?: number; templates?: ChecklistTemplate[] }> {
+  const [location] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(and(eq(locations.id, locationId), eq(locations.managerId, managerId)))
+    .limit(1);
+  if (!location) {
+    return { success: false, error: 'Access denied', status: 403 };
+  }
+
+  const templates = await db
+    .select()
+    .from(checklistTemplates)
+    .where(eq(checklistTemplates.locationId, locationId));
+
+  return { success: true, templates };
+}
+
+// ============================================================================
+// COPYING
+// ============================================================================
+
+/**
+ * Copy a kitchen's template onto other kitchens the manager owns, replacing
+ * their templates. Target kitchens may be at other locations.
+ */
+export async function copyKitchenChecklistTemplate(
+  sourceKitchenId: number,
+  targetKitchenIds: number[],
+  managerId: number,
+): Promise<{ success: boolean; error?: string; status?: number; copiedTo?: number[] }> {
+  const targets = Array.from(new Set(targetKitchenIds)).filter((id) => id !== sourceKitchenId);
+  if (targets.length === 0) {
+    return { success: false, error: 'Select at least one other kitchen to copy to', status: 400 };
+  }
+
+  const source = await getOwnedTarget({ kitchenId: sourceKitchenId }, managerId);
+  if (!source) {
+    return { success: false, error: 'Access denied', status: 403 };
+  }
+
+  const [template] = await db
+    .select()
+    .from(checklistTemplates)
+    .where(eq(checklistTemplates.kitchenId, sourceKitchenId))
+    .limit(1);
+  if (!template) {
+    return { success: false, error: 'This kitchen uses the location checklist and has no template to copy', status: 404 };
+  }
+
+  const ownedKitchens = await db
+    .select({ id: kitchens.id, locationId: kitchens.locationId })
+    .from(kitchens)
+    .innerJoin(locations, eq(locations.id, kitchens.locationId))
+    .where(and(inArray(kitchens.id, targets), eq(locations.managerId, managerId)));
+  if (ownedKitchens.length !== targets.length) {
+    return { success: false, error: 'One or more target kitchens were not found', status: 404 };
+  }
+
+  // Copy every column, including nulls, so targets inherit exactly the
+  // sections the source inherits
+  const fields = pickTemplateFields(template);
+  await db.transaction(async (tx) => {
+    for (const kitchen of ownedKitchens) {
+      const payload = { ...fields, locationId: kitchen.locationId, updatedAt: new Date() };
+      await tx
+        .insert(checklistTemplates)
+        .values({ ...payload, kitchenId: kitchen.id })
+        .onConflictDoUpdate({ target: checklistTemplates.kitchenId, set: payload });
+    }
+  });
+
+  const copiedTo = ownedKitchens.map((k) => k.id);
+  logger.info(`[ChecklistTemplate] Copied kitchen ${sourceKitchenId} template`, { managerId, copiedTo });
+
+  return { success: true, copiedTo };
+}
+
+export const checklistTemplateService = {
+  buildLocationChecklist,
+  mergeChecklistTemplates,
+  getEffectiveChecklist,
+  getChecklistTemplate,
+  saveChecklistTemplate,
+  deleteChecklistTemplate,
+  getLocationChecklistTemplates,
+  copyKitchenChecklistTemplate,
+};
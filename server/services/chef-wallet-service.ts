@@ -0,0 +1,877 @@
+import { logger } from "../logger";
+/**
+ * Chef Wallet Service — Prepaid Credit and Location Packages
+ *
+ * A chef's wallet is a ledger of credit lots:
+ *   - 'purchase':      bought as a manager-defined package; spendable only at
+ *                      that package's location and may expire
+ *   - 'promotional':   granted by an admin; platform-funded
+ *   - 'refund_credit': a manager refund returned as credit instead of to the card
+ *
+ * Each lot is in one currency and only pays for bookings charged in it.
+ *
+ * Kitchen booking checkout draws credit down before charging the card. The
+ * card is always charged at least MIN_CARD_CHARGE_CENTS because the booking
+ * flow relies on an authorized PaymentIntent.
+ *
+ * Money for credit stays on the platform balance until it is spent. Each lot
+ * records `fundedCents` — the cash behind it (the package price, or the full
+ * amount for platform-funded credit). When credit pays for a booking, the
+ * manager's payout is topped up by the funded share, like a platform-funded
+ * promo; a package's discount is therefore funded by the manager who sold it.
+ *
+ * Checkout holds credit in a 'pending' redemption that the booking webhook
+ * completes. Holds of abandoned checkouts are released once the Stripe session
+ * has expired, and credit spent on a booking that is cancelled before capture
+ * (or fully refunded) is returned to the lots it came from.
+ */
+
+import { db } from "../db";
+import {
+  chefWalletEntries,
+  chefWalletPackages,
+  kitchenBookings,
+  locations,
+  paymentTransactions,
+  type ChefWalletEntry,
+  type ChefWalletPackage,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { isSupportedCurrency, normalizeCurrency } from "@shared/currency-utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WalletCreditType = "purchase" | "promotional" | "refund_credit";
+export type WalletEntryType = WalletCreditType | "redemption" | "expiry";
+
+export interface WalletPackageInput {
+  name: string;
+  description?: string | null;
+  creditCents: number;
+  priceCents: number;
+  validityDays?: number | null;
+  isActive?: boolean;
+}
+
+export interface PromotionalCreditInput {
+  amountCents: number;
+  locationId?: number | null;
+  currency?: string | null; // Ignored when locationId is set — the location's currency is used
+  expiresAt?: string | null; // ISO timestamp
+  note?: string | null;
+}
+
+/** Part of a debit drawn from one credit lot */
+export interface WalletAllocation {
+  entryId: number;
+  amountCents: number;
+  /** Share of the lot's funded cash — what the platform pays the manager for this part */
+  fundedCents: number;
+}
+
+/** Credit held for a checkout — carried through Stripe metadata into payment_transactions */
+export interface AppliedWalletCredit {
+  holdId: number;
+  appliedCents: number;
+  platformFundedCents: number;
+}
+
+/** `wallet` entry in payment_transactions.metadata */
+export interface WalletTransactionMetadata extends AppliedWalletCredit {
+  /** Amount charged to the card (incl. tax) — used to prorate partial captures */
+  totalChargedCents: number;
+}
+
+type WalletCreditLot = Pick<ChefWalletEntry, "id" | "amountCents" | "remainingCents" | "fundedCents" | "locationId" | "currency" | "expiresAt">;
+
+export interface WalletMaintenanceResult {
+  holdsReleased: number;
+  creditsReturned: number;
+  lotsExpired: number;
+  expiredCents: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CREDIT_TYPES: WalletCreditType[] = ["purchase", "promotional", "refund_credit"];
+
+/** Stripe's minimum CAD charge — credit never covers the last 50¢ of a booking */
+export const MIN_CARD_CHARGE_CENTS = 50;
+
+/** Checkout sessions that hold credit expire after this long (Stripe allows 30 min – 24 h) */
+export const WALLET_HOLD_MINUTES = 60;
+
+/** Slack before an abandoned hold is released, so a session completing at expiry still finds it */
+const HOLD_RELEASE_GRACE_MINUTES = 15;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Validate a manager-submitted package. Returns an error message, or null when valid.
+ */
+export function validateWalletPackageInput(input: WalletPackageInput): string | null {
+  if (!input.name || !input.name.trim()) {
+    return "Package name is required";
+  }
+  if (!Number.isInteger(input.creditCents) || input.creditCents <= 0) {
+    return "Credit must be a whole number of cents greater than 0";
+  }
+  if (!Number.isInteger(input.priceCents) || input.priceCents < MIN_CARD_CHARGE_CENTS) {
+    return `Price must be a whole number of cents, at least ${MIN_CARD_CHARGE_CENTS}`;
+  }
+  if (input.priceCents > input.creditCents) {
+    return "Price cannot be more than the credit the package gives";
+  }
+  if (input.validityDays !== undefined && input.validityDays !== null
+    && (!Number.isInteger(input.validityDays) || input.validityDays <= 0)) {
+    return "Validity must be a whole number of days greater than 0";
+  }
+  return null;
+}
+
+/**
+ * Validate an admin grant of promotional credit. Returns an error message, or null when valid.
+ */
+export function validatePromotionalCreditInput(input: PromotionalCreditInput, now: Date = new Date()): string | null {
+  if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+    return "Credit must be a whole number of cents greater than 0";
+  }
+  if (input.currency && !isSupportedCurrency(input.currency)) {
+    return "Currency is not supported";
+  }
+  if (input.expiresAt) {
+    const expiresAt = new Date(input.expiresAt);
+    if (isNaN(expiresAt.getTime())) {
+      return "Expiry must be a valid date";
+    }
+    if (expiresAt <= now) {
+      return "Expiry must be in the future";
+    }
+  }
+  return null;
+}
+
+/** Expiry of credit bought from a package */
+export function getPackageCreditExpiry(validityDays: number | null, purchasedAt: Date): Date | null {
+  if (!validityDays) return null;
+  return new Date(purchasedAt.getTime() + validityDays * 24 * 60 * 60 * 1000);
+}
+
+/** Whether a credit lot can pay for a booking at a location, charged in `currency` */
+export function isLotSpendable(lot: WalletCreditLot, locationId: number | null, currency: string, now: Date): boolean {
+  if ((lot.remainingCents ?? 0) <= 0) return false;
+  if (lot.expiresAt && lot.expiresAt <= now) return false;
+  if (normalizeCurrency(lot.currency) !== normalizeCurrency(currency)) return false;
+  return lot.locationId === null || locationId === null || lot.locationId === locationId;
+}
+
+/**
+ * Credit to apply to a booking total. Leaves MIN_CARD_CHARGE_CENTS on the card.
+ */
+export function getWalletCreditToApply(availableCents: number, totalCents: number): number {
+  return Math.max(0, Math.min(availableCents, totalCents - MIN_CARD_CHARGE_CENTS));
+}
+
+/**
+ * Draw `amountCents` from credit lots. Location-restricted lots go first (they
+ * can't be used elsewhere), then the soonest to expire, then the oldest.
+ * Returns fewer cents than asked for when the lots don't cover it.
+ */
+export function allocateWalletCredit(
+  lots: WalletCreditLot[],
+  amountCents: number,
+  locationId: number | null,
+  currency: string,
+  now: Date = new Date()
+): WalletAllocation[] {
+  const ordered = lots
+    .filter((lot) => isLotSpendable(lot, locationId, currency, now))
+    .sort((a, b) => {
+      if ((a.locationId === null) !== (b.locationId === null)) return a.locationId === null ? 1 : -1;
+      const aExpiry = a.expiresAt ? a.expiresAt.getTime() : Infinity;
+      const bExpiry = b.expiresAt ? b.expiresAt.getTime() : Infinity;
+      if (aExpiry !== bExpiry) return aExpiry - bExpiry;
+      return a.id - b.id;
+    });
+
+  const allocations: WalletAllocation[] = [];
+  let remaining = amountCents;
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, lot.remainingCents ?? 0);
+    const funded = lot.fundedCents ?? lot.amountCents;
+    allocations.push({
+      entryId: lot.id,
+      amountCents: take,
+      fundedCents: Math.round((take * funded) / lot.amountCents),
+    });
+    remaining -= take;
+  }
+  return allocations;
+}
+
+/**
+ * Platform-funded credit owed to the manager for a captured charge,
+ * prorated when less than the full amount was captured.
+ */
+export function getWalletTopUpCents(wallet: WalletTransactionMetadata, capturedCents: number): number {
+  if (wallet.platformFundedCents <= 0) return 0;
+  if (!wallet.totalChargedCents || wallet.totalChargedCents <= 0) return wallet.platformFundedCents;
+  return Math.min(
+    wallet.platformFundedCents,
+    Math.round((wallet.platformFundedCents * capturedCents) / wallet.totalChargedCents)
+  );
+}
+
+/**
+ * Cut a redemption's allocations down to `amountCents`. Credit goes back to
+ * the lots drawn last (the least restricted) first; each trimmed part keeps
+ * its lot's funded share.
+ */
+export function trimWalletAllocations(allocations: WalletAllocation[], amountCents: number): WalletAllocation[] {
+  let excess = sumCents(allocations, "amountCents") - Math.max(0, amountCents);
+  const kept: WalletAllocation[] = [];
+  for (const allocation of allocations.slice().reverse()) {
+    const giveBack = Math.min(Math.max(0, excess), allocation.amountCents);
+    excess -= giveBack;
+    const keptCents = allocation.amountCents - giveBack;
+    if (keptCents <= 0) continue;
+    kept.unshift({
+      entryId: allocation.entryId,
+      amountCents: keptCents,
+      fundedCents: Math.round((allocation.fundedCents * keptCents) / allocation.amountCents),
+    });
+  }
+  return kept;
+}
+
+function sumCents(allocations: WalletAllocation[], key: "amountCents" | "fundedCents"): number {
+  return allocations.reduce((sum, allocation) => sum + allocation[key], 0);
+}
+
+/** Open credit lots; `currency` null matches every currency (the wallet page lists them all) */
+function spendableLotConditions(chefId: number, locationId: number | null, currency: string | null, now: Date) {
+  return and(
+    eq(chefWalletEntries.chefId, chefId),
+    inArray(chefWalletEntries.entryType, CREDIT_TYPES),
+    eq(chefWalletEntries.status, "completed"),
+    gt(chefWalletEntries.remainingCents, 0),
+    or(isNull(chefWalletEntries.expiresAt), gt(chefWalletEntries.expiresAt, now)),
+    currency === null ? undefined : eq(chefWalletEntries.currency, normalizeCurrency(currency)),
+    locationId === null
+      ? undefined
+      : or(isNull(chefWalletEntries.locationId), eq(chefWalletEntries.locationId, locationId))
+  );
+}
+
+// ============================================================================
+// PACKAGES
+// ============================================================================
+
+function toPackageColumns(input: WalletPackageInput) {
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    creditCents: input.creditCents,
+    priceCents: input.priceCents,
+    validityDays: input.validityDays ?? null,
+    isActive: input.isActive ?? true,
+  };
+}
+
+export async function getWalletPackagesForLocation(locationId: number): Promise<ChefWalletPackage[]> {
+  return db
+    .select()
+    .from(chefWalletPackages)
+    .where(eq(chefWalletPackages.locationId, locationId))
+    .orderBy(asc(chefWalletPackages.priceCents));
+}
+
+/** Packages chefs can buy, optionally for one location */
+export async function getActiveWalletPackages(locationId?: number): Promise<Array<ChefWalletPackage & { locationName: string }>> {
+  const rows = await db
+    .select({ pkg: chefWalletPackages, locationName: locations.name })
+    .from(chefWalletPackages)
+    .innerJoin(locations, eq(locations.id, chefWalletPackages.locationId))
+    .where(and(
+      eq(chefWalletPackages.isActive, true),
+      locationId ? eq(chefWalletPackages.locationId, locationId) : undefined
+    ))
+    .orderBy(asc(locations.name), asc(chefWalletPackages.priceCents));
+  return rows.map((row) => ({ ...row.pkg, locationName: row.locationName }));
+}
+
+export async function getWalletPackageById(id: number): Promise<ChefWalletPackage | null> {
+  const [pkg] = await db.select().from(chefWalletPackages).where(eq(chefWalletPackages.id, id)).limit(1);
+  return pkg || null;
+}
+
+export async function createWalletPackage(locationId: number, input: WalletPackageInput, createdBy: number): Promise<ChefWalletPackage> {
+  const [pkg] = await db
+    .insert(chefWalletPackages)
+    .values({ ...toPackageColumns(input), locationId, createdBy })
+    .returning();
+  logger.info(`[ChefWallet] Created package "${pkg.name}" (id ${pkg.id}) for location ${locationId}`);
+  return pkg;
+}
+
+/** Already-purchased credit keeps the terms it was bought with */
+export async function updateWalletPackage(id: number, input: WalletPackageInput): Promise<ChefWalletPackage | null> {
+  const [pkg] = await db
+    .update(chefWalletPackages)
+    .set({ ...toPackageColumns(input), updatedAt: new Date() })
+    .where(eq(chefWalletPackages.id, id))
+    .returning();
+  return pkg || null;
+}
+
+export async function deleteWalletPackage(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(chefWalletPackages)
+    .where(eq(chefWalletPackages.id, id))
+    .returning({ id: chefWalletPackages.id });
+  return deleted.length > 0;
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/** Credit a chef can spend now on a booking charged in `currency`, optionally at one location */
+export async function getAvailableWalletCredit(chefId: number, locationId: number | null, currency: string): Promise<number> {
+  const [row] = await db
+    .select({ total: sql<number>`coalesce(sum(${chefWalletEntries.remainingCents}), 0)` })
+    .from(chefWalletEntries)
+    .where(spendableLotConditions(chefId, locationId, currency, new Date()));
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Balance, open credit lots and recent history for the chef's wallet page.
+ * Releases the chef's abandoned holds and returns credit from cancelled
+ * bookings first so the balance is current.
+ */
+export async function getWalletSummary(chefId: number, locationId: number | null = null) {
+  await releaseStaleWalletHolds(chefId);
+  await returnWalletCreditForCancelledBookings(chefId);
+
+  const now = new Date();
+  const lots = await db
+    .select({
+      id: chefWalletEntries.id,
+      entryType: chefWalletEntries.entryType,
+      amountCents: chefWalletEntries.amountCents,
+      remainingCents: chefWalletEntries.remainingCents,
+      locationId: chefWalletEntries.locationId,
+      locationName: locations.name,
+      currency: chefWalletEntries.currency,
+      expiresAt: chefWalletEntries.expiresAt,
+      createdAt: chefWalletEntries.createdAt,
+    })
+    .from(chefWalletEntries)
+    .leftJoin(locations, eq(locations.id, chefWalletEntries.locationId))
+    .where(spendableLotConditions(chefId, null, null, now))
+    .orderBy(asc(chefWalletEntries.expiresAt), asc(chefWalletEntries.id));
+
+  const entries = await db
+    .select({
+      id: chefWalletEntries.id,
+      entryType: chefWalletEntries.entryType,
+      amountCents: chefWalletEntries.amountCents,
+      status: chefWalletEntries.status,
+      locationName: locations.name,
+      bookingId: chefWalletEntries.bookingId,
+      expiresAt: chefWalletEntries.expiresAt,
+      note: chefWalletEntries.note,
+      createdAt: chefWalletEntries.createdAt,
+    })
+    .from(chefWalletEntries)
+    .leftJoin(locations, eq(locations.id, chefWalletEntries.locationId))
+    .where(eq(chefWalletEntries.chefId, chefId))
+    .orderBy(desc(chefWalletEntries.createdAt))
+    .limit(50);
+
+  const balanceCents = lots.reduce((sum, lot) => sum + (lot.remainingCents ?? 0), 0);
+  let availableCents = balanceCents;
+  if (locationId !== null) {
+    const [location] = await db
+      .select({ currency: locations.currency })
+      .from(locations)
+      .where(eq(locations.id, locationId))
+      .limit(1);
+    const currency = normalizeCurrency(location?.currency);
+    availableCents = lots
+      .filter((lot) => (lot.locationId === null || lot.locationId === locationId) && lot.currency === currency)
+      .reduce((sum, lot) => sum + (lot.remainingCents ?? 0), 0);
+  }
+
+  return { balanceCents, availableCents, lots, entries };
+}
+
+// ============================================================================
+// CREDITS
+// ============================================================================
+
+export async function grantPromotionalCredit(
+  chefId: number,
+  input: PromotionalCreditInput,
+  createdBy: number
+): Promise<ChefWalletEntry> {
+  let currency = normalizeCurrency(input.currency);
+  if (input.locationId) {
+    const [location] = await db
+      .select({ currency: locations.currency })
+      .from(locations)
+      .where(eq(locations.id, input.locationId))
+      .limit(1);
+    currency = normalizeCurrency(location?.currency);
+  }
+
+  const [entry] = await db
+    .insert(chefWalletEntries)
+    .values({
+      chefId,
+      entryType: "promotional",
+      amountCents: input.amountCents,
+      remainingCents: input.amountCents,
+      fundedCents: input.amountCents,
+      locationId: input.locationId ?? null,
+      currency,
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+      note: input.note?.trim() || null,
+      createdBy,
+    })
+    .returning();
+  logger.info(`[ChefWallet] Admin ${createdBy} granted ${input.amountCents}¢ ${currency} promotional credit to chef ${chefId} (entry ${entry.id})`);
+  return entry;
+}
+
+/**
+ * Return part of a captured booking payment as wallet credit instead of a card
+ * refund. The manager's payout is reversed by the same amount, so the platform
+ * holds the cash and the credit is spendable at any location.
+ */
+export async function refundTransactionToWallet(params: {
+  chefId: number;
+  amountCents: number;
+  transferId: string | null;
+  paymentIntentId: string;
+  bookingId: number | null;
+  currency: string | null;
+  createdBy: number;
+  reason?: string;
+}): Promise<{ refundId: null; transferReversalId: string | null; walletEntryId: number }> {
+  let transferReversalId: string | null = null;
+  if (params.transferId) {
+    const { reverseTransferToPlatform } = await import("./stripe-transfer-service");
+    const reversal = await reverseTransferToPlatform(params.transferId, params.amountCents, {
+      payment_intent_id: params.paymentIntentId,
+      refund_model: "wallet_credit",
+      chef_id: String(params.chefId),
+    });
+    transferReversalId = reversal?.id ?? null;
+  }
+
+  const [entry] = await db
+    .insert(chefWalletEntries)
+    .values({
+      chefId: params.chefId,
+      entryType: "refund_credit",
+      amountCents: params.amountCents,
+      remainingCents: params.amountCents,
+      fundedCents: params.amountCents,
+      currency: normalizeCurrency(params.currency),
+      bookingId: params.bookingId,
+      paymentIntentId: params.paymentIntentId,
+      note: params.reason?.trim() || null,
+      createdBy: params.createdBy,
+    })
+    .returning({ id: chefWalletEntries.id });
+  logger.info(`[ChefWallet] Refunded ${params.amountCents}¢ of ${params.paymentIntentId} to chef ${params.chefId}'s wallet (entry ${entry.id})`);
+
+  return { refundId: null, transferReversalId, walletEntryId: entry.id };
+}
+
+/**
+ * Record a package purchase from its completed Checkout session: adds the
+ * credit lot and a `wallet` payment_transactions row. Idempotent per session.
+ * The PT has no manager — the money stays on the platform until the credit is spent.
+ */
+export async function recordWalletPackagePurchase(params: {
+  sessionId: string;
+  paymentIntentId: string | undefined;
+  chargeId: string | undefined;
+  metadata: Record<string, string>;
+  currency?: string;
+}): Promise<ChefWalletEntry | null> {
+  const chefId = parseInt(params.metadata.chef_id);
+  const packageId = parseInt(params.metadata.package_id);
+  const locationId = parseInt(params.metadata.location_id);
+  const creditCents = parseInt(params.metadata.credit_cents);
+  const priceCents = parseInt(params.metadata.price_cents);
+  if ([chefId, packageId, locationId, creditCents, priceCents].some((value) => isNaN(value))) {
+    logger.error(`[ChefWallet] Invalid package purchase metadata for session ${params.sessionId}:`, params.metadata);
+    return null;
+  }
+
+  const purchasedAt = new Date();
+  const validityDays = params.metadata.validity_days ? parseInt(params.metadata.validity_days) : null;
+  const [entry] = await db
+    .insert(chefWalletEntries)
+    .values({
+      chefId,
+      entryType: "purchase",
+      amountCents: creditCents,
+      remainingCents: creditCents,
+      fundedCents: priceCents,
+      locationId,
+      currency: normalizeCurrency(params.currency),
+      packageId,
+      expiresAt: getPackageCreditExpiry(validityDays, purchasedAt),
+      paymentIntentId: params.paymentIntentId ?? null,
+      checkoutSessionId: params.sessionId,
+      note: params.metadata.package_name || null,
+    })
+    .onConflictDoNothing({ target: chefWalletEntries.checkoutSessionId })
+    .returning();
+  if (!entry) {
+    logger.info(`[ChefWallet] Package purchase for session ${params.sessionId} already recorded`);
+    return null;
+  }
+
+  try {
+    const { createPaymentTransaction } = await import("./payment-transactions-service");
+    await createPaymentTransaction({
+      bookingId: entry.id,
+      bookingType: "wallet",
+      chefId,
+      managerId: null,
+      amount: priceCents,
+      baseAmount: priceCents,
+      serviceFee: 0,
+      managerRevenue: 0,
+      currency: normalizeCurrency(params.currency),
+      paymentIntentId: params.paymentIntentId,
+      chargeId: params.chargeId,
+      status: "succeeded",
+      stripeStatus: "succeeded",
+      metadata: {
+        type: "wallet_package",
+        checkout_session_id: params.sessionId,
+        wallet_entry_id: entry.id,
+        package_id: packageId,
+        location_id: locationId,
+        credit_cents: creditCents,
+      },
+    }, db);
+  } catch (error) {
+    logger.error(`[ChefWallet] Error recording payment transaction for package purchase ${entry.id}:`, error as Error);
+  }
+
+  logger.info(`[ChefWallet] Chef ${chefId} bought package ${packageId}: ${creditCents}¢ credit for ${priceCents}¢ (entry ${entry.id})`);
+  return entry;
+}
+
+// ============================================================================
+// REDEMPTIONS
+// ============================================================================
+
+/**
+ * Hold up to `amountCents` of credit for a checkout. Lots are locked while the
+ * hold is taken so concurrent checkouts can't spend the same credit.
+ * Returns null when the chef has no spendable credit at the location in the
+ * booking's currency.
+ */
+export async function holdWalletCredit(params: {
+  chefId: number;
+  locationId: number;
+  currency: string;
+  amountCents: number;
+}): Promise<AppliedWalletCredit | null> {
+  if (params.amountCents <= 0) return null;
+
+  return db.transaction(async (tx) => {
+    const now = new Date();
+    const lots = await tx
+      .select()
+      .from(chefWalletEntries)
+      .where(spendableLotConditions(params.chefId, params.locationId, params.currency, now))
+      .for("update");
+
+    const allocations = allocateWalletCredit(lots, params.amountCents, params.locationId, params.currency, now);
+    const appliedCents = sumCents(allocations, "amountCents");
+    if (appliedCents <= 0) return null;
+
+    for (const allocation of allocations) {
+      await tx
+        .update(chefWalletEntries)
+        .set({
+          remainingCents: sql`${chefWalletEntries.remainingCents} - ${allocation.amountCents}`,
+          updatedAt: now,
+        })
+        .where(eq(chefWalletEntries.id, allocation.entryId));
+    }
+
+    const [hold] = await tx
+      .insert(chefWalletEntries)
+      .values({
+        chefId: params.chefId,
+        entryType: "redemption",
+        amountCents: -appliedCents,
+        locationId: params.locationId,
+        currency: normalizeCurrency(params.currency),
+        status: "pending",
+        allocations,
+      })
+      .returning({ id: chefWalletEntries.id });
+
+    return {
+      holdId: hold.id,
+      appliedCents,
+      platformFundedCents: sumCents(allocations, "fundedCents"),
+    };
+  });
+}
+
+export async function attachWalletHoldToCheckout(holdId: number, checkoutSessionId: string): Promise<void> {
+  await db
+    .update(chefWalletEntries)
+    .set({ checkoutSessionId, updatedAt: new Date() })
+    .where(eq(chefWalletEntries.id, holdId));
+}
+
+/**
+ * Mark a checkout hold as spent on the booking the webhook created.
+ * Returns false if the hold is missing or was already released.
+ */
+export async function completeWalletRedemption(
+  holdId: number,
+  params: { bookingId: number; paymentIntentId: string | null }
+): Promise<boolean> {
+  const updated = await db
+    .update(chefWalletEntries)
+    .set({
+      status: "completed",
+      bookingId: params.bookingId,
+      paymentIntentId: params.paymentIntentId,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(chefWalletEntries.id, holdId), eq(chefWalletEntries.status, "pending")))
+    .returning({ id: chefWalletEntries.id });
+  if (updated.length === 0) {
+    logger.warn(`[ChefWallet] Wallet hold ${holdId} for booking ${params.bookingId} was not pending — credit not redeemed`);
+    return false;
+  }
+  logger.info(`[ChefWallet] Wallet hold ${holdId} redeemed on booking ${params.bookingId}`);
+  return true;
+}
+
+/**
+ * Put a redemption's credit back on the lots it came from. Lots that expired
+ * in the meantime are picked up by the next expiry run.
+ */
+export async function releaseWalletRedemption(entryId: number, note: string): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [entry] = await tx
+      .select()
+      .from(chefWalletEntries)
+      .where(and(
+        eq(chefWalletEntries.id, entryId),
+        eq(chefWalletEntries.entryType, "redemption"),
+        inArray(chefWalletEntries.status, ["pending", "completed"])
+      ))
+      .for("update");
+    if (!entry) return false;
+
+    const now = new Date();
+    for (const allocation of (entry.allocations as WalletAllocation[] | null) ?? []) {
+      await tx
+        .update(chefWalletEntries)
+        .set({
+          remainingCents: sql`${chefWalletEntries.remainingCents} + ${allocation.amountCents}`,
+          updatedAt: now,
+        })
+        .where(eq(chefWalletEntries.id, allocation.entryId));
+    }
+    await tx
+      .update(chefWalletEntries)
+      .set({ status: "released", note, updatedAt: now })
+      .where(eq(chefWalletEntries.id, entryId));
+    return true;
+  });
+}
+
+/**
+ * Reduce a redemption to `amountCents` when the booking ends up costing less
+ * than the credit held for it (e.g. add-ons rejected at approval), returning
+ * the rest to its lots. Returns the redemption as it now stands, or null if
+ * it is missing or was released.
+ */
+export async function settleWalletRedemption(entryId: number, amountCents: number): Promise<AppliedWalletCredit | null> {
+  return db.transaction(async (tx) => {
+    const [entry] = await tx
+      .select()
+      .from(chefWalletEntries)
+      .where(and(
+        eq(chefWalletEntries.id, entryId),
+        eq(chefWalletEntries.entryType, "redemption"),
+        inArray(chefWalletEntries.status, ["pending", "completed"])
+      ))
+      .for("update");
+    if (!entry) return null;
+
+    const allocations = (entry.allocations as WalletAllocation[] | null) ?? [];
+    const kept = trimWalletAllocations(allocations, amountCents);
+    const now = new Date();
+    for (const allocation of allocations) {
+      const keptCents = kept.find((k) => k.entryId === allocation.entryId)?.amountCents ?? 0;
+      if (keptCents === allocation.amountCents) continue;
+      await tx
+        .update(chefWalletEntries)
+        .set({
+          remainingCents: sql`${chefWalletEntries.remainingCents} + ${allocation.amountCents - keptCents}`,
+          updatedAt: now,
+        })
+        .where(eq(chefWalletEntries.id, allocation.entryId));
+    }
+
+    const appliedCents = sumCents(kept, "amountCents");
+    if (appliedCents !== sumCents(allocations, "amountCents")) {
+      await tx
+        .update(chefWalletEntries)
+        .set({
+          amountCents: -appliedCents,
+          allocations: kept,
+          ...(appliedCents === 0 ? { status: "released" } : {}),
+          updatedAt: now,
+        })
+        .where(eq(chefWalletEntries.id, entryId));
+      logger.info(`[ChefWallet] Redemption ${entryId} settled at ${appliedCents}¢`);
+    }
+    return { holdId: entryId, appliedCents, platformFundedCents: sumCents(kept, "fundedCents") };
+  });
+}
+
+/** Release holds whose checkout session has expired without completing */
+export async function releaseStaleWalletHolds(chefId?: number): Promise<number> {
+  const cutoff = new Date(Date.now() - (WALLET_HOLD_MINUTES + HOLD_RELEASE_GRACE_MINUTES) * 60 * 1000);
+  const stale = await db
+    .select({ id: chefWalletEntries.id })
+    .from(chefWalletEntries)
+    .where(and(
+      eq(chefWalletEntries.entryType, "redemption"),
+      eq(chefWalletEntries.status, "pending"),
+      lt(chefWalletEntries.createdAt, cutoff),
+      chefId ? eq(chefWalletEntries.chefId, chefId) : undefined
+    ));
+
+  let released = 0;
+  for (const hold of stale) {
+    if (await releaseWalletRedemption(hold.id, "Checkout not completed")) released++;
+  }
+  if (released > 0) {
+    logger.info(`[ChefWallet] Released ${released} abandoned checkout hold(s)`);
+  }
+  return released;
+}
+
+/**
+ * Return credit spent on bookings that were cancelled and whose card payment
+ * was voided or fully refunded. A wallet top-up already paid to the manager
+ * is reversed. Partially refunded cancellations keep the credit spent — the
+ * cancellation fee applies to it like the card payment.
+ */
+export async function returnWalletCreditForCancelledBookings(chefId?: number): Promise<number> {
+  const rows = await db
+    .select({
+      id: chefWalletEntries.id,
+      bookingId: chefWalletEntries.bookingId,
+      ptMetadata: paymentTransactions.metadata,
+    })
+    .from(chefWalletEntries)
+    .innerJoin(kitchenBookings, eq(kitchenBookings.id, chefWalletEntries.bookingId))
+    .innerJoin(paymentTransactions, and(
+      eq(paymentTransactions.paymentIntentId, chefWalletEntries.paymentIntentId),
+      eq(paymentTransactions.bookingType, "kitchen")
+    ))
+    .where(and(
+      eq(chefWalletEntries.entryType, "redemption"),
+      eq(chefWalletEntries.status, "completed"),
+      eq(kitchenBookings.status, "cancelled"),
+      inArray(paymentTransactions.status, ["canceled", "refunded"]),
+      chefId ? eq(chefWalletEntries.chefId, chefId) : undefined
+    ));
+
+  let returned = 0;
+  for (const row of rows) {
+    const metadata = (typeof row.ptMetadata === "string" ? JSON.parse(row.ptMetadata) : row.ptMetadata) as
+      { transfer?: { walletTopUpTransferId?: string; walletTopUpCents?: number } } | null;
+    const topUpTransferId = metadata?.transfer?.walletTopUpTransferId;
+    const topUpCents = Number(metadata?.transfer?.walletTopUpCents ?? 0);
+    if (topUpTransferId && topUpCents > 0) {
+      try {
+        const { reverseTransferToPlatform } = await import("./stripe-transfer-service");
+        await reverseTransferToPlatform(topUpTransferId, topUpCents, { wallet_entry_id: String(row.id) });
+      } catch (error) {
+        logger.error(`[ChefWallet] Could not reverse wallet top-up ${topUpTransferId} for booking ${row.bookingId} — credit not returned:`, error as Error);
+        continue;
+      }
+    }
+    if (await releaseWalletRedemption(row.id, `Returned: booking ${row.bookingId} cancelled`)) returned++;
+  }
+  if (returned > 0) {
+    logger.info(`[ChefWallet] Returned credit from ${returned} cancelled booking(s)`);
+  }
+  return returned;
+}
+
+/** Zero out lapsed credit lots, recording an 'expiry' debit for each */
+export async function expireWalletCredit(now: Date = new Date()): Promise<{ lotsExpired: number; expiredCents: number }> {
+  const lapsed = await db
+    .select()
+    .from(chefWalletEntries)
+    .where(and(
+      inArray(chefWalletEntries.entryType, CREDIT_TYPES),
+      eq(chefWalletEntries.status, "completed"),
+      gt(chefWalletEntries.remainingCents, 0),
+      lte(chefWalletEntries.expiresAt, now)
+    ));
+
+  let expiredCents = 0;
+  for (const lot of lapsed) {
+    const amountCents = lot.remainingCents ?? 0;
+    await db.transaction(async (tx) => {
+      await tx
+        .update(chefWalletEntries)
+        .set({ remainingCents: 0, updatedAt: now })
+        .where(eq(chefWalletEntries.id, lot.id));
+      await tx.insert(chefWalletEntries).values({
+        chefId: lot.chefId,
+        entryType: "expiry",
+        amountCents: -amountCents,
+        locationId: lot.locationId,
+        currency: lot.currency,
+        allocations: [{ entryId: lot.id, amountCents, fundedCents: Math.round((amountCents * (lot.fundedCents ?? lot.amountCents)) / lot.amountCents) }],
+      });
+    });
+    expiredCents += amountCents;
+  }
+  if (lapsed.length > 0) {
+    logger.info(`[ChefWallet] Expired ${lapsed.length} credit lot(s), ${expiredCents}¢ total`);
+  }
+  return { lotsExpired: lapsed.length, expiredCents };
+}
+
+/** Daily cron: release abandoned holds, return cancelled-booking credit, expire lapsed lots */
+export async function processWalletMaintenance(): Promise<WalletMaintenanceResult> {
+  const holdsReleased = await releaseStaleWalletHolds();
+  const creditsReturned = await returnWalletCreditForCancelledBookings();
+  const { lotsExpired, expiredCents } = await expireWalletCredit();
+  return { holdsReleased, creditsReturned, lotsExpired, expiredCents };
+}
@@ -13,6 +13,9 @@
 
 import { db } from "../db";
 import { generateReferenceCode } from "../reference-code";
+import { calculateLocationTax } from "./tax-service";
+import { getLocationCurrency } from "./location-currency-service";
+import { toStripeCurrency } from "@shared/currency-utils";
 import {
   damageClaims,
   damageEvidence,
@@ -1262,6 +1265,13 @@ export async function adminDecision(
       } catch (chargeError) {
         logger.error(`[DamageClaimService] Error auto-charging claim ${claimId}:`, chargeError);
       }
+    } else {
+      try {
+        const { releaseSecurityDepositForClaim } = await import('./security-deposit-service');
+        await releaseSecurityDepositForClaim(claim);
+      } catch (releaseError) {
+        logger.error(`[DamageClaimService] Error releasing security deposit after rejecting claim ${claimId}:`, releaseError);
+      }
     }
 
     return { success: true };
@@ -1296,7 +1306,7 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
 
   // ENTERPRISE STANDARD: Allow charging from approved states + recovery statuses
   // - approved/partially_approved/chef_accepted: initial charge after decision
-  // - charge_failed: retry after a previous failure (legacy records)
+  // - charge_failed: dunning retry (daily cron, or right after the chef updates their card)
   // - charge_pending: recovery from stuck state (e.g. server crash during previous charge)
   // - escalated: admin force-retry (e.g. chef updated their card)
   const chargeableStatuses = ['approved', 'partially_approved', 'chef_accepted', 'charge_failed', 'charge_pending', 'escalated'];
@@ -1309,13 +1319,76 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
     return { success: false, error: 'No amount to charge' };
   }
 
+  // Sales tax at the location's jurisdiction rate is charged on top of the claim amount
+  const claimTax = await calculateLocationTax(claim.locationId, chargeAmount);
+  const currency = await getLocationCurrency(claim.locationId);
+  const chargeTotalCents = chargeAmount + claimTax.taxCents;
+
+  // Get manager's Stripe Connect account for destination charge
+  let managerStripeAccountId: string | null = null;
+  const [manager] = await db
+    .select({ stripeConnectAccountId: users.stripeConnectAccountId })
+    .from(users)
+    .where(eq(users.id, claim.managerId))
+    .limit(1);
+
+  managerStripeAccountId = manager?.stripeConnectAccountId || null;
+
+  // A security deposit held for the booking pays the claim first; only what it
+  // does not cover is charged to the saved card off-session
+  const { allocateClaimToDeposit, applySecurityDepositToClaim, getDepositAppliedToClaim } = await import('./security-deposit-service');
+  let depositAppliedCents = await getDepositAppliedToClaim(claimId);
+  if (depositAppliedCents === 0) {
+    const deposit = await applySecurityDepositToClaim(claim, chargeTotalCents);
+    if (deposit) {
+      depositAppliedCents = deposit.appliedCents;
+      const share = allocateClaimToDeposit(chargeTotalCents, claimTax.taxCents, deposit.appliedCents);
+      const depositPayment: ClaimPayment = {
+        paymentIntentId: deposit.paymentIntentId,
+        chargeId: deposit.chargeId,
+        amountCents: share.depositCents,
+        claimAmountCents: share.depositCents - share.depositTaxCents,
+        taxCents: share.depositTaxCents,
+        currency,
+        managerStripeAccountId,
+      };
+
+      if (share.remainderCents === 0) {
+        await db
+          .update(damageClaims)
+          .set({ status: 'charge_pending', chargeAttemptedAt: new Date(), updatedAt: new Date() })
+          .where(eq(damageClaims.id, claimId));
+        return completeClaimCharge(claimId, claim, depositPayment);
+      }
+
+      await recordClaimPayment(claimId, claim, depositPayment);
+      await createHistoryEntry(
+        claimId,
+        claim.status,
+        claim.status,
+        'deposit_applied',
+        'system',
+        undefined,
+        `$${(share.depositCents / 100).toFixed(2)} kept from the security deposit; $${(share.remainderCents / 100).toFixed(2)} to charge to the saved card`,
+        { paymentIntentId: deposit.paymentIntentId, depositAppliedCents: share.depositCents }
+      );
+    }
+  }
+  const { remainderCents: chargeNowCents, remainderTaxCents: chargeNowTaxCents } =
+    allocateClaimToDeposit(chargeTotalCents, claimTax.taxCents, depositAppliedCents);
+
   // Fetch Stripe payment method from the associated booking (kitchen or storage)
   // ENTERPRISE FIX: Fall back to related storage/equipment bookings if primary booking has null Stripe fields
   let customerId: string | null = null;
   let paymentMethodId: string | null = null;
   let paymentMethodSource: string = 'unknown';
 
-  if (claim.bookingType === 'kitchen' && claim.kitchenBookingId) {
+  if (claim.stripeCustomerId && claim.stripePaymentMethodId) {
+    // Card saved on the claim itself (e.g. the chef updated their card after a failed charge)
+    customerId = claim.stripeCustomerId;
+    paymentMethodId = claim.stripePaymentMethodId;
+    paymentMethodSource = 'damage_claim';
+  } else if (claim.bookingType === 'kitchen' && claim.kitchenBookingId) {
     // First try the kitchen booking itself
     const [booking] = await db
       .select({
@@ -1399,16 +1472,6 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
     return { success: false, error: 'No saved payment method available' };
   }
 
-  // Get manager's Stripe Connect account for destination charge
-  let managerStripeAccountId: string | null = null;
-  const [manager] = await db
-    .select({ stripeConnectAccountId: users.stripeConnectAccountId })
-    .from(users)
-    .where(eq(users.id, claim.managerId))
-    .limit(1);
-
-  managerStripeAccountId = manager?.stripeConnectAccountId || null;
-
   // ARCHITECTURE — Separate Charges and Transfers:
   //   No application_fee_amount, no transfer_data on the PaymentIntent.
   //   Charge lands on platform balance. Webhook reads actual Stripe fee from
@@ -1436,8 +1499,8 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
       metadata: Record<string, string>;
       statement_descriptor_suffix: string;
     } = {
-      amount: chargeAmount,
-      currency: 'cad',
+      amount: chargeNowCents,
+      currency: toStripeCurrency(currency),
       customer: customerId,
       payment_method: paymentMethodId,
       off_session: true,
@@ -1448,6 +1511,8 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
         booking_type: claim.bookingType,
         chef_id: claim.chefId.toString(),
         manager_id: claim.managerId.toString(),
+        claim_amount_cents: (chargeNowCents - chargeNowTaxCents).toString(),
+        tax_cents: chargeNowTaxCents.toString(),
       },
       statement_descriptor_suffix: 'DAMAGE CLAIM',
     };
@@ -1459,8 +1524,9 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
     }
 
     // ENTERPRISE STANDARD: Use idempotency key to prevent duplicate charges
-    // Key format: damage_claim_{claimId}_{timestamp_day} - allows retry within same day
-    const idempotencyKey = `damage_claim_${claimId}_${new Date().toISOString().split('T')[0]}`;
+    // Key format: damage_claim_{claimId}_{timestamp_day}_{retryCount} - a dunning retry
+    // (e.g. right after the chef updates their card) must not replay the failed attempt
+    const idempotencyKey = `damage_claim_${claimId}_${new Date().toISOString().split('T')[0]}_${claim.chargeRetryCount}`;
     
     const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams, {
       idempotencyKey,
@@ -1471,264 +1537,323 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
         ? paymentIntent.latest_charge
         : paymentIntent.latest_charge?.id;
 
-      await db
-        .update(damageClaims)
-        .set({
-          status: 'charge_succeeded',
-          stripePaymentIntentId: paymentIntent.id,
-          stripeChargeId: chargeId || null,
-          chargeSucceededAt: new Date(),
-          resolvedAt: new Date(),
-          resolutionType: 'paid',
-          updatedAt: new Date(),
-        })
-        .where(eq(damageClaims.id, claimId));
+      return completeClaimCharge(claimId, claim, {
+        paymentIntentId: paymentIntent.id,
+        chargeId: chargeId || undefined,
+        amountCents: chargeNowCents,
+        claimAmountCents: chargeNowCents - chargeNowTaxCents,
+        taxCents: chargeNowTaxCents,
+        currency,
+        managerStripeAccountId,
+        depositAppliedCents,
+      });
+    } else {
+      // Auto-charge failed — schedule a dunning retry, or escalate once retries are exhausted
+      const failureReason = paymentIntent.status === 'requires_action' || 
+                            paymentIntent.status === 'requires_confirmation' ||
+                            paymentIntent.status === 'requires_payment_method'
+        ? `Payment requires authentication (3DS/SCA)`
+        : `Payment status: ${paymentIntent.status}`;
 
-      await createHistoryEntry(
+      return recordClaimChargeFailure(
         claimId,
-        'charge_pending',
-        'charge_succeeded',
-        'charge_attempt',
-        'stripe_webhook',
-        undefined,
-        `Payment successful: ${paymentIntent.id}`,
-        { paymentIntentId: paymentIntent.id, chargeId }
+        claim,
+        customerId,
+        failureReason,
+        { paymentIntentId: paymentIntent.id, status: paymentIntent.status },
+        paymentIntent.id
       );
+    }
+  } catch (error: unknown) {
+    // Covers: 3DS/SCA, card declined, expired card, insufficient funds, network errors.
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const stripeErrorCode = (error as any)?.code || (error as any)?.raw?.code || '';
+    const failureReason = stripeErrorCode === 'authentication_required' || 
+                           errorMessage.includes('requires authentication') ||
+                           errorMessage.includes('authentication_required')
+      ? `Payment requires authentication (3DS/SCA)`
+      : errorMessage;
 
-      // Create payment transaction record (initial values; webhook overrides with actual transfer)
-      //
-      // ARCHITECTURE — Separate Charges and Transfers:
-      //   At this point we don't know the actual Stripe processing fee yet
-      //   (balance_transaction may not be ready). The webhook (payment_intent.succeeded
-      //   or charge.updated) will:
-      //     1. Read balance_transaction.fee
-      //     2. Call stripe.transfers.create() to send (charge − actualFee − commission)
-      //        to the manager's Connect account
-      //     3. Update PT.serviceFee and PT.managerRevenue to reflect the actual transfer
-      //   We seed the PT with conservative initial values (serviceFee=0, managerRevenue=charge);
-      //   they will be corrected by the webhook.
-      try {
-        const { createPaymentTransaction, updatePaymentTransaction } = await import("./payment-transactions-service");
-        const { getStripePaymentAmounts } = await import("./stripe-service");
+    logger.error(`[DamageClaimService] Charge failed for claim ${claimId}:`, {
+      error: errorMessage,
+      stripeErrorCode,
+    });
 
-        const ptRecord = await createPaymentTransaction({
-          bookingId: claim.bookingType === 'storage' ? claim.storageBookingId! : claim.kitchenBookingId!,
-          bookingType: claim.bookingType as 'kitchen' | 'storage',
-          chefId: claim.chefId,
-          managerId: claim.managerId,
-          amount: chargeAmount,
-          baseAmount: chargeAmount, // No tax on damage claims, so base = amount
-          serviceFee: 0, // Will be set by webhook to actualStripeFee + platformCommission
-          managerRevenue: chargeAmount, // Will be reduced by webhook to actual transfer amount
-          currency: "CAD",
-          paymentIntentId: paymentIntent.id,
-          chargeId: chargeId || undefined,
-          status: "succeeded",
-          stripeStatus: "succeeded",
-          metadata: {
-            type: "damage_claim",
-            damage_claim_id: claimId.toString(),
-            is_reimbursement: "true",
-            no_tax: "true",
-            manager_connect_account_id: managerStripeAccountId || '',
-          },
-        }, db);
+    return recordClaimChargeFailure(
+      claimId,
+      claim,
+      customerId,
+      failureReason,
+      { error: errorMessage, stripeErrorCode }
+    );
+  }
+}
 
-        // Try to sync stripe fees and create the transfer immediately if balance_transaction is ready.
-        // If not ready, charge.updated webhook will retry the transfer.
-        if (ptRecord) {
-          const stripeAmounts = await getStripePaymentAmounts(paymentIntent.id, managerStripeAccountId || undefined);
-          if (stripeAmounts) {
-            await updatePaymentTransaction(ptRecord.id, {
-              paidAt: new Date(),
-              lastSyncedAt: new Date(),
-              stripeAmount: stripeAmounts.stripeAmount,
-              stripeProcessingFee: stripeAmounts.stripeProcessingFee,
-              stripePlatformFee: stripeAmounts.stripePlatformFee,
-              stripeNetAmount: stripeAmounts.stripeNetAmount,
-            }, db);
-
-            // Create transfer to manager if Connect account + balance_transaction available
-            if (managerStripeAccountId && stripeAmounts.stripeProcessingFee > 0) {
-              const { transferToManagerForBooking } = await import('./stripe-transfer-service');
-              try {
-                const transferResult = await transferToManagerForBooking({
-                  paymentIntentId: paymentIntent.id,
-                  paymentTransactionId: ptRecord.id,
-                  chargeAmountCents: stripeAmounts.stripeAmount,
-                  actualStripeFeeCents: stripeAmounts.stripeProcessingFee,
-                  chargeId: chargeId || stripeAmounts.chargeId || undefined,
-                  transferGroup: `pi_${paymentIntent.id}`,
-                });
-                if (transferResult.transferred) {
-                  await updatePaymentTransaction(ptRecord.id, {
-                    serviceFee: transferResult.feeWithheldCents,
-                    managerRevenue: transferResult.transferredCents,
-                    stripePlatformFee: transferResult.feeWithheldCents,
-                    stripeNetAmount: transferResult.transferredCents,
-                    metadata: {
-                      type: 'damage_claim',
-                      damage_claim_id: claimId.toString(),
-                      is_reimbursement: 'true',
-                      no_tax: 'true',
-                      manager_connect_account_id: managerStripeAccountId,
-                      transfer: {
-                        transferred: true,
-                        transferId: transferResult.transferId,
-                        actualStripeFeeCents: transferResult.actualStripeFeeCents,
-                        platformCommissionCents: transferResult.platformCommissionCents,
-                        feeWithheldCents: transferResult.feeWithheldCents,
-                        transferredCents: transferResult.transferredCents,
-                      },
-                    },
-                  }, db);
-                }
-              } catch (transferErr) {
-                logger.error(`[DamageClaimService] Transfer error for ${paymentIntent.id} (will retry on charge.updated):`, transferErr);
-              }
-            }
+/** A successful Stripe payment toward a claim */
+interface ClaimPayment {
+  paymentIntentId: string;
+  chargeId?: string;
+  amountCents: number; // Collected by this payment, tax included
+  claimAmountCents: number; // Pre-tax part of amountCents
+  taxCents: number;
+  currency: string;
+  managerStripeAccountId: string | null;
+  depositAppliedCents?: number; // Already kept from the security deposit (remainder charges only)
+}
 
-            logger.info(`[DamageClaimService] Synced Stripe fees for damage claim ${claimId}:`, {
-              processingFee: `$${(stripeAmounts.stripeProcessingFee / 100).toFixed(2)}`,
-            });
-          }
-        }
+/**
+ * Mark a claim paid and record the payment: ledger row, manager transfer and
+ * notifications
+ */
+async function completeClaimCharge(
+  claimId: number,
+  claim: DamageClaim,
+  payment: ClaimPayment
+): Promise<ChargeResult> {
+  await db
+    .update(damageClaims)
+    .set({
+      status: 'charge_succeeded',
+      stripePaymentIntentId: payment.paymentIntentId,
+      stripeChargeId: payment.chargeId || null,
+      chargeSucceededAt: new Date(),
+      nextChargeRetryAt: null,
+      resolvedAt: new Date(),
+      resolutionType: 'paid',
+      updatedAt: new Date(),
+    })
+    .where(eq(damageClaims.id, claimId));
 
-        logger.info(`[DamageClaimService] Created payment transaction for damage claim ${claimId}`, {
-          amount: chargeAmount,
-        });
-      } catch (ptError) {
-        logger.error(`[DamageClaimService] Failed to create payment transaction:`, ptError);
-      }
+  await createHistoryEntry(
+    claimId,
+    'charge_pending',
+    'charge_succeeded',
+    'charge_attempt',
+    'stripe_webhook',
+    undefined,
+    `Payment successful: ${payment.paymentIntentId}`,
+    { paymentIntentId: payment.paymentIntentId, chargeId: payment.chargeId, depositAppliedCents: payment.depositAppliedCents }
+  );
+
+  await recordClaimPayment(claimId, claim, payment);
+
+  logger.info(`[DamageClaimService] Claim ${claimId} charged successfully`, {
+    paymentIntentId: payment.paymentIntentId,
+    amount: payment.amountCents,
+  });
 
-      logger.info(`[DamageClaimService] Claim ${claimId} charged successfully`, {
-        paymentIntentId: paymentIntent.id,
-        amount: chargeAmount,
+  // Send email notification to chef about the charge
+  try {
+    const claimWithDetails = await getClaimById(claimId);
+    const [chefUser] = await db.select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, claim.chefId))
+      .limit(1);
+
+    if (chefUser?.username && claimWithDetails) {
+      const chargeEmail = generateDamageClaimChargedEmail({
+        chefEmail: chefUser.username,
+        chefName: claimWithDetails.chefName || chefUser.username || 'Chef',
+        claimTitle: claim.claimTitle,
+        chargedAmount: `$${((payment.amountCents + (payment.depositAppliedCents ?? 0)) / 100).toFixed(2)}`,
+        locationName: claimWithDetails.locationName || 'Unknown Location',
+        claimId: claim.id,
       });
+      await sendEmail(chargeEmail);
+      logger.info(`[DamageClaimService] Sent charge notification to chef ${chefUser.username}`);
 
-      // Send email notification to chef about the charge
+      // Send in-app notifications for successful charge
       try {
-        const claimWithDetails = await getClaimById(claimId);
-        const [chefUser] = await db.select({ username: users.username })
-          .from(users)
-          .where(eq(users.id, claim.chefId))
-          .limit(1);
+        const { notificationService } = await import('./notification.service');
+        
+        // Notify chef that claim was charged
+        await notificationService.notifyChefDamageClaimCharged({
+          chefId: claim.chefId,
+          claimId: claim.id,
+          claimTitle: claim.claimTitle,
+          amountCents: claim.finalAmountCents!,
+          locationName: claimWithDetails.locationName || 'Unknown Location',
+          bookingType: claim.bookingType,
+        });
 
-        if (chefUser?.username && claimWithDetails) {
-          const chargeEmail = generateDamageClaimChargedEmail({
-            chefEmail: chefUser.username,
-            chefName: claimWithDetails.chefName || chefUser.username || 'Chef',
-            claimTitle: claim.claimTitle,
-            chargedAmount: `$${(chargeAmount / 100).toFixed(2)}`,
-            locationName: claimWithDetails.locationName || 'Unknown Location',
-            claimId: claim.id,
-          });
-          await sendEmail(chargeEmail);
-          logger.info(`[DamageClaimService] Sent charge notification to chef ${chefUser.username}`);
+        // Notify manager that payment was received
+        await notificationService.notifyManagerDamageClaimReceived({
+          managerId: claim.managerId,
+          locationId: claim.locationId,
+          chefName: claimWithDetails.chefName || chefUser.username || 'Chef',
+          claimId: claim.id,
+          claimTitle: claim.claimTitle,
+          amountCents: claim.finalAmountCents!,
+          locationName: claimWithDetails.locationName || 'Unknown Location',
+          bookingType: claim.bookingType,
+        });
 
-          // Send in-app notifications for successful charge
-          try {
-            const { notificationService } = await import('./notification.service');
-            
-            // Notify chef that claim was charged
-            await notificationService.notifyChefDamageClaimCharged({
-              chefId: claim.chefId,
-              claimId: claim.id,
-              claimTitle: claim.claimTitle,
-              amountCents: chargeAmount,
-              locationName: claimWithDetails.locationName || 'Unknown Location',
-              bookingType: claim.bookingType,
-            });
+        logger.info(`[DamageClaimService] Sent in-app charge notifications for claim ${claimId}`);
+      } catch (notifError) {
+        logger.error('[DamageClaimService] Failed to send in-app charge notifications:', notifError);
+      }
+    }
+  } catch (emailError) {
+    logger.error('[DamageClaimService] Failed to send charge email:', emailError);
+  }
 
-            // Notify manager that payment was received
-            await notificationService.notifyManagerDamageClaimReceived({
-              managerId: claim.managerId,
-              locationId: claim.locationId,
-              chefName: claimWithDetails.chefName || chefUser.username || 'Chef',
-              claimId: claim.id,
-              claimTitle: claim.claimTitle,
-              amountCents: chargeAmount,
-              locationName: claimWithDetails.locationName || 'Unknown Location',
-              bookingType: claim.bookingType,
-            });
+  return {
+    success: true,
+    paymentIntentId: payment.paymentIntentId,
+    chargeId: payment.chargeId,
+  };
+}
 
-            logger.info(`[DamageClaimService] Sent in-app charge notifications for claim ${claimId}`);
-          } catch (notifError) {
-            logger.error('[DamageClaimService] Failed to send in-app charge notifications:', notifError);
+/**
+ * Create the payment transaction for a claim payment and transfer the
+ * manager's share when Stripe's fee is already known
+ */
+async function recordClaimPayment(claimId: number, claim: DamageClaim, payment: ClaimPayment): Promise<void> {
+  // Create payment transaction record (initial values; webhook overrides with actual transfer)
+  //
+  // ARCHITECTURE — Separate Charges and Transfers:
+  //   At this point we don't know the actual Stripe processing fee yet
+  //   (balance_transaction may not be ready). The webhook (payment_intent.succeeded
+  //   or charge.updated) will:
+  //     1. Read balance_transaction.fee
+  //     2. Call stripe.transfers.create() to send (charge − actualFee − commission)
+  //        to the manager's Connect account
+  //     3. Update PT.serviceFee and PT.managerRevenue to reflect the actual transfer
+  //   We seed the PT with conservative initial values (serviceFee=0, managerRevenue=charge);
+  //   they will be corrected by the webhook.
+  try {
+    const { createPaymentTransaction, updatePaymentTransaction } = await import("./payment-transactions-service");
+    const { getStripePaymentAmounts } = await import("./stripe-service");
+
+    const ptRecord = await createPaymentTransaction({
+      bookingId: claim.bookingType === 'storage' ? claim.storageBookingId! : claim.kitchenBookingId!,
+      bookingType: claim.bookingType as 'kitchen' | 'storage',
+      chefId: claim.chefId,
+      managerId: claim.managerId,
+      amount: payment.amountCents,
+      baseAmount: payment.claimAmountCents,
+      serviceFee: 0, // Will be set by webhook to actualStripeFee + platformCommission
+      managerRevenue: payment.amountCents, // Will be reduced by webhook to actual transfer amount
+      taxCents: payment.taxCents,
+      currency: payment.currency,
+      paymentIntentId: payment.paymentIntentId,
+      chargeId: payment.chargeId,
+      status: "succeeded",
+      stripeStatus: "succeeded",
+      metadata: {
+        type: "damage_claim",
+        damage_claim_id: claimId.toString(),
+        is_reimbursement: "true",
+        claim_amount_cents: payment.claimAmountCents.toString(),
+        tax_cents: payment.taxCents.toString(),
+        manager_connect_account_id: payment.managerStripeAccountId || '',
+      },
+    }, db);
+
+    // Try to sync stripe fees and create the transfer immediately if balance_transaction is ready.
+    // If not ready, charge.updated webhook will retry the transfer.
+    if (ptRecord) {
+      const stripeAmounts = await getStripePaymentAmounts(payment.paymentIntentId, payment.managerStripeAccountId || undefined);
+      if (stripeAmounts) {
+        // A captured security deposit is charged in full and refunded down to the part kept
+        const collectedCents = Math.min(stripeAmounts.stripeAmount, payment.amountCents);
+        await updatePaymentTransaction(ptRecord.id, {
+          paidAt: new Date(),
+          lastSyncedAt: new Date(),
+          stripeAmount: collectedCents,
+          stripeProcessingFee: stripeAmounts.stripeProcessingFee,
+          stripePlatformFee: stripeAmounts.stripePlatformFee,
+          stripeNetAmount: stripeAmounts.stripeNetAmount,
+        }, db);
+
+        // Create transfer to manager if Connect account + balance_transaction available
+        if (payment.managerStripeAccountId && stripeAmounts.stripeProcessingFee > 0) {
+          const { transferToManagerForBooking } = await import('./stripe-transfer-service');
+          try {
+            const transferResult = await transferToManagerForBooking({
+              paymentIntentId: payment.paymentIntentId,
+              paymentTransactionId: ptRecord.id,
+              chargeAmountCents: collectedCents,
+              actualStripeFeeCents: stripeAmounts.stripeProcessingFee,
+              chargeId: payment.chargeId || stripeAmounts.chargeId || undefined,
+              transferGroup: `pi_${payment.paymentIntentId}`,
+            });
+            if (transferResult.transferred) {
+              await updatePaymentTransaction(ptRecord.id, {
+                serviceFee: transferResult.feeWithheldCents,
+                managerRevenue: transferResult.transferredCents,
+                stripePlatformFee: transferResult.feeWithheldCents,
+                stripeNetAmount: transferResult.transferredCents,
+                metadata: {
+                  type: 'damage_claim',
+                  damage_claim_id: claimId.toString(),
+                  is_reimbursement: 'true',
+                  claim_amount_cents: payment.claimAmountCents.toString(),
+                  tax_cents: payment.taxCents.toString(),
+                  manager_connect_account_id: payment.managerStripeAccountId,
+                  transfer: {
+                    transferred: true,
+                    transferId: transferResult.transferId,
+                    actualStripeFeeCents: transferResult.actualStripeFeeCents,
+                    platformCommissionCents: transferResult.platformCommissionCents,
+                    feeWithheldCents: transferResult.feeWithheldCents,
+                    transferredCents: transferResult.transferredCents,
+                  },
+                },
+              }, db);
+            }
+          } catch (transferErr) {
+            logger.error(`[DamageClaimService] Transfer error for ${payment.paymentIntentId} (will retry on charge.updated):`, transferErr);
           }
         }
-      } catch (emailError) {
-        logger.error('[DamageClaimService] Failed to send charge email:', emailError);
-      }
-
-      return {
-        success: true,
-        paymentIntentId: paymentIntent.id,
-        chargeId: chargeId || undefined,
-      };
-    } else {
-      // ENTERPRISE STANDARD: Auto-charge failed — immediately escalate and create self-serve checkout.
-      // No retry system. On any failure: escalate → chef gets payment link → admin notified.
-      const failureReason = paymentIntent.status === 'requires_action' || 
-                            paymentIntent.status === 'requires_confirmation' ||
-                            paymentIntent.status === 'requires_payment_method'
-        ? `Payment requires authentication (3DS/SCA)`
-        : `Payment status: ${paymentIntent.status}`;
 
-      await db
-        .update(damageClaims)
-        .set({
-          status: 'escalated',
-          stripePaymentIntentId: paymentIntent.id,
-          chargeFailedAt: new Date(),
-          chargeFailureReason: failureReason,
-          resolutionType: 'escalated_collection',
-          resolutionNotes: `Auto-escalated: off-session charge failed (${failureReason}). Self-serve payment link sent to chef.`,
-          updatedAt: new Date(),
-        })
-        .where(eq(damageClaims.id, claimId));
+        logger.info(`[DamageClaimService] Synced Stripe fees for damage claim ${claimId}:`, {
+          processingFee: `$${(stripeAmounts.stripeProcessingFee / 100).toFixed(2)}`,
+        });
+      }
+    }
 
-      await createHistoryEntry(
-        claimId,
-        'charge_pending',
-        'escalated',
-        'auto_escalation',
-        'system',
-        undefined,
-        `Off-session charge failed: ${failureReason}. Escalated immediately.`,
-        { paymentIntentId: paymentIntent.id, status: paymentIntent.status }
-      );
+    logger.info(`[DamageClaimService] Created payment transaction for damage claim ${claimId}`, {
+      amount: payment.amountCents,
+    });
+  } catch (ptError) {
+    logger.error(`[DamageClaimService] Failed to create payment transaction:`, ptError);
+  }
+}
 
-      // Create self-serve checkout session and email chef
-      await sendDamageClaimPaymentLinkToChef(claimId, claim, failureReason);
+// ============================================================================
+// CHARGE FAILURE RECOVERY FUNCTIONS (Enterprise Standard)
+// ============================================================================
 
-      // Notify admins of escalation
-      await sendDamageClaimEscalationAdminEmail(claimId, claim, failureReason);
+/**
+ * Record a failed off-session claim charge (see charge-retry-service).
+ * While the backoff schedule has retries left: charge_failed, next retry
+ * scheduled and a card-update link emailed to the chef. Once exhausted:
+ * escalate — self-serve payment link to the chef and admins notified.
+ */
+async function recordClaimChargeFailure(
+  claimId: number,
+  claim: DamageClaim,
+  customerId: string,
+  failureReason: string,
+  metadata: Record<string, unknown>,
+  paymentIntentId?: string
+): Promise<ChargeResult> {
+  const { getChargeRetryBackoffHours, getNextChargeRetryAt, sendCardUpdateLinkToChef } = await import('./charge-retry-service');
 
-      return { 
-        success: false, 
-        error: `Auto-charge failed (${failureReason}). Escalated — payment link sent to chef.`,
-      };
-    }
-  } catch (error: unknown) {
-    // ENTERPRISE STANDARD: On ANY Stripe exception, immediately escalate + create self-serve checkout.
-    // No retry system. Covers: 3DS/SCA, card declined, expired card, insufficient funds, network errors.
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const stripeErrorCode = (error as any)?.code || (error as any)?.raw?.code || '';
-    const failureReason = stripeErrorCode === 'authentication_required' || 
-                           errorMessage.includes('requires authentication') ||
-                           errorMessage.includes('authentication_required')
-      ? `Payment requires authentication (3DS/SCA)`
-      : errorMessage;
+  const failedAttempts = claim.chargeRetryCount + 1;
+  const nextRetryAt = getNextChargeRetryAt(failedAttempts, await getChargeRetryBackoffHours(), new Date());
 
+  if (nextRetryAt) {
     await db
       .update(damageClaims)
       .set({
-        status: 'escalated',
+        status: 'charge_failed',
+        ...(paymentIntentId ? { stripePaymentIntentId: paymentIntentId } : {}),
         chargeFailedAt: new Date(),
         chargeFailureReason: failureReason,
-        resolutionType: 'escalated_collection',
-        resolutionNotes: `Auto-escalated: off-session charge threw error (${failureReason}). Self-serve payment link sent to chef.`,
+        chargeRetryCount: failedAttempts,
+        nextChargeRetryAt: nextRetryAt,
         updatedAt: new Date(),
       })
       .where(eq(damageClaims.id, claimId));
@@ -1736,36 +1861,86 @@ export async function chargeApprovedClaim(claimId: number): Promise<ChargeResult
     await createHistoryEntry(
       claimId,
       'charge_pending',
-      'escalated',
-      'auto_escalation',
+      'charge_failed',
+      'charge_retry_scheduled',
       'system',
       undefined,
-      `Off-session charge error: ${failureReason}. Escalated immediately.`,
-      { error: errorMessage, stripeErrorCode }
+      `Off-session charge failed (attempt ${failedAttempts}): ${failureReason}. Retry scheduled for ${nextRetryAt.toISOString()}.`,
+      { ...metadata, attempt: failedAttempts, nextRetryAt: nextRetryAt.toISOString() }
     );
 
-    logger.error(`[DamageClaimService] Charge failed — escalated immediately for claim ${claimId}:`, {
-      error: errorMessage,
-      stripeErrorCode,
+    const cardUpdateUrl = await sendCardUpdateLinkToChef({
+      chargeType: 'damage_claim',
+      targetId: claimId,
+      chefId: claim.chefId,
+      customerId,
+      amountCents: claim.finalAmountCents || claim.claimedAmountCents,
+      currency: await getLocationCurrency(claim.locationId),
+      description: `Damage claim — ${claim.claimTitle}`,
+      failureReason,
+      nextRetryAt,
     });
 
-    // Create self-serve checkout session and email chef
-    await sendDamageClaimPaymentLinkToChef(claimId, claim, failureReason);
-
-    // Notify admins of escalation
-    await sendDamageClaimEscalationAdminEmail(claimId, claim, failureReason);
+    if (cardUpdateUrl) {
+      await createHistoryEntry(
+        claimId,
+        'charge_failed',
+        'charge_failed',
+        'card_update_link_sent',
+        'system',
+        undefined,
+        'Card update link sent to chef',
+        { cardUpdateUrl }
+      );
+    }
 
-    return { success: false, error: `Auto-charge failed (${failureReason}). Escalated — payment link sent to chef.` };
+    return {
+      success: false,
+      error: `Auto-charge failed (${failureReason}). Retry scheduled — card update link sent to chef.`,
+    };
   }
-}
 
-// ============================================================================
-// CHARGE FAILURE RECOVERY FUNCTIONS (Enterprise Standard)
-// ============================================================================
+  await db
+    .update(damageClaims)
+    .set({
+      status: 'escalated',
+      ...(paymentIntentId ? { stripePaymentIntentId: paymentIntentId } : {}),
+      chargeFailedAt: new Date(),
+      chargeFailureReason: failureReason,
+      chargeRetryCount: failedAttempts,
+      nextChargeRetryAt: null,
+      resolutionType: 'escalated_collection',
+      resolutionNotes: `Auto-escalated: off-session charge failed ${failedAttempts} time(s) (${failureReason}). Self-serve payment link sent to chef.`,
+      updatedAt: new Date(),
+    })
+    .where(eq(damageClaims.id, claimId));
+
+  await createHistoryEntry(
+    claimId,
+    'charge_pending',
+    'escalated',
+    'auto_escalation',
+    'system',
+    undefined,
+    `Off-session charge failed (attempt ${failedAttempts}): ${failureReason}. Retries exhausted — escalated.`,
+    { ...metadata, attempt: failedAttempts }
+  );
+
+  // Create self-serve checkout session and email chef
+  await sendDamageClaimPaymentLinkToChef(claimId, claim, failureReason);
+
+  // Notify admins of escalation
+  await sendDamageClaimEscalationAdminEmail(claimId, claim, failureReason);
+
+  return { 
+    success: false, 
+    error: `Auto-charge failed (${failureReason}). Escalated — payment link sent to chef.`,
+  };
+}
 
 /**
  * Send a self-serve Stripe Checkout payment link to the chef on escalation.
- * Called immediately when auto-charge fails — no retry system.
+ * Called once dunning retries of the auto-charge are exhausted.
  *
  * Flow: Auto-charge fails → escalate → chef gets this payment link → if chef pays, webhook resolves it.
  */
@@ -1831,7 +2006,7 @@ async function sendDamageClaimPaymentLinkToChef(
 
 /**
  * Notify all admin users when a damage claim is escalated.
- * Called immediately when auto-charge fails — no retry system.
+ * Called once dunning retries of the auto-charge are exhausted.
  */
 async function sendDamageClaimEscalationAdminEmail(
   claimId: number,
@@ -1924,6 +2099,14 @@ export async function createDamageClaimPaymentCheckout(
     if (!chargeAmount || chargeAmount <= 0) {
       return { error: 'No amount to charge' };
     }
+    const claimTax = await calculateLocationTax(claim.locationId, chargeAmount);
+    const currency = await getLocationCurrency(claim.locationId);
+
+    // Only what the security deposit did not already cover is still owed
+    const { allocateClaimToDeposit, getDepositAppliedToClaim } = await import('./security-deposit-service');
+    const owed = allocateClaimToDeposit(chargeAmount + claimTax.taxCents, claimTax.taxCents, await getDepositAppliedToClaim(claimId));
+    const owedTaxCents = owed.remainderTaxCents;
+    const owedClaimCents = owed.remainderCents - owedTaxCents;
 
     // Get customer ID
     let customerId: string | null = null;
@@ -1979,12 +2162,12 @@ export async function createDamageClaimPaymentCheckout(
       mode: 'payment',
       line_items: [{
         price_data: {
-          currency: 'cad',
+          currency: toStripeCurrency(currency),
           product_data: {
             name: `Damage Claim: ${claim.claimTitle}`,
             description: `Damage claim #${claimId}`,
           },
-          unit_amount: chargeAmount,
+          unit_amount: owed.remainderCents,
         },
         quantity: 1,
       }],
@@ -1996,6 +2179,8 @@ export async function createDamageClaimPaymentCheckout(
         chef_id: chefId.toString(),
         manager_id: claim.managerId.toString(),
         manager_connect_account_id: managerStripeAccountId || '',
+        claim_amount_cents: owedClaimCents.toString(),
+        tax_cents: owedTaxCents.toString(),
       },
       invoice_creation: {
         enabled: true,
@@ -2419,7 +2604,13 @@ export async function refundDamageClaim(
       return { success: false, error: 'No payment intent found for this claim. Manual refund required in Stripe Dashboard.' };
     }
 
-    const chargedAmount = claim.finalAmountCents || claim.approvedAmountCents || claim.claimedAmountCents;
+    // What the chef actually paid, including any sales tax charged on top of the claim
+    let chargedAmount = claim.finalAmountCents || claim.approvedAmountCents || claim.claimedAmountCents;
+    const { findPaymentTransactionByIntentId } = await import('./payment-transactions-service');
+    const claimPayment = await findPaymentTransactionByIntentId(claim.stripePaymentIntentId, db);
+    if (claimPayment) {
+      chargedAmount = parseInt(claimPayment.amount) || chargedAmount;
+    }
     const refundAmount = partialAmountCents || chargedAmount;
 
     // Validate refund amount
@@ -1,9 +1,19 @@
 import { logger } from "../logger";
 import PDFDocument from 'pdfkit';
 import { db } from "../db";
-import { paymentTransactions } from "@shared/schema";
+import { paymentTransactions, type CreditNote, type CreditNoteLine } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { getStripePaymentAmounts } from "./stripe-service";
+import {
+  buildInvoiceTaxDetails,
+  formatTaxLabel,
+  getInvoiceTaxDetails,
+  getLocationTaxProfile,
+  type TaxBreakdown,
+} from "./tax-service";
+import { getLocationCurrency } from "./location-currency-service";
+import { normalizeCurrency } from "@shared/currency-utils";
+import type { PromoTransactionMetadata } from "./promo-code-service";
 
 /**
  * Generate invoice PDF for a booking
@@ -20,6 +30,7 @@ export async function generateInvoicePDF(
   options?: { viewer?: 'chef' | 'manager' }
 ): Promise<Buffer> {
   const invoiceViewer = options?.viewer ?? 'chef';
+  const invoiceCurrency = normalizeCurrency(booking.currency);
   // Get Stripe-synced amounts from payment_transactions if available
   let stripePlatformFee = 0; // Platform fee from Stripe (in cents)
   let stripeTotalAmount = 0; // Total amount from Stripe (in cents)
@@ -28,6 +39,8 @@ export async function generateInvoicePDF(
   // Note: Stripe processing fee is handled internally by Stripe, not tracked here
   const stripeStorageBaseAmounts: Map<number, number> = new Map(); // Storage booking ID -> base amount
   const stripeEquipmentBaseAmounts: Map<number, number> = new Map(); // Equipment booking ID -> base amount
+  let promo: { code: string; discountCents: number; absorbedBy: string } | null = null; // Promo discount from PT metadata
+  let recordedTaxBreakdown: TaxBreakdown | null = null; // GST/HST/PST split recorded with the payment
 
   if (paymentIntentId) {
     try {
@@ -42,6 +55,15 @@ export async function generateInvoicePDF(
         stripeTotalAmount = parseInt(String(paymentTransaction.amount)) || 0;
         stripePlatformFee = parseInt(String(paymentTransaction.serviceFee)) || 0; // Platform fee from Stripe
         stripeBaseAmount = parseInt(String(paymentTransaction.baseAmount)) || 0; // Base amount from Stripe
+        recordedTaxBreakdown = paymentTransaction.taxBreakdown as TaxBreakdown | null;
+        const ptMetadata = paymentTransaction.metadata as { promo?: PromoTransactionMetadata } | null;
+        if (ptMetadata?.promo && Number(ptMetadata.promo.discountCents) > 0) {
+          promo = {
+            code: String(ptMetadata.promo.code),
+            discountCents: Number(ptMetadata.promo.discountCents),
+            absorbedBy: String(ptMetadata.promo.absorbedBy),
+          };
+        }
         // Note: Stripe processing fee is handled internally by Stripe, not extracted from metadata
 
         // For bundle bookings, we need to get individual booking base amounts
@@ -67,9 +89,24 @@ export async function generateInvoicePDF(
       let kitchenAmount = 0;
       let durationHours = 0;
       let hourlyRate = 0;
-
+      const pricingBreakdown = booking.pricingBreakdown || booking.pricing_breakdown;
+
+      // USE FIRST: Stored rate-tier breakdown (hourly / daily / weekly) — one line per tier applied
+      if (Array.isArray(pricingBreakdown) && pricingBreakdown.length > 0) {
+        for (const tierItem of pricingBreakdown) {
+          const amount = (Number(tierItem.amountCents) || 0) / 100;
+          if (amount <= 0) continue;
+          totalAmount += amount;
+          items.push({
+            description: `Kitchen Booking — ${tierItem.description}`,
+            quantity: Number(tierItem.quantity) || 1,
+            rate: (Number(tierItem.unitRateCents) || 0) / 100,
+            amount,
+          });
+        }
+      }
       // USE PREFERABLY: Booking's stored hourly rate and duration
-      if ((booking.hourly_rate || booking.hourlyRate) && (booking.duration_hours || booking.durationHours)) {
+      else if ((booking.hourly_rate || booking.hourlyRate) && (booking.duration_hours || booking.durationHours)) {
         const hourlyRateCents = parseFloat(String(booking.hourly_rate || booking.hourlyRate));
         durationHours = parseFloat(String(booking.duration_hours || booking.durationHours));
         hourlyRate = hourlyRateCents / 100;
@@ -251,6 +288,11 @@ export async function generateInvoicePDF(
   // Tax = calculated
   // Total = Subtotal + Tax
 
+  // Promo discount comes off the services subtotal before tax (matches checkout)
+  const subtotalBeforeDiscount = totalAmount;
+  const discountAmount = promo ? Math.min(promo.discountCents / 100, totalAmount) : 0;
+  totalAmount -= discountAmount;
+
   let platformFee = 0;
   if (stripePlatformFee > 0) platformFee = stripePlatformFee / 100;
 
@@ -279,6 +321,9 @@ export async function generateInvoicePDF(
   const taxCents = Math.round((totalAmount * 100 * taxRatePercent) / 100);
   taxAmount = taxCents / 100;
 
+  // Tax split by GST/HST/PST and the location's registration numbers
+  const invoiceTax = await getInvoiceTaxDetails(location?.id, taxCents, taxRatePercent, recordedTaxBreakdown);
+
   // Calculate totals
   const subtotalCents = Math.round(totalAmount * 100);
   const subtotalWithTaxCents = subtotalCents + taxCents;
@@ -418,6 +463,10 @@ export async function generateInvoicePDF(
         doc.text(`Location: ${location.name}`, 50, leftY);
         leftY += 15;
       }
+      for (const registration of invoiceTax.registrations) {
+        doc.text(registration, 50, leftY);
+        leftY += 15;
+      }
       doc.text(`Date: ${bookingDateStr}`, 50, leftY);
       leftY += 15;
       
@@ -569,8 +618,15 @@ export async function generateInvoicePDF(
         currentY += 25;
         doc.fontSize(10).font('Helvetica').fillColor('#000000');
 
-        addTotalRow('Subtotal (Services):', totalAmount);
-        if (taxAmount > 0) {
+        if (discountAmount > 0) {
+          addTotalRow('Subtotal (Services):', subtotalBeforeDiscount);
+          addTotalRow(`Promo (${promo!.code}):`, discountAmount, true);
+        } else {
+          addTotalRow('Subtotal (Services):', totalAmount);
+        }
+        if (invoiceTax.lines.length > 0) {
+          invoiceTax.lines.forEach((line) => addTotalRow(`${formatTaxLabel(line)}:`, line.amountCents / 100));
+        } else if (taxAmount > 0) {
           addTotalRow('Tax Collected:', taxAmount);
         }
 
@@ -609,15 +665,24 @@ export async function generateInvoicePDF(
           doc.text('* Stripe Fee = actual processing fee charged by Stripe (from Balance Transaction)', 60, currentY);
           currentY += 12;
         }
+        if (discountAmount > 0 && promo!.absorbedBy === 'platform') {
+          doc.text(`* Promo ${promo!.code} is funded by the platform and added back to your payout`, 60, currentY);
+          currentY += 12;
+        }
         if (taxAmount > 0) {
           doc.text('* Tax collected is your responsibility to remit to tax authorities', 60, currentY);
         }
         doc.fillColor('#000000').fontSize(10);
       } else {
         // Chef Invoice: Transparent view showing base amount + tax breakdown
-        addTotalRow('Subtotal (Services):', totalAmount);
-        if (taxAmount > 0 && taxRatePercent > 0) {
-          addTotalRow(`Tax (${taxRatePercent}%):`, taxAmount);
+        if (discountAmount > 0) {
+          addTotalRow('Subtotal (Services):', subtotalBeforeDiscount);
+          addTotalRow(`Promo (${promo!.code}):`, discountAmount, true);
+        } else {
+          addTotalRow('Subtotal (Services):', totalAmount);
+        }
+        if (invoiceTax.lines.length > 0) {
+          invoiceTax.lines.forEach((line) => addTotalRow(`${formatTaxLabel(line)}:`, line.amountCents / 100));
         } else if (taxAmount > 0) {
           addTotalRow('Tax:', taxAmount);
         }
@@ -627,7 +692,7 @@ export async function generateInvoicePDF(
         currentY += 10;
         doc.fontSize(12).font('Helvetica-Bold');
         doc.text('Total Paid:', 380, currentY, { align: 'right', width: 110 });
-        doc.text(`$${grandTotal.toFixed(2)} CAD`, 500, currentY, { align: 'right', width: 50 });
+        doc.text(`$${grandTotal.toFixed(2)} ${invoiceCurrency}`, 500, currentY, { align: 'right', width: 50 });
         doc.font('Helvetica').fontSize(10);
       }
 
@@ -674,6 +739,12 @@ export async function generateStorageInvoicePDF(
   options?: { viewer?: 'chef' | 'manager' }
 ): Promise<Buffer> {
   const invoiceViewer = options?.viewer ?? 'chef';
+  const invoiceCurrency = normalizeCurrency(transaction.currency ?? storageBooking.currency);
+
+  // Location tax jurisdiction and registration numbers, from the payment when recorded
+  const recordedTaxBreakdown = (transaction.taxBreakdown ?? transaction.tax_breakdown ?? null) as TaxBreakdown | null;
+  const invoiceLocationId = recordedTaxBreakdown?.locationId ?? storageBooking.locationId ?? storageBooking.location_id;
+  const taxProfile = invoiceLocationId ? await getLocationTaxProfile(invoiceLocationId) : null;
 
   return new Promise((resolve, reject) => {
     try {
@@ -700,6 +771,7 @@ export async function generateStorageInvoicePDF(
       const displayBaseAmount = extensionBasePrice || baseAmount;
       const displayTotalAmount = extensionTotalPrice || totalAmount;
       const displayTaxAmount = displayTotalAmount - displayBaseAmount;
+      const invoiceTax = buildInvoiceTaxDetails(taxProfile, displayTaxAmount, Number(taxRatePercent) || 0, recordedTaxBreakdown);
       const displayDays = extensionDays || 1;
       const displayDailyRate = dailyRateCents || (displayDays > 0 ? Math.round(displayBaseAmount / displayDays) : displayBaseAmount);
 
@@ -743,6 +815,9 @@ export async function generateStorageInvoicePDF(
       doc.fontSize(11).font('Helvetica');
       doc.text(storageBooking.kitchenName || 'Kitchen', 350, 150);
       doc.text(storageBooking.locationName || 'Location', 350, 165);
+      doc.fontSize(9);
+      invoiceTax.registrations.forEach((registration, i) => doc.text(registration, 350, 182 + i * 12));
+      doc.fontSize(11);
 
       // Storage Extension Details
       let currentY = 210;
@@ -805,11 +880,13 @@ export async function generateStorageInvoicePDF(
       doc.text(`$${(displayBaseAmount / 100).toFixed(2)}`, 480, currentY, { align: 'right' });
       currentY += 18;
 
-      // Tax (if applicable) - always show tax rate for transparency
-      if (displayTaxAmount > 0 && taxRatePercent > 0) {
-        doc.text(`Tax (${taxRatePercent}%):`, 380, currentY);
-        doc.text(`$${(displayTaxAmount / 100).toFixed(2)}`, 480, currentY, { align: 'right' });
-        currentY += 18;
+      // Tax (if applicable) - one line per tax (GST/HST/PST...) with its rate for transparency
+      if (invoiceTax.lines.length > 0) {
+        for (const line of invoiceTax.lines) {
+          doc.text(`${formatTaxLabel(line)}:`, 380, currentY);
+          doc.text(`$${(line.amountCents / 100).toFixed(2)}`, 480, currentY, { align: 'right' });
+          currentY += 18;
+        }
       } else if (displayTaxAmount > 0) {
         doc.text('Tax:', 380, currentY);
         doc.text(`$${(displayTaxAmount / 100).toFixed(2)}`, 480, currentY, { align: 'right' });
@@ -823,7 +900,7 @@ export async function generateStorageInvoicePDF(
       // Total
       doc.fontSize(12).font('Helvetica-Bold');
       doc.text('Total Paid:', 380, currentY);
-      doc.text(`$${(displayTotalAmount / 100).toFixed(2)} CAD`, 480, currentY, { align: 'right' });
+      doc.text(`$${(displayTotalAmount / 100).toFixed(2)} ${invoiceCurrency}`, 480, currentY, { align: 'right' });
       currentY += 30;
 
       // MANAGER VIEW: Show earnings breakdown with tax collected and Stripe fee deduction
@@ -908,7 +985,7 @@ export async function generateStorageInvoicePDF(
         doc.fontSize(12).font('Helvetica-Bold').fillColor('#059669'); // Green for net
         doc.text('You Receive:', 380, currentY);
         const netAmount = managerRevenue > 0 ? managerRevenue : (displayTotalAmount - actualDeduction);
-        doc.text(`$${(netAmount / 100).toFixed(2)} CAD`, 480, currentY, { align: 'right' });
+        doc.text(`$${(netAmount / 100).toFixed(2)} ${invoiceCurrency}`, 480, currentY, { align: 'right' });
         doc.fillColor('#000000');
         currentY += 25;
 
@@ -983,28 +1060,49 @@ export async function generateDamageClaimInvoicePDF(
   let stripeProcessingFeeCents = 0;
   let managerRevenueCents = 0;
   let serviceFeeCents = 0;
+  // Sales tax charged on top of the claim (claims charged before they were taxed have none)
+  let claimTaxCents = 0;
+  let recordedTaxBreakdown: TaxBreakdown | null = null;
+  const invoiceCurrency = await getLocationCurrency(claim.locationId);
 
-  if (invoiceViewer === 'manager' && claim.stripePaymentIntentId) {
+  if (claim.stripePaymentIntentId) {
     try {
       const [transaction] = await db
         .select({
           stripeProcessingFee: paymentTransactions.stripeProcessingFee,
           managerRevenue: paymentTransactions.managerRevenue,
           serviceFee: paymentTransactions.serviceFee,
+          taxCents: paymentTransactions.taxCents,
+          taxBreakdown: paymentTransactions.taxBreakdown,
         })
         .from(paymentTransactions)
         .where(eq(paymentTransactions.paymentIntentId, claim.stripePaymentIntentId))
         .limit(1);
 
       if (transaction) {
-        stripeProcessingFeeCents = parseInt(String(transaction.stripeProcessingFee || '0')) || 0;
-        managerRevenueCents = parseInt(String(transaction.managerRevenue || '0')) || 0;
-        serviceFeeCents = parseInt(String(transaction.serviceFee || '0')) || 0;
+        claimTaxCents = transaction.taxCents ?? 0;
+        recordedTaxBreakdown = transaction.taxBreakdown as TaxBreakdown | null;
+        if (invoiceViewer === 'manager') {
+          stripeProcessingFeeCents = parseInt(String(transaction.stripeProcessingFee || '0')) || 0;
+          managerRevenueCents = parseInt(String(transaction.managerRevenue || '0')) || 0;
+          serviceFeeCents = parseInt(String(transaction.serviceFee || '0')) || 0;
+        }
       }
     } catch (error) {
       logger.warn('[DamageClaimInvoice] Could not fetch Stripe fees:', error);
     }
   }
+
+  const invoiceTax = await getInvoiceTaxDetails(claim.locationId, claimTaxCents, 0, recordedTaxBreakdown);
+
+  // Check-in vs check-out photos, appended when the manager attached a comparison to the claim
+  let photoAppendix: Awaited<ReturnType<typeof import("./photo-comparison-service").getClaimComparisonAppendix>> = null;
+  try {
+    const { getClaimComparisonAppendix } = await import("./photo-comparison-service");
+    photoAppendix = await getClaimComparisonAppendix(claim);
+  } catch (error) {
+    logger.warn('[DamageClaimInvoice] Could not load photo comparison:', error);
+  }
   
   return new Promise(async (resolve, reject) => {
     try {
@@ -1030,7 +1128,8 @@ export async function generateDamageClaimInvoicePDF(
       const chargeDate = claim.chargeSucceededAt 
         ? new Date(claim.chargeSucceededAt) 
         : new Date();
-      const amountCents = claim.finalAmountCents || claim.claimedAmountCents;
+      const claimAmountCents = claim.finalAmountCents || claim.claimedAmountCents;
+      const amountCents = claimAmountCents + claimTaxCents;
 
       // Header
       doc.fontSize(24).font('Helvetica-Bold').text('DAMAGE CLAIM INVOICE', { align: 'center' });
@@ -1062,6 +1161,7 @@ export async function generateDamageClaimInvoicePDF(
       doc.fontSize(10).font('Helvetica');
       doc.text((location as any)?.name || 'Kitchen Location');
       doc.text((location as any)?.address || '');
+      invoiceTax.registrations.forEach((registration) => doc.text(registration));
       doc.moveDown(1.5);
 
       // Claim details
@@ -1094,7 +1194,13 @@ export async function generateDamageClaimInvoicePDF(
       doc.font('Helvetica');
       const itemY = doc.y;
       doc.text('Damage Claim Payment', 50, itemY);
-      doc.text(`$${(amountCents / 100).toFixed(2)} CAD`, 450, itemY, { align: 'right', width: 100 });
+      doc.text(`$${(claimAmountCents / 100).toFixed(2)} ${invoiceCurrency}`, 450, itemY, { align: 'right', width: 100 });
+      for (const line of invoiceTax.lines) {
+        doc.moveDown(0.5);
+        const taxY = doc.y;
+        doc.text(formatTaxLabel(line), 50, taxY);
+        doc.text(`$${(line.amountCents / 100).toFixed(2)} ${invoiceCurrency}`, 450, taxY, { align: 'right', width: 100 });
+      }
 
       doc.moveDown(1);
       doc.moveTo(50, doc.y).lineTo(550, doc.y).stroke('#e5e7eb');
@@ -1104,7 +1210,7 @@ export async function generateDamageClaimInvoicePDF(
       doc.font('Helvetica-Bold');
       const totalY = doc.y;
       doc.text('Total Charged', 50, totalY);
-      doc.text(`$${(amountCents / 100).toFixed(2)} CAD`, 450, totalY, { align: 'right', width: 100 });
+      doc.text(`$${(amountCents / 100).toFixed(2)} ${invoiceCurrency}`, 450, totalY, { align: 'right', width: 100 });
 
       doc.moveDown(1.5);
 
@@ -1122,7 +1228,7 @@ export async function generateDamageClaimInvoicePDF(
         const feeY = doc.y;
         doc.text('Stripe Fee:', 50, feeY);
         doc.fillColor('#dc2626'); // Red color for deduction
-        doc.text(`-$${(actualDeductionCents / 100).toFixed(2)} CAD`, 450, feeY, { align: 'right', width: 100 });
+        doc.text(`-$${(actualDeductionCents / 100).toFixed(2)} ${invoiceCurrency}`, 450, feeY, { align: 'right', width: 100 });
         doc.fillColor('#000000');
         doc.moveDown(0.5);
 
@@ -1147,7 +1253,7 @@ export async function generateDamageClaimInvoicePDF(
         doc.fontSize(12).font('Helvetica-Bold').fillColor('#059669'); // Green for net
         const netY = doc.y;
         doc.text('You Receive:', 50, netY);
-        doc.text(`$${(netAmount / 100).toFixed(2)} CAD`, 450, netY, { align: 'right', width: 100 });
+        doc.text(`$${(netAmount / 100).toFixed(2)} ${invoiceCurrency}`, 450, netY, { align: 'right', width: 100 });
         doc.fillColor('#000000');
         doc.moveDown(1);
       }
@@ -1173,6 +1279,153 @@ export async function generateDamageClaimInvoicePDF(
       doc.fontSize(9).fillColor('#6b7280').text('For questions, contact support@localcook.shop', 50, dcFooterY + 15, { align: 'center', width: 500 });
       doc.fillColor('#000000');
 
+      if (photoAppendix) {
+        const { renderPhotoComparison } = await import("./photo-comparison-service");
+        doc.addPage();
+        renderPhotoComparison(doc, photoAppendix.comparison, photoAppendix.images);
+      }
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Generate a credit note PDF for a line-item refund
+ */
+export async function generateCreditNotePDF(creditNote: CreditNote): Promise<Buffer> {
+  const { users, locations } = await import("@shared/schema");
+  const { formatCreditNoteNumber } = await import("./line-item-refund-service");
+  const currency = normalizeCurrency(creditNote.currency);
+  const lines = creditNote.lineItems as CreditNoteLine[];
+
+  const [transaction] = await db
+    .select({
+      paymentIntentId: paymentTransactions.paymentIntentId,
+      bookingId: paymentTransactions.bookingId,
+    })
+    .from(paymentTransactions)
+    .where(eq(paymentTransactions.id, creditNote.paymentTransactionId))
+    .limit(1);
+  const [chef] = creditNote.chefId
+    ? await db.select().from(users).where(eq(users.id, creditNote.chefId)).limit(1)
+    : [];
+  const [location] = creditNote.locationId
+    ? await db.select().from(locations).where(eq(locations.id, creditNote.locationId)).limit(1)
+    : [];
+  const invoiceTax = await getInvoiceTaxDetails(creditNote.locationId, creditNote.taxCents, 0, null);
+  const money = (amountCents: number) => `$${(amountCents / 100).toFixed(2)} ${currency}`;
+  const issuedAt = new Date(creditNote.createdAt).toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return new Promise((resolve, reject) => {
+    try {
+      const chunks: Buffer[] = [];
+      const doc = new PDFDocument({ margin: 50 });
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+
+      // Header
+      doc.fontSize(24).font('Helvetica-Bold').text('CREDIT NOTE', { align: 'center' });
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica').fillColor('#6b7280').text('LocalCooks Platform', { align: 'center' });
+      doc.fillColor('#000000');
+      doc.moveDown(2);
+
+      // Credit note details
+      doc.fontSize(12).font('Helvetica-Bold').text('Credit Note Details');
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica');
+      doc.text(`Credit Note Number: ${formatCreditNoteNumber(creditNote.id)}`);
+      doc.text(`Date: ${issuedAt}`);
+      if (transaction) {
+        doc.text(`Original Booking: #${transaction.bookingId}`);
+        if (transaction.paymentIntentId) {
+          doc.text(`Original Payment Reference: ${transaction.paymentIntentId.slice(-8).toUpperCase()}`);
+        }
+      }
+      doc.moveDown(1.5);
+
+      // Chef info
+      doc.fontSize(12).font('Helvetica-Bold').text('Credited To');
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica');
+      doc.text(chef?.username || 'Chef');
+      doc.moveDown(1.5);
+
+      // Location info
+      doc.fontSize(12).font('Helvetica-Bold').text('Location');
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica');
+      doc.text(location?.name || 'Kitchen Location');
+      doc.text(location?.address || '');
+      invoiceTax.registrations.forEach((registration) => doc.text(registration));
+      doc.moveDown(1.5);
+
+      // Refunded lines
+      doc.moveTo(50, doc.y).lineTo(550, doc.y).stroke('#e5e7eb');
+      doc.moveDown(0.5);
+
+      const tableY = doc.y;
+      doc.fontSize(10).font('Helvetica-Bold');
+      doc.text('Description', 50, tableY);
+      doc.text('Qty', 350, tableY, { width: 80, align: 'right' });
+      doc.text('Amount', 450, tableY, { align: 'right', width: 100 });
+
+      doc.moveDown(0.5);
+      doc.moveTo(50, doc.y).lineTo(550, doc.y).stroke('#e5e7eb');
+      doc.moveDown(0.5);
+
+      doc.font('Helvetica');
+      for (const line of lines) {
+        const itemY = doc.y;
+        const unit = line.unitLabel === 'day' ? (line.quantity === 1 ? 'day' : 'days') : (line.quantity === 1 ? 'rental' : 'rentals');
+        doc.text(line.description, 50, itemY, { width: 290 });
+        doc.text(`${line.quantity} ${unit}`, 350, itemY, { width: 80, align: 'right' });
+        doc.text(money(line.subtotalCents), 450, itemY, { align: 'right', width: 100 });
+        doc.moveDown(0.5);
+      }
+
+      doc.moveDown(0.5);
+      const subtotalY = doc.y;
+      doc.text('Subtotal', 50, subtotalY);
+      doc.text(money(creditNote.subtotalCents), 450, subtotalY, { align: 'right', width: 100 });
+      for (const line of invoiceTax.lines) {
+        doc.moveDown(0.5);
+        const taxY = doc.y;
+        doc.text(formatTaxLabel(line), 50, taxY);
+        doc.text(money(line.amountCents), 450, taxY, { align: 'right', width: 100 });
+      }
+
+      doc.moveDown(1);
+      doc.moveTo(50, doc.y).lineTo(550, doc.y).stroke('#e5e7eb');
+      doc.moveDown(0.5);
+
+      // Total
+      doc.font('Helvetica-Bold');
+      const totalY = doc.y;
+      doc.text('Total Credited', 50, totalY);
+      doc.text(money(creditNote.totalCents), 450, totalY, { align: 'right', width: 100 });
+      doc.moveDown(1.5);
+
+      // Refund info
+      doc.fontSize(10).font('Helvetica');
+      doc.text(`Refunded To: ${creditNote.refundedTo === 'wallet' ? 'LocalCooks wallet credit' : 'Original payment method'}`);
+      if (creditNote.stripeRefundId) {
+        doc.text(`Refund Reference: ${creditNote.stripeRefundId.slice(-8).toUpperCase()}`);
+      }
+      if (creditNote.reason) {
+        doc.text(`Reason: ${creditNote.reason}`, { width: 450 });
+      }
+
+      // Footer
+      const footerY = doc.page.height - 80;
+      doc.moveTo(50, footerY).lineTo(550, footerY).stroke('#e5e7eb');
+      doc.fontSize(9).fillColor('#6b7280').text('For questions, contact support@localcook.shop', 50, footerY + 15, { align: 'center', width: 500 });
+      doc.fillColor('#000000');
+
       doc.end();
     } catch (error) {
       reject(error);
@@ -0,0 +1,952 @@
+import { logger } from "../logger";
+/**
+ * Kitchen Calendar Import Service — External Calendar Blocks
+ *
+ * Partner kitchens are often also used for the host's own business, tracked in
+ * an external calendar. Managers subscribe a kitchen to an ICS URL (or upload
+ * an .ics file) and each busy event blocks the kitchen:
+ *   - Timed events become `manager_blocked` kitchen bookings, which the slot
+ *     engine treats as taking the whole kitchen.
+ *   - All-day events become closed `kitchenDateOverrides`.
+ *
+ * Events are converted to the location's timezone and split per local day.
+ * Every sync diffs against the blocks created last time, so moved or deleted
+ * events update or remove their blocks. Blocks that overlap an existing chef
+ * booking are still created (the external calendar wins) and reported to the
+ * manager as conflicts to resolve.
+ *
+ * Recurring events support FREQ=DAILY/WEEKLY (INTERVAL, COUNT, UNTIL, BYDAY)
+ * with EXDATE and RECURRENCE-ID overrides. Other frequencies import the first
+ * occurrence only and are counted in the sync summary.
+ *
+ * Calendar URLs are fetched server-side, so only public https hosts are
+ * allowed: every hop of a redirect is re-checked, and the connection itself
+ * refuses hosts that resolve to private, loopback or link-local addresses.
+ */
+
+import https from "https";
+import { db } from "../db";
+import {
+  kitchenBookings,
+  kitchenCalendarImportEvents,
+  kitchenCalendarImports,
+  kitchens,
+  locations,
+  type KitchenCalendarImport,
+  type KitchenCalendarImportEvent,
+} from "@shared/schema";
+import { and, eq, gte, inArray, ne } from "drizzle-orm";
+import { createBookingDateTime, DEFAULT_TIMEZONE } from "@shared/timezone-utils";
+import { generateReferenceCode } from "../reference-code";
+import { isPublicHttpsUrl, lookupPublicAddress } from "../public-url-guard";
+import { kitchenService } from "../domains/kitchens/kitchen.service";
+import { timeRangesOverlap } from "./kitchen-waitlist-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** How far ahead imported events block availability */
+export const CALENDAR_IMPORT_HORIZON_DAYS = 180;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_ICS_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+/** Longest single event we split into per-day blocks */
+const MAX_EVENT_DAYS = 31;
+/** Hard stop for recurrence expansion */
+const MAX_RECURRENCE_ITERATIONS = 1000;
+
+export interface IcsDateValue {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM, null for DATE values
+  utc: boolean;
+  tzid: string | null;
+}
+
+export interface ParsedIcsEvent {
+  uid: string;
+  summary: string | null;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  durationMinutes: number | null;
+  rrule: string | null;
+  exdates: string[]; // YYYY-MM-DD
+  recurrenceId: IcsDateValue | null;
+}
+
+/** One day of an imported event, in the location's timezone */
+export interface ImportedBlock {
+  eventUid: string;
+  date: string; // YYYY-MM-DD
+  startTime: string | null; // HH:MM, null = whole day
+  endTime: string | null; // HH:MM ("24:00" = end of day), null = whole day
+  summary: string | null;
+}
+
+export interface CalendarImportInput {
+  name: string;
+  sourceUrl?: string | null;
+  fileName?: string | null;
+  icsContent?: string | null;
+}
+
+export interface CalendarImportConflict {
+  bookingId: number;
+  referenceCode: string | null;
+  date: string;
+  startTime: string;
+  endTime: string;
+  eventSummary: string | null;
+}
+
+export interface CalendarImportSyncSummary {
+  created: number;
+  updated: number;
+  removed: number;
+  skipped: number; // All-day events on dates with a manager-set override
+  conflicts: CalendarImportConflict[];
+  unsupportedRecurrences: number;
+}
+
+export interface CalendarImportSyncResult {
+  success: boolean;
+  error?: string;
+  summary?: CalendarImportSyncSummary;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split("T")[0];
+}
+
+function dayOfWeek(dateStr: string): number {
+  return new Date(`${dateStr}T12:00:00Z`).getUTCDay();
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and time of an instant in a timezone */
+export function toLocalDateTime(instant: Date, timezone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "00";
+  return { date: `${get("year")}-${get("month")}-${get("day")}`, time: `${get("hour")}:${get("minute")}` };
+}
+
+function unescapeIcsText(text: string): string {
+  return text
+    .replace(/\\n/gi, "\n")
+    .replace(/\\,/g, ",")
+    .replace(/\\;/g, ";")
+    .replace(/\\\\/g, "\\");
+}
+
+/** Split "NAME;PARAM=x:VALUE" at the first colon outside quoted parameter values */
+function parseIcsProperty(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+export function parseIcsDateValue(value: string, params: Record<string, string> = {}): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, , z] = match;
+  const isDateOnly = params.VALUE === "DATE" || hh === undefined;
+  return {
+    date: `${y}-${m}-${d}`,
+    time: isDateOnly ? null : `${hh}:${mm}`,
+    utc: !isDateOnly && z === "Z",
+    tzid: !isDateOnly && z !== "Z" && params.TZID ? params.TZID : null,
+  };
+}
+
+/** ISO 8601 duration (P1D, PT2H30M, P1W) in minutes */
+function parseIcsDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m] = match;
+  const minutes = (Number(w || 0) * 7 + Number(d || 0)) * 1440 + Number(h || 0) * 60 + Number(m || 0);
+  return sign === "-" ? -minutes : minutes;
+}
+
+/**
+ * Busy VEVENTs from an ICS document. Cancelled and transparent (free) events
+ * are dropped; nested components such as VALARM are ignored.
+ */
+export function parseIcsEvents(ics: string): ParsedIcsEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+
+  let current: Record<string, { params: Record<string, string>; value: string }[]> | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) continue;
+    if (line.startsWith("BEGIN:")) {
+      nestedDepth++;
+      continue;
+    }
+    if (line.startsWith("END:") && nestedDepth > 0) {
+      nestedDepth--;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    if (line === "END:VEVENT") {
+      const props = current;
+      current = null;
+
+      const get = (name: string) => props[name]?.[0];
+      const status = get("STATUS")?.value.toUpperCase();
+      const transp = get("TRANSP")?.value.toUpperCase();
+      if (status === "CANCELLED" || transp === "TRANSPARENT") continue;
+
+      const dtstart = get("DTSTART");
+      const start = dtstart ? parseIcsDateValue(dtstart.value, dtstart.params) : null;
+      if (!start) continue;
+
+      const dtend = get("DTEND");
+      const duration = get("DURATION");
+      const recurrenceId = get("RECURRENCE-ID");
+      const summary = get("SUMMARY");
+      events.push({
+        uid: get("UID")?.value || `nouid-${dtstart!.value}-${summary?.value || ""}`,
+        summary: summary ? unescapeIcsText(summary.value) : null,
+        start,
+        end: dtend ? parseIcsDateValue(dtend.value, dtend.params) : null,
+        durationMinutes: duration ? parseIcsDuration(duration.value) : null,
+        rrule: get("RRULE")?.value || null,
+        exdates: (props["EXDATE"] || []).flatMap(exdate =>
+          exdate.value.split(",")
+            .map(v => parseIcsDateValue(v, exdate.params)?.date)
+            .filter((d): d is string => !!d)),
+        recurrenceId: recurrenceId ? parseIcsDateValue(recurrenceId.value, recurrenceId.params) : null,
+      });
+      continue;
+    }
+
+    const prop = parseIcsProperty(line);
+    if (prop) (current[prop.name] ||= []).push({ params: prop.params, value: prop.value });
+  }
+
+  return events;
+}
+
+/**
+ * Start dates of a recurring event (in the event's own date frame), up to
+ * `untilDate`. `supported` is false for frequencies we don't expand.
+ */
+export function expandRecurrenceDates(
+  startDate: string,
+  rrule: string | null,
+  exdates: string[],
+  untilDate: string,
+): { dates: string[]; supported: boolean } {
+  if (!rrule) return { dates: [startDate], supported: true };
+
+  const rule: Record<string, string> = {};
+  for (const part of rrule.split(";")) {
+    const [key, value] = part.split("=");
+    if (key && value) rule[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const interval = Math.max(1, parseInt(rule.INTERVAL || "1") || 1);
+  const count = rule.COUNT ? parseInt(rule.COUNT) : null;
+  const ruleUntil = rule.UNTIL ? parseIcsDateValue(rule.UNTIL)?.date : null;
+  const lastDate = ruleUntil && ruleUntil < untilDate ? ruleUntil : untilDate;
+  const excluded = new Set(exdates);
+
+  const dates: string[] = [];
+  let generated = 0;
+  const emit = (date: string) => {
+    generated++;
+    if (!excluded.has(date)) dates.push(date);
+  };
+
+  if (rule.FREQ === "DAILY") {
+    for (let i = 0; i < MAX_RECURRENCE_ITERATIONS; i++) {
+      const date = addDays(startDate, i * interval);
+      if (date > lastDate || (count !== null && generated >= count)) break;
+      emit(date);
+    }
+    return { dates, supported: true };
+  }
+
+  if (rule.FREQ === "WEEKLY") {
+    const dayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+    const byDay = rule.BYDAY
+      ? rule.BYDAY.split(",").map(code => dayCodes.indexOf(code.replace(/^[+-]?\d+/, ""))).filter(d => d >= 0)
+      : [dayOfWeek(startDate)];
+    const weekdays = Array.from(new Set(byDay)).sort((a, b) => a - b);
+    const weekStart = addDays(startDate, -dayOfWeek(startDate));
+
+    outer: for (let week = 0; week < MAX_RECURRENCE_ITERATIONS; week++) {
+      for (const weekday of weekdays) {
+        const date = addDays(weekStart, week * interval * 7 + weekday);
+        if (date < startDate) continue;
+        if (date > lastDate || (count !== null && generated >= count)) break outer;
+        emit(date);
+      }
+    }
+    return { dates, supported: true };
+  }
+
+  return { dates: excluded.has(startDate) ? [] : [startDate], supported: false };
+}
+
+/** Resolve an ICS date-time to wall-clock time in the location's timezone */
+function resolveToLocal(value: IcsDateValue, timezone: string): { date: string; time: string | null } {
+  if (value.time === null) return { date: value.date, time: null };
+  if (value.utc) {
+    const [y, m, d] = value.date.split("-").map(Number);
+    const [hh, mm] = value.time.split(":").map(Number);
+    return toLocalDateTime(new Date(Date.UTC(y, m - 1, d, hh, mm)), timezone);
+  }
+  if (value.tzid && value.tzid !== timezone && isValidTimezone(value.tzid)) {
+    return toLocalDateTime(createBookingDateTime(value.date, value.time, value.tzid), timezone);
+  }
+  // Floating time, or a TZID we can't resolve: take it as kitchen-local
+  return { date: value.date, time: value.time };
+}
+
+function addMinutesToWallTime(value: IcsDateValue, minutes: number): IcsDateValue {
+  const [y, m, d] = value.date.split("-").map(Number);
+  const [hh, mm] = (value.time || "00:00").split(":").map(Number);
+  const shifted = new Date(Date.UTC(y, m - 1, d, hh, mm) + minutes * 60 * 1000);
+  const iso = shifted.toISOString();
+  return { ...value, date: iso.split("T")[0], time: value.time === null ? null : iso.slice(11, 16) };
+}
+
+/** Split a local [start, end) range into one block per day; whole days become all-day blocks */
+export function splitIntoDayBlocks(
+  eventUid: string,
+  summary: string | null,
+  start: { date: string; time: string | null },
+  end: { date: string; time: string | null },
+): ImportedBlock[] {
+  const blocks: ImportedBlock[] = [];
+
+  if (start.time === null) {
+    // All-day: DTEND is exclusive
+    const lastDate = end.date > start.date ? addDays(end.date, -1) : start.date;
+    for (let date = start.date, i = 0; date <= lastDate && i < MAX_EVENT_DAYS; date = addDays(date, 1), i++) {
+      blocks.push({ eventUid, date, startTime: null, endTime: null, summary });
+    }
+    return blocks;
+  }
+
+  const endTime = end.time ?? "00:00";
+  for (let date = start.date, i = 0; date <= end.date && i < MAX_EVENT_DAYS; date = addDays(date, 1), i++) {
+    const segmentStart = date === start.date ? start.time : "00:00";
+    const segmentEnd = date === end.date ? endTime : "24:00";
+    if (segmentStart >= segmentEnd) continue;
+    const wholeDay = segmentStart === "00:00" && segmentEnd === "24:00";
+    blocks.push({
+      eventUid,
+      date,
+      startTime: wholeDay ? null : segmentStart,
+      endTime: wholeDay ? null : segmentEnd,
+      summary,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Per-day blocks for every event occurrence between `fromDate` and `toDate`
+ * (inclusive, location-local). RECURRENCE-ID instances replace the occurrence
+ * of their master event they override.
+ */
+export function buildImportedBlocks(
+  events: ParsedIcsEvent[],
+  timezone: string,
+  fromDate: string,
+  toDate: string,
+): { blocks: ImportedBlock[]; unsupportedRecurrences: number } {
+  const overriddenDates = new Map<string, string[]>();
+  for (const event of events) {
+    if (event.recurrenceId) {
+      overriddenDates.set(event.uid, [...(overriddenDates.get(event.uid) || []), event.recurrenceId.date]);
+    }
+  }
+
+  const blocksByKey = new Map<string, ImportedBlock>();
+  let unsupportedRecurrences = 0;
+
+  for (const event of events) {
+    const end = event.end
+      ?? (event.durationMinutes !== null
+        ? addMinutesToWallTime(event.start, event.durationMinutes)
+        : event.start.time === null
+          ? { ...event.start, date: addDays(event.start.date, 1) }
+          : event.start);
+    const spanDays = daysBetween(event.start.date, end.date);
+
+    const { dates, supported } = event.recurrenceId
+      ? { dates: [event.start.date], supported: true }
+      : expandRecurrenceDates(
+        event.start.date,
+        event.rrule,
+        [...event.exdates, ...(overriddenDates.get(event.uid) || [])],
+        // Occurrences can start a day before `toDate` in another timezone
+        addDays(toDate, 1),
+      );
+    if (!supported) unsupportedRecurrences++;
+
+    for (const date of dates) {
+      const occurrenceStart = resolveToLocal({ ...event.start, date }, timezone);
+      const occurrenceEnd = resolveToLocal({ ...end, date: addDays(date, spanDays) }, timezone);
+      for (const block of splitIntoDayBlocks(event.uid, event.summary, occurrenceStart, occurrenceEnd)) {
+        if (block.date < fromDate || block.date > toDate) continue;
+        blocksByKey.set(`${block.eventUid}|${block.date}`, block);
+      }
+    }
+  }
+
+  return { blocks: Array.from(blocksByKey.values()), unsupportedRecurrences };
+}
+
+/** Chef bookings (same day) an imported block overlaps; all-day blocks overlap everything */
+export function findBlockConflicts<T extends { startTime: string; endTime: string }>(
+  block: Pick<ImportedBlock, "startTime" | "endTime">,
+  dayBookings: T[],
+): T[] {
+  if (block.startTime === null || block.endTime === null) return dayBookings;
+  return dayBookings.filter(b => timeRangesOverlap(block.startTime!, block.endTime!, b.startTime, b.endTime));
+}
+
+export function validateCalendarImportInput(input: CalendarImportInput): string | null {
+  if (!input.name || !input.name.trim()) return "Name is required";
+  const hasUrl = !!input.sourceUrl && !!input.sourceUrl.trim();
+  const hasFile = !!input.icsContent && !!input.icsContent.trim();
+  if (hasUrl === hasFile) return "Provide either a calendar URL or an .ics file";
+  if (hasUrl) {
+    const url = normalizeCalendarUrl(input.sourceUrl!);
+    if (!url) return "Calendar URL must be a public https or webcal link";
+  }
+  if (hasFile) {
+    if (Buffer.byteLength(input.icsContent!, "utf8") > MAX_ICS_BYTES) return "Calendar file is too large (max 5 MB)";
+    if (!input.icsContent!.includes("BEGIN:VCALENDAR")) return "File is not a valid iCalendar (.ics) file";
+  }
+  return null;
+}
+
+/**
+ * webcal:// links are plain HTTPS; anything other than https is rejected, as
+ * are literal private addresses. Hostnames are checked when they are resolved.
+ */
+export function normalizeCalendarUrl(rawUrl: string): string | null {
+  try {
+    const url = new URL(rawUrl.trim().replace(/^webcals?:\/\//i, "https://"));
+    return isPublicHttpsUrl(url) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+export async function getCalendarImportsForKitchen(kitchenId: number): Promise<KitchenCalendarImport[]> {
+  return db
+    .select()
+    .from(kitchenCalendarImports)
+    .where(eq(kitchenCalendarImports.kitchenId, kitchenId))
+    .orderBy(kitchenCalendarImports.createdAt);
+}
+
+export async function getCalendarImportById(importId: number): Promise<KitchenCalendarImport | null> {
+  const [row] = await db
+    .select()
+    .from(kitchenCalendarImports)
+    .where(eq(kitchenCalendarImports.id, importId))
+    .limit(1);
+  return row || null;
+}
+
+/** One GET: a redirect target, or the body (read up to MAX_ICS_BYTES) */
+function requestIcs(url: string, signal: AbortSignal): Promise<{ redirectTo: string } | { text: string }> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, {
+      lookup: lookupPublicAddress,
+      signal,
+      headers: { Accept: "text/calendar, text/plain;q=0.9, */*;q=0.8" },
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        resolve({ redirectTo: new URL(response.headers.location, url).toString() });
+        return;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(new Error(`Calendar URL returned HTTP ${status}`));
+        return;
+      }
+      if (Number(response.headers["content-length"] || 0) > MAX_ICS_BYTES) {
+        response.destroy();
+        reject(new Error("Calendar is too large (max 5 MB)"));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let bytes = 0;
+      response.on("data", (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > MAX_ICS_BYTES) {
+          response.destroy();
+          reject(new Error("Calendar is too large (max 5 MB)"));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on("end", () => resolve({ text: Buffer.concat(chunks).toString("utf8") }));
+      response.on("close", () => {
+        if (!response.complete) reject(new Error("Calendar download was interrupted"));
+      });
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+  });
+}
+
+/** Fetch a subscribed calendar, following up to MAX_REDIRECTS redirects to public https URLs */
+export async function fetchIcs(url: string): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let target = url;
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const safeUrl = normalizeCalendarUrl(target);
+      if (!safeUrl) throw new Error("Calendar URL must be a public https or webcal link");
+      const result = await requestIcs(safeUrl, controller.signal);
+      if ("redirectTo" in result) {
+        target = result.redirectTo;
+        continue;
+      }
+      if (!result.text.includes("BEGIN:VCALENDAR")) throw new Error("URL did not return an iCalendar (.ics) document");
+      return result.text;
+    }
+    throw new Error("Calendar URL redirected too many times");
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error("Timed out fetching the calendar URL");
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+export async function createCalendarImport(
+  kitchenId: number,
+  input: CalendarImportInput,
+  createdBy: number,
+): Promise<KitchenCalendarImport> {
+  const sourceUrl = input.sourceUrl ? normalizeCalendarUrl(input.sourceUrl) : null;
+  const [created] = await db
+    .insert(kitchenCalendarImports)
+    .values({
+      kitchenId,
+      name: input.name.trim(),
+      sourceUrl,
+      fileName: sourceUrl ? null : input.fileName || null,
+      icsContent: sourceUrl ? null : input.icsContent || null,
+      createdBy,
+    })
+    .returning();
+  logger.info(`[CalendarImport] Created import ${created.id} for kitchen ${kitchenId}`);
+  return created;
+}
+
+/** Replace the uploaded file of a file-based import */
+export async function replaceCalendarImportFile(importId: number, fileName: string | null, icsContent: string): Promise<void> {
+  await db
+    .update(kitchenCalendarImports)
+    .set({ fileName, icsContent, updatedAt: new Date() })
+    .where(eq(kitchenCalendarImports.id, importId));
+}
+
+export async function setCalendarImportActive(importId: number, isActive: boolean): Promise<void> {
+  await db
+    .update(kitchenCalendarImports)
+    .set({ isActive, updatedAt: new Date() })
+    .where(eq(kitchenCalendarImports.id, importId));
+}
+
+/** Remove the blocks an imported occurrence created */
+async function removeImportedBlock(row: KitchenCalendarImportEvent): Promise<void> {
+  if (row.kitchenBookingId) {
+    await db
+      .delete(kitchenBookings)
+      .where(and(eq(kitchenBookings.id, row.kitchenBookingId), eq(kitchenBookings.bookingType, "manager_blocked")));
+  }
+  if (row.dateOverrideId) {
+    await kitchenService.deleteKitchenDateOverride(row.dateOverrideId);
+  }
+}
+
+async function createBlockingBooking(
+  kitchenId: number,
+  block: ImportedBlock,
+  importRow: KitchenCalendarImport,
+): Promise<number> {
+  const [y, m, d] = block.date.split("-").map(Number);
+  const [booking] = await db
+    .insert(kitchenBookings)
+    .values({
+      referenceCode: await generateReferenceCode("kitchen_booking"),
+      kitchenId,
+      chefId: null,
+      bookingDate: new Date(Date.UTC(y, m - 1, d, 12, 0, 0)),
+      startTime: block.startTime!,
+      endTime: block.endTime!,
+      status: "confirmed",
+      bookingType: "manager_blocked",
+      createdBy: importRow.createdBy,
+      specialNotes: `Imported from "${importRow.name}"${block.summary ? `: ${block.summary}` : ""}`,
+      totalPrice: "0",
+      // No chef to check in — keep blocks out of the no-show and reminder sweeps
+      checkinStatus: null,
+    })
+    .returning({ id: kitchenBookings.id });
+  return booking.id;
+}
+
+/**
+ * Fetch (or re-read) an import's calendar and reconcile its blocks for
+ * today → horizon. Past occurrences are left as history.
+ */
+export async function syncCalendarImport(importId: number): Promise<CalendarImportSyncResult> {
+  const importRow = await getCalendarImportById(importId);
+  if (!importRow) return { success: false, error: "Calendar import not found" };
+
+  const [kitchen] = await db
+    .select({
+      id: kitchens.id,
+      name: kitchens.name,
+      locationId: kitchens.locationId,
+      timezone: locations.timezone,
+      managerId: locations.managerId,
+    })
+    .from(kitchens)
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchens.id, importRow.kitchenId))
+    .limit(1);
+  if (!kitchen) return { success: false, error: "Kitchen not found" };
+
+  try {
+    const ics = importRow.sourceUrl ? await fetchIcs(importRow.sourceUrl) : importRow.icsContent;
+    if (!ics) throw new Error("Calendar import has no URL or file");
+
+    const timezone = kitchen.timezone || DEFAULT_TIMEZONE;
+    const today = toLocalDateTime(new Date(), timezone).date;
+    const horizon = addDays(today, CALENDAR_IMPORT_HORIZON_DAYS);
+    const { blocks, unsupportedRecurrences } = buildImportedBlocks(parseIcsEvents(ics), timezone, today, horizon);
+
+    const existingRows = await db
+      .select()
+      .from(kitchenCalendarImportEvents)
+      .where(and(eq(kitchenCalendarImportEvents.importId, importId), gte(kitchenCalendarImportEvents.occurrenceDate, today)));
+    const existingByKey = new Map(existingRows.map(row => [`${row.eventUid}|${row.occurrenceDate}`, row]));
+
+    // Chef bookings to check for conflicts, grouped by date
+    const [ty, tm, td] = today.split("-").map(Number);
+    const chefBookings = await db
+      .select({
+        id: kitchenBookings.id,
+        referenceCode: kitchenBookings.referenceCode,
+        bookingDate: kitchenBookings.bookingDate,
+        startTime: kitchenBookings.startTime,
+        endTime: kitchenBookings.endTime,
+      })
+      .from(kitchenBookings)
+      .where(
+        and(
+          eq(kitchenBookings.kitchenId, kitchen.id),
+          ne(kitchenBookings.status, "cancelled"),
+          ne(kitchenBookings.bookingType, "manager_blocked"),
+          gte(kitchenBookings.bookingDate, new Date(Date.UTC(ty, tm - 1, td))),
+        ),
+      );
+    const bookingsByDate = new Map<string, typeof chefBookings>();
+    for (const booking of chefBookings) {
+      const dateStr = booking.bookingDate.toISOString().split("T")[0];
+      bookingsByDate.set(dateStr, [...(bookingsByDate.get(dateStr) || []), booking]);
+    }
+
+    // Date overrides the manager set by hand are never replaced
+    const [hy, hm, hd] = horizon.split("-").map(Number);
+    const overrides = await kitchenService.getKitchenDateOverrides(
+      kitchen.id,
+      new Date(Date.UTC(ty, tm - 1, td)),
+      new Date(Date.UTC(hy, hm - 1, hd, 23, 59, 59)),
+    );
+    const importedOverrideIds = new Set(
+      (await db
+        .select({ dateOverrideId: kitchenCalendarImportEvents.dateOverrideId })
+        .from(kitchenCalendarImportEvents)
+        .innerJoin(kitchenCalendarImports, eq(kitchenCalendarImportEvents.importId, kitchenCalendarImports.id))
+        .where(eq(kitchenCalendarImports.kitchenId, kitchen.id)))
+        .map(r => r.dateOverrideId)
+        .filter((id): id is number => id !== null),
+    );
+    const manualOverrideDates = new Set(
+      overrides
+        .filter(o => !importedOverrideIds.has(o.id))
+        .map(o => new Date(o.specificDate).toISOString().split("T")[0]),
+    );
+
+    const summary: CalendarImportSyncSummary = {
+      created: 0,
+      updated: 0,
+      removed: 0,
+      skipped: 0,
+      conflicts: [],
+      unsupportedRecurrences,
+    };
+    const newConflicts: CalendarImportConflict[] = [];
+    const seenKeys = new Set<string>();
+
+    for (const block of blocks) {
+      const key = `${block.eventUid}|${block.date}`;
+      seenKeys.add(key);
+      const existing = existingByKey.get(key);
+      const isAllDay = block.startTime === null;
+
+      const conflicting = findBlockConflicts(block, bookingsByDate.get(block.date) || []);
+      const conflicts = conflicting.map(b => ({
+        bookingId: b.id,
+        referenceCode: b.referenceCode,
+        date: block.date,
+        startTime: block.startTime || "00:00",
+        endTime: block.endTime || "24:00",
+        eventSummary: block.summary,
+      }));
+      summary.conflicts.push(...conflicts);
+      const previouslyFlagged = new Set<number>((existing?.conflictBookingIds as number[] | null) || []);
+      newConflicts.push(...conflicts.filter(c => !previouslyFlagged.has(c.bookingId)));
+      const conflictBookingIds = conflicts.map(c => c.bookingId);
+
+      const unchanged = existing
+        && existing.startTime === block.startTime
+        && existing.endTime === block.endTime
+        && (isAllDay ? existing.dateOverrideId !== null : existing.kitchenBookingId !== null);
+
+      if (unchanged) {
+        await db
+          .update(kitchenCalendarImportEvents)
+          .set({ summary: block.summary, conflictBookingIds, updatedAt: new Date() })
+          .where(eq(kitchenCalendarImportEvents.id, existing!.id));
+        continue;
+      }
+
+      if (isAllDay && manualOverrideDates.has(block.date)) {
+        summary.skipped++;
+        if (existing) {
+          await removeImportedBlock(existing);
+          await db.delete(kitchenCalendarImportEvents).where(eq(kitchenCalendarImportEvents.id, existing.id));
+        }
+        continue;
+      }
+
+      let kitchenBookingId: number | null = null;
+      let dateOverrideId: number | null = null;
+
+      if (!isAllDay && existing?.kitchenBookingId) {
+        // Same event moved within the day: shift the existing block
+        await db
+          .update(kitchenBookings)
+          .set({ startTime: block.startTime!, endTime: block.endTime!, updatedAt: new Date() })
+          .where(eq(kitchenBookings.id, existing.kitchenBookingId));
+        kitchenBookingId = existing.kitchenBookingId;
+      } else {
+        if (existing) await removeImportedBlock(existing);
+        if (isAllDay) {
+          const [y, m, d] = block.date.split("-").map(Number);
+          const override = await kitchenService.createKitchenDateOverride({
+            kitchenId: kitchen.id,
+            specificDate: new Date(Date.UTC(y, m - 1, d, 12, 0, 0)),
+            startTime: null,
+            endTime: null,
+            isAvailable: false,
+            reason: `Imported from "${importRow.name}"${block.summary ? `: ${block.summary}` : ""}`,
+          });
+          dateOverrideId = override.id;
+        } else {
+          kitchenBookingId = await createBlockingBooking(kitchen.id, block, importRow);
+        }
+      }
+
+      if (existing) {
+        await db
+          .update(kitchenCalendarImportEvents)
+          .set({
+            startTime: block.startTime,
+            endTime: block.endTime,
+            summary: block.summary,
+            kitchenBookingId,
+            dateOverrideId,
+            conflictBookingIds,
+            updatedAt: new Date(),
+          })
+          .where(eq(kitchenCalendarImportEvents.id, existing.id));
+        summary.updated++;
+      } else {
+        await db.insert(kitchenCalendarImportEvents).values({
+          importId,
+          eventUid: block.eventUid,
+          occurrenceDate: block.date,
+          startTime: block.startTime,
+          endTime: block.endTime,
+          summary: block.summary,
+          kitchenBookingId,
+          dateOverrideId,
+          conflictBookingIds,
+        });
+        summary.created++;
+      }
+    }
+
+    // Events removed from the calendar (or moved to another day) free their blocks
+    const staleRows = existingRows.filter(row => !seenKeys.has(`${row.eventUid}|${row.occurrenceDate}`));
+    for (const row of staleRows) {
+      await removeImportedBlock(row);
+    }
+    if (staleRows.length > 0) {
+      await db.delete(kitchenCalendarImportEvents).where(inArray(kitchenCalendarImportEvents.id, staleRows.map(r => r.id)));
+      summary.removed = staleRows.length;
+    }
+
+    await db
+      .update(kitchenCalendarImports)
+      .set({
+        lastSyncedAt: new Date(),
+        lastSyncStatus: "success",
+        lastSyncError: null,
+        lastSyncSummary: summary,
+        updatedAt: new Date(),
+      })
+      .where(eq(kitchenCalendarImports.id, importId));
+
+    if (newConflicts.length > 0 && kitchen.managerId) {
+      const { notificationService } = await import("./notification.service");
+      notificationService.notifyManagerCalendarImportConflicts({
+        managerId: kitchen.managerId,
+        locationId: kitchen.locationId,
+        kitchenId: kitchen.id,
+        kitchenName: kitchen.name,
+        importId,
+        importName: importRow.name,
+        conflicts: newConflicts,
+      }).catch(err => logger.error(`[CalendarImport] Failed to notify conflicts for import ${importId}:`, err));
+    }
+
+    logger.info(`[CalendarImport] Synced import ${importId}: ${summary.created} created, ${summary.updated} updated, ${summary.removed} removed, ${summary.conflicts.length} conflicts`);
+    return { success: true, summary };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to sync calendar";
+    logger.error(`[CalendarImport] Sync failed for import ${importId}:`, error);
+    await db
+      .update(kitchenCalendarImports)
+      .set({ lastSyncedAt: new Date(), lastSyncStatus: "error", lastSyncError: message, updatedAt: new Date() })
+      .where(eq(kitchenCalendarImports.id, importId));
+    return { success: false, error: message };
+  }
+}
+
+/** Delete an import and the upcoming blocks it created; past blocks stay as history */
+export async function deleteCalendarImport(importId: number): Promise<void> {
+  const importRow = await getCalendarImportById(importId);
+  if (!importRow) return;
+
+  const [kitchen] = await db
+    .select({ timezone: locations.timezone })
+    .from(kitchens)
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchens.id, importRow.kitchenId))
+    .limit(1);
+  const today = toLocalDateTime(new Date(), kitchen?.timezone || DEFAULT_TIMEZONE).date;
+
+  const upcomingRows = await db
+    .select()
+    .from(kitchenCalendarImportEvents)
+    .where(and(eq(kitchenCalendarImportEvents.importId, importId), gte(kitchenCalendarImportEvents.occurrenceDate, today)));
+  for (const row of upcomingRows) {
+    await removeImportedBlock(row);
+  }
+
+  await db.delete(kitchenCalendarImports).where(eq(kitchenCalendarImports.id, importId));
+  logger.info(`[CalendarImport] Deleted import ${importId} and ${upcomingRows.length} upcoming blocks`);
+}
+
+/** Cron: re-sync every active import. Never throws. */
+export async function syncAllCalendarImports(): Promise<{ synced: number; failed: number; conflicts: number }> {
+  const results = { synced: 0, failed: 0, conflicts: 0 };
+  try {
+    const imports = await db
+      .select({ id: kitchenCalendarImports.id })
+      .from(kitchenCalendarImports)
+      .where(eq(kitchenCalendarImports.isActive, true));
+
+    for (const { id } of imports) {
+      const result = await syncCalendarImport(id);
+      if (result.success) {
+        results.synced++;
+        results.conflicts += result.summary?.conflicts.length || 0;
+      } else {
+        results.failed++;
+      }
+    }
+  } catch (error) {
+    logger.error("[CalendarImport] Error syncing calendar imports:", error);
+  }
+  return results;
+}
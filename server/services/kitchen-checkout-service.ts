@@ -20,6 +20,8 @@
  * Smart lock integration:
  * - Access codes generated when booking is confirmed (if kitchen has smart lock)
  * - Codes are time-limited (valid from X min before start to Y min after end)
+ * - Kitchens with a lock provider (smart-lock-service) get codes pushed to the
+ *   lock on confirmation and removed on cancel/expiry; each outcome is audited
  * - First code use can auto-trigger check-in (access_code_used_at callback)
  */
 
@@ -31,15 +33,17 @@ import {
   platformSettings,
   accessCodeAudit,
   users,
-  checkinCheckoutChecklists,
   type KitchenCheckinStatus,
 } from "@shared/schema";
-import { eq, and, lt, inArray, sql, type SQL } from "drizzle-orm";
+import { eq, and, lt, lte, gte, inArray, desc, isNotNull, sql, type SQL } from "drizzle-orm";
 import { randomInt, randomBytes } from 'crypto';
 import bcrypt from 'bcryptjs';
 import { logger } from "../logger";
 import { sendEmail, generateKitchenCheckinManagerEmail, generateKitchenCheckinChefEmail, generateKitchenCheckoutRequestManagerEmail, generateKitchenCheckoutClearedChefEmail, generateKitchenNoShowManagerEmail, generateKitchenNoShowChefEmail } from "../email";
-import { createBookingDateTime, DEFAULT_TIMEZONE } from "@shared/timezone-utils";
+import { createBookingDateTime, DEFAULT_TIMEZONE, formatInTimezone, getBookingWindow } from "@shared/timezone-utils";
+import { getSmartLockProvider, withLockRetries, type LockEvent } from "./smart-lock-service";
+import { buildConditionPhotoDetails } from "./photo-comparison-service";
+import { getEffectiveChecklist, type ChecklistScope } from "./checklist-template-service";
 
 // ============================================================================
 // TYPES
@@ -64,9 +68,20 @@ export interface CheckoutReviewResult {
 export interface NoShowResult {
   processed: number;
   marked: number;
+  suppressed: number; // Door was unlocked with the booking's code — checked in instead
   errors: number;
 }
 
+export interface LockEventResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+  duplicate?: boolean;
+  matched?: boolean;
+  bookingId?: number;
+  checkedIn?: boolean;
+}
+
 export interface AutoClearResult {
   processed: number;
   cleared: number;
@@ -77,7 +92,12 @@ export interface AutoClearResult {
 // PLATFORM SETTINGS HELPERS
 // ============================================================================
 
-export async function getCheckinSettings(locationId?: number) {
+/**
+ * Time windows for a location. When a kitchen or storage listing scope is
+ * given the effective checklist (location checklist plus templates) is
+ * returned alongside them.
+ */
+export async function getCheckinSettings(locationId?: number, scope?: ChecklistScope) {
   // Query platform defaults at once
   const allSettings = await db
     .select({ key: platformSettings.key, value: platformSettings.value })
@@ -88,6 +108,7 @@ export async function getCheckinSettings(locationId?: number) {
   const platformDefaults = {
     checkinWindowMinutesBefore: parseInt(settingsMap.get('kitchen_checkin_window_minutes_before') || '15', 10),
     noShowGraceMinutes: parseInt(settingsMap.get('kitchen_no_show_grace_minutes') || '30', 10),
+    overtimeGraceMinutes: parseInt(settingsMap.get('kitchen_overtime_grace_minutes') || '15', 10),
     // Admin-only (not overridable per-location)
     checkoutReviewWindowMinutes: parseInt(settingsMap.get('kitchen_checkout_review_window_minutes') || '60', 10),
     accessCodeValidBeforeMinutes: parseInt(settingsMap.get('kitchen_access_code_valid_before_minutes') || '15', 10),
@@ -95,13 +116,14 @@ export async function getCheckinSettings(locationId?: number) {
   };
 
   // If a locationId is provided, check for location-level overrides.
-  // Only the chef-facing windows (check-in window, no-show grace) can be
-  // overridden per-location. Checkout review window is admin-only.
+  // Only the chef-facing windows (check-in window, no-show and overtime grace)
+  // can be overridden per-location. Checkout review window is admin-only.
   if (locationId) {
     const [loc] = await db
       .select({
         checkinWindowMinutesBefore: locations.checkinWindowMinutesBefore,
         noShowGraceMinutes: locations.noShowGraceMinutes,
+        overtimeGraceMinutes: locations.overtimeGraceMinutes,
       })
       .from(locations)
       .where(eq(locations.id, locationId))
@@ -112,6 +134,8 @@ export async function getCheckinSettings(locationId?: number) {
         ...platformDefaults,
         ...(loc.checkinWindowMinutesBefore != null ? { checkinWindowMinutesBefore: loc.checkinWindowMinutesBefore } : {}),
         ...(loc.noShowGraceMinutes != null ? { noShowGraceMinutes: loc.noShowGraceMinutes } : {}),
+        ...(loc.overtimeGraceMinutes != null ? { overtimeGraceMinutes: loc.overtimeGraceMinutes } : {}),
+        ...(scope ? { checklist: await getEffectiveChecklist(locationId, scope) } : {}),
       };
     }
   }
@@ -136,22 +160,18 @@ interface PhotoValidationResult {
  * @param locationId - Location where the kitchen belongs (owns the checklist)
  * @param type - Which checklist section to validate against
  * @param uploadedPhotoUrls - Flat array of photo URLs provided by the chef
+ * @param scope - Kitchen / storage listing whose checklist template applies
  */
 export async function validateRequiredPhotos(
   locationId: number,
   type: 'checkin' | 'checkout' | 'storage_checkout' | 'storage_checkin',
   uploadedPhotoUrls: string[] | undefined | null,
+  scope?: ChecklistScope,
 ): Promise<PhotoValidationResult> {
   const photos = Array.isArray(uploadedPhotoUrls) ? uploadedPhotoUrls.filter(Boolean) : [];
 
-  const [checklist] = await db
-    .select()
-    .from(checkinCheckoutChecklists)
-    .where(eq(checkinCheckoutChecklists.locationId, locationId))
-    .limit(1);
-
-  // No checklist configured → photos are optional
-  if (!checklist) return { valid: true };
+  // No checklist configured → defaults have no requirements, photos are optional
+  const checklist = await getEffectiveChecklist(locationId, scope);
 
   let requirementsRaw: unknown = [];
   let sectionEnabled = true;
@@ -162,8 +182,8 @@ export async function validateRequiredPhotos(
     requirementsRaw = checklist.checkoutPhotoRequirements;
     sectionEnabled = checklist.checkoutEnabled !== false;
   } else if (type === 'storage_checkin') {
-    requirementsRaw = (checklist as any).storageCheckinPhotoRequirements;
-    sectionEnabled = (checklist as any).storageCheckinEnabled !== false;
+    requirementsRaw = checklist.storageCheckinPhotoRequirements;
+    sectionEnabled = checklist.storageCheckinEnabled !== false;
   } else {
     requirementsRaw = checklist.storageCheckoutPhotoRequirements;
     sectionEnabled = checklist.storageCheckoutEnabled !== false;
@@ -204,22 +224,18 @@ interface ChecklistValidationResult {
  * @param locationId - Location where the kitchen belongs (owns the checklist)
  * @param type - Which checklist section to validate against
  * @param checkedItems - Array of {id, label, checked} items provided by the chef
+ * @param scope - Kitchen / storage listing whose checklist template applies
  */
 export async function validateRequiredChecklistItems(
   locationId: number,
   type: 'checkin' | 'checkout' | 'storage_checkout' | 'storage_checkin',
   checkedItems: Array<{ id: string; label: string; checked: boolean }> | undefined | null,
+  scope?: ChecklistScope,
 ): Promise<ChecklistValidationResult> {
   const items = Array.isArray(checkedItems) ? checkedItems : [];
 
-  const [checklist] = await db
-    .select()
-    .from(checkinCheckoutChecklists)
-    .where(eq(checkinCheckoutChecklists.locationId, locationId))
-    .limit(1);
-
-  // No checklist configured → skip validation
-  if (!checklist) return { valid: true };
+  // No checklist configured → defaults have no required items, nothing to validate
+  const checklist = await getEffectiveChecklist(locationId, scope);
 
   let requiredItemsRaw: unknown = [];
   let sectionEnabled = true;
@@ -230,8 +246,8 @@ export async function validateRequiredChecklistItems(
     requiredItemsRaw = checklist.checkoutItems;
     sectionEnabled = checklist.checkoutEnabled !== false;
   } else if (type === 'storage_checkin') {
-    requiredItemsRaw = (checklist as any).storageCheckinItems;
-    sectionEnabled = (checklist as any).storageCheckinEnabled !== false;
+    requiredItemsRaw = checklist.storageCheckinItems;
+    sectionEnabled = checklist.storageCheckinEnabled !== false;
   } else {
     requiredItemsRaw = checklist.storageCheckoutItems;
     sectionEnabled = checklist.storageCheckoutEnabled !== false;
@@ -284,6 +300,9 @@ export async function validateRequiredChecklistItems(
  */
 const ACCESS_CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'; // 32 chars
 
+// A push still 'pending' after this long was interrupted and is retried
+const PUSH_RETRY_AFTER_MS = 10 * 60 * 1000;
+
 /**
  * Generate a 6-character alphanumeric access code (Phase 2 default).
  * 32^6 = 1.07 billion combinations (vs 900K for numeric).
@@ -310,12 +329,13 @@ async function generateAccessCode(
   kitchenId: number,
   bookingDate: Date,
   format: 'alphanumeric' | 'numeric' = 'alphanumeric',
+  generate?: () => string,
 ): Promise<string> {
   const MAX_ATTEMPTS = 10;
   const dateStr = bookingDate.toISOString().split('T')[0];
 
   for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
-    const code = format === 'alphanumeric' ? generateAlphanumericCode() : generateNumericCode();
+    const code = generate ? generate() : format === 'alphanumeric' ? generateAlphanumericCode() : generateNumericCode();
 
     // Check collision: same kitchen, same date, active booking with same code
     // Compare candidate code against existing bcrypt hashes via bcrypt.compare()
@@ -357,9 +377,9 @@ async function hashAccessCode(code: string): Promise<string> {
  * Log an event to the access code audit trail.
  */
 async function logAccessCodeAudit(params: {
-  bookingId: number;
+  bookingId: number | null;
   kitchenId: number;
-  action: 'generated' | 'expired' | 'revoked' | 'regenerated';
+  action: 'generated' | 'expired' | 'revoked' | 'regenerated' | 'pushed' | 'push_failed' | 'removed' | 'remove_failed' | 'unlocked' | 'unlock_unmatched';
   accessCodeHash?: string;
   source?: 'system' | 'manager_app' | 'api';
   metadata?: Record<string, unknown>;
@@ -385,6 +405,14 @@ async function logAccessCodeAudit(params: {
  *
  * Phase 2: Stores bcrypt hash instead of plaintext. Code is returned once for
  * display to the chef, then only the hash remains in the DB.
+ *
+ * Overnight/multi-day bookings pass endDate so the code stays valid until
+ * endTime on the day the booking actually ends.
+ *
+ * Kitchens with a lock provider get the code pushed to the lock (replacing any
+ * code already pushed for this booking). The code is only returned once the
+ * lock accepts it; a failed push is stored as 'failed' and
+ * retryAccessCodePushes issues a fresh code on the next cron run.
  */
 export async function generateBookingAccessCode(
   bookingId: number,
@@ -392,12 +420,14 @@ export async function generateBookingAccessCode(
   startTime: string,
   endTime: string,
   kitchenId: number,
+  endDate?: Date | null,
 ): Promise<string | null> {
   try {
     // Check if kitchen has smart lock enabled
     const [kitchen] = await db
       .select({
         smartLockEnabled: kitchens.smartLockEnabled,
+        smartLockConfig: kitchens.smartLockConfig,
         locationId: kitchens.locationId,
         timezone: locations.timezone,
       })
@@ -408,34 +438,61 @@ export async function generateBookingAccessCode(
 
     if (!kitchen?.smartLockEnabled) return null;
 
+    const provider = getSmartLockProvider(kitchen.smartLockConfig);
+    if (provider) {
+      // Regeneration/reschedule: the old code must not keep opening the door
+      await removeCodeFromLockProvider(bookingId, kitchenId, 'replaced');
+      await db
+        .update(kitchenBookings)
+        .set({ accessCodePushStatus: 'pending', updatedAt: new Date() })
+        .where(eq(kitchenBookings.id, bookingId));
+    }
+
     // Access codes default to alphanumeric (6-char, 1B+ combos) for new bookings.
-    // Managers program the physical lock manually with the returned code.
-    const codeFormat: 'alphanumeric' | 'numeric' = 'alphanumeric';
+    // Locks with digit-only keypads generate their own numeric codes.
+    const codeFormat: 'alphanumeric' | 'numeric' = provider?.generateCode ? 'numeric' : 'alphanumeric';
 
     const settings = await getCheckinSettings(kitchen.locationId);
-    const code = await generateAccessCode(kitchenId, bookingDate, codeFormat);
-
-    // Hash the code for secure storage
-    const codeHash = await hashAccessCode(code);
+    let code = await generateAccessCode(kitchenId, bookingDate, codeFormat, provider?.generateCode);
 
     // Calculate validity window in the LOCATION's timezone so a booking that
     // starts "00:00" is midnight at the kitchen, not midnight on the server.
     const dateStr = bookingDate.toISOString().split('T')[0];
     const timezone = kitchen.timezone || DEFAULT_TIMEZONE;
-    const validFrom = createBookingDateTime(dateStr, startTime, timezone);
+    const { start: validFrom, end: validUntil } = getBookingWindow(
+      dateStr,
+      startTime,
+      endTime,
+      timezone,
+      endDate ? endDate.toISOString().split('T')[0] : null,
+    );
     validFrom.setMinutes(validFrom.getMinutes() - settings.accessCodeValidBeforeMinutes);
-
-    const validUntil = createBookingDateTime(dateStr, endTime, timezone);
     validUntil.setMinutes(validUntil.getMinutes() + settings.accessCodeValidAfterMinutes);
 
+    // Push to the lock before hashing — some locks issue their own PIN
+    const push = provider
+      ? await withLockRetries(() => provider.pushCode({
+          bookingId,
+          code,
+          validFrom,
+          validUntil,
+          label: `LocalCooks #${bookingId}`,
+        }))
+      : null;
+    if (push?.result?.code) code = push.result.code;
+
+    // Hash the code for secure storage
+    const codeHash = await hashAccessCode(code);
+
     // Store hash + format (bcrypt hash only — no plaintext column)
     await db
       .update(kitchenBookings)
       .set({
         accessCodeHash: codeHash,       // bcrypt hash only
-        accessCodeFormat: codeFormat,
+        accessCodeFormat: /^\d+$/.test(code) ? 'numeric' : codeFormat,
         accessCodeValidFrom: validFrom,
         accessCodeValidUntil: validUntil,
+        accessCodePushStatus: push ? (push.success ? 'pushed' : 'failed') : null,
         updatedAt: new Date(),
       })
       .where(eq(kitchenBookings.id, bookingId));
@@ -452,39 +509,172 @@ export async function generateBookingAccessCode(
       metadata: { codeFormat, validFrom: validFrom.toISOString(), validUntil: validUntil.toISOString() },
     });
 
-    return code; // Returned once for display to chef — manager programs the lock manually
+    if (provider && push) {
+      if (push.success) {
+        logger.info(`[KitchenCheckout] Pushed access code for booking ${bookingId} to ${provider.type} lock`);
+      } else {
+        logger.error(`[KitchenCheckout] Could not push access code for booking ${bookingId} to ${provider.type} lock: ${push.error}`);
+      }
+      await logAccessCodeAudit({
+        bookingId,
+        kitchenId,
+        action: push.success ? 'pushed' : 'push_failed',
+        accessCodeHash: codeHash,
+        source: 'system',
+        metadata: {
+          provider: provider.type,
+          attempts: push.attempts,
+          externalId: push.result?.externalId ?? null,
+          ...(push.error && { error: push.error }),
+        },
+      });
+    }
+
+    // A code the lock never accepted would not open the door
+    if (push && !push.success) return null;
+
+    return code; // Returned once for display to chef
   } catch (error) {
     logger.error(`[KitchenCheckout] Error generating access code for booking ${bookingId}:`, error);
     return null;
   }
 }
 
+/**
+ * Issue and push a code for a newly confirmed booking when its kitchen has a
+ * lock provider. Kitchens without one keep the manager's static code, so
+ * nothing is generated for them.
+ */
+export async function provisionBookingAccessCode(bookingId: number): Promise<string | null> {
+  const [booking] = await db
+    .select({
+      kitchenId: kitchenBookings.kitchenId,
+      bookingDate: kitchenBookings.bookingDate,
+      startTime: kitchenBookings.startTime,
+      endTime: kitchenBookings.endTime,
+      endDate: kitchenBookings.endDate,
+      smartLockEnabled: kitchens.smartLockEnabled,
+      smartLockConfig: kitchens.smartLockConfig,
+    })
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchens.id, kitchenBookings.kitchenId))
+    .where(eq(kitchenBookings.id, bookingId))
+    .limit(1);
+
+  if (!booking?.smartLockEnabled || !getSmartLockProvider(booking.smartLockConfig)) return null;
+
+  return generateBookingAccessCode(
+    bookingId,
+    booking.bookingDate,
+    booking.startTime,
+    booking.endTime,
+    booking.kitchenId,
+    booking.endDate,
+  );
+}
+
 // ============================================================================
 // ACCESS CODE REMOVAL (cancellation / expiry lifecycle)
 // ============================================================================
 
 /**
- * Invalidate a booking's access code in our DB when the booking is cancelled,
- * expires, or is revoked. The manager must manually remove the code from the
- * physical lock — we do not call any hardware API.
+ * Delete a booking's code from the kitchen's lock provider, with retries.
+ * Only acts when the latest push for the booking has not been removed yet,
+ * so it is safe to call repeatedly. Runs even if the manager has since turned
+ * the smart lock off, so no pushed code is left on the door.
+ */
+export async function removeCodeFromLockProvider(
+  bookingId: number,
+  kitchenId: number,
+  reason: string,
+): Promise<'removed' | 'failed' | 'skipped'> {
+  try {
+    const [kitchen] = await db
+      .select({ smartLockConfig: kitchens.smartLockConfig })
+      .from(kitchens)
+      .where(eq(kitchens.id, kitchenId))
+      .limit(1);
+
+    const provider = getSmartLockProvider(kitchen?.smartLockConfig);
+    if (!provider) return 'skipped';
+
+    const [lastLockEvent] = await db
+      .select({ action: accessCodeAudit.action, accessCodeHash: accessCodeAudit.accessCodeHash, metadata: accessCodeAudit.metadata })
+      .from(accessCodeAudit)
+      .where(
+        and(
+          eq(accessCodeAudit.bookingId, bookingId),
+          inArray(accessCodeAudit.action, ['pushed', 'removed']),
+        )
+      )
+      .orderBy(desc(accessCodeAudit.createdAt), desc(accessCodeAudit.id))
+      .limit(1);
+
+    if (lastLockEvent?.action !== 'pushed') return 'skipped';
+
+    const externalId = ((lastLockEvent.metadata as Record<string, unknown> | null)?.externalId as string | null) ?? null;
+    const removal = await withLockRetries(() => provider.removeCode({ bookingId, externalId }));
+
+    if (removal.success) {
+      logger.info(`[KitchenCheckout] Removed access code for booking ${bookingId} from ${provider.type} lock (${reason})`);
+    } else {
+      logger.error(`[KitchenCheckout] Could not remove access code for booking ${bookingId} from ${provider.type} lock: ${removal.error}`);
+    }
+
+    await logAccessCodeAudit({
+      bookingId,
+      kitchenId,
+      action: removal.success ? 'removed' : 'remove_failed',
+      accessCodeHash: lastLockEvent.accessCodeHash || undefined,
+      source: 'system',
+      metadata: {
+        provider: provider.type,
+        reason,
+        attempts: removal.attempts,
+        externalId,
+        ...(removal.error && { error: removal.error }),
+      },
+    });
+
+    return removal.success ? 'removed' : 'failed';
+  } catch (error) {
+    logger.error(`[KitchenCheckout] Error removing access code for booking ${bookingId} from lock:`, error);
+    return 'failed';
+  }
+}
+
+/**
+ * Invalidate a booking's access code when the booking is cancelled, expires,
+ * or is revoked. Kitchens with a lock provider also have the code deleted
+ * from the lock; otherwise the manager removes it from the keypad by hand.
+ * The hash is kept until the lock confirms removal, so expireAccessCodes
+ * retries codes the lock could not remove.
  */
 export async function removeAccessCodeFromLock(
   bookingId: number,
-  _kitchenId: number,
-): Promise<void> {
+  kitchenId: number,
+): Promise<'removed' | 'failed' | 'skipped'> {
   try {
+    const removal = await removeCodeFromLockProvider(bookingId, kitchenId, 'revoked');
+
     await db
       .update(kitchenBookings)
       .set({
         accessCodeValidUntil: new Date(),
-        accessCodeHash: null,
+        ...(removal !== 'failed' && { accessCodeHash: null }),
         updatedAt: new Date(),
       })
       .where(eq(kitchenBookings.id, bookingId));
 
-    logger.info(`[KitchenCheckout] Invalidated access code for booking ${bookingId} (manager must remove from physical lock manually)`);
+    if (removal === 'failed') {
+      logger.warn(`[KitchenCheckout] Expired access code for booking ${bookingId}; lock removal will be retried`);
+    } else {
+      logger.info(`[KitchenCheckout] Invalidated access code for booking ${bookingId}`);
+    }
+    return removal;
   } catch (error) {
     logger.error(`[KitchenCheckout] Error invalidating access code for booking ${bookingId}:`, error);
+    return 'failed';
   }
 }
 
@@ -505,6 +695,7 @@ export async function removeAccessCodeFromLock(
  * @param method - 'self' (chef tapped the button in their app)
  * @param checkinNotes - Optional notes
  * @param checkinPhotoUrls - Optional condition photos
+ * @param checkinPhotosByRequirement - The same photos keyed by PhotoRequirement id
  */
 export async function requestKitchenCheckin(
   bookingId: number,
@@ -513,6 +704,7 @@ export async function requestKitchenCheckin(
   checkinNotes?: string,
   checkinPhotoUrls?: string[],
   checkinChecklistItems?: Array<{ id: string; label: string; checked: boolean }>,
+  checkinPhotosByRequirement?: Record<string, string[]>,
 ): Promise<CheckinResult> {
   try {
     if (!bookingId || bookingId <= 0) return { success: false, error: 'Invalid booking ID' };
@@ -527,6 +719,7 @@ export async function requestKitchenCheckin(
         bookingDate: kitchenBookings.bookingDate,
         startTime: kitchenBookings.startTime,
         endTime: kitchenBookings.endTime,
+        endDate: kitchenBookings.endDate,
         kitchenId: kitchenBookings.kitchenId,
         locationId: kitchens.locationId,
         timezone: locations.timezone,
@@ -562,8 +755,13 @@ export async function requestKitchenCheckin(
     const dateStr = booking.bookingDate.toISOString().split('T')[0];
     const timezone = booking.timezone || DEFAULT_TIMEZONE;
 
-    const bookingStart = createBookingDateTime(dateStr, booking.startTime, timezone);
-    const bookingEnd = createBookingDateTime(dateStr, booking.endTime, timezone);
+    const { start: bookingStart, end: bookingEnd } = getBookingWindow(
+      dateStr,
+      booking.startTime,
+      booking.endTime,
+      timezone,
+      booking.endDate ? booking.endDate.toISOString().split('T')[0] : null,
+    );
     const checkinOpens = new Date(bookingStart.getTime() - settings.checkinWindowMinutesBefore * 60 * 1000);
 
     if (now < checkinOpens) {
@@ -576,13 +774,13 @@ export async function requestKitchenCheckin(
     }
 
     // Enforce photo requirements against the manager-configured checklist.
-    const photoValidation = await validateRequiredPhotos(booking.locationId, 'checkin', checkinPhotoUrls);
+    const photoValidation = await validateRequiredPhotos(booking.locationId, 'checkin', checkinPhotoUrls, { kitchenId: booking.kitchenId });
     if (!photoValidation.valid) {
       return { success: false, error: photoValidation.error };
     }
 
     // Enforce checklist item requirements against the manager-configured checklist.
-    const checklistValidation = await validateRequiredChecklistItems(booking.locationId, 'checkin', checkinChecklistItems);
+    const checklistValidation = await validateRequiredChecklistItems(booking.locationId, 'checkin', checkinChecklistItems, { kitchenId: booking.kitchenId });
     if (!checklistValidation.valid) {
       return { success: false, error: checklistValidation.error };
     }
@@ -597,6 +795,7 @@ export async function requestKitchenCheckin(
         checkedInMethod: method,
         checkinNotes: checkinNotes || null,
         checkinPhotoUrls: checkinPhotoUrls || [],
+        checkinPhotoDetails: buildConditionPhotoDetails(checkinPhotoUrls, checkinPhotosByRequirement, chefId, now),
         checkinChecklistItems: checkinChecklistItems || [],
         actualStartTime,
         updatedAt: now,
@@ -691,6 +890,176 @@ export async function managerConfirmCheckin(
   }
 }
 
+// ============================================================================
+// LOCK EVENTS (door unlock → auto check-in)
+// ============================================================================
+
+/**
+ * Check a chef in from a door unlock. Also reverses a no-show that was marked
+ * before the lock's event reached us. Returns false when the booking was
+ * already checked in (or past it).
+ */
+async function checkInFromLockEvent(
+  bookingId: number,
+  chefId: number | null,
+  unlockedAt: Date,
+  timezone: string,
+): Promise<boolean> {
+  const [updated] = await db
+    .update(kitchenBookings)
+    .set({
+      checkinStatus: 'checked_in',
+      checkedInAt: unlockedAt,
+      checkedInMethod: 'smart_lock',
+      checkinNotes: 'Checked in automatically when the door was unlocked',
+      actualStartTime: formatInTimezone(unlockedAt, 'HH:mm', timezone),
+      noShowDetectedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(kitchenBookings.id, bookingId),
+        eq(kitchenBookings.status, 'confirmed'),
+        inArray(kitchenBookings.checkinStatus, ['not_checked_in', 'no_show']), // Atomic guard
+      )
+    )
+    .returning({ id: kitchenBookings.id });
+
+  if (!updated) return false;
+
+  logger.info(`[KitchenCheckout] Booking ${bookingId} checked in from door unlock at ${unlockedAt.toISOString()}`);
+
+  if (chefId) {
+    sendCheckinNotification(bookingId, chefId).catch(err =>
+      logger.error(`[KitchenCheckout] Error sending checkin notification:`, err)
+    );
+  }
+  return true;
+}
+
+/**
+ * Record a signed lock event for a kitchen. An unlock is matched to the
+ * confirmed booking whose code was used — by comparing the typed code with
+ * accessCodeHash, or the provider's code id with the one saved when the code
+ * was pushed — and only inside that code's validity window. A match checks
+ * the chef in; every unlock lands in the access code audit trail.
+ */
+export async function ingestLockEvent(kitchenId: number, event: LockEvent): Promise<LockEventResult> {
+  try {
+    if (event.eventId) {
+      const [seen] = await db
+        .select({ id: accessCodeAudit.id })
+        .from(accessCodeAudit)
+        .where(
+          and(
+            eq(accessCodeAudit.kitchenId, kitchenId),
+            inArray(accessCodeAudit.action, ['unlocked', 'unlock_unmatched']),
+            sql`${accessCodeAudit.metadata}->>'eventId' = ${event.eventId}`,
+          )
+        )
+        .limit(1);
+      if (seen) return { success: true, duplicate: true };
+    }
+
+    // Lock/tamper/battery events are not tied to a booking
+    if (event.type !== 'unlock') return { success: true, matched: false };
+
+    if (!event.code && !event.externalId) {
+      return { success: false, error: 'Unlock events need a code or externalId', status: 400 };
+    }
+
+    const candidates = await db
+      .select({
+        id: kitchenBookings.id,
+        chefId: kitchenBookings.chefId,
+        accessCodeHash: kitchenBookings.accessCodeHash,
+        checkinStatus: kitchenBookings.checkinStatus,
+        timezone: locations.timezone,
+      })
+      .from(kitchenBookings)
+      .innerJoin(kitchens, eq(kitchens.id, kitchenBookings.kitchenId))
+      .innerJoin(locations, eq(locations.id, kitchens.locationId))
+      .where(
+        and(
+          eq(kitchenBookings.kitchenId, kitchenId),
+          eq(kitchenBookings.status, 'confirmed'),
+          isNotNull(kitchenBookings.accessCodeHash),
+          lte(kitchenBookings.accessCodeValidFrom, event.occurredAt),
+          gte(kitchenBookings.accessCodeValidUntil, event.occurredAt),
+        )
+      );
+
+    let match: (typeof candidates)[number] | undefined;
+    let matchedBy: 'code' | 'externalId' | undefined;
+
+    if (event.code) {
+      for (const candidate of candidates) {
+        if (candidate.accessCodeHash && await bcrypt.compare(event.code, candidate.accessCodeHash)) {
+          match = candidate;
+          matchedBy = 'code';
+          break;
+        }
+      }
+    }
+
+    if (!match && event.externalId && candidates.length > 0) {
+      const [pushed] = await db
+        .select({ bookingId: accessCodeAudit.bookingId })
+        .from(accessCodeAudit)
+        .where(
+          and(
+            eq(accessCodeAudit.action, 'pushed'),
+            inArray(accessCodeAudit.bookingId, candidates.map((c) => c.id)),
+            sql`${accessCodeAudit.metadata}->>'externalId' = ${event.externalId}`,
+          )
+        )
+        .orderBy(desc(accessCodeAudit.createdAt))
+        .limit(1);
+      match = candidates.find((c) => c.id === pushed?.bookingId);
+      if (match) matchedBy = 'externalId';
+    }
+
+    const eventMetadata = {
+      eventId: event.eventId,
+      occurredAt: event.occurredAt.toISOString(),
+      ...(event.externalId && { externalId: event.externalId }),
+    };
+
+    if (!match) {
+      logger.warn(`[KitchenCheckout] Unlock on kitchen ${kitchenId} at ${event.occurredAt.toISOString()} matched no active access code`);
+      await logAccessCodeAudit({
+        bookingId: null,
+        kitchenId,
+        action: 'unlock_unmatched',
+        source: 'api',
+        metadata: eventMetadata,
+      });
+      return { success: true, matched: false };
+    }
+
+    const checkedIn = await checkInFromLockEvent(
+      match.id,
+      match.chefId,
+      event.occurredAt,
+      match.timezone || DEFAULT_TIMEZONE,
+    );
+
+    await logAccessCodeAudit({
+      bookingId: match.id,
+      kitchenId,
+      action: 'unlocked',
+      accessCodeHash: match.accessCodeHash || undefined,
+      source: 'api',
+      metadata: { ...eventMetadata, matchedBy, checkedIn, previousCheckinStatus: match.checkinStatus },
+    });
+
+    return { success: true, matched: true, bookingId: match.id, checkedIn };
+  } catch (error) {
+    logger.error(`[KitchenCheckout] Error ingesting lock event for kitchen ${kitchenId}:`, error);
+    return { success: false, error: 'Failed to process lock event', status: 500 };
+  }
+}
+
 // ============================================================================
 // CHEF CHECKOUT REQUEST
 // ============================================================================
@@ -705,6 +1074,7 @@ export async function requestKitchenCheckout(
   checkoutNotes?: string,
   checkoutPhotoUrls?: string[],
   checkoutChecklistItems?: Array<{ id: string; label: string; checked: boolean }>,
+  checkoutPhotosByRequirement?: Record<string, string[]>,
 ): Promise<CheckinResult> {
   try {
     if (!bookingId || bookingId <= 0) return { success: false, error: 'Invalid booking ID' };
@@ -716,6 +1086,7 @@ export async function requestKitchenCheckout(
         chefId: kitchenBookings.chefId,
         status: kitchenBookings.status,
         checkinStatus: kitchenBookings.checkinStatus,
+        kitchenId: kitchenBookings.kitchenId,
         locationId: kitchens.locationId,
       })
       .from(kitchenBookings)
@@ -732,13 +1103,13 @@ export async function requestKitchenCheckout(
     }
 
     // Enforce photo requirements against the manager-configured checklist.
-    const photoValidation = await validateRequiredPhotos(booking.locationId, 'checkout', checkoutPhotoUrls);
+    const photoValidation = await validateRequiredPhotos(booking.locationId, 'checkout', checkoutPhotoUrls, { kitchenId: booking.kitchenId });
     if (!photoValidation.valid) {
       return { success: false, error: photoValidation.error };
     }
 
     // Enforce checklist item requirements against the manager-configured checklist.
-    const checklistValidation = await validateRequiredChecklistItems(booking.locationId, 'checkout', checkoutChecklistItems);
+    const checklistValidation = await validateRequiredChecklistItems(booking.locationId, 'checkout', checkoutChecklistItems, { kitchenId: booking.kitchenId });
     if (!checklistValidation.valid) {
       return { success: false, error: checklistValidation.error };
     }
@@ -751,8 +1122,10 @@ export async function requestKitchenCheckout(
       .set({
         checkinStatus: 'checkout_requested',
         checkoutRequestedAt: now,
+        checkedOutAt: now,
         checkoutNotes: checkoutNotes || null,
         checkoutPhotoUrls: checkoutPhotoUrls || [],
+        checkoutPhotoDetails: buildConditionPhotoDetails(checkoutPhotoUrls, checkoutPhotosByRequirement, chefId, now),
         checkoutChecklistItems: checkoutChecklistItems || [],
         actualEndTime,
         updatedAt: now,
@@ -774,6 +1147,11 @@ export async function requestKitchenCheckout(
       logger.error(`[KitchenCheckout] Error sending checkout notification:`, err)
     );
 
+    // Propose an overtime charge if the chef left after the grace period (fire-and-forget)
+    import('./kitchen-overtime-service')
+      .then(({ detectOvertimeForBooking }) => detectOvertimeForBooking(bookingId))
+      .catch(err => logger.error(`[KitchenCheckout] Error detecting overtime:`, err));
+
     return { success: true, bookingId, checkinStatus: 'checkout_requested' };
   } catch (error) {
     logger.error(`[KitchenCheckout] Error during checkout request:`, error);
@@ -836,6 +1214,11 @@ export async function processKitchenCheckoutClear(
       logger.error(`[KitchenCheckout] Error sending cleared notification:`, err)
     );
 
+    // Release the security deposit if nothing else is holding it (fire-and-forget)
+    import('./security-deposit-service')
+      .then(({ releaseSecurityDepositIfSettled }) => releaseSecurityDepositIfSettled(bookingId))
+      .catch(err => logger.error(`[KitchenCheckout] Error releasing security deposit:`, err));
+
     return { success: true, bookingId, checkinStatus: 'checked_out', bookingCompleted: true };
   } catch (error) {
     logger.error(`[KitchenCheckout] Error clearing checkout:`, error);
@@ -1071,10 +1454,12 @@ export async function processExpiredKitchenCheckoutReviews(): Promise<AutoClearR
 
 /**
  * Cron sweep: Mark confirmed bookings as no-show if chef didn't check in
- * within the grace period after start time.
+ * within the grace period after start time. The booking window is resolved
+ * across midnight for overnight bookings; one that ends before the grace
+ * period is up is marked when it ends, since check-in closes then.
  */
 export async function detectKitchenNoShows(): Promise<NoShowResult> {
-  const result: NoShowResult = { processed: 0, marked: 0, errors: 0 };
+  const result: NoShowResult = { processed: 0, marked: 0, suppressed: 0, errors: 0 };
 
   try {
     const now = new Date();
@@ -1091,6 +1476,8 @@ export async function detectKitchenNoShows(): Promise<NoShowResult> {
         chefId: kitchenBookings.chefId,
         bookingDate: kitchenBookings.bookingDate,
         startTime: kitchenBookings.startTime,
+        endTime: kitchenBookings.endTime,
+        endDate: kitchenBookings.endDate,
         kitchenId: kitchenBookings.kitchenId,
         locationId: kitchens.locationId,
         timezone: locations.timezone,
@@ -1117,11 +1504,44 @@ export async function detectKitchenNoShows(): Promise<NoShowResult> {
         const bookingSettings = await getCheckinSettings(booking.locationId);
         const dateStr = booking.bookingDate.toISOString().split('T')[0];
         const timezone = booking.timezone || DEFAULT_TIMEZONE;
-        const bookingStart = createBookingDateTime(dateStr, booking.startTime, timezone);
-        const noShowCutoff = new Date(bookingStart.getTime() + bookingSettings.noShowGraceMinutes * 60 * 1000);
+        const { start: bookingStart, end: bookingEnd } = getBookingWindow(
+          dateStr,
+          booking.startTime,
+          booking.endTime,
+          timezone,
+          booking.endDate ? booking.endDate.toISOString().split('T')[0] : null,
+        );
+        const noShowCutoff = new Date(Math.min(
+          bookingStart.getTime() + bookingSettings.noShowGraceMinutes * 60 * 1000,
+          Math.max(bookingEnd.getTime(), bookingStart.getTime()),
+        ));
 
         if (now <= noShowCutoff) continue; // Not yet past grace period
 
+        // The chef opened the door with their code but the check-in never
+        // landed — they showed up, so check them in from the unlock instead
+        const [unlock] = await db
+          .select({ metadata: accessCodeAudit.metadata })
+          .from(accessCodeAudit)
+          .where(
+            and(
+              eq(accessCodeAudit.bookingId, booking.id),
+              eq(accessCodeAudit.action, 'unlocked'),
+            )
+          )
+          .orderBy(accessCodeAudit.createdAt)
+          .limit(1);
+
+        if (unlock) {
+          const occurredAt = (unlock.metadata as Record<string, unknown> | null)?.occurredAt;
+          const unlockedAt = typeof occurredAt === 'string' ? new Date(occurredAt) : now;
+          if (await checkInFromLockEvent(booking.id, booking.chefId, unlockedAt, timezone)) {
+            result.suppressed++;
+            logger.info(`[KitchenCheckout] Booking ${booking.id} not marked no-show — door was unlocked with its code`);
+          }
+          continue;
+        }
+
         await db
           .update(kitchenBookings)
           .set({
@@ -1149,8 +1569,8 @@ export async function detectKitchenNoShows(): Promise<NoShowResult> {
       }
     }
 
-    if (result.marked > 0) {
-      logger.info(`[KitchenCheckout] No-show detection: ${result.marked} marked out of ${result.processed} candidates`);
+    if (result.marked > 0 || result.suppressed > 0) {
+      logger.info(`[KitchenCheckout] No-show detection: ${result.marked} marked, ${result.suppressed} checked in from door unlocks, out of ${result.processed} candidates`);
     }
   } catch (err) {
     logger.error(`[KitchenCheckout] Error in detectKitchenNoShows:`, err);
@@ -1164,9 +1584,16 @@ export async function detectKitchenNoShows(): Promise<NoShowResult> {
 // ACCESS CODE EXPIRY (Cron Task 8)
 // ============================================================================
 
+export interface AccessCodePushRetryResult {
+  processed: number;
+  pushed: number;
+  errors: number;
+}
+
 export interface AccessCodeExpiryResult {
   processed: number;
   expired: number;
+  removedFromLock: number;
   errors: number;
 }
 
@@ -1174,26 +1601,30 @@ export interface AccessCodeExpiryResult {
  * Cron sweep: Find bookings with access codes past their validity window
  * and log 'expired' audit events. This is a safety net — the validate
  * endpoint already rejects expired codes, but this creates an audit record.
+ * Codes pushed to a lock provider are deleted from the lock here; a removal
+ * that failed is retried on the next run, including for cancelled bookings.
  */
 export async function expireAccessCodes(): Promise<AccessCodeExpiryResult> {
-  const result: AccessCodeExpiryResult = { processed: 0, expired: 0, errors: 0 };
+  const result: AccessCodeExpiryResult = { processed: 0, expired: 0, removedFromLock: 0, errors: 0 };
 
   try {
     const now = new Date();
 
     // Find confirmed bookings with access codes that have expired
-    // (valid_until is in the past, and no 'expired' audit event logged yet)
+    // (valid_until is in the past, and no 'expired' audit event logged yet),
+    // and cancelled bookings whose code the lock has not confirmed removing
     const expired = await db
       .select({
         id: kitchenBookings.id,
         kitchenId: kitchenBookings.kitchenId,
+        status: kitchenBookings.status,
         accessCodeHash: kitchenBookings.accessCodeHash,
         accessCodeValidUntil: kitchenBookings.accessCodeValidUntil,
       })
       .from(kitchenBookings)
       .where(
         and(
-          eq(kitchenBookings.status, 'confirmed'),
+          inArray(kitchenBookings.status, ['confirmed', 'cancelled']),
           lt(kitchenBookings.accessCodeValidUntil, now),
           // Only bookings that actually have a code
           sql`access_code_hash IS NOT NULL`,
@@ -1207,6 +1638,14 @@ export async function expireAccessCodes(): Promise<AccessCodeExpiryResult> {
 
     for (const booking of expired) {
       try {
+        if (booking.status === 'cancelled') {
+          // Retry the removal; the hash is cleared once the lock confirms it
+          const removal = await removeAccessCodeFromLock(booking.id, booking.kitchenId);
+          if (removal === 'removed') result.removedFromLock++;
+          if (removal === 'failed') result.errors++;
+          continue;
+        }
+
         // Check if we already logged an 'expired' event for this booking
         const [existingAudit] = await db
           .select({ id: accessCodeAudit.id })
@@ -1219,19 +1658,24 @@ export async function expireAccessCodes(): Promise<AccessCodeExpiryResult> {
           )
           .limit(1);
 
-        if (existingAudit) continue; // Already logged
+        if (!existingAudit) {
+          // Log expiry audit event
+          await logAccessCodeAudit({
+            bookingId: booking.id,
+            kitchenId: booking.kitchenId,
+            action: 'expired',
+            accessCodeHash: booking.accessCodeHash || undefined,
+            source: 'system',
+            metadata: { expiredAt: booking.accessCodeValidUntil?.toISOString() },
+          });
 
-        // Log expiry audit event
-        await logAccessCodeAudit({
-          bookingId: booking.id,
-          kitchenId: booking.kitchenId,
-          action: 'expired',
-          accessCodeHash: booking.accessCodeHash || undefined,
-          source: 'system',
-          metadata: { expiredAt: booking.accessCodeValidUntil?.toISOString() },
-        });
+          result.expired++;
+        }
 
-        result.expired++;
+        // No-op unless a pushed code is still on the lock
+        const removal = await removeCodeFromLockProvider(booking.id, booking.kitchenId, 'expired');
+        if (removal === 'removed') result.removedFromLock++;
+        if (removal === 'failed') result.errors++;
       } catch (err) {
         result.errors++;
         logger.error(`[KitchenCheckout] Error logging expiry for booking ${booking.id}:`, err);
@@ -1249,6 +1693,88 @@ export async function expireAccessCodes(): Promise<AccessCodeExpiryResult> {
   return result;
 }
 
+/**
+ * Cron sweep: retry codes the lock did not accept. Only the hash of a failed
+ * code is kept, so each retry issues a fresh code; once the lock accepts it
+ * the chef is sent the code. Pushes still marked 'pending' after
+ * PUSH_RETRY_AFTER_MS were interrupted and are retried too.
+ */
+export async function retryAccessCodePushes(): Promise<AccessCodePushRetryResult> {
+  const result: AccessCodePushRetryResult = { processed: 0, pushed: 0, errors: 0 };
+
+  try {
+    const now = new Date();
+    const stuckBefore = new Date(now.getTime() - PUSH_RETRY_AFTER_MS);
+
+    const unpushed = await db
+      .select({
+        id: kitchenBookings.id,
+        chefId: kitchenBookings.chefId,
+        kitchenId: kitchenBookings.kitchenId,
+        bookingDate: kitchenBookings.bookingDate,
+        startTime: kitchenBookings.startTime,
+        endTime: kitchenBookings.endTime,
+        endDate: kitchenBookings.endDate,
+        kitchenName: kitchens.name,
+      })
+      .from(kitchenBookings)
+      .innerJoin(kitchens, eq(kitchens.id, kitchenBookings.kitchenId))
+      .where(
+        and(
+          eq(kitchenBookings.status, 'confirmed'),
+          eq(kitchens.smartLockEnabled, true),
+          gte(kitchenBookings.accessCodeValidUntil, now),
+          sql`(${kitchenBookings.accessCodePushStatus} = 'failed'
+            OR (${kitchenBookings.accessCodePushStatus} = 'pending' AND ${kitchenBookings.updatedAt} < ${stuckBefore}))`,
+        )
+      );
+
+    result.processed = unpushed.length;
+    if (unpushed.length === 0) return result;
+
+    logger.info(`[KitchenCheckout] Retrying ${unpushed.length} access code pushes`);
+
+    for (const booking of unpushed) {
+      const code = await generateBookingAccessCode(
+        booking.id,
+        booking.bookingDate,
+        booking.startTime,
+        booking.endTime,
+        booking.kitchenId,
+        booking.endDate,
+      );
+      if (!code) {
+        result.errors++;
+        continue;
+      }
+
+      result.pushed++;
+      if (!booking.chefId) continue;
+      try {
+        const { notificationService } = await import('./notification.service');
+        await notificationService.notifyChefAccessCodeReady({
+          chefId: booking.chefId,
+          bookingId: booking.id,
+          kitchenName: booking.kitchenName,
+          bookingDate: booking.bookingDate.toISOString().split('T')[0],
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          accessCode: code,
+        });
+      } catch (err) {
+        logger.error(`[KitchenCheckout] Error sending access code for booking ${booking.id}:`, err);
+      }
+    }
+
+    logger.info(`[KitchenCheckout] Access code push retry: ${result.pushed} pushed out of ${result.processed}`);
+  } catch (err) {
+    logger.error(`[KitchenCheckout] Error in retryAccessCodePushes:`, err);
+    result.errors++;
+  }
+
+  return result;
+}
+
 // ============================================================================
 // INTERNAL HELPERS
 // ============================================================================
@@ -1821,7 +2347,9 @@ export const kitchenCheckoutService = {
   processKitchenCheckoutClaim,
   // Smart lock
   generateBookingAccessCode,
+  provisionBookingAccessCode,
   removeAccessCodeFromLock,
+  removeCodeFromLockProvider,
   // Phase 2: exported for use by access routes and manager routes
   hashAccessCode,
   logAccessCodeAudit,
@@ -1831,8 +2359,10 @@ export const kitchenCheckoutService = {
   processExpiredKitchenCheckoutReviews,
   // No-show
   detectKitchenNoShows,
-  // Access code expiry (cron)
+  ingestLockEvent,
+  // Access code expiry and push retries (cron)
   expireAccessCodes,
+  retryAccessCodePushes,
   // Phase 4: Emergency revocation
   emergencyRevokeAccessCodes,
   // Phase 4: Analytics
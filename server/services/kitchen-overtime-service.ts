@@ -0,0 +1,715 @@
+import { logger } from "../logger";
+/**
+ * Kitchen Overtime Service
+ *
+ * Bills chefs who check out of a kitchen after the booked end time. When the
+ * check-out (`checkedOutAt`) is later than the booked end plus the location's
+ * overtime grace period, an overtime charge is proposed at the kitchen's
+ * hourly rate for the whole time past the end, rounded up to the billing
+ * increment.
+ *
+ * Like storage overstay penalties, overtime is NEVER auto-charged: the
+ * manager approves, adjusts (down) or waives the proposal, and only then is
+ * the chef's saved card charged off-session.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import {
+  kitchenBookings,
+  kitchenOvertimeRecords,
+  kitchens,
+  locations,
+  users,
+  type KitchenOvertimeRecord,
+  type KitchenOvertimeStatus,
+} from "@shared/schema";
+import { and, desc, eq, gte, inArray, isNotNull, isNull } from "drizzle-orm";
+import { DEFAULT_TIMEZONE, getBookingWindow } from "@shared/timezone-utils";
+import { toStripeCurrency } from "@shared/currency-utils";
+import { getCheckinSettings } from "./kitchen-checkout-service";
+import { getLocationCurrency } from "./location-currency-service";
+import { calculateLocationTax } from "./tax-service";
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, {
+  apiVersion: '2026-02-25.clover',
+}) : null;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OvertimeCalculation {
+  overtimeMinutes: number;
+  billableMinutes: number;
+  chargeCents: number;
+}
+
+export interface OvertimeDecision {
+  overtimeRecordId: number;
+  managerId: number;
+  action: 'approve' | 'waive' | 'adjust';
+  finalChargeCents?: number;
+  waiveReason?: string;
+  managerNotes?: string;
+}
+
+export interface OvertimeChargeResult {
+  success: boolean;
+  paymentIntentId?: string;
+  chargeId?: string;
+  error?: string;
+  requires3DS?: boolean;
+}
+
+export interface OvertimeSweepResult {
+  processed: number;
+  detected: number;
+  errors: number;
+}
+
+export interface KitchenOvertimeReview {
+  id: number;
+  kitchenBookingId: number;
+  bookingReference: string | null;
+  status: KitchenOvertimeStatus;
+  bookedEndAt: Date;
+  checkedOutAt: Date;
+  overtimeMinutes: number;
+  graceMinutes: number;
+  billableMinutes: number;
+  hourlyRateCents: number;
+  calculatedChargeCents: number;
+  finalChargeCents: number | null;
+  currency: string;
+  waiveReason: string | null;
+  managerNotes: string | null;
+  chargeFailureReason: string | null;
+  chargedAt: Date | null;
+  createdAt: Date;
+  kitchenId: number;
+  kitchenName: string;
+  locationId: number;
+  locationName: string;
+  chefId: number | null;
+  chefEmail: string | null;
+  hasPaymentMethod: boolean;
+}
+
+/** Overtime is billed in blocks of this many minutes */
+export const OVERTIME_BILLING_INCREMENT_MINUTES = 15;
+
+/** Records still waiting on the manager or on Stripe */
+const ACTIVE_STATUSES: KitchenOvertimeStatus[] = ['pending_review', 'approved', 'charge_pending', 'charge_failed'];
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Overtime for a check-out, or null when the chef left within the grace
+ * period. Once past grace, every minute after the booked end is billed.
+ */
+export function calculateOvertimeCharge(input: {
+  bookedEndAt: Date;
+  checkedOutAt: Date;
+  graceMinutes: number;
+  hourlyRateCents: number;
+}): OvertimeCalculation | null {
+  const overtimeMinutes = Math.floor((input.checkedOutAt.getTime() - input.bookedEndAt.getTime()) / MINUTE_MS);
+  if (overtimeMinutes <= Math.max(0, input.graceMinutes)) return null;
+
+  const billableMinutes = Math.ceil(overtimeMinutes / OVERTIME_BILLING_INCREMENT_MINUTES) * OVERTIME_BILLING_INCREMENT_MINUTES;
+  const chargeCents = Math.round((Math.max(0, input.hourlyRateCents) * billableMinutes) / 60);
+
+  return { overtimeMinutes, billableMinutes, chargeCents };
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Compare a booking's check-out to its booked end and open an overtime
+ * record for the manager to review. Safe to call more than once per booking.
+ */
+export async function detectOvertimeForBooking(bookingId: number): Promise<KitchenOvertimeRecord | null> {
+  const [booking] = await db
+    .select({
+      id: kitchenBookings.id,
+      chefId: kitchenBookings.chefId,
+      kitchenId: kitchenBookings.kitchenId,
+      status: kitchenBookings.status,
+      bookingDate: kitchenBookings.bookingDate,
+      startTime: kitchenBookings.startTime,
+      endTime: kitchenBookings.endTime,
+      endDate: kitchenBookings.endDate,
+      checkedOutAt: kitchenBookings.checkedOutAt,
+      bookingHourlyRate: kitchenBookings.hourlyRate,
+      kitchenHourlyRate: kitchens.hourlyRate,
+      kitchenName: kitchens.name,
+      locationId: kitchens.locationId,
+      managerId: locations.managerId,
+      timezone: locations.timezone,
+    })
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchens.id, kitchenBookings.kitchenId))
+    .innerJoin(locations, eq(locations.id, kitchens.locationId))
+    .where(eq(kitchenBookings.id, bookingId))
+    .limit(1);
+
+  if (!booking || !booking.checkedOutAt || !booking.chefId) return null;
+  if (booking.status === 'cancelled') return null;
+
+  const [existing] = await db
+    .select()
+    .from(kitchenOvertimeRecords)
+    .where(eq(kitchenOvertimeRecords.kitchenBookingId, bookingId))
+    .limit(1);
+  if (existing) return existing;
+
+  const settings = await getCheckinSettings(booking.locationId);
+  const { end: bookedEndAt } = getBookingWindow(
+    booking.bookingDate.toISOString().split('T')[0],
+    booking.startTime,
+    booking.endTime,
+    booking.timezone || DEFAULT_TIMEZONE,
+    booking.endDate ? booking.endDate.toISOString().split('T')[0] : null,
+  );
+
+  // The rate the chef booked at; the kitchen's current rate covers bookings stored without one
+  const hourlyRateCents = [booking.bookingHourlyRate, booking.kitchenHourlyRate]
+    .map((rate) => Math.round(parseFloat(String(rate ?? '0')) || 0))
+    .find((rate) => rate > 0) ?? 0;
+  const overtime = calculateOvertimeCharge({
+    bookedEndAt,
+    checkedOutAt: booking.checkedOutAt,
+    graceMinutes: settings.overtimeGraceMinutes,
+    hourlyRateCents,
+  });
+  if (!overtime || overtime.chargeCents <= 0) return null;
+
+  const currency = await getLocationCurrency(booking.locationId);
+  const [record] = await db
+    .insert(kitchenOvertimeRecords)
+    .values({
+      kitchenBookingId: booking.id,
+      kitchenId: booking.kitchenId,
+      chefId: booking.chefId,
+      bookedEndAt,
+      checkedOutAt: booking.checkedOutAt,
+      overtimeMinutes: overtime.overtimeMinutes,
+      graceMinutes: settings.overtimeGraceMinutes,
+      billableMinutes: overtime.billableMinutes,
+      hourlyRateCents,
+      calculatedChargeCents: overtime.chargeCents,
+      currency,
+      status: 'pending_review',
+    })
+    .onConflictDoNothing({ target: kitchenOvertimeRecords.kitchenBookingId })
+    .returning();
+
+  if (!record) return null;
+
+  logger.info(`[KitchenOvertime] Booking ${bookingId} checked out ${overtime.overtimeMinutes} min late`, {
+    overtimeRecordId: record.id,
+    billableMinutes: overtime.billableMinutes,
+    chargeCents: overtime.chargeCents,
+  });
+
+  if (booking.managerId) {
+    try {
+      const { notificationService } = await import('./notification.service');
+      const [chef] = await db
+        .select({ username: users.username })
+        .from(users)
+        .where(eq(users.id, booking.chefId))
+        .limit(1);
+
+      await notificationService.notifyManagerKitchenOvertimePendingReview({
+        managerId: booking.managerId,
+        locationId: booking.locationId,
+        chefName: chef?.username || `Chef #${booking.chefId}`,
+        overtimeId: record.id,
+        bookingId: booking.id,
+        kitchenName: booking.kitchenName,
+        overtimeMinutes: overtime.overtimeMinutes,
+        chargeCents: overtime.chargeCents,
+      });
+    } catch (notifError) {
+      logger.error(`[KitchenOvertime] Error notifying manager about overtime ${record.id}:`, notifError);
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Daily sweep: check-outs from the last two days that have no overtime
+ * record yet (e.g. detection failed when the chef checked out).
+ */
+export async function detectKitchenOvertime(): Promise<OvertimeSweepResult> {
+  const result: OvertimeSweepResult = { processed: 0, detected: 0, errors: 0 };
+  const since = new Date(Date.now() - 2 * 24 * 60 * MINUTE_MS);
+
+  const candidates = await db
+    .select({ id: kitchenBookings.id })
+    .from(kitchenBookings)
+    .leftJoin(kitchenOvertimeRecords, eq(kitchenOvertimeRecords.kitchenBookingId, kitchenBookings.id))
+    .where(
+      and(
+        isNotNull(kitchenBookings.checkedOutAt),
+        gte(kitchenBookings.checkedOutAt, since),
+        isNull(kitchenOvertimeRecords.id),
+      )
+    );
+
+  result.processed = candidates.length;
+  for (const candidate of candidates) {
+    try {
+      const record = await detectOvertimeForBooking(candidate.id);
+      if (record) result.detected++;
+    } catch (error) {
+      result.errors++;
+      logger.error(`[KitchenOvertime] Error detecting overtime for booking ${candidate.id}:`, error);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// MANAGER REVIEW
+// ============================================================================
+
+/**
+ * Overtime records at the manager's locations, newest first. Only records
+ * still waiting on a decision or a charge unless includeAll is set.
+ */
+export async function getManagerOvertimeRecords(managerId: number, includeAll = false): Promise<KitchenOvertimeReview[]> {
+  const rows = await db
+    .select({
+      record: kitchenOvertimeRecords,
+      bookingReference: kitchenBookings.referenceCode,
+      stripeCustomerId: kitchenBookings.stripeCustomerId,
+      stripePaymentMethodId: kitchenBookings.stripePaymentMethodId,
+      kitchenName: kitchens.name,
+      locationId: locations.id,
+      locationName: locations.name,
+      chefEmail: users.username,
+    })
+    .from(kitchenOvertimeRecords)
+    .innerJoin(kitchenBookings, eq(kitchenBookings.id, kitchenOvertimeRecords.kitchenBookingId))
+    .innerJoin(kitchens, eq(kitchens.id, kitchenOvertimeRecords.kitchenId))
+    .innerJoin(locations, eq(locations.id, kitchens.locationId))
+    .leftJoin(users, eq(users.id, kitchenOvertimeRecords.chefId))
+    .where(
+      includeAll
+        ? eq(locations.managerId, managerId)
+        : and(eq(locations.managerId, managerId), inArray(kitchenOvertimeRecords.status, ACTIVE_STATUSES))
+    )
+    .orderBy(desc(kitchenOvertimeRecords.createdAt));
+
+  return rows.map((row) => ({
+    id: row.record.id,
+    kitchenBookingId: row.record.kitchenBookingId,
+    bookingReference: row.bookingReference,
+    status: row.record.status as KitchenOvertimeStatus,
+    bookedEndAt: row.record.bookedEndAt,
+    checkedOutAt: row.record.checkedOutAt,
+    overtimeMinutes: row.record.overtimeMinutes,
+    graceMinutes: row.record.graceMinutes,
+    billableMinutes: row.record.billableMinutes,
+    hourlyRateCents: row.record.hourlyRateCents,
+    calculatedChargeCents: row.record.calculatedChargeCents,
+    finalChargeCents: row.record.finalChargeCents,
+    currency: row.record.currency,
+    waiveReason: row.record.waiveReason,
+    managerNotes: row.record.managerNotes,
+    chargeFailureReason: row.record.chargeFailureReason,
+    chargedAt: row.record.chargedAt,
+    createdAt: row.record.createdAt,
+    kitchenId: row.record.kitchenId,
+    kitchenName: row.kitchenName,
+    locationId: row.locationId,
+    locationName: row.locationName,
+    chefId: row.record.chefId,
+    chefEmail: row.chefEmail,
+    hasPaymentMethod: !!row.stripePaymentMethodId,
+  }));
+}
+
+/** The overtime record, if it belongs to one of the manager's locations */
+async function getManagerOvertimeRecord(overtimeRecordId: number, managerId: number): Promise<KitchenOvertimeRecord | null> {
+  const [row] = await db
+    .select({ record: kitchenOvertimeRecords })
+    .from(kitchenOvertimeRecords)
+    .innerJoin(kitchens, eq(kitchens.id, kitchenOvertimeRecords.kitchenId))
+    .innerJoin(locations, eq(locations.id, kitchens.locationId))
+    .where(and(eq(kitchenOvertimeRecords.id, overtimeRecordId), eq(locations.managerId, managerId)))
+    .limit(1);
+  return row?.record ?? null;
+}
+
+/**
+ * Process the manager's decision on an overtime proposal.
+ *
+ * - Only 'pending_review' and 'charge_failed' records can be decided
+ * - The charge can be lowered but never raised above the calculated amount
+ * - Waiving requires a reason and settles the record at $0
+ */
+export async function processOvertimeDecision(
+  decision: OvertimeDecision
+): Promise<{ success: boolean; error?: string; status?: number; record?: KitchenOvertimeRecord }> {
+  const { overtimeRecordId, managerId, action, finalChargeCents, waiveReason, managerNotes } = decision;
+
+  if (!overtimeRecordId || overtimeRecordId <= 0) {
+    return { success: false, error: 'Invalid overtime record ID', status: 400 };
+  }
+
+  const record = await getManagerOvertimeRecord(overtimeRecordId, managerId);
+  if (!record) {
+    return { success: false, error: 'Overtime record not found', status: 404 };
+  }
+
+  if (record.status !== 'pending_review' && record.status !== 'charge_failed') {
+    return { success: false, error: `Cannot process decision for overtime in status: ${record.status}`, status: 400 };
+  }
+
+  const update: Partial<KitchenOvertimeRecord> = {
+    decidedBy: managerId,
+    decidedAt: new Date(),
+    managerNotes: managerNotes || record.managerNotes,
+    updatedAt: new Date(),
+  };
+
+  switch (action) {
+    case 'approve':
+    case 'adjust': {
+      const amount = finalChargeCents ?? (action === 'approve' ? record.calculatedChargeCents : undefined);
+      if (amount === undefined) {
+        return { success: false, error: 'finalChargeCents required for adjust action', status: 400 };
+      }
+      if (!Number.isInteger(amount) || amount <= 0) {
+        return { success: false, error: 'Overtime charge must be a positive amount in cents — waive it instead', status: 400 };
+      }
+      if (amount > record.calculatedChargeCents) {
+        return {
+          success: false,
+          error: `Overtime charge cannot exceed the calculated maximum of $${(record.calculatedChargeCents / 100).toFixed(2)}`,
+          status: 400,
+        };
+      }
+      update.status = 'approved';
+      update.finalChargeCents = amount;
+      update.chargeFailureReason = null;
+      break;
+    }
+
+    case 'waive':
+      if (!waiveReason || waiveReason.trim().length === 0) {
+        return { success: false, error: 'Waive reason is required', status: 400 };
+      }
+      update.status = 'waived';
+      update.finalChargeCents = 0;
+      update.waiveReason = waiveReason.trim();
+      break;
+
+    default:
+      return { success: false, error: `Invalid action: ${action}`, status: 400 };
+  }
+
+  const [updated] = await db
+    .update(kitchenOvertimeRecords)
+    .set(update)
+    .where(and(eq(kitchenOvertimeRecords.id, overtimeRecordId), eq(kitchenOvertimeRecords.status, record.status)))
+    .returning();
+
+  if (!updated) {
+    return { success: false, error: 'Overtime record was updated by someone else — refresh and try again', status: 409 };
+  }
+
+  logger.info(`[KitchenOvertime] Manager decision processed`, {
+    overtimeRecordId,
+    managerId,
+    action,
+    finalChargeCents: updated.finalChargeCents,
+  });
+
+  return { success: true, record: updated };
+}
+
+// ============================================================================
+// STRIPE CHARGING
+// ============================================================================
+
+/**
+ * Charge an approved overtime record to the card saved on the kitchen
+ * booking (off-session)
+ */
+export async function chargeApprovedOvertime(overtimeRecordId: number): Promise<OvertimeChargeResult> {
+  if (!stripe) {
+    return { success: false, error: 'Stripe not configured' };
+  }
+
+  const [record] = await db
+    .select()
+    .from(kitchenOvertimeRecords)
+    .where(eq(kitchenOvertimeRecords.id, overtimeRecordId))
+    .limit(1);
+
+  if (!record) {
+    return { success: false, error: 'Overtime record not found' };
+  }
+  if (record.status !== 'approved' && record.status !== 'charge_failed') {
+    return { success: false, error: `Cannot charge overtime in status: ${record.status}` };
+  }
+  if (!record.finalChargeCents || record.finalChargeCents <= 0) {
+    return { success: false, error: 'No overtime amount to charge' };
+  }
+
+  const [booking] = await db
+    .select({
+      stripeCustomerId: kitchenBookings.stripeCustomerId,
+      stripePaymentMethodId: kitchenBookings.stripePaymentMethodId,
+      kitchenName: kitchens.name,
+      locationId: kitchens.locationId,
+      managerId: locations.managerId,
+    })
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchens.id, kitchenBookings.kitchenId))
+    .innerJoin(locations, eq(locations.id, kitchens.locationId))
+    .where(eq(kitchenBookings.id, record.kitchenBookingId))
+    .limit(1);
+
+  if (!booking) {
+    return { success: false, error: 'Booking not found' };
+  }
+
+  let customerId = booking.stripeCustomerId;
+  const paymentMethodId = booking.stripePaymentMethodId;
+  if (!customerId && record.chefId) {
+    const [chef] = await db
+      .select({ stripeCustomerId: users.stripeCustomerId })
+      .from(users)
+      .where(eq(users.id, record.chefId))
+      .limit(1);
+    customerId = chef?.stripeCustomerId || null;
+  }
+
+  if (!customerId || !paymentMethodId) {
+    await markOvertimeChargeFailed(overtimeRecordId, 'No saved payment method available');
+    return { success: false, error: 'No saved payment method available for off-session charging' };
+  }
+
+  let managerStripeAccountId: string | null = null;
+  if (booking.managerId) {
+    const [manager] = await db
+      .select({ stripeConnectAccountId: users.stripeConnectAccountId })
+      .from(users)
+      .where(eq(users.id, booking.managerId))
+      .limit(1);
+    managerStripeAccountId = manager?.stripeConnectAccountId || null;
+  }
+
+  // Sales tax at the location's jurisdiction rate is charged on top, like the booking itself
+  const overtimeTax = await calculateLocationTax(booking.locationId, record.finalChargeCents);
+  const chargeTotalCents = record.finalChargeCents + overtimeTax.taxCents;
+
+  await db
+    .update(kitchenOvertimeRecords)
+    .set({ status: 'charge_pending', updatedAt: new Date() })
+    .where(eq(kitchenOvertimeRecords.id, overtimeRecordId));
+
+  const metadata: Record<string, string> = {
+    type: 'kitchen_overtime',
+    overtime_record_id: overtimeRecordId.toString(),
+    kitchen_booking_id: record.kitchenBookingId.toString(),
+    chef_id: record.chefId?.toString() || '',
+    manager_id: booking.managerId?.toString() || '',
+    manager_connect_account_id: managerStripeAccountId || '',
+    overtime_minutes: record.overtimeMinutes.toString(),
+    overtime_base_cents: record.finalChargeCents.toString(),
+    overtime_tax_cents: overtimeTax.taxCents.toString(),
+  };
+
+  try {
+    // ARCHITECTURE — Separate Charges and Transfers:
+    //   Charge lands on the platform balance; the manager's share is transferred
+    //   inline below when the balance transaction is ready, otherwise by the
+    //   charge.updated webhook.
+    // Each decision or failure bumps updatedAt, so a retry gets a fresh key
+    const idempotencyKey = `kitchen_overtime_${overtimeRecordId}_${record.updatedAt.getTime()}`;
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: chargeTotalCents,
+      currency: toStripeCurrency(record.currency),
+      customer: customerId,
+      payment_method: paymentMethodId,
+      off_session: true,
+      confirm: true,
+      metadata,
+      statement_descriptor_suffix: 'KITCHEN OVERTIME',
+    }, { idempotencyKey });
+
+    if (paymentIntent.status !== 'succeeded') {
+      const requires3DS = ['requires_action', 'requires_confirmation', 'requires_payment_method'].includes(paymentIntent.status);
+      const failureReason = requires3DS ? 'Payment requires authentication (3DS/SCA)' : `Payment status: ${paymentIntent.status}`;
+      await markOvertimeChargeFailed(overtimeRecordId, failureReason, paymentIntent.id);
+      return { success: false, error: failureReason, requires3DS };
+    }
+
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+
+    await db
+      .update(kitchenOvertimeRecords)
+      .set({
+        status: 'charge_succeeded',
+        stripePaymentIntentId: paymentIntent.id,
+        stripeChargeId: chargeId || null,
+        chargedAt: new Date(),
+        chargeFailureReason: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(kitchenOvertimeRecords.id, overtimeRecordId));
+
+    try {
+      const { createPaymentTransaction, updatePaymentTransaction } = await import("./payment-transactions-service");
+      const { getStripePaymentAmounts } = await import("./stripe-service");
+
+      const ptRecord = await createPaymentTransaction({
+        bookingId: record.kitchenBookingId,
+        bookingType: "kitchen",
+        chefId: record.chefId,
+        managerId: booking.managerId,
+        amount: chargeTotalCents,
+        baseAmount: record.finalChargeCents,
+        serviceFee: 0, // Webhook updates with actualStripeFee + platformCommission
+        managerRevenue: chargeTotalCents, // Webhook updates with actual transfer amount
+        taxCents: overtimeTax.taxCents,
+        currency: record.currency,
+        paymentIntentId: paymentIntent.id,
+        chargeId: chargeId || undefined,
+        status: "succeeded",
+        stripeStatus: "succeeded",
+        metadata: { ...metadata, charged_via: "off_session" },
+      }, db);
+
+      if (ptRecord) {
+        const stripeAmounts = await getStripePaymentAmounts(paymentIntent.id, managerStripeAccountId || undefined);
+        if (stripeAmounts) {
+          await updatePaymentTransaction(ptRecord.id, {
+            paidAt: new Date(),
+            lastSyncedAt: new Date(),
+            stripeAmount: stripeAmounts.stripeAmount,
+            stripeNetAmount: stripeAmounts.stripeNetAmount,
+            stripeProcessingFee: stripeAmounts.stripeProcessingFee,
+            stripePlatformFee: stripeAmounts.stripePlatformFee,
+          }, db);
+
+          if (managerStripeAccountId && stripeAmounts.stripeProcessingFee > 0) {
+            const { transferToManagerForBooking } = await import('./stripe-transfer-service');
+            try {
+              const transferResult = await transferToManagerForBooking({
+                paymentIntentId: paymentIntent.id,
+                paymentTransactionId: ptRecord.id,
+                chargeAmountCents: stripeAmounts.stripeAmount,
+                actualStripeFeeCents: stripeAmounts.stripeProcessingFee,
+                chargeId: chargeId || stripeAmounts.chargeId || undefined,
+                transferGroup: `pi_${paymentIntent.id}`,
+              });
+              if (transferResult.transferred) {
+                await updatePaymentTransaction(ptRecord.id, {
+                  serviceFee: transferResult.feeWithheldCents,
+                  managerRevenue: transferResult.transferredCents,
+                  stripePlatformFee: transferResult.feeWithheldCents,
+                  stripeNetAmount: transferResult.transferredCents,
+                }, db);
+              }
+            } catch (transferErr) {
+              logger.error(`[KitchenOvertime] Transfer error for ${paymentIntent.id} (will retry on charge.updated):`, transferErr);
+            }
+          }
+        }
+      }
+    } catch (ptError) {
+      logger.error(`[KitchenOvertime] Failed to create payment_transactions for overtime ${overtimeRecordId}:`, ptError);
+    }
+
+    logger.info(`[KitchenOvertime] Overtime ${overtimeRecordId} charged`, {
+      paymentIntentId: paymentIntent.id,
+      amount: chargeTotalCents,
+    });
+
+    try {
+      const { notificationService } = await import('./notification.service');
+      const notification = {
+        overtimeId: overtimeRecordId,
+        bookingId: record.kitchenBookingId,
+        kitchenName: booking.kitchenName,
+        overtimeMinutes: record.overtimeMinutes,
+        chargeCents: chargeTotalCents,
+      };
+      if (record.chefId) {
+        await notificationService.notifyChefKitchenOvertimeCharged({ chefId: record.chefId, ...notification });
+      }
+      if (booking.managerId) {
+        const [chef] = record.chefId
+          ? await db.select({ username: users.username }).from(users).where(eq(users.id, record.chefId)).limit(1)
+          : [];
+        await notificationService.notifyPaymentReceived({
+          managerId: booking.managerId,
+          locationId: booking.locationId,
+          bookingId: record.kitchenBookingId,
+          amount: chargeTotalCents,
+          currency: record.currency,
+          chefName: chef?.username || 'Chef',
+          kitchenName: `${booking.kitchenName} (overtime)`,
+        });
+      }
+    } catch (notifError) {
+      logger.error(`[KitchenOvertime] Error sending charge notifications for overtime ${overtimeRecordId}:`, notifError);
+    }
+
+    return { success: true, paymentIntentId: paymentIntent.id, chargeId: chargeId || undefined };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const stripeError = error as { code?: string; raw?: { code?: string } } | null;
+    const stripeErrorCode = stripeError?.code || stripeError?.raw?.code || '';
+    const requires3DS = stripeErrorCode === 'authentication_required' || errorMessage.includes('authentication_required');
+    const failureReason = requires3DS ? 'Payment requires authentication (3DS/SCA)' : errorMessage;
+
+    logger.error(`[KitchenOvertime] Charge failed for overtime ${overtimeRecordId}:`, {
+      error: errorMessage,
+      stripeErrorCode,
+    });
+
+    await markOvertimeChargeFailed(overtimeRecordId, failureReason);
+    return { success: false, error: failureReason, requires3DS };
+  }
+}
+
+async function markOvertimeChargeFailed(overtimeRecordId: number, reason: string, paymentIntentId?: string): Promise<void> {
+  await db
+    .update(kitchenOvertimeRecords)
+    .set({
+      status: 'charge_failed',
+      chargeFailureReason: reason,
+      ...(paymentIntentId ? { stripePaymentIntentId: paymentIntentId } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(kitchenOvertimeRecords.id, overtimeRecordId));
+}
+
+export const kitchenOvertimeService = {
+  calculateOvertimeCharge,
+  detectOvertimeForBooking,
+  detectKitchenOvertime,
+  getManagerOvertimeRecords,
+  processOvertimeDecision,
+  chargeApprovedOvertime,
+};
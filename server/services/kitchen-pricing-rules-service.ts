@@ -0,0 +1,259 @@
+import { logger } from "../logger";
+/**
+ * Kitchen Pricing Rules Service — Peak / Off-Peak Pricing
+ *
+ * A rule targets one or more weekdays and a time window (optionally bounded by
+ * a date range) and either multiplies the kitchen's hourly rate or replaces it
+ * with a fixed hourly rate. Pricing evaluates rules per 1-hour slot, so a
+ * booking that straddles a window is only partly adjusted.
+ *
+ * When several rules match the same slot the highest priority wins; ties go
+ * to the most recently created rule.
+ */
+
+import { db } from "../db";
+import { kitchenPricingRules, type KitchenPricingRule } from "@shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PricingRuleAdjustmentType = "multiplier" | "fixed_rate";
+
+export interface PricingRuleInput {
+  name: string;
+  daysOfWeek: number[]; // 0-6, Sunday is 0
+  startTime: string; // HH:MM, inclusive
+  endTime: string; // HH:MM, exclusive ("24:00" allowed for end of day)
+  adjustmentType: PricingRuleAdjustmentType;
+  multiplier?: number | null; // adjustmentType = 'multiplier'
+  fixedRate?: number | null; // cents per hour, adjustmentType = 'fixed_rate'
+  validFrom?: string | null; // YYYY-MM-DD, inclusive
+  validUntil?: string | null; // YYYY-MM-DD, inclusive
+  priority?: number;
+  isActive?: boolean;
+}
+
+/** Rule shape the pricing engine works with (numeric columns parsed). */
+export interface PricingRuleDefinition {
+  id: number;
+  name: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  adjustmentType: PricingRuleAdjustmentType;
+  multiplier: number | null;
+  fixedRate: number | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  priority: number;
+  isActive: boolean;
+}
+
+// Keep adjustments within sane bounds so a typo can't 100× a booking
+const MIN_MULTIPLIER = 0.1;
+const MAX_MULTIPLIER = 10;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Validate a pricing rule. Returns an error message, or null when valid.
+ */
+export function validatePricingRule(input: PricingRuleInput): string | null {
+  if (!input.name || typeof input.name !== "string" || !input.name.trim()) {
+    return "Rule name is required";
+  }
+  if (input.name.trim().length > 60) {
+    return "Rule name must be 60 characters or fewer";
+  }
+  if (!Array.isArray(input.daysOfWeek) || input.daysOfWeek.length === 0) {
+    return "Select at least one day of the week";
+  }
+  if (input.daysOfWeek.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return "Days of week must be integers between 0 (Sunday) and 6 (Saturday)";
+  }
+  if (!TIME_PATTERN.test(input.startTime || "") || !TIME_PATTERN.test(input.endTime || "")) {
+    return "Start and end times must be in HH:MM format";
+  }
+  if (toMinutes(input.endTime) <= toMinutes(input.startTime)) {
+    return "End time must be after start time";
+  }
+  if (input.adjustmentType === "multiplier") {
+    const m = input.multiplier;
+    if (typeof m !== "number" || !Number.isFinite(m) || m < MIN_MULTIPLIER || m > MAX_MULTIPLIER) {
+      return `Multiplier must be between ${MIN_MULTIPLIER} and ${MAX_MULTIPLIER}`;
+    }
+  } else if (input.adjustmentType === "fixed_rate") {
+    const r = input.fixedRate;
+    if (typeof r !== "number" || !Number.isInteger(r) || r < 0) {
+      return "Fixed rate must be a whole number of cents (0 or more)";
+    }
+  } else {
+    return "Adjustment type must be 'multiplier' or 'fixed_rate'";
+  }
+  if (input.validFrom && !DATE_PATTERN.test(input.validFrom)) {
+    return "Valid-from date must be in YYYY-MM-DD format";
+  }
+  if (input.validUntil && !DATE_PATTERN.test(input.validUntil)) {
+    return "Valid-until date must be in YYYY-MM-DD format";
+  }
+  if (input.validFrom && input.validUntil && input.validUntil < input.validFrom) {
+    return "Valid-until date must be on or after the valid-from date";
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    return "Priority must be a whole number";
+  }
+  return null;
+}
+
+export function toPricingRuleDefinition(rule: KitchenPricingRule): PricingRuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    daysOfWeek: Array.isArray(rule.daysOfWeek) ? (rule.daysOfWeek as number[]) : [],
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    adjustmentType: rule.adjustmentType as PricingRuleAdjustmentType,
+    multiplier: rule.multiplier !== null ? parseFloat(rule.multiplier) : null,
+    fixedRate: rule.fixedRate !== null ? parseFloat(rule.fixedRate) : null,
+    validFrom: rule.validFrom ?? null,
+    validUntil: rule.validUntil ?? null,
+    priority: rule.priority,
+    isActive: rule.isActive,
+  };
+}
+
+/**
+ * Find the rule that prices a slot, or null when the base hourly rate applies.
+ * @param dateStr - Booking date, YYYY-MM-DD
+ * @param slotStart - Slot start time, HH:MM
+ */
+export function findMatchingPricingRule(
+  rules: PricingRuleDefinition[],
+  dateStr: string,
+  slotStart: string
+): PricingRuleDefinition | null {
+  // Dates are calendar dates; evaluate the weekday at UTC noon so it never shifts
+  const dayOfWeek = new Date(`${dateStr}T12:00:00Z`).getUTCDay();
+  const slotMinutes = toMinutes(slotStart);
+
+  let best: PricingRuleDefinition | null = null;
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    if (!rule.daysOfWeek.includes(dayOfWeek)) continue;
+    if (rule.validFrom && dateStr < rule.validFrom) continue;
+    if (rule.validUntil && dateStr > rule.validUntil) continue;
+    if (slotMinutes < toMinutes(rule.startTime) || slotMinutes >= toMinutes(rule.endTime)) continue;
+    if (!best || rule.priority > best.priority || (rule.priority === best.priority && rule.id > best.id)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+/**
+ * Hourly rate (cents) a rule charges, given the kitchen's base hourly rate.
+ */
+export function getRuleHourlyRateCents(rule: PricingRuleDefinition, baseHourlyRateCents: number): number {
+  if (rule.adjustmentType === "fixed_rate") {
+    return Math.round(rule.fixedRate ?? baseHourlyRateCents);
+  }
+  return Math.round(baseHourlyRateCents * (rule.multiplier ?? 1));
+}
+
+// ============================================================================
+// READS / WRITES
+// ============================================================================
+
+/**
+ * Get a kitchen's pricing rules, highest priority first.
+ */
+export async function getKitchenPricingRules(
+  kitchenId: number,
+  options?: { activeOnly?: boolean }
+): Promise<KitchenPricingRule[]> {
+  const conditions = [eq(kitchenPricingRules.kitchenId, kitchenId)];
+  if (options?.activeOnly) {
+    conditions.push(eq(kitchenPricingRules.isActive, true));
+  }
+  return db
+    .select()
+    .from(kitchenPricingRules)
+    .where(and(...conditions))
+    .orderBy(desc(kitchenPricingRules.priority), asc(kitchenPricingRules.id));
+}
+
+export async function getPricingRuleById(ruleId: number): Promise<KitchenPricingRule | null> {
+  const [rule] = await db
+    .select()
+    .from(kitchenPricingRules)
+    .where(eq(kitchenPricingRules.id, ruleId))
+    .limit(1);
+  return rule || null;
+}
+
+function toRuleColumns(input: PricingRuleInput) {
+  const isMultiplier = input.adjustmentType === "multiplier";
+  return {
+    name: input.name.trim(),
+    daysOfWeek: Array.from(new Set(input.daysOfWeek)).sort((a, b) => a - b),
+    startTime: input.startTime,
+    endTime: input.endTime,
+    adjustmentType: input.adjustmentType,
+    multiplier: isMultiplier ? input.multiplier!.toString() : null,
+    fixedRate: isMultiplier ? null : input.fixedRate!.toString(),
+    validFrom: input.validFrom || null,
+    validUntil: input.validUntil || null,
+    priority: input.priority ?? 0,
+    isActive: input.isActive ?? true,
+  };
+}
+
+export async function createPricingRule(
+  kitchenId: number,
+  input: PricingRuleInput
+): Promise<KitchenPricingRule> {
+  const [rule] = await db
+    .insert(kitchenPricingRules)
+    .values({ kitchenId, ...toRuleColumns(input) })
+    .returning();
+  logger.info(`[PricingRules] Created rule ${rule.id} "${rule.name}" for kitchen ${kitchenId}`);
+  return rule;
+}
+
+export async function updatePricingRule(
+  ruleId: number,
+  input: PricingRuleInput
+): Promise<KitchenPricingRule | null> {
+  const [rule] = await db
+    .update(kitchenPricingRules)
+    .set({ ...toRuleColumns(input), updatedAt: new Date() })
+    .where(eq(kitchenPricingRules.id, ruleId))
+    .returning();
+  if (rule) {
+    logger.info(`[PricingRules] Updated rule ${ruleId} for kitchen ${rule.kitchenId}`);
+  }
+  return rule || null;
+}
+
+export async function deletePricingRule(ruleId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(kitchenPricingRules)
+    .where(eq(kitchenPricingRules.id, ruleId))
+    .returning({ id: kitchenPricingRules.id });
+  if (deleted.length > 0) {
+    logger.info(`[PricingRules] Deleted rule ${ruleId}`);
+  }
+  return deleted.length > 0;
+}
@@ -0,0 +1,268 @@
+import { logger } from "../logger";
+/**
+ * Kitchen Station Service — Concurrent Bookings per Kitchen
+ *
+ * Larger commissary kitchens host several chefs at once on separate stations.
+ * A kitchen's capacity is its number of active stations; kitchens without
+ * stations have a capacity of 1 and are booked whole, exactly as before.
+ *
+ * Each booking stores the stations it occupies in `kitchenBookings.stationIds`.
+ * An empty list means the whole kitchen — bookings made before the kitchen had
+ * stations, manager blocks and external bookings all take every station.
+ *
+ * Stations are assigned when a chef checks out: the first free stations (by
+ * sort order) across the booking's whole time range are reserved, so a chef
+ * keeps the same station for the entire booking.
+ */
+
+import { db } from "../db";
+import { kitchenBookings, kitchenStations, type KitchenStation } from "@shared/schema";
+import { and, asc, eq, gte, inArray, ne } from "drizzle-orm";
+import { timeRangesOverlap } from "./kitchen-waitlist-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KitchenStationInput {
+  name: string;
+  description?: string | null;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+/** The parts of a booking that decide how many stations it takes */
+export interface StationUsage {
+  bookingType?: string | null;
+  stationIds?: unknown;
+}
+
+export type StationAssignmentResult =
+  | { success: true; stationIds: number[] }
+  | { success: false; error: string };
+
+const MAX_STATION_NAME_LENGTH = 60;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function validateKitchenStationInput(input: Partial<KitchenStationInput>): string | null {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) return "Station name is required";
+  if (name.length > MAX_STATION_NAME_LENGTH) {
+    return `Station name must be ${MAX_STATION_NAME_LENGTH} characters or fewer`;
+  }
+  if (input.sortOrder !== undefined && !Number.isInteger(input.sortOrder)) {
+    return "Sort order must be a whole number";
+  }
+  return null;
+}
+
+/** Station ids stored on a booking (tolerates null and legacy JSON) */
+export function getBookingStationIds(booking: StationUsage): number[] {
+  return Array.isArray(booking.stationIds)
+    ? booking.stationIds.map(Number).filter((id) => Number.isInteger(id) && id > 0)
+    : [];
+}
+
+/**
+ * Capacity units a booking takes. Manager blocks and bookings without
+ * stations take the whole kitchen.
+ */
+export function getBookingStationUnits(booking: StationUsage, capacity: number): number {
+  if (booking.bookingType === "manager_blocked") return capacity;
+  const stationIds = getBookingStationIds(booking);
+  return stationIds.length > 0 ? Math.min(stationIds.length, capacity) : capacity;
+}
+
+/**
+ * First `count` stations not used by any overlapping booking, or null when
+ * there are not enough. `stations` should already be in booking order.
+ */
+export function pickFreeStations(
+  stations: Array<Pick<KitchenStation, "id">>,
+  overlapping: StationUsage[],
+  count: number
+): number[] | null {
+  const taken = new Set<number>();
+  for (const booking of overlapping) {
+    const stationIds = getBookingStationIds(booking);
+    if (booking.bookingType === "manager_blocked" || stationIds.length === 0) return null;
+    stationIds.forEach((id) => taken.add(id));
+  }
+  const free = stations.filter((station) => !taken.has(station.id)).map((station) => station.id);
+  return free.length >= count ? free.slice(0, count) : null;
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+export async function getKitchenStations(
+  kitchenId: number,
+  options: { activeOnly?: boolean } = {}
+): Promise<KitchenStation[]> {
+  const conditions = [eq(kitchenStations.kitchenId, kitchenId)];
+  if (options.activeOnly) conditions.push(eq(kitchenStations.isActive, true));
+  return db
+    .select()
+    .from(kitchenStations)
+    .where(and(...conditions))
+    .orderBy(asc(kitchenStations.sortOrder), asc(kitchenStations.id));
+}
+
+export async function getKitchenStationById(stationId: number): Promise<KitchenStation | null> {
+  const [station] = await db.select().from(kitchenStations).where(eq(kitchenStations.id, stationId)).limit(1);
+  return station ?? null;
+}
+
+/** Chefs the kitchen can host at once: active stations, or 1 without stations */
+export async function getKitchenCapacity(kitchenId: number): Promise<number> {
+  const stations = await getKitchenStations(kitchenId, { activeOnly: true });
+  return Math.max(1, stations.length);
+}
+
+/**
+ * Add the names of each booking's assigned stations (`stationNames`, empty
+ * for whole-kitchen bookings) for manager booking views.
+ */
+export async function withStationNames<T extends { kitchenId: number; stationIds?: unknown }>(
+  bookings: T[]
+): Promise<Array<T & { stationNames: string[] }>> {
+  const kitchenIds = Array.from(new Set(
+    bookings.filter((booking) => getBookingStationIds(booking).length > 0).map((booking) => booking.kitchenId)
+  ));
+  const names = new Map<number, string>();
+  if (kitchenIds.length > 0) {
+    const stations = await db.select().from(kitchenStations).where(inArray(kitchenStations.kitchenId, kitchenIds));
+    stations.forEach((station) => names.set(station.id, station.name));
+  }
+  return bookings.map((booking) => ({
+    ...booking,
+    stationNames: getBookingStationIds(booking).map((id) => names.get(id) ?? `Station #${id}`),
+  }));
+}
+
+/**
+ * Reserve `count` free stations for a booking. Kitchens without stations can
+ * only be booked whole: the result is an empty list when nothing overlaps.
+ * Staggered bookings pass `selectedSlots` so the gaps between slots stay free.
+ */
+export async function assignKitchenStations(params: {
+  kitchenId: number;
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+  count: number;
+  endDate?: Date | null;
+  selectedSlots?: Array<{ startTime: string; endTime: string }>;
+  excludeBookingId?: number;
+}): Promise<StationAssignmentResult> {
+  const { bookingService } = await import("../domains/bookings/booking.service");
+  const stations = await getKitchenStations(params.kitchenId, { activeOnly: true });
+  const count = Math.max(1, Math.floor(params.count || 1));
+
+  if (count > Math.max(1, stations.length)) {
+    return {
+      success: false,
+      error: stations.length > 0
+        ? `This kitchen has ${stations.length} station${stations.length !== 1 ? "s" : ""}`
+        : "This kitchen can only be booked whole",
+    };
+  }
+
+  const selectedSlots = params.selectedSlots ?? [];
+  const overlapping = (await bookingService.findConflictingBookings(
+    params.kitchenId,
+    params.bookingDate,
+    params.startTime,
+    params.endTime,
+    params.excludeBookingId,
+    params.endDate
+  )).filter((booking) => selectedSlots.length === 0 || selectedSlots.some((slot) =>
+    timeRangesOverlap(slot.startTime, slot.endTime, booking.startTime, booking.endTime)
+  ));
+
+  if (stations.length === 0) {
+    return overlapping.length > 0
+      ? { success: false, error: "This time is already booked" }
+      : { success: true, stationIds: [] };
+  }
+
+  const stationIds = pickFreeStations(stations, overlapping, count);
+  if (!stationIds) {
+    return {
+      success: false,
+      error: count > 1
+        ? `Fewer than ${count} stations are free during this time`
+        : "Every station is booked during this time",
+    };
+  }
+  return { success: true, stationIds };
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+export async function createKitchenStation(kitchenId: number, input: KitchenStationInput): Promise<KitchenStation> {
+  const existing = await getKitchenStations(kitchenId);
+  const [station] = await db
+    .insert(kitchenStations)
+    .values({
+      kitchenId,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      isActive: input.isActive ?? true,
+      sortOrder: input.sortOrder ?? existing.length,
+    })
+    .returning();
+  logger.info(`[KitchenStations] Created station ${station.id} for kitchen ${kitchenId}`);
+  return station;
+}
+
+export async function updateKitchenStation(
+  stationId: number,
+  input: Partial<KitchenStationInput>
+): Promise<KitchenStation> {
+  const [station] = await db
+    .update(kitchenStations)
+    .set({
+      ...(input.name !== undefined && { name: input.name.trim() }),
+      ...(input.description !== undefined && { description: input.description?.trim() || null }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+      ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+      updatedAt: new Date(),
+    })
+    .where(eq(kitchenStations.id, stationId))
+    .returning();
+  return station;
+}
+
+/**
+ * Delete a station. Refused while upcoming bookings are assigned to it —
+ * deactivate it instead so it stops being offered.
+ */
+export async function deleteKitchenStation(stationId: number): Promise<{ success: boolean; error?: string }> {
+  const station = await getKitchenStationById(stationId);
+  if (!station) return { success: false, error: "Station not found" };
+
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const upcoming = await db
+    .select({ id: kitchenBookings.id, stationIds: kitchenBookings.stationIds })
+    .from(kitchenBookings)
+    .where(and(
+      eq(kitchenBookings.kitchenId, station.kitchenId),
+      ne(kitchenBookings.status, "cancelled"),
+      gte(kitchenBookings.bookingDate, today)
+    ));
+  if (upcoming.some((booking) => getBookingStationIds(booking).includes(stationId))) {
+    return { success: false, error: "This station has upcoming bookings. Deactivate it instead." };
+  }
+
+  await db.delete(kitchenStations).where(eq(kitchenStations.id, stationId));
+  logger.info(`[KitchenStations] Deleted station ${stationId} from kitchen ${station.kitchenId}`);
+  return { success: true };
+}
@@ -0,0 +1,461 @@
+import { logger } from "../logger";
+/**
+ * Kitchen Waitlist Service — Queue for Fully Booked Kitchen Time
+ *
+ * When every slot in a time range is taken, a chef can join the waitlist for
+ * that kitchen/date/time range. Entries move through:
+ *
+ *   waiting → offered → claimed
+ *                     ↘ expired (hold ran out — next chef in line is offered)
+ *   waiting/offered → cancelled (chef left the waitlist)
+ *
+ * A booking that frees capacity (chef cancellation, manager rejection, expired
+ * payment authorization) triggers `offerFreedSlotToWaitlist`: waiting entries
+ * on that kitchen/date are walked oldest-first and every one whose whole range
+ * is now open is offered a hold of WAITLIST_HOLD_HOURS. While the hold is
+ * active the slot counts as taken for every other chef.
+ *
+ * Hold expiry uses the same dual enforcement as payment authorizations:
+ * lazily when a chef reads a kitchen's slots, and in the daily cron sweep.
+ */
+
+import { db } from "../db";
+import { kitchenBookings, kitchenWaitlistEntries, kitchens, locations, users, type KitchenWaitlistEntry } from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray, lt, lte } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WaitlistStatus = "waiting" | "offered" | "claimed" | "expired" | "cancelled";
+
+export interface WaitlistRequest {
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+/** Per-slot availability as returned by bookingService.getAllTimeSlotsWithBookingInfo */
+export interface WaitlistSlotInfo {
+  time: string;
+  available: number;
+  isHeld?: boolean;
+}
+
+export type JoinWaitlistResult =
+  | { success: true; entry: KitchenWaitlistEntry }
+  | { success: false; error: string };
+
+export const WAITLIST_HOLD_HOURS = 2;
+
+const ACTIVE_STATUSES: WaitlistStatus[] = ["waiting", "offered"];
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + (mins || 0);
+}
+
+export function timeRangesOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string): boolean {
+  return toMinutes(aStart) < toMinutes(bEnd) && toMinutes(bStart) < toMinutes(aEnd);
+}
+
+/** Hourly slots that fall inside [startTime, endTime) */
+function slotsInRange<T extends WaitlistSlotInfo>(slots: T[], startTime: string, endTime: string): T[] {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return slots.filter(slot => {
+    const mins = toMinutes(slot.time);
+    return mins >= start && mins < end;
+  });
+}
+
+/** True when the kitchen is open for the whole range and every slot in it has room */
+export function isRangeOpen(slots: WaitlistSlotInfo[], startTime: string, endTime: string): boolean {
+  const inRange = slotsInRange(slots, startTime, endTime);
+  const expectedSlots = Math.ceil((toMinutes(endTime) - toMinutes(startTime)) / 60);
+  return inRange.length === expectedSlots && inRange.every(slot => slot.available > 0);
+}
+
+/** True when any slot in the range is only unavailable because it is held for a waitlisted chef */
+export function isRangeHeldForOthers(slots: WaitlistSlotInfo[], startTime: string, endTime: string): boolean {
+  return slotsInRange(slots, startTime, endTime).some(slot => slot.isHeld);
+}
+
+export function isHoldActive(entry: Pick<KitchenWaitlistEntry, "status" | "holdExpiresAt">, now: Date = new Date()): boolean {
+  return entry.status === "offered" && !!entry.holdExpiresAt && new Date(entry.holdExpiresAt) > now;
+}
+
+export function getHoldExpiresAt(offeredAt: Date): Date {
+  return new Date(offeredAt.getTime() + WAITLIST_HOLD_HOURS * 60 * 60 * 1000);
+}
+
+export function validateWaitlistRequest(request: WaitlistRequest, now: Date = new Date()): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(request.bookingDate || "")) {
+    return "Date must be in YYYY-MM-DD format";
+  }
+  const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (!timePattern.test(request.startTime || "") || !timePattern.test(request.endTime || "")) {
+    return "Start and end times must be in HH:MM format";
+  }
+  if (toMinutes(request.startTime) >= toMinutes(request.endTime)) {
+    return "End time must be after start time";
+  }
+  if (request.bookingDate < now.toISOString().split("T")[0]) {
+    return "Cannot join the waitlist for a past date";
+  }
+  return null;
+}
+
+/** Noon UTC on the given day — the same convention the slots endpoint uses to avoid date shifts */
+export function parseWaitlistDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+}
+
+function getDayBounds(date: Date): { dayStart: Date; dayEnd: Date } {
+  const dayStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  return { dayStart, dayEnd };
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/** Unexpired holds on a kitchen/date — counted as taken capacity for every other chef */
+export async function getActiveWaitlistHolds(kitchenId: number, date: Date): Promise<KitchenWaitlistEntry[]> {
+  const { dayStart, dayEnd } = getDayBounds(date);
+  const offered = await db
+    .select()
+    .from(kitchenWaitlistEntries)
+    .where(
+      and(
+        eq(kitchenWaitlistEntries.kitchenId, kitchenId),
+        eq(kitchenWaitlistEntries.status, "offered"),
+        gte(kitchenWaitlistEntries.bookingDate, dayStart),
+        lt(kitchenWaitlistEntries.bookingDate, dayEnd),
+      ),
+    );
+  const now = new Date();
+  return offered.filter(entry => isHoldActive(entry, now));
+}
+
+export async function getWaitlistEntriesForChef(chefId: number) {
+  return db
+    .select({
+      id: kitchenWaitlistEntries.id,
+      kitchenId: kitchenWaitlistEntries.kitchenId,
+      kitchenName: kitchens.name,
+      locationId: kitchens.locationId,
+      bookingDate: kitchenWaitlistEntries.bookingDate,
+      startTime: kitchenWaitlistEntries.startTime,
+      endTime: kitchenWaitlistEntries.endTime,
+      status: kitchenWaitlistEntries.status,
+      offeredAt: kitchenWaitlistEntries.offeredAt,
+      holdExpiresAt: kitchenWaitlistEntries.holdExpiresAt,
+      createdAt: kitchenWaitlistEntries.createdAt,
+    })
+    .from(kitchenWaitlistEntries)
+    .innerJoin(kitchens, eq(kitchenWaitlistEntries.kitchenId, kitchens.id))
+    .where(eq(kitchenWaitlistEntries.chefId, chefId))
+    .orderBy(desc(kitchenWaitlistEntries.createdAt));
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+export async function joinWaitlist(params: WaitlistRequest & { kitchenId: number; chefId: number }): Promise<JoinWaitlistResult> {
+  const validationError = validateWaitlistRequest(params);
+  if (validationError) return { success: false, error: validationError };
+
+  const bookingDate = parseWaitlistDate(params.bookingDate);
+  const { dayStart, dayEnd } = getDayBounds(bookingDate);
+
+  const existing = await db
+    .select()
+    .from(kitchenWaitlistEntries)
+    .where(
+      and(
+        eq(kitchenWaitlistEntries.kitchenId, params.kitchenId),
+        eq(kitchenWaitlistEntries.chefId, params.chefId),
+        inArray(kitchenWaitlistEntries.status, ACTIVE_STATUSES),
+        gte(kitchenWaitlistEntries.bookingDate, dayStart),
+        lt(kitchenWaitlistEntries.bookingDate, dayEnd),
+      ),
+    );
+  if (existing.some(entry => timeRangesOverlap(entry.startTime, entry.endTime, params.startTime, params.endTime))) {
+    return { success: false, error: "You are already on the waitlist for these times" };
+  }
+
+  const { bookingService } = await import("../domains/bookings/booking.service");
+  const slots = await bookingService.getAllTimeSlotsWithBookingInfo(params.kitchenId, bookingDate, params.chefId);
+  if (slotsInRange(slots, params.startTime, params.endTime).length === 0) {
+    return { success: false, error: "The kitchen is not open during these times" };
+  }
+  if (isRangeOpen(slots, params.startTime, params.endTime)) {
+    return { success: false, error: "These times are available — book them directly" };
+  }
+
+  const [entry] = await db
+    .insert(kitchenWaitlistEntries)
+    .values({
+      kitchenId: params.kitchenId,
+      chefId: params.chefId,
+      bookingDate,
+      startTime: params.startTime,
+      endTime: params.endTime,
+      status: "waiting",
+    })
+    .returning();
+
+  logger.info(`[Waitlist] Chef ${params.chefId} joined waitlist for kitchen ${params.kitchenId} on ${params.bookingDate} ${params.startTime}-${params.endTime}`);
+  return { success: true, entry };
+}
+
+/** Chef leaves the waitlist. Releasing an active hold offers the slot to the next chef. */
+export async function leaveWaitlist(entryId: number, chefId: number): Promise<boolean> {
+  const [entry] = await db
+    .update(kitchenWaitlistEntries)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(
+      and(
+        eq(kitchenWaitlistEntries.id, entryId),
+        eq(kitchenWaitlistEntries.chefId, chefId),
+        inArray(kitchenWaitlistEntries.status, ACTIVE_STATUSES),
+      ),
+    )
+    .returning();
+
+  if (!entry) return false;
+
+  if (entry.holdExpiresAt) {
+    await offerNextInLine(entry.kitchenId, entry.bookingDate);
+  }
+  return true;
+}
+
+/**
+ * Offer holds to waiting chefs on a kitchen/date, oldest first. Each offer
+ * takes capacity, so later entries only get a hold if room is still left.
+ * Returns the number of holds offered.
+ */
+export async function offerNextInLine(kitchenId: number, bookingDate: Date): Promise<number> {
+  const { dayStart, dayEnd } = getDayBounds(bookingDate);
+  if (dayEnd <= getDayBounds(new Date()).dayStart) return 0;
+
+  const waiting = await db
+    .select()
+    .from(kitchenWaitlistEntries)
+    .where(
+      and(
+        eq(kitchenWaitlistEntries.kitchenId, kitchenId),
+        eq(kitchenWaitlistEntries.status, "waiting"),
+        gte(kitchenWaitlistEntries.bookingDate, dayStart),
+        lt(kitchenWaitlistEntries.bookingDate, dayEnd),
+      ),
+    )
+    .orderBy(asc(kitchenWaitlistEntries.createdAt), asc(kitchenWaitlistEntries.id));
+
+  if (waiting.length === 0) return 0;
+
+  const { bookingService } = await import("../domains/bookings/booking.service");
+  let offered = 0;
+
+  for (const entry of waiting) {
+    const slots = await bookingService.getAllTimeSlotsWithBookingInfo(kitchenId, entry.bookingDate, entry.chefId);
+    if (!isRangeOpen(slots, entry.startTime, entry.endTime)) continue;
+
+    const offeredAt = new Date();
+    const holdExpiresAt = getHoldExpiresAt(offeredAt);
+    const [updated] = await db
+      .update(kitchenWaitlistEntries)
+      .set({ status: "offered", offeredAt, holdExpiresAt, updatedAt: offeredAt })
+      .where(and(eq(kitchenWaitlistEntries.id, entry.id), eq(kitchenWaitlistEntries.status, "waiting")))
+      .returning();
+    if (!updated) continue;
+
+    offered++;
+    logger.info(`[Waitlist] Offered hold on kitchen ${kitchenId} ${entry.startTime}-${entry.endTime} to chef ${entry.chefId} (entry ${entry.id}) until ${holdExpiresAt.toISOString()}`);
+    await sendWaitlistOfferNotifications(updated);
+  }
+
+  return offered;
+}
+
+/**
+ * Called wherever a kitchen booking stops holding capacity (cancelled,
+ * rejected, authorization expired). Never throws — a waitlist failure must
+ * not break the cancellation that triggered it.
+ */
+export async function offerFreedSlotToWaitlist(bookingId: number): Promise<void> {
+  try {
+    const [booking] = await db
+      .select({ kitchenId: kitchenBookings.kitchenId, bookingDate: kitchenBookings.bookingDate })
+      .from(kitchenBookings)
+      .where(eq(kitchenBookings.id, bookingId))
+      .limit(1);
+    if (!booking) return;
+
+    await offerNextInLine(booking.kitchenId, booking.bookingDate);
+  } catch (error) {
+    logger.error(`[Waitlist] Error offering freed slot from booking ${bookingId}:`, error);
+  }
+}
+
+/**
+ * Expire holds past their deadline and fall through to the next chef in line.
+ * Waiting entries for past dates are expired too. Pass a kitchenId to limit
+ * the sweep to one kitchen (lazy evaluation on slot reads).
+ */
+export async function processExpiredWaitlistHolds(options: { kitchenId?: number } = {}): Promise<{ expired: number; offered: number }> {
+  const now = new Date();
+  const kitchenFilter = options.kitchenId ? eq(kitchenWaitlistEntries.kitchenId, options.kitchenId) : undefined;
+
+  const expiredHolds = await db
+    .update(kitchenWaitlistEntries)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      and(
+        eq(kitchenWaitlistEntries.status, "offered"),
+        lte(kitchenWaitlistEntries.holdExpiresAt, now),
+        kitchenFilter,
+      ),
+    )
+    .returning();
+
+  const stale = await db
+    .update(kitchenWaitlistEntries)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      and(
+        eq(kitchenWaitlistEntries.status, "waiting"),
+        lt(kitchenWaitlistEntries.bookingDate, getDayBounds(now).dayStart),
+        kitchenFilter,
+      ),
+    )
+    .returning({ id: kitchenWaitlistEntries.id });
+
+  const kitchenDates = new Map<string, { kitchenId: number; bookingDate: Date }>();
+  for (const entry of expiredHolds) {
+    const key = `${entry.kitchenId}:${entry.bookingDate.toISOString().split("T")[0]}`;
+    kitchenDates.set(key, { kitchenId: entry.kitchenId, bookingDate: entry.bookingDate });
+  }
+
+  let offered = 0;
+  for (const { kitchenId, bookingDate } of Array.from(kitchenDates.values())) {
+    try {
+      offered += await offerNextInLine(kitchenId, bookingDate);
+    } catch (error) {
+      logger.error(`[Waitlist] Error falling through to next chef for kitchen ${kitchenId}:`, error);
+    }
+  }
+
+  if (expiredHolds.length > 0 || stale.length > 0) {
+    logger.info(`[Waitlist] Expired ${expiredHolds.length} holds and ${stale.length} past-date entries; offered ${offered} new holds`);
+  }
+  return { expired: expiredHolds.length + stale.length, offered };
+}
+
+/** Mark the chef's waitlist entries covered by a new booking as claimed */
+export async function claimWaitlistEntries(booking: {
+  id: number;
+  chefId: number | null;
+  kitchenId: number;
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+}): Promise<void> {
+  if (!booking.chefId) return;
+  try {
+    const { dayStart, dayEnd } = getDayBounds(booking.bookingDate);
+    const entries = await db
+      .select()
+      .from(kitchenWaitlistEntries)
+      .where(
+        and(
+          eq(kitchenWaitlistEntries.kitchenId, booking.kitchenId),
+          eq(kitchenWaitlistEntries.chefId, booking.chefId),
+          inArray(kitchenWaitlistEntries.status, ACTIVE_STATUSES),
+          gte(kitchenWaitlistEntries.bookingDate, dayStart),
+          lt(kitchenWaitlistEntries.bookingDate, dayEnd),
+        ),
+      );
+
+    const claimedIds = entries
+      .filter(entry => timeRangesOverlap(entry.startTime, entry.endTime, booking.startTime, booking.endTime))
+      .map(entry => entry.id);
+    if (claimedIds.length === 0) return;
+
+    await db
+      .update(kitchenWaitlistEntries)
+      .set({ status: "claimed", claimedBookingId: booking.id, updatedAt: new Date() })
+      .where(inArray(kitchenWaitlistEntries.id, claimedIds));
+    logger.info(`[Waitlist] Booking ${booking.id} claimed waitlist entries ${claimedIds.join(", ")}`);
+  } catch (error) {
+    logger.error(`[Waitlist] Error claiming waitlist entries for booking ${booking.id}:`, error);
+  }
+}
+
+/** In-app notification + email to the chef who was just offered a hold */
+async function sendWaitlistOfferNotifications(entry: KitchenWaitlistEntry): Promise<void> {
+  if (!entry.holdExpiresAt) return;
+
+  const [details] = await db
+    .select({
+      kitchenName: kitchens.name,
+      locationId: locations.id,
+      locationName: locations.name,
+      timezone: locations.timezone,
+      chefEmail: users.username,
+    })
+    .from(kitchens)
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .innerJoin(users, eq(users.id, entry.chefId))
+    .where(eq(kitchens.id, entry.kitchenId))
+    .limit(1);
+  if (!details) return;
+
+  const bookingDate = entry.bookingDate.toISOString().split("T")[0];
+
+  try {
+    const { notificationService } = await import("./notification.service");
+    await notificationService.notifyChefWaitlistSlotOffered({
+      chefId: entry.chefId,
+      waitlistEntryId: entry.id,
+      kitchenId: entry.kitchenId,
+      locationId: details.locationId,
+      kitchenName: details.kitchenName,
+      bookingDate,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      holdExpiresAt: entry.holdExpiresAt,
+    });
+  } catch (notifError) {
+    logger.error(`[Waitlist] Notification error for entry ${entry.id}:`, notifError);
+  }
+
+  if (details.chefEmail) {
+    try {
+      const { sendEmail, generateWaitlistSlotOfferedEmail } = await import("../email");
+      await sendEmail(generateWaitlistSlotOfferedEmail({
+        chefEmail: details.chefEmail,
+        chefName: details.chefEmail.split("@")[0],
+        kitchenName: details.kitchenName,
+        locationName: details.locationName,
+        locationId: details.locationId,
+        bookingDate: entry.bookingDate,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        holdExpiresAt: entry.holdExpiresAt,
+        timezone: details.timezone || undefined,
+      }));
+    } catch (emailError) {
+      logger.error(`[Waitlist] Email error for entry ${entry.id}:`, emailError);
+    }
+  }
+}
@@ -0,0 +1,476 @@
+import { logger } from "../logger";
+/**
+ * Line-Item Refund Service
+ *
+ * A bundle booking (kitchen + storage + equipment) is paid with one
+ * PaymentIntent, so the revenue dashboard could only refund an amount off the
+ * whole transaction. This service refunds individual lines instead — an
+ * equipment rental, or some days of a storage booking:
+ *
+ * - Each line is priced from its booking row plus its share of the tax
+ *   collected, and capped with calculateRefundBreakdown using its share of
+ *   the manager's revenue (customer refund = manager deduction).
+ * - The refund reverses the same amount of the manager transfer, or returns
+ *   it as chef wallet credit, like the transaction-level refund.
+ * - The storage/equipment rows record what was refunded, and a credit note
+ *   is issued for the refund.
+ */
+
+import { db } from "../db";
+import {
+  creditNotes,
+  equipmentBookings,
+  equipmentListings,
+  kitchenBookings,
+  kitchens,
+  storageBookings,
+  storageListings,
+  type CreditNote,
+  type CreditNoteLine,
+} from "@shared/schema";
+import { and, desc, eq, ne } from "drizzle-orm";
+import { calculateRefundBreakdown } from "./stripe-service";
+import type { PaymentTransactionRecord } from "./payment-transactions-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RefundLineItemType = CreditNoteLine["itemType"];
+
+export interface RefundableLineItem {
+  itemType: RefundLineItemType;
+  itemId: number;
+  description: string;
+  unitLabel: CreditNoteLine["unitLabel"];
+  quantity: number; // Days booked, or 1 rental
+  refundedQuantity: number;
+  subtotalCents: number; // Pre-tax price charged for the line
+  taxCents: number;
+  totalCents: number;
+  refundedCents: number;
+  maxRefundableCents: number;
+}
+
+export interface LineItemRefundRequest {
+  itemType: RefundLineItemType;
+  itemId: number;
+  quantity: number; // Days for storage; 1 for an equipment rental
+}
+
+export interface LineItemRefundPlan {
+  lines: CreditNoteLine[];
+  subtotalCents: number;
+  taxCents: number;
+  totalCents: number;
+}
+
+/** Totals of the payment the lines were charged in */
+export interface TransactionRefundContext {
+  amountCents: number;
+  taxCents: number;
+  managerRevenueCents: number;
+  stripeFeeCents: number;
+  refundedCents: number;
+}
+
+/** A storage or equipment booking paid in the transaction */
+export interface LineItemSource {
+  itemType: RefundLineItemType;
+  itemId: number;
+  description: string;
+  days: number; // 1 for equipment
+  subtotalCents: number;
+  refundedCents: number;
+  refundedDays: number;
+}
+
+export type LineItemRefundResult =
+  | {
+      success: true;
+      creditNote: CreditNote;
+      refundId: string | null;
+      status: "refunded" | "partially_refunded";
+      totalRefunded: number;
+    }
+  | { success: false; error: string; status: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+const cents = (value: unknown) => parseInt(String(value ?? "0")) || 0;
+
+/** Price a line with its share of the tax collected and cap it at its share of the manager's balance */
+export function toRefundableLineItem(source: LineItemSource, ctx: TransactionRefundContext): RefundableLineItem {
+  const pretaxCents = ctx.amountCents - ctx.taxCents;
+  const taxCents = pretaxCents > 0 ? Math.round((source.subtotalCents * ctx.taxCents) / pretaxCents) : 0;
+  const totalCents = source.subtotalCents + taxCents;
+  const share = ctx.amountCents > 0 ? totalCents / ctx.amountCents : 0;
+
+  const breakdown = calculateRefundBreakdown(
+    totalCents,
+    Math.round(ctx.managerRevenueCents * share),
+    source.refundedCents,
+    Math.round(ctx.stripeFeeCents * share),
+  );
+
+  return {
+    itemType: source.itemType,
+    itemId: source.itemId,
+    description: source.description,
+    unitLabel: source.itemType === "storage" ? "day" : "rental",
+    quantity: source.days,
+    refundedQuantity: source.refundedDays,
+    subtotalCents: source.subtotalCents,
+    taxCents,
+    totalCents,
+    refundedCents: source.refundedCents,
+    maxRefundableCents: Math.min(breakdown.maxRefundableToCustomer, totalCents - source.refundedCents),
+  };
+}
+
+/**
+ * Work out what each requested line refunds. A storage line refunds its
+ * per-day share; the last days (and an equipment rental) refund whatever is
+ * left on the line. Returns an error message when a request can't be met.
+ */
+export function planLineItemRefund(
+  items: RefundableLineItem[],
+  requests: LineItemRefundRequest[],
+  transactionMaxRefundableCents: number,
+): LineItemRefundPlan | { error: string } {
+  if (requests.length === 0) return { error: "Select at least one line item to refund" };
+
+  const plan: LineItemRefundPlan = { lines: [], subtotalCents: 0, taxCents: 0, totalCents: 0 };
+  const seen = new Set<string>();
+
+  for (const request of requests) {
+    const key = `${request.itemType}:${request.itemId}`;
+    if (seen.has(key)) return { error: `Line item ${key} is listed more than once` };
+    seen.add(key);
+
+    const item = items.find((i) => i.itemType === request.itemType && i.itemId === request.itemId);
+    if (!item) return { error: `Line item ${key} is not part of this transaction` };
+
+    const remainingQuantity = item.itemType === "storage" ? item.quantity - item.refundedQuantity : 1;
+    if (!Number.isInteger(request.quantity) || request.quantity < 1 || request.quantity > remainingQuantity) {
+      return { error: `${item.description}: quantity must be between 1 and ${remainingQuantity}` };
+    }
+    if (item.maxRefundableCents <= 0) return { error: `${item.description} has nothing left to refund` };
+
+    const lineCents = request.quantity === remainingQuantity
+      ? item.totalCents - item.refundedCents
+      : Math.round((item.totalCents * request.quantity) / item.quantity);
+    const totalCents = Math.min(lineCents, item.maxRefundableCents);
+    const taxCents = item.totalCents > 0 ? Math.round((item.taxCents * totalCents) / item.totalCents) : 0;
+
+    plan.lines.push({
+      itemType: item.itemType,
+      itemId: item.itemId,
+      description: item.description,
+      quantity: request.quantity,
+      unitLabel: item.unitLabel,
+      subtotalCents: totalCents - taxCents,
+      taxCents,
+      totalCents,
+    });
+    plan.subtotalCents += totalCents - taxCents;
+    plan.taxCents += taxCents;
+    plan.totalCents += totalCents;
+  }
+
+  if (plan.totalCents > transactionMaxRefundableCents) {
+    return {
+      error: `Refund exceeds the remaining balance of this transaction. Max refundable: $${(transactionMaxRefundableCents / 100).toFixed(2)}`,
+    };
+  }
+  return plan;
+}
+
+/** Reference printed on the credit note */
+export function formatCreditNoteNumber(creditNoteId: number): string {
+  return `LC-CN-${creditNoteId.toString().padStart(6, "0")}`;
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+function getTransactionContext(transaction: PaymentTransactionRecord): TransactionRefundContext {
+  return {
+    amountCents: cents(transaction.amount),
+    taxCents: transaction.tax_cents ?? 0,
+    managerRevenueCents: cents(transaction.manager_revenue),
+    stripeFeeCents: cents(transaction.stripe_processing_fee),
+    refundedCents: cents(transaction.refund_amount),
+  };
+}
+
+/** Storage and equipment bookings paid with the transaction's PaymentIntent (rejected items excluded) */
+async function getLineItemSources(paymentIntentId: string): Promise<LineItemSource[]> {
+  const storage = await db
+    .select({
+      id: storageBookings.id,
+      name: storageListings.name,
+      startDate: storageBookings.startDate,
+      endDate: storageBookings.endDate,
+      totalPrice: storageBookings.totalPrice,
+      refundedAmount: storageBookings.refundedAmount,
+      refundedDays: storageBookings.refundedDays,
+    })
+    .from(storageBookings)
+    .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+    .where(and(eq(storageBookings.paymentIntentId, paymentIntentId), ne(storageBookings.paymentStatus, "failed")));
+
+  const equipment = await db
+    .select({
+      id: equipmentBookings.id,
+      equipmentType: equipmentListings.equipmentType,
+      brand: equipmentListings.brand,
+      totalPrice: equipmentBookings.totalPrice,
+      refundedAmount: equipmentBookings.refundedAmount,
+    })
+    .from(equipmentBookings)
+    .innerJoin(equipmentListings, eq(equipmentBookings.equipmentListingId, equipmentListings.id))
+    .where(and(eq(equipmentBookings.paymentIntentId, paymentIntentId), ne(equipmentBookings.paymentStatus, "failed")));
+
+  return [
+    ...storage.map((sb) => ({
+      itemType: "storage" as const,
+      itemId: sb.id,
+      description: `Storage — ${sb.name || "Storage"}`,
+      days: Math.max(1, Math.ceil((sb.endDate.getTime() - sb.startDate.getTime()) / DAY_MS)),
+      subtotalCents: cents(sb.totalPrice),
+      refundedCents: cents(sb.refundedAmount),
+      refundedDays: sb.refundedDays,
+    })),
+    ...equipment.map((eb) => ({
+      itemType: "equipment" as const,
+      itemId: eb.id,
+      description: `Equipment — ${eb.brand ? `${eb.brand} ` : ""}${eb.equipmentType}`,
+      days: 1,
+      subtotalCents: cents(eb.totalPrice),
+      refundedCents: cents(eb.refundedAmount),
+      refundedDays: cents(eb.refundedAmount) > 0 ? 1 : 0,
+    })),
+  ];
+}
+
+/** Location the transaction's booking belongs to, for the credit note */
+async function getTransactionLocationId(transaction: PaymentTransactionRecord): Promise<number | null> {
+  if (transaction.booking_type === "kitchen" || transaction.booking_type === "bundle") {
+    const [row] = await db
+      .select({ locationId: kitchens.locationId })
+      .from(kitchenBookings)
+      .innerJoin(kitchens, eq(kitchenBookings.kitchenId, kitchens.id))
+      .where(eq(kitchenBookings.id, transaction.booking_id))
+      .limit(1);
+    return row?.locationId ?? null;
+  }
+  if (transaction.booking_type === "storage") {
+    const [row] = await db
+      .select({ locationId: kitchens.locationId })
+      .from(storageBookings)
+      .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+      .innerJoin(kitchens, eq(storageListings.kitchenId, kitchens.id))
+      .where(eq(storageBookings.id, transaction.booking_id))
+      .limit(1);
+    return row?.locationId ?? null;
+  }
+  return null;
+}
+
+/** Lines of a transaction that can be refunded individually */
+export async function getRefundableLineItems(transaction: PaymentTransactionRecord): Promise<RefundableLineItem[]> {
+  if (!transaction.payment_intent_id) return [];
+  const ctx = getTransactionContext(transaction);
+  const sources = await getLineItemSources(transaction.payment_intent_id);
+  return sources.map((source) => toRefundableLineItem(source, ctx));
+}
+
+export async function getCreditNotesForTransaction(paymentTransactionId: number): Promise<CreditNote[]> {
+  return db
+    .select()
+    .from(creditNotes)
+    .where(eq(creditNotes.paymentTransactionId, paymentTransactionId))
+    .orderBy(desc(creditNotes.createdAt));
+}
+
+export async function getCreditNoteById(creditNoteId: number): Promise<CreditNote | null> {
+  const [creditNote] = await db.select().from(creditNotes).where(eq(creditNotes.id, creditNoteId)).limit(1);
+  return creditNote ?? null;
+}
+
+// ============================================================================
+// REFUNDING
+// ============================================================================
+
+/**
+ * Refund line items of a paid transaction and issue a credit note. The caller
+ * has already checked the manager owns the transaction.
+ */
+export async function refundTransactionLineItems(params: {
+  transaction: PaymentTransactionRecord;
+  managerId: number;
+  items: LineItemRefundRequest[];
+  reason?: string;
+  refundTo: "card" | "wallet";
+}): Promise<LineItemRefundResult> {
+  const { transaction, managerId, reason, refundTo } = params;
+
+  if (!transaction.payment_intent_id) {
+    return { success: false, error: "No payment intent linked to this transaction", status: 400 };
+  }
+  if (!["succeeded", "partially_refunded"].includes(transaction.status)) {
+    return { success: false, error: `Refunds are only allowed for paid transactions. Current status: ${transaction.status}`, status: 400 };
+  }
+  if (refundTo === "wallet" && !transaction.chef_id) {
+    return { success: false, error: "This transaction has no chef to credit", status: 400 };
+  }
+
+  const ctx = getTransactionContext(transaction);
+  const transactionBreakdown = calculateRefundBreakdown(ctx.amountCents, ctx.managerRevenueCents, ctx.refundedCents, ctx.stripeFeeCents);
+  const items = await getRefundableLineItems(transaction);
+  const plan = planLineItemRefund(items, params.items, transactionBreakdown.maxRefundableToCustomer);
+  if ("error" in plan) return { success: false, error: plan.error, status: 400 };
+
+  const lineSummary = plan.lines.map((line) => `${line.itemType}:${line.itemId}x${line.quantity}`).join(",");
+  let refund: { refundId: string | null; transferReversalId: string | null };
+  if (refundTo === "wallet") {
+    const { refundTransactionToWallet } = await import("./chef-wallet-service");
+    refund = await refundTransactionToWallet({
+      chefId: transaction.chef_id!,
+      amountCents: plan.totalCents,
+      transferId: transaction.transfer_id,
+      paymentIntentId: transaction.payment_intent_id,
+      bookingId: transaction.booking_id,
+      currency: transaction.currency,
+      createdBy: managerId,
+      reason,
+    });
+  } else {
+    const { reverseTransferAndRefund } = await import("./stripe-service");
+    const metadata = {
+      transaction_id: String(transaction.id),
+      booking_id: String(transaction.booking_id),
+      booking_type: String(transaction.booking_type),
+      manager_id: String(managerId),
+      refund_reason: reason || "",
+    };
+    refund = await reverseTransferAndRefund(transaction.payment_intent_id, plan.totalCents, "requested_by_customer", {
+      reverseTransferAmount: plan.totalCents,
+      refundApplicationFee: false,
+      metadata: {
+        ...metadata,
+        refund_model: "line_item",
+        line_items: lineSummary.slice(0, 500),
+        customer_receives: String(plan.totalCents),
+        manager_debited: String(plan.totalCents),
+      },
+      transferMetadata: metadata,
+    });
+  }
+
+  // Payment transaction totals, in the same shape as transaction-level refunds
+  const newRefundTotal = ctx.refundedCents + plan.totalCents;
+  const newStatus = newRefundTotal >= ctx.managerRevenueCents ? "refunded" : "partially_refunded";
+  const currentMetadata = (typeof transaction.metadata === "string" ? JSON.parse(transaction.metadata) : transaction.metadata) || {};
+  const refundEntry = {
+    id: refund.refundId,
+    customerReceived: plan.totalCents,
+    managerDebited: plan.totalCents,
+    reason: reason || null,
+    createdAt: new Date().toISOString(),
+    createdBy: managerId,
+    transferReversalId: refund.transferReversalId,
+    model: refundTo === "wallet" ? "wallet_credit" : "line_item",
+    lineItems: plan.lines,
+  };
+  const { updatePaymentTransaction } = await import("./payment-transactions-service");
+  await updatePaymentTransaction(transaction.id, {
+    status: newStatus,
+    stripeStatus: newStatus,
+    refundAmount: newRefundTotal,
+    refundId: refund.refundId ?? undefined,
+    refundReason: reason,
+    refundedAt: new Date(),
+    lastSyncedAt: new Date(),
+    metadata: {
+      ...currentMetadata,
+      refunds: [...(Array.isArray(currentMetadata.refunds) ? currentMetadata.refunds : []), refundEntry],
+      lastRefund: refundEntry,
+    },
+  }, db);
+
+  // Record the refund on each storage/equipment row
+  for (const line of plan.lines) {
+    const item = items.find((i) => i.itemType === line.itemType && i.itemId === line.itemId)!;
+    const refundedCents = item.refundedCents + line.totalCents;
+    const paymentStatus = line.totalCents >= item.maxRefundableCents ? "refunded" : "partially_refunded";
+    if (line.itemType === "storage") {
+      await db
+        .update(storageBookings)
+        .set({
+          refundedAmount: refundedCents.toString(),
+          refundedDays: item.refundedQuantity + line.quantity,
+          paymentStatus,
+          updatedAt: new Date(),
+        })
+        .where(eq(storageBookings.id, line.itemId));
+    } else {
+      await db
+        .update(equipmentBookings)
+        .set({ refundedAmount: refundedCents.toString(), paymentStatus, updatedAt: new Date() })
+        .where(eq(equipmentBookings.id, line.itemId));
+    }
+  }
+
+  // The parent booking shows the transaction's refund status
+  const bookingPaymentStatus = newStatus === "refunded" ? "refunded" : "partially_refunded";
+  if (transaction.booking_type === "kitchen" || transaction.booking_type === "bundle") {
+    await db
+      .update(kitchenBookings)
+      .set({ paymentStatus: bookingPaymentStatus, updatedAt: new Date() })
+      .where(eq(kitchenBookings.id, transaction.booking_id));
+  }
+
+  const [creditNote] = await db
+    .insert(creditNotes)
+    .values({
+      paymentTransactionId: transaction.id,
+      managerId,
+      chefId: transaction.chef_id,
+      locationId: await getTransactionLocationId(transaction),
+      refundedTo: refundTo,
+      stripeRefundId: refund.refundId,
+      transferReversalId: refund.transferReversalId,
+      currency: transaction.currency || "CAD",
+      subtotalCents: plan.subtotalCents,
+      taxCents: plan.taxCents,
+      totalCents: plan.totalCents,
+      lineItems: plan.lines,
+      reason: reason || null,
+    })
+    .returning();
+
+  logger.info(`[LineItemRefund] Manager ${managerId} refunded ${plan.totalCents}¢ (${lineSummary}) from transaction ${transaction.id} — credit note ${formatCreditNoteNumber(creditNote.id)}`);
+
+  if (transaction.chef_id) {
+    const chefId = transaction.chef_id;
+    import("./notification.service")
+      .then(({ notificationService }) => notificationService.notifyChefPaymentRefunded({
+        chefId,
+        refundAmountCents: plan.totalCents,
+        currency: creditNote.currency,
+        bookingType: String(transaction.booking_type),
+        bookingName: plan.lines.map((line) => line.description).join(", "),
+        reason,
+      }))
+      .catch((err) => logger.error("[LineItemRefund] Error notifying chef of refund:", err));
+  }
+
+  return { success: true, creditNote, refundId: refund.refundId, status: newStatus, totalRefunded: newRefundTotal };
+}
@@ -0,0 +1,72 @@
+import { logger } from "../logger";
+/**
+ * Location Currency Service
+ *
+ * A location charges in one currency (CAD or USD). Its kitchens and storage
+ * and equipment listings carry a copy of it so pricing, checkout and booking
+ * code can read the currency from the row it already has. Bookings and
+ * payment transactions keep the currency they were charged in, so changing a
+ * location's currency only affects new bookings.
+ */
+
+import { db } from "../db";
+import { eq, inArray } from "drizzle-orm";
+import { equipmentListings, kitchens, locations, storageListings } from "@shared/schema";
+import { normalizeCurrency, type SupportedCurrency } from "@shared/currency-utils";
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+export async function getLocationCurrency(locationId: number): Promise<SupportedCurrency> {
+  const [location] = await db
+    .select({ currency: locations.currency })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  return normalizeCurrency(location?.currency);
+}
+
+export async function getKitchenCurrency(kitchenId: number): Promise<SupportedCurrency> {
+  const [kitchen] = await db
+    .select({ currency: kitchens.currency })
+    .from(kitchens)
+    .where(eq(kitchens.id, kitchenId))
+    .limit(1);
+  return normalizeCurrency(kitchen?.currency);
+}
+
+// ============================================================================
+// PROPAGATION
+// ============================================================================
+
+/**
+ * Copy the location's currency to all its kitchens and their storage and
+ * equipment listings. Call after creating a location's kitchen or changing
+ * the location's currency.
+ */
+export async function syncLocationCurrency(locationId: number): Promise<void> {
+  const currency = await getLocationCurrency(locationId);
+
+  await db.transaction(async (tx) => {
+    const locationKitchens = await tx
+      .update(kitchens)
+      .set({ currency, updatedAt: new Date() })
+      .where(eq(kitchens.locationId, locationId))
+      .returning({ id: kitchens.id });
+
+    const kitchenIds = locationKitchens.map((kitchen) => kitchen.id);
+    if (kitchenIds.length === 0) return;
+
+    await tx
+      .update(storageListings)
+      .set({ currency, updatedAt: new Date() })
+      .where(inArray(storageListings.kitchenId, kitchenIds));
+    await tx
+      .update(equipmentListings)
+      .set({ currency, updatedAt: new Date() })
+      .where(inArray(equipmentListings.kitchenId, kitchenIds));
+  });
+
+  logger.info(`[LocationCurrencyService] Location ${locationId} kitchens and listings now charge in ${currency}`);
+}
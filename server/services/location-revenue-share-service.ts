@@ -0,0 +1,493 @@
+import { logger } from "../logger";
+/**
+ * Location Revenue Share Service — Split Payouts for Co-Managed Locations
+ *
+ * A location is owned by one manager (`locations.manager_id`), who receives
+ * every booking payout by default. A co-managed location can instead split its
+ * payouts between several managers, each with their own Stripe Connect
+ * account and a percentage share (summing to 100).
+ *
+ * stripe-transfer-service.ts reads the split when a payment is transferred:
+ * one Transfer per recipient, each recorded in payment_transfer_splits. Refund
+ * reversals look the group up from any of its transfer IDs and reverse each
+ * recipient pro rata, so partners always keep their agreed share.
+ *
+ * Only the location's manager can change the split; partners see their own
+ * share in the revenue overview and payout statements.
+ */
+
+import { db } from "../db";
+import {
+  chefWalletEntries,
+  equipmentBookings,
+  equipmentListings,
+  kitchenBookings,
+  kitchens,
+  locationRevenueShares,
+  locations,
+  paymentTransactions,
+  paymentTransferSplits,
+  storageBookings,
+  storageListings,
+  users,
+  type PaymentTransferSplit,
+  type TransferSplitKind,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RevenueShareInput {
+  /** Email of the recipient manager */
+  email: string;
+  sharePercent: number;
+}
+
+export interface LocationRevenueShareRow {
+  recipientUserId: number;
+  email: string;
+  sharePercent: number;
+  hasConnectAccount: boolean;
+  isLocationManager: boolean;
+}
+
+/** Who gets paid, and how much, for one payment */
+export interface PayoutRecipient {
+  userId: number;
+  connectAccountId: string;
+  sharePercent: number;
+}
+
+export interface PaymentRevenueSplit {
+  locationId: number;
+  recipients: PayoutRecipient[];
+}
+
+export interface NewTransferSplit {
+  paymentTransactionId: number;
+  locationId: number;
+  recipientUserId: number;
+  connectAccountId: string;
+  sharePercent: number;
+  transferKind: TransferSplitKind;
+  amountCents: number;
+  transferId: string;
+}
+
+export interface RevenueShareLocationSummary {
+  locationId: number;
+  locationName: string;
+  /** This user's current share of the location (0 if no longer a partner) */
+  sharePercent: number;
+  transferredCents: number;
+  reversedCents: number;
+  netCents: number;
+  transferCount: number;
+}
+
+export interface RevenueShareSummary {
+  transferredCents: number;
+  reversedCents: number;
+  netCents: number;
+  locations: RevenueShareLocationSummary[];
+}
+
+export const MAX_REVENUE_SHARE_RECIPIENTS = 10;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** Round a percentage to the 2 decimals stored in share_percent */
+function roundPercent(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Validate a location's split. An empty list clears it (100% to the location's
+ * manager). Returns an error message, or null when valid.
+ */
+export function validateRevenueShares(shares: unknown): string | null {
+  if (!Array.isArray(shares)) {
+    return "Revenue shares must be a list";
+  }
+  if (shares.length === 0) {
+    return null;
+  }
+  if (shares.length > MAX_REVENUE_SHARE_RECIPIENTS) {
+    return `At most ${MAX_REVENUE_SHARE_RECIPIENTS} recipients can share a location's payouts`;
+  }
+
+  const emails = new Set<string>();
+  let total = 0;
+  for (const share of shares as Partial<RevenueShareInput>[]) {
+    const email = typeof share?.email === "string" ? share.email.trim().toLowerCase() : "";
+    if (!email) {
+      return "Each recipient needs an email";
+    }
+    if (emails.has(email)) {
+      return `${email} is listed more than once`;
+    }
+    emails.add(email);
+
+    const percent = share.sharePercent;
+    if (typeof percent !== "number" || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      return "Each share must be more than 0% and at most 100%";
+    }
+    if (roundPercent(percent) !== percent) {
+      return "Shares can have at most 2 decimal places";
+    }
+    total += percent;
+  }
+
+  if (roundPercent(total) !== 100) {
+    return `Shares must add up to 100% (currently ${roundPercent(total)}%)`;
+  }
+  return null;
+}
+
+/**
+ * Split an amount in proportion to the given weights (share percentages, or
+ * remaining transfer amounts). Uses largest-remainder rounding so the parts
+ * always add up to the amount exactly.
+ */
+export function splitAmountByShares(amountCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (amountCents <= 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (amountCents * Math.max(0, weight)) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let remainder = amountCents - parts.reduce((sum, part) => sum + part, 0);
+
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    parts[index]++;
+    remainder--;
+  }
+  return parts;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** The location's configured split; empty when the manager receives 100% */
+export async function getRevenueSharesForLocation(locationId: number): Promise<LocationRevenueShareRow[]> {
+  const rows = await db
+    .select({
+      recipientUserId: locationRevenueShares.recipientUserId,
+      email: users.username,
+      sharePercent: locationRevenueShares.sharePercent,
+      stripeConnectAccountId: users.stripeConnectAccountId,
+      locationManagerId: locations.managerId,
+    })
+    .from(locationRevenueShares)
+    .innerJoin(users, eq(locationRevenueShares.recipientUserId, users.id))
+    .innerJoin(locations, eq(locationRevenueShares.locationId, locations.id))
+    .where(eq(locationRevenueShares.locationId, locationId))
+    .orderBy(desc(locationRevenueShares.sharePercent), asc(locationRevenueShares.id));
+
+  return rows.map((row) => ({
+    recipientUserId: row.recipientUserId,
+    email: row.email,
+    sharePercent: parseFloat(String(row.sharePercent)),
+    hasConnectAccount: !!row.stripeConnectAccountId,
+    isLocationManager: row.recipientUserId === row.locationManagerId,
+  }));
+}
+
+/**
+ * Replace a location's split. Recipients are looked up by email and must be
+ * managers with a Stripe Connect account, so every future transfer can be paid.
+ * Callers validate the input with validateRevenueShares first.
+ */
+export async function setRevenueSharesForLocation(
+  locationId: number,
+  shares: RevenueShareInput[],
+  updatedBy: number,
+): Promise<
+  | { success: true; shares: LocationRevenueShareRow[] }
+  | { success: false; error: string; status: number }
+> {
+  const emails = shares.map((share) => share.email.trim().toLowerCase());
+  const recipients = emails.length === 0 ? [] : await db
+    .select({
+      id: users.id,
+      email: users.username,
+      role: users.role,
+      isManager: users.isManager,
+      stripeConnectAccountId: users.stripeConnectAccountId,
+    })
+    .from(users)
+    .where(inArray(sql`lower(${users.username})`, emails));
+
+  const values: (typeof locationRevenueShares.$inferInsert)[] = [];
+  for (const share of shares) {
+    const email = share.email.trim().toLowerCase();
+    const recipient = recipients.find((user) => user.email.toLowerCase() === email);
+    if (!recipient) {
+      return { success: false, error: `No account found for ${email}`, status: 404 };
+    }
+    if (recipient.role !== "manager" && !recipient.isManager) {
+      return { success: false, error: `${email} is not a manager account`, status: 400 };
+    }
+    if (!recipient.stripeConnectAccountId) {
+      return {
+        success: false,
+        error: `${email} has not connected a Stripe account yet, so they cannot receive payouts`,
+        status: 400,
+      };
+    }
+    values.push({
+      locationId,
+      recipientUserId: recipient.id,
+      sharePercent: share.sharePercent.toFixed(2),
+      createdBy: updatedBy,
+    });
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(locationRevenueShares).where(eq(locationRevenueShares.locationId, locationId));
+    if (values.length > 0) {
+      await tx.insert(locationRevenueShares).values(values);
+    }
+  });
+
+  logger.info(
+    `[RevenueShare] Location ${locationId} split ${values.length > 0 ? `set to ${values.length} recipient(s)` : "cleared"} by user ${updatedBy}`,
+  );
+  return { success: true, shares: await getRevenueSharesForLocation(locationId) };
+}
+
+// ============================================================================
+// TRANSFERS
+// ============================================================================
+
+/** The location a payment was made at, via its booking (or wallet package) */
+export async function getPaymentLocationId(paymentTransactionId: number): Promise<number | null> {
+  const [pt] = await db
+    .select({ bookingId: paymentTransactions.bookingId, bookingType: paymentTransactions.bookingType })
+    .from(paymentTransactions)
+    .where(eq(paymentTransactions.id, paymentTransactionId))
+    .limit(1);
+  if (!pt) return null;
+
+  switch (pt.bookingType) {
+    case "kitchen":
+    case "bundle": {
+      const [row] = await db
+        .select({ locationId: kitchens.locationId })
+        .from(kitchenBookings)
+        .innerJoin(kitchens, eq(kitchenBookings.kitchenId, kitchens.id))
+        .where(eq(kitchenBookings.id, pt.bookingId))
+        .limit(1);
+      return row?.locationId ?? null;
+    }
+    case "storage": {
+      const [row] = await db
+        .select({ locationId: kitchens.locationId })
+        .from(storageBookings)
+        .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+        .innerJoin(kitchens, eq(storageListings.kitchenId, kitchens.id))
+        .where(eq(storageBookings.id, pt.bookingId))
+        .limit(1);
+      return row?.locationId ?? null;
+    }
+    case "equipment": {
+      const [row] = await db
+        .select({ locationId: kitchens.locationId })
+        .from(equipmentBookings)
+        .innerJoin(equipmentListings, eq(equipmentBookings.equipmentListingId, equipmentListings.id))
+        .innerJoin(kitchens, eq(equipmentListings.kitchenId, kitchens.id))
+        .where(eq(equipmentBookings.id, pt.bookingId))
+        .limit(1);
+      return row?.locationId ?? null;
+    }
+    case "wallet": {
+      const [row] = await db
+        .select({ locationId: chefWalletEntries.locationId })
+        .from(chefWalletEntries)
+        .where(eq(chefWalletEntries.id, pt.bookingId))
+        .limit(1);
+      return row?.locationId ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Recipients for a payment's payout, or null when its location has no split
+ * (the transfer then goes to the payment's manager as before). A recipient
+ * without a Connect account is returned with an empty connectAccountId.
+ */
+export async function getPaymentRevenueSplit(paymentTransactionId: number): Promise<PaymentRevenueSplit | null> {
+  const locationId = await getPaymentLocationId(paymentTransactionId);
+  if (!locationId) return null;
+
+  const rows = await db
+    .select({
+      userId: locationRevenueShares.recipientUserId,
+      sharePercent: locationRevenueShares.sharePercent,
+      stripeConnectAccountId: users.stripeConnectAccountId,
+    })
+    .from(locationRevenueShares)
+    .innerJoin(users, eq(locationRevenueShares.recipientUserId, users.id))
+    .where(eq(locationRevenueShares.locationId, locationId))
+    .orderBy(asc(locationRevenueShares.id));
+  if (rows.length === 0) return null;
+
+  return {
+    locationId,
+    recipients: rows.map((row) => ({
+      userId: row.userId,
+      connectAccountId: row.stripeConnectAccountId ?? "",
+      sharePercent: parseFloat(String(row.sharePercent)),
+    })),
+  };
+}
+
+/** Record split transfers. Replays of the same transfer are ignored. */
+export async function recordTransferSplits(splits: NewTransferSplit[]): Promise<void> {
+  if (splits.length === 0) return;
+  await db
+    .insert(paymentTransferSplits)
+    .values(splits.map((split) => ({ ...split, sharePercent: split.sharePercent.toFixed(2) })))
+    .onConflictDoNothing({ target: paymentTransferSplits.transferId });
+}
+
+/**
+ * All transfers paid with the given one: the same payment and transfer kind.
+ * Empty when the transfer was not split.
+ */
+export async function getTransferSplitGroup(transferId: string): Promise<PaymentTransferSplit[]> {
+  const [split] = await db
+    .select({
+      paymentTransactionId: paymentTransferSplits.paymentTransactionId,
+      transferKind: paymentTransferSplits.transferKind,
+    })
+    .from(paymentTransferSplits)
+    .where(eq(paymentTransferSplits.transferId, transferId))
+    .limit(1);
+  if (!split) return [];
+
+  return db
+    .select()
+    .from(paymentTransferSplits)
+    .where(and(
+      eq(paymentTransferSplits.paymentTransactionId, split.paymentTransactionId),
+      eq(paymentTransferSplits.transferKind, split.transferKind),
+    ))
+    .orderBy(asc(paymentTransferSplits.id));
+}
+
+export async function recordSplitReversal(splitId: number, reversedCents: number): Promise<void> {
+  await db
+    .update(paymentTransferSplits)
+    .set({ reversedCents: sql`${paymentTransferSplits.reversedCents} + ${reversedCents}` })
+    .where(eq(paymentTransferSplits.id, splitId));
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+export interface RevenueShareFilters {
+  startDate?: string | Date;
+  endDate?: string | Date;
+  locationId?: number;
+}
+
+function toDateString(date: string | Date): string {
+  return typeof date === "string" ? date.split("T")[0] : date.toISOString().split("T")[0];
+}
+
+/** Same whole-day date range semantics as the revenue service */
+function getSplitFilters(userId: number, filters: RevenueShareFilters) {
+  return and(
+    eq(paymentTransferSplits.recipientUserId, userId),
+    filters.startDate
+      ? sql`DATE(${paymentTransferSplits.createdAt}) >= ${toDateString(filters.startDate)}::date`
+      : undefined,
+    filters.endDate
+      ? sql`DATE(${paymentTransferSplits.createdAt}) <= ${toDateString(filters.endDate)}::date`
+      : undefined,
+    filters.locationId ? eq(paymentTransferSplits.locationId, filters.locationId) : undefined,
+  );
+}
+
+/** What this user was paid from split locations, per location */
+export async function getRevenueShareSummary(
+  userId: number,
+  filters: RevenueShareFilters = {},
+): Promise<RevenueShareSummary> {
+  const rows = await db
+    .select({
+      locationId: paymentTransferSplits.locationId,
+      locationName: locations.name,
+      transferredCents: sql<number>`COALESCE(SUM(${paymentTransferSplits.amountCents}), 0)::int`,
+      reversedCents: sql<number>`COALESCE(SUM(${paymentTransferSplits.reversedCents}), 0)::int`,
+      transferCount: sql<number>`COUNT(*)::int`,
+    })
+    .from(paymentTransferSplits)
+    .leftJoin(locations, eq(paymentTransferSplits.locationId, locations.id))
+    .where(getSplitFilters(userId, filters))
+    .groupBy(paymentTransferSplits.locationId, locations.name);
+
+  const currentShares = await db
+    .select({ locationId: locationRevenueShares.locationId, sharePercent: locationRevenueShares.sharePercent })
+    .from(locationRevenueShares)
+    .where(eq(locationRevenueShares.recipientUserId, userId));
+
+  const summaries: RevenueShareLocationSummary[] = rows
+    .filter((row) => row.locationId !== null)
+    .map((row) => {
+      const share = currentShares.find((s) => s.locationId === row.locationId);
+      return {
+        locationId: row.locationId!,
+        locationName: row.locationName ?? `Location ${row.locationId}`,
+        sharePercent: share ? parseFloat(String(share.sharePercent)) : 0,
+        transferredCents: Number(row.transferredCents),
+        reversedCents: Number(row.reversedCents),
+        netCents: Number(row.transferredCents) - Number(row.reversedCents),
+        transferCount: Number(row.transferCount),
+      };
+    });
+
+  const transferredCents = summaries.reduce((sum, s) => sum + s.transferredCents, 0);
+  const reversedCents = summaries.reduce((sum, s) => sum + s.reversedCents, 0);
+  return { transferredCents, reversedCents, netCents: transferredCents - reversedCents, locations: summaries };
+}
+
+/** This user's split transfers in a period, for payout statements */
+export async function getRevenueShareTransfers(
+  userId: number,
+  startDate: Date,
+  endDate: Date,
+) {
+  return db
+    .select({
+      createdAt: paymentTransferSplits.createdAt,
+      locationName: locations.name,
+      transferKind: paymentTransferSplits.transferKind,
+      sharePercent: paymentTransferSplits.sharePercent,
+      amountCents: paymentTransferSplits.amountCents,
+      reversedCents: paymentTransferSplits.reversedCents,
+      bookingType: paymentTransactions.bookingType,
+      bookingId: paymentTransactions.bookingId,
+    })
+    .from(paymentTransferSplits)
+    .innerJoin(paymentTransactions, eq(paymentTransferSplits.paymentTransactionId, paymentTransactions.id))
+    .leftJoin(locations, eq(paymentTransferSplits.locationId, locations.id))
+    .where(getSplitFilters(userId, { startDate, endDate }))
+    .orderBy(desc(paymentTransferSplits.createdAt));
+}
+
+export type RevenueShareTransfer = Awaited<ReturnType<typeof getRevenueShareTransfers>>[number];
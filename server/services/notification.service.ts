@@ -25,6 +25,7 @@ type NotificationType =
   | 'booking_cancelled' 
   | 'booking_confirmed'
   | 'booking_reminder'
+  | 'booking_rescheduled'
   // Application notifications
   | 'application_new' 
   | 'application_approved' 
@@ -77,11 +78,20 @@ type NotificationType =
   | 'kitchen_checkout_cleared'
   | 'kitchen_no_show'
   | 'kitchen_checkin_reminder'
+  // Kitchen overtime notifications
+  | 'kitchen_overtime_pending_review'
+  | 'kitchen_overtime_charged'
   // Storage checkout notifications
   | 'storage_checkout_requested'
   | 'storage_checkout_cleared'
   | 'storage_checkout_claim_filed'
-  | 'storage_checkin_reminder';
+  | 'storage_checkin_reminder'
+  // Waitlist notifications
+  | 'waitlist_slot_offered'
+  // External calendar import notifications
+  | 'calendar_import_conflict'
+  // Storage subscription notifications
+  | 'storage_subscription_payment_failed';
 
 type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
 
@@ -277,6 +287,30 @@ async function notifyNewBooking(data: BookingNotificationData) {
   });
 }
 
+async function notifyNewBookingSeries(data: BookingNotificationData & { seriesId: number; occurrenceCount: number; frequency: string }) {
+  const frequencyLabel = data.frequency === 'biweekly' ? 'every two weeks' : 'weekly';
+  return createManagerNotification({
+    managerId: data.managerId,
+    locationId: data.locationId,
+    type: 'booking_new',
+    priority: 'high',
+    title: 'New Recurring Booking Request',
+    message: `${data.chefName} requested ${data.occurrenceCount} ${frequencyLabel} sessions at ${data.kitchenName} starting ${data.bookingDate} (${data.startTime} to ${data.endTime}). Awaiting your approval.`,
+    metadata: {
+      bookingId: data.bookingId,
+      seriesId: data.seriesId,
+      occurrenceCount: data.occurrenceCount,
+      chefName: data.chefName,
+      kitchenName: data.kitchenName,
+      bookingDate: data.bookingDate,
+      startTime: data.startTime,
+      endTime: data.endTime
+    },
+    actionUrl: `/manager/booking/${data.bookingId}`,
+    actionLabel: 'Review Series'
+  });
+}
+
 async function notifyBookingConfirmed(data: BookingNotificationData) {
   return createManagerNotification({
     managerId: data.managerId,
@@ -317,6 +351,30 @@ async function notifyBookingCancelled(data: BookingNotificationData & { cancelle
   });
 }
 
+async function notifyBookingRescheduled(data: BookingNotificationData & { previousBookingDate: string; previousStartTime: string; previousEndTime: string }) {
+  return createManagerNotification({
+    managerId: data.managerId,
+    locationId: data.locationId,
+    type: 'booking_rescheduled',
+    priority: 'high',
+    title: 'Booking Rescheduled',
+    message: `${data.chefName} moved their booking at ${data.kitchenName} from ${data.previousBookingDate} (${data.previousStartTime} to ${data.previousEndTime}) to ${data.bookingDate} (${data.startTime} to ${data.endTime}).`,
+    metadata: {
+      bookingId: data.bookingId,
+      chefName: data.chefName,
+      kitchenName: data.kitchenName,
+      bookingDate: data.bookingDate,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      previousBookingDate: data.previousBookingDate,
+      previousStartTime: data.previousStartTime,
+      previousEndTime: data.previousEndTime
+    },
+    actionUrl: `/manager/booking/${data.bookingId}`,
+    actionLabel: 'View Booking'
+  });
+}
+
 // ===================================
 // PAYMENT NOTIFICATIONS
 // ===================================
@@ -602,13 +660,15 @@ interface ChefBookingNotificationData {
   endTime: string;
 }
 
-async function notifyChefBookingConfirmed(data: ChefBookingNotificationData) {
+async function notifyChefBookingConfirmed(data: ChefBookingNotificationData & { accessCode?: string }) {
+  // Codes pushed to a connected smart lock are only known at this point
+  const accessCodeNote = data.accessCode ? ` Your door access code is ${data.accessCode}; it works only during your booking.` : '';
   return createChefNotification({
     chefId: data.chefId,
     type: 'booking_confirmed',
     priority: 'high',
     title: 'Booking Confirmed!',
-    message: `Your booking at ${data.kitchenName} on ${data.bookingDate} from ${data.startTime} to ${data.endTime} has been confirmed. Remember to check in when you arrive and check out when you're done — both are required for every session.`,
+    message: `Your booking at ${data.kitchenName} on ${data.bookingDate} from ${data.startTime} to ${data.endTime} has been confirmed.${accessCodeNote} Remember to check in when you arrive and check out when you're done — both are required for every session.`,
     metadata: {
       bookingId: data.bookingId,
       kitchenName: data.kitchenName,
@@ -620,6 +680,30 @@ async function notifyChefBookingConfirmed(data: ChefBookingNotificationData) {
   });
 }
 
+async function notifyChefBookingSeriesDecision(data: { chefId: number; seriesId: number; kitchenName: string; approvedCount: number; rejectedCount: number; accessCodes?: Array<{ bookingDate: string; accessCode: string }> }) {
+  const approved = data.approvedCount > 0;
+  const accessCodeNote = data.accessCodes && data.accessCodes.length > 0
+    ? ` Door access codes: ${data.accessCodes.map((c) => `${c.bookingDate} ${c.accessCode}`).join(', ')}.`
+    : '';
+  return createChefNotification({
+    chefId: data.chefId,
+    type: approved ? 'booking_confirmed' : 'booking_cancelled',
+    priority: 'high',
+    title: approved ? 'Recurring Booking Confirmed!' : 'Recurring Booking Declined',
+    message: approved
+      ? `${data.approvedCount} session${data.approvedCount !== 1 ? 's' : ''} at ${data.kitchenName} ${data.approvedCount !== 1 ? 'have' : 'has'} been confirmed.${data.rejectedCount > 0 ? ` ${data.rejectedCount} date${data.rejectedCount !== 1 ? 's were' : ' was'} declined and not charged.` : ''}${accessCodeNote}`
+      : `Your recurring booking at ${data.kitchenName} was declined. The payment hold has been released.`,
+    metadata: {
+      seriesId: data.seriesId,
+      kitchenName: data.kitchenName,
+      approvedCount: data.approvedCount,
+      rejectedCount: data.rejectedCount
+    },
+    actionUrl: `/dashboard?view=bookings`,
+    actionLabel: 'View Bookings'
+  });
+}
+
 async function notifyChefBookingCancelled(data: ChefBookingNotificationData & { cancelledBy: 'chef' | 'manager'; reason?: string }) {
   const isByManager = data.cancelledBy === 'manager';
   return createChefNotification({
@@ -641,6 +725,24 @@ async function notifyChefBookingCancelled(data: ChefBookingNotificationData & {
   });
 }
 
+async function notifyChefAccessCodeReady(data: { chefId: number; bookingId: number; kitchenName: string; bookingDate: string; startTime: string; endTime: string; accessCode: string }) {
+  // Sent when the lock accepts a code on a retry, after the confirmation went out without one
+  return createChefNotification({
+    chefId: data.chefId,
+    type: 'booking_confirmed',
+    priority: 'high',
+    title: 'Your Door Access Code',
+    message: `Your door access code for ${data.kitchenName} on ${data.bookingDate} (${data.startTime}–${data.endTime}) is ${data.accessCode}; it works only during your booking.`,
+    metadata: {
+      bookingId: data.bookingId,
+      kitchenName: data.kitchenName,
+      bookingDate: data.bookingDate
+    },
+    actionUrl: `/booking/${data.bookingId}`,
+    actionLabel: 'View Booking'
+  });
+}
+
 async function notifyChefKitchenCheckinReminder(data: { chefId: number; bookingId: number; kitchenName: string; bookingDate: string; startTime: string; endTime: string }) {
   return createChefNotification({
     chefId: data.chefId,
@@ -661,6 +763,48 @@ async function notifyChefKitchenCheckinReminder(data: { chefId: number; bookingI
   });
 }
 
+async function notifyChefWaitlistSlotOffered(data: { chefId: number; waitlistEntryId: number; kitchenId: number; locationId: number; kitchenName: string; bookingDate: string; startTime: string; endTime: string; holdExpiresAt: Date }) {
+  return createChefNotification({
+    chefId: data.chefId,
+    type: 'waitlist_slot_offered',
+    priority: 'high',
+    title: 'A Kitchen Slot Opened Up!',
+    message: `${data.kitchenName} on ${data.bookingDate} (${data.startTime} – ${data.endTime}) is now available. It's held for you until ${format(data.holdExpiresAt, 'MMM d, h:mm a')} — book before then or it goes to the next chef on the waitlist.`,
+    metadata: {
+      waitlistEntryId: data.waitlistEntryId,
+      kitchenId: data.kitchenId,
+      kitchenName: data.kitchenName,
+      bookingDate: data.bookingDate,
+      startTime: data.startTime,
+      endTime: data.endTime
+    },
+    actionUrl: `/book-kitchen?location=${data.locationId}`,
+    actionLabel: 'Book Now',
+    expiresAt: data.holdExpiresAt,
+  });
+}
+
+async function notifyChefStorageSubscriptionPaymentFailed(data: { chefId: number; storageBookingId: number; storageName: string; amountCents: number; paidThrough: string; nextRetryAt: string | null }) {
+  const formattedAmount = (data.amountCents / 100).toFixed(2);
+  return createChefNotification({
+    chefId: data.chefId,
+    type: 'storage_subscription_payment_failed',
+    priority: 'urgent',
+    title: 'Storage Renewal Failed',
+    message: data.nextRetryAt
+      ? `We couldn't charge $${formattedAmount} to renew "${data.storageName}". We'll try your saved card again on ${data.nextRetryAt}. Your storage is paid through ${data.paidThrough}.`
+      : `We couldn't renew "${data.storageName}" after several attempts, so the subscription has ended. Your storage was paid through ${data.paidThrough} — extend it or check out to avoid overstay penalties.`,
+    metadata: {
+      storageBookingId: data.storageBookingId,
+      storageName: data.storageName,
+      amountCents: data.amountCents,
+      nextRetryAt: data.nextRetryAt
+    },
+    actionUrl: `/dashboard?view=bookings`,
+    actionLabel: 'View Storage'
+  });
+}
+
 async function notifyChefStorageCheckinReminder(data: { chefId: number; storageBookingId: number; storageName: string; startDate: string }) {
   return createChefNotification({
     chefId: data.chefId,
@@ -966,6 +1110,27 @@ async function notifyChefOverstayDetected(data: { chefId: number } & OverstayNot
   });
 }
 
+// Manager: Imported calendar blocks overlap existing chef bookings
+async function notifyManagerCalendarImportConflicts(data: { managerId: number; locationId: number; kitchenId: number; kitchenName: string; importId: number; importName: string; conflicts: Array<{ bookingId: number; referenceCode: string | null; date: string; startTime: string; endTime: string; eventSummary: string | null }> }) {
+  const first = data.conflicts[0];
+  const more = data.conflicts.length > 1 ? ` and ${data.conflicts.length - 1} more` : '';
+  return createManagerNotification({
+    managerId: data.managerId,
+    locationId: data.locationId,
+    type: 'calendar_import_conflict',
+    priority: 'high',
+    title: 'Calendar Import Conflict',
+    message: `"${data.importName}" blocks ${data.kitchenName} on ${first.date} (${first.startTime}-${first.endTime})${more}, overlapping existing chef bookings. Review and reschedule or cancel the affected bookings.`,
+    metadata: {
+      kitchenId: data.kitchenId,
+      importId: data.importId,
+      conflicts: data.conflicts,
+    },
+    actionUrl: `/manager/booking-dashboard?view=availability`,
+    actionLabel: 'Review Conflicts',
+  });
+}
+
 // Manager: Overstay pending review
 async function notifyManagerOverstayPendingReview(data: { managerId: number; locationId: number; chefName: string } & OverstayNotificationData) {
   const formattedAmount = (data.penaltyAmountCents / 100).toFixed(2);
@@ -1107,6 +1272,62 @@ async function notifyChefOverstayRefunded(data: { chefId: number; refundAmountCe
   });
 }
 
+// ===================================
+// KITCHEN OVERTIME NOTIFICATIONS
+// ===================================
+
+interface KitchenOvertimeNotificationData {
+  overtimeId: number;
+  bookingId: number;
+  kitchenName: string;
+  overtimeMinutes: number;
+  chargeCents: number;
+}
+
+// Manager: Late check-out needs a decision
+async function notifyManagerKitchenOvertimePendingReview(data: { managerId: number; locationId: number; chefName: string } & KitchenOvertimeNotificationData) {
+  const formattedAmount = (data.chargeCents / 100).toFixed(2);
+  return createManagerNotification({
+    managerId: data.managerId,
+    locationId: data.locationId,
+    type: 'kitchen_overtime_pending_review',
+    priority: 'high',
+    title: 'Overtime Requires Review',
+    message: `${data.chefName} checked out of ${data.kitchenName} ${data.overtimeMinutes} minutes after the booking ended. Proposed overtime charge: $${formattedAmount}. Approve, adjust or waive it.`,
+    metadata: {
+      overtimeId: data.overtimeId,
+      bookingId: data.bookingId,
+      kitchenName: data.kitchenName,
+      chefName: data.chefName,
+      overtimeMinutes: data.overtimeMinutes,
+      chargeCents: data.chargeCents
+    },
+    actionUrl: `/manager/booking-dashboard?view=overstays`,
+    actionLabel: 'Review Overtime'
+  });
+}
+
+// Chef: Overtime charged to the saved card
+async function notifyChefKitchenOvertimeCharged(data: { chefId: number } & KitchenOvertimeNotificationData) {
+  const formattedAmount = (data.chargeCents / 100).toFixed(2);
+  return createChefNotification({
+    chefId: data.chefId,
+    type: 'kitchen_overtime_charged',
+    priority: 'high',
+    title: 'Kitchen Overtime Charged',
+    message: `$${formattedAmount} has been charged to your card for staying ${data.overtimeMinutes} minutes past your booking at ${data.kitchenName}.`,
+    metadata: {
+      overtimeId: data.overtimeId,
+      bookingId: data.bookingId,
+      kitchenName: data.kitchenName,
+      overtimeMinutes: data.overtimeMinutes,
+      chargeCents: data.chargeCents
+    },
+    actionUrl: `/booking/${data.bookingId}`,
+    actionLabel: 'View Booking'
+  });
+}
+
 // ===================================
 // DAMAGE CLAIM NOTIFICATIONS
 // ===================================
@@ -1295,8 +1516,10 @@ export const notificationService = {
   
   // Manager: Booking
   notifyNewBooking,
+  notifyNewBookingSeries,
   notifyBookingConfirmed,
   notifyBookingCancelled,
+  notifyBookingRescheduled,
   
   // Manager: Payment
   notifyPaymentReceived,
@@ -1319,9 +1542,13 @@ export const notificationService = {
   
   // Chef: Booking
   notifyChefBookingConfirmed,
+  notifyChefBookingSeriesDecision,
+  notifyChefAccessCodeReady,
   notifyChefBookingCancelled,
   notifyChefKitchenCheckinReminder,
   notifyChefStorageCheckinReminder,
+  notifyChefWaitlistSlotOffered,
+  notifyChefStorageSubscriptionPaymentFailed,
   
   // Chef: Application
   notifyChefApplicationApproved,
@@ -1344,6 +1571,9 @@ export const notificationService = {
   notifyChefStorageExtensionApproved,
   notifyChefStorageExtensionRejected,
   
+  // External Calendar Imports
+  notifyManagerCalendarImportConflicts,
+  
   // Overstay Penalty
   notifyChefOverstayDetected,
   notifyManagerOverstayPendingReview,
@@ -1354,6 +1584,10 @@ export const notificationService = {
   notifyChefPaymentRequired,
   notifyChefOverstayRefunded,
   
+  // Kitchen Overtime
+  notifyManagerKitchenOvertimePendingReview,
+  notifyChefKitchenOvertimeCharged,
+  
   // Damage Claim
   notifyChefDamageClaimFiled,
   notifyManagerClaimResponseReceived,
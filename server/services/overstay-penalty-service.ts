@@ -27,6 +27,7 @@ import {
 import { eq, and, lt, not, inArray, desc, asc, sql } from "drizzle-orm";
 import { logger } from "../logger";
 import Stripe from "stripe";
+import { DEFAULT_CURRENCY, normalizeCurrency, toStripeCurrency, type SupportedCurrency } from "@shared/currency-utils";
 import { getOverstayPlatformDefaults, getEffectivePenaltyConfig } from "./overstay-defaults-service";
 
 // Initialize Stripe
@@ -142,8 +143,18 @@ export async function detectOverstays(): Promise<OverstayDetectionResult[]> {
 
   const results: OverstayDetectionResult[] = [];
 
+  // Monthly subscriptions still renewing (or retrying a failed renewal) are not
+  // overstays; they only reach detection once renewal retries are exhausted
+  const { getLiveSubscriptionBookingIds } = await import("./storage-subscription-service");
+  const subscribedBookingIds = await getLiveSubscriptionBookingIds();
+
   for (const booking of expiredBookings) {
     try {
+      if (subscribedBookingIds.has(booking.id)) {
+        logger.info(`[OverstayService] Skipping booking ${booking.id} - monthly subscription renewal in progress`);
+        continue;
+      }
+
       // HYBRID VERIFICATION: Skip bookings with checkout in progress
       // This prevents unwarranted overstay penalties when chef has initiated checkout
       // Manager has 48-hour window to verify before penalties apply
@@ -799,7 +810,7 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
 
   // ENTERPRISE STANDARD: Allow charging from multiple statuses
   // - penalty_approved: initial charge after manager approval
-  // - charge_failed: retry after a previous failure (legacy records)
+  // - charge_failed: dunning retry (daily cron, or right after the chef updates their card)
   // - charge_pending: recovery from stuck state (e.g. server crash during previous charge)
   // - escalated: admin force-retry (e.g. chef updated their card)
   const chargeableStatuses = ['penalty_approved', 'charge_failed', 'charge_pending', 'escalated'];
@@ -923,8 +934,9 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
     // ENTERPRISE STANDARD: Create off-session PaymentIntent with destination charge
     // This automatically transfers funds to the manager's Stripe Connect account
     
-    // Get kitchen tax rate for tax calculation (same as storage extensions)
+    // Get kitchen tax rate and currency for the charge (same as storage extensions)
     let taxRatePercent = 0;
+    let currency: SupportedCurrency = DEFAULT_CURRENCY;
     try {
       const [storageBooking] = await db
         .select({ storageListingId: storageBookings.storageListingId })
@@ -941,11 +953,12 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
 
         if (listing?.kitchenId) {
           const [kitchen] = await db
-            .select({ taxRatePercent: kitchens.taxRatePercent })
+            .select({ taxRatePercent: kitchens.taxRatePercent, currency: kitchens.currency })
             .from(kitchens)
             .where(eq(kitchens.id, listing.kitchenId))
             .limit(1);
           
+          currency = normalizeCurrency(kitchen?.currency);
           if (kitchen?.taxRatePercent) {
             taxRatePercent = parseFloat(String(kitchen.taxRatePercent));
           }
@@ -984,7 +997,7 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
       statement_descriptor_suffix: string;
     } = {
       amount: penaltyTotalCents,
-      currency: 'cad',
+      currency: toStripeCurrency(currency),
       customer: customerId,
       payment_method: paymentMethodId,
       off_session: true,
@@ -1008,8 +1021,9 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
     }
 
     // ENTERPRISE STANDARD: Use idempotency key to prevent duplicate charges
-    // Key format: overstay_penalty_{recordId}_{timestamp_day} - allows retry within same day
-    const idempotencyKey = `overstay_penalty_${overstayRecordId}_${new Date().toISOString().split('T')[0]}`;
+    // Key format: overstay_penalty_{recordId}_{timestamp_day}_{retryCount} - a dunning retry
+    // (e.g. right after the chef updates their card) must not replay the failed attempt
+    const idempotencyKey = `overstay_penalty_${overstayRecordId}_${new Date().toISOString().split('T')[0]}_${record.chargeRetryCount}`;
     
     const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams, {
       idempotencyKey,
@@ -1028,6 +1042,7 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
           stripePaymentIntentId: paymentIntent.id,
           stripeChargeId: chargeId || null,
           chargeSucceededAt: new Date(),
+          nextChargeRetryAt: null,
           resolvedAt: new Date(),
           resolutionType: 'paid',
           updatedAt: new Date(),
@@ -1061,7 +1076,8 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
           baseAmount: penaltyBaseCents,
           serviceFee: 0, // Webhook updates with actualStripeFee + platformCommission
           managerRevenue: penaltyTotalCents, // Webhook updates with actual transfer amount
-          currency: "CAD",
+          taxCents: penaltyTaxCents,
+          currency,
           paymentIntentId: paymentIntent.id,
           chargeId: chargeId || undefined,
           status: "succeeded",
@@ -1216,51 +1232,25 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
         chargeId: chargeId || undefined,
       };
     } else {
-      // ENTERPRISE STANDARD: Auto-charge failed — immediately escalate and create self-serve checkout
-      // No retry system. On any failure: escalate → chef gets payment link → admin notified.
+      // Auto-charge failed — schedule a dunning retry, or escalate once retries are exhausted
       const failureReason = paymentIntent.status === 'requires_action' || 
                             paymentIntent.status === 'requires_confirmation' ||
                             paymentIntent.status === 'requires_payment_method'
         ? `Payment requires authentication (3DS/SCA)`
         : `Payment status: ${paymentIntent.status}`;
 
-      await db
-        .update(storageOverstayRecords)
-        .set({
-          status: 'escalated',
-          stripePaymentIntentId: paymentIntent.id,
-          chargeFailedAt: new Date(),
-          chargeFailureReason: failureReason,
-          resolutionType: 'escalated_collection',
-          resolutionNotes: `Auto-escalated: off-session charge failed (${failureReason}). Self-serve payment link sent to chef.`,
-          updatedAt: new Date(),
-        })
-        .where(eq(storageOverstayRecords.id, overstayRecordId));
-
-      await createOverstayHistoryEntry(
+      return recordPenaltyChargeFailure(
         overstayRecordId,
-        'charge_pending',
-        'escalated',
-        'auto_escalation',
-        'system',
-        `Off-session charge failed: ${failureReason}. Escalated immediately.`,
-        { paymentIntentId: paymentIntent.id, status: paymentIntent.status }
+        record,
+        booking.chefId,
+        customerId,
+        failureReason,
+        { paymentIntentId: paymentIntent.id, status: paymentIntent.status },
+        paymentIntent.id
       );
-
-      // Create self-serve checkout session and email chef
-      await sendEscalationPaymentLinkToChef(overstayRecordId, record, booking.chefId, failureReason);
-
-      // Notify admins of escalation
-      await sendEscalationAdminEmail(overstayRecordId, record, failureReason);
-
-      return { 
-        success: false, 
-        error: `Auto-charge failed (${failureReason}). Escalated — payment link sent to chef.`,
-      };
     }
   } catch (error: any) {
-    // ENTERPRISE STANDARD: On ANY Stripe exception, immediately escalate + create self-serve checkout.
-    // No retry system. Covers: 3DS/SCA, card declined, expired card, insufficient funds, network errors.
+    // Covers: 3DS/SCA, card declined, expired card, insufficient funds, network errors.
     const errorMessage = error.message || 'Unknown error';
     const stripeErrorCode = error.code || error.raw?.code || '';
     const failureReason = stripeErrorCode === 'authentication_required' || 
@@ -1269,14 +1259,53 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
       ? `Payment requires authentication (3DS/SCA)`
       : errorMessage;
 
+    logger.error(`[OverstayService] Penalty charge failed`, {
+      overstayRecordId,
+      error: errorMessage,
+      stripeErrorCode,
+    });
+
+    return recordPenaltyChargeFailure(
+      overstayRecordId,
+      record,
+      booking.chefId,
+      customerId,
+      failureReason,
+      { error: errorMessage, stripeErrorCode }
+    );
+  }
+}
+
+/**
+ * Record a failed off-session penalty charge (see charge-retry-service).
+ * While the backoff schedule has retries left: charge_failed, next retry
+ * scheduled and a card-update link emailed to the chef. Once exhausted:
+ * escalate — self-serve payment link to the chef and admins notified.
+ */
+async function recordPenaltyChargeFailure(
+  overstayRecordId: number,
+  record: StorageOverstayRecord,
+  chefId: number | null,
+  customerId: string,
+  failureReason: string,
+  metadata: Record<string, unknown>,
+  paymentIntentId?: string
+): Promise<ChargeResult> {
+  const { getChargeRetryBackoffHours, getNextChargeRetryAt, sendCardUpdateLinkToChef } = await import('./charge-retry-service');
+
+  const failedAttempts = record.chargeRetryCount + 1;
+  const nextRetryAt = getNextChargeRetryAt(failedAttempts, await getChargeRetryBackoffHours(), new Date());
+
+  if (nextRetryAt) {
     await db
       .update(storageOverstayRecords)
       .set({
-        status: 'escalated',
+        status: 'charge_failed',
+        ...(paymentIntentId ? { stripePaymentIntentId: paymentIntentId } : {}),
         chargeFailedAt: new Date(),
         chargeFailureReason: failureReason,
-        resolutionType: 'escalated_collection',
-        resolutionNotes: `Auto-escalated: off-session charge threw error (${failureReason}). Self-serve payment link sent to chef.`,
+        chargeRetryCount: failedAttempts,
+        nextChargeRetryAt: nextRetryAt,
         updatedAt: new Date(),
       })
       .where(eq(storageOverstayRecords.id, overstayRecordId));
@@ -1284,27 +1313,87 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
     await createOverstayHistoryEntry(
       overstayRecordId,
       'charge_pending',
-      'escalated',
-      'auto_escalation',
+      'charge_failed',
+      'charge_retry_scheduled',
       'system',
-      `Off-session charge error: ${failureReason}. Escalated immediately.`,
-      { error: errorMessage, stripeErrorCode }
+      `Off-session charge failed (attempt ${failedAttempts}): ${failureReason}. Retry scheduled for ${nextRetryAt.toISOString()}.`,
+      { ...metadata, attempt: failedAttempts, nextRetryAt: nextRetryAt.toISOString() }
     );
 
-    logger.error(`[OverstayService] Penalty charge failed — escalated immediately`, {
-      overstayRecordId,
-      error: errorMessage,
-      stripeErrorCode,
-    });
+    if (chefId) {
+      const [listing] = await db
+        .select({ storageName: storageListings.name, currency: storageBookings.currency })
+        .from(storageBookings)
+        .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+        .where(eq(storageBookings.id, record.storageBookingId))
+        .limit(1);
 
-    // Create self-serve checkout session and email chef
-    await sendEscalationPaymentLinkToChef(overstayRecordId, record, booking.chefId, failureReason);
+      const cardUpdateUrl = await sendCardUpdateLinkToChef({
+        chargeType: 'overstay_penalty',
+        targetId: overstayRecordId,
+        chefId,
+        customerId,
+        amountCents: record.finalPenaltyCents || record.calculatedPenaltyCents || 0,
+        currency: normalizeCurrency(listing?.currency),
+        description: `Storage overstay penalty — ${listing?.storageName || 'Storage'}`,
+        failureReason,
+        nextRetryAt,
+      });
 
-    // Notify admins of escalation
-    await sendEscalationAdminEmail(overstayRecordId, record, failureReason);
+      if (cardUpdateUrl) {
+        await createOverstayHistoryEntry(
+          overstayRecordId,
+          'charge_failed',
+          'charge_failed',
+          'card_update_link_sent',
+          'system',
+          'Card update link sent to chef',
+          { cardUpdateUrl }
+        );
+      }
+    }
 
-    return { success: false, error: `Auto-charge failed (${failureReason}). Escalated — payment link sent to chef.` };
+    return {
+      success: false,
+      error: `Auto-charge failed (${failureReason}). Retry scheduled — card update link sent to chef.`,
+    };
   }
+
+  await db
+    .update(storageOverstayRecords)
+    .set({
+      status: 'escalated',
+      ...(paymentIntentId ? { stripePaymentIntentId: paymentIntentId } : {}),
+      chargeFailedAt: new Date(),
+      chargeFailureReason: failureReason,
+      chargeRetryCount: failedAttempts,
+      nextChargeRetryAt: null,
+      resolutionType: 'escalated_collection',
+      resolutionNotes: `Auto-escalated: off-session charge failed ${failedAttempts} time(s) (${failureReason}). Self-serve payment link sent to chef.`,
+      updatedAt: new Date(),
+    })
+    .where(eq(storageOverstayRecords.id, overstayRecordId));
+
+  await createOverstayHistoryEntry(
+    overstayRecordId,
+    'charge_pending',
+    'escalated',
+    'auto_escalation',
+    'system',
+    `Off-session charge failed (attempt ${failedAttempts}): ${failureReason}. Retries exhausted — escalated.`,
+    { ...metadata, attempt: failedAttempts }
+  );
+
+  // Create self-serve checkout session and email chef
+  await sendEscalationPaymentLinkToChef(overstayRecordId, record, chefId, failureReason);
+
+  // Notify admins of escalation
+  await sendEscalationAdminEmail(overstayRecordId, record, failureReason);
+
+  return { 
+    success: false, 
+    error: `Auto-charge failed (${failureReason}). Escalated — payment link sent to chef.`,
+  };
 }
 
 // ============================================================================
@@ -1313,9 +1402,9 @@ export async function chargeApprovedPenalty(overstayRecordId: number): Promise<C
 
 /**
  * Send a self-serve Stripe Checkout payment link to the chef on escalation.
- * Called immediately when auto-charge fails — no retry system.
+ * Called once dunning retries of the auto-charge are exhausted.
  * 
- * Flow: Auto-charge fails → escalate → chef gets this payment link → if chef pays, webhook resolves it.
+ * Flow: Auto-charge retries exhausted → escalate → chef gets this payment link → if chef pays, webhook resolves it.
  */
 async function sendEscalationPaymentLinkToChef(
   overstayRecordId: number,
@@ -1413,7 +1502,7 @@ async function sendEscalationPaymentLinkToChef(
 
 /**
  * Notify all admin users when an overstay penalty is escalated.
- * Called immediately when auto-charge fails — no retry system.
+ * Called once dunning retries of the auto-charge are exhausted.
  */
 async function sendEscalationAdminEmail(
   overstayRecordId: number,
@@ -1916,6 +2005,11 @@ export async function createPenaltyPaymentCheckout(
       return { error: 'Invalid penalty amount' };
     }
 
+    // Tax the penalty at the kitchen's rate, same as the off-session charge
+    const taxRatePercent = kitchen?.taxRatePercent ? parseFloat(String(kitchen.taxRatePercent)) : 0;
+    const penaltyTaxCents = Math.round((penaltyAmountCents * taxRatePercent) / 100);
+    const penaltyTotalCents = penaltyAmountCents + penaltyTaxCents;
+
     // Get chef email
     const [chef] = await db
       .select({ email: users.username })
@@ -1935,12 +2029,12 @@ export async function createPenaltyPaymentCheckout(
       line_items: [
         {
           price_data: {
-            currency: 'cad',
+            currency: toStripeCurrency(kitchen?.currency),
             product_data: {
               name: `Overstay Penalty - ${storageName}`,
               description: `Storage overstay penalty for ${kitchenName}`,
             },
-            unit_amount: penaltyAmountCents,
+            unit_amount: penaltyTotalCents,
           },
           quantity: 1,
         },
@@ -1951,6 +2045,9 @@ export async function createPenaltyPaymentCheckout(
         chefId: chefId.toString(),
         storageBookingId: overstayRecord.storageBookingId.toString(),
         managerId: managerId?.toString() || '',
+        tax_rate_percent: taxRatePercent.toString(),
+        penalty_base_cents: penaltyAmountCents.toString(),
+        penalty_tax_cents: penaltyTaxCents.toString(),
       },
       success_url: successUrl,
       cancel_url: cancelUrl,
@@ -2006,6 +2103,7 @@ export async function createPenaltyPaymentCheckout(
       overstayRecordId,
       chefId,
       penaltyAmountCents,
+      penaltyTaxCents,
       sessionId: session.id,
       currentStatus: overstayRecord.status,
     });
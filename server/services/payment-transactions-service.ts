@@ -7,8 +7,9 @@ import { logger } from "../logger";
  */
 
 import { sql, type SQL } from "drizzle-orm";
+import type { TaxBreakdown } from "./tax-service";
 
-export type BookingType = 'kitchen' | 'storage' | 'equipment' | 'bundle';
+export type BookingType = 'kitchen' | 'storage' | 'equipment' | 'bundle' | 'wallet';
 export type TransactionStatus = 'pending' | 'authorized' | 'processing' | 'succeeded' | 'failed' | 'canceled' | 'refunded' | 'partially_refunded';
 
 export interface CreatePaymentTransactionParams {
@@ -20,6 +21,7 @@ export interface CreatePaymentTransactionParams {
   baseAmount: number; // Base amount in cents (before service fee)
   serviceFee: number; // Service fee in cents
   managerRevenue: number; // Manager revenue in cents (baseAmount - serviceFee)
+  taxCents?: number; // Sales tax included in amount, in cents (omit when the charge is not a taxable sale)
   currency?: string;
   paymentIntentId?: string;
   chargeId?: string; // Stripe charge ID for fee syncing
@@ -77,6 +79,8 @@ export interface PaymentTransactionRecord {
   refund_id: string | null;
   payment_method_id: string | null;
   transfer_id: string | null; // Stripe Transfer ID (post-capture transfer to manager Connect account)
+  tax_cents: number | null;
+  tax_breakdown: TaxBreakdown | null;
   status: TransactionStatus;
   stripe_status: string | null;
   metadata: any;
@@ -106,6 +110,7 @@ export async function createPaymentTransaction(
     baseAmount,
     serviceFee,
     managerRevenue,
+    taxCents,
     currency = 'CAD',
     paymentIntentId,
     chargeId,
@@ -130,6 +135,7 @@ export async function createPaymentTransaction(
       manager_revenue,
       refund_amount,
       net_amount,
+      tax_cents,
       currency,
       payment_intent_id,
       charge_id,
@@ -148,6 +154,7 @@ export async function createPaymentTransaction(
       ${managerRevenue.toString()},
       '0',
       ${netAmount.toString()},
+      ${taxCents ?? null},
       ${currency},
       ${paymentIntentId || null},
       ${chargeId || null},
@@ -161,6 +168,17 @@ export async function createPaymentTransaction(
 
   const record = result.rows[0] as PaymentTransactionRecord;
 
+  // Split the tax by type (GST/HST/PST...) for the tax-collected report. Non-blocking:
+  // the report rebuilds any missing breakdown.
+  if (taxCents != null) {
+    try {
+      const { recordPaymentTaxBreakdown } = await import("./tax-service");
+      record.tax_breakdown = await recordPaymentTaxBreakdown(record.id, taxCents);
+    } catch (error) {
+      logger.warn(`[PaymentTransactions] Could not record tax breakdown for transaction ${record.id}:`, error);
+    }
+  }
+
   // Create initial history entry
   await addPaymentHistory(
     record.id,
@@ -500,6 +518,26 @@ export async function syncStripeAmountsToBookings(
       return;
     }
 
+    // Recurring series: one PaymentIntent covers every occurrence, and the series
+    // capture already set each occurrence's per-session price
+    if (ptMetadata.series_id) {
+      logger.info(`[Stripe Sync] Skipping booking table sync for booking series ${ptMetadata.series_id} (PaymentIntent ${paymentIntentId})`);
+      return;
+    }
+
+    // Reschedule price differences are extra charges on a booking whose
+    // total_price the reschedule already updated
+    if (ptMetadata.type === 'booking_reschedule') {
+      logger.info(`[Stripe Sync] Skipping booking table sync for reschedule charge on booking ${bookingId} (PaymentIntent ${paymentIntentId})`);
+      return;
+    }
+
+    // Wallet package purchases have no booking row — the credit lot is the record
+    if (bookingType === 'wallet') {
+      logger.info(`[Stripe Sync] Skipping booking table sync for wallet package purchase (PaymentIntent ${paymentIntentId})`);
+      return;
+    }
+
     // For bundle bookings, we need to get all related bookings
     if (bookingType === 'bundle') {
       // Get kitchen booking
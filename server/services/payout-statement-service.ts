@@ -2,10 +2,18 @@ import { logger } from "../logger";
 import PDFDocument from 'pdfkit';
 import type { Pool } from 'pg';
 import Stripe from 'stripe';
+import type { RevenueShareTransfer } from './location-revenue-share-service';
+
+const TRANSFER_KIND_LABELS: Record<string, string> = {
+  booking: 'Booking',
+  promo_top_up: 'Promo top-up',
+  wallet_top_up: 'Credit top-up',
+};
 
 /**
  * Generate payout statement PDF for a manager
- * Shows earnings breakdown for a specific payout period
+ * Shows earnings breakdown for a specific payout period, plus the manager's
+ * share of any co-managed locations' payouts
  */
 export async function generatePayoutStatementPDF(
   managerId: number,
@@ -13,7 +21,8 @@ export async function generatePayoutStatementPDF(
   managerEmail: string,
   payout: Stripe.Payout,
   balanceTransactions: Stripe.BalanceTransaction[],
-  bookings: any[]
+  bookings: any[],
+  revenueShareTransfers: RevenueShareTransfer[] = []
 ): Promise<Buffer> {
   // Calculate totals
   let totalEarnings = 0;
@@ -224,6 +233,62 @@ export async function generatePayoutStatementPDF(
         }
       }
 
+      // Revenue share section (co-managed locations)
+      if (revenueShareTransfers.length > 0) {
+        const shareNetCents = revenueShareTransfers.reduce(
+          (sum, transfer) => sum + transfer.amountCents - transfer.reversedCents,
+          0
+        );
+
+        leftY += 30;
+        if (leftY > 620) {
+          doc.addPage();
+          leftY = 50;
+        }
+        doc.fontSize(14).font('Helvetica-Bold').text('Revenue Share', 50, leftY);
+        leftY += 20;
+        doc.fontSize(9).font('Helvetica').text(
+          `Your share of co-managed locations: $${(shareNetCents / 100).toFixed(2)} after refunds`,
+          50,
+          leftY
+        );
+        leftY += 20;
+
+        // Table header
+        doc.fontSize(9).font('Helvetica-Bold');
+        doc.text('Date', 50, leftY);
+        doc.text('Location', 120, leftY);
+        doc.text('Type', 250, leftY);
+        doc.text('Share', 340, leftY, { width: 50, align: 'right' });
+        doc.text('Amount', 400, leftY, { width: 100, align: 'right' });
+        leftY += 15;
+        doc.moveTo(50, leftY).lineTo(550, leftY).stroke();
+        leftY += 10;
+
+        doc.fontSize(8).font('Helvetica');
+        revenueShareTransfers.slice(0, 30).forEach((transfer) => {
+          if (leftY > 700) {
+            doc.addPage();
+            leftY = 50;
+          }
+
+          const dateStr = new Date(transfer.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+          const netCents = transfer.amountCents - transfer.reversedCents;
+
+          doc.text(dateStr, 50, leftY);
+          doc.text((transfer.locationName || 'Location').substring(0, 22), 120, leftY, { width: 125 });
+          doc.text(`${TRANSFER_KIND_LABELS[transfer.transferKind] || transfer.transferKind} #${transfer.bookingId}`, 250, leftY, { width: 90 });
+          doc.text(`${parseFloat(String(transfer.sharePercent))}%`, 340, leftY, { width: 50, align: 'right' });
+          doc.text(`$${(netCents / 100).toFixed(2)}`, 400, leftY, { width: 100, align: 'right' });
+          leftY += 15;
+        });
+
+        if (revenueShareTransfers.length > 30) {
+          leftY += 5;
+          doc.fontSize(8).font('Helvetica').text(`... and ${revenueShareTransfers.length - 30} more transfers`, 50, leftY);
+        }
+      }
+
       // Footer
       const footerY = doc.page.height - 100;
       doc.fontSize(8).font('Helvetica');
@@ -0,0 +1,612 @@
+import { logger } from "../logger";
+/**
+ * Photo Comparison Service
+ *
+ * Chefs upload condition photos per PhotoRequirement at check-in and again at
+ * check-out. The flat `*PhotoUrls` arrays drive validation and display; the
+ * `*PhotoDetails` arrays record which requirement each photo answers, when it
+ * was submitted and by whom. This service pairs the two sides by requirement
+ * id so managers can compare before/after conditions when filing a damage
+ * claim, and renders that comparison as a PDF evidence file.
+ *
+ * Photos taken before details were recorded (or through the generic
+ * uploader) have no requirement and are shown together under "Other photos".
+ */
+
+import PDFDocument from "pdfkit";
+import { db } from "../db";
+import {
+  conditionPhotoSchema,
+  damageClaims,
+  damageEvidence,
+  kitchenBookings,
+  kitchens,
+  locations,
+  storageBookings,
+  storageListings,
+  users,
+  type ConditionPhoto,
+  type DamageEvidence,
+  type PhotoRequirement,
+} from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { DEFAULT_TIMEZONE } from "@shared/timezone-utils";
+import { getEffectiveChecklist, type ChecklistScope } from "./checklist-template-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PhotoComparisonBookingType = 'kitchen' | 'storage';
+
+export interface ComparedPhoto extends ConditionPhoto {
+  uploadedByName: string | null;
+}
+
+export interface PhotoComparisonPair {
+  requirementId: string | null; // null = photos without a matching requirement
+  label: string;
+  description?: string;
+  checkin: ComparedPhoto[];
+  checkout: ComparedPhoto[];
+}
+
+export interface PhotoComparison {
+  bookingType: PhotoComparisonBookingType;
+  bookingId: number;
+  bookingReference: string | null;
+  locationId: number;
+  locationName: string;
+  spaceName: string; // Kitchen name, or storage listing name
+  timezone: string;
+  chefId: number | null;
+  checkedInAt: Date | null;
+  checkedOutAt: Date | null;
+  pairs: PhotoComparisonPair[];
+}
+
+type PhotoPair<T> = Omit<PhotoComparisonPair, 'checkin' | 'checkout'> & { checkin: T[]; checkout: T[] };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Key the chef-side uploader uses for photos not tied to a requirement */
+export const GENERIC_PHOTO_KEY = '__generic__';
+
+const OTHER_PHOTOS_LABEL = 'Other photos';
+const PHOTO_FETCH_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// PHOTO DETAILS
+// ============================================================================
+
+/**
+ * Record which requirement each submitted photo answers. `photoUrls` stays the
+ * source of truth: URLs in the per-requirement map that were not submitted
+ * are ignored, and submitted URLs missing from the map get no requirement.
+ */
+export function buildConditionPhotoDetails(
+  photoUrls: string[] | undefined | null,
+  photosByRequirement: unknown,
+  uploadedBy: number | null,
+  uploadedAt: Date,
+): ConditionPhoto[] {
+  const requirementByUrl = new Map<string, string>();
+  if (photosByRequirement && typeof photosByRequirement === 'object' && !Array.isArray(photosByRequirement)) {
+    for (const [requirementId, urls] of Object.entries(photosByRequirement as Record<string, unknown>)) {
+      if (requirementId === GENERIC_PHOTO_KEY || !Array.isArray(urls)) continue;
+      for (const url of urls) {
+        if (typeof url === 'string' && !requirementByUrl.has(url)) requirementByUrl.set(url, requirementId);
+      }
+    }
+  }
+
+  return (Array.isArray(photoUrls) ? photoUrls : [])
+    .filter((url): url is string => typeof url === 'string' && url.length > 0)
+    .map((url) => ({
+      url,
+      requirementId: requirementByUrl.get(url) ?? null,
+      uploadedAt: uploadedAt.toISOString(),
+      uploadedBy,
+    }));
+}
+
+/**
+ * Read a booking's photos for one stage. Every URL in `photoUrls` is returned;
+ * photos without a stored detail (legacy bookings) fall back to the stage
+ * timestamp and the booking's chef.
+ */
+export function readConditionPhotos(
+  photoUrls: unknown,
+  photoDetails: unknown,
+  fallback: { uploadedAt: Date | null; uploadedBy: number | null },
+): ConditionPhoto[] {
+  const detailsByUrl = new Map<string, ConditionPhoto>();
+  if (Array.isArray(photoDetails)) {
+    for (const raw of photoDetails) {
+      const parsed = conditionPhotoSchema.safeParse(raw);
+      if (parsed.success) detailsByUrl.set(parsed.data.url, parsed.data);
+    }
+  }
+
+  const urls = Array.isArray(photoUrls)
+    ? photoUrls.filter((url): url is string => typeof url === 'string' && url.length > 0)
+    : [];
+
+  return urls.map((url) => detailsByUrl.get(url) ?? {
+    url,
+    requirementId: null,
+    uploadedAt: (fallback.uploadedAt ?? new Date(0)).toISOString(),
+    uploadedBy: fallback.uploadedBy,
+  });
+}
+
+// ============================================================================
+// PAIRING
+// ============================================================================
+
+/**
+ * Pair check-in and check-out photos by PhotoRequirement.id, in checklist
+ * order. Requirements with no photos on either side are left out; photos
+ * whose requirement no longer exists join the "Other photos" group.
+ */
+export function pairConditionPhotos<T extends { requirementId: string | null }>(input: {
+  checkinRequirements: PhotoRequirement[];
+  checkoutRequirements: PhotoRequirement[];
+  checkinPhotos: T[];
+  checkoutPhotos: T[];
+}): PhotoPair<T>[] {
+  const pairs = new Map<string, PhotoPair<T>>();
+  for (const requirement of [...input.checkinRequirements, ...input.checkoutRequirements]) {
+    if (pairs.has(requirement.id)) continue;
+    pairs.set(requirement.id, {
+      requirementId: requirement.id,
+      label: requirement.label,
+      description: requirement.description,
+      checkin: [],
+      checkout: [],
+    });
+  }
+
+  const other: PhotoPair<T> = { requirementId: null, label: OTHER_PHOTOS_LABEL, checkin: [], checkout: [] };
+  for (const photo of input.checkinPhotos) {
+    (photo.requirementId ? pairs.get(photo.requirementId) ?? other : other).checkin.push(photo);
+  }
+  for (const photo of input.checkoutPhotos) {
+    (photo.requirementId ? pairs.get(photo.requirementId) ?? other : other).checkout.push(photo);
+  }
+
+  return [...Array.from(pairs.values()), other].filter((pair) => pair.checkin.length > 0 || pair.checkout.length > 0);
+}
+
+function toPhotoRequirements(raw: unknown): PhotoRequirement[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((r): r is PhotoRequirement =>
+    !!r && typeof r === 'object' && typeof (r as PhotoRequirement).id === 'string' && typeof (r as PhotoRequirement).label === 'string'
+  );
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Build the check-in vs check-out comparison for a kitchen or storage booking
+ */
+export async function getBookingPhotoComparison(
+  bookingType: PhotoComparisonBookingType,
+  bookingId: number,
+): Promise<PhotoComparison | null> {
+  let base: Omit<PhotoComparison, 'pairs'>;
+  let checkinPhotos: ConditionPhoto[];
+  let checkoutPhotos: ConditionPhoto[];
+  let checklistScope: ChecklistScope;
+
+  if (bookingType === 'kitchen') {
+    const [row] = await db
+      .select({
+        id: kitchenBookings.id,
+        referenceCode: kitchenBookings.referenceCode,
+        chefId: kitchenBookings.chefId,
+        checkedInAt: kitchenBookings.checkedInAt,
+        checkoutRequestedAt: kitchenBookings.checkoutRequestedAt,
+        checkinPhotoUrls: kitchenBookings.checkinPhotoUrls,
+        checkinPhotoDetails: kitchenBookings.checkinPhotoDetails,
+        checkoutPhotoUrls: kitchenBookings.checkoutPhotoUrls,
+        checkoutPhotoDetails: kitchenBookings.checkoutPhotoDetails,
+        kitchenId: kitchens.id,
+        kitchenName: kitchens.name,
+        locationId: locations.id,
+        locationName: locations.name,
+        timezone: locations.timezone,
+      })
+      .from(kitchenBookings)
+      .innerJoin(kitchens, eq(kitchens.id, kitchenBookings.kitchenId))
+      .innerJoin(locations, eq(locations.id, kitchens.locationId))
+      .where(eq(kitchenBookings.id, bookingId))
+      .limit(1);
+    if (!row) return null;
+
+    base = {
+      bookingType,
+      bookingId,
+      bookingReference: row.referenceCode,
+      locationId: row.locationId,
+      locationName: row.locationName,
+      spaceName: row.kitchenName,
+      timezone: row.timezone || DEFAULT_TIMEZONE,
+      chefId: row.chefId,
+      checkedInAt: row.checkedInAt,
+      checkedOutAt: row.checkoutRequestedAt,
+    };
+    checkinPhotos = readConditionPhotos(row.checkinPhotoUrls, row.checkinPhotoDetails, { uploadedAt: row.checkedInAt, uploadedBy: row.chefId });
+    checkoutPhotos = readConditionPhotos(row.checkoutPhotoUrls, row.checkoutPhotoDetails, { uploadedAt: row.checkoutRequestedAt, uploadedBy: row.chefId });
+    checklistScope = { kitchenId: row.kitchenId };
+  } else {
+    const [row] = await db
+      .select({
+        id: storageBookings.id,
+        referenceCode: storageBookings.referenceCode,
+        chefId: storageBookings.chefId,
+        checkinCompletedAt: storageBookings.checkinCompletedAt,
+        checkoutRequestedAt: storageBookings.checkoutRequestedAt,
+        checkinPhotoUrls: storageBookings.checkinPhotoUrls,
+        checkinPhotoDetails: storageBookings.checkinPhotoDetails,
+        checkoutPhotoUrls: storageBookings.checkoutPhotoUrls,
+        checkoutPhotoDetails: storageBookings.checkoutPhotoDetails,
+        storageListingId: storageListings.id,
+        kitchenId: storageListings.kitchenId,
+        listingName: storageListings.name,
+        locationId: locations.id,
+        locationName: locations.name,
+        timezone: locations.timezone,
+      })
+      .from(storageBookings)
+      .innerJoin(storageListings, eq(storageListings.id, storageBookings.storageListingId))
+      .innerJoin(kitchens, eq(kitchens.id, storageListings.kitchenId))
+      .innerJoin(locations, eq(locations.id, kitchens.locationId))
+      .where(eq(storageBookings.id, bookingId))
+      .limit(1);
+    if (!row) return null;
+
+    base = {
+      bookingType,
+      bookingId,
+      bookingReference: row.referenceCode,
+      locationId: row.locationId,
+      locationName: row.locationName,
+      spaceName: row.listingName,
+      timezone: row.timezone || DEFAULT_TIMEZONE,
+      chefId: row.chefId,
+      checkedInAt: row.checkinCompletedAt,
+      checkedOutAt: row.checkoutRequestedAt,
+    };
+    checkinPhotos = readConditionPhotos(row.checkinPhotoUrls, row.checkinPhotoDetails, { uploadedAt: row.checkinCompletedAt, uploadedBy: row.chefId });
+    checkoutPhotos = readConditionPhotos(row.checkoutPhotoUrls, row.checkoutPhotoDetails, { uploadedAt: row.checkoutRequestedAt, uploadedBy: row.chefId });
+    checklistScope = { kitchenId: row.kitchenId, storageListingId: row.storageListingId };
+  }
+
+  const checklist = await getEffectiveChecklist(base.locationId, checklistScope);
+
+  const checkinRequirements = toPhotoRequirements(
+    bookingType === 'kitchen' ? checklist.checkinPhotoRequirements : checklist.storageCheckinPhotoRequirements
+  );
+  const checkoutRequirements = toPhotoRequirements(
+    bookingType === 'kitchen' ? checklist.checkoutPhotoRequirements : checklist.storageCheckoutPhotoRequirements
+  );
+
+  // Resolve uploader names once for every photo
+  const uploaderIds = Array.from(new Set(
+    [...checkinPhotos, ...checkoutPhotos].map((p) => p.uploadedBy).filter((id): id is number => id !== null)
+  ));
+  const uploaders = uploaderIds.length > 0
+    ? await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, uploaderIds))
+    : [];
+  const nameById = new Map(uploaders.map((u) => [u.id, u.username]));
+  const withName = (photo: ConditionPhoto): ComparedPhoto => ({
+    ...photo,
+    uploadedByName: photo.uploadedBy !== null ? nameById.get(photo.uploadedBy) ?? null : null,
+  });
+
+  return {
+    ...base,
+    pairs: pairConditionPhotos({
+      checkinRequirements,
+      checkoutRequirements,
+      checkinPhotos: checkinPhotos.map(withName),
+      checkoutPhotos: checkoutPhotos.map(withName),
+    }),
+  };
+}
+
+/**
+ * Comparison for the booking a damage claim was filed against
+ */
+export async function getClaimPhotoComparison(claim: {
+  bookingType: string;
+  kitchenBookingId: number | null;
+  storageBookingId: number | null;
+}): Promise<PhotoComparison | null> {
+  if (claim.bookingType === 'storage') {
+    return claim.storageBookingId ? getBookingPhotoComparison('storage', claim.storageBookingId) : null;
+  }
+  return claim.kitchenBookingId ? getBookingPhotoComparison('kitchen', claim.kitchenBookingId) : null;
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+/** pdfkit only embeds JPEG and PNG */
+function isEmbeddableImage(buffer: Buffer): boolean {
+  const isJpeg = buffer.length > 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF;
+  const isPng = buffer.length > 4 && buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47;
+  return isJpeg || isPng;
+}
+
+async function fetchPhoto(url: string): Promise<Buffer | null> {
+  try {
+    const { isR2Configured, getPresignedUrl } = await import("../r2-storage");
+    const source = isR2Configured() ? await getPresignedUrl(url) : url;
+    if (!/^https?:\/\//.test(source)) return null;
+
+    const response = await fetch(source, { signal: AbortSignal.timeout(PHOTO_FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    return isEmbeddableImage(buffer) ? buffer : null;
+  } catch (error) {
+    logger.warn(`[PhotoComparison] Could not load photo ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Download every photo in a comparison. Photos that cannot be embedded map to
+ * null and are rendered as a link instead.
+ */
+export async function loadComparisonPhotos(comparison: PhotoComparison): Promise<Map<string, Buffer | null>> {
+  const images = new Map<string, Buffer | null>();
+  for (const pair of comparison.pairs) {
+    for (const photo of [...pair.checkin, ...pair.checkout]) {
+      if (!images.has(photo.url)) images.set(photo.url, await fetchPhoto(photo.url));
+    }
+  }
+  return images;
+}
+
+const COLUMN_WIDTH = 240;
+const IMAGE_HEIGHT = 170;
+const CAPTION_HEIGHT = 28;
+const LEFT_X = 50;
+const RIGHT_X = 310;
+
+function formatPhotoTime(value: Date | string | null, timezone: string): string {
+  if (!value) return 'Unknown time';
+  return new Date(value).toLocaleString('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function drawPhotoCell(
+  doc: PDFKit.PDFDocument,
+  photo: ComparedPhoto | undefined,
+  image: Buffer | null | undefined,
+  x: number,
+  y: number,
+  timezone: string,
+) {
+  if (!photo) {
+    doc.rect(x, y, COLUMN_WIDTH, IMAGE_HEIGHT).stroke('#e5e7eb');
+    doc.fontSize(9).fillColor('#9ca3af').text('No photo', x, y + IMAGE_HEIGHT / 2 - 5, { width: COLUMN_WIDTH, align: 'center' });
+    doc.fillColor('#000000');
+    return;
+  }
+
+  if (image) {
+    doc.image(image, x, y, { fit: [COLUMN_WIDTH, IMAGE_HEIGHT], align: 'center', valign: 'center' });
+  } else {
+    doc.rect(x, y, COLUMN_WIDTH, IMAGE_HEIGHT).stroke('#e5e7eb');
+    doc.fontSize(9).fillColor('#6b7280').text('Preview unavailable — open photo', x + 10, y + IMAGE_HEIGHT / 2 - 5, {
+      width: COLUMN_WIDTH - 20,
+      align: 'center',
+      link: photo.url,
+      underline: true,
+    });
+    doc.fillColor('#000000');
+  }
+
+  doc.fontSize(8).fillColor('#6b7280');
+  doc.text(formatPhotoTime(photo.uploadedAt, timezone), x, y + IMAGE_HEIGHT + 4, { width: COLUMN_WIDTH });
+  doc.text(`Uploaded by ${photo.uploadedByName || 'Unknown'}`, x, y + IMAGE_HEIGHT + 14, { width: COLUMN_WIDTH });
+  doc.fillColor('#000000');
+}
+
+/**
+ * Draw the comparison onto an open document, starting at the current page.
+ * Shared by the standalone evidence PDF and the damage claim invoice.
+ */
+export function renderPhotoComparison(
+  doc: PDFKit.PDFDocument,
+  comparison: PhotoComparison,
+  images: Map<string, Buffer | null>,
+) {
+  const bottomLimit = () => doc.page.height - doc.page.margins.bottom;
+
+  doc.fontSize(16).font('Helvetica-Bold').text('Check-In vs Check-Out Photos', LEFT_X, doc.y);
+  doc.moveDown(0.5);
+  doc.fontSize(10).font('Helvetica');
+  doc.text(`${comparison.bookingType === 'storage' ? 'Storage' : 'Kitchen'}: ${comparison.spaceName} — ${comparison.locationName}`);
+  if (comparison.bookingReference) doc.text(`Booking Reference: ${comparison.bookingReference}`);
+  doc.text(`Checked in: ${formatPhotoTime(comparison.checkedInAt, comparison.timezone)}`);
+  doc.text(`Checked out: ${formatPhotoTime(comparison.checkedOutAt, comparison.timezone)}`);
+  doc.moveDown(1);
+
+  if (comparison.pairs.length === 0) {
+    doc.fillColor('#6b7280').text('No condition photos were submitted for this booking.');
+    doc.fillColor('#000000');
+    return;
+  }
+
+  const rowHeight = IMAGE_HEIGHT + CAPTION_HEIGHT + 10;
+
+  for (const pair of comparison.pairs) {
+    // Keep a requirement heading together with its first row of photos
+    if (doc.y + 40 + rowHeight > bottomLimit()) doc.addPage();
+
+    doc.fontSize(12).font('Helvetica-Bold').text(pair.label, LEFT_X, doc.y);
+    if (pair.description) {
+      doc.fontSize(9).font('Helvetica').fillColor('#6b7280').text(pair.description, LEFT_X, doc.y, { width: 500 });
+      doc.fillColor('#000000');
+    }
+    doc.moveDown(0.3);
+    const labelY = doc.y;
+    doc.fontSize(9).font('Helvetica-Bold');
+    doc.text('Check-in', LEFT_X, labelY, { width: COLUMN_WIDTH });
+    doc.text('Check-out', RIGHT_X, labelY, { width: COLUMN_WIDTH });
+    doc.font('Helvetica');
+    let rowY = labelY + 14;
+
+    const rows = Math.max(pair.checkin.length, pair.checkout.length);
+    for (let i = 0; i < rows; i++) {
+      if (rowY + rowHeight > bottomLimit()) {
+        doc.addPage();
+        rowY = doc.page.margins.top;
+      }
+      const checkinPhoto = pair.checkin[i];
+      const checkoutPhoto = pair.checkout[i];
+      drawPhotoCell(doc, checkinPhoto, checkinPhoto ? images.get(checkinPhoto.url) : undefined, LEFT_X, rowY, comparison.timezone);
+      drawPhotoCell(doc, checkoutPhoto, checkoutPhoto ? images.get(checkoutPhoto.url) : undefined, RIGHT_X, rowY, comparison.timezone);
+      rowY += rowHeight;
+    }
+
+    doc.y = rowY + 6;
+    doc.x = LEFT_X;
+  }
+}
+
+/**
+ * Render a comparison as a standalone PDF
+ */
+export async function generatePhotoComparisonPDF(comparison: PhotoComparison): Promise<Buffer> {
+  const images = await loadComparisonPhotos(comparison);
+
+  return new Promise((resolve, reject) => {
+    try {
+      const chunks: Buffer[] = [];
+      const doc = new PDFDocument({ margin: 50 });
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+
+      renderPhotoComparison(doc, comparison, images);
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Comparison and photos to append to a damage claim invoice, when the
+ * manager attached a comparison to the claim
+ */
+export async function getClaimComparisonAppendix(claim: {
+  id: number;
+  bookingType: string;
+  kitchenBookingId: number | null;
+  storageBookingId: number | null;
+}): Promise<{ comparison: PhotoComparison; images: Map<string, Buffer | null> } | null> {
+  const [attached] = await db
+    .select({ id: damageEvidence.id })
+    .from(damageEvidence)
+    .where(and(eq(damageEvidence.damageClaimId, claim.id), eq(damageEvidence.evidenceType, 'photo_comparison')))
+    .limit(1);
+  if (!attached) return null;
+
+  const comparison = await getClaimPhotoComparison(claim);
+  if (!comparison || comparison.pairs.length === 0) return null;
+
+  return { comparison, images: await loadComparisonPhotos(comparison) };
+}
+
+// ============================================================================
+// CLAIM EVIDENCE
+// ============================================================================
+
+/**
+ * Generate the comparison PDF for a claim's booking, store it, and attach it
+ * to the claim as `photo_comparison` evidence
+ */
+export async function attachPhotoComparisonToClaim(
+  claimId: number,
+  managerId: number,
+): Promise<{ success: boolean; evidence?: DamageEvidence; error?: string; status?: number }> {
+  try {
+    const [claim] = await db
+      .select()
+      .from(damageClaims)
+      .where(eq(damageClaims.id, claimId))
+      .limit(1);
+
+    if (!claim) return { success: false, error: 'Claim not found', status: 404 };
+    if (claim.managerId !== managerId) return { success: false, error: 'Access denied', status: 403 };
+
+    const comparison = await getClaimPhotoComparison(claim);
+    if (!comparison || comparison.pairs.length === 0) {
+      return { success: false, error: 'This booking has no check-in or check-out photos to compare', status: 400 };
+    }
+
+    const { isR2Configured, uploadToR2 } = await import("../r2-storage");
+    if (!isR2Configured()) {
+      return { success: false, error: 'File storage is not configured', status: 503 };
+    }
+
+    const pdfBuffer = await generatePhotoComparisonPDF(comparison);
+    const fileName = `photo-comparison-${claim.referenceCode || claimId}.pdf`;
+    const fileUrl = await uploadToR2({
+      fieldname: 'photo_comparison',
+      originalname: fileName,
+      mimetype: 'application/pdf',
+      size: pdfBuffer.length,
+      buffer: pdfBuffer,
+    } as Express.Multer.File, managerId, 'damage-claims');
+
+    const { addEvidence } = await import("./damage-claim-service");
+    const photoCount = comparison.pairs.reduce((sum, pair) => sum + pair.checkin.length + pair.checkout.length, 0);
+    const result = await addEvidence(claimId, managerId, {
+      evidenceType: 'photo_comparison',
+      fileUrl,
+      fileName,
+      fileSize: pdfBuffer.length,
+      mimeType: 'application/pdf',
+      description: `Check-in vs check-out comparison (${photoCount} photo${photoCount !== 1 ? 's' : ''})`,
+    });
+
+    if (!result.success) return { success: false, error: result.error, status: 400 };
+
+    logger.info(`[PhotoComparison] Attached comparison to claim ${claimId}`, { evidenceId: result.evidence?.id, photoCount });
+    return { success: true, evidence: result.evidence };
+  } catch (error) {
+    logger.error(`[PhotoComparison] Error attaching comparison to claim ${claimId}:`, error);
+    return { success: false, error: 'Failed to attach photo comparison', status: 500 };
+  }
+}
+
+export const photoComparisonService = {
+  buildConditionPhotoDetails,
+  readConditionPhotos,
+  pairConditionPhotos,
+  getBookingPhotoComparison,
+  getClaimPhotoComparison,
+  generatePhotoComparisonPDF,
+  getClaimComparisonAppendix,
+  attachPhotoComparisonToClaim,
+};
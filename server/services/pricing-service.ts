@@ -7,16 +7,53 @@ import { logger } from "../logger";
  */
 
 import { db } from "../db";
-import { kitchens, platformSettings } from "@shared/schema";
+import { kitchens, platformSettings, type PromoCode } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import {
+  findMatchingPricingRule,
+  getKitchenPricingRules,
+  getRuleHourlyRateCents,
+  toPricingRuleDefinition,
+  type PricingRuleDefinition,
+} from "./kitchen-pricing-rules-service";
+import { getApprovedPromoDiscountCents, getPromoCommissionBaseCents, type AppliedPromo } from "./promo-code-service";
+import { getWalletCreditToApply } from "./chef-wallet-service";
+import { addDaysToDateString } from "@shared/timezone-utils";
+
+export type KitchenPricingModel = 'hourly' | 'daily' | 'weekly';
+export type KitchenRateTier = 'hourly' | 'daily' | 'weekly';
 
 export interface KitchenPricingInfo {
   hourlyRate: number; // in cents
+  dailyRate: number | null; // in cents
+  weeklyRate: number | null; // in cents
+  pricingModel: KitchenPricingModel;
   currency: string;
   minimumBookingHours: number;
   taxRatePercent?: number | null;
 }
 
+/**
+ * One line of kitchen-time pricing, stored on kitchen_bookings.pricing_breakdown
+ * and itemized on invoices.
+ */
+export interface KitchenPriceLineItem {
+  tier: KitchenRateTier;
+  description: string;
+  quantity: number; // hours for 'hourly', days for 'daily', weeks for 'weekly'
+  unitRateCents: number;
+  amountCents: number;
+  pricingRuleId?: number; // Peak/off-peak rule that set the hourly rate
+}
+
+export interface KitchenTierPrice {
+  totalPriceCents: number;
+  rateTier: KitchenRateTier; // Highest tier applied
+  billableHoursPerDay: number;
+  dayCount: number;
+  lineItems: KitchenPriceLineItem[];
+}
+
 export interface BookingDuration {
   hours: number; // decimal hours (e.g., 2.5 for 2 hours 30 minutes)
 }
@@ -25,14 +62,15 @@ export interface BookingDuration {
  * Calculate duration in hours from start and end times
  * @param startTime - HH:MM format (e.g., "09:00")
  * @param endTime - HH:MM format (e.g., "11:30")
- * @returns Duration in decimal hours (e.g., 2.5)
+ * @param endDayOffset - Days after the start date that endTime falls on (1 for an overnight booking)
+ * @returns Duration in decimal hours (e.g., 2.5), counted on the wall clock
  */
-export function calculateDurationHours(startTime: string, endTime: string): number {
+export function calculateDurationHours(startTime: string, endTime: string, endDayOffset: number = 0): number {
   const [startHours, startMinutes] = startTime.split(':').map(Number);
   const [endHours, endMinutes] = endTime.split(':').map(Number);
 
   const startTotalMinutes = startHours * 60 + startMinutes;
-  const endTotalMinutes = endHours * 60 + endMinutes;
+  const endTotalMinutes = endHours * 60 + endMinutes + Math.max(0, endDayOffset) * 24 * 60;
 
   const durationMinutes = endTotalMinutes - startTotalMinutes;
   const durationHours = durationMinutes / 60;
@@ -50,6 +88,9 @@ export async function getKitchenPricing(kitchenId: number): Promise<KitchenPrici
     const [kitchen] = await db
       .select({
         hourlyRate: kitchens.hourlyRate,
+        dailyRate: kitchens.dailyRate,
+        weeklyRate: kitchens.weeklyRate,
+        pricingModel: kitchens.pricingModel,
         currency: kitchens.currency,
         minimumBookingHours: kitchens.minimumBookingHours,
         taxRatePercent: kitchens.taxRatePercent,
@@ -62,9 +103,15 @@ export async function getKitchenPricing(kitchenId: number): Promise<KitchenPrici
     }
 
     const hourlyRateCents = kitchen.hourlyRate ? parseFloat(kitchen.hourlyRate) : 0;
+    const pricingModel = (['hourly', 'daily', 'weekly'].includes(kitchen.pricingModel)
+      ? kitchen.pricingModel
+      : 'hourly') as KitchenPricingModel;
 
     return {
       hourlyRate: hourlyRateCents,
+      dailyRate: kitchen.dailyRate ? parseFloat(kitchen.dailyRate) : null,
+      weeklyRate: kitchen.weeklyRate ? parseFloat(kitchen.weeklyRate) : null,
+      pricingModel,
       currency: kitchen.currency || 'CAD',
       minimumBookingHours: kitchen.minimumBookingHours || 1,
       taxRatePercent: kitchen.taxRatePercent ? parseFloat(kitchen.taxRatePercent) : null,
@@ -75,17 +122,306 @@ export async function getKitchenPricing(kitchenId: number): Promise<KitchenPrici
   }
 }
 
+/**
+ * One billable slot of a day's booking, used to evaluate peak/off-peak rules.
+ */
+export interface KitchenTimeSlot {
+  startTime: string; // HH:MM
+  hours: number; // 1 for a full slot; less for a trailing partial hour
+  date?: string; // YYYY-MM-DD when the slot falls on a later day than its billing day (overnight)
+}
+
+/**
+ * Peak/off-peak context for priceKitchenTime. One date per booked day; the
+ * same slots are booked on each date unless slotsByDay gives each day its own.
+ */
+export interface KitchenPricingRuleContext {
+  rules: PricingRuleDefinition[];
+  dates: string[]; // YYYY-MM-DD
+  slots: KitchenTimeSlot[];
+  slotsByDay?: KitchenTimeSlot[][];
+}
+
+/**
+ * Split a booking window into 1-hour slots (the last one may be partial).
+ */
+export function toKitchenTimeSlots(
+  startTime: string,
+  endTime: string,
+  selectedSlots?: Array<{ startTime: string; endTime: string }>
+): KitchenTimeSlot[] {
+  const ranges = selectedSlots && selectedSlots.length > 0 ? selectedSlots : [{ startTime, endTime }];
+  const slots: KitchenTimeSlot[] = [];
+  for (const range of ranges) {
+    const [startH, startM] = range.startTime.split(':').map(Number);
+    const [endH, endM] = range.endTime.split(':').map(Number);
+    const endMinutes = endH * 60 + endM;
+    for (let mins = startH * 60 + startM; mins < endMinutes; mins += 60) {
+      slots.push({
+        startTime: `${Math.floor(mins / 60).toString().padStart(2, '0')}:${(mins % 60).toString().padStart(2, '0')}`,
+        hours: Math.min(60, endMinutes - mins) / 60,
+      });
+    }
+  }
+  return slots;
+}
+
+/**
+ * One 24-hour billing period of a continuous overnight/multi-day booking.
+ */
+export interface KitchenSpanPeriod {
+  date: string; // YYYY-MM-DD the period starts on
+  hours: number;
+  slots: KitchenTimeSlot[];
+}
+
+/**
+ * Split a continuous booking into 24-hour periods counted from its start, so
+ * a 10pm-4am run is one period and a 72-hour prep is three. Slots carry the
+ * calendar date they fall on for peak/off-peak rules.
+ */
+export function toKitchenSpanPeriods(startDate: string, startTime: string, totalHours: number): KitchenSpanPeriod[] {
+  const [startH, startM] = startTime.split(':').map(Number);
+  const startMinutes = startH * 60 + startM;
+  const totalMinutes = Math.round(totalHours * 60);
+  const periods: KitchenSpanPeriod[] = [];
+  for (let offset = 0; offset < totalMinutes; offset += 60) {
+    const periodIndex = Math.floor(offset / (24 * 60));
+    if (!periods[periodIndex]) {
+      periods[periodIndex] = {
+        date: addDaysToDateString(startDate, Math.floor((startMinutes + periodIndex * 24 * 60) / (24 * 60))),
+        hours: 0,
+        slots: [],
+      };
+    }
+    const absolute = startMinutes + offset;
+    const minuteOfDay = absolute % (24 * 60);
+    const hours = Math.min(60, totalMinutes - offset) / 60;
+    periods[periodIndex].hours += hours;
+    periods[periodIndex].slots.push({
+      startTime: `${Math.floor(minuteOfDay / 60).toString().padStart(2, '0')}:${(minuteOfDay % 60).toString().padStart(2, '0')}`,
+      hours,
+      date: addDaysToDateString(startDate, Math.floor(absolute / (24 * 60))),
+    });
+  }
+  return periods;
+}
+
+interface HourlySegment {
+  ruleId: number | null; // null = base hourly rate
+  label: string;
+  hours: number;
+  unitRateCents: number;
+  amountCents: number;
+}
+
+/**
+ * Hourly price of one day, slot by slot. Minimum-hours padding is charged at
+ * the base rate since it isn't tied to a time of day.
+ */
+function priceDayHourly(
+  baseHourlyRate: number,
+  billableHours: number,
+  dateStr: string | null,
+  ruleContext?: KitchenPricingRuleContext,
+  slots: KitchenTimeSlot[] = ruleContext?.slots ?? []
+): HourlySegment[] {
+  const segments = new Map<number | null, HourlySegment>();
+  const add = (ruleId: number | null, label: string, hours: number, unitRateCents: number) => {
+    const segment = segments.get(ruleId) ?? { ruleId, label, hours: 0, unitRateCents, amountCents: 0 };
+    segment.hours += hours;
+    segment.amountCents += Math.round(unitRateCents * hours);
+    segments.set(ruleId, segment);
+  };
+
+  let slotHours = 0;
+  if (dateStr && ruleContext && ruleContext.rules.length > 0) {
+    for (const slot of slots) {
+      const rule = findMatchingPricingRule(ruleContext.rules, slot.date ?? dateStr, slot.startTime);
+      if (rule) {
+        add(rule.id, rule.name, slot.hours, getRuleHourlyRateCents(rule, baseHourlyRate));
+      } else {
+        add(null, 'Hourly rate', slot.hours, baseHourlyRate);
+      }
+      slotHours += slot.hours;
+    }
+  }
+  if (billableHours > slotHours) {
+    add(null, 'Hourly rate', billableHours - slotHours, baseHourlyRate);
+  }
+  return Array.from(segments.values());
+}
+
+/**
+ * Price kitchen time across rate tiers, picking the cheapest valid combination.
+ *
+ * - Each day costs its hourly total (minimum hours applied, peak/off-peak rules
+ *   evaluated per slot), capped at the daily rate when one is set. Kitchens on
+ *   the 'daily' model charge the daily rate per day regardless of hours.
+ * - With a weekly rate, every run of 7 days costs at most one week, and the
+ *   leftover days are capped at one more week. Kitchens on the 'weekly' model
+ *   always bill full weeks at the weekly rate.
+ *
+ * Pure function — no database access.
+ * @param rates - Kitchen rate card (cents)
+ * @param hoursPerDay - Booked hours per day (slot count for staggered bookings), or one
+ *   entry per 24-hour period of a continuous overnight/multi-day booking
+ * @param dayCount - Number of days booked (1 for a single session; ignored when ruleContext has dates)
+ * @param ruleContext - Peak/off-peak rules with the booked dates and slots
+ */
+export function priceKitchenTime(
+  rates: Pick<KitchenPricingInfo, 'hourlyRate' | 'dailyRate' | 'weeklyRate' | 'pricingModel' | 'minimumBookingHours'>,
+  hoursPerDay: number | number[],
+  dayCount: number = 1,
+  ruleContext?: KitchenPricingRuleContext
+): KitchenTierPrice {
+  const dates = ruleContext && ruleContext.dates.length > 0 ? ruleContext.dates : null;
+  const periodHours = Array.isArray(hoursPerDay) ? hoursPerDay : null;
+  const days = periodHours ? periodHours.length : dates ? dates.length : Math.max(1, Math.floor(dayCount));
+  // The minimum applies once per booking: to every day of a series, to the first period of a span
+  const billableHours = Math.max(periodHours ? periodHours[0] ?? 0 : hoursPerDay as number, rates.minimumBookingHours || 0);
+  const dailyRate = rates.dailyRate && rates.dailyRate > 0 ? rates.dailyRate : null;
+  const weeklyRate = rates.weeklyRate && rates.weeklyRate > 0 ? rates.weeklyRate : null;
+
+  // Cheapest price for each day, and which tier produced it
+  const dayPrices = Array.from({ length: days }, (_, i) => {
+    const dayHours = periodHours && i > 0 ? periodHours[i] : billableHours;
+    const segments = rates.hourlyRate > 0
+      ? priceDayHourly(rates.hourlyRate, dayHours, dates ? dates[i] : null, ruleContext, ruleContext?.slotsByDay?.[i])
+      : [];
+    const hourlyCents = segments.length > 0 ? segments.reduce((sum, s) => sum + s.amountCents, 0) : null;
+    if (dailyRate !== null && (rates.pricingModel !== 'hourly' || hourlyCents === null || dailyRate < hourlyCents)) {
+      return { tier: 'daily' as const, cents: dailyRate as number | null, segments: [] as HourlySegment[] };
+    }
+    return { tier: 'hourly' as const, cents: hourlyCents, segments };
+  });
+
+  const empty: KitchenTierPrice = { totalPriceCents: 0, rateTier: 'hourly', billableHoursPerDay: billableHours, dayCount: days, lineItems: [] };
+  if (dayPrices.every((d) => d.cents === null) && weeklyRate === null) return empty;
+
+  // Group days into runs of 7; a run is billed as a week when that is cheaper
+  let weeks = 0;
+  const billedDays: typeof dayPrices = [];
+  for (let start = 0; start < days; start += 7) {
+    const run = dayPrices.slice(start, start + 7);
+    const runViaDays = run.reduce((sum, d) => sum + (d.cents ?? Infinity), 0);
+    const useWeek = weeklyRate !== null && (
+      runViaDays > weeklyRate || (rates.pricingModel === 'weekly' && run.length === 7)
+    );
+    if (useWeek) {
+      weeks += 1;
+    } else {
+      billedDays.push(...run);
+    }
+  }
+
+  const lineItems: KitchenPriceLineItem[] = [];
+  if (weeks > 0) {
+    lineItems.push({
+      tier: 'weekly',
+      description: `Weekly rate (${weeks} week${weeks !== 1 ? 's' : ''})`,
+      quantity: weeks,
+      unitRateCents: weeklyRate!,
+      amountCents: weeklyRate! * weeks,
+    });
+  }
+
+  const dailyCount = billedDays.filter((d) => d.tier === 'daily').length;
+  if (dailyCount > 0) {
+    lineItems.push({
+      tier: 'daily',
+      description: `Daily rate (${dailyCount} day${dailyCount !== 1 ? 's' : ''})`,
+      quantity: dailyCount,
+      unitRateCents: dailyRate!,
+      amountCents: dailyRate! * dailyCount,
+    });
+  }
+
+  // Hourly days: merge segments across days (base rate first, then rules)
+  const hourly = new Map<number | null, HourlySegment>();
+  for (const day of billedDays) {
+    for (const segment of day.segments) {
+      const merged = hourly.get(segment.ruleId);
+      if (merged) {
+        merged.hours += segment.hours;
+        merged.amountCents += segment.amountCents;
+      } else {
+        hourly.set(segment.ruleId, { ...segment });
+      }
+    }
+  }
+  const hourlySegments = Array.from(hourly.values())
+    .sort((a, b) => (a.ruleId === null ? -1 : b.ruleId === null ? 1 : 0));
+  for (const segment of hourlySegments) {
+    const hours = Math.round(segment.hours * 100) / 100;
+    lineItems.push({
+      tier: 'hourly',
+      description: `${segment.label} (${hours} hr${hours !== 1 ? 's' : ''})`,
+      quantity: hours,
+      unitRateCents: segment.unitRateCents,
+      amountCents: segment.amountCents,
+      ...(segment.ruleId !== null ? { pricingRuleId: segment.ruleId } : {}),
+    });
+  }
+
+  const rateTier: KitchenRateTier = weeks > 0 ? 'weekly' : dailyCount > 0 ? 'daily' : 'hourly';
+  return {
+    totalPriceCents: lineItems.reduce((sum, item) => sum + item.amountCents, 0),
+    rateTier,
+    billableHoursPerDay: billableHours,
+    dayCount: days,
+    lineItems,
+  };
+}
+
+/**
+ * Scale a kitchen-time price to several stations booked together. Every
+ * station is charged the full rate, so each line item is multiplied and
+ * labelled with the station count.
+ *
+ * Pure function — no database access.
+ */
+export function priceForStations(price: KitchenTierPrice, stationCount: number): KitchenTierPrice {
+  const stations = Math.max(1, Math.floor(stationCount));
+  if (stations === 1) return price;
+  return {
+    ...price,
+    totalPriceCents: price.totalPriceCents * stations,
+    lineItems: price.lineItems.map((item) => ({
+      ...item,
+      description: `${item.description} × ${stations} stations`,
+      quantity: item.quantity * stations,
+      amountCents: item.amountCents * stations,
+    })),
+  };
+}
+
 /**
  * Calculate kitchen booking price
  * @param kitchenId - Kitchen ID
  * @param startTime - HH:MM format
  * @param endTime - HH:MM format
- * @returns Object with price in cents, duration in hours, and hourly rate
+ * @param options.slotCount - Staggered bookings: number of 1-hour slots (overrides start/end duration)
+ * @param options.dayCount - Multi-day bookings: number of consecutive days at this daily window
+ * @param options.bookingDates - Booked date(s), one per day; enables peak/off-peak rules
+ * @param options.selectedSlots - Staggered slots, priced slot-by-slot against the rules
+ * @param options.endDayOffset - Overnight/multi-day bookings: days after the start date that endTime
+ *   falls on. The booking is priced as one continuous run in 24-hour periods.
+ * @param options.stationCount - Stations booked together; each one is charged the full rate
+ * @returns Object with price in cents, duration in hours, rates and the tier breakdown
  */
 export async function calculateKitchenBookingPrice(
   kitchenId: number,
   startTime: string,
-  endTime: string
+  endTime: string,
+  options?: {
+    slotCount?: number;
+    dayCount?: number;
+    bookingDates?: Array<Date | string>;
+    selectedSlots?: Array<{ startTime: string; endTime: string }>;
+    endDayOffset?: number;
+    stationCount?: number;
+  }
 ): Promise<{
   totalPriceCents: number;
   durationHours: number;
@@ -93,50 +429,111 @@ export async function calculateKitchenBookingPrice(
   currency: string;
   taxRatePercent: number | null;
   taxAmountCents: number;
+  rateTier: KitchenRateTier;
+  dayCount: number;
+  lineItems: KitchenPriceLineItem[];
 }> {
   try {
     // Get kitchen pricing
     const pricing = await getKitchenPricing(kitchenId);
 
-    if (!pricing || !pricing.hourlyRate || pricing.hourlyRate <= 0) {
-      // No pricing set - return zero price
-      const durationHours = calculateDurationHours(startTime, endTime);
+    const selectedSlots = options?.selectedSlots && options.selectedSlots.length > 0
+      ? options.selectedSlots
+      : undefined;
+    const slotCount = options?.slotCount ?? selectedSlots?.length;
+    const endDayOffset = Math.max(0, options?.endDayOffset ?? 0);
+    const bookedHours = slotCount && slotCount > 0
+      ? slotCount
+      : calculateDurationHours(startTime, endTime, endDayOffset);
+    const bookingDates = (options?.bookingDates || []).map((d) =>
+      typeof d === 'string' ? d.split('T')[0] : d.toISOString().split('T')[0]
+    );
+    // A continuous run past midnight is billed in 24-hour periods from its start
+    const spanPeriods = endDayOffset > 0 && !(slotCount && slotCount > 0)
+      ? toKitchenSpanPeriods(bookingDates[0] ?? new Date().toISOString().split('T')[0], startTime, bookedHours)
+      : null;
+    const dayCount = spanPeriods
+      ? Math.max(1, spanPeriods.length)
+      : Math.max(1, options?.dayCount ?? (bookingDates.length || 1));
+
+    if (!pricing) {
       return {
         totalPriceCents: 0,
-        durationHours,
+        durationHours: bookedHours,
         hourlyRateCents: 0,
-        currency: pricing?.currency || 'CAD',
-        taxRatePercent: pricing?.taxRatePercent ?? null,
+        currency: 'CAD',
+        taxRatePercent: null,
         taxAmountCents: 0,
+        rateTier: 'hourly',
+        dayCount,
+        lineItems: [],
       };
     }
 
-    // Calculate duration
-    const durationHours = calculateDurationHours(startTime, endTime);
-
-    // Enforce minimum booking hours
-    const effectiveDuration = Math.max(durationHours, pricing.minimumBookingHours);
+    // Peak/off-peak rules need the booked dates to resolve day-of-week and validity
+    let ruleContext: KitchenPricingRuleContext | undefined;
+    if (bookingDates.length > 0) {
+      const rules = await getKitchenPricingRules(kitchenId, { activeOnly: true });
+      if (rules.length > 0 && spanPeriods) {
+        ruleContext = {
+          rules: rules.map(toPricingRuleDefinition),
+          dates: spanPeriods.map((period) => period.date),
+          slots: [],
+          slotsByDay: spanPeriods.map((period) => period.slots),
+        };
+      } else if (rules.length > 0) {
+        ruleContext = {
+          rules: rules.map(toPricingRuleDefinition),
+          // A single date with dayCount > 1 is the first day of a consecutive stay
+          dates: bookingDates.length === 1 && dayCount > 1
+            ? Array.from({ length: dayCount }, (_, i) =>
+                new Date(Date.parse(`${bookingDates[0]}T12:00:00Z`) + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0])
+            : bookingDates,
+          slots: toKitchenTimeSlots(startTime, endTime, selectedSlots),
+        };
+      }
+    }
 
-    // Calculate total price (hourly rate × duration)
     // Note: This is the SUB-TOTAL before fees and taxes
-    const basePriceCents = Math.round(pricing.hourlyRate * effectiveDuration);
+    const tierPrice = priceForStations(
+      priceKitchenTime(
+        pricing,
+        spanPeriods ? spanPeriods.map((period) => period.hours) : bookedHours,
+        dayCount,
+        ruleContext
+      ),
+      options?.stationCount ?? 1
+    );
+    if (tierPrice.totalPriceCents <= 0) {
+      // No pricing set - return zero price
+      return {
+        totalPriceCents: 0,
+        durationHours: bookedHours,
+        hourlyRateCents: 0,
+        currency: pricing.currency,
+        taxRatePercent: pricing.taxRatePercent ?? null,
+        taxAmountCents: 0,
+        rateTier: 'hourly',
+        dayCount,
+        lineItems: [],
+      };
+    }
 
     // Calculate Tax
-    const taxAmountCents = calculateTax(basePriceCents, pricing.taxRatePercent ?? null);
-
-    // Note: calculateKitchenBookingPrice traditionally returned just the base price for the booking
-    // But to be enterprise-grade, we should probably return the components.
-    // However, existing callers might expect 'totalPriceCents' to be the base booking cost.
-    // Let's check callers. Most callers seem to take this result and then call calculateTotalWithFees.
-    // So we should return the components needed for that.
+    const taxAmountCents = calculateTax(tierPrice.totalPriceCents, pricing.taxRatePercent ?? null);
 
     return {
-      totalPriceCents: basePriceCents, // This is the subtotal
-      durationHours: effectiveDuration,
+      totalPriceCents: tierPrice.totalPriceCents, // This is the subtotal
+      durationHours: spanPeriods
+        ? Math.max(bookedHours, pricing.minimumBookingHours || 0)
+        : tierPrice.billableHoursPerDay,
       hourlyRateCents: pricing.hourlyRate,
       currency: pricing.currency,
       taxRatePercent: pricing.taxRatePercent ?? null,
-      taxAmountCents, // New field
+      taxAmountCents,
+      rateTier: tierPrice.rateTier,
+      dayCount,
+      lineItems: tierPrice.lineItems,
     };
   } catch (error) {
     logger.error('Error calculating kitchen booking price:', error);
@@ -144,6 +541,89 @@ export async function calculateKitchenBookingPrice(
   }
 }
 
+/**
+ * Kitchen-only price of a stored booking (excludes storage/equipment add-ons).
+ * Uses the stored tier breakdown when present; older bookings fall back to
+ * hourly rate × duration.
+ */
+export function getKitchenOnlyPriceCents(booking: {
+  pricingBreakdown?: unknown;
+  hourlyRate?: string | number | null;
+  durationHours?: string | number | null;
+}): number {
+  if (Array.isArray(booking.pricingBreakdown) && booking.pricingBreakdown.length > 0) {
+    return (booking.pricingBreakdown as KitchenPriceLineItem[])
+      .reduce((sum, item) => sum + (Number(item.amountCents) || 0), 0);
+  }
+  const hourlyRate = booking.hourlyRate ? parseFloat(booking.hourlyRate.toString()) : 0;
+  const durationHours = booking.durationHours ? parseFloat(booking.durationHours.toString()) : 0;
+  return Math.round(hourlyRate * durationHours);
+}
+
+/**
+ * Amounts captured when a manager approves an authorized booking.
+ */
+export interface ApprovalCapture {
+  kitchenOnlyPriceCents: number;
+  promoDiscountCents: number;
+  approvedSubtotalCents: number; // Kitchen + approved storage/equipment − promo, pre-tax
+  approvedTaxCents: number;
+  walletCents: number; // Wallet credit the approved total still uses
+  captureAmountCents: number; // Approved total less wallet credit — charged to the card
+  authorizedAmountCents: number; // What checkout put on hold
+}
+
+/** Discounts applied at checkout, from the payment transaction's metadata */
+export interface ApprovalAdjustments {
+  promo?: Pick<AppliedPromo, "discountCents" | "subtotalBeforeDiscountCents"> | null;
+  /** The promo's code row, to re-apply it when add-ons are rejected (null if deleted) */
+  promoCode?: Pick<PromoCode, "discountType" | "discountValue" | "maxDiscountCents"> | null;
+  /** Wallet credit held at checkout — it lowered the authorization */
+  walletAppliedCents?: number;
+}
+
+/**
+ * Amount to capture on approval: the kitchen price quoted at checkout (from
+ * the stored tier breakdown, so daily/weekly and peak pricing are honored)
+ * plus the approved add-ons, less the promo discount, with the kitchen's tax
+ * rate on top — the same order checkout applies them in. Wallet credit pays
+ * what it can of that total (it shrinks with it when add-ons are rejected)
+ * and the card the rest. The authorized amount is rebuilt from the stored
+ * (discounted) total the same way.
+ */
+export function calculateApprovalCapture(
+  booking: Parameters<typeof getKitchenOnlyPriceCents>[0] & { totalPrice?: string | number | null },
+  approvedAddOnCents: number,
+  taxRatePercent: number,
+  adjustments: ApprovalAdjustments = {}
+): ApprovalCapture {
+  const kitchenOnlyPriceCents = getKitchenOnlyPriceCents(booking);
+  const beforeDiscountCents = kitchenOnlyPriceCents + approvedAddOnCents;
+  const promoDiscountCents = adjustments.promo
+    ? getApprovedPromoDiscountCents(adjustments.promo, beforeDiscountCents, adjustments.promoCode ?? null)
+    : 0;
+  const approvedSubtotalCents = beforeDiscountCents - promoDiscountCents;
+  const approvedTaxCents = Math.round((approvedSubtotalCents * taxRatePercent) / 100);
+
+  const walletAppliedCents = adjustments.walletAppliedCents ?? 0;
+  const walletCents = getWalletCreditToApply(walletAppliedCents, approvedSubtotalCents + approvedTaxCents);
+
+  const authorizedSubtotalCents = Math.round(parseFloat(String(booking.totalPrice ?? "0")) || 0);
+  const authorizedAmountCents = authorizedSubtotalCents
+    + Math.round((authorizedSubtotalCents * taxRatePercent) / 100)
+    - walletAppliedCents;
+
+  return {
+    kitchenOnlyPriceCents,
+    promoDiscountCents,
+    approvedSubtotalCents,
+    approvedTaxCents,
+    walletCents,
+    captureAmountCents: approvedSubtotalCents + approvedTaxCents - walletCents,
+    authorizedAmountCents,
+  };
+}
+
 /**
  * Get service fee rate from platform settings
  * @returns Service fee rate as decimal (e.g., 0.05 for 5%), defaults to 0.05 if not found
@@ -185,17 +665,20 @@ export function calculatePlatformFee(basePriceCents: number, commissionRate: num
 
 /**
  * Calculate platform service fee with dynamic rate from database
- * @param basePriceCents - Base price in cents
+ * @param basePriceCents - Base price in cents (after any promo discount)
+ * @param promo - Promo discount applied; a platform-funded discount is added back
+ *   so the fee is taken on the pre-discount price
  * @returns Service fee in cents
  */
 export async function calculatePlatformFeeDynamic(
-  basePriceCents: number
+  basePriceCents: number,
+  promo?: Pick<AppliedPromo, "discountCents" | "absorbedBy"> | null
 ): Promise<number> {
   // NOTE: The instruction provided `dbPool` here, but `db` is the imported Drizzle instance.
   // Assuming `dbPool` was a typo and `db` should be used, or `getServiceFeeRate`
   // would need to be updated to accept a parameter. Sticking to existing `getServiceFeeRate` signature.
   const rate = await getServiceFeeRate();
-  return calculatePlatformFee(basePriceCents, rate);
+  return calculatePlatformFee(getPromoCommissionBaseCents(basePriceCents, promo), rate);
 }
 
 /**
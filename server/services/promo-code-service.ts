@@ -0,0 +1,520 @@
+import { logger } from "../logger";
+/**
+ * Promo Code Service — Discount Codes at Kitchen Booking Checkout
+ *
+ * A code takes a percentage or a fixed amount off the pre-tax subtotal
+ * (kitchen time + add-ons); tax is then charged on the discounted subtotal.
+ *
+ * Who funds the discount (`absorbedBy`):
+ *   - 'manager':  the manager is paid from the discounted charge, and the
+ *                 platform commission is taken on the discounted price.
+ *   - 'platform': the manager is paid as if no discount applied. The platform
+ *                 commission is taken on the pre-discount price and the
+ *                 platform tops up the manager's transfer from its balance.
+ *
+ * Checkout reserves one use of the code for its Stripe session, so concurrent
+ * checkouts can't overshoot the usage caps. The webhook completes the
+ * reservation once payment is authorized; an abandoned checkout's reservation
+ * is released when the session expires. A booking that is later cancelled or
+ * rejected gives its use back.
+ */
+
+import { db } from "../db";
+import { kitchenBookings, promoCodes, promoCodeRedemptions, type PromoCode } from "@shared/schema";
+import { and, count, desc, eq, isNull, lt, ne, or, sql } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PromoDiscountType = "percent" | "fixed";
+export type PromoAbsorbedBy = "platform" | "manager";
+
+export interface PromoCodeInput {
+  code: string;
+  description?: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number; // Percent (1-100) or cents
+  maxDiscountCents?: number | null;
+  minSubtotalCents?: number | null;
+  locationId?: number | null;
+  absorbedBy: PromoAbsorbedBy;
+  maxRedemptions?: number | null;
+  perChefLimit?: number | null;
+  startsAt?: string | null; // ISO timestamp
+  expiresAt?: string | null; // ISO timestamp
+  isActive?: boolean;
+}
+
+/** Discount applied to a checkout — carried through Stripe metadata into payment_transactions */
+export interface AppliedPromo {
+  promoCodeId: number;
+  code: string;
+  discountCents: number;
+  absorbedBy: PromoAbsorbedBy;
+  subtotalBeforeDiscountCents: number;
+  redemptionId?: number; // Use reserved for the checkout session
+}
+
+/** `promo` entry in payment_transactions.metadata */
+export interface PromoTransactionMetadata extends AppliedPromo {
+  /** Amount the customer was charged (after discount, incl. tax) — used to prorate partial captures */
+  totalChargedCents: number;
+}
+
+export type PromoValidationResult =
+  | { valid: true; promo: AppliedPromo }
+  | { valid: false; error: string };
+
+export interface PromoEligibilityContext {
+  locationId: number;
+  subtotalCents: number;
+  redemptionCount: number;
+  chefRedemptionCount: number;
+  now?: Date;
+}
+
+type DbExecutor = Pick<typeof db, "select">;
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+/** Checkout sessions that reserve a code expire after this long (Stripe allows 30 min – 24 h) */
+export const PROMO_RESERVATION_MINUTES = 60;
+
+/** Slack before an abandoned reservation is released, so a session completing at expiry still finds it */
+const RESERVATION_RELEASE_GRACE_MINUTES = 15;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function normalizePromoCode(code: string): string {
+  return (code || "").trim().toUpperCase();
+}
+
+/**
+ * Validate an admin-submitted promo code. Returns an error message, or null when valid.
+ */
+export function validatePromoCodeInput(input: PromoCodeInput): string | null {
+  if (!CODE_PATTERN.test(normalizePromoCode(input.code))) {
+    return "Code must be 3-32 characters: letters, numbers, dashes or underscores";
+  }
+  if (input.discountType === "percent") {
+    if (!Number.isFinite(input.discountValue) || input.discountValue <= 0 || input.discountValue > 100) {
+      return "Percent discount must be between 0 and 100";
+    }
+  } else if (input.discountType === "fixed") {
+    if (!Number.isInteger(input.discountValue) || input.discountValue <= 0) {
+      return "Fixed discount must be a whole number of cents greater than 0";
+    }
+  } else {
+    return "Discount type must be 'percent' or 'fixed'";
+  }
+  if (input.absorbedBy !== "platform" && input.absorbedBy !== "manager") {
+    return "Absorbed by must be 'platform' or 'manager'";
+  }
+  if (input.absorbedBy === "manager" && !input.locationId) {
+    return "Manager-funded codes must be limited to a location";
+  }
+  for (const [label, value] of [
+    ["Maximum discount", input.maxDiscountCents],
+    ["Minimum subtotal", input.minSubtotalCents],
+    ["Maximum redemptions", input.maxRedemptions],
+    ["Per-chef limit", input.perChefLimit],
+  ] as const) {
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+      return `${label} must be a whole number (0 or more)`;
+    }
+  }
+  const startsAt = input.startsAt ? new Date(input.startsAt) : null;
+  const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+  if ((startsAt && isNaN(startsAt.getTime())) || (expiresAt && isNaN(expiresAt.getTime()))) {
+    return "Start and expiry must be valid dates";
+  }
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    return "Expiry must be after the start date";
+  }
+  return null;
+}
+
+/**
+ * Discount (cents) a code takes off a pre-tax subtotal. Never exceeds the subtotal.
+ */
+export function calculatePromoDiscountCents(
+  promo: Pick<PromoCode, "discountType" | "discountValue" | "maxDiscountCents">,
+  subtotalCents: number
+): number {
+  if (subtotalCents <= 0) return 0;
+  const value = parseFloat(String(promo.discountValue)) || 0;
+  let discountCents = promo.discountType === "percent"
+    ? Math.round((subtotalCents * value) / 100)
+    : Math.round(value);
+  if (promo.maxDiscountCents !== null && promo.maxDiscountCents !== undefined) {
+    discountCents = Math.min(discountCents, promo.maxDiscountCents);
+  }
+  return Math.max(0, Math.min(discountCents, subtotalCents));
+}
+
+/**
+ * Check whether a code can be redeemed. Returns an error message, or null when eligible.
+ */
+export function checkPromoEligibility(promo: PromoCode, context: PromoEligibilityContext): string | null {
+  const now = context.now ?? new Date();
+  if (!promo.isActive) {
+    return "This promo code is no longer active";
+  }
+  if (promo.startsAt && now < promo.startsAt) {
+    return "This promo code is not active yet";
+  }
+  if (promo.expiresAt && now >= promo.expiresAt) {
+    return "This promo code has expired";
+  }
+  if (promo.locationId !== null && promo.locationId !== context.locationId) {
+    return "This promo code is not valid at this location";
+  }
+  if (promo.maxRedemptions !== null && context.redemptionCount >= promo.maxRedemptions) {
+    return "This promo code has reached its usage limit";
+  }
+  if (promo.perChefLimit !== null && context.chefRedemptionCount >= promo.perChefLimit) {
+    return "You have already used this promo code the maximum number of times";
+  }
+  if (promo.minSubtotalCents !== null && context.subtotalCents < promo.minSubtotalCents) {
+    return `This promo code requires a subtotal of at least $${(promo.minSubtotalCents / 100).toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Price the platform commission is taken on. A platform-funded discount does
+ * not reduce the manager's share, so commission is on the pre-discount price.
+ */
+export function getPromoCommissionBaseCents(
+  chargedCents: number,
+  promo?: Pick<AppliedPromo, "discountCents" | "absorbedBy"> | null
+): number {
+  if (promo && promo.absorbedBy === "platform" && promo.discountCents > 0) {
+    return chargedCents + promo.discountCents;
+  }
+  return chargedCents;
+}
+
+/**
+ * Platform-funded discount owed to the manager for a captured charge,
+ * prorated when less than the full amount was captured.
+ */
+export function getPromoTopUpCents(promo: PromoTransactionMetadata, capturedCents: number): number {
+  if (promo.absorbedBy !== "platform" || promo.discountCents <= 0) return 0;
+  if (!promo.totalChargedCents || promo.totalChargedCents <= 0) return promo.discountCents;
+  return Math.min(
+    promo.discountCents,
+    Math.round((promo.discountCents * capturedCents) / promo.totalChargedCents)
+  );
+}
+
+/**
+ * Discount on the subtotal a manager approves. It is the checkout discount
+ * unless add-ons were rejected; then the code is applied again to the smaller
+ * subtotal (never more than quoted), or the quote is prorated when the code
+ * has since been deleted. Like checkout, it never covers the whole subtotal.
+ */
+export function getApprovedPromoDiscountCents(
+  promo: Pick<AppliedPromo, "discountCents" | "subtotalBeforeDiscountCents">,
+  approvedSubtotalCents: number,
+  code: Pick<PromoCode, "discountType" | "discountValue" | "maxDiscountCents"> | null
+): number {
+  let discountCents = promo.discountCents;
+  if (approvedSubtotalCents < promo.subtotalBeforeDiscountCents) {
+    discountCents = code
+      ? Math.min(promo.discountCents, calculatePromoDiscountCents(code, approvedSubtotalCents))
+      : Math.round((promo.discountCents * approvedSubtotalCents) / promo.subtotalBeforeDiscountCents);
+  }
+  return Math.max(0, Math.min(discountCents, approvedSubtotalCents - 1));
+}
+
+// ============================================================================
+// REDEMPTION
+// ============================================================================
+
+async function getRedemptionCounts(promoCodeId: number, chefId: number, executor: DbExecutor = db) {
+  const [row] = await executor
+    .select({
+      total: count(),
+      forChef: sql<number>`count(*) filter (where ${promoCodeRedemptions.chefId} = ${chefId})`,
+    })
+    .from(promoCodeRedemptions)
+    .leftJoin(kitchenBookings, eq(kitchenBookings.id, promoCodeRedemptions.bookingId))
+    .where(and(
+      eq(promoCodeRedemptions.promoCodeId, promoCodeId),
+      ne(promoCodeRedemptions.status, "released"),
+      or(isNull(kitchenBookings.id), ne(kitchenBookings.status, "cancelled"))
+    ));
+  return {
+    redemptionCount: Number(row?.total ?? 0),
+    chefRedemptionCount: Number(row?.forChef ?? 0),
+  };
+}
+
+export async function getPromoCodeByCode(code: string): Promise<PromoCode | null> {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) return null;
+  const [promo] = await db
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.code, normalized))
+    .limit(1);
+  return promo || null;
+}
+
+/** Check a code against its usage so far and compute the discount */
+function evaluatePromoCode(
+  promo: PromoCode,
+  counts: { redemptionCount: number; chefRedemptionCount: number },
+  params: { locationId: number; subtotalCents: number }
+): PromoValidationResult {
+  const error = checkPromoEligibility(promo, {
+    locationId: params.locationId,
+    subtotalCents: params.subtotalCents,
+    ...counts,
+  });
+  if (error) {
+    return { valid: false, error };
+  }
+
+  const discountCents = calculatePromoDiscountCents(promo, params.subtotalCents);
+  if (discountCents <= 0) {
+    return { valid: false, error: "This promo code does not apply to this booking" };
+  }
+  // Stripe needs a non-zero charge — a code can't make a booking free
+  if (discountCents >= params.subtotalCents) {
+    return { valid: false, error: "This promo code cannot cover the full booking price" };
+  }
+
+  return {
+    valid: true,
+    promo: {
+      promoCodeId: promo.id,
+      code: promo.code,
+      discountCents,
+      absorbedBy: promo.absorbedBy as PromoAbsorbedBy,
+      subtotalBeforeDiscountCents: params.subtotalCents,
+    },
+  };
+}
+
+/**
+ * Validate a code for a chef's booking and compute the discount (preview —
+ * checkout reserves the use with reservePromoRedemption).
+ * @param subtotalCents - Pre-tax subtotal (kitchen time + add-ons)
+ */
+export async function validatePromoCodeForBooking(params: {
+  code: string;
+  chefId: number;
+  locationId: number;
+  subtotalCents: number;
+}): Promise<PromoValidationResult> {
+  const promo = await getPromoCodeByCode(params.code);
+  if (!promo) {
+    return { valid: false, error: "Promo code not found" };
+  }
+
+  const counts = await getRedemptionCounts(promo.id, params.chefId);
+  return evaluatePromoCode(promo, counts, params);
+}
+
+/**
+ * Validate a code at checkout and reserve one use of it for the session.
+ * The code's row is locked while its uses are counted, so concurrent
+ * checkouts can't overshoot maxRedemptions or perChefLimit. The reservation
+ * counts against the caps until the webhook completes it or it is released.
+ * @param subtotalCents - Pre-tax subtotal (kitchen time + add-ons)
+ */
+export async function reservePromoRedemption(params: {
+  code: string;
+  chefId: number;
+  locationId: number;
+  subtotalCents: number;
+}): Promise<PromoValidationResult> {
+  const code = normalizePromoCode(params.code);
+  if (!code) {
+    return { valid: false, error: "Promo code not found" };
+  }
+
+  await releaseStalePromoReservations();
+
+  return db.transaction(async (tx) => {
+    const [promo] = await tx
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.code, code))
+      .for("update");
+    if (!promo) {
+      return { valid: false, error: "Promo code not found" };
+    }
+
+    const counts = await getRedemptionCounts(promo.id, params.chefId, tx);
+    const result = evaluatePromoCode(promo, counts, params);
+    if (!result.valid) return result;
+
+    const [reservation] = await tx
+      .insert(promoCodeRedemptions)
+      .values({
+        promoCodeId: promo.id,
+        code: promo.code,
+        chefId: params.chefId,
+        discountCents: result.promo.discountCents,
+        absorbedBy: result.promo.absorbedBy,
+        status: "pending",
+      })
+      .returning({ id: promoCodeRedemptions.id });
+
+    return { valid: true, promo: { ...result.promo, redemptionId: reservation.id } };
+  });
+}
+
+export async function attachPromoReservationToCheckout(redemptionId: number, checkoutSessionId: string): Promise<void> {
+  await db
+    .update(promoCodeRedemptions)
+    .set({ checkoutSessionId, updatedAt: new Date() })
+    .where(eq(promoCodeRedemptions.id, redemptionId));
+}
+
+/**
+ * Record a redemption on the booking the webhook created. Completes the
+ * checkout's reservation (even one released after its session expired — the
+ * chef was charged the discounted price); checkouts without one insert the
+ * redemption. Idempotent per PaymentIntent so webhook retries don't double count.
+ */
+export async function recordPromoRedemption(params: {
+  promo: AppliedPromo;
+  chefId: number;
+  bookingId: number | null;
+  paymentIntentId: string | null;
+}): Promise<void> {
+  if (params.promo.redemptionId) {
+    await db
+      .update(promoCodeRedemptions)
+      .set({
+        status: "completed",
+        bookingId: params.bookingId,
+        paymentIntentId: params.paymentIntentId,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(promoCodeRedemptions.id, params.promo.redemptionId),
+        ne(promoCodeRedemptions.status, "completed")
+      ));
+  } else {
+    await db
+      .insert(promoCodeRedemptions)
+      .values({
+        promoCodeId: params.promo.promoCodeId,
+        code: params.promo.code,
+        chefId: params.chefId,
+        bookingId: params.bookingId,
+        paymentIntentId: params.paymentIntentId,
+        discountCents: params.promo.discountCents,
+        absorbedBy: params.promo.absorbedBy,
+      })
+      .onConflictDoNothing({ target: promoCodeRedemptions.paymentIntentId });
+  }
+  logger.info(`[PromoCodes] Recorded redemption of ${params.promo.code} by chef ${params.chefId} (booking ${params.bookingId})`);
+}
+
+/** Give a reservation's use back, e.g. when its checkout session could not be created */
+export async function releasePromoReservation(redemptionId: number): Promise<boolean> {
+  const released = await db
+    .update(promoCodeRedemptions)
+    .set({ status: "released", updatedAt: new Date() })
+    .where(and(eq(promoCodeRedemptions.id, redemptionId), eq(promoCodeRedemptions.status, "pending")))
+    .returning({ id: promoCodeRedemptions.id });
+  return released.length > 0;
+}
+
+/** Release reservations whose checkout session has expired without completing */
+export async function releaseStalePromoReservations(): Promise<number> {
+  const cutoff = new Date(Date.now() - (PROMO_RESERVATION_MINUTES + RESERVATION_RELEASE_GRACE_MINUTES) * 60 * 1000);
+  const released = await db
+    .update(promoCodeRedemptions)
+    .set({ status: "released", updatedAt: new Date() })
+    .where(and(eq(promoCodeRedemptions.status, "pending"), lt(promoCodeRedemptions.createdAt, cutoff)))
+    .returning({ id: promoCodeRedemptions.id });
+  if (released.length > 0) {
+    logger.info(`[PromoCodes] Released ${released.length} abandoned checkout reservation(s)`);
+  }
+  return released.length;
+}
+
+// ============================================================================
+// ADMIN READS / WRITES
+// ============================================================================
+
+export async function getPromoCodes(): Promise<Array<PromoCode & { redemptionCount: number }>> {
+  const rows = await db
+    .select({
+      promo: promoCodes,
+      redemptionCount: sql<number>`(
+        select count(*) from promo_code_redemptions r
+        left join kitchen_bookings kb on kb.id = r.booking_id
+        where r.promo_code_id = ${promoCodes.id} and r.status <> 'released'
+          and (kb.id is null or kb.status <> 'cancelled')
+      )`,
+    })
+    .from(promoCodes)
+    .orderBy(desc(promoCodes.createdAt));
+  return rows.map((row) => ({ ...row.promo, redemptionCount: Number(row.redemptionCount) }));
+}
+
+export async function getPromoCodeById(id: number): Promise<PromoCode | null> {
+  const [promo] = await db.select().from(promoCodes).where(eq(promoCodes.id, id)).limit(1);
+  return promo || null;
+}
+
+function toPromoColumns(input: PromoCodeInput) {
+  return {
+    code: normalizePromoCode(input.code),
+    description: input.description?.trim() || null,
+    discountType: input.discountType,
+    discountValue: input.discountValue.toString(),
+    maxDiscountCents: input.discountType === "percent" ? input.maxDiscountCents ?? null : null,
+    minSubtotalCents: input.minSubtotalCents ?? null,
+    locationId: input.locationId ?? null,
+    absorbedBy: input.absorbedBy,
+    maxRedemptions: input.maxRedemptions ?? null,
+    perChefLimit: input.perChefLimit ?? null,
+    startsAt: input.startsAt ? new Date(input.startsAt) : null,
+    expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+    isActive: input.isActive ?? true,
+  };
+}
+
+export async function createPromoCode(input: PromoCodeInput, createdBy: number): Promise<PromoCode> {
+  const [promo] = await db
+    .insert(promoCodes)
+    .values({ ...toPromoColumns(input), createdBy })
+    .returning();
+  logger.info(`[PromoCodes] Created promo code ${promo.code} (id ${promo.id})`);
+  return promo;
+}
+
+export async function updatePromoCode(id: number, input: PromoCodeInput): Promise<PromoCode | null> {
+  const [promo] = await db
+    .update(promoCodes)
+    .set({ ...toPromoColumns(input), updatedAt: new Date() })
+    .where(eq(promoCodes.id, id))
+    .returning();
+  if (promo) {
+    logger.info(`[PromoCodes] Updated promo code ${promo.code} (id ${id})`);
+  }
+  return promo || null;
+}
+
+export async function deletePromoCode(id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(promoCodes)
+    .where(eq(promoCodes.id, id))
+    .returning({ id: promoCodes.id });
+  if (deleted.length > 0) {
+    logger.info(`[PromoCodes] Deleted promo code ${id}`);
+  }
+  return deleted.length > 0;
+}
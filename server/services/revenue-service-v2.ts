@@ -8,6 +8,44 @@ import { logger } from "../logger";
 
 import { sql } from "drizzle-orm";
 import type { RevenueMetrics, RevenueByLocation, RevenueByDate } from './revenue-service';
+import { DEFAULT_CURRENCY, normalizeCurrency, type SupportedCurrency } from "@shared/currency-utils";
+
+// Part of a booking paid with prepaid wallet credit. It was never charged to the
+// card (pt.amount), but the manager is paid for it, so it counts as revenue.
+const walletCreditSql = sql`COALESCE((pt.metadata->'wallet'->>'appliedCents')::numeric, 0)`;
+
+/**
+ * Currencies a manager has been paid in, most-used first
+ */
+export async function getManagerRevenueCurrencies(managerId: number, db: any): Promise<SupportedCurrency[]> {
+  const result = await db.execute(sql`
+    SELECT UPPER(pt.currency) as currency, COUNT(*) as transaction_count
+    FROM payment_transactions pt
+    WHERE pt.manager_id = ${managerId}
+    GROUP BY UPPER(pt.currency)
+    ORDER BY transaction_count DESC
+  `);
+  return result.rows.map((row: { currency: string | null }) => normalizeCurrency(row.currency));
+}
+
+/**
+ * Amounts in different currencies are never summed, so revenue is reported in
+ * one currency at a time: the requested one, else the location's, else the
+ * one the manager is paid in most.
+ */
+async function resolveRevenueCurrency(
+  db: any,
+  currency: string | undefined,
+  locationId: number | undefined,
+  currencies: SupportedCurrency[]
+): Promise<SupportedCurrency> {
+  if (currency) return normalizeCurrency(currency);
+  if (locationId) {
+    const locationResult = await db.execute(sql`SELECT currency FROM locations WHERE id = ${locationId} LIMIT 1`);
+    if (locationResult.rows[0]?.currency) return normalizeCurrency(locationResult.rows[0].currency);
+  }
+  return currencies[0] ?? DEFAULT_CURRENCY;
+}
 
 /**
  * Get revenue metrics for a manager using payment_transactions
@@ -18,7 +56,8 @@ export async function getRevenueMetricsFromTransactions(
   db: any,
   startDate?: string | Date,
   endDate?: string | Date,
-  locationId?: number
+  locationId?: number,
+  currency?: string
 ): Promise<RevenueMetrics> {
   try {
     // Build WHERE clause
@@ -116,13 +155,17 @@ export async function getRevenueMetricsFromTransactions(
     `);
     const metricsTimezone = metricsTimezoneResult.rows[0]?.timezone || 'America/St_Johns';
 
+    const currencies = await getManagerRevenueCurrencies(managerId, db);
+    const reportingCurrency = await resolveRevenueCurrency(db, currency, locationId, currencies);
+
     // Simplified WHERE clause - use manager_id directly from payment_transactions
     // This works for all booking types (kitchen, storage, equipment, overstay penalties)
     // Include refunded/partially_refunded to track refund amounts properly
     const simpleWhereConditions = [
       sql`pt.manager_id = ${managerIdParam}`,
       sql`(pt.status = 'succeeded' OR pt.status = 'processing' OR pt.status = 'refunded' OR pt.status = 'partially_refunded')`,
-      sql`pt.booking_type IN ('kitchen', 'bundle', 'storage', 'equipment')`
+      sql`pt.booking_type IN ('kitchen', 'bundle', 'storage', 'equipment')`,
+      sql`UPPER(pt.currency) = ${reportingCurrency}`
     ];
 
     // Add date filtering if provided
@@ -184,14 +227,15 @@ export async function getRevenueMetricsFromTransactions(
     // For partially refunded, we calculate proportional amounts
     const result = await db.execute(sql`
       SELECT 
-        COALESCE(SUM(pt.amount::numeric), 0)::bigint as total_revenue,
+        COALESCE(SUM(pt.amount::numeric + ${walletCreditSql}), 0)::bigint as total_revenue,
+        COALESCE(SUM(${walletCreditSql}), 0)::bigint as wallet_credit_redeemed,
         -- Platform fee: use service_fee if available, otherwise calculate as amount - manager_revenue
         -- This ensures we use Stripe-synced amounts when available
         COALESCE(
           SUM(
             CASE 
               WHEN pt.service_fee::numeric > 0 THEN pt.service_fee::numeric
-              ELSE (pt.amount::numeric - pt.manager_revenue::numeric)
+              ELSE (pt.amount::numeric + ${walletCreditSql} - pt.manager_revenue::numeric)
             END
           ), 
           0
@@ -201,10 +245,10 @@ export async function getRevenueMetricsFromTransactions(
         COUNT(DISTINCT CONCAT(pt.booking_id, '-', pt.booking_type)) as booking_count,
         COUNT(DISTINCT CASE WHEN pt.status = 'succeeded' THEN CONCAT(pt.booking_id, '-', pt.booking_type) END) as paid_booking_count,
         COUNT(DISTINCT CASE WHEN pt.status = 'processing' THEN CONCAT(pt.booking_id, '-', pt.booking_type) END) as processing_booking_count,
-        COALESCE(SUM(CASE WHEN pt.status = 'succeeded' THEN pt.amount::numeric ELSE 0 END), 0)::bigint as completed_payments,
+        COALESCE(SUM(CASE WHEN pt.status = 'succeeded' THEN pt.amount::numeric + ${walletCreditSql} ELSE 0 END), 0)::bigint as completed_payments,
         COALESCE(SUM(CASE WHEN pt.status = 'processing' THEN pt.amount::numeric ELSE 0 END), 0)::bigint as processing_payments,
         COALESCE(SUM(CASE WHEN pt.status IN ('refunded', 'partially_refunded') THEN pt.refund_amount::numeric ELSE 0 END), 0)::bigint as refunded_amount,
-        COALESCE(AVG(pt.amount::numeric), 0)::numeric as avg_booking_value,
+        COALESCE(AVG(pt.amount::numeric + ${walletCreditSql}), 0)::numeric as avg_booking_value,
         -- ENTERPRISE STANDARD: Stripe does NOT refund processing fees on refunds
         -- Manager pays the FULL original Stripe fee regardless of refunds
         -- This gives managers accurate picture of actual fees paid to Stripe
@@ -253,6 +297,7 @@ export async function getRevenueMetricsFromTransactions(
         COALESCE(SUM(
           CASE WHEN pt.status = 'succeeded' THEN
             pt.amount::numeric 
+            + ${walletCreditSql}
             - COALESCE(pt.stripe_processing_fee::numeric, 0)
             - COALESCE(pt.refund_amount::numeric, 0)
           ELSE 0 END
@@ -298,6 +343,7 @@ export async function getRevenueMetricsFromTransactions(
       JOIN kitchens k ON sl.kitchen_id = k.id
       WHERE pt.manager_id = ${managerId}
         AND (pt.status = 'succeeded' OR pt.status = 'processing' OR pt.status = 'partially_refunded')
+        AND UPPER(pt.currency) = ${reportingCurrency}
     `);
 
     const row: any = result.rows[0] || {};
@@ -352,6 +398,7 @@ export async function getRevenueMetricsFromTransactions(
     const managerRevenue = parseNumeric(row.manager_revenue);
     const depositedManagerRevenue = parseNumeric(row.deposited_manager_revenue);
     const refundedAmount = parseNumeric(row.refunded_amount);
+    const walletCreditRedeemed = parseNumeric(row.wallet_credit_redeemed);
     const bookingCount = parseInt(row.booking_count) || 0;
     const paidBookingCount = parseInt(row.paid_booking_count) || 0;
     const cancelledBookingCount = 0; // Cancelled bookings won't have payment_transactions
@@ -429,6 +476,9 @@ export async function getRevenueMetricsFromTransactions(
       paidBookingCount: isNaN(paidBookingCount) ? 0 : paidBookingCount,
       cancelledBookingCount: isNaN(cancelledBookingCount) ? 0 : cancelledBookingCount,
       refundedAmount: isNaN(refundedAmount) ? 0 : refundedAmount,
+      walletCreditRedeemed: isNaN(walletCreditRedeemed) ? 0 : walletCreditRedeemed,
+      currency: reportingCurrency,
+      currencies: currencies.length > 0 ? currencies : [reportingCurrency],
     };
 
     logger.info('[Revenue Service V2] Final metrics:', metrics);
@@ -488,13 +538,14 @@ export async function getRevenueByLocationFromTransactions(
       SELECT 
         l.id as location_id,
         l.name as location_name,
-        COALESCE(SUM(pt.amount::numeric), 0)::bigint as total_revenue,
+        UPPER(pt.currency) as currency,
+        COALESCE(SUM(pt.amount::numeric + ${walletCreditSql}), 0)::bigint as total_revenue,
         -- Platform fee: use service_fee if available, otherwise calculate as amount - manager_revenue
         COALESCE(
           SUM(
             CASE 
               WHEN pt.service_fee::numeric > 0 THEN pt.service_fee::numeric
-              ELSE (pt.amount::numeric - pt.manager_revenue::numeric)
+              ELSE (pt.amount::numeric + ${walletCreditSql} - pt.manager_revenue::numeric)
             END
           ), 
           0
@@ -519,7 +570,8 @@ export async function getRevenueByLocationFromTransactions(
       )
       JOIN locations l ON k.location_id = l.id
       ${whereClause}
-      GROUP BY l.id, l.name
+      -- A location that changed currency has one row per currency
+      GROUP BY l.id, l.name, UPPER(pt.currency)
       ORDER BY total_revenue DESC
     `);
 
@@ -545,6 +597,7 @@ export async function getRevenueByLocationFromTransactions(
         managerRevenue: locManagerRevenue, // Calculated as total - platform fee
         bookingCount: parseInt(row.booking_count) || 0,
         paidBookingCount: parseInt(row.paid_count) || 0,
+        currency: normalizeCurrency(row.currency),
       };
     });
   } catch (error) {
@@ -560,7 +613,8 @@ export async function getRevenueByDateFromTransactions(
   managerId: number,
   db: any,
   startDate: string | Date,
-  endDate: string | Date
+  endDate: string | Date,
+  currency?: string
 ): Promise<RevenueByDate[]> {
   try {
     // Check if payment_transactions table exists
@@ -590,9 +644,13 @@ export async function getRevenueByDateFromTransactions(
     const start = typeof startDate === 'string' ? startDate : startDate.toISOString().split('T')[0];
     const end = typeof endDate === 'string' ? endDate : endDate.toISOString().split('T')[0];
 
+    const currencies = await getManagerRevenueCurrencies(managerId, db);
+    const reportingCurrency = await resolveRevenueCurrency(db, currency, undefined, currencies);
+
     // Build conditions including dynamic dates
     const whereConditions = [sql`pt.manager_id = ${managerId}`];
     whereConditions.push(sql`pt.booking_type IN ('kitchen', 'bundle', 'storage', 'equipment')`);
+    whereConditions.push(sql`UPPER(pt.currency) = ${reportingCurrency}`);
 
     // Exclude kitchen transactions that are part of a bundle
     whereConditions.push(sql`
@@ -634,13 +692,13 @@ export async function getRevenueByDateFromTransactions(
             ELSE pt.created_at AT TIME ZONE 'UTC' AT TIME ZONE ${managerTimezone}
           END
         )::text as date,
-        COALESCE(SUM(pt.amount::numeric), 0)::bigint as total_revenue,
+        COALESCE(SUM(pt.amount::numeric + ${walletCreditSql}), 0)::bigint as total_revenue,
         -- Platform fee: use service_fee if available, otherwise calculate as amount - manager_revenue
         COALESCE(
           SUM(
             CASE 
               WHEN pt.service_fee::numeric > 0 THEN pt.service_fee::numeric
-              ELSE (pt.amount::numeric - pt.manager_revenue::numeric)
+              ELSE (pt.amount::numeric + ${walletCreditSql} - pt.manager_revenue::numeric)
             END
           ), 
           0
@@ -12,6 +12,7 @@ import { logger } from "../logger";
  */
 
 import { sql } from "drizzle-orm";
+import { normalizeCurrency } from "@shared/currency-utils";
 
 export interface RevenueMetrics {
   totalRevenue: number;        // Total booking revenue (cents) - gross amount charged to customer
@@ -30,6 +31,9 @@ export interface RevenueMetrics {
   paidBookingCount: number;    // Paid bookings
   cancelledBookingCount: number; // Cancelled bookings
   refundedAmount: number;      // Total refunded (cents)
+  walletCreditRedeemed?: number; // Part of totalRevenue chefs paid with prepaid wallet credit (cents)
+  currency?: string;           // Currency all amounts above are in (never mixed)
+  currencies?: string[];       // Every currency the manager has been paid in
 }
 
 export interface RevenueByLocation {
@@ -40,6 +44,7 @@ export interface RevenueByLocation {
   managerRevenue: number;
   bookingCount: number;
   paidBookingCount: number;
+  currency?: string;
 }
 
 export interface RevenueByDate {
@@ -707,6 +712,7 @@ export async function getRevenueByLocation(
       SELECT 
         l.id as location_id,
         l.name as location_name,
+        l.currency as currency,
         COALESCE(SUM(
           COALESCE(
             kb.total_price,
@@ -724,7 +730,7 @@ export async function getRevenueByLocation(
       JOIN kitchens k ON kb.kitchen_id = k.id
       JOIN locations l ON k.location_id = l.id
       ${whereClause}
-      GROUP BY l.id, l.name
+      GROUP BY l.id, l.name, l.currency
       ORDER BY total_revenue DESC
     `);
 
@@ -745,6 +751,7 @@ export async function getRevenueByLocation(
         managerRevenue: managerRevenue || 0,
         bookingCount: parseInt(row.booking_count) || 0,
         paidBookingCount: parseInt(row.paid_count) || 0,
+        currency: normalizeCurrency(row.currency),
       };
     });
   } catch (error) {
@@ -982,6 +989,7 @@ export async function getTransactionHistory(
       // Check if this is a damage claim (via payment transaction metadata)
       const ptMetadata = row.pt_metadata || {};
       const isDamageClaim = ptMetadata.type === 'damage_claim';
+      const isKitchenOvertime = ptMetadata.type === 'kitchen_overtime';
       
       // Fallback values from kitchen_bookings
       const kbTotalPrice = row.kb_total_price != null ? parseInt(String(row.kb_total_price)) : 0;
@@ -1004,6 +1012,9 @@ export async function getTransactionHistory(
         // EXCEPTION: Damage claims have NO TAX - they are reimbursements, not revenue
         if (isDamageClaim) {
           taxCents = 0;
+        } else if (isKitchenOvertime) {
+          // Overtime is taxed on its own amount, not on the booking subtotal
+          taxCents = parseInt(String(ptMetadata.overtime_tax_cents)) || 0;
         } else if (ptMetadata.partialCapture && ptMetadata.approvedTax != null) {
           // PARTIAL CAPTURE: Use exact tax from capture engine metadata (source of truth)
           // kb.total_price may be stale due to race condition between capture engine
@@ -1036,10 +1047,14 @@ export async function getTransactionHistory(
 
       // Determine booking type for UI display
       // ENTERPRISE STANDARD: Damage claims get their own type for distinct UI treatment
-      const resolvedBookingType = isDamageClaim ? 'damage_claim' : (row.pt_booking_type || 'kitchen');
+      const resolvedBookingType = isDamageClaim
+        ? 'damage_claim'
+        : isKitchenOvertime ? 'kitchen_overtime' : (row.pt_booking_type || 'kitchen');
       
       // Description for damage claims - using industry standard terminology (Vrbo, Airbnb, Turo)
-      const description = isDamageClaim ? `Damage Claim - ${row.kitchen_name || 'Kitchen'}` : undefined;
+      const description = isDamageClaim
+        ? `Damage Claim - ${row.kitchen_name || 'Kitchen'}`
+        : isKitchenOvertime ? `Overtime - ${row.kitchen_name || 'Kitchen'}` : undefined;
 
       const transactionId = row.transaction_id != null ? parseInt(String(row.transaction_id)) : null;
       const bookingId = parseInt(String(row.id));
@@ -1276,20 +1291,22 @@ export async function getCompleteRevenueMetrics(
   db: any,
   startDate?: string | Date,
   endDate?: string | Date,
-  locationId?: number
+  locationId?: number,
+  currency?: string
 ): Promise<RevenueMetrics> {
   try {
     logger.info('[Revenue Service] getCompleteRevenueMetrics called:', {
       managerId,
       startDate,
       endDate,
-      locationId
+      locationId,
+      currency
     });
 
     // Try to use payment_transactions first (more accurate and faster)
     try {
       const { getRevenueMetricsFromTransactions } = await import('./revenue-service-v2');
-      const metrics = await getRevenueMetricsFromTransactions(managerId, db, startDate, endDate, locationId);
+      const metrics = await getRevenueMetricsFromTransactions(managerId, db, startDate, endDate, locationId, currency);
       logger.info('[Revenue Service] Using payment_transactions for revenue metrics');
       return metrics;
     } catch (error) {
@@ -0,0 +1,551 @@
+import { logger } from "../logger";
+/**
+ * Security Deposit Service
+ *
+ * Rental equipment carries a refundable damage deposit. Instead of adding it
+ * to the booking total, the deposit is held on the chef's saved card as its
+ * own PaymentIntent once the manager confirms the booking:
+ *
+ * - `authorization`: a manual-capture hold, used when the deposit can be
+ *   released before the card authorization lapses (booking end + checkout
+ *   review window, or the last bundled storage end date, within
+ *   AUTHORIZATION_HOLD_DAYS).
+ * - `capture`: charged up front and refunded on release, for bookings too far
+ *   out (or too long) for an authorization to last.
+ *
+ * The deposit is released once the kitchen checkout is cleared, every storage
+ * booking bundled with it has been checked out, and no damage claim on the
+ * booking is still open. An approved claim keeps what it needs from the
+ * deposit (partial capture, or a partial refund for captured deposits) before
+ * anything is charged off-session.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import {
+  damageClaims,
+  equipmentBookings,
+  kitchenBookings,
+  kitchens,
+  locations,
+  securityDeposits,
+  storageBookings,
+  type DamageClaim,
+  type SecurityDeposit,
+  type SecurityDepositHoldMethod,
+} from "@shared/schema";
+import { and, eq, inArray, ne, or } from "drizzle-orm";
+import { DEFAULT_TIMEZONE, getBookingWindow } from "@shared/timezone-utils";
+import { normalizeCurrency, toStripeCurrency } from "@shared/currency-utils";
+import { getCheckinSettings } from "./kitchen-checkout-service";
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, {
+  apiVersion: '2026-02-25.clover',
+}) : null;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DepositClaimAllocation {
+  depositCents: number; // Paid from the deposit, tax included
+  depositTaxCents: number;
+  remainderCents: number; // Still to be charged off-session, tax included
+  remainderTaxCents: number;
+}
+
+export interface AppliedDeposit {
+  depositId: number;
+  paymentIntentId: string;
+  chargeId?: string;
+  appliedCents: number;
+}
+
+export interface SecurityDepositSweepResult {
+  released: number;
+  expired: number;
+  errors: number;
+}
+
+/** Card authorizations lapse after 7 days; keep a day in hand */
+export const AUTHORIZATION_HOLD_DAYS = 6;
+
+/** Claims that may still take money from the deposit */
+const OPEN_CLAIM_STATUSES = [
+  'submitted',
+  'chef_accepted',
+  'chef_disputed',
+  'under_review',
+  'approved',
+  'partially_approved',
+  'charge_pending',
+  'charge_failed',
+  'escalated',
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** Authorize when the deposit will be released before the hold lapses, otherwise capture */
+export function chooseDepositHoldMethod(releaseBy: Date, now: Date = new Date()): SecurityDepositHoldMethod {
+  return releaseBy.getTime() - now.getTime() <= AUTHORIZATION_HOLD_DAYS * DAY_MS ? 'authorization' : 'capture';
+}
+
+/** Split a claim total (tax included) between the deposit and an off-session charge, tax pro rata */
+export function allocateClaimToDeposit(totalCents: number, taxCents: number, depositCents: number): DepositClaimAllocation {
+  const fromDeposit = Math.max(0, Math.min(totalCents, depositCents));
+  const depositTaxCents = totalCents > 0 ? Math.round((taxCents * fromDeposit) / totalCents) : 0;
+  return {
+    depositCents: fromDeposit,
+    depositTaxCents,
+    remainderCents: totalCents - fromDeposit,
+    remainderTaxCents: taxCents - depositTaxCents,
+  };
+}
+
+// ============================================================================
+// PLACING THE HOLD
+// ============================================================================
+
+/** Deposit owed for a booking: its rental equipment that was not rejected or cancelled */
+async function getBookingDepositCents(kitchenBookingId: number): Promise<number> {
+  const rows = await db
+    .select({ damageDeposit: equipmentBookings.damageDeposit })
+    .from(equipmentBookings)
+    .where(and(
+      eq(equipmentBookings.kitchenBookingId, kitchenBookingId),
+      ne(equipmentBookings.status, 'cancelled'),
+      ne(equipmentBookings.paymentStatus, 'failed'),
+    ));
+  return rows.reduce((sum, row) => sum + Math.round(parseFloat(String(row.damageDeposit || '0'))), 0);
+}
+
+/** When the deposit is expected to be released: after checkout review, or the last bundled storage end */
+async function getExpectedReleaseDate(booking: {
+  id: number;
+  bookingDate: Date;
+  endDate: Date | null;
+  startTime: string;
+  endTime: string;
+  timezone: string | null;
+}): Promise<Date> {
+  const { end } = getBookingWindow(
+    booking.bookingDate.toISOString().split('T')[0],
+    booking.startTime,
+    booking.endTime,
+    booking.timezone || DEFAULT_TIMEZONE,
+    booking.endDate ? booking.endDate.toISOString().split('T')[0] : null,
+  );
+  const settings = await getCheckinSettings();
+  let releaseBy = new Date(end.getTime() + settings.checkoutReviewWindowMinutes * 60 * 1000);
+
+  const storage = await db
+    .select({ endDate: storageBookings.endDate })
+    .from(storageBookings)
+    .where(and(eq(storageBookings.kitchenBookingId, booking.id), ne(storageBookings.status, 'cancelled')));
+  for (const sb of storage) {
+    if (sb.endDate > releaseBy) releaseBy = sb.endDate;
+  }
+  return releaseBy;
+}
+
+/**
+ * Hold the security deposit for a confirmed kitchen booking on the chef's
+ * saved card. Does nothing when the booking has no deposit or already has one.
+ */
+export async function placeSecurityDeposit(kitchenBookingId: number): Promise<SecurityDeposit | null> {
+  if (!stripe) {
+    logger.warn('[SecurityDeposit] Stripe not configured — deposit not held');
+    return null;
+  }
+
+  const [existing] = await db
+    .select()
+    .from(securityDeposits)
+    .where(eq(securityDeposits.kitchenBookingId, kitchenBookingId))
+    .limit(1);
+  if (existing) return existing;
+
+  const amountCents = await getBookingDepositCents(kitchenBookingId);
+  if (amountCents <= 0) return null;
+
+  const [booking] = await db
+    .select({
+      id: kitchenBookings.id,
+      chefId: kitchenBookings.chefId,
+      bookingDate: kitchenBookings.bookingDate,
+      endDate: kitchenBookings.endDate,
+      startTime: kitchenBookings.startTime,
+      endTime: kitchenBookings.endTime,
+      currency: kitchenBookings.currency,
+      stripeCustomerId: kitchenBookings.stripeCustomerId,
+      stripePaymentMethodId: kitchenBookings.stripePaymentMethodId,
+      timezone: locations.timezone,
+    })
+    .from(kitchenBookings)
+    .innerJoin(kitchens, eq(kitchenBookings.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(kitchenBookings.id, kitchenBookingId))
+    .limit(1);
+  if (!booking) return null;
+
+  // The deposit no longer goes into the total; record what is held
+  await db
+    .update(kitchenBookings)
+    .set({ damageDeposit: amountCents.toString(), updatedAt: new Date() })
+    .where(eq(kitchenBookings.id, kitchenBookingId));
+
+  const currency = normalizeCurrency(booking.currency);
+  const releaseBy = await getExpectedReleaseDate(booking);
+  const holdMethod = chooseDepositHoldMethod(releaseBy);
+  const base = {
+    kitchenBookingId,
+    chefId: booking.chefId,
+    amountCents,
+    currency,
+    holdMethod,
+  };
+
+  const recordFailure = async (failureReason: string) => {
+    logger.warn(`[SecurityDeposit] Could not hold deposit for booking ${kitchenBookingId}: ${failureReason}`);
+    const [row] = await db
+      .insert(securityDeposits)
+      .values({ ...base, status: 'failed', failureReason })
+      .onConflictDoNothing({ target: securityDeposits.kitchenBookingId })
+      .returning();
+    return row ?? null;
+  };
+
+  if (!booking.stripeCustomerId || !booking.stripePaymentMethodId) {
+    return recordFailure('No saved payment method available');
+  }
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: amountCents,
+      currency: toStripeCurrency(currency),
+      customer: booking.stripeCustomerId,
+      payment_method: booking.stripePaymentMethodId,
+      off_session: true,
+      confirm: true,
+      capture_method: holdMethod === 'authorization' ? 'manual' : 'automatic',
+      metadata: {
+        type: 'security_deposit',
+        kitchen_booking_id: kitchenBookingId.toString(),
+        chef_id: booking.chefId?.toString() ?? '',
+        hold_method: holdMethod,
+      },
+      statement_descriptor_suffix: 'DEPOSIT',
+    }, {
+      idempotencyKey: `security_deposit_${kitchenBookingId}`,
+    });
+
+    const expectedStatus = holdMethod === 'authorization' ? 'requires_capture' : 'succeeded';
+    if (paymentIntent.status !== expectedStatus) {
+      if (paymentIntent.status !== 'canceled') {
+        await stripe.paymentIntents.cancel(paymentIntent.id).catch(() => undefined);
+      }
+      return recordFailure(`Payment status: ${paymentIntent.status}`);
+    }
+
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+    const now = new Date();
+    const [row] = await db
+      .insert(securityDeposits)
+      .values({
+        ...base,
+        status: 'held',
+        stripePaymentIntentId: paymentIntent.id,
+        stripeChargeId: chargeId || null,
+        heldAt: now,
+        authorizationExpiresAt: holdMethod === 'authorization' ? new Date(now.getTime() + 7 * DAY_MS) : null,
+      })
+      .onConflictDoNothing({ target: securityDeposits.kitchenBookingId })
+      .returning();
+
+    logger.info(`[SecurityDeposit] Held $${(amountCents / 100).toFixed(2)} for booking ${kitchenBookingId} (${holdMethod})`, {
+      paymentIntentId: paymentIntent.id,
+      releaseBy: releaseBy.toISOString(),
+    });
+    return row ?? null;
+  } catch (error: unknown) {
+    return recordFailure(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Hold deposits for kitchen bookings a manager just confirmed, however they
+ * were paid: a captured authorization, a checkout that was already charged,
+ * a recurring series capture or wallet credit. Bookings that are not
+ * confirmed and paid are skipped. Never throws — a booking whose hold fails
+ * is logged and the rest are still placed.
+ */
+export async function placeDepositsForConfirmedBookings(kitchenBookingIds: number[]): Promise<SecurityDeposit[]> {
+  if (kitchenBookingIds.length === 0) return [];
+
+  const deposits: SecurityDeposit[] = [];
+  try {
+    const bookings = await db
+      .select({ id: kitchenBookings.id, status: kitchenBookings.status, paymentStatus: kitchenBookings.paymentStatus })
+      .from(kitchenBookings)
+      .where(inArray(kitchenBookings.id, kitchenBookingIds));
+
+    for (const booking of bookings) {
+      if (booking.status !== 'confirmed') continue;
+      if (booking.paymentStatus !== 'paid' && booking.paymentStatus !== 'processing') continue;
+      try {
+        const deposit = await placeSecurityDeposit(booking.id);
+        if (deposit) deposits.push(deposit);
+      } catch (error) {
+        logger.error(`[SecurityDeposit] Could not hold deposit for booking ${booking.id}:`, error);
+      }
+    }
+  } catch (error) {
+    logger.error('[SecurityDeposit] Could not load confirmed bookings for deposits:', error);
+  }
+  return deposits;
+}
+
+// ============================================================================
+// RELEASE
+// ============================================================================
+
+/** Cancel the authorization or refund what was captured and not kept */
+async function releaseDeposit(deposit: SecurityDeposit, reason: string): Promise<boolean> {
+  if (!stripe || !deposit.stripePaymentIntentId) return false;
+
+  let refundId: string | null = null;
+  if (deposit.holdMethod === 'authorization') {
+    await stripe.paymentIntents.cancel(deposit.stripePaymentIntentId);
+  } else {
+    const refundCents = deposit.amountCents - deposit.appliedCents;
+    if (refundCents > 0) {
+      const refund = await stripe.refunds.create({
+        payment_intent: deposit.stripePaymentIntentId,
+        amount: refundCents,
+        metadata: { type: 'security_deposit', kitchen_booking_id: deposit.kitchenBookingId.toString() },
+      }, {
+        idempotencyKey: `security_deposit_release_${deposit.id}`,
+      });
+      refundId = refund.id;
+    }
+  }
+
+  await db
+    .update(securityDeposits)
+    .set({ status: 'released', stripeRefundId: refundId, releasedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(securityDeposits.id, deposit.id), eq(securityDeposits.status, 'held')));
+
+  logger.info(`[SecurityDeposit] Released deposit ${deposit.id} for booking ${deposit.kitchenBookingId}: ${reason}`);
+  return true;
+}
+
+/** Why the deposit must stay held, or null once it can be released */
+async function getReleaseBlocker(kitchenBookingId: number): Promise<string | null> {
+  const [booking] = await db
+    .select({ status: kitchenBookings.status, checkinStatus: kitchenBookings.checkinStatus })
+    .from(kitchenBookings)
+    .where(eq(kitchenBookings.id, kitchenBookingId))
+    .limit(1);
+  if (!booking) return null;
+
+  const storage = await db
+    .select({ id: storageBookings.id, status: storageBookings.status, checkoutStatus: storageBookings.checkoutStatus })
+    .from(storageBookings)
+    .where(eq(storageBookings.kitchenBookingId, kitchenBookingId));
+
+  const claimConditions = [eq(damageClaims.kitchenBookingId, kitchenBookingId)];
+  if (storage.length > 0) {
+    claimConditions.push(inArray(damageClaims.storageBookingId, storage.map((sb) => sb.id)));
+  }
+  const [openClaim] = await db
+    .select({ id: damageClaims.id })
+    .from(damageClaims)
+    .where(and(or(...claimConditions), inArray(damageClaims.status, [...OPEN_CLAIM_STATUSES])))
+    .limit(1);
+  if (openClaim) return `damage claim #${openClaim.id} is open`;
+
+  if (booking.status === 'cancelled') return null;
+  if (booking.status !== 'completed' && booking.checkinStatus !== 'no_show') {
+    return 'kitchen checkout has not been cleared';
+  }
+  const inUse = storage.find((sb) => sb.status !== 'cancelled' && sb.checkoutStatus !== 'completed');
+  if (inUse) return `storage booking #${inUse.id} has not been checked out`;
+  return null;
+}
+
+/**
+ * Release a booking's held deposit if nothing can claim it any more. Called
+ * after a kitchen or bundled storage checkout is cleared and by the daily sweep.
+ */
+export async function releaseSecurityDepositIfSettled(kitchenBookingId: number): Promise<boolean> {
+  const [deposit] = await db
+    .select()
+    .from(securityDeposits)
+    .where(and(eq(securityDeposits.kitchenBookingId, kitchenBookingId), eq(securityDeposits.status, 'held')))
+    .limit(1);
+  if (!deposit) return false;
+
+  const blocker = await getReleaseBlocker(kitchenBookingId);
+  if (blocker) {
+    logger.info(`[SecurityDeposit] Keeping deposit for booking ${kitchenBookingId}: ${blocker}`);
+    return false;
+  }
+  return releaseDeposit(deposit, 'booking settled');
+}
+
+/**
+ * Daily sweep: release deposits whose bookings are settled (auto-cleared
+ * checkouts, cancellations, closed claims) and mark lapsed authorizations.
+ */
+export async function processSecurityDepositReleases(): Promise<SecurityDepositSweepResult> {
+  const result: SecurityDepositSweepResult = { released: 0, expired: 0, errors: 0 };
+
+  const held = await db
+    .select()
+    .from(securityDeposits)
+    .where(eq(securityDeposits.status, 'held'));
+
+  const now = new Date();
+  for (const deposit of held) {
+    try {
+      if (deposit.holdMethod === 'authorization' && deposit.authorizationExpiresAt && deposit.authorizationExpiresAt <= now) {
+        // Stripe has released the hold itself; a claim now falls back to an off-session charge
+        await db
+          .update(securityDeposits)
+          .set({ status: 'expired', releasedAt: now, updatedAt: now })
+          .where(eq(securityDeposits.id, deposit.id));
+        result.expired++;
+        logger.warn(`[SecurityDeposit] Authorization for booking ${deposit.kitchenBookingId} lapsed before release`);
+        continue;
+      }
+      if (await releaseSecurityDepositIfSettled(deposit.kitchenBookingId)) {
+        result.released++;
+      }
+    } catch (error) {
+      result.errors++;
+      logger.error(`[SecurityDeposit] Error processing deposit ${deposit.id}:`, error);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// DAMAGE CLAIMS
+// ============================================================================
+
+type ClaimBookingRef = Pick<DamageClaim, 'id' | 'bookingType' | 'kitchenBookingId' | 'storageBookingId'>;
+
+/** The kitchen booking whose deposit covers a claim; storage claims use the booking they were bundled with */
+async function getClaimKitchenBookingId(claim: ClaimBookingRef): Promise<number | null> {
+  if (claim.bookingType !== 'storage') return claim.kitchenBookingId;
+  if (!claim.storageBookingId) return null;
+  const [storage] = await db
+    .select({ kitchenBookingId: storageBookings.kitchenBookingId })
+    .from(storageBookings)
+    .where(eq(storageBookings.id, claim.storageBookingId))
+    .limit(1);
+  return storage?.kitchenBookingId ?? null;
+}
+
+/** Release the deposit a rejected or expired claim was holding back, if the booking is otherwise settled */
+export async function releaseSecurityDepositForClaim(claim: ClaimBookingRef): Promise<boolean> {
+  const kitchenBookingId = await getClaimKitchenBookingId(claim);
+  return kitchenBookingId ? releaseSecurityDepositIfSettled(kitchenBookingId) : false;
+}
+
+/** What a claim has already been paid from a security deposit */
+export async function getDepositAppliedToClaim(claimId: number): Promise<number> {
+  const [deposit] = await db
+    .select({ appliedCents: securityDeposits.appliedCents })
+    .from(securityDeposits)
+    .where(eq(securityDeposits.damageClaimId, claimId))
+    .limit(1);
+  return deposit?.appliedCents ?? 0;
+}
+
+/**
+ * Pay an approved claim from the booking's held deposit: capture part of the
+ * authorization (Stripe releases the rest) or refund the captured deposit
+ * down to the amount kept. Returns null when there is no usable deposit.
+ */
+export async function applySecurityDepositToClaim(
+  claim: ClaimBookingRef,
+  claimTotalCents: number,
+): Promise<AppliedDeposit | null> {
+  if (!stripe) return null;
+
+  const kitchenBookingId = await getClaimKitchenBookingId(claim);
+  if (!kitchenBookingId) return null;
+
+  const [deposit] = await db
+    .select()
+    .from(securityDeposits)
+    .where(and(eq(securityDeposits.kitchenBookingId, kitchenBookingId), eq(securityDeposits.status, 'held')))
+    .limit(1);
+  if (!deposit?.stripePaymentIntentId) return null;
+
+  const appliedCents = Math.min(claimTotalCents, deposit.amountCents);
+  let chargeId = deposit.stripeChargeId || undefined;
+  let refundId: string | null = null;
+
+  try {
+    if (deposit.holdMethod === 'authorization') {
+      const paymentIntent = await stripe.paymentIntents.capture(deposit.stripePaymentIntentId, {
+        amount_to_capture: appliedCents,
+      }, {
+        idempotencyKey: `security_deposit_capture_${deposit.id}_${claim.id}`,
+      });
+      chargeId = (typeof paymentIntent.latest_charge === 'string'
+        ? paymentIntent.latest_charge
+        : paymentIntent.latest_charge?.id) || chargeId;
+    } else if (deposit.amountCents > appliedCents) {
+      const refund = await stripe.refunds.create({
+        payment_intent: deposit.stripePaymentIntentId,
+        amount: deposit.amountCents - appliedCents,
+        metadata: {
+          type: 'security_deposit',
+          kitchen_booking_id: kitchenBookingId.toString(),
+          damage_claim_id: claim.id.toString(),
+        },
+      }, {
+        idempotencyKey: `security_deposit_release_${deposit.id}`,
+      });
+      refundId = refund.id;
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`[SecurityDeposit] Could not apply deposit ${deposit.id} to claim ${claim.id}: ${message}`);
+    if (deposit.holdMethod === 'authorization') {
+      // An authorization that can no longer be captured has lapsed or been cancelled
+      await db
+        .update(securityDeposits)
+        .set({ status: 'expired', failureReason: message, updatedAt: new Date() })
+        .where(eq(securityDeposits.id, deposit.id));
+    }
+    return null;
+  }
+
+  await db
+    .update(securityDeposits)
+    .set({
+      status: 'applied',
+      appliedCents,
+      damageClaimId: claim.id,
+      stripeChargeId: chargeId || null,
+      stripeRefundId: refundId,
+      releasedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(securityDeposits.id, deposit.id));
+
+  logger.info(`[SecurityDeposit] Applied $${(appliedCents / 100).toFixed(2)} of deposit ${deposit.id} to claim ${claim.id}`);
+  return { depositId: deposit.id, paymentIntentId: deposit.stripePaymentIntentId, chargeId, appliedCents };
+}
@@ -0,0 +1,561 @@
+import { logger } from "../logger";
+/**
+ * Smart Lock Service
+ *
+ * Provider adapters that program per-booking access codes straight into a
+ * kitchen's door lock, so managers no longer type codes into the keypad.
+ *
+ * A kitchen opts in with a `provider` block inside `kitchens.smartLockConfig`
+ * (next to the manual `accessCode` / `codeVisibility` settings):
+ *
+ *   { "provider": { "type": "http_webhook", "url": "https://…", "secret": "…" } }
+ *   { "provider": { "type": "nuki", "smartlockId": "…", "apiToken": "…" } }
+ *   { "provider": { "type": "igloohome", "deviceId": "…", "apiKey": "…" } }
+ *   { "provider": { "type": "fake" } }   // in-memory, never in production
+ *
+ * Locks (or bridges) report door events back to
+ * POST /api/webhooks/smart-lock/:kitchenId, signed with the provider's
+ * `eventSecret` (or the webhook `secret`) in the same scheme we sign with.
+ *
+ * This module only talks to the lock. Code generation, hashing, the booking
+ * lifecycle and the access code audit trail live in kitchen-checkout-service.
+ */
+
+import crypto from "crypto";
+import https from "https";
+import { isPublicHttpsUrl, lookupPublicAddress } from "../public-url-guard";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SmartLockProviderType = 'http_webhook' | 'nuki' | 'igloohome' | 'fake';
+
+export interface SmartLockProviderConfig {
+  type: SmartLockProviderType;
+  // http_webhook
+  url?: string;
+  secret?: string;
+  // nuki
+  smartlockId?: string;
+  apiToken?: string;
+  // igloohome
+  deviceId?: string;
+  apiKey?: string;
+  // Optional API base override (sandbox environments)
+  baseUrl?: string;
+  // Signs inbound lock events; http_webhook falls back to `secret`
+  eventSecret?: string;
+}
+
+export interface LockCodeGrant {
+  bookingId: number;
+  code: string;
+  validFrom: Date;
+  validUntil: Date;
+  label: string; // Shown in the lock vendor's app, e.g. "LocalCooks #123"
+}
+
+export interface LockCodeRef {
+  bookingId: number;
+  externalId: string | null; // Provider's id for the code, from pushCode
+}
+
+export interface LockCodePushResult {
+  externalId: string | null;
+  // Set when the lock issues its own PIN instead of accepting ours
+  code?: string;
+}
+
+export interface SmartLockProvider {
+  readonly type: SmartLockProviderType;
+  // Locks with digit-only keypads supply their own code generator
+  generateCode?: () => string;
+  pushCode(grant: LockCodeGrant): Promise<LockCodePushResult>;
+  removeCode(ref: LockCodeRef): Promise<void>;
+}
+
+export interface LockEvent {
+  eventId: string | null; // Provider's event id, for deduplication
+  type: 'unlock' | 'lock' | 'other';
+  occurredAt: Date;
+  code: string | null; // Code typed on the keypad, when the lock reports it
+  externalId: string | null; // Provider's id for the code used
+}
+
+export interface RetryOutcome<T> {
+  success: boolean;
+  result?: T;
+  error?: string;
+  attempts: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const PROVIDER_TYPES: SmartLockProviderType[] = ['http_webhook', 'nuki', 'igloohome', 'fake'];
+
+// Credential fields never sent back to the browser
+const SECRET_FIELDS = ['secret', 'apiToken', 'apiKey', 'eventSecret'] as const;
+
+const REQUIRED_FIELDS: Record<SmartLockProviderType, (keyof SmartLockProviderConfig)[]> = {
+  http_webhook: ['url', 'secret'],
+  nuki: ['smartlockId', 'apiToken'],
+  igloohome: ['deviceId', 'apiKey'],
+  fake: [],
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+
+// Fields holding a lock API URL; anything but public https is refused
+const URL_FIELDS = ['url', 'baseUrl'] as const;
+
+// Inbound events older (or further in the future) than this are rejected
+const EVENT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Read the provider block from a kitchen's smartLockConfig.
+ * Returns null when no provider is configured, the block is incomplete, or
+ * a lock API URL is not public https.
+ */
+export function parseSmartLockProviderConfig(smartLockConfig: unknown): SmartLockProviderConfig | null {
+  if (!smartLockConfig || typeof smartLockConfig !== 'object') return null;
+  const provider = (smartLockConfig as Record<string, unknown>).provider;
+  if (!provider || typeof provider !== 'object') return null;
+
+  const raw = provider as Record<string, unknown>;
+  const type = raw.type as SmartLockProviderType;
+  if (!PROVIDER_TYPES.includes(type)) return null;
+  if (type === 'fake' && process.env.NODE_ENV === 'production') return null;
+
+  const config: SmartLockProviderConfig = { type };
+  for (const key of ['url', 'secret', 'smartlockId', 'apiToken', 'deviceId', 'apiKey', 'baseUrl', 'eventSecret'] as const) {
+    if (typeof raw[key] === 'string' && raw[key]) config[key] = (raw[key] as string).trim();
+    else if (typeof raw[key] === 'number') config[key] = String(raw[key]);
+  }
+
+  if (REQUIRED_FIELDS[type].some((field) => !config[field])) return null;
+  if (URL_FIELDS.some((field) => config[field] && !isPublicHttpsUrlString(config[field]!))) return null;
+  return config;
+}
+
+function isPublicHttpsUrlString(value: string): boolean {
+  try {
+    return isPublicHttpsUrl(new URL(value));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Strip provider credentials before a smartLockConfig leaves the server.
+ * `credentialsSet` tells the settings UI a secret is on file.
+ */
+export function redactSmartLockConfig(smartLockConfig: unknown): Record<string, unknown> | null {
+  if (!smartLockConfig || typeof smartLockConfig !== 'object') return null;
+  const config = { ...(smartLockConfig as Record<string, unknown>) };
+  const provider = config.provider;
+  if (provider && typeof provider === 'object') {
+    const redacted: Record<string, unknown> = { ...(provider as Record<string, unknown>) };
+    let credentialsSet = false;
+    for (const field of SECRET_FIELDS) {
+      if (redacted[field]) credentialsSet = true;
+      delete redacted[field];
+    }
+    config.provider = { ...redacted, credentialsSet };
+  }
+  return config;
+}
+
+/**
+ * Keep stored provider credentials when a manager saves settings that were
+ * loaded redacted. Credentials are only replaced when a new value is sent,
+ * and only for the same provider type.
+ */
+export function mergeSmartLockConfig(
+  incoming: Record<string, unknown>,
+  existing: unknown,
+): Record<string, unknown> {
+  const next = { ...incoming };
+  const nextProvider = next.provider;
+  if (!nextProvider || typeof nextProvider !== 'object') return next;
+
+  const provider: Record<string, unknown> = { ...(nextProvider as Record<string, unknown>) };
+  delete provider.credentialsSet;
+
+  const previous = (existing && typeof existing === 'object')
+    ? (existing as Record<string, unknown>).provider as Record<string, unknown> | undefined
+    : undefined;
+  if (previous && previous.type === provider.type) {
+    for (const field of SECRET_FIELDS) {
+      if (!provider[field] && previous[field]) provider[field] = previous[field];
+    }
+  }
+
+  next.provider = provider;
+  return next;
+}
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a lock call with exponential backoff (500ms, 1s, 2s…).
+ * Never throws — the caller records the outcome in the audit trail.
+ */
+export async function withLockRetries<T>(
+  operation: () => Promise<T>,
+  options: { attempts?: number; baseDelayMs?: number } = {},
+): Promise<RetryOutcome<T>> {
+  const maxAttempts = options.attempts ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  let lastError = 'Unknown error';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const result = await operation();
+      return { success: true, result, attempts: attempt };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      logger.warn(`[SmartLock] Attempt ${attempt}/${maxAttempts} failed: ${lastError}`);
+      if (attempt < maxAttempts) await sleep(baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  return { success: false, error: lastError, attempts: maxAttempts };
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+function signLockPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Secret that inbound lock events for this provider must be signed with.
+ */
+export function getLockEventSecret(config: SmartLockProviderConfig): string | null {
+  return config.eventSecret || (config.type === 'http_webhook' ? config.secret ?? null : null);
+}
+
+/**
+ * Check an inbound event's `X-LocalCooks-Signature` against the raw body.
+ * The timestamp is part of the signed payload, so replays outside the
+ * tolerance window fail too.
+ */
+export function verifyLockEventSignature(
+  rawBody: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  now: Date = new Date(),
+): boolean {
+  if (!timestamp || !signature) return false;
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > EVENT_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(`sha256=${signLockPayload(secret, timestamp, rawBody)}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Read a lock event body: `{ id?, type, occurredAt, code?, externalId? }`.
+ */
+export function parseLockEvent(body: unknown): LockEvent | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Event body must be a JSON object' };
+  const raw = body as Record<string, unknown>;
+
+  const occurredAt = new Date(String(raw.occurredAt ?? ''));
+  if (isNaN(occurredAt.getTime())) return { error: 'occurredAt must be an ISO timestamp' };
+
+  const type = raw.type === 'unlock' || raw.type === 'lock' ? raw.type : 'other';
+  const asString = (value: unknown) =>
+    (typeof value === 'string' && value !== '') || typeof value === 'number' ? String(value) : null;
+
+  return {
+    eventId: asString(raw.id),
+    type,
+    occurredAt,
+    code: asString(raw.code),
+    externalId: asString(raw.externalId),
+  };
+}
+
+// ============================================================================
+// HTTP HELPER
+// ============================================================================
+
+interface LockResponse {
+  json(): Promise<unknown>;
+}
+
+/**
+ * Call a lock API over https. The URL comes from the kitchen's config, so it
+ * must be public https (checked again when the host resolves), redirects are
+ * not followed, and the reply body never goes into the error, which ends up
+ * in the access code audit trail.
+ */
+function lockRequest(
+  url: string,
+  init: { method: string; headers?: Record<string, string>; body?: string },
+): Promise<LockResponse> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return Promise.reject(new Error('Lock API URL is not valid'));
+  }
+  if (!isPublicHttpsUrl(target)) return Promise.reject(new Error('Lock API URL must be a public https URL'));
+
+  return new Promise((resolve, reject) => {
+    const request = https.request(target, {
+      method: init.method,
+      lookup: lookupPublicAddress,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...init.headers },
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(new Error(`Lock API returned HTTP ${status}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let bytes = 0;
+      response.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > MAX_RESPONSE_BYTES) {
+          response.destroy();
+          reject(new Error('Lock API response is too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        resolve({ json: async () => JSON.parse(text) });
+      });
+      response.on('error', reject);
+    });
+    request.on('error', (error: Error) => {
+      if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+        reject(new Error(`Lock API timed out after ${REQUEST_TIMEOUT_MS / 1000}s`));
+        return;
+      }
+      reject(error);
+    });
+    request.end(init.body);
+  });
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+/**
+ * Generic webhook lock (or a lock bridge the kitchen runs itself).
+ * POSTs `{ event, bookingId, code, validFrom, validUntil, label }` signed with
+ * `X-LocalCooks-Signature: sha256=<hmac of "timestamp.body">`, the same
+ * scheme as the PHP bridge. A JSON `{ id }` in the reply is kept as the
+ * code's external id.
+ */
+function createHttpWebhookProvider(config: SmartLockProviderConfig): SmartLockProvider {
+  const send = async (payload: Record<string, unknown>) => {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = signLockPayload(config.secret!, timestamp, body);
+    return lockRequest(config.url!, {
+      method: 'POST',
+      headers: {
+        'X-LocalCooks-Timestamp': timestamp,
+        'X-LocalCooks-Signature': `sha256=${signature}`,
+      },
+      body,
+    });
+  };
+
+  return {
+    type: 'http_webhook',
+    async pushCode(grant) {
+      const response = await send({
+        event: 'access_code.created',
+        bookingId: grant.bookingId,
+        code: grant.code,
+        validFrom: grant.validFrom.toISOString(),
+        validUntil: grant.validUntil.toISOString(),
+        label: grant.label,
+      });
+      const data = await response.json().catch(() => null) as { id?: string | number } | null;
+      return { externalId: data?.id != null ? String(data.id) : null };
+    },
+    async removeCode(ref) {
+      await send({ event: 'access_code.deleted', bookingId: ref.bookingId, externalId: ref.externalId });
+    },
+  };
+}
+
+/**
+ * Nuki Web API keypad codes. The keypad only takes 6 digits 1-9 that do not
+ * start with "12", so this adapter generates its own codes. Nuki does not
+ * return an id on create, so the authorization is looked up by name.
+ */
+function createNukiProvider(config: SmartLockProviderConfig): SmartLockProvider {
+  const baseUrl = config.baseUrl || 'https://api.nuki.io';
+  const authUrl = `${baseUrl}/smartlock/${encodeURIComponent(config.smartlockId!)}/auth`;
+  const headers = { Authorization: `Bearer ${config.apiToken}` };
+  const nameFor = (bookingId: number) => `LocalCooks #${bookingId}`.substring(0, 20);
+
+  const findAuthId = async (bookingId: number): Promise<string | null> => {
+    const response = await lockRequest(authUrl, { method: 'GET', headers });
+    const auths = await response.json() as Array<{ id: string | number; name: string }>;
+    const match = auths.find((auth) => auth.name === nameFor(bookingId));
+    return match ? String(match.id) : null;
+  };
+
+  return {
+    type: 'nuki',
+    generateCode: () => {
+      let code = '';
+      do {
+        code = Array.from(crypto.randomBytes(6), (b) => String((b % 9) + 1)).join('');
+      } while (code.startsWith('12'));
+      return code;
+    },
+    async pushCode(grant) {
+      await lockRequest(authUrl, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({
+          name: nameFor(grant.bookingId),
+          type: 13, // Keypad code
+          code: Number(grant.code),
+          allowedFromDate: grant.validFrom.toISOString(),
+          allowedUntilDate: grant.validUntil.toISOString(),
+          allowedWeekDays: 127,
+          allowedFromTime: 0,
+          allowedUntilTime: 0,
+        }),
+      });
+      return { externalId: await findAuthId(grant.bookingId).catch(() => null) };
+    },
+    async removeCode(ref) {
+      const authId = ref.externalId || await findAuthId(ref.bookingId);
+      if (!authId) return; // Already gone from the lock
+      await lockRequest(`${authUrl}/${encodeURIComponent(authId)}`, { method: 'DELETE', headers });
+    },
+  };
+}
+
+/**
+ * Igloohome-style offline locks issue their own time-bound PIN for a window,
+ * so the PIN they return replaces the one we generated.
+ */
+function createIgloohomeProvider(config: SmartLockProviderConfig): SmartLockProvider {
+  const baseUrl = config.baseUrl || 'https://api.igloodeveloper.co/igloohome';
+  const deviceUrl = `${baseUrl}/devices/${encodeURIComponent(config.deviceId!)}`;
+  const headers = { 'X-IGLOOCOMPANY-APIKEY': config.apiKey! };
+  // The API wants whole hours with an explicit offset
+  const toHour = (date: Date, roundUp: boolean) => {
+    const hour = new Date(date);
+    if (roundUp && (hour.getUTCMinutes() > 0 || hour.getUTCSeconds() > 0)) hour.setUTCHours(hour.getUTCHours() + 1);
+    hour.setUTCMinutes(0, 0, 0);
+    return hour.toISOString().replace('.000Z', '+00:00');
+  };
+
+  return {
+    type: 'igloohome',
+    async pushCode(grant) {
+      const response = await lockRequest(`${deviceUrl}/algopin/hourly`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          variance: 1,
+          startDate: toHour(grant.validFrom, false),
+          endDate: toHour(grant.validUntil, true),
+          accessName: grant.label,
+        }),
+      });
+      const data = await response.json() as { pin?: string; pinId?: string | number };
+      if (!data?.pin) throw new Error('Lock API did not return a PIN');
+      return { externalId: data.pinId != null ? String(data.pinId) : null, code: String(data.pin) };
+    },
+    async removeCode(ref) {
+      if (!ref.externalId) return; // PIN expires on its own at the end of its window
+      await lockRequest(`${deviceUrl}/pins/${encodeURIComponent(ref.externalId)}`, { method: 'DELETE', headers });
+    },
+  };
+}
+
+// In-memory lock for tests and local development, keyed by external id
+export const fakeLockCodes = new Map<string, LockCodeGrant>();
+
+export interface FakeSmartLockOptions {
+  failPushes?: number; // Fail this many pushes before succeeding
+  failRemovals?: number;
+}
+
+export function createFakeSmartLockProvider(options: FakeSmartLockOptions = {}): SmartLockProvider {
+  let pushFailures = options.failPushes ?? 0;
+  let removeFailures = options.failRemovals ?? 0;
+
+  return {
+    type: 'fake',
+    async pushCode(grant) {
+      if (pushFailures > 0) {
+        pushFailures--;
+        throw new Error('Fake lock is offline');
+      }
+      const externalId = `fake-${grant.bookingId}-${fakeLockCodes.size + 1}`;
+      fakeLockCodes.set(externalId, grant);
+      return { externalId };
+    },
+    async removeCode(ref) {
+      if (removeFailures > 0) {
+        removeFailures--;
+        throw new Error('Fake lock is offline');
+      }
+      if (ref.externalId) {
+        fakeLockCodes.delete(ref.externalId);
+        return;
+      }
+      for (const [id, grant] of Array.from(fakeLockCodes.entries())) {
+        if (grant.bookingId === ref.bookingId) fakeLockCodes.delete(id);
+      }
+    },
+  };
+}
+
+/**
+ * Build the adapter for a parsed provider config.
+ */
+export function createSmartLockProvider(config: SmartLockProviderConfig): SmartLockProvider {
+  switch (config.type) {
+    case 'http_webhook':
+      return createHttpWebhookProvider(config);
+    case 'nuki':
+      return createNukiProvider(config);
+    case 'igloohome':
+      return createIgloohomeProvider(config);
+    case 'fake':
+      return createFakeSmartLockProvider();
+  }
+}
+
+/**
+ * Adapter for a kitchen's smartLockConfig, or null when codes are managed by hand.
+ */
+export function getSmartLockProvider(smartLockConfig: unknown): SmartLockProvider | null {
+  const config = parseSmartLockProviderConfig(smartLockConfig);
+  return config ? createSmartLockProvider(config) : null;
+}
@@ -27,6 +27,7 @@ import {
 } from "@shared/schema";
 import { eq, desc, and, or, inArray, lt } from "drizzle-orm";
 import { logger } from "../logger";
+import { buildConditionPhotoDetails, readConditionPhotos } from "./photo-comparison-service";
 
 // ============================================================================
 // TYPES
@@ -124,6 +125,7 @@ export interface AutoClearResult {
  * @param chefId - ID of the chef making the request
  * @param checkoutNotes - Optional notes from chef
  * @param checkoutPhotoUrls - Optional array of R2 URLs for verification photos
+ * @param checkoutPhotosByRequirement - The same photos keyed by PhotoRequirement id
  */
 export async function requestStorageCheckout(
   storageBookingId: number,
@@ -131,6 +133,7 @@ export async function requestStorageCheckout(
   checkoutNotes?: string,
   checkoutPhotoUrls?: string[],
   checkoutChecklistItems?: Array<{ id: string; label: string; checked: boolean }>,
+  checkoutPhotosByRequirement?: Record<string, string[]>,
 ): Promise<CheckoutRequestResult> {
   try {
     // Validate input
@@ -145,6 +148,7 @@ export async function requestStorageCheckout(
     const [booking] = await db
       .select({
         booking: storageBookings,
+        kitchenId: storageListings.kitchenId,
         locationId: kitchens.locationId,
       })
       .from(storageBookings)
@@ -159,6 +163,7 @@ export async function requestStorageCheckout(
 
     const row = booking.booking;
     const locationId = booking.locationId;
+    const checklistScope = { kitchenId: booking.kitchenId, storageListingId: row.storageListingId };
 
     // Verify ownership
     if (row.chefId !== chefId) {
@@ -204,13 +209,13 @@ export async function requestStorageCheckout(
 
     // Enforce photo requirements against the manager-configured checklist.
     const { validateRequiredPhotos, validateRequiredChecklistItems } = await import('./kitchen-checkout-service');
-    const photoValidation = await validateRequiredPhotos(locationId, 'storage_checkout', checkoutPhotoUrls);
+    const photoValidation = await validateRequiredPhotos(locationId, 'storage_checkout', checkoutPhotoUrls, checklistScope);
     if (!photoValidation.valid) {
       return { success: false, error: photoValidation.error };
     }
 
     // Enforce checklist item requirements against the manager-configured checklist.
-    const checklistValidation = await validateRequiredChecklistItems(locationId, 'storage_checkout', checkoutChecklistItems);
+    const checklistValidation = await validateRequiredChecklistItems(locationId, 'storage_checkout', checkoutChecklistItems, checklistScope);
     if (!checklistValidation.valid) {
       return { success: false, error: checklistValidation.error };
     }
@@ -223,6 +228,7 @@ export async function requestStorageCheckout(
         checkoutRequestedAt: new Date(),
         checkoutNotes: checkoutNotes || null,
         checkoutPhotoUrls: checkoutPhotoUrls || [],
+        checkoutPhotoDetails: buildConditionPhotoDetails(checkoutPhotoUrls, checkoutPhotosByRequirement, chefId, new Date()),
         checkoutChecklistItems: checkoutChecklistItems || [],
         // Clear any previous denial
         checkoutDeniedAt: null,
@@ -268,6 +274,7 @@ export async function requestStorageCheckout(
  * @param checkinNotes - Optional notes from chef
  * @param checkinPhotoUrls - Optional array of R2 URLs for move-in photos
  * @param checkinChecklistItems - Optional array of completed checklist items
+ * @param checkinPhotosByRequirement - The photos keyed by PhotoRequirement id
  */
 export async function requestStorageCheckin(
   storageBookingId: number,
@@ -275,6 +282,7 @@ export async function requestStorageCheckin(
   checkinNotes?: string,
   checkinPhotoUrls?: string[],
   checkinChecklistItems?: Array<{ id: string; label: string; checked: boolean }>,
+  checkinPhotosByRequirement?: Record<string, string[]>,
 ): Promise<CheckinRequestResult> {
   try {
     // Validate input
@@ -289,6 +297,7 @@ export async function requestStorageCheckin(
     const [booking] = await db
       .select({
         booking: storageBookings,
+        kitchenId: storageListings.kitchenId,
         locationId: kitchens.locationId,
       })
       .from(storageBookings)
@@ -303,6 +312,7 @@ export async function requestStorageCheckin(
 
     const row = booking.booking;
     const locationId = booking.locationId;
+    const checklistScope = { kitchenId: booking.kitchenId, storageListingId: row.storageListingId };
 
     // Verify ownership
     if (row.chefId !== chefId) {
@@ -335,13 +345,13 @@ export async function requestStorageCheckin(
 
     // Enforce photo requirements against the manager-configured check-in checklist.
     const { validateRequiredPhotos, validateRequiredChecklistItems } = await import('./kitchen-checkout-service');
-    const photoValidation = await validateRequiredPhotos(locationId, 'storage_checkin', checkinPhotoUrls);
+    const photoValidation = await validateRequiredPhotos(locationId, 'storage_checkin', checkinPhotoUrls, checklistScope);
     if (!photoValidation.valid) {
       return { success: false, error: photoValidation.error };
     }
 
     // Enforce checklist item requirements against the manager-configured check-in checklist.
-    const checklistValidation = await validateRequiredChecklistItems(locationId, 'storage_checkin', checkinChecklistItems);
+    const checklistValidation = await validateRequiredChecklistItems(locationId, 'storage_checkin', checkinChecklistItems, checklistScope);
     if (!checklistValidation.valid) {
       return { success: false, error: checklistValidation.error };
     }
@@ -354,6 +364,7 @@ export async function requestStorageCheckin(
         checkinCompletedAt: new Date(),
         checkinNotes: checkinNotes || null,
         checkinPhotoUrls: checkinPhotoUrls || [],
+        checkinPhotoDetails: buildConditionPhotoDetails(checkinPhotoUrls, checkinPhotosByRequirement, chefId, new Date()),
         checkinChecklistItems: checkinChecklistItems || [],
         updatedAt: new Date(),
       })
@@ -431,6 +442,10 @@ export async function addCheckinPhotos(
       .update(storageBookings)
       .set({
         checkinPhotoUrls: allPhotos,
+        checkinPhotoDetails: [
+          ...readConditionPhotos(existingPhotos, booking.checkinPhotoDetails, { uploadedAt: booking.checkinCompletedAt, uploadedBy: booking.chefId }),
+          ...buildConditionPhotoDetails(newPhotoUrls, null, chefId, new Date()),
+        ],
         updatedAt: new Date(),
       })
       .where(eq(storageBookings.id, storageBookingId));
@@ -499,6 +514,10 @@ export async function addCheckoutPhotos(
       .update(storageBookings)
       .set({
         checkoutPhotoUrls: allPhotos,
+        checkoutPhotoDetails: [
+          ...readConditionPhotos(existingPhotos, booking.checkoutPhotoDetails, { uploadedAt: booking.checkoutRequestedAt, uploadedBy: booking.chefId }),
+          ...buildConditionPhotoDetails(newPhotoUrls, null, chefId, new Date()),
+        ],
         updatedAt: new Date(),
       })
       .where(eq(storageBookings.id, storageBookingId));
@@ -855,6 +874,7 @@ async function processCheckoutClear(
       id: storageBookings.id,
       chefId: storageBookings.chefId,
       checkoutStatus: storageBookings.checkoutStatus,
+      kitchenBookingId: storageBookings.kitchenBookingId,
     })
     .from(storageBookings)
     .where(eq(storageBookings.id, storageBookingId))
@@ -900,6 +920,14 @@ async function processCheckoutClear(
     logger.error(`[StorageCheckout] Error sending cleared notification:`, notifyError);
   }
 
+  // The kitchen booking's security deposit also covers bundled storage
+  if (booking.kitchenBookingId) {
+    const kitchenBookingId = booking.kitchenBookingId;
+    import('./security-deposit-service')
+      .then(({ releaseSecurityDepositIfSettled }) => releaseSecurityDepositIfSettled(kitchenBookingId))
+      .catch(err => logger.error(`[StorageCheckout] Error releasing security deposit:`, err));
+  }
+
   return {
     success: true,
     storageBookingId,
@@ -0,0 +1,651 @@
+import { logger } from "../logger";
+/**
+ * Storage Subscription Service — Monthly Auto-Renewing Storage
+ *
+ * Turns a confirmed, paid storage booking into a monthly subscription instead
+ * of extending it through pendingStorageExtensions and a new Checkout session.
+ *
+ * BILLING:
+ *   - Subscriptions renew on the 1st of each month at the listing's
+ *     `monthlySubscriptionPrice`, locked in when the subscription starts.
+ *   - Starting is prorated: the first charge covers the booking's current end
+ *     date up to the next 1st, as a share of that month's days.
+ *   - Every charge (plus the kitchen's tax rate) is made off-session with the
+ *     booking's saved `stripePaymentMethodId`. The payment webhooks sync the
+ *     Stripe fee and transfer the manager's share, as for other off-session charges.
+ *   - `storageBookings.endDate` is always the paid-through date; each paid
+ *     period moves it to the next 1st.
+ *
+ * CANCELLING: the chef cancels at period end. Storage stays paid until then and
+ * the booking ends on its normal end date (checkout, or overstay if not cleared).
+ *
+ * DUNNING: a failed renewal marks the subscription past_due and is retried
+ * after STORAGE_RENEWAL_RETRY_DAYS. Overstay detection skips live subscriptions,
+ * so only once retries are exhausted (unpaid) does the booking reach
+ * overstay-penalty-service, counted from the paid-through date.
+ */
+
+import { db } from "../db";
+import {
+  kitchens,
+  locations,
+  storageBookings,
+  storageListings,
+  storageOverstayRecords,
+  storageSubscriptions,
+  users,
+  type StorageSubscription,
+  type StorageSubscriptionStatus,
+} from "@shared/schema";
+import { and, desc, eq, inArray, lte, or } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StorageSubscriptionPreview {
+  monthlyPriceCents: number;
+  taxRatePercent: number;
+  periodStart: string; // Current paid-through date of the booking
+  periodEnd: string; // First renewal date (the next 1st)
+  proratedDays: number;
+  daysInMonth: number;
+  proratedBaseCents: number;
+  proratedTaxCents: number;
+  amountDueCents: number; // Charged now
+  monthlyTotalCents: number; // Charged on each renewal, tax included
+}
+
+export type StorageSubscriptionResult =
+  | { success: true; subscription: StorageSubscription }
+  | { success: false; error: string; status: 400 | 402 | 403 | 404 | 409 };
+
+export interface StorageRenewalResults {
+  renewed: number;
+  failed: number;
+  exhausted: number;
+  canceled: number;
+  errors: number;
+}
+
+interface SubscriptionContext {
+  booking: typeof storageBookings.$inferSelect;
+  listingName: string;
+  monthlySubscriptionPrice: string | null;
+  taxRatePercent: number;
+  managerId: number | null;
+}
+
+/** Days after each failed renewal before it is charged again */
+export const STORAGE_RENEWAL_RETRY_DAYS = [1, 3, 5];
+
+const LIVE_STATUSES: StorageSubscriptionStatus[] = ["active", "past_due"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** The 1st of the month after `date`, at midnight UTC */
+export function getNextBillingDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Prorated charge from `periodStart` to the next 1st. A start on the 1st is a
+ * full month.
+ */
+export function calculateProratedPeriod(monthlyPriceCents: number, periodStart: Date) {
+  const start = new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth(), periodStart.getUTCDate()));
+  const periodEnd = getNextBillingDate(start);
+  const daysInMonth = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate();
+  const proratedDays = Math.round((periodEnd.getTime() - start.getTime()) / DAY_MS);
+  return {
+    periodStart: start,
+    periodEnd,
+    proratedDays,
+    daysInMonth,
+    amountCents: Math.round((monthlyPriceCents * proratedDays) / daysInMonth),
+  };
+}
+
+/** When to retry after the `failedAttempts`-th failure, or null once retries are exhausted */
+export function getNextRenewalRetryAt(failedAttempts: number, now: Date): Date | null {
+  const delayDays = STORAGE_RENEWAL_RETRY_DAYS[failedAttempts - 1];
+  if (delayDays === undefined) return null;
+  return new Date(now.getTime() + delayDays * DAY_MS);
+}
+
+/** Why a storage booking cannot start a subscription, or null when it can */
+export function getSubscriptionBlockReason(
+  booking: {
+    status: string;
+    paymentStatus: string | null;
+    checkoutStatus: string | null;
+    stripePaymentMethodId: string | null;
+    stripeCustomerId: string | null;
+    endDate: Date;
+  },
+  monthlySubscriptionPrice: string | number | null,
+  now: Date
+): string | null {
+  if (!monthlySubscriptionPrice || Number(monthlySubscriptionPrice) <= 0) {
+    return "This storage is not offered as a monthly subscription";
+  }
+  if (booking.status !== "confirmed") return "Only confirmed storage bookings can be switched to monthly";
+  if (booking.paymentStatus !== "paid" && booking.paymentStatus !== "partially_refunded") {
+    return "The booking must be paid before it can renew monthly";
+  }
+  if (booking.checkoutStatus && booking.checkoutStatus !== "active") {
+    return "Checkout has already been requested for this storage";
+  }
+  if (!booking.stripePaymentMethodId || !booking.stripeCustomerId) {
+    return "No saved payment method on this booking. Extend it once through checkout first.";
+  }
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (booking.endDate.getTime() < today.getTime()) {
+    return "This booking has already ended. Resolve the overstay before subscribing.";
+  }
+  return null;
+}
+
+function calculateTaxCents(amountCents: number, taxRatePercent: number): number {
+  return Math.round((amountCents * taxRatePercent) / 100);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/** The active or past-due subscription on a storage booking, if any */
+export async function getLiveStorageSubscription(storageBookingId: number): Promise<StorageSubscription | null> {
+  const [subscription] = await db
+    .select()
+    .from(storageSubscriptions)
+    .where(and(
+      eq(storageSubscriptions.storageBookingId, storageBookingId),
+      inArray(storageSubscriptions.status, LIVE_STATUSES)
+    ))
+    .limit(1);
+  return subscription ?? null;
+}
+
+/** Storage bookings overstay detection must leave alone while renewals are live */
+export async function getLiveSubscriptionBookingIds(): Promise<Set<number>> {
+  const rows = await db
+    .select({ storageBookingId: storageSubscriptions.storageBookingId })
+    .from(storageSubscriptions)
+    .where(inArray(storageSubscriptions.status, LIVE_STATUSES));
+  return new Set(rows.map((row) => row.storageBookingId));
+}
+
+async function loadSubscriptionContext(storageBookingId: number): Promise<SubscriptionContext | null> {
+  const [row] = await db
+    .select({
+      booking: storageBookings,
+      listingName: storageListings.name,
+      monthlySubscriptionPrice: storageListings.monthlySubscriptionPrice,
+      taxRatePercent: kitchens.taxRatePercent,
+      managerId: locations.managerId,
+    })
+    .from(storageBookings)
+    .innerJoin(storageListings, eq(storageBookings.storageListingId, storageListings.id))
+    .innerJoin(kitchens, eq(storageListings.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .where(eq(storageBookings.id, storageBookingId))
+    .limit(1);
+
+  if (!row) return null;
+  return {
+    booking: row.booking,
+    listingName: row.listingName,
+    monthlySubscriptionPrice: row.monthlySubscriptionPrice,
+    taxRatePercent: row.taxRatePercent != null ? Number(row.taxRatePercent) : 0,
+    managerId: row.managerId ?? null,
+  };
+}
+
+/**
+ * The chef's view of a storage booking's subscription: the live subscription,
+ * or what starting one would cost now (null with a reason when it is not offered).
+ */
+export async function getChefStorageSubscription(storageBookingId: number, chefId: number) {
+  const context = await loadSubscriptionContext(storageBookingId);
+  if (!context) return { success: false as const, error: "Storage booking not found", status: 404 as const };
+  if (context.booking.chefId !== chefId) {
+    return { success: false as const, error: "You don't have permission to view this booking", status: 403 as const };
+  }
+
+  const [subscription] = await db
+    .select()
+    .from(storageSubscriptions)
+    .where(eq(storageSubscriptions.storageBookingId, storageBookingId))
+    .orderBy(desc(storageSubscriptions.createdAt))
+    .limit(1);
+
+  if (subscription && LIVE_STATUSES.includes(subscription.status as StorageSubscriptionStatus)) {
+    return { success: true as const, subscription, preview: null, unavailableReason: null };
+  }
+
+  const unavailableReason = getSubscriptionBlockReason(context.booking, context.monthlySubscriptionPrice, new Date());
+  return {
+    success: true as const,
+    subscription: subscription ?? null,
+    preview: unavailableReason ? null : buildPreview(context),
+    unavailableReason,
+  };
+}
+
+function buildPreview(context: SubscriptionContext): StorageSubscriptionPreview {
+  const monthlyPriceCents = Math.round(Number(context.monthlySubscriptionPrice));
+  const period = calculateProratedPeriod(monthlyPriceCents, new Date(context.booking.endDate));
+  const proratedTaxCents = calculateTaxCents(period.amountCents, context.taxRatePercent);
+  return {
+    monthlyPriceCents,
+    taxRatePercent: context.taxRatePercent,
+    periodStart: period.periodStart.toISOString(),
+    periodEnd: period.periodEnd.toISOString(),
+    proratedDays: period.proratedDays,
+    daysInMonth: period.daysInMonth,
+    proratedBaseCents: period.amountCents,
+    proratedTaxCents,
+    amountDueCents: period.amountCents + proratedTaxCents,
+    monthlyTotalCents: monthlyPriceCents + calculateTaxCents(monthlyPriceCents, context.taxRatePercent),
+  };
+}
+
+/** Subscriptions on storage at a manager's locations, newest first */
+export async function getManagerStorageSubscriptions(locationIds: number[], includeEnded = false) {
+  if (locationIds.length === 0) return [];
+
+  return db
+    .select({
+      id: storageSubscriptions.id,
+      storageBookingId: storageSubscriptions.storageBookingId,
+      status: storageSubscriptions.status,
+      monthlyPriceCents: storageSubscriptions.monthlyPriceCents,
+      currentPeriodStart: storageSubscriptions.currentPeriodStart,
+      currentPeriodEnd: storageSubscriptions.currentPeriodEnd,
+      cancelAtPeriodEnd: storageSubscriptions.cancelAtPeriodEnd,
+      failedAttempts: storageSubscriptions.failedAttempts,
+      nextRetryAt: storageSubscriptions.nextRetryAt,
+      lastFailureReason: storageSubscriptions.lastFailureReason,
+      canceledAt: storageSubscriptions.canceledAt,
+      createdAt: storageSubscriptions.createdAt,
+      bookingReferenceCode: storageBookings.referenceCode,
+      bookingStartDate: storageBookings.startDate,
+      storageName: storageListings.name,
+      storageType: storageListings.storageType,
+      kitchenName: kitchens.name,
+      locationId: locations.id,
+      locationName: locations.name,
+      chefId: storageSubscriptions.chefId,
+      chefEmail: users.username,
+    })
+    .from(storageSubscriptions)
+    .innerJoin(storageBookings, eq(storageSubscriptions.storageBookingId, storageBookings.id))
+    .innerJoin(storageListings, eq(storageSubscriptions.storageListingId, storageListings.id))
+    .innerJoin(kitchens, eq(storageListings.kitchenId, kitchens.id))
+    .innerJoin(locations, eq(kitchens.locationId, locations.id))
+    .leftJoin(users, eq(storageSubscriptions.chefId, users.id))
+    .where(and(
+      inArray(locations.id, locationIds),
+      includeEnded ? undefined : inArray(storageSubscriptions.status, LIVE_STATUSES)
+    ))
+    .orderBy(desc(storageSubscriptions.createdAt));
+}
+
+// ============================================================================
+// CHEF ACTIONS
+// ============================================================================
+
+/**
+ * Start a monthly subscription on a storage booking: charge the prorated first
+ * period off-session and move the booking's end date to the next 1st.
+ */
+export async function startStorageSubscription(storageBookingId: number, chefId: number): Promise<StorageSubscriptionResult> {
+  const context = await loadSubscriptionContext(storageBookingId);
+  if (!context) return { success: false, error: "Storage booking not found", status: 404 };
+
+  const { booking } = context;
+  if (booking.chefId !== chefId) {
+    return { success: false, error: "You don't have permission to change this booking", status: 403 };
+  }
+
+  const blockReason = getSubscriptionBlockReason(booking, context.monthlySubscriptionPrice, new Date());
+  if (blockReason) return { success: false, error: blockReason, status: 400 };
+
+  if (await getLiveStorageSubscription(storageBookingId)) {
+    return { success: false, error: "This storage already renews monthly", status: 409 };
+  }
+
+  // Same rule as extensions: settle penalties before renewing
+  const [activeOverstay] = await db
+    .select({ id: storageOverstayRecords.id })
+    .from(storageOverstayRecords)
+    .where(and(
+      eq(storageOverstayRecords.storageBookingId, storageBookingId),
+      inArray(storageOverstayRecords.status, ['detected', 'grace_period', 'pending_review', 'penalty_approved', 'charge_pending', 'charge_failed', 'escalated'])
+    ))
+    .limit(1);
+  if (activeOverstay) {
+    return { success: false, error: "There is an active overstay penalty that must be resolved first", status: 409 };
+  }
+
+  const preview = buildPreview(context);
+  const periodStart = new Date(preview.periodStart);
+  const periodEnd = new Date(preview.periodEnd);
+
+  let paymentIntentId: string;
+  try {
+    paymentIntentId = await chargeSubscriptionPeriod(context, {
+      baseCents: preview.proratedBaseCents,
+      taxCents: preview.proratedTaxCents,
+      periodStart,
+      periodEnd,
+      reason: "start",
+      idempotencyKey: `storage_subscription_start_${booking.id}_${toDateString(periodEnd)}`,
+    });
+  } catch (error) {
+    logger.error(`[StorageSubscription] First charge failed for storage booking ${booking.id}:`, error);
+    return { success: false, error: "We couldn't charge your saved card for the first period", status: 402 };
+  }
+
+  const subscription = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(storageSubscriptions)
+      .values({
+        storageBookingId: booking.id,
+        storageListingId: booking.storageListingId,
+        chefId,
+        status: "active",
+        monthlyPriceCents: preview.monthlyPriceCents,
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: periodEnd,
+        lastPaymentIntentId: paymentIntentId,
+      })
+      .returning();
+
+    await extendBookingThrough(tx, booking, periodEnd, preview.proratedBaseCents);
+    return created;
+  });
+
+  logger.info(`[StorageSubscription] Storage booking ${booking.id} now renews monthly (subscription ${subscription.id})`, {
+    amountDueCents: preview.amountDueCents,
+    paidThrough: preview.periodEnd,
+  });
+
+  return { success: true, subscription };
+}
+
+/** Cancel at period end, or undo a pending cancellation */
+export async function setStorageSubscriptionCancelAtPeriodEnd(
+  storageBookingId: number,
+  chefId: number,
+  cancelAtPeriodEnd: boolean
+): Promise<StorageSubscriptionResult> {
+  const subscription = await getLiveStorageSubscription(storageBookingId);
+  if (!subscription) return { success: false, error: "This storage does not renew monthly", status: 404 };
+  if (subscription.chefId !== chefId) {
+    return { success: false, error: "You don't have permission to change this subscription", status: 403 };
+  }
+  if (!cancelAtPeriodEnd && subscription.status !== "active") {
+    return { success: false, error: "Update your payment method before resuming this subscription", status: 400 };
+  }
+
+  const [updated] = await db
+    .update(storageSubscriptions)
+    .set({ cancelAtPeriodEnd, updatedAt: new Date() })
+    .where(eq(storageSubscriptions.id, subscription.id))
+    .returning();
+
+  logger.info(`[StorageSubscription] Subscription ${subscription.id} ${cancelAtPeriodEnd ? "set to cancel" : "resumed"} at period end`);
+  return { success: true, subscription: updated };
+}
+
+// ============================================================================
+// RENEWALS (daily cron)
+// ============================================================================
+
+/**
+ * Charge subscriptions whose period has ended and retry past-due ones that are
+ * due. Subscriptions set to cancel, or whose storage is being checked out, end
+ * at their period end without a charge.
+ */
+export async function processStorageSubscriptionRenewals(now: Date = new Date()): Promise<StorageRenewalResults> {
+  const results: StorageRenewalResults = { renewed: 0, failed: 0, exhausted: 0, canceled: 0, errors: 0 };
+
+  const due = await db
+    .select()
+    .from(storageSubscriptions)
+    .where(or(
+      and(eq(storageSubscriptions.status, "active"), lte(storageSubscriptions.currentPeriodEnd, now)),
+      and(eq(storageSubscriptions.status, "past_due"), lte(storageSubscriptions.nextRetryAt, now))
+    ));
+
+  for (const subscription of due) {
+    try {
+      const outcome = await renewSubscription(subscription, now);
+      results[outcome]++;
+    } catch (error) {
+      logger.error(`[StorageSubscription] Error renewing subscription ${subscription.id}:`, error);
+      results.errors++;
+    }
+  }
+
+  return results;
+}
+
+async function renewSubscription(
+  subscription: StorageSubscription,
+  now: Date
+): Promise<"renewed" | "failed" | "exhausted" | "canceled"> {
+  const context = await loadSubscriptionContext(subscription.storageBookingId);
+  const booking = context?.booking;
+  const storageEnded = !booking
+    || booking.status !== "confirmed"
+    || (!!booking.checkoutStatus && booking.checkoutStatus !== "active");
+
+  if (subscription.cancelAtPeriodEnd || storageEnded) {
+    await db
+      .update(storageSubscriptions)
+      .set({ status: "canceled", canceledAt: now, nextRetryAt: null, updatedAt: now })
+      .where(eq(storageSubscriptions.id, subscription.id));
+    logger.info(`[StorageSubscription] Subscription ${subscription.id} ended at period end`);
+    return "canceled";
+  }
+
+  const periodStart = subscription.currentPeriodEnd;
+  const periodEnd = getNextBillingDate(periodStart);
+  const baseCents = subscription.monthlyPriceCents;
+  const taxCents = calculateTaxCents(baseCents, context!.taxRatePercent);
+
+  let paymentIntentId: string;
+  try {
+    paymentIntentId = await chargeSubscriptionPeriod(context!, {
+      baseCents,
+      taxCents,
+      periodStart,
+      periodEnd,
+      reason: "renewal",
+      subscriptionId: subscription.id,
+      idempotencyKey: `storage_subscription_${subscription.id}_${toDateString(periodStart)}_${subscription.failedAttempts}`,
+    });
+  } catch (error) {
+    return recordRenewalFailure(subscription, context!, error, now);
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(storageSubscriptions)
+      .set({
+        status: "active",
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: periodEnd,
+        failedAttempts: 0,
+        nextRetryAt: null,
+        lastFailureReason: null,
+        lastPaymentIntentId: paymentIntentId,
+        updatedAt: now,
+      })
+      .where(eq(storageSubscriptions.id, subscription.id));
+
+    await extendBookingThrough(tx, context!.booking, periodEnd, baseCents);
+  });
+
+  logger.info(`[StorageSubscription] Subscription ${subscription.id} renewed through ${toDateString(periodEnd)}`);
+  return "renewed";
+}
+
+async function recordRenewalFailure(
+  subscription: StorageSubscription,
+  context: SubscriptionContext,
+  error: unknown,
+  now: Date
+): Promise<"failed" | "exhausted"> {
+  const failedAttempts = subscription.failedAttempts + 1;
+  const nextRetryAt = getNextRenewalRetryAt(failedAttempts, now);
+  const reason = error instanceof Error ? error.message : String(error);
+
+  await db
+    .update(storageSubscriptions)
+    .set({
+      status: nextRetryAt ? "past_due" : "unpaid",
+      failedAttempts,
+      nextRetryAt,
+      lastFailureReason: reason,
+      ...(!nextRetryAt && { canceledAt: now }),
+      updatedAt: now,
+    })
+    .where(eq(storageSubscriptions.id, subscription.id));
+
+  logger.warn(`[StorageSubscription] Renewal ${failedAttempts} failed for subscription ${subscription.id}`, {
+    reason,
+    nextRetryAt: nextRetryAt?.toISOString() ?? null,
+  });
+
+  if (subscription.chefId) {
+    const { notificationService } = await import("./notification.service");
+    await notificationService.notifyChefStorageSubscriptionPaymentFailed({
+      chefId: subscription.chefId,
+      storageBookingId: subscription.storageBookingId,
+      storageName: context.listingName,
+      amountCents: subscription.monthlyPriceCents,
+      paidThrough: formatDate(subscription.currentPeriodEnd),
+      nextRetryAt: nextRetryAt ? formatDate(nextRetryAt) : null,
+    }).catch((notifyError) =>
+      logger.error(`[StorageSubscription] Notification error for subscription ${subscription.id}:`, notifyError)
+    );
+  }
+
+  // From here the booking is an ordinary expired booking for overstay detection
+  return nextRetryAt ? "failed" : "exhausted";
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+// ============================================================================
+// SETTLEMENT
+// ============================================================================
+
+type DbExecutor = Pick<typeof db, "update">;
+
+async function extendBookingThrough(
+  executor: DbExecutor,
+  booking: typeof storageBookings.$inferSelect,
+  periodEnd: Date,
+  baseCents: number
+) {
+  const totalPriceCents = Math.round(parseFloat(String(booking.totalPrice ?? "0")) || 0) + baseCents;
+  await executor
+    .update(storageBookings)
+    .set({ endDate: periodEnd, totalPrice: totalPriceCents.toString(), updatedAt: new Date() })
+    .where(eq(storageBookings.id, booking.id));
+}
+
+async function chargeSubscriptionPeriod(
+  context: SubscriptionContext,
+  charge: {
+    baseCents: number;
+    taxCents: number;
+    periodStart: Date;
+    periodEnd: Date;
+    reason: "start" | "renewal";
+    subscriptionId?: number;
+    idempotencyKey: string;
+  }
+): Promise<string> {
+  const { booking, managerId } = context;
+  const { chargeSavedPaymentMethod } = await import("./stripe-service");
+  const { createPaymentTransaction } = await import("./payment-transactions-service");
+
+  let managerConnectAccountId = "";
+  if (managerId) {
+    const [manager] = await db
+      .select({ stripeConnectAccountId: users.stripeConnectAccountId })
+      .from(users)
+      .where(eq(users.id, managerId))
+      .limit(1);
+    managerConnectAccountId = manager?.stripeConnectAccountId || "";
+  }
+
+  const amountCents = charge.baseCents + charge.taxCents;
+  const metadata = {
+    type: "storage_subscription",
+    subscription_reason: charge.reason,
+    storage_booking_id: booking.id.toString(),
+    ...(charge.subscriptionId && { storage_subscription_id: charge.subscriptionId.toString() }),
+    chef_id: String(booking.chefId ?? ""),
+    manager_id: managerId?.toString() || "",
+    manager_connect_account_id: managerConnectAccountId,
+    period_start: toDateString(charge.periodStart),
+    period_end: toDateString(charge.periodEnd),
+    base_price_cents: charge.baseCents.toString(),
+    tax_cents: charge.taxCents.toString(),
+  };
+
+  const payment = await chargeSavedPaymentMethod({
+    amount: amountCents,
+    customerId: booking.stripeCustomerId!,
+    paymentMethodId: booking.stripePaymentMethodId!,
+    metadata,
+    statementDescriptorSuffix: "STORAGE MONTHLY",
+    idempotencyKey: charge.idempotencyKey,
+    currency: (booking.currency || "CAD").toLowerCase(),
+  });
+  if (payment.status !== "succeeded") {
+    throw new Error(`PaymentIntent ${payment.id} is ${payment.status}`);
+  }
+
+  // ARCHITECTURE — Separate Charges and Transfers: seeded like other off-session
+  // charges; the charge webhooks sync the Stripe fee and transfer the manager's share.
+  try {
+    await createPaymentTransaction({
+      bookingId: booking.id,
+      bookingType: "storage",
+      chefId: booking.chefId ?? null,
+      managerId,
+      amount: amountCents,
+      baseAmount: charge.baseCents,
+      serviceFee: 0,
+      managerRevenue: amountCents,
+      taxCents: charge.taxCents,
+      currency: (booking.currency || "CAD").toUpperCase(),
+      paymentIntentId: payment.id,
+      chargeId: payment.chargeId || undefined,
+      status: "succeeded",
+      stripeStatus: payment.status,
+      metadata: { ...metadata, charged_via: "off_session" },
+    }, db);
+  } catch (error) {
+    logger.error(`[StorageSubscription] Failed to record payment transaction for ${payment.id}:`, error);
+  }
+
+  return payment.id;
+}
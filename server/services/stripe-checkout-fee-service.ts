@@ -23,6 +23,7 @@ import { logger } from "../logger";
 
 import { db } from '../db';
 import { platformSettings } from '@shared/schema';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, normalizeCurrency, type SupportedCurrency } from '@shared/currency-utils';
 
 export interface FeeCalculationResult {
   bookingPriceInCents: number;
@@ -57,6 +58,8 @@ export interface FeeConfig {
   stripeFlatFeeCents: number; // Display-only estimate (e.g., 30)
   platformCommissionRate: number; // Real: deducted from manager transfer
   minimumApplicationFeeCents: number; // Real: floor for platform commission
+  // Display-only Stripe estimates for non-CAD locations (settings suffixed _usd, etc.)
+  stripeEstimatesByCurrency?: Partial<Record<SupportedCurrency, { stripePercentageFee: number; stripeFlatFeeCents: number }>>;
 }
 
 /**
@@ -119,6 +122,17 @@ export async function getFeeConfig(): Promise<FeeConfig> {
       minimumApplicationFeeCents: parseIntOrDefault(settingsMap.get('minimum_application_fee_cents'), DEFAULT_FEE_CONFIG.minimumApplicationFeeCents),
     };
 
+    // Per-currency Stripe estimates fall back to the default (CAD) rates when not configured
+    config.stripeEstimatesByCurrency = {};
+    for (const currency of SUPPORTED_CURRENCIES) {
+      if (currency === DEFAULT_CURRENCY) continue;
+      const suffix = currency.toLowerCase();
+      config.stripeEstimatesByCurrency[currency] = {
+        stripePercentageFee: parseFloatOrDefault(settingsMap.get(`stripe_percentage_fee_${suffix}`), config.stripePercentageFee),
+        stripeFlatFeeCents: parseIntOrDefault(settingsMap.get(`stripe_flat_fee_cents_${suffix}`), config.stripeFlatFeeCents),
+      };
+    }
+
     // Validate configuration
     if (config.stripePercentageFee < 0 || config.stripePercentageFee > 1) {
       logger.warn('Invalid stripe_percentage_fee, using default');
@@ -139,6 +153,17 @@ export async function getFeeConfig(): Promise<FeeConfig> {
   }
 }
 
+/**
+ * Stripe processing fee estimate for a currency (display only)
+ */
+export function getStripeFeeEstimate(
+  config: FeeConfig,
+  currency: string | null | undefined = DEFAULT_CURRENCY
+): { stripePercentageFee: number; stripeFlatFeeCents: number } {
+  const override = config.stripeEstimatesByCurrency?.[normalizeCurrency(currency)];
+  return override ?? { stripePercentageFee: config.stripePercentageFee, stripeFlatFeeCents: config.stripeFlatFeeCents };
+}
+
 /**
  * Clear the fee configuration cache
  * Call this when admin updates fee settings
@@ -303,20 +328,23 @@ export function calculateCheckoutFeesWithRates(
  * See `stripe-transfer-service.ts` for the actual money movement.
  *
  * @param bookingPriceInCents - Booking price in cents (integer)
+ * @param currency - Currency the booking is charged in (selects the Stripe estimate)
  * @returns Fee breakdown with all amounts in cents (estimates only)
  */
 export async function calculateCheckoutFeesAsync(
-  bookingPriceInCents: number
+  bookingPriceInCents: number,
+  currency: string = DEFAULT_CURRENCY
 ): Promise<FeeCalculationResult> {
   if (bookingPriceInCents <= 0) {
     throw new Error('Booking price must be greater than 0');
   }
 
   const config = await getFeeConfig();
+  const stripeEstimate = getStripeFeeEstimate(config, currency);
 
   // Estimated Stripe fee (display only — real fee read from balance_transaction at transfer time)
   const stripeProcessingFeeInCents = Math.round(
-    bookingPriceInCents * config.stripePercentageFee + config.stripeFlatFeeCents
+    bookingPriceInCents * stripeEstimate.stripePercentageFee + stripeEstimate.stripeFlatFeeCents
   );
   const platformCommissionInCents = Math.round(
     bookingPriceInCents * config.platformCommissionRate
@@ -341,6 +369,6 @@ export async function calculateCheckoutFeesAsync(
     totalChargeInCents: bookingPriceInCents,
     managerReceivesInCents,
     percentageFeeInCents: stripeProcessingFeeInCents,
-    flatFeeInCents: config.stripeFlatFeeCents,
+    flatFeeInCents: stripeEstimate.stripeFlatFeeCents,
   };
 }
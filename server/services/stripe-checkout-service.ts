@@ -13,6 +13,10 @@ import { logger } from "../logger";
  */
 
 import Stripe from 'stripe';
+import type { SeriesRecurrenceRule } from './booking-series-service';
+import type { KitchenPriceLineItem } from './pricing-service';
+import type { AppliedPromo } from './promo-code-service';
+import type { AppliedWalletCredit } from './chef-wallet-service';
 
 // Initialize Stripe client
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
@@ -61,9 +65,12 @@ export interface CreatePendingCheckoutSessionParams {
     kitchenId: number;
     chefId: number;
     bookingDate: string; // ISO date string
+    endDate?: string; // ISO date string — day endTime falls on for overnight/multi-day bookings
     startTime: string;
     endTime: string;
     selectedSlots?: Array<{ startTime: string; endTime: string }>;
+    /** Kitchen stations reserved at checkout (empty for kitchens without stations) */
+    stationIds?: number[];
     specialNotes?: string;
     selectedStorage?: Array<{ storageListingId: number; startDate: string; endDate: string }>;
     selectedEquipmentIds?: number[];
@@ -71,9 +78,23 @@ export interface CreatePendingCheckoutSessionParams {
     taxCents: number;
     hourlyRateCents: number;
     durationHours: number;
+    /** Kitchen-time rate tiers applied (hourly / daily / weekly) — stored on the booking for invoices */
+    pricingBreakdown?: KitchenPriceLineItem[];
+    /** Promo code applied — totalPriceCents and taxCents are already discounted */
+    promo?: AppliedPromo;
+    /** Wallet credit held for this checkout — comes off the total after tax */
+    wallet?: AppliedWalletCredit;
+    /** Recurring series — webhook creates one booking per occurrence instead of a single booking */
+    series?: {
+      rule: SeriesRecurrenceRule;
+      occurrenceCount: number;
+      perOccurrencePriceCents: number;
+    };
   };
   /** Custom line item name shown to customer (default: 'Kitchen Session Booking') */
   lineItemName?: string;
+  /** Session lifetime (Stripe allows 30 min – 24 h; default 24 h) */
+  expiresInMinutes?: number;
   /** Optional breakdown for separate Stripe line items (kitchen, storage, equipment, tax) */
   lineItemBreakdown?: {
     kitchenPriceCents: number;
@@ -82,9 +103,44 @@ export interface CreatePendingCheckoutSessionParams {
     equipmentItems?: Array<{ name: string; priceCents: number }>;
     taxCents: number;
     taxLabel?: string; // e.g. "Tax (13%)"
+    /** Promo discount taken off the pre-tax items (Stripe line items can't be negative) */
+    discount?: { code: string; amountCents: number };
+    /** Wallet credit taken off every item, tax included */
+    walletCreditCents?: number;
   };
 }
 
+type CheckoutLineItem = {
+  price_data: { currency: string; product_data: { name: string }; unit_amount: number };
+  quantity: number;
+};
+
+/**
+ * Spread a discount over line items, in order, since Stripe Checkout has no
+ * negative line items. Each reduced item is labelled (e.g. "promo SAVE10").
+ */
+function applyDiscountToLineItems(
+  items: CheckoutLineItem[],
+  discount: { label: string; amountCents: number }
+): CheckoutLineItem[] {
+  let remaining = discount.amountCents;
+  return items.map((item) => {
+    if (remaining <= 0) return item;
+    // Keep every item at least 1¢ — Stripe rejects zero-amount line items
+    const reduction = Math.min(remaining, item.price_data.unit_amount - 1);
+    if (reduction <= 0) return item;
+    remaining -= reduction;
+    return {
+      ...item,
+      price_data: {
+        ...item.price_data,
+        product_data: { name: `${item.price_data.product_data.name} (${discount.label}: -$${(reduction / 100).toFixed(2)})` },
+        unit_amount: item.price_data.unit_amount - reduction,
+      },
+    };
+  });
+}
+
 /**
  * ENTERPRISE-GRADE: Create checkout session WITHOUT creating booking first
  * 
@@ -113,6 +169,7 @@ export async function createPendingCheckoutSession(
     bookingData,
     lineItemName = 'Kitchen Session Booking',
     lineItemBreakdown,
+    expiresInMinutes,
   } = params;
 
   // Validate amounts
@@ -135,10 +192,7 @@ export async function createPendingCheckoutSession(
   try {
     // Build line items — separate items for kitchen, storage, equipment, tax
     // This gives customers and managers clear visibility in Stripe Dashboard & receipts
-    let lineItems: Array<{
-      price_data: { currency: string; product_data: { name: string }; unit_amount: number };
-      quantity: number;
-    }>;
+    let lineItems: CheckoutLineItem[];
 
     if (lineItemBreakdown) {
       lineItems = [];
@@ -187,6 +241,14 @@ export async function createPendingCheckoutSession(
         }
       }
 
+      // Promo discount comes off the pre-tax items; tax was already computed on the discounted subtotal
+      if (lineItemBreakdown.discount && lineItemBreakdown.discount.amountCents > 0) {
+        lineItems = applyDiscountToLineItems(lineItems, {
+          label: `promo ${lineItemBreakdown.discount.code}`,
+          amountCents: lineItemBreakdown.discount.amountCents,
+        });
+      }
+
       // Tax line item (only if tax > 0)
       if (lineItemBreakdown.taxCents > 0) {
         lineItems.push({
@@ -199,6 +261,14 @@ export async function createPendingCheckoutSession(
         });
       }
 
+      // Wallet credit pays part of the whole total, tax included
+      if (lineItemBreakdown.walletCreditCents && lineItemBreakdown.walletCreditCents > 0) {
+        lineItems = applyDiscountToLineItems(lineItems, {
+          label: 'wallet credit',
+          amountCents: lineItemBreakdown.walletCreditCents,
+        });
+      }
+
       // Fallback: if breakdown produced no items, use single combined line item
       if (lineItems.length === 0) {
         lineItems.push({
@@ -228,11 +298,12 @@ export async function createPendingCheckoutSession(
     //   No transfer_data, no application_fee_amount. Charge lands on platform balance.
     //   Webhook handles the manager transfer post-capture using actual Stripe fee.
     //   manager_connect_account_id retained in metadata so webhook can find the destination.
+    const metadataType = bookingData.series ? 'kitchen_booking_series' : 'kitchen_booking';
     const paymentIntentData: {
       metadata: Record<string, string>;
     } = {
       metadata: {
-        type: 'kitchen_booking',
+        type: metadataType,
         kitchen_id: bookingData.kitchenId.toString(),
         chef_id: bookingData.chefId.toString(),
         manager_connect_account_id: managerStripeAccountId,
@@ -242,7 +313,7 @@ export async function createPendingCheckoutSession(
     // CRITICAL: Store all booking data in session metadata
     // This data will be used to create the booking in the webhook
     const sessionMetadata: Record<string, string> = {
-      type: 'kitchen_booking',
+      type: metadataType,
       kitchen_id: bookingData.kitchenId.toString(),
       chef_id: bookingData.chefId.toString(),
       booking_date: bookingData.bookingDate,
@@ -258,18 +329,52 @@ export async function createPendingCheckoutSession(
     };
 
     // Store optional fields as JSON strings (Stripe metadata values must be strings)
+    if (bookingData.endDate) {
+      sessionMetadata.end_date = bookingData.endDate;
+    }
     if (bookingData.specialNotes) {
       sessionMetadata.special_notes = bookingData.specialNotes;
     }
     if (bookingData.selectedSlots && bookingData.selectedSlots.length > 0) {
       sessionMetadata.selected_slots = JSON.stringify(bookingData.selectedSlots);
     }
+    if (bookingData.stationIds && bookingData.stationIds.length > 0) {
+      sessionMetadata.station_ids = JSON.stringify(bookingData.stationIds);
+    }
     if (bookingData.selectedStorage && bookingData.selectedStorage.length > 0) {
       sessionMetadata.selected_storage = JSON.stringify(bookingData.selectedStorage);
     }
     if (bookingData.selectedEquipmentIds && bookingData.selectedEquipmentIds.length > 0) {
       sessionMetadata.selected_equipment_ids = JSON.stringify(bookingData.selectedEquipmentIds);
     }
+    if (bookingData.pricingBreakdown && bookingData.pricingBreakdown.length > 0) {
+      const breakdownJson = JSON.stringify(bookingData.pricingBreakdown);
+      // Stripe metadata values are limited to 500 chars; invoices fall back to rate × duration
+      if (breakdownJson.length <= 500) {
+        sessionMetadata.pricing_breakdown = breakdownJson;
+      }
+    }
+    if (bookingData.promo) {
+      sessionMetadata.promo_code = bookingData.promo.code;
+      sessionMetadata.promo_code_id = bookingData.promo.promoCodeId.toString();
+      sessionMetadata.promo_discount_cents = bookingData.promo.discountCents.toString();
+      sessionMetadata.promo_absorbed_by = bookingData.promo.absorbedBy;
+      sessionMetadata.promo_subtotal_before_discount_cents = bookingData.promo.subtotalBeforeDiscountCents.toString();
+      if (bookingData.promo.redemptionId) {
+        sessionMetadata.promo_redemption_id = bookingData.promo.redemptionId.toString();
+      }
+    }
+    if (bookingData.wallet) {
+      sessionMetadata.wallet_hold_id = bookingData.wallet.holdId.toString();
+      sessionMetadata.wallet_applied_cents = bookingData.wallet.appliedCents.toString();
+      sessionMetadata.wallet_platform_funded_cents = bookingData.wallet.platformFundedCents.toString();
+    }
+    // Series: store the rule (not the expanded dates) — 52 dates would exceed Stripe's 500-char value limit
+    if (bookingData.series) {
+      sessionMetadata.series_rule = JSON.stringify(bookingData.series.rule);
+      sessionMetadata.occurrence_count = bookingData.series.occurrenceCount.toString();
+      sessionMetadata.per_occurrence_price_cents = bookingData.series.perOccurrencePriceCents.toString();
+    }
 
     const session = await stripe.checkout.sessions.create({
       mode: 'payment',
@@ -294,6 +399,10 @@ export async function createPendingCheckoutSession(
       success_url: successUrl,
       cancel_url: cancelUrl,
       metadata: sessionMetadata,
+      // Held wallet credit is released once the session can no longer complete
+      ...(expiresInMinutes
+        ? { expires_at: Math.floor(Date.now() / 1000) + expiresInMinutes * 60 }
+        : {}),
       // NOTE: invoice_creation removed — incompatible with capture_method:'manual'
       // Invoices are generated at capture time via payment_intent.succeeded webhook
       // Stripe will send receipt email when payment is actually captured
@@ -315,6 +424,76 @@ export async function createPendingCheckoutSession(
   }
 }
 
+/**
+ * Checkout session for a prepaid wallet package. Captured immediately; the
+ * money stays on the platform balance (no manager transfer) until the credit
+ * is spent. The webhook adds the credit from the session metadata.
+ */
+export async function createWalletPackageCheckoutSession(params: {
+  chefId: number;
+  customerEmail: string;
+  pkg: { id: number; locationId: number; name: string; creditCents: number; priceCents: number; validityDays: number | null };
+  locationName: string;
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<CheckoutSessionResult> {
+  if (!stripe) {
+    throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+  }
+
+  const { pkg } = params;
+  const metadata: Record<string, string> = {
+    type: 'wallet_package',
+    chef_id: params.chefId.toString(),
+    package_id: pkg.id.toString(),
+    package_name: pkg.name,
+    location_id: pkg.locationId.toString(),
+    credit_cents: pkg.creditCents.toString(),
+    price_cents: pkg.priceCents.toString(),
+  };
+  if (pkg.validityDays) {
+    metadata.validity_days = pkg.validityDays.toString();
+  }
+
+  try {
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      customer_email: params.customerEmail,
+      customer_creation: 'always',
+      line_items: [
+        {
+          price_data: {
+            currency: params.currency.toLowerCase(),
+            product_data: {
+              name: `${pkg.name} — $${(pkg.creditCents / 100).toFixed(2)} kitchen credit at ${params.locationName}`,
+            },
+            unit_amount: pkg.priceCents,
+          },
+          quantity: 1,
+        },
+      ],
+      payment_intent_data: {
+        metadata: { type: 'wallet_package', chef_id: params.chefId.toString(), package_id: pkg.id.toString() },
+        receipt_email: params.customerEmail,
+      },
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      metadata,
+    });
+
+    if (!session.url) {
+      throw new Error('Failed to create checkout session URL');
+    }
+
+    logger.info(`[Stripe Checkout] Created wallet package checkout session ${session.id} for chef ${params.chefId}, package ${pkg.id}`);
+    return { sessionId: session.id, sessionUrl: session.url };
+  } catch (error) {
+    logger.error('Error creating wallet package checkout session:', error);
+    throw new Error(`Failed to create checkout session: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Create a Stripe Checkout session with two line items and Connect split payment
  * 
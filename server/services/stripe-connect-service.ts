@@ -205,11 +205,13 @@ export async function getAccount(accountId: string): Promise<Stripe.Account | nu
 }
 
 /**
- * Get payout history for a connected account
+ * Get payout history for a connected account, optionally only payouts
+ * arriving within a date range
  */
 export async function getPayouts(
   accountId: string,
-  limit: number = 100
+  limit: number = 100,
+  arrivalRange?: { start: Date; end: Date }
 ): Promise<Stripe.Payout[]> {
   if (!stripe) {
     throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
@@ -219,6 +221,14 @@ export async function getPayouts(
     const payouts = await stripe.payouts.list(
       {
         limit,
+        ...(arrivalRange
+          ? {
+              arrival_date: {
+                gte: Math.floor(arrivalRange.start.getTime() / 1000),
+                lte: Math.floor(arrivalRange.end.getTime() / 1000),
+              },
+            }
+          : {}),
       },
       {
         stripeAccount: accountId,
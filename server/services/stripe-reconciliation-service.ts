@@ -0,0 +1,613 @@
+import { logger } from "../logger";
+/**
+ * Stripe Reconciliation Service
+ *
+ * Walks the platform's Stripe balance transactions for a date range and
+ * matches each one to the payment ledger (`payment_transactions`):
+ *
+ * - Charges must have a ledger row (by payment intent or charge ID) for the
+ *   same amount, with the Stripe fee the balance transaction recorded.
+ * - Refunds must belong to a ledger row that has recorded at least that much
+ *   refunded.
+ * - Transfers to managers must point to a ledger row (by transfer ID, split
+ *   transfer or `payment_transaction_id` metadata) whose booking still exists.
+ *
+ * Each discrepancy is stored in `stripe_reconciliation_issues`. Re-running
+ * updates open issues in place and closes the ones the ledger now agrees
+ * with. Admins can apply the matching fix (backfill the missing row, take
+ * Stripe's amount or fee, record the refund) or dismiss the issue.
+ *
+ * Stripe is reached through a small client interface so the job can run
+ * against a fake in tests.
+ */
+
+import Stripe from "stripe";
+import { db } from "../db";
+import {
+  paymentTransactions,
+  paymentTransferSplits,
+  stripeReconciliationIssues,
+  type ReconciliationIssueType,
+  type StripeReconciliationIssue,
+} from "@shared/schema";
+import { and, desc, eq, inArray, or, sql } from "drizzle-orm";
+import { normalizeCurrency } from "@shared/currency-utils";
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, {
+  apiVersion: '2026-02-25.clover',
+}) : null;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The Stripe calls reconciliation needs */
+export interface ReconciliationStripeClient {
+  listBalanceTransactions(range: { start: Date; end: Date }): Promise<Stripe.BalanceTransaction[]>;
+  retrieveCharge(chargeId: string): Promise<Stripe.Charge>;
+}
+
+/** A balance transaction reduced to what matching needs */
+export interface StripeLedgerEntry {
+  balanceTransactionId: string;
+  kind: "charge" | "refund" | "transfer";
+  objectId: string;
+  paymentIntentId: string | null;
+  chargeId: string | null;
+  metadataPaymentTransactionId: number | null;
+  amountCents: number; // In the charge's own currency, always positive
+  feeCents: number | null; // Stripe fee, when settled in the same currency
+  currency: string;
+  created: Date;
+}
+
+/** A payment_transactions row as matching needs it */
+export interface LedgerPayment {
+  id: number;
+  bookingId: number;
+  bookingType: string;
+  amountCents: number;
+  stripeFeeCents: number;
+  refundCents: number;
+  paymentIntentId: string | null;
+  chargeId: string | null;
+  transferId: string | null;
+  bookingExists: boolean;
+}
+
+export interface ReconciliationFinding {
+  issueType: ReconciliationIssueType;
+  entry: StripeLedgerEntry;
+  paymentTransactionId: number | null;
+  stripeAmountCents: number;
+  ledgerAmountCents: number | null;
+  details: Record<string, unknown>;
+}
+
+export interface ReconciliationRunResult {
+  startDate: string;
+  endDate: string;
+  balanceTransactions: number;
+  matched: number;
+  issuesFound: number;
+  byType: Partial<Record<ReconciliationIssueType, number>>;
+  resolved: number;
+}
+
+export type ReconciliationFixAction = "backfill_transaction" | "sync_amount" | "record_refund";
+
+export type ReconciliationFixResult =
+  | { success: true; issue: StripeReconciliationIssue }
+  | { success: false; error: string; status: 400 | 404 | 409 | 502 };
+
+const LEDGER_STATUSES = ["succeeded", "partially_refunded", "refunded", "processing"] as const;
+
+// ============================================================================
+// STRIPE CLIENT
+// ============================================================================
+
+/** Client backed by the Stripe SDK; the balance transaction's source is expanded */
+export function createStripeReconciliationClient(client: Stripe): ReconciliationStripeClient {
+  return {
+    async listBalanceTransactions(range) {
+      return client.balanceTransactions
+        .list({
+          created: {
+            gte: Math.floor(range.start.getTime() / 1000),
+            lte: Math.floor(range.end.getTime() / 1000),
+          },
+          expand: ["data.source"],
+          limit: 100,
+        })
+        .autoPagingToArray({ limit: 10000 });
+    },
+    async retrieveCharge(chargeId) {
+      return client.charges.retrieve(chargeId);
+    },
+  };
+}
+
+function getDefaultClient(): ReconciliationStripeClient | null {
+  return stripe ? createStripeReconciliationClient(stripe) : null;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  value == null ? null : typeof value === "string" ? value : value.id;
+
+/**
+ * Reduce a balance transaction to a charge, refund or transfer entry;
+ * payouts, fees, adjustments, reversals and security deposits (tracked on
+ * security_deposits) are not matched
+ */
+export function toStripeLedgerEntry(bt: Stripe.BalanceTransaction): StripeLedgerEntry | null {
+  const source = bt.source;
+  if (!source || typeof source === "string") return null;
+
+  const base = {
+    balanceTransactionId: bt.id,
+    objectId: source.id,
+    created: new Date(bt.created * 1000),
+  };
+
+  if ((bt.type === "charge" || bt.type === "payment") && source.object === "charge") {
+    const charge = source as Stripe.Charge;
+    if (charge.metadata?.type === "security_deposit") return null;
+    return {
+      ...base,
+      kind: "charge",
+      paymentIntentId: idOf(charge.payment_intent),
+      chargeId: charge.id,
+      metadataPaymentTransactionId: null,
+      amountCents: charge.captured ? charge.amount_captured : charge.amount,
+      feeCents: bt.currency === charge.currency ? bt.fee : null,
+      currency: normalizeCurrency(charge.currency),
+    };
+  }
+
+  if ((bt.type === "refund" || bt.type === "payment_refund") && source.object === "refund") {
+    const refund = source as Stripe.Refund;
+    if (refund.metadata?.type === "security_deposit") return null;
+    return {
+      ...base,
+      kind: "refund",
+      paymentIntentId: idOf(refund.payment_intent),
+      chargeId: idOf(refund.charge),
+      metadataPaymentTransactionId: null,
+      amountCents: refund.amount,
+      feeCents: null,
+      currency: normalizeCurrency(refund.currency),
+    };
+  }
+
+  if (bt.type === "transfer" && source.object === "transfer") {
+    const transfer = source as Stripe.Transfer;
+    const metadataId = parseInt(transfer.metadata?.payment_transaction_id ?? "");
+    return {
+      ...base,
+      kind: "transfer",
+      paymentIntentId: transfer.metadata?.payment_intent_id || null,
+      chargeId: idOf(transfer.source_transaction as string | { id: string } | null),
+      metadataPaymentTransactionId: isNaN(metadataId) ? null : metadataId,
+      amountCents: transfer.amount,
+      feeCents: null,
+      currency: normalizeCurrency(transfer.currency),
+    };
+  }
+
+  return null;
+}
+
+function groupBy<K>(payments: LedgerPayment[], key: (payment: LedgerPayment) => K | null): Map<K, LedgerPayment[]> {
+  const map = new Map<K, LedgerPayment[]>();
+  for (const payment of payments) {
+    const value = key(payment);
+    if (value == null) continue;
+    map.set(value, [...(map.get(value) ?? []), payment]);
+  }
+  return map;
+}
+
+/** Kitchen rows of a bundle are covered by the bundle's own row */
+function withoutBundledKitchenRows(payments: LedgerPayment[]): LedgerPayment[] {
+  const bundled = new Set(payments.filter((p) => p.bookingType === "bundle").map((p) => p.bookingId));
+  return payments.filter((p) => !(p.bookingType === "kitchen" && bundled.has(p.bookingId)));
+}
+
+const sum = (payments: LedgerPayment[], pick: (payment: LedgerPayment) => number) =>
+  payments.reduce((total, payment) => total + pick(payment), 0);
+
+/**
+ * Compare Stripe entries to the ledger rows loaded for them. Returns one
+ * finding per discrepancy; entries without findings are matched.
+ */
+export function findDiscrepancies(
+  entries: StripeLedgerEntry[],
+  payments: LedgerPayment[],
+  splitTransferPaymentIds: Map<string, number> = new Map(),
+): ReconciliationFinding[] {
+  const byIntent = groupBy(payments, (p) => p.paymentIntentId);
+  const byCharge = groupBy(payments, (p) => p.chargeId);
+  const byTransfer = new Map(payments.filter((p) => p.transferId).map((p) => [p.transferId!, p]));
+  const byId = new Map(payments.map((p) => [p.id, p]));
+
+  const paymentsFor = (entry: StripeLedgerEntry) => withoutBundledKitchenRows(
+    (entry.paymentIntentId && byIntent.get(entry.paymentIntentId))
+    || (entry.chargeId && byCharge.get(entry.chargeId))
+    || [],
+  );
+
+  const findings: ReconciliationFinding[] = [];
+  const flag = (
+    issueType: ReconciliationIssueType,
+    entry: StripeLedgerEntry,
+    matched: LedgerPayment[],
+    ledgerAmountCents: number | null,
+    details: Record<string, unknown>,
+    stripeAmountCents = entry.amountCents,
+  ) => findings.push({
+    issueType,
+    entry,
+    paymentTransactionId: matched.length === 1 ? matched[0].id : null,
+    stripeAmountCents,
+    ledgerAmountCents,
+    details: { ...details, paymentTransactionIds: matched.map((p) => p.id) },
+  });
+
+  for (const entry of entries) {
+    if (entry.kind === "charge") {
+      const matched = paymentsFor(entry);
+      if (matched.length === 0) {
+        flag("missing_transaction", entry, matched, null, { reason: "No payment transaction for this charge" });
+        continue;
+      }
+      const ledgerAmount = sum(matched, (p) => p.amountCents);
+      if (ledgerAmount !== entry.amountCents) {
+        flag("amount_mismatch", entry, matched, ledgerAmount, { field: "amount" });
+      } else if (entry.feeCents != null && matched.length === 1 && matched[0].stripeFeeCents !== entry.feeCents) {
+        flag("amount_mismatch", entry, matched, matched[0].stripeFeeCents, { field: "stripe_fee" }, entry.feeCents);
+      }
+    } else if (entry.kind === "refund") {
+      const matched = paymentsFor(entry);
+      const ledgerRefund = sum(matched, (p) => p.refundCents);
+      if (matched.length === 0) {
+        flag("orphaned_refund", entry, matched, null, { reason: "No payment transaction for the refunded charge" });
+      } else if (ledgerRefund < entry.amountCents) {
+        flag("orphaned_refund", entry, matched, ledgerRefund, { reason: "Refund not recorded on the payment transaction" });
+      }
+    } else {
+      const paymentId = splitTransferPaymentIds.get(entry.objectId) ?? entry.metadataPaymentTransactionId;
+      const payment = byTransfer.get(entry.objectId) ?? (paymentId != null ? byId.get(paymentId) : undefined);
+      if (!payment) {
+        flag("transfer_without_booking", entry, [], null, { reason: "No payment transaction for this transfer" });
+      } else if (!payment.bookingExists) {
+        flag("transfer_without_booking", entry, [payment], payment.amountCents, {
+          reason: `${payment.bookingType} booking #${payment.bookingId} no longer exists`,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+// ============================================================================
+// LEDGER LOOKUPS
+// ============================================================================
+
+async function loadLedger(entries: StripeLedgerEntry[]): Promise<{
+  payments: LedgerPayment[];
+  splitTransferPaymentIds: Map<string, number>;
+}> {
+  const intentIds = Array.from(new Set(entries.map((e) => e.paymentIntentId).filter((id): id is string => !!id)));
+  const chargeIds = Array.from(new Set(entries.map((e) => e.chargeId).filter((id): id is string => !!id)));
+  const transferIds = entries.filter((e) => e.kind === "transfer").map((e) => e.objectId);
+
+  const splits = transferIds.length > 0
+    ? await db
+      .select({ transferId: paymentTransferSplits.transferId, paymentTransactionId: paymentTransferSplits.paymentTransactionId })
+      .from(paymentTransferSplits)
+      .where(inArray(paymentTransferSplits.transferId, transferIds))
+    : [];
+  const splitTransferPaymentIds = new Map(splits.map((split) => [split.transferId, split.paymentTransactionId]));
+
+  const paymentIds = Array.from(new Set([
+    ...splits.map((split) => split.paymentTransactionId),
+    ...entries.map((e) => e.metadataPaymentTransactionId).filter((id): id is number => id != null),
+  ]));
+
+  const conditions = [
+    intentIds.length > 0 ? inArray(paymentTransactions.paymentIntentId, intentIds) : undefined,
+    chargeIds.length > 0 ? inArray(paymentTransactions.chargeId, chargeIds) : undefined,
+    transferIds.length > 0 ? inArray(paymentTransactions.transferId, transferIds) : undefined,
+    paymentIds.length > 0 ? inArray(paymentTransactions.id, paymentIds) : undefined,
+  ].filter((condition) => condition !== undefined);
+  if (conditions.length === 0) return { payments: [], splitTransferPaymentIds };
+
+  const rows = await db
+    .select({
+      id: paymentTransactions.id,
+      bookingId: paymentTransactions.bookingId,
+      bookingType: paymentTransactions.bookingType,
+      amount: paymentTransactions.amount,
+      stripeProcessingFee: paymentTransactions.stripeProcessingFee,
+      refundAmount: paymentTransactions.refundAmount,
+      paymentIntentId: paymentTransactions.paymentIntentId,
+      chargeId: paymentTransactions.chargeId,
+      transferId: paymentTransactions.transferId,
+      bookingExists: sql<boolean>`CASE ${paymentTransactions.bookingType}
+        WHEN 'kitchen' THEN EXISTS (SELECT 1 FROM kitchen_bookings b WHERE b.id = ${paymentTransactions.bookingId})
+        WHEN 'bundle' THEN EXISTS (SELECT 1 FROM kitchen_bookings b WHERE b.id = ${paymentTransactions.bookingId})
+        WHEN 'storage' THEN EXISTS (SELECT 1 FROM storage_bookings b WHERE b.id = ${paymentTransactions.bookingId})
+        WHEN 'equipment' THEN EXISTS (SELECT 1 FROM equipment_bookings b WHERE b.id = ${paymentTransactions.bookingId})
+        ELSE TRUE
+      END`,
+    })
+    .from(paymentTransactions)
+    .where(and(
+      inArray(paymentTransactions.status, [...LEDGER_STATUSES]),
+      or(...conditions),
+    ));
+
+  return {
+    payments: rows.map((row) => ({
+      id: row.id,
+      bookingId: row.bookingId,
+      bookingType: row.bookingType,
+      amountCents: parseInt(String(row.amount)) || 0,
+      stripeFeeCents: parseInt(String(row.stripeProcessingFee ?? "0")) || 0,
+      refundCents: parseInt(String(row.refundAmount ?? "0")) || 0,
+      paymentIntentId: row.paymentIntentId,
+      chargeId: row.chargeId,
+      transferId: row.transferId,
+      bookingExists: row.bookingExists !== false,
+    })),
+    splitTransferPaymentIds,
+  };
+}
+
+// ============================================================================
+// RECONCILIATION RUN
+// ============================================================================
+
+/**
+ * Reconcile Stripe balance transactions created between two dates
+ * (inclusive) against the ledger and record the discrepancies
+ */
+export async function runStripeReconciliation(
+  startDate: string,
+  endDate: string,
+  client: ReconciliationStripeClient | null = getDefaultClient(),
+): Promise<ReconciliationRunResult> {
+  if (!client) {
+    throw new Error("Stripe is not configured");
+  }
+
+  const balanceTransactions = await client.listBalanceTransactions({
+    start: new Date(`${startDate}T00:00:00Z`),
+    end: new Date(`${endDate}T23:59:59Z`),
+  });
+  const entries = balanceTransactions
+    .map(toStripeLedgerEntry)
+    .filter((entry): entry is StripeLedgerEntry => entry !== null);
+
+  const { payments, splitTransferPaymentIds } = await loadLedger(entries);
+  const findings = findDiscrepancies(entries, payments, splitTransferPaymentIds);
+  const now = new Date();
+
+  for (const finding of findings) {
+    const values = {
+      paymentIntentId: finding.entry.paymentIntentId,
+      paymentTransactionId: finding.paymentTransactionId,
+      stripeAmountCents: finding.stripeAmountCents,
+      ledgerAmountCents: finding.ledgerAmountCents,
+      currency: finding.entry.currency,
+      details: finding.details,
+      lastSeenAt: now,
+    };
+    await db
+      .insert(stripeReconciliationIssues)
+      .values({
+        ...values,
+        issueType: finding.issueType,
+        balanceTransactionId: finding.entry.balanceTransactionId,
+        stripeObjectId: finding.entry.objectId,
+        stripeCreatedAt: finding.entry.created,
+        detectedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [stripeReconciliationIssues.balanceTransactionId, stripeReconciliationIssues.issueType],
+        // Fixed or dismissed issues keep their status; a fix that did not stick shows up in lastSeenAt
+        set: values,
+      });
+  }
+
+  // Open issues for balance transactions that now match are resolved
+  let resolved = 0;
+  const scannedIds = entries.map((entry) => entry.balanceTransactionId);
+  if (scannedIds.length > 0) {
+    const stillFlagged = new Set(findings.map((f) => `${f.entry.balanceTransactionId}:${f.issueType}`));
+    const open = await db
+      .select({ id: stripeReconciliationIssues.id, balanceTransactionId: stripeReconciliationIssues.balanceTransactionId, issueType: stripeReconciliationIssues.issueType })
+      .from(stripeReconciliationIssues)
+      .where(and(
+        eq(stripeReconciliationIssues.status, "open"),
+        inArray(stripeReconciliationIssues.balanceTransactionId, scannedIds),
+      ));
+    const resolvedIds = open
+      .filter((issue) => !stillFlagged.has(`${issue.balanceTransactionId}:${issue.issueType}`))
+      .map((issue) => issue.id);
+    if (resolvedIds.length > 0) {
+      await db
+        .update(stripeReconciliationIssues)
+        .set({ status: "fixed", resolvedAt: now, resolvedBy: null, resolution: "Ledger matches Stripe" })
+        .where(inArray(stripeReconciliationIssues.id, resolvedIds));
+      resolved = resolvedIds.length;
+    }
+  }
+
+  const byType: Partial<Record<ReconciliationIssueType, number>> = {};
+  for (const finding of findings) {
+    byType[finding.issueType] = (byType[finding.issueType] ?? 0) + 1;
+  }
+  const flaggedIds = new Set(findings.map((f) => f.entry.balanceTransactionId));
+
+  logger.info(`[StripeReconciliation] ${startDate} to ${endDate}: ${entries.length} balance transactions, ${findings.length} issues, ${resolved} resolved`);
+  return {
+    startDate,
+    endDate,
+    balanceTransactions: entries.length,
+    matched: entries.length - flaggedIds.size,
+    issuesFound: findings.length,
+    byType,
+    resolved,
+  };
+}
+
+// ============================================================================
+// REPORT AND FIXES
+// ============================================================================
+
+export async function getReconciliationIssues(status: "open" | "fixed" | "dismissed" | "all" = "open", limit = 200) {
+  return db
+    .select()
+    .from(stripeReconciliationIssues)
+    .where(status === "all" ? undefined : eq(stripeReconciliationIssues.status, status))
+    .orderBy(desc(stripeReconciliationIssues.stripeCreatedAt))
+    .limit(limit);
+}
+
+/** The one-click fix an open issue offers, if any */
+export function getReconciliationFixAction(
+  issue: Pick<StripeReconciliationIssue, "issueType" | "paymentTransactionId" | "details">,
+): ReconciliationFixAction | null {
+  switch (issue.issueType) {
+    case "missing_transaction":
+      return "backfill_transaction";
+    case "amount_mismatch":
+      return issue.paymentTransactionId != null ? "sync_amount" : null;
+    case "orphaned_refund":
+      return issue.paymentTransactionId != null ? "record_refund" : null;
+    default:
+      // A transfer without a booking needs a person to decide whether to reverse it
+      return null;
+  }
+}
+
+async function resolveIssue(issueId: number, adminId: number, status: "fixed" | "dismissed", resolution: string) {
+  const [updated] = await db
+    .update(stripeReconciliationIssues)
+    .set({ status, resolvedAt: new Date(), resolvedBy: adminId, resolution })
+    .where(eq(stripeReconciliationIssues.id, issueId))
+    .returning();
+  return updated;
+}
+
+/** Create the missing ledger row from the booking that holds the payment intent */
+async function backfillMissingTransaction(issue: StripeReconciliationIssue): Promise<string | null> {
+  if (!issue.paymentIntentId) return "The charge has no payment intent to look up";
+
+  const result = await db.execute(sql`
+    SELECT l.manager_id FROM kitchen_bookings b
+      JOIN kitchens k ON k.id = b.kitchen_id
+      JOIN locations l ON l.id = k.location_id
+      WHERE b.payment_intent_id = ${issue.paymentIntentId}
+    UNION ALL
+    SELECT l.manager_id FROM storage_bookings b
+      JOIN storage_listings sl ON sl.id = b.storage_listing_id
+      JOIN kitchens k ON k.id = sl.kitchen_id
+      JOIN locations l ON l.id = k.location_id
+      WHERE b.payment_intent_id = ${issue.paymentIntentId}
+    UNION ALL
+    SELECT l.manager_id FROM equipment_bookings b
+      JOIN equipment_listings el ON el.id = b.equipment_listing_id
+      JOIN kitchens k ON k.id = el.kitchen_id
+      JOIN locations l ON l.id = k.location_id
+      WHERE b.payment_intent_id = ${issue.paymentIntentId}
+    LIMIT 1
+  `);
+  const owner = result.rows[0] as { manager_id: number | null } | undefined;
+  if (!owner?.manager_id) return "No booking references this payment intent";
+
+  const { backfillPaymentTransactionsFromBookings } = await import("./payment-transactions-backfill");
+  await backfillPaymentTransactionsFromBookings(owner.manager_id, db);
+
+  const [created] = await db
+    .select({ id: paymentTransactions.id })
+    .from(paymentTransactions)
+    .where(eq(paymentTransactions.paymentIntentId, issue.paymentIntentId))
+    .limit(1);
+  return created ? null : "The booking's payment is not paid, so no transaction was created";
+}
+
+/**
+ * Apply an open issue's fix. The ledger is updated through the payment
+ * transactions service so the change lands in the payment history.
+ */
+export async function fixReconciliationIssue(
+  issueId: number,
+  adminId: number,
+  client: ReconciliationStripeClient | null = getDefaultClient(),
+): Promise<ReconciliationFixResult> {
+  const [issue] = await db.select().from(stripeReconciliationIssues).where(eq(stripeReconciliationIssues.id, issueId)).limit(1);
+  if (!issue) return { success: false, error: "Issue not found", status: 404 };
+  if (issue.status !== "open") return { success: false, error: `Issue is already ${issue.status}`, status: 409 };
+
+  const action = getReconciliationFixAction(issue);
+  if (!action) return { success: false, error: "This issue has no automatic fix; review it in Stripe and dismiss it", status: 400 };
+
+  const { updatePaymentTransaction } = await import("./payment-transactions-service");
+  const details = (issue.details ?? {}) as Record<string, unknown>;
+  let resolution: string;
+
+  if (action === "backfill_transaction") {
+    const error = await backfillMissingTransaction(issue);
+    if (error) return { success: false, error, status: 409 };
+    resolution = "Payment transaction backfilled from the booking";
+  } else if (action === "sync_amount") {
+    const stripeCents = issue.stripeAmountCents ?? 0;
+    if (details.field === "stripe_fee") {
+      await updatePaymentTransaction(issue.paymentTransactionId!, { stripeProcessingFee: stripeCents, lastSyncedAt: new Date() }, db);
+      resolution = `Stripe fee set to ${stripeCents} cents`;
+    } else {
+      await updatePaymentTransaction(issue.paymentTransactionId!, { amount: stripeCents, stripeAmount: stripeCents, lastSyncedAt: new Date() }, db);
+      resolution = `Amount set to ${stripeCents} cents`;
+    }
+  } else {
+    if (!client) return { success: false, error: "Stripe is not configured", status: 502 };
+    const [payment] = await db
+      .select({ amount: paymentTransactions.amount, chargeId: paymentTransactions.chargeId })
+      .from(paymentTransactions)
+      .where(eq(paymentTransactions.id, issue.paymentTransactionId!))
+      .limit(1);
+    const chargeId = payment?.chargeId;
+    if (!chargeId) return { success: false, error: "The payment transaction has no charge to read refunds from", status: 409 };
+
+    const charge = await client.retrieveCharge(chargeId);
+    const amountCents = parseInt(String(payment.amount)) || 0;
+    await updatePaymentTransaction(issue.paymentTransactionId!, {
+      refundAmount: charge.amount_refunded,
+      status: charge.amount_refunded >= amountCents ? "refunded" : "partially_refunded",
+      refundId: issue.stripeObjectId,
+      refundedAt: issue.stripeCreatedAt,
+      lastSyncedAt: new Date(),
+    }, db);
+    resolution = `Refund of ${charge.amount_refunded} cents recorded`;
+  }
+
+  const updated = await resolveIssue(issue.id, adminId, "fixed", resolution);
+  logger.info(`[StripeReconciliation] Issue ${issue.id} fixed by admin ${adminId}: ${resolution}`);
+  return { success: true, issue: updated };
+}
+
+export async function dismissReconciliationIssue(issueId: number, adminId: number, reason: string): Promise<ReconciliationFixResult> {
+  const [issue] = await db.select().from(stripeReconciliationIssues).where(eq(stripeReconciliationIssues.id, issueId)).limit(1);
+  if (!issue) return { success: false, error: "Issue not found", status: 404 };
+  if (issue.status !== "open") return { success: false, error: `Issue is already ${issue.status}`, status: 409 };
+
+  const updated = await resolveIssue(issue.id, adminId, "dismissed", reason || "Dismissed");
+  return { success: true, issue: updated };
+}
@@ -483,6 +483,65 @@ export async function capturePaymentIntent(
   }
 }
 
+/**
+ * Charge a chef's saved payment method while they are not present (off-session).
+ * Used for follow-up charges on an existing booking, e.g. a reschedule that
+ * costs more than the original booking.
+ *
+ * ARCHITECTURE — Separate Charges and Transfers: the charge lands on the platform
+ * balance. Put manager_connect_account_id in the metadata and the charge webhooks
+ * transfer the manager's share once the actual Stripe fee is known.
+ *
+ * @returns PaymentIntentResult plus the charge ID when the payment succeeded
+ */
+export async function chargeSavedPaymentMethod(params: {
+  amount: number;
+  customerId: string;
+  paymentMethodId: string;
+  metadata: Record<string, string>;
+  statementDescriptorSuffix?: string;
+  idempotencyKey?: string;
+  currency?: string;
+}): Promise<PaymentIntentResult & { chargeId: string | null }> {
+  if (!stripe) {
+    throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+  }
+
+  if (params.amount <= 0) {
+    throw new Error('Payment amount must be greater than 0');
+  }
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: params.amount,
+      currency: params.currency || 'cad',
+      customer: params.customerId,
+      payment_method: params.paymentMethodId,
+      off_session: true,
+      confirm: true,
+      metadata: params.metadata,
+      ...(params.statementDescriptorSuffix && {
+        statement_descriptor_suffix: params.statementDescriptorSuffix.substring(0, 22),
+      }),
+    }, params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined);
+
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id ?? null;
+
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret || '',
+      status: paymentIntent.status,
+      amount: paymentIntent.amount,
+      chargeId,
+    };
+  } catch (error) {
+    logger.error('Error charging saved payment method:', error);
+    throw new Error(`Failed to charge saved payment method: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Cancel a PaymentIntent (releases authorization hold — NO charge to customer)
  * Called when a manager REJECTS a booking that is still in 'authorized' state.
@@ -714,6 +773,7 @@ export async function reverseTransferAndRefund(
     let transferIdFromDb: string | null = null;
     let transferredAmount = 0;
     let chargeAmountForProration = charge.amount_captured || charge.amount;
+    let topUps: { promoTopUpTransferId?: string; promoTopUpCents?: number; walletTopUpCents?: number } | undefined;
 
     try {
       const { db } = await import('../db');
@@ -724,13 +784,21 @@ export async function reverseTransferAndRefund(
           transferId: paymentTransactions.transferId,
           managerRevenue: paymentTransactions.managerRevenue,
           amount: paymentTransactions.amount,
+          metadata: paymentTransactions.metadata,
         })
         .from(paymentTransactions)
         .where(eq(paymentTransactions.paymentIntentId, paymentIntentId))
         .limit(1);
       transferIdFromDb = pt?.transferId || null;
+      const ptMetadata = (typeof pt?.metadata === 'string' ? JSON.parse(pt.metadata) : pt?.metadata) as
+        { transfer?: typeof topUps } | null | undefined;
+      topUps = ptMetadata?.transfer;
       if (pt?.managerRevenue) {
-        transferredAmount = parseInt(String(pt.managerRevenue), 10) || 0;
+        // manager_revenue includes the top-ups, which are separate transfers
+        transferredAmount = Math.max(0,
+          (parseInt(String(pt.managerRevenue), 10) || 0)
+          - Number(topUps?.promoTopUpCents ?? 0)
+          - Number(topUps?.walletTopUpCents ?? 0));
       }
       if (pt?.amount) {
         chargeAmountForProration = parseInt(String(pt.amount), 10) || chargeAmountForProration;
@@ -752,6 +820,14 @@ export async function reverseTransferAndRefund(
         transferredAmount,
       );
       transferReversalId = reversal?.id || null;
+
+      // Best-effort like the top-up itself: the manager keeps it if this fails
+      const { reversePromoTopUpForRefund } = await import('./stripe-transfer-service');
+      try {
+        await reversePromoTopUpForRefund(topUps, amount, chargeAmountForProration);
+      } catch (err) {
+        logger.error(`[reverseTransferAndRefund] Could not reverse promo top-up ${topUps?.promoTopUpTransferId} for ${paymentIntentId}:`, err as Error);
+      }
     } else if (transferId && options?.reverseTransferAmount !== undefined) {
       // Legacy explicit reversal path (destination charges)
       const reversalAmount = options.reverseTransferAmount;
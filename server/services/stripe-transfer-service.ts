@@ -21,6 +21,21 @@
  *
  *   4. transfer_id stored in payment_transactions for refund reversal.
  *
+ *   5. Platform-funded promo discounts: the charge was discounted but the manager
+ *      is owed the pre-discount price, so a second "top-up" transfer is paid from
+ *      the platform balance (no source_transaction) and commission is taken on
+ *      the pre-discount price. Manager-funded discounts need nothing extra.
+ *      Refunds reverse the top-up in the same proportion as the main transfer.
+ *
+ *   6. Wallet credit: the part of a booking paid with prepaid credit was never
+ *      charged to the card, so its funded share is paid the same way as a
+ *      platform-funded promo (see chef-wallet-service.ts).
+ *
+ *   7. Co-managed locations: when the booked location has a revenue split, each
+ *      transfer (and top-up) is split into one Transfer per partner's Connect
+ *      account, and refund reversals are split the same way
+ *      (see location-revenue-share-service.ts).
+ *
  * Why this matters:
  *   - Manager's Stripe statement always matches `payment_transactions.manager_revenue`.
  *   - Platform never overcharges or undercharges — the actual Stripe fee from
@@ -35,6 +50,17 @@ import { logger } from '../logger';
 import { db } from '../db';
 import { eq, ne, and } from 'drizzle-orm';
 import { users, paymentTransactions } from '@shared/schema';
+import { getPromoTopUpCents, type PromoTransactionMetadata } from './promo-code-service';
+import { getWalletTopUpCents, type WalletTransactionMetadata } from './chef-wallet-service';
+import {
+  getPaymentRevenueSplit,
+  getTransferSplitGroup,
+  recordSplitReversal,
+  recordTransferSplits,
+  splitAmountByShares,
+} from './location-revenue-share-service';
+import type { PaymentTransferSplit, TransferSplitKind } from '@shared/schema';
+import { toStripeCurrency } from '@shared/currency-utils';
 
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
 const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, {
@@ -60,6 +86,8 @@ export interface TransferToManagerParams {
   transferGroup: string;
   /** Existing PT metadata (for merging) */
   existingMetadata?: Record<string, unknown> | null;
+  /** Currency of the charge; read from the payment transaction when omitted */
+  currency?: string;
 }
 
 export interface TransferResult {
@@ -75,8 +103,18 @@ export interface TransferResult {
   platformCommissionCents: number;
   /** Total fee withheld from the charge (Stripe fee + platform commission) */
   feeWithheldCents: number;
-  /** Amount actually transferred to manager Connect account (cents) */
+  /** Amount actually transferred to manager Connect account (cents), including any promo top-up */
   transferredCents: number;
+  /** Platform-funded promo discount paid to the manager (net of commission), in cents */
+  promoTopUpCents?: number;
+  /** Stripe Transfer ID of the promo top-up, when one was created */
+  promoTopUpTransferId?: string | null;
+  /** Wallet credit spent on the booking paid to the manager (net of commission), in cents */
+  walletTopUpCents?: number;
+  /** Stripe Transfer ID of the wallet top-up, when one was created */
+  walletTopUpTransferId?: string | null;
+  /** Co-managed locations: one booking transfer per partner (transferId is the first) */
+  splitTransferIds?: string[];
 }
 
 // ============================================================================
@@ -126,6 +164,218 @@ async function fetchPlatformCommission(): Promise<number> {
   }
 }
 
+function getPromoMetadata(metadata: unknown): PromoTransactionMetadata | null {
+  try {
+    const parsed = typeof metadata === 'string' ? JSON.parse(metadata) : metadata;
+    const promo = (parsed as Record<string, unknown> | null | undefined)?.promo as PromoTransactionMetadata | undefined;
+    return promo && typeof promo.discountCents === 'number' ? promo : null;
+  } catch {
+    return null;
+  }
+}
+
+function getWalletMetadata(metadata: unknown): WalletTransactionMetadata | null {
+  try {
+    const parsed = typeof metadata === 'string' ? JSON.parse(metadata) : metadata;
+    const wallet = (parsed as Record<string, unknown> | null | undefined)?.wallet as WalletTransactionMetadata | undefined;
+    return wallet && typeof wallet.platformFundedCents === 'number' ? wallet : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pay the manager a platform-funded promo discount from the platform balance.
+ * Best-effort: the main payout already went through, so failures are logged
+ * for manual follow-up rather than thrown.
+ */
+async function transferPromoTopUp(
+  params: TransferToManagerParams,
+  managerConnectAccountId: string,
+  promo: PromoTransactionMetadata,
+  topUpCents: number,
+  idempotencySuffix = '',
+): Promise<string | null> {
+  if (!stripe) return null;
+  try {
+    const transfer = await stripe.transfers.create(
+      {
+        amount: topUpCents,
+        currency: toStripeCurrency(params.currency),
+        destination: managerConnectAccountId,
+        transfer_group: params.transferGroup,
+        description: `Promo ${promo.code} top-up for ${params.paymentIntentId}`,
+        metadata: {
+          payment_intent_id: params.paymentIntentId,
+          payment_transaction_id: String(params.paymentTransactionId),
+          promo_code: promo.code,
+          promo_code_id: String(promo.promoCodeId),
+          promo_discount_cents: String(promo.discountCents),
+          top_up_cents: String(topUpCents),
+        },
+      },
+      { idempotencyKey: `promo-topup:${params.paymentIntentId}${idempotencySuffix}` },
+    );
+    logger.info(
+      `[StripeTransferService] ✅ Promo ${promo.code} top-up of ${topUpCents}¢ to ${managerConnectAccountId} for ${params.paymentIntentId} (transferId=${transfer.id})`,
+    );
+    return transfer.id;
+  } catch (err) {
+    logger.error(
+      `[StripeTransferService] Promo top-up of ${topUpCents}¢ failed for ${params.paymentIntentId} — manager is owed this amount:`,
+      err as Error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Pay the manager for the part of a booking the chef paid with wallet credit.
+ * Best-effort like the promo top-up.
+ */
+async function transferWalletTopUp(
+  params: TransferToManagerParams,
+  managerConnectAccountId: string,
+  wallet: WalletTransactionMetadata,
+  topUpCents: number,
+  idempotencySuffix = '',
+): Promise<string | null> {
+  if (!stripe) return null;
+  try {
+    const transfer = await stripe.transfers.create(
+      {
+        amount: topUpCents,
+        currency: toStripeCurrency(params.currency),
+        destination: managerConnectAccountId,
+        transfer_group: params.transferGroup,
+        description: `Wallet credit top-up for ${params.paymentIntentId}`,
+        metadata: {
+          payment_intent_id: params.paymentIntentId,
+          payment_transaction_id: String(params.paymentTransactionId),
+          wallet_entry_id: String(wallet.holdId),
+          wallet_applied_cents: String(wallet.appliedCents),
+          top_up_cents: String(topUpCents),
+        },
+      },
+      { idempotencyKey: `wallet-topup:${params.paymentIntentId}${idempotencySuffix}` },
+    );
+    logger.info(
+      `[StripeTransferService] ✅ Wallet top-up of ${topUpCents}¢ to ${managerConnectAccountId} for ${params.paymentIntentId} (transferId=${transfer.id})`,
+    );
+    return transfer.id;
+  } catch (err) {
+    logger.error(
+      `[StripeTransferService] Wallet top-up of ${topUpCents}¢ failed for ${params.paymentIntentId} — manager is owed this amount:`,
+      err as Error,
+    );
+    return null;
+  }
+}
+
+/**
+ * One destination of a payout: the payment's manager, or one partner of a
+ * co-managed location (with `userId` set, and its own idempotency keys).
+ */
+interface PayoutLeg {
+  userId: number | null;
+  connectAccountId: string;
+  sharePercent: number;
+}
+
+function legIdempotencySuffix(leg: PayoutLeg): string {
+  return leg.userId !== null ? `:${leg.userId}` : '';
+}
+
+/**
+ * Split a top-up across the payout legs and pay each part. Best-effort per leg;
+ * returns what was actually paid and the first transfer ID (refund reversals
+ * find the rest of a split group from it).
+ */
+async function payTopUpToLegs(
+  params: TransferToManagerParams,
+  legs: PayoutLeg[],
+  locationId: number | null,
+  kind: TransferSplitKind,
+  topUpCents: number,
+  pay: (leg: PayoutLeg, cents: number) => Promise<string | null>,
+): Promise<{ paidCents: number; transferId: string | null }> {
+  const parts = splitAmountByShares(topUpCents, legs.map((leg) => leg.sharePercent));
+  let paidCents = 0;
+  let firstTransferId: string | null = null;
+  for (let i = 0; i < legs.length; i++) {
+    if (parts[i] <= 0) continue;
+    const transferId = await pay(legs[i], parts[i]);
+    if (!transferId) continue;
+    paidCents += parts[i];
+    firstTransferId ??= transferId;
+    await recordLegSplit(params, legs[i], locationId, kind, parts[i], transferId);
+  }
+  return { paidCents, transferId: firstTransferId };
+}
+
+/** Record a partner's transfer so refunds can reverse it (no-op for unsplit payouts) */
+async function recordLegSplit(
+  params: TransferToManagerParams,
+  leg: PayoutLeg,
+  locationId: number | null,
+  kind: TransferSplitKind,
+  amountCents: number,
+  transferId: string,
+): Promise<void> {
+  if (leg.userId === null || locationId === null) return;
+  try {
+    await recordTransferSplits([{
+      paymentTransactionId: params.paymentTransactionId,
+      locationId,
+      recipientUserId: leg.userId,
+      connectAccountId: leg.connectAccountId,
+      sharePercent: leg.sharePercent,
+      transferKind: kind,
+      amountCents,
+      transferId,
+    }]);
+  } catch (err) {
+    logger.error(
+      `[StripeTransferService] Could not record split transfer ${transferId} for PT ${params.paymentTransactionId} — refunds will not reverse it:`,
+      err as Error,
+    );
+  }
+}
+
+/**
+ * Reverse an amount from a split payout, taking from each partner's transfer
+ * in proportion to what is still unreversed on it.
+ */
+async function reverseSplitGroup(
+  group: PaymentTransferSplit[],
+  amountCents: number,
+  metadata: Record<string, string>,
+): Promise<Stripe.TransferReversal | null> {
+  if (!stripe) return null;
+  const remaining = group.map((split) => Math.max(0, split.amountCents - split.reversedCents));
+  const totalRemaining = remaining.reduce((sum, cents) => sum + cents, 0);
+  const parts = splitAmountByShares(Math.min(amountCents, totalRemaining), remaining);
+
+  let firstReversal: Stripe.TransferReversal | null = null;
+  for (let i = 0; i < group.length; i++) {
+    if (parts[i] <= 0) continue;
+    const reversal = await stripe.transfers.createReversal(group[i].transferId, {
+      amount: parts[i],
+      metadata: { ...metadata, revenue_share_percent: String(group[i].sharePercent) },
+    });
+    firstReversal ??= reversal;
+    try {
+      await recordSplitReversal(group[i].id, parts[i]);
+    } catch (err) {
+      logger.warn(`[StripeTransferService] Could not record reversal ${reversal.id} on split ${group[i].id}:`, err as Error);
+    }
+    logger.info(
+      `[StripeTransferService] ✅ Reversed ${parts[i]}¢ from split transfer ${group[i].transferId} (${group[i].sharePercent}%)`,
+    );
+  }
+  return firstReversal;
+}
+
 // ============================================================================
 // Public API
 // ============================================================================
@@ -137,6 +387,9 @@ async function fetchPlatformCommission(): Promise<number> {
  * Idempotent: uses an idempotency key derived from the PaymentIntent ID, so
  * webhook retries will return the same Transfer instead of duplicating it.
  *
+ * If the booked location splits its revenue, one Transfer is made per partner
+ * (keys suffixed with the partner's user ID) and recorded in payment_transfer_splits.
+ *
  * Skipped (returns `transferred: false`) if:
  *   - Stripe is not configured
  *   - chargeAmountCents <= 0
@@ -170,12 +423,23 @@ export async function transferToManagerForBooking(
   }
 
   // Idempotency: if PT already has a transfer recorded, return it
+  let promo = getPromoMetadata(params.existingMetadata);
+  let wallet = getWalletMetadata(params.existingMetadata);
+  let currency = params.currency;
   try {
     const [existing] = await db
-      .select({ transferId: paymentTransactions.transferId })
+      .select({
+        transferId: paymentTransactions.transferId,
+        metadata: paymentTransactions.metadata,
+        currency: paymentTransactions.currency,
+      })
       .from(paymentTransactions)
       .where(eq(paymentTransactions.id, params.paymentTransactionId))
       .limit(1);
+    // Transfers are paid in the currency the chef was charged in
+    if (!currency && existing?.currency) {
+      currency = existing.currency;
+    }
     if (existing?.transferId) {
       logger.info(
         `[StripeTransferService] PT ${params.paymentTransactionId} already has transfer ${existing.transferId}, skipping`,
@@ -187,23 +451,61 @@ export async function transferToManagerForBooking(
         reason: 'Already transferred (idempotency)',
       };
     }
+    if (!promo && existing) {
+      promo = getPromoMetadata(existing.metadata);
+    }
+    if (!wallet && existing) {
+      wallet = getWalletMetadata(existing.metadata);
+    }
   } catch (err) {
     logger.warn(`[StripeTransferService] Could not check existing transfer for PT ${params.paymentTransactionId}:`, err as Error);
   }
 
-  const managerConnectAccountId = await fetchManagerConnectAccount(params.paymentTransactionId);
-  if (!managerConnectAccountId) {
-    return {
-      ...baseResult,
-      reason: 'Manager has no Stripe Connect account — funds remain on platform balance',
-    };
+  // Co-managed locations pay each partner their share; otherwise the manager gets it all
+  let split: Awaited<ReturnType<typeof getPaymentRevenueSplit>> = null;
+  try {
+    split = await getPaymentRevenueSplit(params.paymentTransactionId);
+  } catch (err) {
+    logger.warn(`[StripeTransferService] Could not load revenue split for PT ${params.paymentTransactionId}:`, err as Error);
   }
 
+  let legs: PayoutLeg[];
+  if (split) {
+    const unpayable = split.recipients.find((recipient) => !recipient.connectAccountId);
+    if (unpayable) {
+      return {
+        ...baseResult,
+        reason: `Revenue-share recipient ${unpayable.userId} has no Stripe Connect account — funds remain on platform balance`,
+      };
+    }
+    legs = split.recipients;
+  } else {
+    const managerConnectAccountId = await fetchManagerConnectAccount(params.paymentTransactionId);
+    if (!managerConnectAccountId) {
+      return {
+        ...baseResult,
+        reason: 'Manager has no Stripe Connect account — funds remain on platform balance',
+      };
+    }
+    legs = [{ userId: null, connectAccountId: managerConnectAccountId, sharePercent: 100 }];
+  }
+  const splitLocationId = split?.locationId ?? null;
+
   const platformCommissionRate = await fetchPlatformCommission();
   const platformCommissionCents = Math.round(params.chargeAmountCents * platformCommissionRate);
   const feeWithheldCents = params.actualStripeFeeCents + platformCommissionCents;
   const transferredCents = params.chargeAmountCents - feeWithheldCents;
 
+  // Platform-funded promo: commission is on the pre-discount price, so it also applies to the top-up
+  const promoTopUpGrossCents = promo ? getPromoTopUpCents(promo, params.chargeAmountCents) : 0;
+  const promoCommissionCents = Math.round(promoTopUpGrossCents * platformCommissionRate);
+  const promoTopUpCents = promoTopUpGrossCents - promoCommissionCents;
+
+  // Wallet credit: commission is on the full booking price, so it also applies to the credit-funded part
+  const walletTopUpGrossCents = wallet ? getWalletTopUpCents(wallet, params.chargeAmountCents) : 0;
+  const walletCommissionCents = Math.round(walletTopUpGrossCents * platformCommissionRate);
+  const walletTopUpCents = walletTopUpGrossCents - walletCommissionCents;
+
   if (transferredCents <= 0) {
     return {
       ...baseResult,
@@ -215,66 +517,105 @@ export async function transferToManagerForBooking(
   }
 
   try {
-    const transfer = await stripe.transfers.create(
-      {
-        amount: transferredCents,
-        currency: 'cad',
-        destination: managerConnectAccountId,
-        // source_transaction ensures the transfer is paid from the funds collected by this charge,
-        // not from arbitrary platform balance. Required when funds may not yet be available
-        // (Stripe queues the transfer until the charge's funds are available).
-        source_transaction: params.chargeId,
-        transfer_group: params.transferGroup,
-        description: `Manager payout for ${params.paymentIntentId}`,
-        metadata: {
-          payment_intent_id: params.paymentIntentId,
-          payment_transaction_id: String(params.paymentTransactionId),
-          charge_id: params.chargeId,
-          charge_amount_cents: String(params.chargeAmountCents),
-          actual_stripe_fee_cents: String(params.actualStripeFeeCents),
-          platform_commission_cents: String(platformCommissionCents),
-          fee_withheld_cents: String(feeWithheldCents),
-          transferred_cents: String(transferredCents),
+    const legParts = splitAmountByShares(transferredCents, legs.map((leg) => leg.sharePercent));
+    const transferIds: string[] = [];
+    for (let i = 0; i < legs.length; i++) {
+      if (legParts[i] <= 0) continue;
+      const leg = legs[i];
+      const transfer = await stripe.transfers.create(
+        {
+          amount: legParts[i],
+          currency: toStripeCurrency(currency),
+          destination: leg.connectAccountId,
+          // source_transaction ensures the transfer is paid from the funds collected by this charge,
+          // not from arbitrary platform balance. Required when funds may not yet be available
+          // (Stripe queues the transfer until the charge's funds are available).
+          source_transaction: params.chargeId,
+          transfer_group: params.transferGroup,
+          description: `Manager payout for ${params.paymentIntentId}`,
+          metadata: {
+            payment_intent_id: params.paymentIntentId,
+            payment_transaction_id: String(params.paymentTransactionId),
+            charge_id: params.chargeId,
+            charge_amount_cents: String(params.chargeAmountCents),
+            actual_stripe_fee_cents: String(params.actualStripeFeeCents),
+            platform_commission_cents: String(platformCommissionCents),
+            fee_withheld_cents: String(feeWithheldCents),
+            transferred_cents: String(transferredCents),
+            ...(leg.userId !== null
+              ? { revenue_share_user_id: String(leg.userId), revenue_share_percent: String(leg.sharePercent) }
+              : {}),
+          },
         },
-      },
-      {
-        // Idempotency: webhook retries should return the same transfer, not duplicate it.
-        idempotencyKey: `transfer:${params.paymentIntentId}`,
-      },
-    );
+        {
+          // Idempotency: webhook retries should return the same transfer, not duplicate it.
+          // A retry after a partner's transfer failed replays the ones already made.
+          idempotencyKey: `transfer:${params.paymentIntentId}${legIdempotencySuffix(leg)}`,
+        },
+      );
+      transferIds.push(transfer.id);
+      await recordLegSplit(params, leg, splitLocationId, 'booking', legParts[i], transfer.id);
+    }
+    const transferId = transferIds[0];
 
-    // Persist transfer_id on payment_transactions (best-effort; webhook also updates)
+    // Persist transfer_id on payment_transactions (best-effort; webhook also updates).
+    // For split payouts this is the first partner's transfer; reversals find the rest.
     try {
       await db
         .update(paymentTransactions)
-        .set({ transferId: transfer.id, updatedAt: new Date() })
+        .set({ transferId, updatedAt: new Date() })
         .where(eq(paymentTransactions.id, params.paymentTransactionId));
     } catch (err) {
       logger.warn(
-        `[StripeTransferService] Could not persist transfer_id ${transfer.id} on PT ${params.paymentTransactionId}:`,
+        `[StripeTransferService] Could not persist transfer_id ${transferId} on PT ${params.paymentTransactionId}:`,
         err as Error,
       );
     }
 
+    const promoTopUp = promo && promoTopUpCents > 0
+      ? await payTopUpToLegs(params, legs, splitLocationId, 'promo_top_up', promoTopUpCents, (leg, cents) =>
+        transferPromoTopUp({ ...params, currency }, leg.connectAccountId, promo!, cents, legIdempotencySuffix(leg)))
+      : { paidCents: 0, transferId: null };
+    const promoTopUpTransferId = promoTopUp.transferId;
+    const paidTopUpCents = promoTopUp.paidCents;
+    const paidPromoCommissionCents = promoTopUpCents > 0
+      ? Math.round(promoCommissionCents * (paidTopUpCents / promoTopUpCents))
+      : 0;
+    const walletTopUp = wallet && walletTopUpCents > 0
+      ? await payTopUpToLegs(params, legs, splitLocationId, 'wallet_top_up', walletTopUpCents, (leg, cents) =>
+        transferWalletTopUp({ ...params, currency }, leg.connectAccountId, wallet!, cents, legIdempotencySuffix(leg)))
+      : { paidCents: 0, transferId: null };
+    const walletTopUpTransferId = walletTopUp.transferId;
+    const paidWalletTopUpCents = walletTopUp.paidCents;
+    const paidWalletCommissionCents = walletTopUpCents > 0
+      ? Math.round(walletCommissionCents * (paidWalletTopUpCents / walletTopUpCents))
+      : 0;
+
     logger.info(
-      `[StripeTransferService] ✅ Transferred ${transferredCents}¢ to ${managerConnectAccountId} for ${params.paymentIntentId}:`,
+      `[StripeTransferService] ✅ Transferred ${transferredCents}¢ to ${legs.map((leg) => leg.connectAccountId).join(', ')} for ${params.paymentIntentId}:`,
       {
-        transferId: transfer.id,
+        transferIds,
         chargeAmount: `$${(params.chargeAmountCents / 100).toFixed(2)}`,
         actualStripeFee: `$${(params.actualStripeFeeCents / 100).toFixed(2)}`,
         platformCommission: `$${(platformCommissionCents / 100).toFixed(2)}`,
         feeWithheld: `$${(feeWithheldCents / 100).toFixed(2)}`,
         transferred: `$${(transferredCents / 100).toFixed(2)}`,
+        ...(split ? { revenueSplit: legs.map((leg, i) => `${leg.userId}: ${leg.sharePercent}% = ${legParts[i]}¢`) } : {}),
       },
     );
 
     return {
       transferred: true,
-      transferId: transfer.id,
+      transferId,
       actualStripeFeeCents: params.actualStripeFeeCents,
-      platformCommissionCents,
-      feeWithheldCents,
-      transferredCents,
+      platformCommissionCents: platformCommissionCents + paidPromoCommissionCents + paidWalletCommissionCents,
+      feeWithheldCents: feeWithheldCents + paidPromoCommissionCents + paidWalletCommissionCents,
+      transferredCents: transferredCents + paidTopUpCents + paidWalletTopUpCents,
+      promoTopUpCents: paidTopUpCents,
+      promoTopUpTransferId,
+      walletTopUpCents: paidWalletTopUpCents,
+      walletTopUpTransferId,
+      ...(split ? { splitTransferIds: transferIds } : {}),
     };
   } catch (err: any) {
     // Stripe returns the same transfer on idempotency replay — handle gracefully
@@ -300,7 +641,10 @@ export async function transferToManagerForBooking(
  *   prorated against the original transfer using `(refundAmount / chargeAmount) * transferredAmount`.
  * @param chargeAmountCents - Original captured charge amount (used for proration)
  * @param transferredAmountCents - Amount of the original transfer (used for proration)
- * @returns The TransferReversal record from Stripe
+ * @returns The TransferReversal record from Stripe (the first one, for split payouts)
+ *
+ * For a co-managed location's split payout, `transferId` may be any of the
+ * partners' transfers: the reversal is split across all of them.
  */
 export async function reverseTransferForRefund(
   transferId: string,
@@ -327,14 +671,21 @@ export async function reverseTransferForRefund(
     return null;
   }
 
+  const metadata = {
+    refund_amount_cents: String(refundAmountCents),
+    charge_amount_cents: String(chargeAmountCents),
+    original_transfer_amount_cents: String(transferredAmountCents),
+  };
+
   try {
+    const splitGroup = await getTransferSplitGroup(transferId);
+    if (splitGroup.length > 0) {
+      return await reverseSplitGroup(splitGroup, reversalAmountCents, metadata);
+    }
+
     const reversal = await stripe.transfers.createReversal(transferId, {
       amount: reversalAmountCents,
-      metadata: {
-        refund_amount_cents: String(refundAmountCents),
-        charge_amount_cents: String(chargeAmountCents),
-        original_transfer_amount_cents: String(transferredAmountCents),
-      },
+      metadata,
     });
 
     logger.info(
@@ -346,3 +697,60 @@ export async function reverseTransferForRefund(
     throw err;
   }
 }
+
+/**
+ * Reverse a platform-funded promo top-up in proportion to a customer refund,
+ * like reverseTransferForRefund does for the main payout. The wallet top-up is
+ * left alone — it is reversed when the credit goes back to the chef.
+ *
+ * @param transfer - `metadata.transfer` of the payment transaction
+ * @param chargeAmountCents - Original captured charge amount (used for proration)
+ */
+export async function reversePromoTopUpForRefund(
+  transfer: Pick<TransferResult, 'promoTopUpTransferId' | 'promoTopUpCents'> | null | undefined,
+  refundAmountCents: number,
+  chargeAmountCents: number,
+): Promise<Stripe.TransferReversal | null> {
+  const topUpCents = Number(transfer?.promoTopUpCents ?? 0);
+  if (!transfer?.promoTopUpTransferId || topUpCents <= 0) {
+    return null;
+  }
+  return reverseTransferForRefund(transfer.promoTopUpTransferId, refundAmountCents, chargeAmountCents, topUpCents);
+}
+
+/**
+ * Reverse an exact amount of a transfer back to the platform balance, with no
+ * customer refund. Used when a refund is returned as wallet credit and when
+ * credit spent on a cancelled booking goes back to the chef. Split payouts are
+ * reversed across partners like reverseTransferForRefund.
+ */
+export async function reverseTransferToPlatform(
+  transferId: string,
+  amountCents: number,
+  metadata: Record<string, string> = {},
+): Promise<Stripe.TransferReversal | null> {
+  if (!stripe) {
+    logger.warn('[StripeTransferService] Stripe not configured — cannot reverse transfer');
+    return null;
+  }
+  if (amountCents <= 0) {
+    return null;
+  }
+
+  try {
+    const splitGroup = await getTransferSplitGroup(transferId);
+    if (splitGroup.length > 0) {
+      return await reverseSplitGroup(splitGroup, amountCents, metadata);
+    }
+
+    const reversal = await stripe.transfers.createReversal(transferId, {
+      amount: amountCents,
+      metadata,
+    });
+    logger.info(`[StripeTransferService] ✅ Reversed ${amountCents}¢ from transfer ${transferId} to platform`);
+    return reversal;
+  } catch (err) {
+    logger.error(`[StripeTransferService] Error reversing transfer ${transferId}:`, err);
+    throw err;
+  }
+}
@@ -0,0 +1,631 @@
+import { logger } from "../logger";
+/**
+ * Tax Service — Jurisdiction-Aware Canadian Sales Tax
+ *
+ * Sales tax follows the province or territory the kitchen is in:
+ * - GST only (5%): AB, NT, NU, YT
+ * - GST + provincial tax: BC (PST), MB (RST), SK (PST), QC (QST)
+ * - HST (federal and provincial harmonized): ON, NB, NL, NS, PE
+ *
+ * A location's province is derived from its address (province name or code,
+ * or the first letter of the postal code) unless the manager sets it. The
+ * combined rate is written to each of the location's kitchens
+ * (`kitchens.tax_rate_percent`), which every checkout — bookings, storage,
+ * equipment, extensions, subscriptions, penalties and damage claims — already
+ * taxes at. Locations whose province cannot be determined keep the kitchen's
+ * manually entered rate.
+ *
+ * Each payment records the tax it collected (`payment_transactions.tax_cents`)
+ * and its split by tax type (`tax_breakdown`), which feeds invoices and the
+ * quarterly tax-collected report.
+ */
+
+import { db } from "../db";
+import { kitchens, locations, paymentTransactions } from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { getPaymentLocationId, splitAmountByShares } from "./location-revenue-share-service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProvinceCode =
+  | "AB" | "BC" | "MB" | "NB" | "NL" | "NS" | "NT"
+  | "NU" | "ON" | "PE" | "QC" | "SK" | "YT";
+
+/** TAX = unclassified sales tax, for locations outside a known province */
+export type TaxType = "GST" | "HST" | "PST" | "QST" | "RST" | "TAX";
+
+export interface TaxComponent {
+  type: TaxType;
+  ratePercent: number;
+}
+
+export interface TaxLine extends TaxComponent {
+  amountCents: number;
+}
+
+/** Stored in payment_transactions.tax_breakdown */
+export interface TaxBreakdown {
+  locationId: number | null;
+  province: ProvinceCode | null;
+  ratePercent: number;
+  taxCents: number;
+  lines: TaxLine[];
+}
+
+export interface LocationTaxProfile {
+  locationId: number;
+  locationName: string;
+  address: string;
+  province: ProvinceCode | null;
+  /** manual = set by the manager, address = derived from the address */
+  provinceSource: "manual" | "address" | null;
+  components: TaxComponent[];
+  ratePercent: number;
+  gstHstNumber: string | null;
+  pstNumber: string | null;
+}
+
+export interface TaxSettingsInput {
+  /** Province code, or null/empty to derive it from the address */
+  taxProvince?: string | null;
+  gstHstNumber?: string | null;
+  pstNumber?: string | null;
+}
+
+/** What an invoice prints for tax */
+export interface InvoiceTaxDetails {
+  lines: TaxLine[];
+  /** e.g. "GST/HST Reg. No.: 123456789 RT 0001" */
+  registrations: string[];
+}
+
+export interface TaxReportRow {
+  paymentTransactionId: number;
+  date: string;
+  locationId: number | null;
+  locationName: string;
+  province: ProvinceCode | null;
+  itemType: string;
+  bookingId: number;
+  /** Net of refunds */
+  taxableCents: number;
+  taxCents: number;
+  refundedTaxCents: number;
+  byType: Partial<Record<TaxType, number>>;
+}
+
+export interface TaxReportTotals {
+  taxableCents: number;
+  taxCents: number;
+  refundedTaxCents: number;
+  transactionCount: number;
+  byType: Partial<Record<TaxType, number>>;
+}
+
+export interface TaxReportLocation extends TaxReportTotals {
+  locationId: number | null;
+  locationName: string;
+  province: ProvinceCode | null;
+  gstHstNumber: string | null;
+  pstNumber: string | null;
+}
+
+export interface TaxReport {
+  year: number;
+  quarter: number;
+  startDate: string;
+  endDate: string;
+  locations: TaxReportLocation[];
+  totals: TaxReportTotals;
+  rows: TaxReportRow[];
+}
+
+// ============================================================================
+// JURISDICTIONS
+// ============================================================================
+
+export const PROVINCIAL_TAX_RATES: Record<ProvinceCode, { name: string; components: TaxComponent[] }> = {
+  AB: { name: "Alberta", components: [{ type: "GST", ratePercent: 5 }] },
+  BC: { name: "British Columbia", components: [{ type: "GST", ratePercent: 5 }, { type: "PST", ratePercent: 7 }] },
+  MB: { name: "Manitoba", components: [{ type: "GST", ratePercent: 5 }, { type: "RST", ratePercent: 7 }] },
+  NB: { name: "New Brunswick", components: [{ type: "HST", ratePercent: 15 }] },
+  NL: { name: "Newfoundland and Labrador", components: [{ type: "HST", ratePercent: 15 }] },
+  NS: { name: "Nova Scotia", components: [{ type: "HST", ratePercent: 14 }] },
+  NT: { name: "Northwest Territories", components: [{ type: "GST", ratePercent: 5 }] },
+  NU: { name: "Nunavut", components: [{ type: "GST", ratePercent: 5 }] },
+  ON: { name: "Ontario", components: [{ type: "HST", ratePercent: 13 }] },
+  PE: { name: "Prince Edward Island", components: [{ type: "HST", ratePercent: 15 }] },
+  QC: { name: "Quebec", components: [{ type: "GST", ratePercent: 5 }, { type: "QST", ratePercent: 9.975 }] },
+  SK: { name: "Saskatchewan", components: [{ type: "GST", ratePercent: 5 }, { type: "PST", ratePercent: 6 }] },
+  YT: { name: "Yukon", components: [{ type: "GST", ratePercent: 5 }] },
+};
+
+export const TAX_TYPE_LABELS: Record<TaxType, string> = {
+  GST: "GST",
+  HST: "HST",
+  PST: "PST",
+  QST: "QST",
+  RST: "RST",
+  TAX: "Sales Tax",
+};
+
+/** Postal code first letter → province. X is split between NT and NU below. */
+const POSTAL_PREFIX_PROVINCES: Record<string, ProvinceCode> = {
+  A: "NL", B: "NS", C: "PE", E: "NB",
+  G: "QC", H: "QC", J: "QC",
+  K: "ON", L: "ON", M: "ON", N: "ON", P: "ON",
+  R: "MB", S: "SK", T: "AB", V: "BC", X: "NT", Y: "YT",
+};
+
+/** Nunavut's X postal districts */
+const NUNAVUT_POSTAL_PREFIXES = ["X0A", "X0B", "X0C"];
+
+const POSTAL_CODE_PATTERN = /\b([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?\d[ABCEGHJ-NPRSTV-Z]\d\b/gi;
+const GST_HST_NUMBER_PATTERN = /^(\d{9})\s*RT\s*(\d{4})$/i;
+const MAX_PST_NUMBER_LENGTH = 30;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function isProvinceCode(value: unknown): value is ProvinceCode {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PROVINCIAL_TAX_RATES, value);
+}
+
+/** Combined rate, e.g. 14.975 for Quebec */
+export function getProvinceTaxRate(province: ProvinceCode): number {
+  const total = PROVINCIAL_TAX_RATES[province].components.reduce((sum, c) => sum + c.ratePercent, 0);
+  return Math.round(total * 1000) / 1000;
+}
+
+/**
+ * Province for a Canadian street address, or null when it cannot be told.
+ * The postal code wins over names, since street and city names can contain
+ * province names ("Ontario Street, Montreal").
+ */
+export function detectProvinceFromAddress(address: string | null | undefined): ProvinceCode | null {
+  if (!address) return null;
+
+  const postalCodes = Array.from(address.matchAll(POSTAL_CODE_PATTERN));
+  if (postalCodes.length > 0) {
+    const district = postalCodes[postalCodes.length - 1][1].toUpperCase();
+    if (NUNAVUT_POSTAL_PREFIXES.includes(district)) return "NU";
+    return POSTAL_PREFIX_PROVINCES[district[0]] ?? null;
+  }
+
+  // Two-letter codes must be upper case ("ON", not the word "on"); take the last one
+  const codes = Array.from(address.matchAll(/\b([A-Z]{2})\b/g))
+    .map((match) => match[1])
+    .filter(isProvinceCode);
+  if (codes.length > 0) return codes[codes.length - 1];
+
+  const normalized = address.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+  let found: { province: ProvinceCode; index: number } | null = null;
+  for (const [code, { name }] of Object.entries(PROVINCIAL_TAX_RATES) as [ProvinceCode, { name: string }][]) {
+    const index = normalized.lastIndexOf(name.toLowerCase());
+    if (index >= 0 && (!found || index > found.index)) found = { province: code, index };
+  }
+  if (found) return found.province;
+  if (normalized.includes("newfoundland")) return "NL";
+  return null;
+}
+
+/** The manager's choice, else the address */
+export function resolveTaxProvince(
+  taxProvince: string | null | undefined,
+  address: string | null | undefined,
+): { province: ProvinceCode | null; source: "manual" | "address" | null } {
+  if (isProvinceCode(taxProvince)) return { province: taxProvince, source: "manual" };
+  const detected = detectProvinceFromAddress(address);
+  return { province: detected, source: detected ? "address" : null };
+}
+
+/**
+ * Split a tax amount between its components in proportion to their rates.
+ * Without a known province the whole amount is one unclassified line.
+ */
+export function buildTaxBreakdown(
+  taxCents: number,
+  province: ProvinceCode | null,
+  fallbackRatePercent: number,
+  locationId: number | null = null,
+): TaxBreakdown {
+  const components = province
+    ? PROVINCIAL_TAX_RATES[province].components
+    : [{ type: "TAX" as const, ratePercent: fallbackRatePercent }];
+  const amounts = components.length === 1 ? [taxCents] : splitAmountByShares(taxCents, components.map((c) => c.ratePercent));
+
+  return {
+    locationId,
+    province,
+    ratePercent: province ? getProvinceTaxRate(province) : fallbackRatePercent,
+    taxCents,
+    lines: components
+      .map((component, i) => ({ ...component, amountCents: amounts[i] }))
+      .filter((line) => line.amountCents > 0 || taxCents === 0),
+  };
+}
+
+/** Tax on a pre-tax amount at the province's combined rate (or the fallback rate) */
+export function calculateTaxBreakdown(
+  baseCents: number,
+  province: ProvinceCode | null,
+  fallbackRatePercent = 0,
+  locationId: number | null = null,
+): TaxBreakdown {
+  const ratePercent = province ? getProvinceTaxRate(province) : fallbackRatePercent;
+  const taxCents = baseCents > 0 ? Math.round((baseCents * ratePercent) / 100) : 0;
+  return buildTaxBreakdown(taxCents, province, fallbackRatePercent, locationId);
+}
+
+/** "HST (13%)", "QST (9.975%)"; just "Sales Tax" when the rate is unknown */
+export function formatTaxLabel(component: TaxComponent): string {
+  const label = TAX_TYPE_LABELS[component.type];
+  return component.ratePercent > 0 ? `${label} (${component.ratePercent}%)` : label;
+}
+
+/** Registration number lines, with the provincial tax named after the province's own tax */
+export function formatTaxRegistrations(
+  province: ProvinceCode | null,
+  gstHstNumber: string | null,
+  pstNumber: string | null,
+): string[] {
+  const provincialTax = province
+    ? PROVINCIAL_TAX_RATES[province].components.find((c) => c.type !== "GST" && c.type !== "HST")?.type
+    : undefined;
+  const registrations: string[] = [];
+  if (gstHstNumber) registrations.push(`GST/HST Reg. No.: ${gstHstNumber}`);
+  if (pstNumber) registrations.push(`${provincialTax ?? "PST"} Reg. No.: ${pstNumber}`);
+  return registrations;
+}
+
+/** "123456789 RT 0001", or the input unchanged when it does not match */
+export function normalizeGstHstNumber(value: string): string {
+  const match = value.trim().match(GST_HST_NUMBER_PATTERN);
+  return match ? `${match[1]} RT ${match[2]}` : value.trim();
+}
+
+/** Returns an error message, or null when the settings are valid */
+export function validateTaxSettings(input: unknown): string | null {
+  if (!input || typeof input !== "object") {
+    return "Tax settings are required";
+  }
+  const { taxProvince, gstHstNumber, pstNumber } = input as TaxSettingsInput;
+
+  if (taxProvince != null && taxProvince !== "" && !isProvinceCode(taxProvince)) {
+    return `Unknown province or territory: ${taxProvince}`;
+  }
+  if (gstHstNumber != null && gstHstNumber !== "") {
+    if (typeof gstHstNumber !== "string" || !GST_HST_NUMBER_PATTERN.test(gstHstNumber.trim())) {
+      return "GST/HST number must be a 9-digit business number followed by RT and a 4-digit account (e.g. 123456789 RT 0001)";
+    }
+  }
+  if (pstNumber != null && pstNumber !== "") {
+    if (typeof pstNumber !== "string" || !/^[A-Za-z0-9][A-Za-z0-9 -]*$/.test(pstNumber.trim())) {
+      return "PST number may only contain letters, digits, spaces and dashes";
+    }
+    if (pstNumber.trim().length > MAX_PST_NUMBER_LENGTH) {
+      return `PST number must be at most ${MAX_PST_NUMBER_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+/** Calendar quarter as whole-day dates (inclusive) */
+export function getQuarterRange(year: number, quarter: number): { startDate: string; endDate: string } {
+  const startMonth = (quarter - 1) * 3;
+  const start = new Date(Date.UTC(year, startMonth, 1));
+  const end = new Date(Date.UTC(year, startMonth + 3, 0));
+  return {
+    startDate: start.toISOString().split("T")[0],
+    endDate: end.toISOString().split("T")[0],
+  };
+}
+
+const REPORT_TAX_TYPES: TaxType[] = ["GST", "HST", "PST", "QST", "RST", "TAX"];
+
+function escapeCsv(value: string | number | null): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toDollars = (cents: number) => (cents / 100).toFixed(2);
+
+/** One row per payment plus a totals row; amounts in dollars, net of refunds */
+export function taxReportToCsv(report: TaxReport): string {
+  const header = [
+    "Date", "Transaction ID", "Location", "Province", "Item", "Booking ID",
+    "Taxable Amount", ...REPORT_TAX_TYPES.map((type) => TAX_TYPE_LABELS[type]), "Total Tax", "Tax Refunded",
+  ];
+  const lines = report.rows.map((row) => [
+    row.date, row.paymentTransactionId, row.locationName, row.province ?? "", row.itemType, row.bookingId,
+    toDollars(row.taxableCents), ...REPORT_TAX_TYPES.map((type) => toDollars(row.byType[type] ?? 0)),
+    toDollars(row.taxCents), toDollars(row.refundedTaxCents),
+  ]);
+  lines.push([
+    "Total", "", "", "", "", "",
+    toDollars(report.totals.taxableCents), ...REPORT_TAX_TYPES.map((type) => toDollars(report.totals.byType[type] ?? 0)),
+    toDollars(report.totals.taxCents), toDollars(report.totals.refundedTaxCents),
+  ]);
+  return [header, ...lines].map((line) => line.map(escapeCsv).join(",")).join("\n");
+}
+
+/** getInvoiceTaxDetails for a profile already loaded */
+export function buildInvoiceTaxDetails(
+  profile: LocationTaxProfile | null,
+  taxCents: number,
+  fallbackRatePercent: number,
+  recorded?: TaxBreakdown | null,
+): InvoiceTaxDetails {
+  const breakdown = recorded?.lines && recorded.taxCents === taxCents
+    ? recorded
+    : buildTaxBreakdown(taxCents, profile?.province ?? null, fallbackRatePercent, profile?.locationId ?? null);
+
+  return {
+    lines: breakdown.lines.filter((line) => line.amountCents > 0),
+    registrations: profile
+      ? formatTaxRegistrations(profile.province, profile.gstHstNumber, profile.pstNumber)
+      : [],
+  };
+}
+
+// ============================================================================
+// LOCATION SETTINGS
+// ============================================================================
+
+/** Highest manually entered kitchen rate, for locations outside a known province */
+async function getFallbackRatePercent(locationId: number): Promise<number> {
+  const [row] = await db
+    .select({ rate: sql<string | null>`MAX(${kitchens.taxRatePercent})` })
+    .from(kitchens)
+    .where(eq(kitchens.locationId, locationId));
+  return row?.rate != null ? parseFloat(String(row.rate)) || 0 : 0;
+}
+
+export async function getLocationTaxProfile(locationId: number): Promise<LocationTaxProfile | null> {
+  const [location] = await db
+    .select({
+      id: locations.id,
+      name: locations.name,
+      address: locations.address,
+      taxProvince: locations.taxProvince,
+      gstHstNumber: locations.gstHstNumber,
+      pstNumber: locations.pstNumber,
+    })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  if (!location) return null;
+
+  const { province, source } = resolveTaxProvince(location.taxProvince, location.address);
+  const fallbackRate = province ? 0 : await getFallbackRatePercent(locationId);
+
+  return {
+    locationId: location.id,
+    locationName: location.name,
+    address: location.address,
+    province,
+    provinceSource: source,
+    components: province
+      ? PROVINCIAL_TAX_RATES[province].components
+      : fallbackRate > 0 ? [{ type: "TAX", ratePercent: fallbackRate }] : [],
+    ratePercent: province ? getProvinceTaxRate(province) : fallbackRate,
+    gstHstNumber: location.gstHstNumber,
+    pstNumber: location.pstNumber,
+  };
+}
+
+/**
+ * Apply the location's jurisdiction rate to all its kitchens. No-op when the
+ * province is unknown, so manually entered kitchen rates are kept.
+ */
+export async function syncLocationKitchenTaxRates(locationId: number): Promise<void> {
+  const profile = await getLocationTaxProfile(locationId);
+  if (!profile?.province) return;
+
+  await db
+    .update(kitchens)
+    .set({ taxRatePercent: profile.ratePercent.toString(), updatedAt: new Date() })
+    .where(eq(kitchens.locationId, locationId));
+  logger.info(`[TaxService] Location ${locationId} kitchens taxed at ${profile.ratePercent}% (${profile.province})`);
+}
+
+export async function updateLocationTaxSettings(
+  locationId: number,
+  input: TaxSettingsInput,
+): Promise<LocationTaxProfile | null> {
+  const clean = (value: string | null | undefined) => (value && value.trim() ? value.trim() : null);
+
+  await db
+    .update(locations)
+    .set({
+      taxProvince: clean(input.taxProvince),
+      gstHstNumber: input.gstHstNumber ? normalizeGstHstNumber(input.gstHstNumber) : null,
+      pstNumber: clean(input.pstNumber),
+      updatedAt: new Date(),
+    })
+    .where(eq(locations.id, locationId));
+
+  await syncLocationKitchenTaxRates(locationId);
+  return getLocationTaxProfile(locationId);
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/** Tax on a pre-tax amount charged at a location (e.g. a damage claim) */
+export async function calculateLocationTax(locationId: number, baseCents: number): Promise<TaxBreakdown> {
+  const profile = await getLocationTaxProfile(locationId);
+  if (!profile) return calculateTaxBreakdown(baseCents, null, 0, locationId);
+  return calculateTaxBreakdown(baseCents, profile.province, profile.ratePercent, locationId);
+}
+
+/** Split a payment's recorded tax by type, using its location's current jurisdiction */
+export async function getPaymentTaxBreakdown(
+  paymentTransactionId: number,
+  taxCents: number,
+): Promise<TaxBreakdown> {
+  const locationId = await getPaymentLocationId(paymentTransactionId);
+  const profile = locationId ? await getLocationTaxProfile(locationId) : null;
+  return buildTaxBreakdown(taxCents, profile?.province ?? null, profile?.ratePercent ?? 0, locationId);
+}
+
+/** Split a payment's recorded tax by type and store it on the payment */
+export async function recordPaymentTaxBreakdown(
+  paymentTransactionId: number,
+  taxCents: number,
+): Promise<TaxBreakdown> {
+  const breakdown = await getPaymentTaxBreakdown(paymentTransactionId, taxCents);
+
+  await db
+    .update(paymentTransactions)
+    .set({ taxBreakdown: breakdown })
+    .where(eq(paymentTransactions.id, paymentTransactionId));
+  return breakdown;
+}
+
+/**
+ * Tax lines and registration numbers for an invoice. Uses the payment's
+ * recorded breakdown when there is one, otherwise splits the invoice's tax by
+ * the location's current jurisdiction.
+ */
+export async function getInvoiceTaxDetails(
+  locationId: number | null | undefined,
+  taxCents: number,
+  fallbackRatePercent: number,
+  recorded?: TaxBreakdown | null,
+): Promise<InvoiceTaxDetails> {
+  const profile = locationId ? await getLocationTaxProfile(locationId) : null;
+  return buildInvoiceTaxDetails(profile, taxCents, fallbackRatePercent, recorded);
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+function addToTotals(totals: TaxReportTotals, row: TaxReportRow): void {
+  totals.taxableCents += row.taxableCents;
+  totals.taxCents += row.taxCents;
+  totals.refundedTaxCents += row.refundedTaxCents;
+  totals.transactionCount += 1;
+  for (const [type, cents] of Object.entries(row.byType) as [TaxType, number][]) {
+    totals.byType[type] = (totals.byType[type] ?? 0) + cents;
+  }
+}
+
+const emptyTotals = (): TaxReportTotals => ({
+  taxableCents: 0, taxCents: 0, refundedTaxCents: 0, transactionCount: 0, byType: {},
+});
+
+/**
+ * Tax collected by a manager's payments in a calendar quarter, by location
+ * and tax type. Refunds return tax in proportion to the amount refunded.
+ */
+export async function getTaxReport(managerId: number, year: number, quarter: number): Promise<TaxReport> {
+  const { startDate, endDate } = getQuarterRange(year, quarter);
+  const paidOn = sql`DATE(COALESCE(${paymentTransactions.paidAt}, ${paymentTransactions.createdAt}))`;
+
+  const payments = await db
+    .select({
+      id: paymentTransactions.id,
+      bookingId: paymentTransactions.bookingId,
+      bookingType: paymentTransactions.bookingType,
+      amount: paymentTransactions.amount,
+      refundAmount: paymentTransactions.refundAmount,
+      taxCents: paymentTransactions.taxCents,
+      taxBreakdown: paymentTransactions.taxBreakdown,
+      metadata: paymentTransactions.metadata,
+      paidOn: sql<string>`${paidOn}::text`,
+    })
+    .from(paymentTransactions)
+    .where(and(
+      eq(paymentTransactions.managerId, managerId),
+      isNotNull(paymentTransactions.taxCents),
+      inArray(paymentTransactions.status, ["succeeded", "partially_refunded", "refunded"]),
+      sql`${paidOn} >= ${startDate}::date`,
+      sql`${paidOn} <= ${endDate}::date`,
+    ))
+    .orderBy(desc(paidOn), desc(paymentTransactions.id));
+
+  // Payments recorded before breakdowns existed are split in memory; the report never writes
+  const breakdowns = new Map<number, TaxBreakdown>();
+  for (const payment of payments) {
+    const stored = payment.taxBreakdown as TaxBreakdown | null;
+    breakdowns.set(
+      payment.id,
+      stored?.lines ? stored : await getPaymentTaxBreakdown(payment.id, payment.taxCents ?? 0),
+    );
+  }
+
+  const locationIds = Array.from(new Set(
+    Array.from(breakdowns.values()).map((b) => b.locationId).filter((id): id is number => id != null),
+  ));
+  const locationRows = locationIds.length > 0
+    ? await db
+      .select({ id: locations.id, name: locations.name, gstHstNumber: locations.gstHstNumber, pstNumber: locations.pstNumber })
+      .from(locations)
+      .where(inArray(locations.id, locationIds))
+    : [];
+  const locationById = new Map(locationRows.map((loc) => [loc.id, loc]));
+
+  const byLocation = new Map<number | null, TaxReportLocation>();
+  const totals = emptyTotals();
+  const rows: TaxReportRow[] = payments.map((payment) => {
+    const breakdown = breakdowns.get(payment.id)!;
+    const amountCents = parseInt(String(payment.amount)) || 0;
+    const refundCents = Math.min(amountCents, parseInt(String(payment.refundAmount ?? "0")) || 0);
+    const taxCents = payment.taxCents ?? 0;
+    const refundedTaxCents = amountCents > 0 ? Math.round((taxCents * refundCents) / amountCents) : 0;
+    const netTaxCents = taxCents - refundedTaxCents;
+    const netTaxable = amountCents - taxCents - (refundCents - refundedTaxCents);
+    const lineAmounts = splitAmountByShares(netTaxCents, breakdown.lines.map((line) => line.amountCents));
+    const location = breakdown.locationId != null ? locationById.get(breakdown.locationId) : undefined;
+    const metadata = (payment.metadata ?? {}) as { type?: string };
+
+    const row: TaxReportRow = {
+      paymentTransactionId: payment.id,
+      date: payment.paidOn,
+      locationId: breakdown.locationId,
+      locationName: location?.name ?? "Unknown location",
+      province: breakdown.province,
+      itemType: metadata.type || payment.bookingType,
+      bookingId: payment.bookingId,
+      taxableCents: Math.max(0, netTaxable),
+      taxCents: netTaxCents,
+      refundedTaxCents,
+      byType: {},
+    };
+    breakdown.lines.forEach((line, i) => {
+      row.byType[line.type] = (row.byType[line.type] ?? 0) + lineAmounts[i];
+    });
+
+    let summary = byLocation.get(breakdown.locationId);
+    if (!summary) {
+      summary = {
+        ...emptyTotals(),
+        locationId: breakdown.locationId,
+        locationName: row.locationName,
+        province: breakdown.province,
+        gstHstNumber: location?.gstHstNumber ?? null,
+        pstNumber: location?.pstNumber ?? null,
+      };
+      byLocation.set(breakdown.locationId, summary);
+    }
+    addToTotals(summary, row);
+    addToTotals(totals, row);
+    return row;
+  });
+
+  return {
+    year,
+    quarter,
+    startDate,
+    endDate,
+    locations: Array.from(byLocation.values()).sort((a, b) => a.locationName.localeCompare(b.locationName)),
+    totals,
+    rows,
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { SUPPORTED_CURRENCIES } from '@shared/currency-utils';
 
 /**
  * Validate user input using Zod schema
@@ -97,6 +98,7 @@ export async function validateLocationInput(data: unknown) {
     logoUrl: z.string().optional(),
     brandImageUrl: z.string().optional(),
     timezone: z.string().optional(),
+    currency: z.enum(SUPPORTED_CURRENCIES).optional(),
     kitchenLicenseUrl: z.string().optional(),
     kitchenLicenseStatus: z.enum(['pending', 'approved', 'rejected']).optional(),
     kitchenLicenseExpiry: z.string().optional(),
@@ -133,7 +135,7 @@ export async function validateKitchenInput(data: unknown) {
     amenities: z.array(z.string()).optional(),
     isActive: z.boolean().optional(),
     hourlyRate: z.number().positive('Hourly rate must be positive').optional(),
-    currency: z.string().length(3).optional(),
+    currency: z.enum(SUPPORTED_CURRENCIES).optional(),
     minimumBookingHours: z.number().int('Minimum booking hours must be a whole number').min(0, 'Minimum booking hours cannot be negative').max(24, 'Minimum booking hours cannot exceed 24').optional(),
     pricingModel: z.enum(['hourly', 'daily', 'weekly', 'monthly-flat', 'per-cubic-foot']).optional(),
   });
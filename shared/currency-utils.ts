@@ -0,0 +1,46 @@
+/**
+ * Currency utilities
+ * Each location charges in one currency; kitchens, listings, bookings and
+ * payments inherit it. Amounts are always integer cents of that currency.
+ */
+
+// Currencies a location can charge in
+export const SUPPORTED_CURRENCIES = ['CAD', 'USD'] as const;
+
+export type SupportedCurrency = typeof SUPPORTED_CURRENCIES[number];
+
+// Currency for existing (Canadian) locations and records without one
+export const DEFAULT_CURRENCY: SupportedCurrency = 'CAD';
+
+export function isSupportedCurrency(value: unknown): value is SupportedCurrency {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Upper-case ISO code for a stored or Stripe currency ('usd' → 'USD'),
+ * falling back to the default for missing or unsupported values
+ */
+export function normalizeCurrency(value: string | null | undefined): SupportedCurrency {
+  const upper = (value || '').trim().toUpperCase();
+  return isSupportedCurrency(upper) ? upper : DEFAULT_CURRENCY;
+}
+
+/**
+ * Lower-case code as Stripe expects it ('CAD' → 'cad')
+ */
+export function toStripeCurrency(value: string | null | undefined): string {
+  return normalizeCurrency(value).toLowerCase();
+}
+
+/**
+ * Format cents for invoices and emails. CAD keeps the plain "$" existing
+ * Canadian documents use; other currencies are marked ("US$12.00").
+ */
+export function formatMoney(amountInCents: number, currency: string | null | undefined = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-CA', {
+    style: 'currency',
+    currency: normalizeCurrency(currency),
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amountInCents / 100);
+}
@@ -2,6 +2,7 @@ import { boolean, date, integer, jsonb, numeric, pgEnum, pgTable, serial, text,
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { phoneNumberSchema, optionalPhoneNumberSchema } from './phone-validation';
+import { SUPPORTED_CURRENCIES } from './currency-utils';
 
 // Define an enum for kitchen preference
 export const kitchenPreferenceEnum = pgEnum('kitchen_preference', ['commercial', 'home', 'notSure']);
@@ -62,7 +63,7 @@ export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'authorize
 export const transactionStatusEnum = pgEnum('transaction_status', ['pending', 'authorized', 'processing', 'succeeded', 'failed', 'canceled', 'refunded', 'partially_refunded']);
 
 // Define enum for booking type in payment transactions
-export const bookingTypeEnum = pgEnum('booking_type_enum', ['kitchen', 'storage', 'equipment', 'bundle']);
+export const bookingTypeEnum = pgEnum('booking_type_enum', ['kitchen', 'storage', 'equipment', 'bundle', 'wallet']);
 
 // Define users table (for both admins and users)
 export const users = pgTable("users", {
@@ -304,11 +305,13 @@ export const locations = pgTable("locations", {
   preferredContactMethod: text("preferred_contact_method").default("email").notNull(), // email, phone, or both
   cancellationPolicyHours: integer("cancellation_policy_hours").default(24).notNull(),
   cancellationPolicyMessage: text("cancellation_policy_message").default("Bookings cannot be cancelled within {hours} hours of the scheduled time.").notNull(),
+  reschedulePolicyHours: integer("reschedule_policy_hours").default(24).notNull(), // Chefs cannot reschedule within this many hours of the booking
   defaultDailyBookingLimit: integer("default_daily_booking_limit").default(2).notNull(),
   minimumBookingWindowHours: integer("minimum_booking_window_hours").default(1).notNull(),
   logoUrl: text("logo_url"), // Logo URL for the location (for manager header)
   brandImageUrl: text("brand_image_url"), // Brand image URL for the location (displayed on public kitchen listings)
   timezone: text("timezone").default("America/St_Johns").notNull(), // Timezone for this location (default: Newfoundland)
+  currency: text("currency").default("CAD").notNull(), // Currency all of this location's kitchens and listings charge in (CAD, USD)
   // Kitchen license fields for manager onboarding
   kitchenLicenseUrl: text("kitchen_license_url"), // URL to uploaded kitchen license document
   kitchenLicenseStatus: text("kitchen_license_status").default("pending"), // pending, approved, rejected
@@ -335,9 +338,14 @@ export const locations = pgTable("locations", {
   
   // Kitchen check-in/out time window overrides (nullable = use platform default)
   // Note: checkout review window is admin-only (platform setting) — no location override.
-  // Kitchen overstay tracking has been removed from the product.
   checkinWindowMinutesBefore: integer("checkin_window_minutes_before"), // How early before start time chef can check in
   noShowGraceMinutes: integer("no_show_grace_minutes"), // Grace period after start time before marking no-show
+  overtimeGraceMinutes: integer("overtime_grace_minutes"), // Minutes past booked end time before a late check-out is billed
+
+  // Sales tax jurisdiction and registration numbers (printed on invoices)
+  taxProvince: text("tax_province"), // Province/territory code (e.g. "ON"); null = derive from address
+  gstHstNumber: text("gst_hst_number"), // GST/HST registration number (e.g. "123456789 RT 0001")
+  pstNumber: text("pst_number"), // PST/QST/RST registration number
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -411,17 +419,20 @@ export const kitchens = pgTable("kitchens", {
   isActive: boolean("is_active").default(true).notNull(),
   // Pricing fields (all prices stored as integers in cents to avoid floating-point precision issues)
   hourlyRate: numeric("hourly_rate"), // Base hourly rate in cents (e.g., 5000 = $50.00/hour)
-  currency: text("currency").default("CAD").notNull(), // Currency code (ISO 4217)
+  currency: text("currency").default("CAD").notNull(), // Currency code (ISO 4217), inherited from the location
   minimumBookingHours: integer("minimum_booking_hours").default(1).notNull(), // Minimum booking duration
   pricingModel: text("pricing_model").default("hourly").notNull(), // Pricing structure ('hourly', 'daily', 'weekly')
+  dailyRate: numeric("daily_rate"), // Full-day rate in cents; also caps hourly bookings that would cost more
+  weeklyRate: numeric("weekly_rate"), // 7-day rate in cents; caps multi-day bookings that would cost more
   taxRatePercent: numeric("tax_rate_percent"), // Optional tax percentage (e.g., 13 for 13%)
   // Smart lock integration (optional per kitchen)
   // Admin-controlled capability gate — if false, managers cannot see or configure
   // any smart-door UI for this kitchen. Enforced in code on top of the DB constraint.
   smartLockAvailable: boolean("smart_lock_available").default(false).notNull(),
   smartLockEnabled: boolean("smart_lock_enabled").default(false),
-  // Manager-typed static access code settings: { accessCode, accessCodeFormat, codeVisibility, codeSetAt }.
-  // No provider/API credentials anymore — managers program their keypads manually.
+  // Manager-typed static access code settings: { accessCode, accessCodeFormat, codeVisibility, codeSetAt },
+  // plus an optional `provider` block (type + credentials) for locks that take pushed
+  // per-booking codes — see server/services/smart-lock-service.ts. Redacted before it leaves the server.
   smartLockConfig: jsonb("smart_lock_config").default({}),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -450,6 +461,21 @@ export const kitchenDateOverrides = pgTable("kitchen_date_overrides", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Stations (capacity units) within a kitchen. A commissary kitchen with three
+// stations can host three chefs at once; kitchens without stations are booked whole.
+export const kitchenStations = pgTable("kitchen_stations", {
+  id: serial("id").primaryKey(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(), // e.g. "Station 1", "Pastry bench"
+  description: text("description"),
+  isActive: boolean("is_active").default(true).notNull(), // Inactive stations are not bookable
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type KitchenStation = typeof kitchenStations.$inferSelect;
+
 // Define kitchen bookings table
 export const kitchenBookings = pgTable("kitchen_bookings", {
   id: serial("id").primaryKey(),
@@ -459,6 +485,8 @@ export const kitchenBookings = pgTable("kitchen_bookings", {
   bookingDate: timestamp("booking_date").notNull(),
   startTime: text("start_time").notNull(), // HH:MM format - earliest slot start
   endTime: text("end_time").notNull(), // HH:MM format - latest slot end
+  endDate: timestamp("end_date"), // Day endTime falls on for overnight/multi-day bookings (null = same day as bookingDate)
+  stationIds: jsonb("station_ids").default([]), // kitchen_stations ids this booking occupies ([] = whole kitchen)
   selectedSlots: jsonb("selected_slots").default([]), // Array of discrete 1-hour time slots, e.g., [{startTime: "09:00", endTime: "10:00"}, {startTime: "14:00", endTime: "15:00"}]
   status: bookingStatusEnum("status").default("pending").notNull(),
   specialNotes: text("special_notes"),
@@ -472,6 +500,7 @@ export const kitchenBookings = pgTable("kitchen_bookings", {
   totalPrice: numeric("total_price"), // Total booking price in cents
   hourlyRate: numeric("hourly_rate"), // Rate used for this booking (in cents)
   durationHours: numeric("duration_hours"), // Calculated duration (decimal for partial hours)
+  pricingBreakdown: jsonb("pricing_breakdown"), // Kitchen-time line items by rate tier: [{tier, description, quantity, unitRateCents, amountCents}]
   storageItems: jsonb("storage_items").default([]), // Array of storage booking IDs: [{storageBookingId: 1, storageListingId: 5}]
   equipmentItems: jsonb("equipment_items").default([]), // Array of equipment booking IDs: [{equipmentBookingId: 2, equipmentListingId: 8}]
   paymentStatus: paymentStatusEnum("payment_status").default("pending"), // Payment status
@@ -486,18 +515,22 @@ export const kitchenBookings = pgTable("kitchen_bookings", {
   cancellationRequestedAt: timestamp("cancellation_requested_at"),
   cancellationRequestReason: text("cancellation_request_reason"),
   cancellationRequestDeclinedAt: timestamp("cancellation_request_declined_at"),
+  // Chef self-service reschedules: [{fromBookingDate, fromStartTime, fromEndTime, toBookingDate, ..., priceDifferenceCents, rescheduledAt}]
+  rescheduleHistory: jsonb("reschedule_history").default([]),
   // ── Kitchen Check-In / Check-Out Lifecycle ────────────────────────────────
   // Tracks chef arrival, departure, condition documentation, and smart lock access.
   // All columns nullable/defaulted — zero impact on existing bookings.
   checkinStatus: kitchenCheckinStatusEnum("checkin_status").default("not_checked_in"),
   checkedInAt: timestamp("checked_in_at"),
-  checkedInMethod: text("checked_in_method"), // 'self' | 'manager'
+  checkedInMethod: text("checked_in_method"), // 'self' | 'manager' | 'smart_lock'
   checkinPhotoUrls: jsonb("checkin_photo_urls").default([]),
+  checkinPhotoDetails: jsonb("checkin_photo_details").default([]), // ConditionPhoto[] (requirement, time, uploader per photo)
   checkinNotes: text("checkin_notes"),
   // Check-out
   checkoutRequestedAt: timestamp("checkout_requested_at"),
-  checkedOutAt: timestamp("checked_out_at"),
+  checkedOutAt: timestamp("checked_out_at"), // When the chef checked out (compared to the booked end for overtime)
   checkoutPhotoUrls: jsonb("checkout_photo_urls").default([]),
+  checkoutPhotoDetails: jsonb("checkout_photo_details").default([]), // ConditionPhoto[]
   checkoutNotes: text("checkout_notes"),
   checkoutApprovedAt: timestamp("checkout_approved_at"),
   checkoutApprovedBy: integer("checkout_approved_by").references(() => users.id, { onDelete: "set null" }),
@@ -506,23 +539,243 @@ export const kitchenBookings = pgTable("kitchen_bookings", {
   accessCodeFormat: text("access_code_format").default("alphanumeric"), // 'numeric' or 'alphanumeric'
   accessCodeValidFrom: timestamp("access_code_valid_from"), // Code activates (e.g., 15 min before start)
   accessCodeValidUntil: timestamp("access_code_valid_until"), // Code expires (e.g., end time + 15 min)
-  // No-show tracking (kitchen overstay tracking removed — not enforceable without smart locks)
+  accessCodePushStatus: text("access_code_push_status"),    // 'pending' | 'pushed' | 'failed'; NULL when no lock provider
+  // No-show tracking (late check-outs are billed through kitchen_overtime_records)
   noShowDetectedAt: timestamp("no_show_detected_at"),
   actualStartTime: text("actual_start_time"),   // HH:MM of actual check-in
   actualEndTime: text("actual_end_time"),        // HH:MM of actual check-out
   // Checklist audit trail (items chef confirmed during check-in/out)
   checkinChecklistItems: jsonb("checkin_checklist_items"), // Array of {id, label, checked: true}
   checkoutChecklistItems: jsonb("checkout_checklist_items"), // Array of {id, label, checked: true}
+  // Recurring series membership (null for one-off bookings)
+  seriesId: integer("series_id").references(() => kitchenBookingSeries.id, { onDelete: "set null" }),
+  seriesOccurrenceIndex: integer("series_occurrence_index"), // 0-based position within the series
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ── Recurring Kitchen Booking Series ────────────────────────────────────────
+// A series stores the recurrence rule; each occurrence is a normal kitchen_bookings
+// row linked via series_id. All occurrences share one consolidated PaymentIntent.
+export const kitchenBookingSeries = pgTable("kitchen_booking_series", {
+  id: serial("id").primaryKey(),
+  referenceCode: text("reference_code").unique(), // Human-friendly reference e.g. KS-A7K9MX
+  chefId: integer("chef_id").references(() => users.id).notNull(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id).notNull(),
+  frequency: text("frequency").notNull(), // 'weekly' | 'biweekly' | 'daily' (multi-day stay)
+  daysOfWeek: jsonb("days_of_week").default([]).notNull(), // Array of 0-6, Sunday is 0
+  startDate: timestamp("start_date").notNull(), // First date the rule is evaluated from
+  untilDate: timestamp("until_date"), // Inclusive end date (null when occurrenceCount is used)
+  occurrenceCount: integer("occurrence_count"), // Number of occurrences (null when untilDate is used)
+  excludedDates: jsonb("excluded_dates").default([]), // YYYY-MM-DD dates skipped at checkout (conflicts, holidays)
+  startTime: text("start_time").notNull(), // HH:MM format
+  endTime: text("end_time").notNull(), // HH:MM format
+  selectedSlots: jsonb("selected_slots").default([]), // Same slot shape as kitchen_bookings.selected_slots
+  status: text("status").default("active").notNull(), // 'active' | 'cancelled' | 'completed'
+  paymentIntentId: text("payment_intent_id"), // Consolidated PaymentIntent covering every occurrence
+  perOccurrencePriceCents: numeric("per_occurrence_price_cents"), // Kitchen subtotal per occurrence (pre-tax)
+  currency: text("currency").default("CAD").notNull(),
+  specialNotes: text("special_notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type KitchenBookingSeries = typeof kitchenBookingSeries.$inferSelect;
+export type InsertKitchenBookingSeries = typeof kitchenBookingSeries.$inferInsert;
+
+// ── Kitchen Pricing Rules (peak / off-peak) ─────────────────────────────────
+// Time-of-day adjustments evaluated per 1-hour slot on top of kitchens.hourly_rate.
+// When several rules match a slot, the highest priority wins (newest on ties).
+export const kitchenPricingRules = pgTable("kitchen_pricing_rules", {
+  id: serial("id").primaryKey(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(), // Shown to chefs and on invoices, e.g. "Friday evening"
+  daysOfWeek: jsonb("days_of_week").default([]).notNull(), // Array of 0-6, Sunday is 0
+  startTime: text("start_time").notNull(), // HH:MM format, inclusive
+  endTime: text("end_time").notNull(), // HH:MM format, exclusive
+  adjustmentType: text("adjustment_type").notNull(), // 'multiplier' | 'fixed_rate'
+  multiplier: numeric("multiplier"), // e.g. 1.5 for +50%, 0.8 for -20% (adjustmentType = 'multiplier')
+  fixedRate: numeric("fixed_rate"), // Hourly rate in cents (adjustmentType = 'fixed_rate')
+  validFrom: date("valid_from"), // Inclusive; null = no start bound
+  validUntil: date("valid_until"), // Inclusive; null = no end bound
+  priority: integer("priority").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type KitchenPricingRule = typeof kitchenPricingRules.$inferSelect;
+export type InsertKitchenPricingRule = typeof kitchenPricingRules.$inferInsert;
+
+// Promo codes redeemable at kitchen booking checkout. Admin-managed; a code is
+// either platform-wide (locationId null) or limited to one location.
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored uppercase, matched case-insensitively
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // 'percent' | 'fixed'
+  discountValue: numeric("discount_value").notNull(), // Percent (e.g. 15) or cents (discountType = 'fixed')
+  maxDiscountCents: integer("max_discount_cents"), // Cap for percent codes; null = uncapped
+  minSubtotalCents: integer("min_subtotal_cents"), // Minimum pre-tax subtotal; null = none
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "cascade" }), // null = platform-wide
+  absorbedBy: text("absorbed_by").default("platform").notNull(), // 'platform' | 'manager' — who funds the discount
+  maxRedemptions: integer("max_redemptions"), // Total uses across all chefs; null = unlimited
+  perChefLimit: integer("per_chef_limit"), // Uses per chef; null = unlimited
+  startsAt: timestamp("starts_at"), // null = active immediately
+  expiresAt: timestamp("expires_at"), // null = never expires
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = typeof promoCodes.$inferInsert;
+
+// One row per paid booking that used a promo code. Written by the checkout
+// webhook; counts against maxRedemptions / perChefLimit.
+export const promoCodeRedemptions = pgTable("promo_code_redemptions", {
+  id: serial("id").primaryKey(),
+  promoCodeId: integer("promo_code_id").references(() => promoCodes.id, { onDelete: "set null" }),
+  code: text("code").notNull(), // Kept so history survives code deletion
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  bookingId: integer("booking_id").references(() => kitchenBookings.id, { onDelete: "set null" }),
+  paymentIntentId: text("payment_intent_id").unique(), // Idempotency for webhook retries
+  discountCents: integer("discount_cents").notNull(),
+  absorbedBy: text("absorbed_by").notNull(),
+  status: text("status").default("completed").notNull(), // 'pending' (reserved at checkout), 'completed', 'released'
+  checkoutSessionId: text("checkout_session_id"), // Stripe session a pending reservation belongs to
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type PromoCodeRedemption = typeof promoCodeRedemptions.$inferSelect;
+
+// Prepaid credit packages a manager sells for one location, e.g. "$500 of
+// kitchen time for $450". Credit bought from a package is only spendable there.
+export const chefWalletPackages = pgTable("chef_wallet_packages", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  creditCents: integer("credit_cents").notNull(), // Credit added to the chef's wallet
+  priceCents: integer("price_cents").notNull(), // What the chef pays; the difference is funded by the manager
+  validityDays: integer("validity_days"), // Credit expires this many days after purchase; null = never
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ChefWalletPackage = typeof chefWalletPackages.$inferSelect;
+
+// Chef wallet ledger. Credits ('purchase', 'promotional', 'refund_credit') are
+// lots with a remaining balance that redemptions draw down; debits
+// ('redemption', 'expiry') record what was taken from which lots. A checkout
+// redemption stays 'pending' until the booking webhook completes it.
+export const chefWalletEntries = pgTable("chef_wallet_entries", {
+  id: serial("id").primaryKey(),
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  entryType: text("entry_type").notNull(), // 'purchase' | 'promotional' | 'refund_credit' | 'redemption' | 'expiry'
+  amountCents: integer("amount_cents").notNull(), // Positive for credits, negative for debits
+  remainingCents: integer("remaining_cents"), // Unspent part of a credit lot; null for debits
+  fundedCents: integer("funded_cents"), // Cash the platform holds for a credit lot (paid price, or full amount for platform-funded credit)
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "set null" }), // Credit lot spendable only here; null = any location
+  currency: text("currency").default("CAD").notNull(), // Credit lot spendable only on bookings charged in this currency
+  packageId: integer("package_id").references(() => chefWalletPackages.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at"), // Credit lots only; null = never expires
+  status: text("status").default("completed").notNull(), // 'pending' | 'completed' | 'released'
+  allocations: jsonb("allocations"), // Debits: [{entryId, amountCents, fundedCents}] taken from each lot
+  bookingId: integer("booking_id").references(() => kitchenBookings.id, { onDelete: "set null" }),
+  paymentIntentId: text("payment_intent_id"),
+  checkoutSessionId: text("checkout_session_id").unique(), // Idempotency for package purchase webhooks
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ChefWalletEntry = typeof chefWalletEntries.$inferSelect;
+
+// Chefs waiting for a fully booked kitchen time range. When a booking on that
+// kitchen/date frees up, the oldest matching entry is offered a time-limited
+// hold; an expired hold falls through to the next chef in line.
+export const kitchenWaitlistEntries = pgTable("kitchen_waitlist_entries", {
+  id: serial("id").primaryKey(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).notNull(),
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  bookingDate: timestamp("booking_date").notNull(),
+  startTime: text("start_time").notNull(), // HH:MM
+  endTime: text("end_time").notNull(), // HH:MM
+  status: text("status").default("waiting").notNull(), // 'waiting', 'offered', 'claimed', 'expired', 'cancelled'
+  offeredAt: timestamp("offered_at"),
+  holdExpiresAt: timestamp("hold_expires_at"), // Slot is reserved for this chef until then
+  claimedBookingId: integer("claimed_booking_id").references(() => kitchenBookings.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export type KitchenWaitlistEntry = typeof kitchenWaitlistEntries.$inferSelect;
+
+// Secret-token iCalendar feed per user. The token is the only credential for
+// the feed URL, so regenerating it revokes every existing calendar subscription.
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  token: text("token").notNull().unique(),
+  lastAccessedAt: timestamp("last_accessed_at"), // Last fetch by a calendar app
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+
+// ── External Calendar Imports ───────────────────────────────────────────────
+// A manager-subscribed ICS source (URL or uploaded file) for a kitchen. Timed
+// events become manager_blocked bookings, all-day events become closed date
+// overrides. Re-synced by the daily cron.
+export const kitchenCalendarImports = pgTable("kitchen_calendar_imports", {
+  id: serial("id").primaryKey(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(), // e.g. "Catering calendar"
+  sourceUrl: text("source_url"), // ICS URL (null for uploaded files)
+  fileName: text("file_name"), // Original name of an uploaded .ics file
+  icsContent: text("ics_content"), // Uploaded file contents (re-synced from here)
+  isActive: boolean("is_active").default(true).notNull(),
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastSyncStatus: text("last_sync_status"), // 'success' | 'error'
+  lastSyncError: text("last_sync_error"),
+  lastSyncSummary: jsonb("last_sync_summary"), // {created, updated, removed, skipped, conflicts}
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per imported event per local day, linking it to the block it created
+// so re-syncs can move or remove that block. Unique on (import_id, event_uid, occurrence_date).
+export const kitchenCalendarImportEvents = pgTable("kitchen_calendar_import_events", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id").references(() => kitchenCalendarImports.id, { onDelete: "cascade" }).notNull(),
+  eventUid: text("event_uid").notNull(),
+  occurrenceDate: text("occurrence_date").notNull(), // YYYY-MM-DD in the location's timezone
+  startTime: text("start_time"), // HH:MM, null for all-day blocks
+  endTime: text("end_time"), // HH:MM, null for all-day blocks
+  summary: text("summary"),
+  kitchenBookingId: integer("kitchen_booking_id").references(() => kitchenBookings.id, { onDelete: "set null" }),
+  dateOverrideId: integer("date_override_id").references(() => kitchenDateOverrides.id, { onDelete: "set null" }),
+  conflictBookingIds: jsonb("conflict_booking_ids").default([]), // Chef bookings this block overlaps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type KitchenCalendarImport = typeof kitchenCalendarImports.$inferSelect;
+export type KitchenCalendarImportEvent = typeof kitchenCalendarImportEvents.$inferSelect;
+
 // Access code audit trail
 export const accessCodeAudit = pgTable("access_code_audit", {
   id: serial("id").primaryKey(),
   bookingId: integer("booking_id").references(() => kitchenBookings.id, { onDelete: "cascade" }),
   kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).notNull(),
-  action: text("action").notNull(),             // 'generated', 'expired', 'revoked', 'regenerated'
+  action: text("action").notNull(),             // 'generated', 'expired', 'revoked', 'regenerated', 'pushed', 'push_failed', 'removed', 'remove_failed'
   accessCodeHash: text("access_code_hash"),      // Hash of the code at time of action (for correlation, not plaintext)
   source: text("source").default("system").notNull(), // 'system', 'manager_app', 'api'
   metadata: jsonb("metadata").default({}),       // Extra context (e.g., revocation reason)
@@ -612,6 +865,45 @@ export type InsertCheckinCheckoutChecklist = z.infer<typeof insertCheckinCheckou
 export type ChecklistItem = z.infer<typeof checklistItemSchema>;
 export type PhotoRequirement = z.infer<typeof photoRequirementSchema>;
 
+// ── Checklist Templates (per-kitchen / per-storage-listing overrides) ───────
+// A kitchen or storage listing can override sections of its location's
+// checklist. Every column is nullable: null inherits the parent's value, a
+// value replaces it. Kitchen bookings resolve location -> kitchen; storage
+// bookings resolve location -> kitchen -> storage listing.
+export const checklistTemplates = pgTable("checklist_templates", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "cascade" }).notNull(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).unique(),
+  storageListingId: integer("storage_listing_id").references(() => storageListings.id, { onDelete: "cascade" }).unique(),
+
+  checkinEnabled: boolean("checkin_enabled"),
+  checkinItems: jsonb("checkin_items"),
+  checkinPhotoRequirements: jsonb("checkin_photo_requirements"),
+  checkinInstructions: text("checkin_instructions"),
+
+  checkoutEnabled: boolean("checkout_enabled"),
+  checkoutItems: jsonb("checkout_items"),
+  checkoutPhotoRequirements: jsonb("checkout_photo_requirements"),
+  checkoutInstructions: text("checkout_instructions"),
+
+  storageCheckoutEnabled: boolean("storage_checkout_enabled"),
+  storageCheckoutItems: jsonb("storage_checkout_items"),
+  storageCheckoutPhotoRequirements: jsonb("storage_checkout_photo_requirements"),
+  storageCheckoutInstructions: text("storage_checkout_instructions"),
+
+  storageCheckinEnabled: boolean("storage_checkin_enabled"),
+  storageCheckinItems: jsonb("storage_checkin_items"),
+  storageCheckinPhotoRequirements: jsonb("storage_checkin_photo_requirements"),
+  storageCheckinInstructions: text("storage_checkin_instructions"),
+
+  smartLockCheckinInstructions: text("smart_lock_checkin_instructions"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ChecklistTemplate = typeof checklistTemplates.$inferSelect;
+
 // Zod schema for a single completed checklist item (audit trail)
 export const completedChecklistItemSchema = z.object({
   id: z.string(),
@@ -620,12 +912,22 @@ export const completedChecklistItemSchema = z.object({
 });
 export type CompletedChecklistItem = z.infer<typeof completedChecklistItemSchema>;
 
+// Zod schema for a submitted condition photo, kept alongside the flat *PhotoUrls
+// arrays so check-in and check-out photos can be paired by requirement
+export const conditionPhotoSchema = z.object({
+  url: z.string(),
+  requirementId: z.string().nullable(), // PhotoRequirement.id, null for generic/extra photos
+  uploadedAt: z.string(), // ISO timestamp the photo was submitted
+  uploadedBy: z.number().int().nullable(),
+});
+export type ConditionPhoto = z.infer<typeof conditionPhotoSchema>;
+
 // Zod schema for time window settings (location-level overrides)
-// Note: checkout review window is admin-only (platform setting); kitchen
-// overstay tracking has been removed — neither appears here.
+// Note: checkout review window is admin-only (platform setting) and does not appear here.
 export const timeWindowSettingsSchema = z.object({
   checkinWindowMinutesBefore: z.number().int().min(0).nullable(),
   noShowGraceMinutes: z.number().int().min(0).nullable(),
+  overtimeGraceMinutes: z.number().int().min(0).nullable(),
 });
 export type TimeWindowSettings = z.infer<typeof timeWindowSettingsSchema>;
 
@@ -709,6 +1011,7 @@ export const insertLocationSchema = createInsertSchema(locations, {
   notificationPhone: optionalPhoneNumberSchema, // Optional phone for SMS notifications
   description: z.string().optional(),
   customOnboardingLink: z.string().optional(),
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(),
 }).omit({
   id: true,
   createdAt: true,
@@ -724,6 +1027,7 @@ export const updateLocationSchema = z.object({
   notificationPhone: optionalPhoneNumberSchema, // Optional phone for SMS notifications
   description: z.string().optional(),
   customOnboardingLink: z.string().optional(),
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(),
 });
 
 // Zod schemas for location requirements
@@ -801,9 +1105,11 @@ export const insertKitchenSchema = createInsertSchema(kitchens, {
   description: z.string().optional(),
   isActive: z.boolean().optional(),
   hourlyRate: z.number().int().positive("Hourly rate must be positive").optional(),
-  currency: z.string().min(3).max(3).optional(),
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(),
   minimumBookingHours: z.number().int().min(0, "Minimum booking hours cannot be negative").max(24, "Minimum booking hours cannot exceed 24").optional(),
   pricingModel: z.enum(["hourly", "daily", "weekly"]).optional(),
+  dailyRate: z.number().int().positive("Daily rate must be positive").nullable().optional(),
+  weeklyRate: z.number().int().positive("Weekly rate must be positive").nullable().optional(),
   taxRatePercent: z.number().min(0).max(100).nullable().optional(),
 }).omit({
   id: true,
@@ -817,9 +1123,11 @@ export const updateKitchenSchema = z.object({
   description: z.string().optional(),
   isActive: z.boolean().optional(),
   hourlyRate: z.number().int().positive("Hourly rate must be positive").optional(),
-  currency: z.string().min(3).max(3).optional(),
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(),
   minimumBookingHours: z.number().int().min(0, "Minimum booking hours cannot be negative").max(24, "Minimum booking hours cannot exceed 24").optional(),
   pricingModel: z.enum(["hourly", "daily", "weekly"]).optional(),
+  dailyRate: z.number().int().positive("Daily rate must be positive").nullable().optional(),
+  weeklyRate: z.number().int().positive("Weekly rate must be positive").nullable().optional(),
   taxRatePercent: z.number().min(0).max(100).nullable().optional(),
 });
 
@@ -1045,10 +1353,11 @@ export const storageListings = pgTable("storage_listings", {
   pricingModel: storagePricingModelEnum("pricing_model").notNull(),
   basePrice: numeric("base_price").notNull(), // Base price in cents (integer)
   pricePerCubicFoot: numeric("price_per_cubic_foot"), // For per-cubic-foot model (in cents)
+  monthlySubscriptionPrice: numeric("monthly_subscription_price"), // Monthly auto-renewing rate in cents; null = subscriptions not offered
   // Booking duration (flexible: hourly, daily, or monthly)
   minimumBookingDuration: integer("minimum_booking_duration").default(1).notNull(), // Minimum booking duration (number)
   bookingDurationUnit: bookingDurationUnitEnum("booking_duration_unit").default("monthly").notNull(), // Unit: hourly, daily, or monthly
-  currency: text("currency").default("CAD").notNull(), // Locked to CAD
+  currency: text("currency").default("CAD").notNull(), // Inherited from the kitchen's location
 
   // Status & moderation (admin approval workflow)
   status: listingStatusEnum("status").default("draft").notNull(),
@@ -1088,6 +1397,7 @@ export const insertStorageListingSchema = createInsertSchema(storageListings, {
   pricingModel: z.enum(["monthly-flat", "per-cubic-foot", "hourly", "daily"]),
   basePrice: z.number().int().positive("Base price must be positive"),
   pricePerCubicFoot: z.number().int().positive("Price per cubic foot must be positive").optional(),
+  monthlySubscriptionPrice: z.number().int().positive("Monthly subscription price must be positive").optional().nullable(),
   minimumBookingDuration: z.number().int().positive("Minimum booking duration must be positive").optional(),
   bookingDurationUnit: z.enum(["hourly", "daily", "monthly"]).optional(),
   dimensionsLength: z.number().positive().optional(),
@@ -1112,7 +1422,7 @@ export const insertStorageListingSchema = createInsertSchema(storageListings, {
   approvedBy: true,
   approvedAt: true,
   rejectionReason: true,
-  currency: true, // Always CAD, not user-selectable
+  currency: true, // Inherited from the location, not user-selectable
 });
 
 export const updateStorageListingSchema = z.object({
@@ -1123,6 +1433,7 @@ export const updateStorageListingSchema = z.object({
   pricingModel: z.enum(["monthly-flat", "per-cubic-foot", "hourly", "daily"]).optional(),
   basePrice: z.number().int().positive().optional(),
   pricePerCubicFoot: z.number().int().positive().optional(),
+  monthlySubscriptionPrice: z.number().int().positive().optional().nullable(),
   minimumBookingDuration: z.number().int().positive().optional(),
   bookingDurationUnit: z.enum(["hourly", "daily", "monthly"]).optional(),
   dimensionsLength: z.number().positive().optional(),
@@ -1202,7 +1513,7 @@ export const insertEquipmentListingSchema = createInsertSchema(equipmentListings
   createdAt: true,
   updatedAt: true,
   status: true,
-  currency: true, // Always CAD, not user-selectable
+  currency: true, // Inherited from the location, not user-selectable
 });
 
 export const updateEquipmentListingSchema = z.object({
@@ -1248,6 +1559,8 @@ export const storageBookings = pgTable("storage_bookings", {
   paymentIntentId: text("payment_intent_id"), // Stripe PaymentIntent ID (shared across bundled items in same kitchen booking)
   serviceFee: numeric("service_fee").default("0"), // Platform commission in cents
   currency: text("currency").default("CAD").notNull(),
+  refundedAmount: numeric("refunded_amount").default("0"), // Line-item refunds in cents (tax included)
+  refundedDays: integer("refunded_days").default(0).notNull(), // Storage days refunded by line item
   // Stripe fields for off-session penalty charging
   stripePaymentMethodId: text("stripe_payment_method_id"), // Saved payment method for penalties
   stripeCustomerId: text("stripe_customer_id"), // Denormalized for quick access
@@ -1260,6 +1573,7 @@ export const storageBookings = pgTable("storage_bookings", {
   checkoutApprovedBy: integer("checkout_approved_by").references(() => users.id, { onDelete: "set null" }),
   checkoutNotes: text("checkout_notes"),
   checkoutPhotoUrls: jsonb("checkout_photo_urls").default([]), // R2 URLs for verification photos
+  checkoutPhotoDetails: jsonb("checkout_photo_details").default([]), // ConditionPhoto[] (requirement, time, uploader per photo)
   checkoutDeniedAt: timestamp("checkout_denied_at"),
   checkoutDeniedBy: integer("checkout_denied_by").references(() => users.id, { onDelete: "set null" }),
   checkoutDenialReason: text("checkout_denial_reason"),
@@ -1272,6 +1586,7 @@ export const storageBookings = pgTable("storage_bookings", {
   checkinCompletedAt: timestamp("checkin_completed_at"),
   checkinNotes: text("checkin_notes"),
   checkinPhotoUrls: jsonb("checkin_photo_urls").default([]), // R2 URLs for move-in photos
+  checkinPhotoDetails: jsonb("checkin_photo_details").default([]), // ConditionPhoto[]
   checkinChecklistItems: jsonb("checkin_checklist_items"), // Array of {id, label, checked: true}
   
   // Chef cancellation request tracking (mirrors kitchen_bookings pattern)
@@ -1300,7 +1615,7 @@ export const insertStorageBookingSchema = createInsertSchema(storageBookings, {
   id: true,
   createdAt: true,
   updatedAt: true,
-  currency: true, // Always CAD, not user-selectable
+  currency: true, // Inherited from the location, not user-selectable
 });
 
 export const updateStorageBookingSchema = z.object({
@@ -1409,6 +1724,7 @@ export const equipmentBookings = pgTable("equipment_bookings", {
   paymentIntentId: text("payment_intent_id"), // Stripe PaymentIntent ID (shared across bundled items in same kitchen booking)
   serviceFee: numeric("service_fee").default("0"), // Platform commission in cents
   currency: text("currency").default("CAD").notNull(),
+  refundedAmount: numeric("refunded_amount").default("0"), // Line-item refunds in cents (tax included)
   // NOTE: No delivery/pickup fields - equipment stays in kitchen
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -1432,7 +1748,7 @@ export const insertEquipmentBookingSchema = createInsertSchema(equipmentBookings
   id: true,
   createdAt: true,
   updatedAt: true,
-  currency: true, // Always CAD, not user-selectable
+  currency: true, // Inherited from the location, not user-selectable
 });
 
 export const updateEquipmentBookingSchema = z.object({
@@ -1619,7 +1935,7 @@ export type UpdateApplicationTier = z.infer<typeof updateApplicationTierSchema>;
 // Centralized table for tracking all payment transactions across booking types
 export const paymentTransactions = pgTable("payment_transactions", {
   id: serial("id").primaryKey(),
-  bookingId: integer("booking_id").notNull(), // References kitchen_bookings.id, storage_bookings.id, or equipment_bookings.id
+  bookingId: integer("booking_id").notNull(), // References kitchen_bookings.id, storage_bookings.id, equipment_bookings.id, or chef_wallet_entries.id (wallet)
   bookingType: bookingTypeEnum("booking_type").notNull(), // Which booking table this transaction belongs to
   chefId: integer("chef_id").references(() => users.id, { onDelete: "set null" }), // Chef who made the payment
   managerId: integer("manager_id").references(() => users.id, { onDelete: "set null" }), // Manager who receives the payment
@@ -1638,6 +1954,9 @@ export const paymentTransactions = pgTable("payment_transactions", {
   refundId: text("refund_id"), // Stripe Refund ID
   paymentMethodId: text("payment_method_id"), // Stripe PaymentMethod ID
   transferId: text("transfer_id"), // Stripe Transfer ID (post-capture transfer to manager Connect account)
+  // Sales tax collected (included in amount)
+  taxCents: integer("tax_cents"), // Tax in cents; null = not recorded
+  taxBreakdown: jsonb("tax_breakdown"), // TaxBreakdown: per-type split (GST/HST/PST/QST/RST) and jurisdiction
   // Status tracking
   status: transactionStatusEnum("status").notNull().default("pending"),
   stripeStatus: text("stripe_status"), // Raw Stripe status for comparison
@@ -1692,6 +2011,66 @@ export type InsertPaymentTransaction = z.infer<typeof insertPaymentTransactionSc
 export type UpdatePaymentTransaction = z.infer<typeof updatePaymentTransactionSchema>;
 export type PaymentHistory = typeof paymentHistory.$inferSelect;
 
+// ===== LOCATION REVENUE SHARES TABLE =====
+// Payout split for co-managed locations. Each recipient is a manager with their
+// own Connect account; shares sum to 100. No rows = the location's manager gets 100%.
+export const locationRevenueShares = pgTable("location_revenue_shares", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "cascade" }).notNull(),
+  recipientUserId: integer("recipient_user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  sharePercent: numeric("share_percent").notNull(), // e.g. 60.00
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// ===== PAYMENT TRANSFER SPLITS TABLE =====
+// One row per Stripe Transfer made to a revenue-share recipient. A split payment
+// has several rows per transfer kind; refunds reverse each of them pro rata.
+export const paymentTransferSplits = pgTable("payment_transfer_splits", {
+  id: serial("id").primaryKey(),
+  paymentTransactionId: integer("payment_transaction_id").references(() => paymentTransactions.id, { onDelete: "cascade" }).notNull(),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "set null" }),
+  recipientUserId: integer("recipient_user_id").references(() => users.id, { onDelete: "set null" }),
+  connectAccountId: text("connect_account_id").notNull(),
+  sharePercent: numeric("share_percent").notNull(),
+  transferKind: text("transfer_kind").default("booking").notNull(), // 'booking' | 'promo_top_up' | 'wallet_top_up'
+  amountCents: integer("amount_cents").notNull(),
+  reversedCents: integer("reversed_cents").default(0).notNull(),
+  transferId: text("transfer_id").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type LocationRevenueShare = typeof locationRevenueShares.$inferSelect;
+export type PaymentTransferSplit = typeof paymentTransferSplits.$inferSelect;
+export type TransferSplitKind = "booking" | "promo_top_up" | "wallet_top_up";
+
+// ===== STRIPE RECONCILIATION ISSUES TABLE =====
+// Discrepancies found by matching Stripe balance transactions to payment_transactions.
+// One row per balance transaction and issue type; re-runs update open rows in place.
+export const stripeReconciliationIssues = pgTable("stripe_reconciliation_issues", {
+  id: serial("id").primaryKey(),
+  issueType: text("issue_type").notNull(), // 'missing_transaction' | 'amount_mismatch' | 'orphaned_refund' | 'transfer_without_booking'
+  status: text("status").notNull().default("open"), // open, fixed, dismissed
+  balanceTransactionId: text("balance_transaction_id").notNull(), // Stripe txn_...
+  stripeObjectId: text("stripe_object_id").notNull(), // Charge, refund or transfer the balance transaction is for
+  paymentIntentId: text("payment_intent_id"),
+  paymentTransactionId: integer("payment_transaction_id").references(() => paymentTransactions.id, { onDelete: "set null" }),
+  stripeAmountCents: integer("stripe_amount_cents"), // What Stripe recorded
+  ledgerAmountCents: integer("ledger_amount_cents"), // What payment_transactions recorded (null = no row)
+  currency: text("currency").notNull().default("CAD"),
+  details: jsonb("details").default({}), // { field, reason, ... }
+  stripeCreatedAt: timestamp("stripe_created_at").notNull(),
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }), // null = resolved by a later run
+  resolution: text("resolution"), // Fix applied or reason dismissed
+});
+
+export type StripeReconciliationIssue = typeof stripeReconciliationIssues.$inferSelect;
+export type ReconciliationIssueType = "missing_transaction" | "amount_mismatch" | "orphaned_refund" | "transfer_without_booking";
+
 // ===== PENDING STORAGE EXTENSIONS TABLE =====
 // Tracks pending storage extension requests awaiting payment and manager approval
 export const pendingStorageExtensions = pgTable("pending_storage_extensions", {
@@ -1721,6 +2100,34 @@ export const pendingStorageExtensions = pgTable("pending_storage_extensions", {
 export type PendingStorageExtension = typeof pendingStorageExtensions.$inferSelect;
 export type InsertPendingStorageExtension = typeof pendingStorageExtensions.$inferInsert;
 
+// ===== STORAGE SUBSCRIPTIONS TABLE =====
+// Monthly auto-renewing storage on an existing storage booking. The booking's
+// end_date is the paid-through date: each renewal is charged off-session to the
+// booking's saved payment method and moves end_date to the next period end.
+// Failed renewals are retried (past_due); only once retries are exhausted
+// (unpaid) does the booking fall through to overstay detection.
+export const storageSubscriptions = pgTable("storage_subscriptions", {
+  id: serial("id").primaryKey(),
+  storageBookingId: integer("storage_booking_id").references(() => storageBookings.id, { onDelete: "cascade" }).notNull(),
+  storageListingId: integer("storage_listing_id").references(() => storageListings.id, { onDelete: "cascade" }).notNull(),
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "set null" }),
+  status: text("status").default("active").notNull(), // 'active' | 'past_due' | 'canceled' | 'unpaid'
+  monthlyPriceCents: integer("monthly_price_cents").notNull(), // Locked in when the subscription starts
+  currentPeriodStart: timestamp("current_period_start").notNull(),
+  currentPeriodEnd: timestamp("current_period_end").notNull(), // Always the 1st of a month
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  failedAttempts: integer("failed_attempts").default(0).notNull(),
+  nextRetryAt: timestamp("next_retry_at"),
+  lastFailureReason: text("last_failure_reason"),
+  lastPaymentIntentId: text("last_payment_intent_id"),
+  canceledAt: timestamp("canceled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type StorageSubscription = typeof storageSubscriptions.$inferSelect;
+export type StorageSubscriptionStatus = "active" | "past_due" | "canceled" | "unpaid";
+
 // ===== OVERSTAY STATUS ENUM =====
 export const overstayStatusEnum = pgEnum('overstay_status', [
   'detected',           // System detected overstay
@@ -1772,6 +2179,8 @@ export const storageOverstayRecords = pgTable("storage_overstay_records", {
   chargeSucceededAt: timestamp("charge_succeeded_at"),
   chargeFailedAt: timestamp("charge_failed_at"),
   chargeFailureReason: text("charge_failure_reason"),
+  chargeRetryCount: integer("charge_retry_count").default(0).notNull(), // Failed off-session attempts (dunning)
+  nextChargeRetryAt: timestamp("next_charge_retry_at"), // Next dunning retry; null when none is scheduled
   
   // Resolution tracking
   resolvedAt: timestamp("resolved_at"),
@@ -1874,6 +2283,7 @@ export const evidenceTypeEnum = pgEnum('evidence_type', [
   'video',              // Video evidence
   'document',           // Other supporting document
   'third_party_report', // Insurance or professional report
+  'photo_comparison',   // Generated check-in vs check-out photo comparison PDF
 ]);
 
 // ===== DAMAGE CLAIMS TABLE =====
@@ -1922,6 +2332,8 @@ export const damageClaims = pgTable("damage_claims", {
   chargeSucceededAt: timestamp("charge_succeeded_at"),
   chargeFailedAt: timestamp("charge_failed_at"),
   chargeFailureReason: text("charge_failure_reason"),
+  chargeRetryCount: integer("charge_retry_count").default(0).notNull(), // Failed off-session attempts (dunning)
+  nextChargeRetryAt: timestamp("next_charge_retry_at"), // Next dunning retry; null when none is scheduled
   
   // Stripe IDs for off-session charging
   stripeCustomerId: text("stripe_customer_id"),
@@ -1986,7 +2398,7 @@ export const damageClaimHistory = pgTable("damage_claim_history", {
 
 // Zod validation schemas for damage claims
 const damageClaimStatusValues = ['draft', 'submitted', 'chef_accepted', 'chef_disputed', 'under_review', 'approved', 'partially_approved', 'rejected', 'charge_pending', 'charge_succeeded', 'charge_failed', 'resolved', 'expired', 'escalated'] as const;
-const evidenceTypeValues = ['photo_before', 'photo_after', 'receipt', 'invoice', 'video', 'document', 'third_party_report'] as const;
+const evidenceTypeValues = ['photo_before', 'photo_after', 'receipt', 'invoice', 'video', 'document', 'third_party_report', 'photo_comparison'] as const;
 
 // Damaged equipment item schema for kitchen booking claims
 export const damagedItemSchema = z.object({
@@ -2083,4 +2495,102 @@ export type DamageEvidence = typeof damageEvidence.$inferSelect;
 export type InsertDamageEvidence = z.infer<typeof insertDamageEvidenceSchema>;
 export type DamageClaimHistory = typeof damageClaimHistory.$inferSelect;
 export type DamageClaimStatus = typeof damageClaimStatusValues[number];
-export type EvidenceType = typeof evidenceTypeValues[number];
\ No newline at end of file
+export type EvidenceType = typeof evidenceTypeValues[number];
+// ===== SECURITY DEPOSITS TABLE =====
+// Refundable deposit for a kitchen booking's rental equipment, held on the chef's
+// saved card separately from the booking payment. Held as a manual-capture
+// authorization when it can be released before the authorization lapses;
+// otherwise captured up front and refunded on release.
+export const securityDeposits = pgTable("security_deposits", {
+  id: serial("id").primaryKey(),
+  kitchenBookingId: integer("kitchen_booking_id").references(() => kitchenBookings.id, { onDelete: "cascade" }).notNull().unique(),
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "set null" }),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").default("CAD").notNull(),
+  holdMethod: text("hold_method").notNull(), // 'authorization' | 'capture'
+  status: text("status").notNull().default("held"), // held, released, applied, failed, expired
+  stripePaymentIntentId: text("stripe_payment_intent_id").unique(),
+  stripeChargeId: text("stripe_charge_id"),
+  stripeRefundId: text("stripe_refund_id"),
+  appliedCents: integer("applied_cents").default(0).notNull(), // Kept for a damage claim
+  damageClaimId: integer("damage_claim_id").references(() => damageClaims.id, { onDelete: "set null" }),
+  heldAt: timestamp("held_at"),
+  authorizationExpiresAt: timestamp("authorization_expires_at"), // Authorizations only
+  releasedAt: timestamp("released_at"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type SecurityDeposit = typeof securityDeposits.$inferSelect;
+export type SecurityDepositHoldMethod = "authorization" | "capture";
+export type SecurityDepositStatus = "held" | "released" | "applied" | "failed" | "expired";
+
+// ===== CREDIT NOTES TABLE =====
+// Issued for every line-item refund on a booking payment. Lines record what
+// was refunded per storage or equipment booking so the PDF can be reissued.
+export interface CreditNoteLine {
+  itemType: "storage" | "equipment";
+  itemId: number;
+  description: string;
+  quantity: number;
+  unitLabel: "day" | "rental";
+  subtotalCents: number;
+  taxCents: number;
+  totalCents: number;
+}
+
+export const creditNotes = pgTable("credit_notes", {
+  id: serial("id").primaryKey(),
+  paymentTransactionId: integer("payment_transaction_id").references(() => paymentTransactions.id, { onDelete: "cascade" }).notNull(),
+  managerId: integer("manager_id").references(() => users.id, { onDelete: "set null" }),
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "set null" }),
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "set null" }),
+  refundedTo: text("refunded_to").notNull().default("card"), // 'card' | 'wallet'
+  stripeRefundId: text("stripe_refund_id"), // Null for wallet credit
+  transferReversalId: text("transfer_reversal_id"),
+  currency: text("currency").default("CAD").notNull(),
+  subtotalCents: integer("subtotal_cents").notNull(),
+  taxCents: integer("tax_cents").notNull(),
+  totalCents: integer("total_cents").notNull(),
+  lineItems: jsonb("line_items").notNull(), // CreditNoteLine[]
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CreditNote = typeof creditNotes.$inferSelect;
+
+// ===== KITCHEN OVERTIME RECORDS TABLE =====
+// A chef who checks out after the booked end time (plus the location's grace
+// period) is proposed an overtime charge at the kitchen's hourly rate.
+// Like storage overstays it is NEVER auto-charged - the manager approves,
+// adjusts or waives it, then the saved card is charged off-session.
+export const kitchenOvertimeRecords = pgTable("kitchen_overtime_records", {
+  id: serial("id").primaryKey(),
+  kitchenBookingId: integer("kitchen_booking_id").references(() => kitchenBookings.id, { onDelete: "cascade" }).notNull().unique(),
+  kitchenId: integer("kitchen_id").references(() => kitchens.id, { onDelete: "cascade" }).notNull(),
+  chefId: integer("chef_id").references(() => users.id, { onDelete: "set null" }),
+  bookedEndAt: timestamp("booked_end_at").notNull(),
+  checkedOutAt: timestamp("checked_out_at").notNull(),
+  overtimeMinutes: integer("overtime_minutes").notNull(), // Past the booked end time
+  graceMinutes: integer("grace_minutes").notNull(), // Grace period in effect at detection
+  billableMinutes: integer("billable_minutes").notNull(), // overtimeMinutes rounded up to the billing increment
+  hourlyRateCents: integer("hourly_rate_cents").notNull(),
+  calculatedChargeCents: integer("calculated_charge_cents").notNull(), // System proposal (pre-tax)
+  finalChargeCents: integer("final_charge_cents"), // NULL until the manager decides
+  currency: text("currency").default("CAD").notNull(),
+  status: text("status").notNull().default("pending_review"), // pending_review, approved, waived, charge_pending, charge_succeeded, charge_failed
+  decidedBy: integer("decided_by").references(() => users.id, { onDelete: "set null" }),
+  decidedAt: timestamp("decided_at"),
+  waiveReason: text("waive_reason"),
+  managerNotes: text("manager_notes"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripeChargeId: text("stripe_charge_id"),
+  chargedAt: timestamp("charged_at"),
+  chargeFailureReason: text("charge_failure_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type KitchenOvertimeRecord = typeof kitchenOvertimeRecords.$inferSelect;
+export type KitchenOvertimeStatus = "pending_review" | "approved" | "waived" | "charge_pending" | "charge_succeeded" | "charge_failed";
@@ -47,6 +47,75 @@ export function createBookingDateTime(dateStr: string, timeStr: string, timezone
   return new Date(tzDate.getTime());
 }
 
+/**
+ * Longest overnight/multi-day booking, in calendar days after the start date.
+ */
+export const MAX_BOOKING_SPAN_DAYS = 14;
+
+/**
+ * Shift a YYYY-MM-DD date string by whole days (calendar arithmetic, no timezone)
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days, 12)).toISOString().split('T')[0];
+}
+
+/**
+ * Whole calendar days from startDateStr to endDateStr (YYYY-MM-DD); negative if end is earlier
+ */
+export function getDayOffset(startDateStr: string, endDateStr: string): number {
+  const [sy, sm, sd] = startDateStr.split('-').map(Number);
+  const [ey, em, ed] = endDateStr.split('-').map(Number);
+  return Math.round((Date.UTC(ey, em - 1, ed) - Date.UTC(sy, sm - 1, sd)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Split a booking into one segment per local calendar day. Overnight and
+ * multi-day bookings end their first day at "24:00" and start later days at
+ * "00:00". Returns [] when the end is not after the start.
+ * @param bookingDate - Start date in YYYY-MM-DD format
+ * @param endDate - Date endTime falls on (YYYY-MM-DD); omitted = same day
+ */
+export function getBookingDaySegments(
+  bookingDate: string,
+  startTime: string,
+  endTime: string,
+  endDate?: string | null
+): Array<{ date: string; startTime: string; endTime: string }> {
+  const dayOffset = endDate ? getDayOffset(bookingDate, endDate) : 0;
+  if (dayOffset < 0 || (dayOffset === 0 && endTime <= startTime)) return [];
+
+  const segments: Array<{ date: string; startTime: string; endTime: string }> = [];
+  for (let i = 0; i <= dayOffset; i++) {
+    segments.push({
+      date: addDaysToDateString(bookingDate, i),
+      startTime: i === 0 ? startTime : '00:00',
+      endTime: i === dayOffset ? endTime : '24:00',
+    });
+  }
+  // An overnight booking ending exactly at midnight has nothing on its last day
+  return segments.filter(segment => segment.endTime > segment.startTime);
+}
+
+/**
+ * Start and end instants of a booking in the location's timezone, following
+ * it across midnight when it has an end date.
+ * @param bookingDate - Start date in YYYY-MM-DD format
+ * @param endDate - Date endTime falls on (YYYY-MM-DD); omitted = same day
+ */
+export function getBookingWindow(
+  bookingDate: string,
+  startTime: string,
+  endTime: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  endDate?: string | null
+): { start: Date; end: Date } {
+  return {
+    start: createBookingDateTime(bookingDate, startTime, timezone),
+    end: createBookingDateTime(endDate || bookingDate, endTime, timezone),
+  };
+}
+
 /**
  * Check if a booking time is in the past
  * @param bookingDate - Date string in YYYY-MM-DD format
@@ -65,10 +134,10 @@ export function isBookingTimePast(bookingDate: string, bookingTime: string, time
  * @param startTime - Start time string in HH:MM format
  * @param endTime - End time string in HH:MM format
  * @param timezone - Timezone identifier (default: Newfoundland)
+ * @param endDate - Date endTime falls on for overnight bookings (YYYY-MM-DD)
  */
-export function isBookingActive(bookingDate: string, startTime: string, endTime: string, timezone: string = DEFAULT_TIMEZONE): boolean {
-  const startDateTime = createBookingDateTime(bookingDate, startTime, timezone);
-  const endDateTime = createBookingDateTime(bookingDate, endTime, timezone);
+export function isBookingActive(bookingDate: string, startTime: string, endTime: string, timezone: string = DEFAULT_TIMEZONE, endDate?: string | null): boolean {
+  const { start: startDateTime, end: endDateTime } = getBookingWindow(bookingDate, startTime, endTime, timezone, endDate);
   const now = getNowInTimezone(timezone);
   
   return isWithinInterval(now, { start: startDateTime, end: endDateTime });
@@ -91,9 +160,10 @@ export function isBookingUpcoming(bookingDate: string, startTime: string, timezo
  * @param bookingDate - Date string in YYYY-MM-DD format
  * @param endTime - End time string in HH:MM format
  * @param timezone - Timezone identifier (default: Newfoundland)
+ * @param endDate - Date endTime falls on for overnight bookings (YYYY-MM-DD)
  */
-export function isBookingPast(bookingDate: string, endTime: string, timezone: string = DEFAULT_TIMEZONE): boolean {
-  const endDateTime = createBookingDateTime(bookingDate, endTime, timezone);
+export function isBookingPast(bookingDate: string, endTime: string, timezone: string = DEFAULT_TIMEZONE, endDate?: string | null): boolean {
+  const endDateTime = createBookingDateTime(endDate || bookingDate, endTime, timezone);
   const now = getNowInTimezone(timezone);
   return isBefore(endDateTime, now);
 }